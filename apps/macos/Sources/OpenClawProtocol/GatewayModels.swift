@@ -202,6 +202,94 @@ public struct EventFrame: Codable, Sendable {
     }
 }
 
+public struct BatchCall: Codable, Sendable {
+    public let id: String
+    public let method: String
+    public let params: AnyCodable?
+
+    public init(
+        id: String,
+        method: String,
+        params: AnyCodable?)
+    {
+        self.id = id
+        self.method = method
+        self.params = params
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case method
+        case params
+    }
+}
+
+public struct BatchRequestFrame: Codable, Sendable {
+    public let type: String
+    public let id: String
+    public let calls: [BatchCall]
+
+    public init(
+        type: String,
+        id: String,
+        calls: [BatchCall])
+    {
+        self.type = type
+        self.id = id
+        self.calls = calls
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case type
+        case id
+        case calls
+    }
+}
+
+public struct BatchResult: Codable, Sendable {
+    public let id: String
+    public let ok: Bool
+    public let error: [String: AnyCodable]?
+
+    public init(
+        id: String,
+        ok: Bool,
+        error: [String: AnyCodable]?)
+    {
+        self.id = id
+        self.ok = ok
+        self.error = error
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case id
+        case ok
+        case error
+    }
+}
+
+public struct BatchResponseFrame: Codable, Sendable {
+    public let type: String
+    public let id: String
+    public let results: [BatchResult]
+
+    public init(
+        type: String,
+        id: String,
+        results: [BatchResult])
+    {
+        self.type = type
+        self.id = id
+        self.results = results
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case type
+        case id
+        case results
+    }
+}
+
 public struct PresenceEntry: Codable, Sendable {
     public let host: String?
     public let ip: String?
@@ -1268,6 +1356,46 @@ public struct SessionsCompactParams: Codable, Sendable {
     }
 }
 
+public struct SessionsForkParams: Codable, Sendable {
+    public let key: String
+    public let messageindex: Int?
+    public let label: String?
+
+    public init(
+        key: String,
+        messageindex: Int?,
+        label: String?)
+    {
+        self.key = key
+        self.messageindex = messageindex
+        self.label = label
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case messageindex = "messageIndex"
+        case label
+    }
+}
+
+public struct SessionsSwitchParams: Codable, Sendable {
+    public let key: String
+    public let branch: String
+
+    public init(
+        key: String,
+        branch: String)
+    {
+        self.key = key
+        self.branch = branch
+    }
+
+    private enum CodingKeys: String, CodingKey {
+        case key
+        case branch
+    }
+}
+
 public struct SessionsUsageParams: Codable, Sendable {
     public let key: String?
     public let startdate: String?
@@ -2383,6 +2511,8 @@ public struct CronJob: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
+    public let blackout: [String: AnyCodable]?
     public let state: [String: AnyCodable]
 
     public init(
@@ -2400,6 +2530,8 @@ public struct CronJob: Codable, Sendable {
         wakemode: AnyCodable,
         payload: AnyCodable,
         delivery: AnyCodable?,
+        retry: [String: AnyCodable]?,
+        blackout: [String: AnyCodable]?,
         state: [String: AnyCodable])
     {
         self.id = id
@@ -2416,6 +2548,8 @@ public struct CronJob: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.blackout = blackout
         self.state = state
     }
 
@@ -2434,6 +2568,8 @@ public struct CronJob: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case blackout
         case state
     }
 }
@@ -2490,6 +2626,8 @@ public struct CronAddParams: Codable, Sendable {
     public let wakemode: AnyCodable
     public let payload: AnyCodable
     public let delivery: AnyCodable?
+    public let retry: [String: AnyCodable]?
+    public let blackout: [String: AnyCodable]?
 
     public init(
         name: String,
@@ -2502,7 +2640,9 @@ public struct CronAddParams: Codable, Sendable {
         sessiontarget: AnyCodable,
         wakemode: AnyCodable,
         payload: AnyCodable,
-        delivery: AnyCodable?)
+        delivery: AnyCodable?,
+        retry: [String: AnyCodable]?,
+        blackout: [String: AnyCodable]?)
     {
         self.name = name
         self.agentid = agentid
@@ -2515,6 +2655,8 @@ public struct CronAddParams: Codable, Sendable {
         self.wakemode = wakemode
         self.payload = payload
         self.delivery = delivery
+        self.retry = retry
+        self.blackout = blackout
     }
 
     private enum CodingKeys: String, CodingKey {
@@ -2529,6 +2671,8 @@ public struct CronAddParams: Codable, Sendable {
         case wakemode = "wakeMode"
         case payload
         case delivery
+        case retry
+        case blackout
     }
 }
 
@@ -2601,6 +2745,10 @@ public struct CronRunLogEntry: Codable, Sendable {
     public let runatms: Int?
     public let durationms: Int?
     public let nextrunatms: Int?
+    public let attempt: Int?
+    public let maxattempts: Int?
+    public let retryatms: Int?
+    public let retryexhausted: Bool?
     public let model: String?
     public let provider: String?
     public let usage: [String: AnyCodable]?
@@ -2621,6 +2769,10 @@ public struct CronRunLogEntry: Codable, Sendable {
         runatms: Int?,
         durationms: Int?,
         nextrunatms: Int?,
+        attempt: Int?,
+        maxattempts: Int?,
+        retryatms: Int?,
+        retryexhausted: Bool?,
         model: String?,
         provider: String?,
         usage: [String: AnyCodable]?,
@@ -2640,6 +2792,10 @@ public struct CronRunLogEntry: Codable, Sendable {
         self.runatms = runatms
         self.durationms = durationms
         self.nextrunatms = nextrunatms
+        self.attempt = attempt
+        self.maxattempts = maxattempts
+        self.retryatms = retryatms
+        self.retryexhausted = retryexhausted
         self.model = model
         self.provider = provider
         self.usage = usage
@@ -2661,6 +2817,10 @@ public struct CronRunLogEntry: Codable, Sendable {
         case runatms = "runAtMs"
         case durationms = "durationMs"
         case nextrunatms = "nextRunAtMs"
+        case attempt
+        case maxattempts = "maxAttempts"
+        case retryatms = "retryAtMs"
+        case retryexhausted = "retryExhausted"
         case model
         case provider
         case usage
@@ -30,6 +30,9 @@ describe("diffs plugin registration", () => {
       registerCli() {},
       registerService() {},
       registerProvider() {},
+      registerTtsProvider() {},
+      registerWebSearchProvider() {},
+      registerSandboxRuntime() {},
       registerCommand() {},
       resolvePath(input: string) {
         return input;
@@ -91,6 +94,9 @@ describe("diffs plugin registration", () => {
       registerCli() {},
       registerService() {},
       registerProvider() {},
+      registerTtsProvider() {},
+      registerWebSearchProvider() {},
+      registerSandboxRuntime() {},
       registerCommand() {},
       resolvePath(input: string) {
         return input;
@@ -208,6 +208,9 @@ function createApi(): OpenClawPluginApi {
     registerCli() {},
     registerService() {},
     registerProvider() {},
+    registerTtsProvider() {},
+    registerWebSearchProvider() {},
+    registerSandboxRuntime() {},
     registerCommand() {},
     resolvePath(input: string) {
       return input;
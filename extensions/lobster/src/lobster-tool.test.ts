@@ -40,6 +40,9 @@ function fakeApi(overrides: Partial<OpenClawPluginApi> = {}): OpenClawPluginApi
     registerCli() {},
     registerService() {},
     registerProvider() {},
+    registerTtsProvider() {},
+    registerWebSearchProvider() {},
+    registerSandboxRuntime() {},
     registerHook() {},
     registerHttpRoute() {},
     registerCommand() {},
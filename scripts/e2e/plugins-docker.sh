@@ -109,7 +109,7 @@ JS
 JSON
   tar -czf /tmp/demo-plugin-tgz.tgz -C "$pack_dir" package
 
-	  node "$OPENCLAW_ENTRY" plugins install /tmp/demo-plugin-tgz.tgz
+	  node "$OPENCLAW_ENTRY" plugins install --yes /tmp/demo-plugin-tgz.tgz
 	  node "$OPENCLAW_ENTRY" plugins list --json > /tmp/plugins2.json
 
   node - <<'"'"'NODE'"'"'
@@ -155,7 +155,7 @@ JS
 }
 JSON
 
-	  node "$OPENCLAW_ENTRY" plugins install "$dir_plugin"
+	  node "$OPENCLAW_ENTRY" plugins install --yes "$dir_plugin"
 	  node "$OPENCLAW_ENTRY" plugins list --json > /tmp/plugins3.json
 
   node - <<'"'"'NODE'"'"'
@@ -202,7 +202,7 @@ JS
 }
 JSON
 
-	  node "$OPENCLAW_ENTRY" plugins install "file:$file_pack_dir/package"
+	  node "$OPENCLAW_ENTRY" plugins install --yes "file:$file_pack_dir/package"
 	  node "$OPENCLAW_ENTRY" plugins list --json > /tmp/plugins4.json
 
   node - <<'"'"'NODE'"'"'
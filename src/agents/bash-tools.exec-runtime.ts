@@ -21,7 +21,7 @@ import {
   tail,
 } from "./bash-process-registry.js";
 import {
-  buildDockerExecArgs,
+  buildSandboxExecArgv,
   chunkString,
   clampWithDefault,
   readEnvInt,
@@ -379,16 +379,13 @@ export async function runExecProcess(opts: {
     if (opts.sandbox) {
       return {
         mode: "child" as const,
-        argv: [
-          "docker",
-          ...buildDockerExecArgs({
-            containerName: opts.sandbox.containerName,
-            command: execCommand,
-            workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
-            env: opts.env,
-            tty: opts.usePty,
-          }),
-        ],
+        argv: buildSandboxExecArgv({
+          sandbox: opts.sandbox,
+          command: execCommand,
+          workdir: opts.containerWorkdir ?? opts.sandbox.containerWorkdir,
+          env: opts.env,
+          tty: opts.usePty,
+        }),
         env: process.env,
         stdinMode: opts.usePty ? ("pipe-open" as const) : ("pipe-closed" as const),
       };
@@ -2,6 +2,7 @@ import { existsSync, statSync } from "node:fs";
 import fs from "node:fs/promises";
 import { homedir } from "node:os";
 import path from "node:path";
+import type { PluginSandboxRuntime } from "../plugins/types.js";
 import { sliceUtf16Safe } from "../utils.js";
 import { assertSandboxPath } from "./sandbox-paths.js";
 
@@ -12,6 +13,8 @@ export type BashSandboxConfig = {
   workspaceDir: string;
   containerWorkdir: string;
   env?: Record<string, string>;
+  /** Plugin sandbox runtime; `containerName` is its handle when set. */
+  runtime?: PluginSandboxRuntime;
 };
 
 export function buildSandboxEnv(params: {
@@ -46,6 +49,22 @@ export function coerceEnv(env?: NodeJS.ProcessEnv | Record<string, string>) {
   return record;
 }
 
+function resolveSandboxShellCommand(command: string, env: Record<string, string>) {
+  const hasCustomPath = typeof env.PATH === "string" && env.PATH.length > 0;
+  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
+  // overriding both Docker ENV and -e PATH=... environment variables.
+  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
+  // while preserving system paths that /etc/profile may have added.
+  const pathExport = hasCustomPath
+    ? 'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; '
+    : "";
+  return {
+    // Avoid interpolating PATH into the shell command; pass it via env instead.
+    env: hasCustomPath ? { ...env, OPENCLAW_PREPEND_PATH: env.PATH } : env,
+    argv: ["sh", "-lc", `${pathExport}${command}`],
+  };
+}
+
 export function buildDockerExecArgs(params: {
   containerName: string;
   command: string;
@@ -60,25 +79,45 @@ export function buildDockerExecArgs(params: {
   if (params.workdir) {
     args.push("-w", params.workdir);
   }
-  for (const [key, value] of Object.entries(params.env)) {
+  const shell = resolveSandboxShellCommand(params.command, params.env);
+  for (const [key, value] of Object.entries(shell.env)) {
     args.push("-e", `${key}=${value}`);
   }
-  const hasCustomPath = typeof params.env.PATH === "string" && params.env.PATH.length > 0;
-  if (hasCustomPath) {
-    // Avoid interpolating PATH into the shell command; pass it via env instead.
-    args.push("-e", `OPENCLAW_PREPEND_PATH=${params.env.PATH}`);
-  }
-  // Login shell (-l) sources /etc/profile which resets PATH to a minimal set,
-  // overriding both Docker ENV and -e PATH=... environment variables.
-  // Prepend custom PATH after profile sourcing to ensure custom tools are accessible
-  // while preserving system paths that /etc/profile may have added.
-  const pathExport = hasCustomPath
-    ? 'export PATH="${OPENCLAW_PREPEND_PATH}:$PATH"; unset OPENCLAW_PREPEND_PATH; '
-    : "";
-  args.push(params.containerName, "sh", "-lc", `${pathExport}${params.command}`);
+  args.push(params.containerName, ...shell.argv);
   return args;
 }
 
+/** Host argv for a sandboxed command: `docker exec`, or the slot plugin's launcher. */
+export function buildSandboxExecArgv(params: {
+  sandbox: BashSandboxConfig;
+  command: string;
+  workdir?: string;
+  env: Record<string, string>;
+  tty: boolean;
+}): string[] {
+  const runtime = params.sandbox.runtime;
+  if (!runtime) {
+    return [
+      "docker",
+      ...buildDockerExecArgs({
+        containerName: params.sandbox.containerName,
+        command: params.command,
+        workdir: params.workdir,
+        env: params.env,
+        tty: params.tty,
+      }),
+    ];
+  }
+  const shell = resolveSandboxShellCommand(params.command, params.env);
+  return runtime.buildExecArgv({
+    handle: params.sandbox.containerName,
+    argv: shell.argv,
+    workdir: params.workdir,
+    env: shell.env,
+    tty: params.tty,
+  });
+}
+
 export async function resolveSandboxWorkdir(params: {
   workdir: string;
   sandbox: BashSandboxConfig;
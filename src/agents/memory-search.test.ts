@@ -214,6 +214,45 @@ describe("memory search config", () => {
     });
   });
 
+  it("resolves rerank defaults and agent overrides", () => {
+    const cfg = asConfig({
+      agents: {
+        defaults: {
+          memorySearch: {
+            provider: "openai",
+            query: {
+              rerank: {
+                enabled: true,
+                provider: "remote",
+                remote: { baseUrl: "https://rerank.example/v1", apiKey: "rerank-key" },
+              },
+            },
+          },
+        },
+        list: [
+          { id: "main", default: true },
+          { id: "ops", memorySearch: { query: { rerank: { provider: "llm", candidates: 500 } } } },
+        ],
+      },
+    });
+    expect(resolveMemorySearchConfig(cfg, "main")?.query.rerank).toEqual({
+      enabled: true,
+      provider: "remote",
+      model: undefined,
+      candidates: 20,
+      timeoutMs: 5000,
+      remote: { baseUrl: "https://rerank.example/v1", apiKey: "rerank-key", headers: undefined },
+      local: { modelCacheDir: undefined },
+    });
+    expect(resolveMemorySearchConfig(cfg, "ops")?.query.rerank).toMatchObject({
+      enabled: true,
+      provider: "llm",
+      candidates: 100,
+      timeoutMs: 15_000,
+      remote: undefined,
+    });
+  });
+
   it("gates session sources behind experimental flag", () => {
     const cfg = asConfig({
       agents: {
@@ -2,6 +2,7 @@ import os from "node:os";
 import path from "node:path";
 import type { OpenClawConfig, MemorySearchConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
+import type { MemoryRerankProvider } from "../config/types.memory.js";
 import { clampInt, clampNumber, resolveUserPath } from "../utils.js";
 import { resolveAgentConfig } from "./agent-scope.js";
 
@@ -71,6 +72,21 @@ export type ResolvedMemorySearchConfig = {
         halfLifeDays: number;
       };
     };
+    rerank: {
+      enabled: boolean;
+      provider: MemoryRerankProvider;
+      model?: string;
+      candidates: number;
+      timeoutMs: number;
+      remote?: {
+        baseUrl?: string;
+        apiKey?: string;
+        headers?: Record<string, string>;
+      };
+      local: {
+        modelCacheDir?: string;
+      };
+    };
   };
   cache: {
     enabled: boolean;
@@ -97,6 +113,11 @@ const DEFAULT_MMR_ENABLED = false;
 const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
+const DEFAULT_RERANK_ENABLED = false;
+const DEFAULT_RERANK_PROVIDER: MemoryRerankProvider = "local";
+const DEFAULT_RERANK_CANDIDATES = 20;
+const DEFAULT_RERANK_TIMEOUT_MS = 5000;
+const DEFAULT_LLM_RERANK_TIMEOUT_MS = 15_000;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -273,6 +294,37 @@ function mergeConfig(
         DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS,
     },
   };
+  const rerankProvider =
+    overrides?.query?.rerank?.provider ??
+    defaults?.query?.rerank?.provider ??
+    DEFAULT_RERANK_PROVIDER;
+  const rerankRemote = {
+    baseUrl: overrides?.query?.rerank?.remote?.baseUrl ?? defaults?.query?.rerank?.remote?.baseUrl,
+    apiKey: overrides?.query?.rerank?.remote?.apiKey ?? defaults?.query?.rerank?.remote?.apiKey,
+    headers: overrides?.query?.rerank?.remote?.headers ?? defaults?.query?.rerank?.remote?.headers,
+  };
+  const rerank = {
+    enabled:
+      overrides?.query?.rerank?.enabled ??
+      defaults?.query?.rerank?.enabled ??
+      DEFAULT_RERANK_ENABLED,
+    provider: rerankProvider,
+    model: overrides?.query?.rerank?.model ?? defaults?.query?.rerank?.model,
+    candidates:
+      overrides?.query?.rerank?.candidates ??
+      defaults?.query?.rerank?.candidates ??
+      DEFAULT_RERANK_CANDIDATES,
+    timeoutMs:
+      overrides?.query?.rerank?.timeoutMs ??
+      defaults?.query?.rerank?.timeoutMs ??
+      (rerankProvider === "llm" ? DEFAULT_LLM_RERANK_TIMEOUT_MS : DEFAULT_RERANK_TIMEOUT_MS),
+    remote: rerankProvider === "remote" ? rerankRemote : undefined,
+    local: {
+      modelCacheDir:
+        overrides?.query?.rerank?.local?.modelCacheDir ??
+        defaults?.query?.rerank?.local?.modelCacheDir,
+    },
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -336,6 +388,13 @@ function mergeConfig(
           halfLifeDays: temporalDecayHalfLifeDays,
         },
       },
+      rerank: {
+        ...rerank,
+        enabled: Boolean(rerank.enabled),
+        model: rerank.model?.trim() || undefined,
+        candidates: clampInt(rerank.candidates, 1, 100),
+        timeoutMs: clampInt(rerank.timeoutMs, 100, 120_000),
+      },
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -48,6 +48,7 @@ import {
   pickFallbackThinkingLevel,
   type FailoverReason,
 } from "../pi-embedded-helpers.js";
+import { formatToolLoopRecoveryReply } from "../tool-loop-recovery.js";
 import { derivePromptTokens, normalizeUsage, type UsageLike } from "../usage.js";
 import { redactRunIdentifier, resolveRunWorkspaceDir } from "../workspace-run.js";
 import { compactEmbeddedPiSessionDirect } from "./compact.js";
@@ -198,6 +199,11 @@ export async function runEmbeddedPiAgent(
     params.enqueue ?? ((task, opts) => enqueueCommandInLane(globalLane, task, opts));
   const enqueueSession =
     params.enqueue ?? ((task, opts) => enqueueCommandInLane(sessionLane, task, opts));
+  // Reply priority only reorders the shared global lane; session lanes stay FIFO.
+  const globalQueueOptions =
+    params.lanePriority !== undefined
+      ? { priority: params.lanePriority, priorityMaxWaitMs: params.lanePriorityMaxWaitMs }
+      : undefined;
   const channelHint = params.messageChannel ?? params.messageProvider;
   const resolvedToolResultFormat =
     params.toolResultFormat ??
@@ -650,6 +656,45 @@ export async function runEmbeddedPiAgent(
           const lastTurnTotal = lastAssistantUsage?.total ?? attemptUsage?.total;
           const attemptCompactionCount = Math.max(0, attempt.compactionCount ?? 0);
           autoCompactionCount += attemptCompactionCount;
+
+          const toolLoopRecovery = attempt.toolLoopRecovery;
+          if (toolLoopRecovery) {
+            // Not the provider's fault: hand over to the next fallback model
+            // without touching auth profile cooldowns.
+            if (toolLoopRecovery.action === "switch-model" && fallbackConfigured) {
+              throw new FailoverError(
+                `Tool loop on ${provider}/${modelId}: ${toolLoopRecovery.message}`,
+                { reason: "unknown", provider, model: modelId },
+              );
+            }
+            return {
+              payloads: [
+                {
+                  text: formatToolLoopRecoveryReply(toolLoopRecovery, {
+                    toolCalls: attempt.toolMetas.length,
+                  }),
+                  isError: toolLoopRecovery.action !== "ask-user",
+                },
+              ],
+              meta: {
+                durationMs: Date.now() - started,
+                agentMeta: {
+                  sessionId: sessionIdUsed,
+                  provider,
+                  model: model.id,
+                  usage: toNormalizedUsage(usageAccumulator),
+                },
+                aborted: true,
+                systemPromptReport: attempt.systemPromptReport,
+                error: { kind: "tool_loop", message: toolLoopRecovery.message },
+              },
+              didSendViaMessagingTool: attempt.didSendViaMessagingTool,
+              messagingToolSentTexts: attempt.messagingToolSentTexts,
+              messagingToolSentMediaUrls: attempt.messagingToolSentMediaUrls,
+              messagingToolSentTargets: attempt.messagingToolSentTargets,
+              successfulCronAdds: attempt.successfulCronAdds,
+            };
+          }
           const activeErrorContext = resolveActiveErrorContext({
             lastAssistant,
             provider,
@@ -1159,6 +1204,6 @@ export async function runEmbeddedPiAgent(
       } finally {
         process.chdir(prevCwd);
       }
-    }),
+    }, globalQueueOptions),
   );
 }
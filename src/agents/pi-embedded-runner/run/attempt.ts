@@ -74,6 +74,12 @@ import { buildSystemPromptParams } from "../../system-prompt-params.js";
 import { buildSystemPromptReport } from "../../system-prompt-report.js";
 import { sanitizeToolCallIdsForCloudCodeAssist } from "../../tool-call-id.js";
 import { resolveEffectiveToolFsWorkspaceOnly } from "../../tool-fs-policy.js";
+import {
+  appendToolLoopRecoveryEntry,
+  buildToolLoopRecoveryNote,
+  isTerminalToolLoopRecovery,
+  type ToolLoopIntervention,
+} from "../../tool-loop-recovery.js";
 import { resolveTranscriptPolicy } from "../../transcript-policy.js";
 import { DEFAULT_BOOTSTRAP_FILENAME } from "../../workspace.js";
 import { isRunnerAbortError } from "../abort.js";
@@ -442,6 +448,7 @@ export async function runEmbeddedAttempt(
     config: params.config,
     sessionKey: sandboxSessionKey,
     workspaceDir: resolvedWorkspace,
+    runId: params.runId,
   });
   const effectiveWorkspace = sandbox?.enabled
     ? sandbox.workspaceAccess === "rw"
@@ -502,6 +509,11 @@ export async function runEmbeddedAttempt(
     });
     // Check if the model supports native image input
     const modelHasVision = params.model.input?.includes("image") ?? false;
+    // Tools are built before the agent session exists; the handler is bound once it does.
+    let handleToolLoopRecovery: ((intervention: ToolLoopIntervention) => void) | undefined;
+    let toolLoopRecovery: ToolLoopIntervention | undefined;
+    const onToolLoopRecovery = (intervention: ToolLoopIntervention) =>
+      handleToolLoopRecovery?.(intervention);
     const toolsRaw = params.disableTools
       ? []
       : createOpenClawCodingTools({
@@ -542,6 +554,7 @@ export async function runEmbeddedAttempt(
           requireExplicitMessageTarget:
             params.requireExplicitMessageTarget ?? isSubagentSessionKey(params.sessionKey),
           disableMessageTool: params.disableMessageTool,
+          onToolLoopRecovery,
         });
     const tools = sanitizeToolsForGoogle({ tools: toolsRaw, provider: params.provider });
     const allowedToolNames = collectAllowedToolNames({
@@ -800,6 +813,7 @@ export async function runEmbeddedAttempt(
               agentId: sessionAgentId,
               sessionKey: params.sessionKey,
               loopDetection: clientToolLoopDetection,
+              onLoopRecovery: onToolLoopRecovery,
             },
           )
         : [];
@@ -1041,6 +1055,35 @@ export async function runEmbeddedAttempt(
         }
         void activeSession.abort();
       };
+      handleToolLoopRecovery = (intervention) => {
+        try {
+          if (sessionManager) {
+            appendToolLoopRecoveryEntry(sessionManager, {
+              ...intervention,
+              timestamp: Date.now(),
+              runId: params.runId,
+              provider: params.provider,
+              model: params.modelId,
+            });
+          }
+        } catch (err) {
+          log.warn(`failed to persist tool-loop recovery entry: ${String(err)}`);
+        }
+        if (!isTerminalToolLoopRecovery(intervention.action)) {
+          activeSession.steer(buildToolLoopRecoveryNote(intervention)).catch((err: unknown) => {
+            log.warn(`tool-loop recovery note failed: runId=${params.runId} ${String(err)}`);
+          });
+          return;
+        }
+        if (toolLoopRecovery) {
+          return;
+        }
+        toolLoopRecovery = intervention;
+        log.warn(
+          `tool-loop recovery: runId=${params.runId} action=${intervention.action} detector=${intervention.detector} tool=${intervention.toolName} count=${intervention.count}`,
+        );
+        abortRun(false, new Error(`tool loop recovery: ${intervention.action}`));
+      };
       const abortable = <T>(promise: Promise<T>): Promise<T> => {
         const signal = runAbortController.signal;
         if (signal.aborted) {
@@ -1532,6 +1575,7 @@ export async function runEmbeddedAttempt(
         compactionCount: getCompactionCount(),
         // Client tool call detected (OpenResponses hosted tools)
         clientToolCall: clientToolCallDetected ?? undefined,
+        toolLoopRecovery,
       };
     } finally {
       // Always tear down the session (and release the lock) before we leave this attempt.
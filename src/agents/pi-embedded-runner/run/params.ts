@@ -97,6 +97,9 @@ export type RunEmbeddedPiAgentParams = {
   onToolResult?: (payload: { text?: string; mediaUrls?: string[] }) => void | Promise<void>;
   onAgentEvent?: (evt: { stream: string; data: Record<string, unknown> }) => void;
   lane?: string;
+  /** Priority within the global lane; higher values run before queued lower ones. */
+  lanePriority?: number;
+  lanePriorityMaxWaitMs?: number;
   enqueue?: typeof enqueueCommand;
   extraSystemPrompt?: string;
   inputProvenance?: InputProvenance;
@@ -8,6 +8,7 @@ import { resetDiagnosticSessionStateForTest } from "../logging/diagnostic-sessio
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { wrapToolWithBeforeToolCallHook } from "./pi-tools.before-tool-call.js";
 import { CRITICAL_THRESHOLD, GLOBAL_CIRCUIT_BREAKER_THRESHOLD } from "./tool-loop-detection.js";
+import type { ToolLoopIntervention } from "./tool-loop-recovery.js";
 import type { AnyAgentTool } from "./tools/common.js";
 
 vi.mock("../plugins/hook-runner-global.js");
@@ -318,4 +319,74 @@ describe("before_tool_call loop detection behavior", () => {
       });
     });
   });
+
+  it("hands critical loops to the recovery handler and coalesces notes", async () => {
+    const interventions: ToolLoopIntervention[] = [];
+    const execute = vi.fn().mockResolvedValue({
+      content: [{ type: "text", text: "(no new output)\n\nProcess still running." }],
+      details: { status: "running", aggregated: "steady" },
+    });
+    const tool = wrapToolWithBeforeToolCallHook(
+      { name: "process", execute } as unknown as AnyAgentTool,
+      {
+        ...enabledLoopDetectionContext,
+        loopDetection: { enabled: true, recovery: { knownPollNoProgress: "note" } },
+        onLoopRecovery: (intervention) => interventions.push(intervention),
+      },
+    );
+    const params = { action: "poll", sessionId: "sess-note" };
+
+    for (let i = 0; i < CRITICAL_THRESHOLD; i += 1) {
+      await tool.execute(`poll-${i}`, params, undefined, undefined);
+    }
+    for (let i = 0; i < 3; i += 1) {
+      await expect(tool.execute(`poll-blocked-${i}`, params, undefined, undefined)).rejects.toThrow(
+        "CRITICAL",
+      );
+    }
+
+    expect(interventions).toEqual([
+      expect.objectContaining({
+        action: "note",
+        detector: "known_poll_no_progress",
+        toolName: "process",
+        count: CRITICAL_THRESHOLD,
+      }),
+    ]);
+  });
+
+  it("resets loop history after run-ending recovery actions", async () => {
+    await withToolLoopEvents(async (emitted) => {
+      const interventions: ToolLoopIntervention[] = [];
+      const execute = vi.fn().mockResolvedValue({
+        content: [{ type: "text", text: "same output" }],
+        details: { ok: true },
+      });
+      const tool = wrapToolWithBeforeToolCallHook(
+        { name: "read", execute } as unknown as AnyAgentTool,
+        {
+          ...enabledLoopDetectionContext,
+          loopDetection: { enabled: true, recovery: { genericRepeat: "switch-model" } },
+          onLoopRecovery: (intervention) => interventions.push(intervention),
+        },
+      );
+      const params = { path: "/tmp/file" };
+
+      for (let i = 0; i < CRITICAL_THRESHOLD; i += 1) {
+        await tool.execute(`read-${i}`, params, undefined, undefined);
+      }
+      await expect(tool.execute("read-loop", params, undefined, undefined)).rejects.toThrow(
+        "CRITICAL",
+      );
+      await expect(tool.execute("read-next", params, undefined, undefined)).resolves.toBeDefined();
+
+      expect(interventions.map((entry) => entry.action)).toEqual(["switch-model"]);
+      expect(emitted.at(-1)).toMatchObject({
+        level: "critical",
+        action: "block",
+        detector: "generic_repeat",
+        recovery: "switch-model",
+      });
+    });
+  });
 });
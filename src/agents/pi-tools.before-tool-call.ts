@@ -3,6 +3,7 @@ import type { SessionState } from "../logging/diagnostic-session-state.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { getGlobalHookRunner } from "../plugins/hook-runner-global.js";
 import { isPlainObject } from "../utils.js";
+import type { ToolLoopIntervention } from "./tool-loop-recovery.js";
 import { normalizeToolName } from "./tool-policy.js";
 import type { AnyAgentTool } from "./tools/common.js";
 
@@ -10,6 +11,8 @@ export type HookContext = {
   agentId?: string;
   sessionKey?: string;
   loopDetection?: ToolLoopDetectionConfig;
+  /** Receives critical loops that have a configured recovery action. */
+  onLoopRecovery?: (intervention: ToolLoopIntervention) => void;
 };
 
 type HookOutcome = { blocked: true; reason: string } | { blocked: false; params: unknown };
@@ -83,7 +86,12 @@ export async function runBeforeToolCallHook(args: {
   if (args.ctx?.sessionKey) {
     const { getDiagnosticSessionState } = await import("../logging/diagnostic-session-state.js");
     const { logToolLoopAction } = await import("../logging/diagnostic.js");
-    const { detectToolCallLoop, recordToolCall } = await import("./tool-loop-detection.js");
+    const {
+      detectToolCallLoop,
+      recordToolCall,
+      resetToolCallHistory,
+      resolveToolLoopRecoveryAction,
+    } = await import("./tool-loop-detection.js");
 
     const sessionState = getDiagnosticSessionState({
       sessionKey: args.ctx.sessionKey,
@@ -94,6 +102,10 @@ export async function runBeforeToolCallHook(args: {
 
     if (loopResult.stuck) {
       if (loopResult.level === "critical") {
+        const onLoopRecovery = args.ctx.onLoopRecovery;
+        const recovery = onLoopRecovery
+          ? resolveToolLoopRecoveryAction(loopResult.detector, args.ctx.loopDetection)
+          : undefined;
         log.error(`Blocking ${toolName} due to critical loop: ${loopResult.message}`);
         logToolLoopAction({
           sessionKey: args.ctx.sessionKey,
@@ -105,7 +117,28 @@ export async function runBeforeToolCallHook(args: {
           count: loopResult.count,
           message: loopResult.message,
           pairedToolName: loopResult.pairedToolName,
+          recovery,
         });
+        if (onLoopRecovery && recovery) {
+          const recoveryKey = `recovery:${loopResult.warningKey ?? `${loopResult.detector}:${toolName}`}`;
+          // Notes are coalesced like warnings; run-ending actions always fire.
+          if (recovery !== "note") {
+            resetToolCallHistory(sessionState);
+          }
+          if (
+            recovery !== "note" ||
+            shouldEmitLoopWarning(sessionState, recoveryKey, loopResult.count)
+          ) {
+            onLoopRecovery({
+              action: recovery,
+              detector: loopResult.detector,
+              toolName,
+              count: loopResult.count,
+              message: loopResult.message,
+              pairedToolName: loopResult.pairedToolName,
+            });
+          }
+        }
         return {
           blocked: true,
           reason: loopResult.message,
@@ -45,6 +45,7 @@ import type { AnyAgentTool } from "./pi-tools.types.js";
 import type { SandboxContext } from "./sandbox.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
 import { createToolFsPolicy, resolveToolFsConfig } from "./tool-fs-policy.js";
+import type { ToolLoopIntervention } from "./tool-loop-recovery.js";
 import {
   applyToolPolicyPipeline,
   buildDefaultToolPolicyPipelineSteps,
@@ -168,6 +169,10 @@ export function resolveToolLoopDetectionConfig(params: {
       ...global.detectors,
       ...agent.detectors,
     },
+    recovery: {
+      ...global.recovery,
+      ...agent.recovery,
+    },
   };
 }
 
@@ -236,6 +241,8 @@ export function createOpenClawCodingTools(options?: {
   disableMessageTool?: boolean;
   /** Whether the sender is an owner (required for owner-only tools). */
   senderIsOwner?: boolean;
+  /** Receives tool-loop interventions that have a configured recovery action. */
+  onToolLoopRecovery?: (intervention: ToolLoopIntervention) => void;
 }): AnyAgentTool[] {
   const execToolName = "exec";
   const sandbox = options?.sandbox?.enabled ? options.sandbox : undefined;
@@ -404,6 +411,7 @@ export function createOpenClawCodingTools(options?: {
           workspaceDir: sandbox.workspaceDir,
           containerWorkdir: sandbox.containerWorkdir,
           env: sandbox.docker.env,
+          runtime: sandbox.runtime,
         }
       : undefined,
   });
@@ -531,6 +539,7 @@ export function createOpenClawCodingTools(options?: {
       agentId,
       sessionKey: options?.sessionKey,
       loopDetection: resolveToolLoopDetectionConfig({ cfg: options?.config, agentId }),
+      onLoopRecovery: options?.onToolLoopRecovery,
     }),
   );
   const withAbort = options?.abortSignal
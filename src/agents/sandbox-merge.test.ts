@@ -4,6 +4,7 @@ import {
   resolveSandboxDockerConfig,
   resolveSandboxPruneConfig,
   resolveSandboxScope,
+  resolveSandboxSnapshotConfig,
 } from "./sandbox/config.js";
 
 describe("sandbox config merges", () => {
@@ -128,4 +129,21 @@ describe("sandbox config merges", () => {
     });
     expect(pruneShared).toEqual({ idleHours: 24, maxAgeDays: 7 });
   });
+
+  it("keeps workspace snapshots off unless enabled", () => {
+    expect(resolveSandboxSnapshotConfig({ scope: "agent" }).enabled).toBe(false);
+    expect(
+      resolveSandboxSnapshotConfig({
+        scope: "agent",
+        globalSnapshots: { enabled: false },
+        agentSnapshots: { enabled: true },
+      }).enabled,
+    ).toBe(true);
+    expect(
+      resolveSandboxSnapshotConfig({
+        scope: "shared",
+        agentSnapshots: { enabled: true },
+      }).enabled,
+    ).toBe(false);
+  });
 });
@@ -1,5 +1,6 @@
 export {
   resolveSandboxBrowserConfig,
+  resolveSandboxBwrapConfig,
   resolveSandboxConfigForAgent,
   resolveSandboxDockerConfig,
   resolveSandboxPruneConfig,
@@ -26,6 +27,15 @@ export {
   resolveSandboxRuntimeStatus,
 } from "./sandbox/runtime-status.js";
 
+export { resolveSandboxScopeKey } from "./sandbox/shared.js";
+export {
+  findSandboxSnapshot,
+  listAllSandboxSnapshots,
+  listSandboxSnapshots,
+  restoreSandboxSnapshot,
+  type SandboxSnapshotMeta,
+} from "./sandbox/snapshots.js";
+
 export { resolveSandboxToolPolicyForAgent } from "./sandbox/tool-policy.js";
 
 export type {
@@ -36,6 +46,7 @@ export type {
   SandboxDockerConfig,
   SandboxPruneConfig,
   SandboxScope,
+  SandboxSnapshotConfig,
   SandboxToolPolicy,
   SandboxToolPolicyResolved,
   SandboxToolPolicySource,
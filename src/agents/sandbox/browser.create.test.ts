@@ -50,6 +50,7 @@ function buildConfig(enableNoVnc: boolean): SandboxConfig {
     scope: "session",
     workspaceAccess: "none",
     workspaceRoot: "/tmp/openclaw-sandboxes",
+    backend: "docker",
     docker: {
       image: "openclaw-sandbox:bookworm-slim",
       containerPrefix: "openclaw-sbx-",
@@ -78,10 +79,17 @@ function buildConfig(enableNoVnc: boolean): SandboxConfig {
       allow: ["browser"],
       deny: [],
     },
+    bwrap: {
+      command: "bwrap",
+      rootBinds: ["/usr"],
+      systemdScope: false,
+      dangerouslyAllowHostNetwork: false,
+    },
     prune: {
       idleHours: 24,
       maxAgeDays: 7,
     },
+    snapshots: { enabled: false, keep: 10, maxAgeDays: 7, maxBytes: 1024 },
   };
 }
 
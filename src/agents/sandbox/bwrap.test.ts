@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentSandboxConfig } from "../../config/types.agents-shared.js";
+import { buildBwrapExecArgv, createBwrapSandboxRuntime, type BwrapSandboxSpec } from "./bwrap.js";
+import { resolveSandboxConfigForAgent } from "./config.js";
+
+const execSandboxCommandRaw = vi.hoisted(() => vi.fn());
+
+vi.mock("./docker.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./docker.js")>()),
+  execSandboxCommandRaw,
+}));
+
+function sandboxConfig(sandbox?: AgentSandboxConfig) {
+  return resolveSandboxConfigForAgent(
+    { agents: { defaults: { sandbox: { mode: "all", backend: "bwrap", ...sandbox } } } },
+    "main",
+  );
+}
+
+function spec(overrides?: Partial<BwrapSandboxSpec>): BwrapSandboxSpec {
+  const cfg = sandboxConfig();
+  return {
+    docker: cfg.docker,
+    bwrap: cfg.bwrap,
+    workspaceDir: "/srv/sandboxes/main",
+    agentWorkspaceDir: "/home/me/agent",
+    workspaceAccess: "ro",
+    env: { LANG: "C.UTF-8" },
+    ...overrides,
+  };
+}
+
+function flagValues(argv: string[], flag: string): string[][] {
+  const values: string[][] = [];
+  argv.forEach((entry, index) => {
+    if (entry === flag) {
+      values.push(argv.slice(index + 1, index + 3));
+    }
+  });
+  return values;
+}
+
+describe("bwrap sandbox", () => {
+  beforeEach(() => {
+    execSandboxCommandRaw.mockReset();
+    execSandboxCommandRaw.mockResolvedValue({ stdout: Buffer.from(""), stderr: "", code: 0 });
+  });
+
+  it("mirrors the Docker workspace mounts, network and env", () => {
+    const base = spec();
+    const argv = buildBwrapExecArgv({
+      spec: {
+        ...base,
+        docker: { ...base.docker, binds: ["/srv/data:/data:ro", "/srv/cache:/cache"] },
+      },
+      argv: ["sh", "-lc", "ls"],
+      env: { HOME: "/workspace" },
+    });
+
+    expect(argv[0]).toBe("bwrap");
+    expect(argv).toContain("--unshare-net");
+    expect(argv).toContain("--new-session");
+    expect(flagValues(argv, "--bind")).toEqual([
+      ["/srv/sandboxes/main", "/workspace"],
+      ["/srv/cache", "/cache"],
+    ]);
+    expect(flagValues(argv, "--ro-bind")).toEqual([
+      ["/home/me/agent", "/agent"],
+      ["/srv/data", "/data"],
+    ]);
+    expect(flagValues(argv, "--tmpfs").map(([target]) => target)).toEqual([
+      "/tmp",
+      "/var/tmp",
+      "/run",
+    ]);
+    const roots = flagValues(argv, "--ro-bind-try").map(([root]) => root);
+    expect(roots).toContain("/etc/resolv.conf");
+    expect(roots).toContain("/etc/ssl");
+    expect(roots).not.toContain("/etc");
+    expect(argv).toContain("--remount-ro");
+    expect(flagValues(argv, "--setenv").map(([key]) => key)).toEqual(["PATH", "LANG", "HOME"]);
+    expect(argv.slice(argv.indexOf("--chdir"))).toEqual([
+      "--chdir",
+      "/workspace",
+      "--",
+      "sh",
+      "-lc",
+      "ls",
+    ]);
+  });
+
+  it("applies resource limits through prlimit or a systemd scope", () => {
+    const base = spec();
+    const docker = {
+      ...base.docker,
+      pidsLimit: 64,
+      memory: "512m",
+      cpus: 1.5,
+      ulimits: { nofile: { soft: 1024, hard: 2048 } },
+    };
+
+    const rlimited = buildBwrapExecArgv({ spec: { ...base, docker }, argv: ["true"] });
+    expect(rlimited.slice(0, rlimited.indexOf("bwrap"))).toEqual([
+      "prlimit",
+      "--nproc=64",
+      `--as=${512 * 1024 * 1024}`,
+      "--nofile=1024:2048",
+      "--",
+    ]);
+
+    const scoped = buildBwrapExecArgv({
+      spec: { ...base, docker, bwrap: { ...base.bwrap, systemdScope: true } },
+      argv: ["true"],
+    });
+    expect(scoped.slice(0, scoped.indexOf("bwrap"))).toEqual([
+      "systemd-run",
+      "--user",
+      "--scope",
+      "--quiet",
+      "--collect",
+      "-p",
+      `MemoryMax=${512 * 1024 * 1024}`,
+      "-p",
+      "CPUQuota=150%",
+      "-p",
+      "TasksMax=64",
+      "--",
+      "prlimit",
+      "--nofile=1024:2048",
+      "--",
+    ]);
+  });
+
+  it("shares the host network only for opted-in bridge and rejects custom networks", () => {
+    const base = spec();
+    const docker = { ...base.docker, network: "bridge" };
+    expect(() => buildBwrapExecArgv({ spec: { ...base, docker }, argv: ["true"] })).toThrow(
+      "set sandbox.bwrap.dangerouslyAllowHostNetwork: true",
+    );
+    const bridged = buildBwrapExecArgv({
+      spec: { ...base, docker, bwrap: { ...base.bwrap, dangerouslyAllowHostNetwork: true } },
+      argv: ["true"],
+    });
+    expect(bridged).not.toContain("--unshare-net");
+    expect(() =>
+      buildBwrapExecArgv({
+        spec: { ...base, docker: { ...base.docker, network: "openclaw-net" } },
+        argv: ["true"],
+      }),
+    ).toThrow('Sandbox bwrap backend supports network "none" or "bridge"; got "openclaw-net".');
+  });
+
+  it("prepares a handle per scope and runs the setup command once", async () => {
+    const runtime = createBwrapSandboxRuntime();
+    const cfg = sandboxConfig({
+      docker: { setupCommand: "echo ready", env: { OPENAI_API_KEY: "sk-test" } },
+    });
+    const ensure = () =>
+      runtime.ensure({
+        sessionKey: "agent:main:telegram:123",
+        workspaceDir: "/srv/sandboxes/main",
+        agentWorkspaceDir: "/home/me/agent",
+        cfg,
+      });
+
+    const handle = await ensure();
+    await ensure();
+
+    expect(handle).toMatch(/^openclaw-sbx-agent-main-/);
+    expect(execSandboxCommandRaw).toHaveBeenCalledTimes(1);
+    expect(execSandboxCommandRaw.mock.calls[0]?.[0].slice(-3)).toEqual(["sh", "-lc", "echo ready"]);
+    const argv = runtime.buildExecArgv({ handle, argv: ["true"] });
+    expect(flagValues(argv, "--setenv").map(([key]) => key)).toEqual(["PATH"]);
+    expect(() => runtime.buildExecArgv({ handle: "missing", argv: ["true"] })).toThrow(
+      "bwrap sandbox is not prepared: missing",
+    );
+  });
+
+  it("applies the Docker bind security policy", async () => {
+    const runtime = createBwrapSandboxRuntime();
+    await expect(
+      runtime.ensure({
+        sessionKey: "agent:main:main",
+        workspaceDir: "/srv/sandboxes/main",
+        agentWorkspaceDir: "/home/me/agent",
+        cfg: sandboxConfig({ docker: { binds: ["/etc/shadow:/shadow:ro"] } }),
+      }),
+    ).rejects.toThrow(/blocked path/i);
+  });
+});
@@ -0,0 +1,301 @@
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import type { PluginSandboxRuntime } from "../../plugins/types.js";
+import { splitSandboxBindSpec } from "./bind-spec.js";
+import { SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
+import { execSandboxCommandRaw, formatUlimitValue } from "./docker.js";
+import { normalizeNetworkMode } from "./network-mode.js";
+import { sanitizeEnvVars } from "./sanitize-env-vars.js";
+import { resolveSandboxScopeKey, slugifySessionKey } from "./shared.js";
+import type { SandboxBwrapConfig, SandboxDockerConfig, SandboxWorkspaceAccess } from "./types.js";
+import { validateSandboxSecurity } from "./validate-sandbox-security.js";
+
+const log = createSubsystemLogger("bwrap");
+
+// Images ship their own PATH; bubblewrap starts from a cleared env over host binaries.
+const DEFAULT_BWRAP_PATH = "/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+const MEMORY_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3,
+};
+
+/** Everything needed to rebuild a bubblewrap sandbox for one exec. */
+export type BwrapSandboxSpec = {
+  docker: SandboxDockerConfig;
+  bwrap: SandboxBwrapConfig;
+  workspaceDir: string;
+  agentWorkspaceDir: string;
+  workspaceAccess: SandboxWorkspaceAccess;
+  /** Sanitized `docker.env`. */
+  env: Record<string, string>;
+};
+
+/**
+ * `none` isolates the network namespace; `bridge` shares the host network
+ * (bubblewrap has no private bridge), so it needs `dangerouslyAllowHostNetwork`.
+ * Custom networks and container joins have no bubblewrap equivalent.
+ */
+export function resolveBwrapNetworkIsolation(
+  network: string | undefined,
+  allowHostNetwork = false,
+): boolean {
+  const normalized = normalizeNetworkMode(network) ?? "none";
+  if (normalized === "none") {
+    return true;
+  }
+  if (normalized === "bridge") {
+    if (!allowHostNetwork) {
+      throw new Error(
+        'Sandbox bwrap network "bridge" shares the host network namespace; set sandbox.bwrap.dangerouslyAllowHostNetwork: true to allow it.',
+      );
+    }
+    return false;
+  }
+  throw new Error(
+    `Sandbox bwrap backend supports network "none" or "bridge"; got "${network?.trim()}".`,
+  );
+}
+
+function parseMemoryBytes(value: string | number | undefined): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : undefined;
+  }
+  const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*([bkmg])?b?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const unit = MEMORY_UNITS[(match[2] ?? "b").toLowerCase()] ?? 1;
+  const bytes = Math.floor(Number.parseFloat(match[1] ?? "0") * unit);
+  return bytes > 0 ? bytes : undefined;
+}
+
+function parseNumericUser(user: string | undefined): { uid: string; gid: string } | null {
+  const match = user?.trim().match(/^(\d+)(?::(\d+))?$/);
+  if (!match?.[1]) {
+    return null;
+  }
+  return { uid: match[1], gid: match[2] ?? match[1] };
+}
+
+/** `systemd-run`/`prlimit` prefix that applies the docker resource limits. */
+function buildBwrapLimitPrefix(spec: BwrapSandboxSpec): string[] {
+  const { docker } = spec;
+  const prefix: string[] = [];
+  const pidsLimit =
+    typeof docker.pidsLimit === "number" && docker.pidsLimit > 0 ? docker.pidsLimit : undefined;
+  const memory = parseMemoryBytes(docker.memory);
+  const cpus = typeof docker.cpus === "number" && docker.cpus > 0 ? docker.cpus : undefined;
+
+  const useScope = spec.bwrap.systemdScope && (pidsLimit || memory || cpus);
+  if (useScope) {
+    prefix.push("systemd-run", "--user", "--scope", "--quiet", "--collect");
+    if (memory) {
+      prefix.push("-p", `MemoryMax=${memory}`);
+    }
+    if (cpus) {
+      prefix.push("-p", `CPUQuota=${Math.round(cpus * 100)}%`);
+    }
+    if (pidsLimit) {
+      prefix.push("-p", `TasksMax=${pidsLimit}`);
+    }
+    prefix.push("--");
+  }
+
+  const rlimits: string[] = [];
+  if (!useScope && pidsLimit) {
+    rlimits.push(`--nproc=${pidsLimit}`);
+  }
+  if (!useScope && memory) {
+    // Address-space cap: coarser than a cgroup limit, but needs no daemon.
+    rlimits.push(`--as=${memory}`);
+  }
+  for (const [name, value] of Object.entries(docker.ulimits ?? {})) {
+    const formatted = formatUlimitValue(name, value);
+    if (formatted) {
+      rlimits.push(`--${formatted}`);
+    }
+  }
+  if (rlimits.length > 0) {
+    prefix.push("prlimit", ...rlimits, "--");
+  }
+  return prefix;
+}
+
+/** Host argv that runs `argv` in a fresh bubblewrap sandbox described by `spec`. */
+export function buildBwrapExecArgv(params: {
+  spec: BwrapSandboxSpec;
+  argv: string[];
+  workdir?: string;
+  env?: Record<string, string>;
+  tty?: boolean;
+}): string[] {
+  const { spec } = params;
+  const { docker } = spec;
+  const args = [
+    spec.bwrap.command,
+    "--die-with-parent",
+    "--unshare-user",
+    "--unshare-pid",
+    "--unshare-ipc",
+    "--unshare-uts",
+    "--unshare-cgroup-try",
+  ];
+  // --new-session blocks TIOCSTI input injection but drops the controlling
+  // terminal that pty runs need.
+  if (!params.tty) {
+    args.push("--new-session");
+  }
+  if (resolveBwrapNetworkIsolation(docker.network, spec.bwrap.dangerouslyAllowHostNetwork)) {
+    args.push("--unshare-net");
+  }
+  const user = parseNumericUser(docker.user);
+  if (user) {
+    args.push("--uid", user.uid, "--gid", user.gid);
+  }
+  for (const root of spec.bwrap.rootBinds) {
+    args.push("--ro-bind-try", root, root);
+  }
+  args.push("--proc", "/proc", "--dev", "/dev");
+  for (const entry of docker.tmpfs) {
+    const target = entry.split(":")[0]?.trim();
+    if (target) {
+      args.push("--tmpfs", target);
+    }
+  }
+
+  // Same layout as the Docker container so fs-bridge mounts line up.
+  const mainReadOnly =
+    spec.workspaceAccess === "ro" && spec.workspaceDir === spec.agentWorkspaceDir;
+  args.push(mainReadOnly ? "--ro-bind" : "--bind", spec.workspaceDir, docker.workdir);
+  if (spec.workspaceAccess !== "none" && spec.workspaceDir !== spec.agentWorkspaceDir) {
+    args.push(
+      spec.workspaceAccess === "ro" ? "--ro-bind" : "--bind",
+      spec.agentWorkspaceDir,
+      SANDBOX_AGENT_WORKSPACE_MOUNT,
+    );
+  }
+  for (const bind of docker.binds ?? []) {
+    const parsed = splitSandboxBindSpec(bind.trim());
+    if (!parsed) {
+      continue;
+    }
+    const readOnly = parsed.options.split(",").includes("ro");
+    args.push(readOnly ? "--ro-bind" : "--bind", parsed.host, parsed.container);
+  }
+  if (docker.readOnlyRoot) {
+    args.push("--remount-ro", "/");
+  }
+
+  args.push("--clearenv");
+  const env = { PATH: DEFAULT_BWRAP_PATH, ...spec.env, ...params.env };
+  for (const [key, value] of Object.entries(env)) {
+    args.push("--setenv", key, value);
+  }
+  args.push("--chdir", params.workdir ?? docker.workdir, "--", ...params.argv);
+
+  return [...buildBwrapLimitPrefix(spec), ...args];
+}
+
+function listIgnoredDockerSettings(docker: SandboxDockerConfig, bwrap: SandboxBwrapConfig) {
+  const ignored: string[] = [];
+  if (docker.memorySwap !== undefined) {
+    ignored.push("memorySwap");
+  }
+  if (docker.cpus !== undefined && !bwrap.systemdScope) {
+    ignored.push("cpus");
+  }
+  if (docker.seccompProfile?.trim()) {
+    ignored.push("seccompProfile");
+  }
+  if (docker.apparmorProfile?.trim()) {
+    ignored.push("apparmorProfile");
+  }
+  if (docker.dns?.length) {
+    ignored.push("dns");
+  }
+  if (docker.extraHosts?.length) {
+    ignored.push("extraHosts");
+  }
+  return ignored;
+}
+
+/**
+ * Rootless sandbox runtime backed by bubblewrap. There is no long-lived
+ * container: `ensure` records the sandbox spec under a handle and every exec
+ * builds a fresh namespace over the same mounts.
+ */
+export function createBwrapSandboxRuntime(): PluginSandboxRuntime {
+  const specs = new Map<string, BwrapSandboxSpec>();
+  const setupDone = new Set<string>();
+  const warned = new Set<string>();
+
+  const buildExecArgv: PluginSandboxRuntime["buildExecArgv"] = (params) => {
+    const spec = specs.get(params.handle);
+    if (!spec) {
+      throw new Error(`bwrap sandbox is not prepared: ${params.handle}`);
+    }
+    return buildBwrapExecArgv({ ...params, spec });
+  };
+
+  return {
+    id: "bwrap",
+    label: "bubblewrap",
+    ensure: async ({ sessionKey, workspaceDir, agentWorkspaceDir, cfg }) => {
+      const { docker, bwrap } = cfg;
+      validateSandboxSecurity({
+        ...docker,
+        allowedSourceRoots: [workspaceDir, agentWorkspaceDir],
+        allowSourcesOutsideAllowedRoots: docker.dangerouslyAllowExternalBindSources === true,
+        allowReservedContainerTargets: docker.dangerouslyAllowReservedContainerTargets === true,
+        dangerouslyAllowContainerNamespaceJoin: false,
+      });
+      const isolated = resolveBwrapNetworkIsolation(
+        docker.network,
+        bwrap.dangerouslyAllowHostNetwork,
+      );
+
+      const scopeKey = resolveSandboxScopeKey(cfg.scope, sessionKey);
+      const slug = cfg.scope === "shared" ? "shared" : slugifySessionKey(scopeKey);
+      const handle = `${docker.containerPrefix}${slug}`.slice(0, 63);
+
+      const envSanitization = sanitizeEnvVars(docker.env ?? {});
+      if (!warned.has(handle)) {
+        warned.add(handle);
+        if (envSanitization.blocked.length > 0) {
+          log.warn(
+            `Blocked sensitive environment variables: ${envSanitization.blocked.join(", ")}`,
+          );
+        }
+        if (!isolated) {
+          log.warn(`${handle}: network "bridge" shares the host network namespace under bwrap`);
+        }
+        const ignored = listIgnoredDockerSettings(docker, bwrap);
+        if (ignored.length > 0) {
+          log.warn(`${handle}: bwrap backend ignores sandbox.docker ${ignored.join(", ")}`);
+        }
+      }
+
+      specs.set(handle, {
+        docker,
+        bwrap,
+        workspaceDir,
+        agentWorkspaceDir,
+        workspaceAccess: cfg.workspaceAccess,
+        env: envSanitization.allowed,
+      });
+
+      const setupCommand = docker.setupCommand?.trim();
+      const setupKey = `${handle}\0${setupCommand}`;
+      if (setupCommand && !setupDone.has(setupKey)) {
+        await execSandboxCommandRaw(buildExecArgv({ handle, argv: ["sh", "-lc", setupCommand] }));
+        setupDone.add(setupKey);
+      }
+      return handle;
+    },
+    buildExecArgv,
+  };
+}
+
+export const bwrapSandboxRuntime = createBwrapSandboxRuntime();
@@ -8,20 +8,27 @@ import {
   DEFAULT_SANDBOX_BROWSER_NOVNC_PORT,
   DEFAULT_SANDBOX_BROWSER_PREFIX,
   DEFAULT_SANDBOX_BROWSER_VNC_PORT,
+  DEFAULT_SANDBOX_BWRAP_COMMAND,
+  DEFAULT_SANDBOX_BWRAP_ROOT_BINDS,
   DEFAULT_SANDBOX_CONTAINER_PREFIX,
   DEFAULT_SANDBOX_IDLE_HOURS,
   DEFAULT_SANDBOX_IMAGE,
   DEFAULT_SANDBOX_MAX_AGE_DAYS,
+  DEFAULT_SANDBOX_SNAPSHOT_KEEP,
+  DEFAULT_SANDBOX_SNAPSHOT_MAX_AGE_DAYS,
+  DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES,
   DEFAULT_SANDBOX_WORKDIR,
   DEFAULT_SANDBOX_WORKSPACE_ROOT,
 } from "./constants.js";
 import { resolveSandboxToolPolicyForAgent } from "./tool-policy.js";
 import type {
   SandboxBrowserConfig,
+  SandboxBwrapConfig,
   SandboxConfig,
   SandboxDockerConfig,
   SandboxPruneConfig,
   SandboxScope,
+  SandboxSnapshotConfig,
 } from "./types.js";
 
 export const DANGEROUS_SANDBOX_DOCKER_BOOLEAN_KEYS = [
@@ -56,6 +63,8 @@ export function resolveSandboxBrowserDockerCreateConfig(params: {
     // For hashing and consistency, treat browser image as the docker image even though we
     // pass it separately as the final `docker create` argument.
     image: params.browser.image,
+    // The egress proxy fronts exec only; the browser keeps its own network.
+    egress: undefined,
   };
   return params.browser.binds !== undefined ? { ...base, binds: params.browser.binds } : base;
 }
@@ -115,10 +124,29 @@ export function resolveSandboxDockerConfig(params: {
     dns: agentDocker?.dns ?? globalDocker?.dns,
     extraHosts: agentDocker?.extraHosts ?? globalDocker?.extraHosts,
     binds: binds.length ? binds : undefined,
+    egress: agentDocker?.egress ?? globalDocker?.egress,
     ...resolveDangerousSandboxDockerBooleans(agentDocker, globalDocker),
   };
 }
 
+export function resolveSandboxBwrapConfig(params: {
+  scope: SandboxScope;
+  globalBwrap?: Partial<SandboxBwrapConfig>;
+  agentBwrap?: Partial<SandboxBwrapConfig>;
+}): SandboxBwrapConfig {
+  const agentBwrap = params.scope === "shared" ? undefined : params.agentBwrap;
+  const globalBwrap = params.globalBwrap;
+  return {
+    command:
+      agentBwrap?.command?.trim() || globalBwrap?.command?.trim() || DEFAULT_SANDBOX_BWRAP_COMMAND,
+    rootBinds: agentBwrap?.rootBinds ??
+      globalBwrap?.rootBinds ?? [...DEFAULT_SANDBOX_BWRAP_ROOT_BINDS],
+    systemdScope: agentBwrap?.systemdScope ?? globalBwrap?.systemdScope ?? false,
+    dangerouslyAllowHostNetwork:
+      agentBwrap?.dangerouslyAllowHostNetwork ?? globalBwrap?.dangerouslyAllowHostNetwork ?? false,
+  };
+}
+
 export function resolveSandboxBrowserConfig(params: {
   scope: SandboxScope;
   globalBrowser?: Partial<SandboxBrowserConfig>;
@@ -167,6 +195,25 @@ export function resolveSandboxPruneConfig(params: {
   };
 }
 
+export function resolveSandboxSnapshotConfig(params: {
+  scope: SandboxScope;
+  globalSnapshots?: Partial<SandboxSnapshotConfig>;
+  agentSnapshots?: Partial<SandboxSnapshotConfig>;
+}): SandboxSnapshotConfig {
+  const agentSnapshots = params.scope === "shared" ? undefined : params.agentSnapshots;
+  const globalSnapshots = params.globalSnapshots;
+  return {
+    enabled: agentSnapshots?.enabled ?? globalSnapshots?.enabled ?? false,
+    keep: agentSnapshots?.keep ?? globalSnapshots?.keep ?? DEFAULT_SANDBOX_SNAPSHOT_KEEP,
+    maxAgeDays:
+      agentSnapshots?.maxAgeDays ??
+      globalSnapshots?.maxAgeDays ??
+      DEFAULT_SANDBOX_SNAPSHOT_MAX_AGE_DAYS,
+    maxBytes:
+      agentSnapshots?.maxBytes ?? globalSnapshots?.maxBytes ?? DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES,
+  };
+}
+
 export function resolveSandboxConfigForAgent(
   cfg?: OpenClawConfig,
   agentId?: string,
@@ -193,11 +240,17 @@ export function resolveSandboxConfigForAgent(
     workspaceAccess: agentSandbox?.workspaceAccess ?? agent?.workspaceAccess ?? "none",
     workspaceRoot:
       agentSandbox?.workspaceRoot ?? agent?.workspaceRoot ?? DEFAULT_SANDBOX_WORKSPACE_ROOT,
+    backend: agentSandbox?.backend ?? agent?.backend ?? "docker",
     docker: resolveSandboxDockerConfig({
       scope,
       globalDocker: agent?.docker,
       agentDocker: agentSandbox?.docker,
     }),
+    bwrap: resolveSandboxBwrapConfig({
+      scope,
+      globalBwrap: agent?.bwrap,
+      agentBwrap: agentSandbox?.bwrap,
+    }),
     browser: resolveSandboxBrowserConfig({
       scope,
       globalBrowser: agent?.browser,
@@ -212,5 +265,10 @@ export function resolveSandboxConfigForAgent(
       globalPrune: agent?.prune,
       agentPrune: agentSandbox?.prune,
     }),
+    snapshots: resolveSandboxSnapshotConfig({
+      scope,
+      globalSnapshots: agent?.snapshots,
+      agentSnapshots: agentSandbox?.snapshots,
+    }),
   };
 }
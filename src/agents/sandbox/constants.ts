@@ -9,6 +9,27 @@ export const DEFAULT_SANDBOX_CONTAINER_PREFIX = "openclaw-sbx-";
 export const DEFAULT_SANDBOX_WORKDIR = "/workspace";
 export const DEFAULT_SANDBOX_IDLE_HOURS = 24;
 export const DEFAULT_SANDBOX_MAX_AGE_DAYS = 7;
+export const DEFAULT_SANDBOX_SNAPSHOT_KEEP = 10;
+export const DEFAULT_SANDBOX_SNAPSHOT_MAX_AGE_DAYS = 7;
+export const DEFAULT_SANDBOX_SNAPSHOT_MAX_BYTES = 256 * 1024 * 1024;
+export const DEFAULT_SANDBOX_BWRAP_COMMAND = "bwrap";
+// Only the parts of /etc that name resolution, TLS and the dynamic loader read;
+// binding all of /etc would expose host credentials and service configs.
+export const DEFAULT_SANDBOX_BWRAP_ROOT_BINDS = [
+  "/usr",
+  "/bin",
+  "/sbin",
+  "/lib",
+  "/lib64",
+  "/etc/resolv.conf",
+  "/etc/hosts",
+  "/etc/nsswitch.conf",
+  "/etc/ssl",
+  "/etc/ca-certificates",
+  "/etc/pki",
+  "/etc/ld.so.cache",
+  "/etc/alternatives",
+];
 
 export const DEFAULT_TOOL_ALLOW = [
   "exec",
@@ -52,3 +73,6 @@ export const SANDBOX_AGENT_WORKSPACE_MOUNT = "/agent";
 export const SANDBOX_STATE_DIR = path.join(STATE_DIR, "sandbox");
 export const SANDBOX_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "containers.json");
 export const SANDBOX_BROWSER_REGISTRY_PATH = path.join(SANDBOX_STATE_DIR, "browsers.json");
+export const SANDBOX_SNAPSHOTS_DIR = path.join(SANDBOX_STATE_DIR, "snapshots");
+
+export const DEFAULT_SANDBOX_EGRESS_PORTS = [80, 443] as const;
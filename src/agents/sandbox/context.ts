@@ -3,17 +3,21 @@ import { DEFAULT_BROWSER_EVALUATE_ENABLED } from "../../browser/constants.js";
 import { ensureBrowserControlAuth, resolveBrowserControlAuth } from "../../browser/control-auth.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import { loadConfig } from "../../config/config.js";
+import { getSlotSandboxRuntime } from "../../plugins/slot-providers.js";
 import { defaultRuntime } from "../../runtime.js";
 import { resolveUserPath } from "../../utils.js";
 import { syncSkillsToWorkspace } from "../skills.js";
 import { DEFAULT_AGENT_WORKSPACE_DIR } from "../workspace.js";
 import { ensureSandboxBrowser } from "./browser.js";
+import { bwrapSandboxRuntime } from "./bwrap.js";
 import { resolveSandboxConfigForAgent } from "./config.js";
 import { ensureSandboxContainer } from "./docker.js";
+import { ensureSandboxEgressProxy } from "./egress-proxy.js";
 import { createSandboxFsBridge } from "./fs-bridge.js";
 import { maybePruneSandboxes } from "./prune.js";
 import { resolveSandboxRuntimeStatus } from "./runtime-status.js";
 import { resolveSandboxScopeKey, resolveSandboxWorkspaceDir } from "./shared.js";
+import { maybeSnapshotSandboxWorkspace } from "./snapshots.js";
 import type { SandboxContext, SandboxDockerConfig, SandboxWorkspaceInfo } from "./types.js";
 import { ensureSandboxWorkspace } from "./workspace.js";
 
@@ -109,6 +113,8 @@ export async function resolveSandboxContext(params: {
   config?: OpenClawConfig;
   sessionKey?: string;
   workspaceDir?: string;
+  /** Set at the start of an agent run to snapshot the workspace for rollback. */
+  runId?: string;
 }): Promise<SandboxContext | null> {
   const resolved = resolveSandboxSession(params);
   if (!resolved) {
@@ -125,18 +131,48 @@ export async function resolveSandboxContext(params: {
     workspaceDir: params.workspaceDir,
   });
 
+  if (params.runId) {
+    await maybeSnapshotSandboxWorkspace({
+      cfg: cfg.snapshots,
+      scopeKey,
+      sessionKey: rawSessionKey,
+      workspaceDir,
+      runId: params.runId,
+    });
+  }
+
   const docker = await resolveSandboxDockerUser({
     docker: cfg.docker,
     workspaceDir,
   });
   const resolvedCfg = docker === cfg.docker ? cfg : { ...cfg, docker };
 
-  const containerName = await ensureSandboxContainer({
+  // The bwrap backend or a plugin holding the sandbox slot replaces the Docker
+  // container; the sandbox browser below still runs in Docker.
+  const runtime = cfg.backend === "bwrap" ? bwrapSandboxRuntime : getSlotSandboxRuntime();
+  const containerName = runtime
+    ? await runtime.ensure({
+        sessionKey: rawSessionKey,
+        workspaceDir,
+        agentWorkspaceDir,
+        cfg: resolvedCfg,
+      })
+    : await ensureSandboxContainer({
+        sessionKey: rawSessionKey,
+        workspaceDir,
+        agentWorkspaceDir,
+        cfg: resolvedCfg,
+      });
+
+  const egressEnv = await ensureSandboxEgressProxy({
+    scopeKey,
     sessionKey: rawSessionKey,
-    workspaceDir,
-    agentWorkspaceDir,
-    cfg: resolvedCfg,
+    backend: cfg.backend,
+    docker: resolvedCfg.docker,
   });
+  const sandboxDocker = egressEnv
+    ? { ...resolvedCfg.docker, env: { ...resolvedCfg.docker.env, ...egressEnv } }
+    : resolvedCfg.docker;
 
   const evaluateEnabled =
     params.config?.browser?.evaluateEnabled ?? DEFAULT_BROWSER_EVALUATE_ENABLED;
@@ -174,10 +210,11 @@ export async function resolveSandboxContext(params: {
     workspaceAccess: resolvedCfg.workspaceAccess,
     containerName,
     containerWorkdir: resolvedCfg.docker.workdir,
-    docker: resolvedCfg.docker,
+    docker: sandboxDocker,
     tools: resolvedCfg.tools,
     browserAllowHostControl: resolvedCfg.browser.allowHostControl,
     browser: browser ?? undefined,
+    runtime,
   };
 
   sandboxContext.fsBridge = createSandboxFsBridge({ sandbox: sandboxContext });
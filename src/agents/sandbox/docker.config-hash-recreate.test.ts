@@ -89,6 +89,7 @@ function createSandboxConfig(dns: string[], binds?: string[]): SandboxConfig {
     scope: "shared",
     workspaceAccess: "rw",
     workspaceRoot: "~/.openclaw/sandboxes",
+    backend: "docker",
     docker: {
       image: "openclaw-sandbox:test",
       containerPrefix: "oc-test-",
@@ -118,7 +119,14 @@ function createSandboxConfig(dns: string[], binds?: string[]): SandboxConfig {
       autoStartTimeoutMs: 5000,
     },
     tools: { allow: [], deny: [] },
+    bwrap: {
+      command: "bwrap",
+      rootBinds: ["/usr"],
+      systemdScope: false,
+      dangerouslyAllowHostNetwork: false,
+    },
     prune: { idleHours: 24, maxAgeDays: 7 },
+    snapshots: { enabled: false, keep: 10, maxAgeDays: 7, maxBytes: 1024 },
   };
 }
 
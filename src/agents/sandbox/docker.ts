@@ -30,8 +30,24 @@ export function execDockerRaw(
   args: string[],
   opts?: ExecDockerRawOptions,
 ): Promise<ExecDockerRawResult> {
+  return execSandboxCommandRaw(["docker", ...args], opts);
+}
+
+/**
+ * Run a host argv (docker or a plugin sandbox runtime launcher) and collect
+ * its output the same way `execDockerRaw` does.
+ */
+export function execSandboxCommandRaw(
+  argv: string[],
+  opts?: ExecDockerRawOptions,
+): Promise<ExecDockerRawResult> {
+  const [command, ...args] = argv;
   return new Promise<ExecDockerRawResult>((resolve, reject) => {
-    const child = spawn("docker", args, {
+    if (!command) {
+      reject(new Error("sandbox command argv is empty"));
+      return;
+    }
+    const child = spawn(command, args, {
       stdio: ["pipe", "pipe", "pipe"],
     });
     const stdoutChunks: Buffer[] = [];
@@ -82,7 +98,7 @@ export function execDockerRaw(
       if (exitCode !== 0 && !opts?.allowFailure) {
         const message = stderr.length > 0 ? stderr.toString("utf8").trim() : "";
         const error: ExecDockerRawError = Object.assign(
-          new Error(message || `docker ${args.join(" ")} failed`),
+          new Error(message || `${argv.join(" ")} failed`),
           {
             code: exitCode,
             stdout,
@@ -231,7 +247,7 @@ function normalizeDockerLimit(value?: string | number) {
   return trimmed ? trimmed : undefined;
 }
 
-function formatUlimitValue(
+export function formatUlimitValue(
   name: string,
   value: string | number | { soft?: number; hard?: number },
 ) {
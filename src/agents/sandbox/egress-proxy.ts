@@ -0,0 +1,378 @@
+import { randomBytes } from "node:crypto";
+import http from "node:http";
+import net from "node:net";
+import type { SandboxBackend, SandboxEgressSettings } from "../../config/types.sandbox.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { resolvePinnedHostnameWithPolicy, type LookupFn } from "../../infra/net/ssrf.js";
+import { logSandboxEgress } from "../../logging/diagnostic.js";
+import { safeEqualSecret } from "../../security/secret-equal.js";
+import { DEFAULT_SANDBOX_EGRESS_PORTS } from "./constants.js";
+import { execDocker } from "./docker.js";
+import { normalizeEgressAllowEntry, normalizeNetworkMode } from "./network-mode.js";
+import type { SandboxDockerConfig } from "./types.js";
+
+// Hop-by-hop and proxy credentials never go upstream.
+const STRIPPED_REQUEST_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+export type SandboxEgressPolicy = {
+  allow: string[];
+  ports: number[];
+};
+
+export type SandboxEgressDecision =
+  | { allowed: true; address: string }
+  | { allowed: false; reason: string };
+
+export type SandboxEgressProxy = {
+  host: string;
+  port: number;
+  /** Proxy URL with its per-proxy credentials, as handed to sandbox exec. */
+  url: string;
+  close: () => Promise<void>;
+};
+
+export function resolveSandboxEgressPolicy(egress: SandboxEgressSettings): SandboxEgressPolicy {
+  const allow = new Set<string>();
+  for (const entry of egress.allow ?? []) {
+    const normalized = normalizeEgressAllowEntry(entry);
+    if (normalized) {
+      allow.add(normalized);
+    }
+  }
+  return {
+    allow: [...allow],
+    ports: egress.ports?.length ? [...egress.ports] : [...DEFAULT_SANDBOX_EGRESS_PORTS],
+  };
+}
+
+/**
+ * Allowlist, port and SSRF checks for one destination. Returns the address to
+ * dial so DNS cannot be re-resolved to a private target after the check.
+ */
+export async function checkSandboxEgress(params: {
+  host: string;
+  port: number;
+  policy: SandboxEgressPolicy;
+  lookupFn?: LookupFn;
+}): Promise<SandboxEgressDecision> {
+  if (!params.policy.ports.includes(params.port)) {
+    return { allowed: false, reason: `port ${params.port} is not allowed` };
+  }
+  // An empty SSRF hostname allowlist means "any host"; here it means "no host".
+  if (params.policy.allow.length === 0) {
+    return { allowed: false, reason: "egress allowlist is empty" };
+  }
+  try {
+    const pinned = await resolvePinnedHostnameWithPolicy(params.host, {
+      lookupFn: params.lookupFn,
+      policy: { hostnameAllowlist: params.policy.allow },
+    });
+    const address = pinned.addresses[0];
+    return address
+      ? { allowed: true, address }
+      : { allowed: false, reason: `Unable to resolve hostname: ${params.host}` };
+  } catch (err) {
+    return { allowed: false, reason: formatErrorMessage(err) };
+  }
+}
+
+export function buildSandboxEgressEnv(proxyUrl: string): Record<string, string> {
+  const noProxy = "localhost,127.0.0.1,::1";
+  return {
+    HTTP_PROXY: proxyUrl,
+    HTTPS_PROXY: proxyUrl,
+    http_proxy: proxyUrl,
+    https_proxy: proxyUrl,
+    NO_PROXY: noProxy,
+    no_proxy: noProxy,
+  };
+}
+
+function parseTarget(raw: string, defaultPort: number): { host: string; port: number } | null {
+  try {
+    const url = new URL(raw.includes("://") ? raw : `http://${raw}`);
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    const port = url.port ? Number.parseInt(url.port, 10) : defaultPort;
+    return host && Number.isFinite(port) ? { host, port } : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatHostForUrl(host: string): string {
+  return net.isIPv6(host) ? `[${host}]` : host;
+}
+
+const EGRESS_PROXY_USER = "openclaw";
+
+/**
+ * HTTP(S) forward proxy (CONNECT + absolute-form HTTP) that enforces `policy`.
+ * It listens on an address other containers on the network can reach, so
+ * every request must carry the proxy's random Basic credentials.
+ */
+export async function startSandboxEgressProxy(params: {
+  listenHost: string;
+  policy: SandboxEgressPolicy;
+  scopeKey: string;
+  /** Session the requests are logged against; updated as sessions share the proxy. */
+  session: { sessionKey?: string };
+  lookupFn?: LookupFn;
+}): Promise<SandboxEgressProxy> {
+  const password = randomBytes(24).toString("base64url");
+  const expectedAuthorization = `Basic ${Buffer.from(`${EGRESS_PROXY_USER}:${password}`).toString("base64")}`;
+  const isAuthorized = (req: http.IncomingMessage) =>
+    safeEqualSecret(req.headers["proxy-authorization"], expectedAuthorization);
+  const decide = async (method: string, target: { host: string; port: number }) => {
+    const decision = await checkSandboxEgress({
+      ...target,
+      policy: params.policy,
+      lookupFn: params.lookupFn,
+    });
+    logSandboxEgress({
+      sessionKey: params.session.sessionKey,
+      scopeKey: params.scopeKey,
+      method,
+      host: target.host,
+      port: target.port,
+      allowed: decision.allowed,
+      reason: decision.allowed ? undefined : decision.reason,
+    });
+    return decision;
+  };
+
+  const server = http.createServer((req, res) => {
+    if (!isAuthorized(req)) {
+      res.writeHead(407, {
+        "content-type": "text/plain",
+        "proxy-authenticate": 'Basic realm="openclaw-sandbox-egress"',
+      });
+      res.end("Sandbox egress proxy credentials required.\n");
+      return;
+    }
+    const method = req.method ?? "GET";
+    const target = req.url?.startsWith("http://") ? parseTarget(req.url, 80) : null;
+    if (!req.url || !target) {
+      res.writeHead(400, { "content-type": "text/plain" });
+      res.end(
+        "Only absolute http:// URLs and CONNECT are supported by the sandbox egress proxy.\n",
+      );
+      return;
+    }
+    const url = new URL(req.url);
+    void decide(method, target).then((decision) => {
+      if (!decision.allowed) {
+        res.writeHead(403, { "content-type": "text/plain" });
+        res.end(`Blocked by sandbox egress policy: ${decision.reason}\n`);
+        return;
+      }
+      const headers: http.OutgoingHttpHeaders = {};
+      for (const [key, value] of Object.entries(req.headers)) {
+        if (!STRIPPED_REQUEST_HEADERS.has(key)) {
+          headers[key] = value;
+        }
+      }
+      const upstream = http.request(
+        {
+          host: decision.address,
+          port: target.port,
+          method,
+          path: `${url.pathname}${url.search}`,
+          headers,
+          setHost: false,
+        },
+        (upstreamRes) => {
+          res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+          upstreamRes.pipe(res);
+        },
+      );
+      upstream.on("error", (err) => {
+        if (!res.headersSent) {
+          res.writeHead(502, { "content-type": "text/plain" });
+        }
+        res.end(`Upstream error: ${formatErrorMessage(err)}\n`);
+      });
+      req.pipe(upstream);
+    });
+  });
+
+  server.on("connect", (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    client.on("error", () => {});
+    if (!isAuthorized(req)) {
+      client.end(
+        'HTTP/1.1 407 Proxy Authentication Required\r\nproxy-authenticate: Basic realm="openclaw-sandbox-egress"\r\n\r\n',
+      );
+      return;
+    }
+    const target = parseTarget(req.url ?? "", 443);
+    if (!target) {
+      client.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    void decide("CONNECT", target).then((decision) => {
+      if (!decision.allowed) {
+        client.end(
+          `HTTP/1.1 403 Forbidden\r\ncontent-type: text/plain\r\n\r\nBlocked by sandbox egress policy: ${decision.reason}\n`,
+        );
+        return;
+      }
+      const upstream = net.connect({ host: decision.address, port: target.port }, () => {
+        client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+        if (head.length > 0) {
+          upstream.write(head);
+        }
+        upstream.pipe(client);
+        client.pipe(upstream);
+      });
+      upstream.on("error", (err) => {
+        if (client.writable && upstream.bytesRead === 0) {
+          client.end(`HTTP/1.1 502 Bad Gateway\r\n\r\n${formatErrorMessage(err)}\n`);
+        } else {
+          client.destroy();
+        }
+      });
+      client.on("close", () => upstream.destroy());
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, params.listenHost, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  // The proxy lives as long as the gateway but must not keep it running.
+  server.unref();
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  return {
+    host: params.listenHost,
+    port,
+    url: `http://${EGRESS_PROXY_USER}:${password}@${formatHostForUrl(params.listenHost)}:${port}`,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        server.closeAllConnections();
+      }),
+  };
+}
+
+/**
+ * Where the proxy listens: the gateway address of the sandbox's Docker network.
+ * The network must be internal, otherwise commands that ignore HTTP(S)_PROXY
+ * reach the internet directly. bwrap has no private network to confine them.
+ */
+async function resolveSandboxEgressListenHost(params: {
+  backend: SandboxBackend;
+  network: string;
+  listenHost?: string;
+}): Promise<string> {
+  if (params.backend === "bwrap") {
+    throw new Error(
+      "Sandbox egress: the bwrap backend cannot confine network access to the proxy. " +
+        "Use the docker backend with an internal Docker network.",
+    );
+  }
+  const configured = params.listenHost?.trim();
+  const result = await execDocker(
+    [
+      "network",
+      "inspect",
+      "--format",
+      "{{.Internal}} {{range .IPAM.Config}}{{.Gateway}} {{end}}",
+      params.network,
+    ],
+    { allowFailure: true },
+  );
+  const [internalFlag, ...gateways] = result.stdout.trim().split(/\s+/);
+  if (result.code !== 0 || internalFlag !== "true") {
+    throw new Error(
+      `Sandbox egress: Docker network "${params.network}" is not internal, so commands that ignore HTTP(S)_PROXY can bypass the proxy. ` +
+        `Create one with "docker network create --internal <name>" and set sandbox.docker.network to it.`,
+    );
+  }
+  const host = configured || gateways.find((gateway) => net.isIPv4(gateway));
+  if (!host) {
+    throw new Error(
+      `Sandbox egress: cannot find a gateway address for Docker network "${params.network}". ` +
+        "Set sandbox.docker.egress.listenHost.",
+    );
+  }
+  return host;
+}
+
+type EgressProxyEntry = {
+  key: string;
+  session: { sessionKey?: string };
+  proxy: Promise<SandboxEgressProxy>;
+};
+
+const egressProxies = new Map<string, EgressProxyEntry>();
+
+/**
+ * Start (or reuse) the egress proxy for a sandbox scope. Returns the proxy env
+ * for sandbox exec, or null when `docker.egress` is not configured.
+ */
+export async function ensureSandboxEgressProxy(params: {
+  scopeKey: string;
+  sessionKey: string;
+  backend: SandboxBackend;
+  docker: SandboxDockerConfig;
+}): Promise<Record<string, string> | null> {
+  const egress = params.docker.egress;
+  if (!egress) {
+    return null;
+  }
+  const policy = resolveSandboxEgressPolicy(egress);
+  const network = normalizeNetworkMode(params.docker.network) ?? "none";
+  const key = JSON.stringify({
+    policy,
+    network,
+    backend: params.backend,
+    listenHost: egress.listenHost?.trim(),
+  });
+
+  let entry = egressProxies.get(params.scopeKey);
+  if (entry && entry.key !== key) {
+    egressProxies.delete(params.scopeKey);
+    void entry.proxy.then((proxy) => proxy.close()).catch(() => {});
+    entry = undefined;
+  }
+  if (!entry) {
+    const session = { sessionKey: params.sessionKey };
+    const proxy = (async () => {
+      const listenHost = await resolveSandboxEgressListenHost({
+        backend: params.backend,
+        network,
+        listenHost: egress.listenHost,
+      });
+      return await startSandboxEgressProxy({
+        listenHost,
+        policy,
+        scopeKey: params.scopeKey,
+        session,
+      });
+    })();
+    entry = { key, session, proxy };
+    egressProxies.set(params.scopeKey, entry);
+  }
+  entry.session.sessionKey = params.sessionKey;
+
+  try {
+    return buildSandboxEgressEnv((await entry.proxy).url);
+  } catch (err) {
+    if (egressProxies.get(params.scopeKey) === entry) {
+      egressProxies.delete(params.scopeKey);
+    }
+    throw err;
+  }
+}
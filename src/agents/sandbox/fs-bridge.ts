@@ -1,7 +1,7 @@
 import fs from "node:fs";
 import { openBoundaryFile } from "../../infra/boundary-file-read.js";
 import { PATH_ALIAS_POLICIES, type PathAliasPolicy } from "../../infra/path-alias-guards.js";
-import { execDockerRaw, type ExecDockerRawResult } from "./docker.js";
+import { execDockerRaw, type ExecDockerRawResult, execSandboxCommandRaw } from "./docker.js";
 import {
   buildSandboxFsMounts,
   resolveSandboxFsPathWithMounts,
@@ -226,23 +226,20 @@ class SandboxFsBridgeImpl implements SandboxFsBridge {
     script: string,
     options: RunCommandOptions = {},
   ): Promise<ExecDockerRawResult> {
-    const dockerArgs = [
-      "exec",
-      "-i",
-      this.sandbox.containerName,
-      "sh",
-      "-c",
-      script,
-      "moltbot-sandbox-fs",
-    ];
-    if (options.args?.length) {
-      dockerArgs.push(...options.args);
-    }
-    return execDockerRaw(dockerArgs, {
+    const shellArgv = ["sh", "-c", script, "moltbot-sandbox-fs", ...(options.args ?? [])];
+    const runOptions = {
       input: options.stdin,
       allowFailure: options.allowFailure,
       signal: options.signal,
-    });
+    };
+    const runtime = this.sandbox.runtime;
+    if (runtime) {
+      return execSandboxCommandRaw(
+        runtime.buildExecArgv({ handle: this.sandbox.containerName, argv: shellArgv }),
+        runOptions,
+      );
+    }
+    return execDockerRaw(["exec", "-i", this.sandbox.containerName, ...shellArgv], runOptions);
   }
 
   private async assertPathSafety(target: SandboxResolvedFsPath, options: PathSafetyOptions) {
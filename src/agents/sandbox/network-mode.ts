@@ -26,3 +26,36 @@ export function isDangerousNetworkMode(network: string | undefined): boolean {
   const normalized = normalizeNetworkMode(network);
   return normalized === "host" || normalized?.startsWith("container:") === true;
 }
+
+export type EgressNetworkBlockReason = "none" | "bridge" | "container_namespace_join";
+
+/**
+ * Why the egress proxy cannot front `network` (default "none"), or null when it
+ * can. The default "bridge" network cannot be internal (and is the host network
+ * under bwrap), so commands could skip the proxy.
+ */
+export function getEgressNetworkBlockReason(
+  network: string | undefined,
+): EgressNetworkBlockReason | null {
+  const normalized = normalizeNetworkMode(network) ?? "none";
+  if (normalized === "none") {
+    return "none";
+  }
+  if (normalized === "bridge") {
+    return "bridge";
+  }
+  if (normalized.startsWith("container:")) {
+    return "container_namespace_join";
+  }
+  return null;
+}
+
+const EGRESS_HOST_LABEL = "[a-z0-9](?:[a-z0-9-]*[a-z0-9])?";
+const EGRESS_HOST_PATTERN = new RegExp(`^${EGRESS_HOST_LABEL}(?:\\.${EGRESS_HOST_LABEL})*$`);
+
+/** `example.com` or `*.example.com`, lowercased; null for URLs, ports, paths or bare `*`. */
+export function normalizeEgressAllowEntry(entry: string): string | null {
+  const normalized = entry.trim().toLowerCase().replace(/\.$/, "");
+  const host = normalized.startsWith("*.") ? normalized.slice(2) : normalized;
+  return EGRESS_HOST_PATTERN.test(host) ? normalized : null;
+}
@@ -10,6 +10,7 @@ import {
   type SandboxBrowserRegistryEntry,
   type SandboxRegistryEntry,
 } from "./registry.js";
+import { pruneSandboxSnapshots } from "./snapshots.js";
 import type { SandboxConfig } from "./types.js";
 
 let lastPruneAtMs = 0;
@@ -93,6 +94,7 @@ export async function maybePruneSandboxes(cfg: SandboxConfig) {
   try {
     await pruneSandboxContainers(cfg);
     await pruneSandboxBrowsers(cfg);
+    await pruneSandboxSnapshots(cfg.snapshots);
   } catch (error) {
     const message =
       error instanceof Error
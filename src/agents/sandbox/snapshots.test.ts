@@ -0,0 +1,134 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const paths = vi.hoisted(() => ({ snapshotsDir: "" }));
+
+vi.mock("./constants.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./constants.js")>();
+  return {
+    ...actual,
+    get SANDBOX_SNAPSHOTS_DIR() {
+      return paths.snapshotsDir;
+    },
+  };
+});
+
+import {
+  createSandboxSnapshot,
+  findSandboxSnapshot,
+  listSandboxSnapshots,
+  pruneSandboxSnapshots,
+  restoreSandboxSnapshot,
+} from "./snapshots.js";
+
+const SCOPE = "agent:main";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("sandbox snapshots", () => {
+  let root: string;
+  let workspaceDir: string;
+
+  const snapshot = (reason: "run" | "manual" = "run", force = false) =>
+    createSandboxSnapshot({
+      scopeKey: SCOPE,
+      sessionKey: "agent:main:main",
+      workspaceDir,
+      reason,
+      maxBytes: 1024 * 1024,
+      force,
+    });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-snapshots-"));
+    paths.snapshotsDir = path.join(root, "snapshots");
+    workspaceDir = path.join(root, "workspace");
+    await fs.mkdir(path.join(workspaceDir, "src"), { recursive: true });
+    await fs.writeFile(path.join(workspaceDir, "src", "main.ts"), "v1\n");
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it("skips unchanged workspaces and oversized ones", async () => {
+    const first = await snapshot();
+    expect(first.status).toBe("created");
+    expect((await snapshot()).status).toBe("unchanged");
+
+    await fs.writeFile(path.join(workspaceDir, "big.bin"), Buffer.alloc(2 * 1024 * 1024));
+    expect(await snapshot()).toEqual({ status: "too-large", bytes: 2 * 1024 * 1024 + 3 });
+    expect(await listSandboxSnapshots(SCOPE)).toHaveLength(1);
+  });
+
+  it("restores the workspace in place and saves the previous state", async () => {
+    const created = await snapshot();
+    if (created.status !== "created") {
+      throw new Error(`expected a snapshot, got ${created.status}`);
+    }
+    await fs.writeFile(path.join(workspaceDir, "src", "main.ts"), "broken\n");
+    await fs.writeFile(path.join(workspaceDir, "junk.txt"), "junk\n");
+    const inode = (await fs.stat(workspaceDir)).ino;
+
+    const result = await restoreSandboxSnapshot({ snapshot: created.snapshot, maxBytes: 1024 });
+
+    expect(await fs.readFile(path.join(workspaceDir, "src", "main.ts"), "utf-8")).toBe("v1\n");
+    await expect(fs.access(path.join(workspaceDir, "junk.txt"))).rejects.toThrow();
+    expect((await fs.stat(workspaceDir)).ino).toBe(inode);
+    expect(result.status === "restored" ? result.backup?.reason : undefined).toBe("rollback");
+    expect(await fs.readdir(root)).toEqual(["snapshots", "workspace"]);
+  });
+
+  it("refuses to restore when the current workspace is too large to back up", async () => {
+    const created = await snapshot();
+    if (created.status !== "created") {
+      throw new Error(`expected a snapshot, got ${created.status}`);
+    }
+    await fs.writeFile(path.join(workspaceDir, "big.bin"), Buffer.alloc(2 * 1024 * 1024));
+
+    const refused = await restoreSandboxSnapshot({ snapshot: created.snapshot, maxBytes: 1024 });
+    expect(refused).toEqual({ status: "backup-too-large", bytes: 2 * 1024 * 1024 + 3 });
+    expect((await fs.stat(path.join(workspaceDir, "big.bin"))).size).toBe(2 * 1024 * 1024);
+
+    const forced = await restoreSandboxSnapshot({
+      snapshot: created.snapshot,
+      maxBytes: 1024,
+      withoutBackup: true,
+    });
+    expect(forced).toEqual({ status: "restored", restored: created.snapshot, backup: undefined });
+    await expect(fs.access(path.join(workspaceDir, "big.bin"))).rejects.toThrow();
+  });
+
+  it("finds snapshots by id, prefix or list position", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-18T17:10:00Z"));
+    await snapshot("run");
+    vi.setSystemTime(new Date("2026-10-18T17:20:00Z"));
+    await snapshot("manual", true);
+    const snapshots = await listSandboxSnapshots(SCOPE);
+
+    expect(snapshots.map((entry) => entry.id)).toEqual(["20261018T172000Z", "20261018T171000Z"]);
+    expect(findSandboxSnapshot(snapshots)?.id).toBe("20261018T171000Z");
+    expect(findSandboxSnapshot(snapshots, "1")?.id).toBe("20261018T172000Z");
+    expect(findSandboxSnapshot(snapshots, "20261018T1710")?.id).toBe("20261018T171000Z");
+    expect(findSandboxSnapshot(snapshots, "20261018T17")).toBeUndefined();
+  });
+
+  it("prunes by count and age per scope", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const start = new Date("2026-10-01T00:00:00Z").getTime();
+    for (let day = 0; day < 4; day += 1) {
+      vi.setSystemTime(start + day * DAY_MS);
+      await snapshot("manual", true);
+    }
+
+    expect(await pruneSandboxSnapshots({ keep: 3, maxAgeDays: 0 }, start + 4 * DAY_MS)).toBe(1);
+    expect(await pruneSandboxSnapshots({ keep: 0, maxAgeDays: 2 }, start + 4 * DAY_MS)).toBe(1);
+    expect((await listSandboxSnapshots(SCOPE)).map((entry) => entry.id)).toEqual([
+      "20261004T000000Z",
+      "20261003T000000Z",
+    ]);
+  });
+});
@@ -0,0 +1,344 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import * as tar from "tar";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { SANDBOX_SNAPSHOTS_DIR } from "./constants.js";
+import { slugifySessionKey } from "./shared.js";
+import type { SandboxSnapshotConfig } from "./types.js";
+
+const log = createSubsystemLogger("sandbox/snapshots");
+
+const ARCHIVE_SUFFIX = ".tar.gz";
+const META_SUFFIX = ".json";
+
+export type SandboxSnapshotReason = "run" | "rollback" | "manual";
+
+export type SandboxSnapshotMeta = {
+  id: string;
+  scopeKey: string;
+  sessionKey: string;
+  runId?: string;
+  reason: SandboxSnapshotReason;
+  createdAtMs: number;
+  /** Host workspace the snapshot was taken from (and restores into). */
+  workspaceDir: string;
+  files: number;
+  bytes: number;
+  archiveBytes: number;
+  /** Hash of paths, sizes and mtimes; equal fingerprints mean an unchanged workspace. */
+  fingerprint: string;
+};
+
+export type SandboxRestoreResult =
+  | { status: "restored"; restored: SandboxSnapshotMeta; backup?: SandboxSnapshotMeta }
+  /** The current workspace exceeds `maxBytes`, so no undo snapshot could be taken. */
+  | { status: "backup-too-large"; bytes: number };
+
+export type SandboxSnapshotResult =
+  | { status: "created"; snapshot: SandboxSnapshotMeta }
+  | { status: "unchanged"; snapshot: SandboxSnapshotMeta }
+  | { status: "too-large"; bytes: number };
+
+type WorkspaceScan = {
+  files: number;
+  bytes: number;
+  fingerprint: string;
+};
+
+export function resolveSandboxSnapshotDir(scopeKey: string): string {
+  return path.join(SANDBOX_SNAPSHOTS_DIR, slugifySessionKey(scopeKey));
+}
+
+/** Walk the workspace without following symlinks; `bytes` counts regular files. */
+async function scanWorkspace(workspaceDir: string): Promise<WorkspaceScan> {
+  const hash = crypto.createHash("sha256");
+  let files = 0;
+  let bytes = 0;
+  const walk = async (dir: string, rel: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+      const abs = path.join(dir, entry.name);
+      const stat = await fs.lstat(abs);
+      const kind = stat.isDirectory() ? "d" : stat.isSymbolicLink() ? "l" : "f";
+      hash.update(`${entryRel}\0${kind}\0${stat.size}\0${Math.floor(stat.mtimeMs)}\n`);
+      if (kind === "d") {
+        await walk(abs, entryRel);
+      } else if (stat.isFile()) {
+        files += 1;
+        bytes += stat.size;
+      }
+    }
+  };
+  await walk(workspaceDir, "");
+  return { files, bytes, fingerprint: hash.digest("hex") };
+}
+
+function formatSnapshotId(createdAtMs: number): string {
+  return new Date(createdAtMs)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d+Z$/, "Z");
+}
+
+async function allocateSnapshotId(dir: string, createdAtMs: number): Promise<string> {
+  const base = formatSnapshotId(createdAtMs);
+  for (let attempt = 0; ; attempt += 1) {
+    const id = attempt === 0 ? base : `${base}-${attempt + 1}`;
+    try {
+      await fs.access(path.join(dir, `${id}${META_SUFFIX}`));
+    } catch {
+      return id;
+    }
+  }
+}
+
+function isSnapshotMeta(value: unknown): value is SandboxSnapshotMeta {
+  const record = value as Partial<SandboxSnapshotMeta> | null;
+  return (
+    typeof record?.id === "string" &&
+    typeof record.scopeKey === "string" &&
+    typeof record.workspaceDir === "string" &&
+    typeof record.createdAtMs === "number"
+  );
+}
+
+async function readSnapshotDir(dir: string): Promise<SandboxSnapshotMeta[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const snapshots: SandboxSnapshotMeta[] = [];
+  for (const name of names) {
+    if (!name.endsWith(META_SUFFIX)) {
+      continue;
+    }
+    try {
+      const parsed: unknown = JSON.parse(await fs.readFile(path.join(dir, name), "utf-8"));
+      if (isSnapshotMeta(parsed)) {
+        snapshots.push(parsed);
+      }
+    } catch {
+      // ignore unreadable metadata
+    }
+  }
+  return snapshots.toSorted((a, b) => b.createdAtMs - a.createdAtMs);
+}
+
+/** Snapshots for one sandbox scope, newest first. */
+export async function listSandboxSnapshots(scopeKey: string): Promise<SandboxSnapshotMeta[]> {
+  return await readSnapshotDir(resolveSandboxSnapshotDir(scopeKey));
+}
+
+/** Snapshots across every sandbox scope, newest first. */
+export async function listAllSandboxSnapshots(): Promise<SandboxSnapshotMeta[]> {
+  let dirs: string[];
+  try {
+    dirs = await fs.readdir(SANDBOX_SNAPSHOTS_DIR);
+  } catch {
+    return [];
+  }
+  const all: SandboxSnapshotMeta[] = [];
+  for (const dir of dirs) {
+    all.push(...(await readSnapshotDir(path.join(SANDBOX_SNAPSHOTS_DIR, dir))));
+  }
+  return all.toSorted((a, b) => b.createdAtMs - a.createdAtMs);
+}
+
+/**
+ * Pick a snapshot by id (or unique id prefix) or 1-based list position.
+ * Without a ref, returns the newest run snapshot.
+ */
+export function findSandboxSnapshot(
+  snapshots: SandboxSnapshotMeta[],
+  ref?: string,
+): SandboxSnapshotMeta | undefined {
+  const trimmed = ref?.trim();
+  if (!trimmed) {
+    return snapshots.find((snapshot) => snapshot.reason === "run");
+  }
+  if (/^\d{1,3}$/.test(trimmed)) {
+    return snapshots[Number.parseInt(trimmed, 10) - 1];
+  }
+  const exact = snapshots.find((snapshot) => snapshot.id === trimmed);
+  if (exact) {
+    return exact;
+  }
+  const prefixed = snapshots.filter((snapshot) => snapshot.id.startsWith(trimmed));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+export async function createSandboxSnapshot(params: {
+  scopeKey: string;
+  sessionKey: string;
+  workspaceDir: string;
+  reason: SandboxSnapshotReason;
+  maxBytes: number;
+  runId?: string;
+  /** Snapshot even when the workspace matches the newest snapshot. */
+  force?: boolean;
+}): Promise<SandboxSnapshotResult> {
+  const scan = await scanWorkspace(params.workspaceDir);
+  if (scan.bytes > params.maxBytes) {
+    return { status: "too-large", bytes: scan.bytes };
+  }
+  const dir = resolveSandboxSnapshotDir(params.scopeKey);
+  const latest = (await readSnapshotDir(dir))[0];
+  if (!params.force && latest?.fingerprint === scan.fingerprint) {
+    return { status: "unchanged", snapshot: latest };
+  }
+
+  await fs.mkdir(dir, { recursive: true });
+  const createdAtMs = Date.now();
+  const id = await allocateSnapshotId(dir, createdAtMs);
+  const archivePath = path.join(dir, `${id}${ARCHIVE_SUFFIX}`);
+  const tmpPath = `${archivePath}.${process.pid}.tmp`;
+  try {
+    await tar.c({ gzip: true, file: tmpPath, cwd: params.workspaceDir, portable: true }, ["."]);
+    await fs.rename(tmpPath, archivePath);
+  } catch (err) {
+    await fs.rm(tmpPath, { force: true });
+    throw err;
+  }
+  const snapshot: SandboxSnapshotMeta = {
+    id,
+    scopeKey: params.scopeKey,
+    sessionKey: params.sessionKey,
+    runId: params.runId,
+    reason: params.reason,
+    createdAtMs,
+    workspaceDir: params.workspaceDir,
+    files: scan.files,
+    bytes: scan.bytes,
+    archiveBytes: (await fs.stat(archivePath)).size,
+    fingerprint: scan.fingerprint,
+  };
+  await fs.writeFile(
+    path.join(dir, `${id}${META_SUFFIX}`),
+    `${JSON.stringify(snapshot, null, 2)}\n`,
+    "utf-8",
+  );
+  return { status: "created", snapshot };
+}
+
+/** Run-start snapshot; failures are logged and never block the run. */
+export async function maybeSnapshotSandboxWorkspace(params: {
+  cfg: SandboxSnapshotConfig;
+  scopeKey: string;
+  sessionKey: string;
+  workspaceDir: string;
+  runId?: string;
+}): Promise<void> {
+  if (!params.cfg.enabled) {
+    return;
+  }
+  try {
+    const result = await createSandboxSnapshot({
+      scopeKey: params.scopeKey,
+      sessionKey: params.sessionKey,
+      workspaceDir: params.workspaceDir,
+      reason: "run",
+      runId: params.runId,
+      maxBytes: params.cfg.maxBytes,
+    });
+    if (result.status === "too-large") {
+      log.warn(
+        `skipped snapshot for ${params.scopeKey}: workspace is ${result.bytes} bytes (maxBytes ${params.cfg.maxBytes})`,
+      );
+    }
+  } catch (err) {
+    log.warn(`snapshot failed for ${params.scopeKey}: ${formatErrorMessage(err)}`);
+  }
+}
+
+/**
+ * Replace the workspace contents with `snapshot`. The current state is saved
+ * first (reason "rollback") so the restore can itself be undone; when it is
+ * too large to save, nothing is touched unless `withoutBackup` is set. The
+ * workspace directory is kept in place because running sandboxes bind-mount it.
+ */
+export async function restoreSandboxSnapshot(params: {
+  snapshot: SandboxSnapshotMeta;
+  maxBytes: number;
+  withoutBackup?: boolean;
+}): Promise<SandboxRestoreResult> {
+  const { snapshot } = params;
+  const dir = resolveSandboxSnapshotDir(snapshot.scopeKey);
+  const archivePath = path.join(dir, `${snapshot.id}${ARCHIVE_SUFFIX}`);
+  await fs.access(archivePath);
+  const workspaceDir = snapshot.workspaceDir;
+  await fs.mkdir(workspaceDir, { recursive: true });
+
+  const backup = await createSandboxSnapshot({
+    scopeKey: snapshot.scopeKey,
+    sessionKey: snapshot.sessionKey,
+    workspaceDir,
+    reason: "rollback",
+    maxBytes: params.maxBytes,
+    force: true,
+  });
+  if (backup.status === "too-large" && !params.withoutBackup) {
+    return { status: "backup-too-large", bytes: backup.bytes };
+  }
+
+  // Stage next to the workspace so the final moves stay on one filesystem.
+  const stagingDir = await fs.mkdtemp(
+    path.join(path.dirname(workspaceDir), `.${path.basename(workspaceDir)}.restore-`),
+  );
+  try {
+    await tar.x({ file: archivePath, cwd: stagingDir, strict: true, preservePaths: false });
+    for (const name of await fs.readdir(workspaceDir)) {
+      await fs.rm(path.join(workspaceDir, name), { recursive: true, force: true });
+    }
+    for (const name of await fs.readdir(stagingDir)) {
+      await fs.rename(path.join(stagingDir, name), path.join(workspaceDir, name));
+    }
+  } finally {
+    await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+  return {
+    status: "restored",
+    restored: snapshot,
+    backup: backup.status === "created" ? backup.snapshot : undefined,
+  };
+}
+
+async function removeSnapshot(snapshot: SandboxSnapshotMeta) {
+  const dir = resolveSandboxSnapshotDir(snapshot.scopeKey);
+  await fs.rm(path.join(dir, `${snapshot.id}${ARCHIVE_SUFFIX}`), { force: true });
+  await fs.rm(path.join(dir, `${snapshot.id}${META_SUFFIX}`), { force: true });
+}
+
+/** Apply `keep` and `maxAgeDays` to every sandbox scope; returns removed snapshots. */
+export async function pruneSandboxSnapshots(
+  cfg: Pick<SandboxSnapshotConfig, "keep" | "maxAgeDays">,
+  now = Date.now(),
+): Promise<number> {
+  if (cfg.keep === 0 && cfg.maxAgeDays === 0) {
+    return 0;
+  }
+  const byScope = new Map<string, SandboxSnapshotMeta[]>();
+  for (const snapshot of await listAllSandboxSnapshots()) {
+    const list = byScope.get(snapshot.scopeKey) ?? [];
+    list.push(snapshot);
+    byScope.set(snapshot.scopeKey, list);
+  }
+  const maxAgeMs = cfg.maxAgeDays * 24 * 60 * 60 * 1000;
+  let removed = 0;
+  for (const snapshots of byScope.values()) {
+    for (const [index, snapshot] of snapshots.entries()) {
+      const overKeep = cfg.keep > 0 && index >= cfg.keep;
+      const tooOld = cfg.maxAgeDays > 0 && now - snapshot.createdAtMs > maxAgeMs;
+      if (overKeep || tooOld) {
+        await removeSnapshot(snapshot);
+        removed += 1;
+      }
+    }
+  }
+  return removed;
+}
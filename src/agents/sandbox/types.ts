@@ -1,3 +1,5 @@
+import type { SandboxBackend } from "../../config/types.sandbox.js";
+import type { PluginSandboxRuntime } from "../../plugins/types.js";
 import type { SandboxFsBridge } from "./fs-bridge.js";
 import type { SandboxDockerConfig } from "./types.docker.js";
 
@@ -45,11 +47,25 @@ export type SandboxBrowserConfig = {
   binds?: string[];
 };
 
+export type SandboxBwrapConfig = {
+  command: string;
+  rootBinds: string[];
+  systemdScope: boolean;
+  dangerouslyAllowHostNetwork: boolean;
+};
+
 export type SandboxPruneConfig = {
   idleHours: number;
   maxAgeDays: number;
 };
 
+export type SandboxSnapshotConfig = {
+  enabled: boolean;
+  keep: number;
+  maxAgeDays: number;
+  maxBytes: number;
+};
+
 export type SandboxScope = "session" | "agent" | "shared";
 
 export type SandboxConfig = {
@@ -57,10 +73,13 @@ export type SandboxConfig = {
   scope: SandboxScope;
   workspaceAccess: SandboxWorkspaceAccess;
   workspaceRoot: string;
+  backend: SandboxBackend;
   docker: SandboxDockerConfig;
+  bwrap: SandboxBwrapConfig;
   browser: SandboxBrowserConfig;
   tools: SandboxToolPolicy;
   prune: SandboxPruneConfig;
+  snapshots: SandboxSnapshotConfig;
 };
 
 export type SandboxBrowserContext = {
@@ -82,6 +101,11 @@ export type SandboxContext = {
   browserAllowHostControl: boolean;
   browser?: SandboxBrowserContext;
   fsBridge?: SandboxFsBridge;
+  /**
+   * Set for the bwrap backend or when a plugin holds the sandbox slot;
+   * `containerName` is then its handle.
+   */
+  runtime?: PluginSandboxRuntime;
 };
 
 export type SandboxWorkspaceInfo = {
@@ -5,6 +5,7 @@ import { describe, expect, it } from "vitest";
 import {
   getBlockedBindReason,
   validateBindMounts,
+  validateEgressPolicy,
   validateNetworkMode,
   validateSeccompProfile,
   validateApparmorProfile,
@@ -248,6 +249,34 @@ describe("validateNetworkMode", () => {
   });
 });
 
+describe("validateEgressPolicy", () => {
+  it("accepts hostnames and subdomain wildcards on reachable networks", () => {
+    const egress = { allow: ["registry.npmjs.org", "*.GitHub.com."] };
+    expect(() => validateEgressPolicy(egress, "openclaw-egress")).not.toThrow();
+    expect(() => validateEgressPolicy(undefined, "none")).not.toThrow();
+  });
+
+  it("rejects URLs, ports and bare wildcards in the allowlist", () => {
+    for (const entry of ["https://example.com", "example.com:443", "example.com/path", "*", ""]) {
+      expect(() => validateEgressPolicy({ allow: [entry] }, "openclaw-egress"), entry).toThrow(
+        /egress allowlist entry .* is not a hostname/,
+      );
+    }
+  });
+
+  it("rejects networks that cannot reach or would bypass the proxy", () => {
+    expect(() => validateEgressPolicy({ allow: ["example.com"] }, undefined)).toThrow(
+      /egress proxy is unreachable with network "none"/,
+    );
+    expect(() => validateEgressPolicy({ allow: ["example.com"] }, "container:abc")).toThrow(
+      /bypasses the egress proxy/,
+    );
+    expect(() => validateEgressPolicy({ allow: ["example.com"] }, "bridge")).toThrow(
+      /network "bridge" lets sandboxed commands bypass the egress proxy/,
+    );
+  });
+});
+
 describe("validateSeccompProfile", () => {
   it("allows custom profile paths/undefined", () => {
     expect(() => validateSeccompProfile("/tmp/seccomp.json")).not.toThrow();
@@ -5,13 +5,18 @@
  * Enforced at runtime when creating sandbox containers.
  */
 
+import type { SandboxEgressSettings } from "../../config/types.sandbox.js";
 import { splitSandboxBindSpec } from "./bind-spec.js";
 import { SANDBOX_AGENT_WORKSPACE_MOUNT } from "./constants.js";
 import {
   normalizeSandboxHostPath,
   resolveSandboxHostPathViaExistingAncestor,
 } from "./host-paths.js";
-import { getBlockedNetworkModeReason } from "./network-mode.js";
+import {
+  getBlockedNetworkModeReason,
+  getEgressNetworkBlockReason,
+  normalizeEgressAllowEntry,
+} from "./network-mode.js";
 
 // Targeted denylist: host paths that should never be exposed inside sandbox containers.
 // Exported for reuse in security audit collectors.
@@ -305,6 +310,48 @@ export function validateNetworkMode(
   }
 }
 
+/**
+ * The egress proxy listens on the host, so the sandbox needs a network that can
+ * reach it and nothing else: an internal Docker network. "bridge" and joining
+ * another container's namespace would route around it.
+ */
+export function validateEgressPolicy(
+  egress: SandboxEgressSettings | undefined,
+  network: string | undefined,
+): void {
+  if (!egress) {
+    return;
+  }
+  for (const entry of egress.allow ?? []) {
+    if (!normalizeEgressAllowEntry(entry)) {
+      throw new Error(
+        `Sandbox security: egress allowlist entry "${entry}" is not a hostname. ` +
+          'Use "example.com" or "*.example.com" (no scheme, port or path).',
+      );
+    }
+  }
+  const blockedReason = getEgressNetworkBlockReason(network);
+  if (blockedReason === "none") {
+    throw new Error(
+      `Sandbox security: egress proxy is unreachable with network "${network ?? "none"}". ` +
+        'Use an internal Docker network ("docker network create --internal <name>") so the sandbox can reach the proxy.',
+    );
+  }
+  if (blockedReason === "bridge") {
+    throw new Error(
+      'Sandbox security: network "bridge" lets sandboxed commands bypass the egress proxy ' +
+        "(the default Docker bridge cannot be internal, and under bwrap it is the host network). " +
+        'Use an internal Docker network ("docker network create --internal <name>") instead.',
+    );
+  }
+  if (blockedReason === "container_namespace_join") {
+    throw new Error(
+      `Sandbox security: network mode "${network}" shares another container's namespace and bypasses the egress proxy. ` +
+        "Use an internal Docker network instead.",
+    );
+  }
+}
+
 export function validateSeccompProfile(profile: string | undefined): void {
   if (profile && BLOCKED_SECCOMP_PROFILES.has(profile.trim().toLowerCase())) {
     throw new Error(
@@ -332,12 +379,14 @@ export function validateSandboxSecurity(
     seccompProfile?: string;
     apparmorProfile?: string;
     dangerouslyAllowContainerNamespaceJoin?: boolean;
+    egress?: SandboxEgressSettings;
   } & ValidateBindMountsOptions,
 ): void {
   validateBindMounts(cfg.binds, cfg);
   validateNetworkMode(cfg.network, {
     allowContainerNamespaceJoin: cfg.dangerouslyAllowContainerNamespaceJoin === true,
   });
+  validateEgressPolicy(cfg.egress, cfg.network);
   validateSeccompProfile(cfg.seccompProfile);
   validateApparmorProfile(cfg.apparmorProfile);
 }
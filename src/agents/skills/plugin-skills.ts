@@ -5,6 +5,7 @@ import { createSubsystemLogger } from "../../logging/subsystem.js";
 import {
   normalizePluginsConfig,
   resolveEffectiveEnableState,
+  resolveExclusiveSlotDecision,
   resolveMemorySlotDecision,
 } from "../../plugins/config-state.js";
 import { loadPluginManifestRegistry } from "../../plugins/manifest-registry.js";
@@ -62,6 +63,15 @@ export function resolvePluginSkillDirs(params: {
     if (memoryDecision.selected && record.kind === "memory") {
       selectedMemoryPluginId = record.id;
     }
+    if (
+      !resolveExclusiveSlotDecision({
+        id: record.id,
+        kind: record.kind,
+        slots: normalizedPlugins.slots,
+      }).enabled
+    ) {
+      continue;
+    }
     for (const raw of record.skills) {
       const trimmed = raw.trim();
       if (!trimmed) {
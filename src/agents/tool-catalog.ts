@@ -113,6 +113,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInOpenClawGroup: true,
   },
+  {
+    id: "memory_write",
+    label: "memory_write",
+    description: "Save facts to memory",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInOpenClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
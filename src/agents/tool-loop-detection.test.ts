@@ -11,6 +11,7 @@ import {
   hashToolCall,
   recordToolCall,
   recordToolCallOutcome,
+  resolveToolLoopRecoveryAction,
 } from "./tool-loop-detection.js";
 
 function createState(): SessionState {
@@ -276,6 +277,29 @@ describe("tool-loop-detection", () => {
       }
     });
 
+    it("escalates generic loops to critical when a recovery action is configured", () => {
+      const state = createState();
+      const config: ToolLoopDetectionConfig = {
+        enabled: true,
+        recovery: { genericRepeat: "note", pingPong: "abort" },
+      };
+      for (let i = 0; i < CRITICAL_THRESHOLD; i += 1) {
+        recordToolCall(state, "read", { path: "/same.txt" }, `crit-${i}`);
+      }
+
+      const loopResult = detectToolCallLoop(state, "read", { path: "/same.txt" }, config);
+
+      expect(loopResult).toMatchObject({
+        stuck: true,
+        level: "critical",
+        detector: "generic_repeat",
+        count: CRITICAL_THRESHOLD,
+      });
+      expect(resolveToolLoopRecoveryAction("generic_repeat", config)).toBe("note");
+      expect(resolveToolLoopRecoveryAction("ping_pong", config)).toBe("abort");
+      expect(resolveToolLoopRecoveryAction("global_circuit_breaker", config)).toBeUndefined();
+    });
+
     it("applies custom thresholds when detection is enabled", () => {
       const state = createState();
       const { params, result } = createNoProgressPollFixture("sess-custom");
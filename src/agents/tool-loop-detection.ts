@@ -1,5 +1,9 @@
 import { createHash } from "node:crypto";
-import type { ToolLoopDetectionConfig } from "../config/types.tools.js";
+import type {
+  ToolLoopDetectionConfig,
+  ToolLoopRecoveryAction,
+  ToolLoopRecoveryConfig,
+} from "../config/types.tools.js";
 import type { SessionState } from "../logging/diagnostic-session-state.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { isPlainObject } from "../utils.js";
@@ -52,6 +56,7 @@ type ResolvedLoopDetectionConfig = {
     knownPollNoProgress: boolean;
     pingPong: boolean;
   };
+  recovery: ToolLoopRecoveryConfig;
 };
 
 function asPositiveInt(value: number | undefined, fallback: number): number {
@@ -96,9 +101,25 @@ function resolveLoopDetectionConfig(config?: ToolLoopDetectionConfig): ResolvedL
         DEFAULT_LOOP_DETECTION_CONFIG.detectors.knownPollNoProgress,
       pingPong: config?.detectors?.pingPong ?? DEFAULT_LOOP_DETECTION_CONFIG.detectors.pingPong,
     },
+    recovery: config?.recovery ?? {},
   };
 }
 
+const RECOVERY_KEY_BY_DETECTOR: Record<LoopDetectorKind, keyof ToolLoopRecoveryConfig> = {
+  generic_repeat: "genericRepeat",
+  known_poll_no_progress: "knownPollNoProgress",
+  ping_pong: "pingPong",
+  global_circuit_breaker: "globalCircuitBreaker",
+};
+
+/** Recovery action configured for a detector, if any. */
+export function resolveToolLoopRecoveryAction(
+  detector: LoopDetectorKind,
+  config?: ToolLoopDetectionConfig,
+): ToolLoopRecoveryAction | undefined {
+  return config?.recovery?.[RECOVERY_KEY_BY_DETECTOR[detector]];
+}
+
 /**
  * Hash a tool call for pattern matching.
  * Uses tool name + deterministic JSON serialization digest of params.
@@ -470,11 +491,31 @@ export function detectToolCallLoop(
     };
   }
 
-  // Generic detector: warn-only for repeated identical calls.
+  // Generic detector: warn-only for repeated identical calls unless a recovery
+  // action opts it into the critical threshold.
   const recentCount = history.filter(
     (h) => h.toolName === toolName && h.argsHash === currentHash,
   ).length;
 
+  if (
+    !knownPollTool &&
+    resolvedConfig.detectors.genericRepeat &&
+    resolvedConfig.recovery.genericRepeat &&
+    recentCount >= resolvedConfig.criticalThreshold
+  ) {
+    log.error(
+      `Critical loop detected: ${toolName} called ${recentCount} times with identical arguments`,
+    );
+    return {
+      stuck: true,
+      level: "critical",
+      detector: "generic_repeat",
+      count: recentCount,
+      message: `CRITICAL: You have called ${toolName} ${recentCount} times with identical arguments. Session execution blocked to prevent a runaway loop.`,
+      warningKey: `generic:${toolName}:${currentHash}`,
+    };
+  }
+
   if (
     !knownPollTool &&
     resolvedConfig.detectors.genericRepeat &&
@@ -522,6 +563,15 @@ export function recordToolCall(
   }
 }
 
+/**
+ * Forget recorded calls after a recovery ended the looping run, so the next
+ * run (or fallback model) starts from a clean window.
+ */
+export function resetToolCallHistory(state: SessionState): void {
+  state.toolCallHistory = [];
+  state.toolLoopWarningBuckets?.clear();
+}
+
 /**
  * Record a completed tool call outcome so loop detection can identify no-progress repeats.
  */
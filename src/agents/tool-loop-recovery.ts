@@ -0,0 +1,81 @@
+import type { ToolLoopRecoveryAction } from "../config/types.tools.js";
+import type { LoopDetectorKind } from "./tool-loop-detection.js";
+
+export const TOOL_LOOP_RECOVERY_CUSTOM_TYPE = "openclaw:tool-loop-recovery";
+
+export type ToolLoopIntervention = {
+  action: ToolLoopRecoveryAction;
+  detector: LoopDetectorKind;
+  toolName: string;
+  count: number;
+  message: string;
+  pairedToolName?: string;
+};
+
+export type ToolLoopRecoveryEntry = ToolLoopIntervention & {
+  timestamp: number;
+  runId: string;
+  provider: string;
+  model: string;
+};
+
+type CustomEntrySink = {
+  appendCustomEntry?: (customType: string, data: unknown) => void;
+};
+
+const DETECTOR_LABELS: Record<LoopDetectorKind, string> = {
+  generic_repeat: "repeated identical calls",
+  known_poll_no_progress: "polling with no progress",
+  ping_pong: "alternating calls with no progress",
+  global_circuit_breaker: "no-progress circuit breaker",
+};
+
+/** Recovery actions that end the current attempt instead of letting the agent continue. */
+export function isTerminalToolLoopRecovery(action: ToolLoopRecoveryAction): boolean {
+  return action !== "note";
+}
+
+function describeLoop(intervention: ToolLoopIntervention): string {
+  const tools = intervention.pairedToolName
+    ? `${intervention.toolName} ↔ ${intervention.pairedToolName}`
+    : intervention.toolName;
+  return `${tools} (${DETECTOR_LABELS[intervention.detector]}, ${intervention.count} calls)`;
+}
+
+/** Corrective note steered into the running agent for the "note" action. */
+export function buildToolLoopRecoveryNote(intervention: ToolLoopIntervention): string {
+  return [
+    `[System note] Tool loop detected: ${describeLoop(intervention)}.`,
+    "The last call was blocked. Do not repeat it. Re-read the previous results, then either try a different approach or explain to the user what is blocking you.",
+  ].join("\n");
+}
+
+/** Channel reply for the "ask-user" and "abort" actions (and "switch-model" without fallbacks). */
+export function formatToolLoopRecoveryReply(
+  intervention: ToolLoopIntervention,
+  params: { toolCalls: number },
+): string {
+  const loop = describeLoop(intervention);
+  if (intervention.action === "ask-user") {
+    return [
+      `⏸️ I paused because I was stuck in a loop: ${loop}.`,
+      "How should I proceed? Reply with guidance to continue, or /new to start over.",
+    ].join("\n");
+  }
+  return [
+    `🛑 Run stopped by tool-loop detection: ${loop}.`,
+    `Tool calls this run: ${params.toolCalls}. Last check: ${intervention.message}`,
+  ].join("\n");
+}
+
+/** Record an intervention in the session transcript so it can be audited later. */
+export function appendToolLoopRecoveryEntry(
+  sessionManager: CustomEntrySink,
+  entry: ToolLoopRecoveryEntry,
+): boolean {
+  if (!sessionManager.appendCustomEntry) {
+    return false;
+  }
+  sessionManager.appendCustomEntry(TOOL_LOOP_RECOVERY_CUSTOM_TYPE, entry);
+  return true;
+}
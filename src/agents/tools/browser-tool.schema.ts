@@ -32,6 +32,10 @@ const BROWSER_TOOL_ACTIONS = [
   "upload",
   "dialog",
   "act",
+  "record_start",
+  "record_stop",
+  "recordings",
+  "replay",
 ] as const;
 
 const BROWSER_TARGETS = ["sandbox", "host", "node"] as const;
@@ -110,4 +114,9 @@ export const BrowserToolSchema = Type.Object({
   accept: Type.Optional(Type.Boolean()),
   promptText: Type.Optional(Type.String()),
   request: Type.Optional(BrowserActSchema),
+  // record_start / record_stop / replay
+  name: Type.Optional(Type.String()),
+  description: Type.Optional(Type.String()),
+  discard: Type.Optional(Type.Boolean()),
+  vars: Type.Optional(Type.Object({}, { additionalProperties: true })),
 });
@@ -7,7 +7,12 @@ import {
   browserConsoleMessages,
   browserNavigate,
   browserPdfSave,
+  browserRecordingStart,
+  browserRecordingStop,
+  browserRecordings,
+  browserReplayRecording,
   browserScreenshotAction,
+  type BrowserReplayResponse,
 } from "../../browser/client-actions.js";
 import {
   browserCloseTab,
@@ -109,6 +114,35 @@ type BrowserNodeTarget = {
   label?: string;
 };
 
+function readRecordingVars(params: Record<string, unknown>): Record<string, string> | undefined {
+  const raw = params.vars;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return undefined;
+  }
+  const vars: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      vars[key] = String(value);
+    }
+  }
+  return vars;
+}
+
+function formatReplayToolResult(result: BrowserReplayResponse): AgentToolResult<unknown> {
+  if (result.status === "completed") {
+    return jsonResult(result);
+  }
+  const { failed } = result;
+  const hint = [
+    `Replay of "${result.name}" stopped at step ${failed.index + 1}/${result.steps} (${failed.action}): ${failed.error}`,
+    `${result.completed} step(s) completed. Take a new snapshot (targetId ${result.targetId}) and finish the remaining steps with act; do not replay again.`,
+  ].join("\n");
+  return {
+    content: [{ type: "text", text: `${hint}\n\n${JSON.stringify(result, null, 2)}` }],
+    details: result,
+  };
+}
+
 function isBrowserNode(node: NodeListNode) {
   const caps = Array.isArray(node.caps) ? node.caps : [];
   const commands = Array.isArray(node.commands) ? node.commands : [];
@@ -283,6 +317,7 @@ export function createBrowserTool(opts?: {
       "When using refs from snapshot (e.g. e12), keep the same tab: prefer passing targetId from the snapshot response into subsequent actions (act/click/type/etc).",
       'For stable, self-resolving refs across calls, use snapshot with refs="aria" (Playwright aria-ref ids). Default refs="role" are role+name-based.',
       "Use snapshot+act for UI automation. Avoid act:wait by default; use only in exceptional cases when no reliable UI state exists.",
+      "To save a repeatable flow, call record_start with name, perform it with navigate/act, then record_stop. Use recordings to list saved scripts and replay with name (+ vars for {{placeholders}}) before doing the flow step by step; if a step fails, continue manually from a fresh snapshot.",
       `target selects browser location (sandbox|host|node). Default: ${targetDefault}.`,
       hostHint,
     ].join(" "),
@@ -838,6 +873,65 @@ export function createBrowserTool(opts?: {
             throw err;
           }
         }
+        case "record_start": {
+          const name = readStringParam(params, "name", { required: true });
+          const description = readStringParam(params, "description");
+          if (proxyRequest) {
+            const result = await proxyRequest({
+              method: "POST",
+              path: "/recording/start",
+              profile,
+              body: { name, description },
+            });
+            return jsonResult(result);
+          }
+          return jsonResult(await browserRecordingStart(baseUrl, { name, description, profile }));
+        }
+        case "record_stop": {
+          const discard = params.discard === true;
+          if (proxyRequest) {
+            const result = await proxyRequest({
+              method: "POST",
+              path: "/recording/stop",
+              profile,
+              body: { discard },
+            });
+            return jsonResult(result);
+          }
+          return jsonResult(await browserRecordingStop(baseUrl, { discard, profile }));
+        }
+        case "recordings": {
+          if (proxyRequest) {
+            const result = await proxyRequest({
+              method: "GET",
+              path: "/recordings",
+              profile,
+            });
+            return jsonResult(result);
+          }
+          return jsonResult({ recordings: await browserRecordings(baseUrl) });
+        }
+        case "replay": {
+          const name = readStringParam(params, "name", { required: true });
+          const vars = readRecordingVars(params);
+          const { targetId, timeoutMs } = readOptionalTargetAndTimeout(params);
+          const result = proxyRequest
+            ? ((await proxyRequest({
+                method: "POST",
+                path: "/recordings/replay",
+                profile,
+                body: { name, vars, targetId, timeoutMs },
+                timeoutMs: 300_000,
+              })) as BrowserReplayResponse)
+            : await browserReplayRecording(baseUrl, {
+                name,
+                vars,
+                targetId,
+                timeoutMs,
+                profile,
+              });
+          return formatReplayToolResult(result);
+        }
         default:
           throw new Error(`Unknown action: ${action}`);
       }
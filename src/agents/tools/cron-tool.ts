@@ -228,6 +228,8 @@ JOB SCHEMA (for add action):
   "schedule": { ... },      // Required: when to run
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary or webhook POST
+  "retry": { ... },         // Optional: retry failed runs
+  "blackout": { ... },      // Optional: quiet hours / holiday calendar
   "sessionTarget": "main" | "isolated",  // Required
   "enabled": true | false   // Optional, default true
 }
@@ -239,6 +241,8 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when another job finishes (upstream summary is appended to agentTurn messages)
+  { "kind": "after", "jobId": "<upstream-job-id>", "onStatus": ["ok"] }  // onStatus optional: ok|error|skipped, default ["ok"]
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -255,6 +259,16 @@ DELIVERY (top-level):
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
 
+RETRY (top-level, optional):
+  { "maxAttempts": <attempts incl. first>, "backoffMs": <optional, default 30000>, "maxBackoffMs": <optional>, "multiplier": <optional, default 2>, "jitter": <optional 0-1>, "retryOn": ["timeout", "delivery-target", "error"], "deadLetter": { <delivery> } }
+  - Failed runs are retried with exponential backoff until maxAttempts is reached.
+  - deadLetter (announce or webhook) is notified once a run fails for good.
+
+BLACKOUT (top-level, optional):
+  { "windows": [{ "start": "22:00", "end": "07:00", "days": ["mon", ...] }], "calendar": "<path to .ics>", "tz": "<optional IANA>", "mode": "defer" | "skip" }
+  - Runs that land in a window or calendar event are deferred to its end (default) or recorded as skipped.
+  - Global cron.blackout config applies in addition to the job's rules.
+
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
 - sessionTarget="isolated" REQUIRES payload.kind="agentTurn"
@@ -306,6 +320,8 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "retry",
+              "blackout",
               "enabled",
               "description",
               "deleteAfterRun",
@@ -3,17 +3,67 @@ import type { OpenClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
 import { getMemorySearchManager } from "../../memory/index.js";
+import { buildMemorySearchFilter } from "../../memory/search-filter.js";
 import type { MemorySearchResult } from "../../memory/types.js";
+import { resolveMemoryWritePath } from "../../memory/write-back.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { optionalStringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import {
+  jsonResult,
+  readNumberParam,
+  readStringArrayParam,
+  readStringParam,
+  ToolInputError,
+} from "./common.js";
+
+const MEMORY_SEARCH_SOURCES = ["memory", "sessions"] as const;
+const MEMORY_WRITE_MODES = ["auto", "append"] as const;
+const MEMORY_WRITE_CONFLICTS = ["replace", "keep-both"] as const;
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
   maxResults: Type.Optional(Type.Number()),
   minScore: Type.Optional(Type.Number()),
+  source: optionalStringEnum(MEMORY_SEARCH_SOURCES, {
+    description: "Only search memory files or only session transcripts.",
+  }),
+  paths: Type.Optional(
+    Type.Array(Type.String(), {
+      description: 'Path globs to search, e.g. ["MEMORY.md"] or ["memory/2026-*.md"].',
+    }),
+  ),
+  since: Type.Optional(
+    Type.String({ description: 'Only files modified since a duration ago ("7d") or a date.' }),
+  ),
+  until: Type.Optional(
+    Type.String({ description: 'Only files modified before a duration ago ("1d") or a date.' }),
+  ),
+  originSession: Type.Optional(
+    Type.String({ description: "Only transcripts of this session key." }),
+  ),
+  originChannel: Type.Optional(
+    Type.String({ description: 'Only transcripts of sessions from this channel ("telegram").' }),
+  ),
+});
+
+const MemoryWriteSchema = Type.Object({
+  text: Type.String({
+    description: "The fact to remember, as one short self-contained statement.",
+  }),
+  path: Type.Optional(
+    Type.String({
+      description: "Memory file for new entries (default MEMORY.md, or memory/*.md).",
+    }),
+  ),
+  mode: optionalStringEnum(MEMORY_WRITE_MODES, {
+    description: "append skips the similarity check and always adds a new entry.",
+  }),
+  conflict: optionalStringEnum(MEMORY_WRITE_CONFLICTS, {
+    description: "When a similar entry conflicts: replace it (default) or keep both.",
+  }),
 });
 
 const MemoryGetSchema = Type.Object({
@@ -50,12 +100,13 @@ export function createMemorySearchTool(options: {
     label: "Memory Search",
     name: "memory_search",
     description:
-      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
+      "Mandatory recall step: semantically search MEMORY.md + memory/*.md (and optional session transcripts) before answering questions about prior work, decisions, dates, people, preferences, or todos; returns top snippets with path + lines. Optional filters narrow by source, path glob, modified time (since/until), or originating session/channel. If response has disabled=true, memory retrieval is unavailable and should be surfaced to the user.",
     parameters: MemorySearchSchema,
     execute: async (_toolCallId, params) => {
       const query = readStringParam(params, "query", { required: true });
       const maxResults = readNumberParam(params, "maxResults");
       const minScore = readNumberParam(params, "minScore");
+      const filter = readMemorySearchFilter(params);
       const { manager, error } = await getMemorySearchManager({
         cfg,
         agentId,
@@ -73,6 +124,7 @@ export function createMemorySearchTool(options: {
           maxResults,
           minScore,
           sessionKey: options.agentSessionKey,
+          filter,
         });
         const status = manager.status();
         const decorated = decorateCitations(rawResults, includeCitations);
@@ -98,6 +150,45 @@ export function createMemorySearchTool(options: {
   };
 }
 
+function readMemorySearchFilter(params: Record<string, unknown>) {
+  try {
+    return buildMemorySearchFilter({
+      source: readStringParam(params, "source"),
+      paths: readStringArrayParam(params, "paths"),
+      since: readStringParam(params, "since"),
+      until: readStringParam(params, "until"),
+      session: readStringParam(params, "originSession"),
+      channel: readStringParam(params, "originChannel"),
+    });
+  } catch (err) {
+    throw new ToolInputError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+function readMemoryWritePath(params: Record<string, unknown>) {
+  try {
+    return resolveMemoryWritePath(readStringParam(params, "path"));
+  } catch (err) {
+    throw new ToolInputError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+function readMemoryWriteChoice<T extends string>(
+  params: Record<string, unknown>,
+  key: string,
+  choices: readonly T[],
+): T | undefined {
+  const value = readStringParam(params, key);
+  if (value === undefined) {
+    return undefined;
+  }
+  const choice = choices.find((entry) => entry === value);
+  if (!choice) {
+    throw new ToolInputError(`${key} must be one of: ${choices.join(", ")}`);
+  }
+  return choice;
+}
+
 export function createMemoryGetTool(options: {
   config?: OpenClawConfig;
   agentSessionKey?: string;
@@ -139,6 +230,51 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryWriteTool(options: {
+  config?: OpenClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Write",
+    name: "memory_write",
+    description:
+      "Save a durable fact (preference, decision, person, date, todo) to MEMORY.md or memory/*.md instead of editing memory files by hand. Checks existing entries first: near-duplicates are skipped, a conflicting entry is replaced (conflict=keep-both keeps it), and related facts are placed next to their closest entry; every write gets a provenance footer and is indexed for memory_search right away.",
+    parameters: MemoryWriteSchema,
+    execute: async (_toolCallId, params) => {
+      const text = readStringParam(params, "text", { required: true });
+      const targetPath = readMemoryWritePath(params);
+      const mode = readMemoryWriteChoice(params, "mode", MEMORY_WRITE_MODES);
+      const conflict = readMemoryWriteChoice(params, "conflict", MEMORY_WRITE_CONFLICTS);
+      const { manager, error } = await getMemorySearchManager({
+        cfg,
+        agentId,
+      });
+      if (!manager?.write) {
+        return jsonResult({ disabled: true, error: error ?? "memory write unavailable" });
+      }
+      try {
+        const result = await manager.write({
+          text,
+          path: targetPath,
+          mode,
+          conflict,
+          sessionKey: options.agentSessionKey,
+          origin: "memory_write",
+        });
+        return jsonResult(result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ disabled: true, error: message });
+      }
+    },
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: OpenClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -2,6 +2,8 @@ import { Type } from "@sinclair/typebox";
 import { formatCliCommand } from "../../cli/command-format.js";
 import type { OpenClawConfig } from "../../config/config.js";
 import { logVerbose } from "../../globals.js";
+import { getSlotWebSearchProvider } from "../../plugins/slot-providers.js";
+import type { PluginWebSearchProvider } from "../../plugins/types.js";
 import { wrapWebContent } from "../../security/external-content.js";
 import { normalizeSecretInput } from "../../utils/normalize-secret-input.js";
 import type { AnyAgentTool } from "./common.js";
@@ -1355,6 +1357,38 @@ async function runWebSearch(params: {
   return payload;
 }
 
+function createSlotWebSearchTool(params: {
+  provider: PluginWebSearchProvider;
+  search: WebSearchConfig;
+  config?: OpenClawConfig;
+}): AnyAgentTool {
+  const { provider, search } = params;
+  return {
+    label: "Web Search",
+    name: "web_search",
+    description:
+      provider.description ??
+      `Search the web using ${provider.label ?? provider.id}. Returns results for the query.`,
+    parameters: WebSearchSchema,
+    execute: async (_toolCallId, args) => {
+      const toolParams = args as Record<string, unknown>;
+      const query = readStringParam(toolParams, "query", { required: true });
+      const count =
+        readNumberParam(toolParams, "count", { integer: true }) ?? search?.maxResults ?? undefined;
+      const result = await provider.search({
+        query,
+        count: resolveSearchCount(count, DEFAULT_SEARCH_COUNT),
+        country: readStringParam(toolParams, "country"),
+        search_lang: readStringParam(toolParams, "search_lang"),
+        ui_lang: readStringParam(toolParams, "ui_lang"),
+        freshness: readStringParam(toolParams, "freshness"),
+        config: params.config,
+      });
+      return jsonResult({ provider: provider.id, ...result });
+    },
+  };
+}
+
 export function createWebSearchTool(options?: {
   config?: OpenClawConfig;
   sandboxed?: boolean;
@@ -1364,6 +1398,12 @@ export function createWebSearchTool(options?: {
     return null;
   }
 
+  // A plugin holding the webSearch slot replaces the configured provider.
+  const slotProvider = getSlotWebSearchProvider();
+  if (slotProvider) {
+    return createSlotWebSearchTool({ provider: slotProvider, search, config: options?.config });
+  }
+
   const provider = resolveSearchProvider(search);
   const perplexityConfig = resolvePerplexityConfig(search);
   const grokConfig = resolveGrokConfig(search);
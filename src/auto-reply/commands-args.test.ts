@@ -32,6 +32,7 @@ describe("COMMAND_ARG_FORMATTERS", () => {
     expect(formatArgs("debug", { action: "unset", path: "x" })).toBe("unset x");
     expect(formatArgs("debug", { action: "set", path: "x" })).toBe("set x");
     expect(formatArgs("debug", { action: "set", path: "x", value: true })).toBe("set x=true");
+    expect(formatArgs("debug", { action: "hooks", path: "on" })).toBe("hooks on");
   });
 
   it("formats queue args (order + omission)", () => {
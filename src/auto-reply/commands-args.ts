@@ -53,10 +53,13 @@ const formatConfigArgs: CommandArgsFormatter = (values) =>
 
 const formatDebugArgs: CommandArgsFormatter = (values) =>
   formatActionArgs(values, {
-    formatKnownAction: (action) => {
+    formatKnownAction: (action, path) => {
       if (action === "show" || action === "reset") {
         return action;
       }
+      if (action === "hooks") {
+        return path ? `${action} ${path}` : action;
+      }
       return undefined;
     },
   });
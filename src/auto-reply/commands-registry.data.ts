@@ -262,6 +262,20 @@ function buildChatCommands(): ChatCommandDefinition[] {
       textAlias: "/whoami",
       category: "status",
     }),
+    defineChatCommand({
+      key: "link",
+      nativeName: "link",
+      description: "Link your accounts across channels.",
+      textAlias: "/link",
+      category: "status",
+      args: [
+        {
+          name: "code",
+          description: "Link code, status, or remove",
+          type: "string",
+        },
+      ],
+    }),
     defineChatCommand({
       key: "session",
       nativeName: "session",
@@ -451,9 +465,9 @@ function buildChatCommands(): ChatCommandDefinition[] {
       args: [
         {
           name: "action",
-          description: "show | reset | set | unset",
+          description: "show | reset | set | unset | hooks",
           type: "string",
-          choices: ["show", "reset", "set", "unset"],
+          choices: ["show", "reset", "set", "unset", "hooks"],
         },
         {
           name: "path",
@@ -473,15 +487,15 @@ function buildChatCommands(): ChatCommandDefinition[] {
     defineChatCommand({
       key: "usage",
       nativeName: "usage",
-      description: "Usage footer or cost summary.",
+      description: "Usage footer, cost summary, or budgets.",
       textAlias: "/usage",
       category: "options",
       args: [
         {
           name: "mode",
-          description: "off, tokens, full, or cost",
+          description: "off, tokens, full, cost, or budget",
           type: "string",
-          choices: ["off", "tokens", "full", "cost"],
+          choices: ["off", "tokens", "full", "cost", "budget"],
         },
       ],
       argsMenu: "auto",
@@ -563,6 +577,46 @@ function buildChatCommands(): ChatCommandDefinition[] {
         },
       ],
     }),
+    defineChatCommand({
+      key: "fork",
+      nativeName: "fork",
+      description: "Fork the session from a message, list branches, or switch branch.",
+      textAlias: "/fork",
+      category: "session",
+      args: [
+        {
+          name: "target",
+          description: "Message index (negative counts from the end), list, or switch",
+          type: "string",
+        },
+        {
+          name: "branch",
+          description: "Branch number, label, or session id (for switch)",
+          type: "string",
+        },
+      ],
+    }),
+    defineChatCommand({
+      key: "sandbox",
+      nativeName: "sandbox",
+      description: "List sandbox workspace snapshots or roll back to one.",
+      textAlias: "/sandbox",
+      category: "session",
+      args: [
+        {
+          name: "action",
+          description: "snapshots | rollback",
+          type: "string",
+          choices: ["snapshots", "rollback"],
+        },
+        {
+          name: "snapshot",
+          description: "Snapshot id or list number",
+          type: "string",
+        },
+      ],
+      argsMenu: "auto",
+    }),
     defineChatCommand({
       key: "think",
       nativeName: "think",
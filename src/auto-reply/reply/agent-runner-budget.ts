@@ -0,0 +1,97 @@
+import { parseModelRef } from "../../agents/model-selection.js";
+import type { NormalizedUsage } from "../../agents/usage.js";
+import { logVerbose } from "../../globals.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetBlockedText,
+  formatUsageBudgetWarningText,
+  recordUsageBudgetSpend,
+  type UsageBudgetSubject,
+} from "../../infra/usage-budgets.js";
+import type { ReplyPayload } from "../types.js";
+import type { FollowupRun } from "./queue.js";
+
+export type RunBudgetGate =
+  | { kind: "blocked"; reply?: ReplyPayload }
+  | { kind: "run"; followupRun: FollowupRun; notice?: ReplyPayload };
+
+export function resolveRunBudgetSubject(run: FollowupRun["run"]): UsageBudgetSubject {
+  return {
+    agentId: run.agentId,
+    channel: run.messageProvider,
+    accountId: run.agentAccountId,
+    senderId: run.senderId,
+    sessionKey: run.sessionKey,
+  };
+}
+
+/**
+ * Check spending budgets before a run. Blocked runs reply once per period and
+ * are dropped silently afterwards; runs past a warning threshold switch to the
+ * budget's downgrade model when one is configured. Ledger errors never block.
+ */
+export async function applyRunBudget(
+  followupRun: FollowupRun,
+  opts?: { isHeartbeat?: boolean },
+): Promise<RunBudgetGate> {
+  const run = followupRun.run;
+  let check: Awaited<ReturnType<typeof checkUsageBudgets>>;
+  try {
+    check = await checkUsageBudgets({ cfg: run.config, subject: resolveRunBudgetSubject(run) });
+  } catch (err) {
+    logVerbose(`usage budget check failed: ${formatErrorMessage(err)}`);
+    return { kind: "run", followupRun };
+  }
+  if (!check?.trigger) {
+    return { kind: "run", followupRun };
+  }
+  const trigger = check.trigger;
+  if (check.state === "blocked") {
+    logVerbose(`usage budget blocked run for ${trigger.scope} (${trigger.period})`);
+    return {
+      kind: "blocked",
+      reply:
+        check.notify && !opts?.isHeartbeat
+          ? { text: formatUsageBudgetBlockedText(trigger) }
+          : undefined,
+    };
+  }
+  const downgrade = check.downgradeModel ? parseModelRef(check.downgradeModel, run.provider) : null;
+  const next =
+    downgrade && (downgrade.provider !== run.provider || downgrade.model !== run.model)
+      ? {
+          ...followupRun,
+          run: { ...run, provider: downgrade.provider, model: downgrade.model },
+        }
+      : followupRun;
+  const notice =
+    check.notify && !opts?.isHeartbeat
+      ? {
+          text: formatUsageBudgetWarningText(
+            trigger,
+            next === followupRun ? undefined : `${next.run.provider}/${next.run.model}`,
+          ),
+        }
+      : undefined;
+  return { kind: "run", followupRun: next, notice };
+}
+
+export async function recordRunBudgetSpend(params: {
+  run: FollowupRun["run"];
+  usage?: NormalizedUsage;
+  providerUsed?: string;
+  modelUsed?: string;
+}): Promise<void> {
+  try {
+    await recordUsageBudgetSpend({
+      cfg: params.run.config,
+      subject: resolveRunBudgetSubject(params.run),
+      usage: params.usage,
+      provider: params.providerUsed,
+      model: params.modelUsed,
+    });
+  } catch (err) {
+    logVerbose(`failed to record usage budget spend: ${formatErrorMessage(err)}`);
+  }
+}
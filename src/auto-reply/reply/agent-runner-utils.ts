@@ -9,7 +9,11 @@ import { estimateUsageCost, formatTokenCount, formatUsd } from "../../utils/usag
 import type { TemplateContext } from "../templating.js";
 import type { ReplyPayload } from "../types.js";
 import { resolveOriginMessageProvider, resolveOriginMessageTo } from "./origin-routing.js";
-import type { FollowupRun } from "./queue.js";
+import {
+  type FollowupRun,
+  resolveFollowupPriorityRank,
+  resolveQueuePriorityMaxWaitMs,
+} from "./queue.js";
 
 const BUN_FETCH_SOCKET_ERROR_RE = /socket connection was closed unexpectedly/i;
 
@@ -159,6 +163,13 @@ export function resolveModelFallbackOptions(run: FollowupRun["run"]) {
   };
 }
 
+export function resolveRunLanePriority(followupRun: FollowupRun) {
+  return {
+    lanePriority: resolveFollowupPriorityRank(followupRun.priority),
+    lanePriorityMaxWaitMs: resolveQueuePriorityMaxWaitMs(followupRun.run.config),
+  };
+}
+
 export function buildEmbeddedRunBaseParams(params: {
   run: FollowupRun["run"];
   provider: string;
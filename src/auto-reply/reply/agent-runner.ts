@@ -29,6 +29,7 @@ import {
 import type { OriginatingChannelType, TemplateContext } from "../templating.js";
 import { resolveResponseUsageMode, type VerboseLevel } from "../thinking.js";
 import type { GetReplyOptions, ReplyPayload } from "../types.js";
+import { applyRunBudget, recordRunBudgetSpend } from "./agent-runner-budget.js";
 import { runAgentTurnWithFallback } from "./agent-runner-execution.js";
 import {
   createShouldEmitToolOutput,
@@ -122,7 +123,6 @@ export async function runReplyAgent(params: {
 }): Promise<ReplyPayload | ReplyPayload[] | undefined> {
   const {
     commandBody,
-    followupRun,
     queueKey,
     resolvedQueue,
     shouldSteer,
@@ -147,6 +147,7 @@ export async function runReplyAgent(params: {
     typingMode,
   } = params;
 
+  let followupRun = params.followupRun;
   let activeSessionEntry = sessionEntry;
   const activeSessionStore = sessionStore;
   let activeIsNewSession = isNewSession;
@@ -246,6 +247,13 @@ export async function runReplyAgent(params: {
     return undefined;
   }
 
+  const budgetGate = await applyRunBudget(followupRun, { isHeartbeat });
+  if (budgetGate.kind === "blocked") {
+    typing.cleanup();
+    return budgetGate.reply;
+  }
+  followupRun = budgetGate.followupRun;
+
   await typingSignals.signalRunStart();
 
   activeSessionEntry = await runMemoryFlushIfNeeded({
@@ -497,6 +505,7 @@ export async function runReplyAgent(params: {
       systemPromptReport: runResult.meta?.systemPromptReport,
       cliSessionId,
     });
+    await recordRunBudgetSpend({ run: followupRun.run, usage, providerUsed, modelUsed });
 
     // Drain any late tool/block deliveries before deciding there's "nothing to send".
     // Otherwise, a late typing trigger (e.g. from a tool callback) can outlive the run and
@@ -703,6 +712,9 @@ export async function runReplyAgent(params: {
         verboseNotices.push({ text: `🧹 Auto-compaction complete${suffix}.` });
       }
     }
+    if (budgetGate.notice) {
+      verboseNotices.unshift(budgetGate.notice);
+    }
     if (verboseNotices.length > 0) {
       finalPayloads = [...verboseNotices, ...finalPayloads];
     }
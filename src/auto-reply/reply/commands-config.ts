@@ -17,6 +17,14 @@ import {
   setConfigOverride,
   unsetConfigOverride,
 } from "../../config/runtime-overrides.js";
+import {
+  clearPluginHookTrace,
+  getPluginHookTraceSettings,
+  listPluginHookLatencyStats,
+  listPluginHookTrace,
+  setPluginHookTraceEnabled,
+  type PluginHookTraceChange,
+} from "../../plugins/hook-trace.js";
 import { rejectUnauthorizedCommand, requireCommandFlagEnabled } from "./command-gates.js";
 import type { CommandHandler } from "./commands-types.js";
 import { parseConfigCommand } from "./config-commands.js";
@@ -173,6 +181,53 @@ export const handleConfigCommand: CommandHandler = async (params, allowTextComma
   return null;
 };
 
+const HOOK_REPORT_MAX_STATS = 10;
+const HOOK_REPORT_MAX_ENTRIES = 10;
+
+function formatHookTraceChange(change: PluginHookTraceChange): string {
+  const before = change.before === undefined ? "∅" : JSON.stringify(change.before);
+  const after = change.after === undefined ? "∅" : JSON.stringify(change.after);
+  return `${change.path}: ${before} → ${after}`;
+}
+
+function formatHookTraceReport(): string {
+  const settings = getPluginHookTraceSettings();
+  const slowLabel = settings.slowMs > 0 ? `${settings.slowMs}ms` : "off";
+  const lines = [
+    `🪝 Hook tracing: ${settings.enabled ? "on" : "off"} (slow threshold ${slowLabel})`,
+  ];
+  const stats = listPluginHookLatencyStats().slice(0, HOOK_REPORT_MAX_STATS);
+  if (stats.length === 0) {
+    lines.push("No hook calls recorded yet.");
+    return lines.join("\n");
+  }
+  lines.push("", "Latency (by total time):");
+  for (const entry of stats) {
+    const avg = Math.round(entry.totalMs / entry.calls);
+    const extras = [
+      entry.errors > 0 ? `${entry.errors} errors` : "",
+      entry.slow > 0 ? `${entry.slow} slow` : "",
+    ].filter(Boolean);
+    lines.push(
+      `- ${entry.hookName} · ${entry.pluginId}: ${entry.calls} calls, avg ${avg}ms, max ${Math.round(entry.maxMs)}ms${extras.length > 0 ? `, ${extras.join(", ")}` : ""}`,
+    );
+  }
+  const recent = listPluginHookTrace({ limit: HOOK_REPORT_MAX_ENTRIES });
+  if (recent.length > 0) {
+    lines.push("", "Recent calls:");
+    for (const entry of recent) {
+      const status = entry.outcome === "ok" ? "" : ` [${entry.outcome}]`;
+      lines.push(
+        `#${entry.seq} ${entry.hookName} · ${entry.pluginId} (p${entry.priority}, ${entry.mode}) ${Math.round(entry.durationMs)}ms${status}`,
+      );
+      for (const change of entry.changes) {
+        lines.push(`    ${formatHookTraceChange(change)}`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
 export const handleDebugCommand: CommandHandler = async (params, allowTextCommands) => {
   if (!allowTextCommands) {
     return null;
@@ -215,6 +270,28 @@ export const handleDebugCommand: CommandHandler = async (params, allowTextComman
       },
     };
   }
+  if (debugCommand.action === "hooks") {
+    if (debugCommand.mode === "on" || debugCommand.mode === "off") {
+      setPluginHookTraceEnabled(debugCommand.mode === "on");
+      return {
+        shouldContinue: false,
+        reply: {
+          text: `🪝 Hook tracing ${debugCommand.mode === "on" ? "enabled" : "disabled"} (memory-only).`,
+        },
+      };
+    }
+    if (debugCommand.mode === "clear") {
+      clearPluginHookTrace();
+      return {
+        shouldContinue: false,
+        reply: { text: "🪝 Hook trace and latency counters cleared." },
+      };
+    }
+    return {
+      shouldContinue: false,
+      reply: { text: formatHookTraceReport() },
+    };
+  }
   if (debugCommand.action === "reset") {
     resetConfigOverrides();
     return {
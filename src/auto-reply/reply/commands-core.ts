@@ -10,6 +10,7 @@ import { handleApproveCommand } from "./commands-approve.js";
 import { handleBashCommand } from "./commands-bash.js";
 import { handleCompactCommand } from "./commands-compact.js";
 import { handleConfigCommand, handleDebugCommand } from "./commands-config.js";
+import { handleForkCommand } from "./commands-fork.js";
 import {
   handleCommandsListCommand,
   handleContextCommand,
@@ -18,8 +19,10 @@ import {
   handleStatusCommand,
   handleWhoamiCommand,
 } from "./commands-info.js";
+import { handleLinkCommand } from "./commands-link.js";
 import { handleModelsCommand } from "./commands-models.js";
 import { handlePluginCommand } from "./commands-plugin.js";
+import { handleSandboxCommand } from "./commands-sandbox.js";
 import {
   handleAbortTrigger,
   handleActivationCommand,
@@ -150,6 +153,7 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleContextCommand,
       handleExportSessionCommand,
       handleWhoamiCommand,
+      handleLinkCommand,
       handleSubagentsCommand,
       handleAcpCommand,
       handleConfigCommand,
@@ -157,6 +161,8 @@ export async function handleCommands(params: HandleCommandsParams): Promise<Comm
       handleModelsCommand,
       handleStopCommand,
       handleCompactCommand,
+      handleForkCommand,
+      handleSandboxCommand,
       handleAbortTrigger,
     ];
   }
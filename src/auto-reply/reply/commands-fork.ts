@@ -0,0 +1,112 @@
+import fs from "node:fs";
+import { isEmbeddedPiRunActive } from "../../agents/pi-embedded.js";
+import {
+  applySessionFork,
+  buildSessionBranchTree,
+  forkSessionTranscript,
+  resolveSessionBranch,
+  resolveSessionFilePath,
+  resolveSessionFilePathOptions,
+  switchSessionBranch,
+  type SessionBranchTreeNode,
+} from "../../config/sessions.js";
+import { logVerbose } from "../../globals.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { formatTimeAgo } from "../../infra/format-time/format-relative.ts";
+import { persistSessionEntry } from "./commands-session-store.js";
+import type { CommandHandler, CommandHandlerResult } from "./commands-types.js";
+
+const FORK_USAGE = "Usage: /fork [message-index] | /fork list | /fork switch <#|label|id>";
+
+function stopWithText(text: string): CommandHandlerResult {
+  return { shouldContinue: false, reply: { text } };
+}
+
+function formatBranchLine(node: SessionBranchTreeNode): string {
+  const { branch } = node;
+  const indent = "  ".repeat(node.depth);
+  const marker = node.active ? " ← active" : "";
+  const name = branch.label
+    ? `${branch.label} (${branch.sessionId.slice(0, 8)})`
+    : branch.sessionId;
+  const origin =
+    branch.forkMessageCount !== undefined ? ` · from message ${branch.forkMessageCount}` : "";
+  const age = formatTimeAgo(Date.now() - branch.createdAt);
+  return `${indent}${node.index}. ${name}${origin} · ${age}${marker}`;
+}
+
+export const handleForkCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (normalized !== "/fork" && !normalized.startsWith("/fork ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /fork from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  const entry = params.sessionEntry;
+  if (!entry?.sessionId) {
+    return stopWithText("⚠️ Fork unavailable (missing session id).");
+  }
+
+  const [action = "", ref = ""] = normalized.slice("/fork".length).trim().split(/\s+/);
+  if (action === "list") {
+    const lines = buildSessionBranchTree(entry).map(formatBranchLine);
+    return stopWithText(
+      ["🌿 Session branches:", ...lines, "Switch with /fork switch <#|label|id>."].join("\n"),
+    );
+  }
+
+  if (isEmbeddedPiRunActive(entry.sessionId)) {
+    return stopWithText("⚠️ A run is in progress. Use /stop first, then fork or switch.");
+  }
+
+  if (action === "switch") {
+    const branch = ref ? resolveSessionBranch(entry, ref) : undefined;
+    if (!branch) {
+      return stopWithText(
+        ref
+          ? `⚠️ No branch matches "${ref}". Use /fork list to see branches.`
+          : "⚠️ Usage: /fork switch <#|label|id>",
+      );
+    }
+    if (!switchSessionBranch(entry, branch)) {
+      return stopWithText(`🌿 Already on branch ${branch.label ?? branch.sessionId}.`);
+    }
+    await persistSessionEntry(params);
+    return stopWithText(`🌿 Switched to branch ${branch.label ?? branch.sessionId}.`);
+  }
+
+  if (action && !/^-?\d+$/.test(action)) {
+    return stopWithText(FORK_USAGE);
+  }
+  const sessionFile = resolveSessionFilePath(
+    entry.sessionId,
+    entry,
+    resolveSessionFilePathOptions({ agentId: params.agentId, storePath: params.storePath }),
+  );
+  if (!fs.existsSync(sessionFile)) {
+    return stopWithText("⚠️ Nothing to fork yet (no transcript for this session).");
+  }
+  try {
+    const fork = forkSessionTranscript({
+      sessionFile,
+      messageIndex: action ? Number(action) : undefined,
+    });
+    const branch = applySessionFork(entry, fork);
+    await persistSessionEntry(params);
+    return stopWithText(
+      [
+        `🌿 Forked at message ${fork.messageCount} of ${fork.totalMessages}: ${branch.sessionId}`,
+        "This chat now continues on the new branch. Use /fork list to see branches.",
+      ].join("\n"),
+    );
+  } catch (err) {
+    return stopWithText(`⚠️ Fork failed: ${formatErrorMessage(err)}`);
+  }
+};
@@ -0,0 +1,127 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+import { listIdentityLinks } from "../../pairing/identity-links.js";
+import { withEnvAsync } from "../../test-utils/env.js";
+import type { MsgContext } from "../templating.js";
+import { handleLinkCommand } from "./commands-link.js";
+import { buildCommandTestParams } from "./commands.test-harness.js";
+
+const cfg = {} as OpenClawConfig;
+
+let fixtureRoot = "";
+let caseId = 0;
+
+beforeAll(async () => {
+  fixtureRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-link-command-"));
+});
+
+afterAll(async () => {
+  if (fixtureRoot) {
+    await fs.rm(fixtureRoot, { recursive: true, force: true });
+  }
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function withTempStateDir<T>(fn: () => Promise<T>) {
+  const dir = path.join(fixtureRoot, `case-${caseId++}`);
+  await fs.mkdir(dir, { recursive: true });
+  return await withEnvAsync({ OPENCLAW_STATE_DIR: dir }, fn);
+}
+
+function buildLinkParams(commandBody: string, ctx?: Partial<MsgContext>) {
+  return buildCommandTestParams(commandBody, cfg, {
+    From: "+15550001111",
+    SenderId: "+15550001111",
+    ...ctx,
+  });
+}
+
+function telegramCtx(senderId: string): Partial<MsgContext> {
+  return {
+    Provider: "telegram",
+    Surface: "telegram",
+    From: `telegram:${senderId}`,
+    SenderId: senderId,
+  };
+}
+
+async function requestCode() {
+  const result = await handleLinkCommand(buildLinkParams("/link"), true);
+  const code = /Link code: (\S+)/.exec(result?.reply?.text ?? "")?.[1];
+  expect(code).toBeTruthy();
+  return code as string;
+}
+
+describe("/link command", () => {
+  it("links the requesting account with the one that confirms the code", async () => {
+    await withTempStateDir(async () => {
+      const code = await requestCode();
+
+      const result = await handleLinkCommand(
+        buildLinkParams(`/link ${code}`, telegramCtx("42")),
+        true,
+      );
+
+      expect(result?.shouldContinue).toBe(false);
+      expect(result?.reply?.text).toContain("🔗 Linked");
+      const [identity] = await listIdentityLinks();
+      expect(identity?.ids.toSorted()).toEqual(["telegram:42", "whatsapp:+15550001111"]);
+    });
+  });
+
+  it("ignores unauthorized senders silently", async () => {
+    await withTempStateDir(async () => {
+      const params = buildLinkParams("/link");
+      params.command.isAuthorizedSender = false;
+
+      const result = await handleLinkCommand(params, true);
+
+      expect(result).toEqual({ shouldContinue: false });
+    });
+  });
+
+  it("refuses to run in group chats", async () => {
+    await withTempStateDir(async () => {
+      const params = buildLinkParams("/link");
+      params.isGroup = true;
+
+      const result = await handleLinkCommand(params, true);
+
+      expect(result?.reply?.text).toContain("Use /link in a direct message");
+      expect(await listIdentityLinks()).toEqual([]);
+    });
+  });
+
+  it("rejects a code confirmed from the account that requested it", async () => {
+    await withTempStateDir(async () => {
+      const code = await requestCode();
+
+      const result = await handleLinkCommand(buildLinkParams(`/link ${code}`), true);
+
+      expect(result?.reply?.text).toContain("from a different account");
+      expect(await listIdentityLinks()).toEqual([]);
+    });
+  });
+
+  it("rejects expired codes", async () => {
+    await withTempStateDir(async () => {
+      vi.useFakeTimers({ now: new Date("2026-10-18T10:00:00Z"), toFake: ["Date"] });
+      const code = await requestCode();
+      vi.setSystemTime(new Date("2026-10-18T10:11:00Z"));
+
+      const result = await handleLinkCommand(
+        buildLinkParams(`/link ${code}`, telegramCtx("42")),
+        true,
+      );
+
+      expect(result?.reply?.text).toContain("Unknown or expired link code");
+      expect(await listIdentityLinks()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { logVerbose } from "../../globals.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import {
+  confirmIdentityLinkCode,
+  createIdentityLinkCode,
+  listIdentityLinks,
+  normalizeIdentityId,
+  unlinkIdentityId,
+} from "../../pairing/identity-links.js";
+import type { CommandHandler, CommandHandlerResult } from "./commands-types.js";
+
+const LINK_USAGE = "Usage: /link | /link <code> | /link status | /link remove";
+
+function stopWithText(text: string): CommandHandlerResult {
+  return { shouldContinue: false, reply: { text } };
+}
+
+export const handleLinkCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (normalized !== "/link" && !normalized.startsWith("/link ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /link from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+  if (params.isGroup) {
+    return stopWithText("⚠️ Use /link in a direct message so the code stays private.");
+  }
+  const channel = params.command.channelId ?? params.command.channel;
+  const identityId = normalizeIdentityId(`${channel}:${params.command.senderId ?? ""}`);
+  if (!identityId) {
+    return stopWithText("⚠️ Cannot link: sender id is unknown on this channel.");
+  }
+
+  const arg = normalized.slice("/link".length).trim();
+  try {
+    if (!arg) {
+      const { code } = await createIdentityLinkCode({ id: identityId });
+      return stopWithText(
+        [
+          `🔗 Link code: ${code} (valid for 10 minutes)`,
+          `Send /link ${code} from your account on another channel to link it with ${identityId}.`,
+        ].join("\n"),
+      );
+    }
+    if (arg === "status") {
+      const identity = (await listIdentityLinks()).find((entry) => entry.ids.includes(identityId));
+      return stopWithText(
+        identity
+          ? `🔗 ${identityId} is linked as ${identity.canonical}: ${identity.ids.join(", ")}`
+          : `🔗 ${identityId} is not linked. Send /link to get a code.`,
+      );
+    }
+    if (arg === "remove") {
+      const identity = await unlinkIdentityId({ id: identityId });
+      return stopWithText(
+        identity
+          ? `🔗 Unlinked ${identityId} from ${identity.canonical}.`
+          : `🔗 ${identityId} is not linked.`,
+      );
+    }
+    if (/\s/.test(arg)) {
+      return stopWithText(LINK_USAGE);
+    }
+    const result = await confirmIdentityLinkCode({ code: arg, id: identityId });
+    if (!result.ok) {
+      return stopWithText(
+        result.reason === "same-identity"
+          ? "⚠️ Confirm the code from a different account than the one that requested it."
+          : "⚠️ Unknown or expired link code. Send /link on your other account for a new one.",
+      );
+    }
+    return stopWithText(
+      `🔗 Linked ${result.identity.ids.join(", ")} as ${result.identity.canonical}.`,
+    );
+  } catch (err) {
+    return stopWithText(`⚠️ Identity link failed: ${formatErrorMessage(err)}`);
+  }
+};
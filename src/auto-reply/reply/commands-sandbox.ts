@@ -0,0 +1,109 @@
+import { isEmbeddedPiRunActive } from "../../agents/pi-embedded.js";
+import {
+  findSandboxSnapshot,
+  listSandboxSnapshots,
+  resolveSandboxConfigForAgent,
+  resolveSandboxRuntimeStatus,
+  resolveSandboxScopeKey,
+  restoreSandboxSnapshot,
+  type SandboxSnapshotMeta,
+} from "../../agents/sandbox.js";
+import { logVerbose } from "../../globals.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { formatTimeAgo } from "../../infra/format-time/format-relative.ts";
+import type { CommandHandler, CommandHandlerResult } from "./commands-types.js";
+
+const SANDBOX_USAGE = "Usage: /sandbox snapshots | /sandbox rollback [id|#] [--without-backup]";
+const WITHOUT_BACKUP_FLAG = "--without-backup";
+const MAX_LISTED_SNAPSHOTS = 10;
+
+function stopWithText(text: string): CommandHandlerResult {
+  return { shouldContinue: false, reply: { text } };
+}
+
+function formatSnapshotLine(snapshot: SandboxSnapshotMeta, index: number): string {
+  const age = formatTimeAgo(Date.now() - snapshot.createdAtMs);
+  const note = snapshot.reason === "run" ? "" : ` · ${snapshot.reason}`;
+  return `${index + 1}. ${snapshot.id} · ${age} · ${snapshot.files} file(s)${note}`;
+}
+
+export const handleSandboxCommand: CommandHandler = async (params, allowTextCommands) => {
+  if (!allowTextCommands) {
+    return null;
+  }
+  const normalized = params.command.commandBodyNormalized;
+  if (normalized !== "/sandbox" && !normalized.startsWith("/sandbox ")) {
+    return null;
+  }
+  if (!params.command.isAuthorizedSender) {
+    logVerbose(
+      `Ignoring /sandbox from unauthorized sender: ${params.command.senderId || "<unknown>"}`,
+    );
+    return { shouldContinue: false };
+  }
+
+  const [action = "snapshots", ...args] = normalized.slice("/sandbox".length).trim().split(/\s+/);
+  const withoutBackup = args.includes(WITHOUT_BACKUP_FLAG);
+  const ref = args.find((arg) => arg && arg !== WITHOUT_BACKUP_FLAG);
+  if (action !== "snapshots" && action !== "rollback") {
+    return stopWithText(SANDBOX_USAGE);
+  }
+
+  const runtime = resolveSandboxRuntimeStatus({ cfg: params.cfg, sessionKey: params.sessionKey });
+  if (!runtime.sandboxed) {
+    return stopWithText("⚠️ This session is not sandboxed.");
+  }
+  const sandboxCfg = resolveSandboxConfigForAgent(params.cfg, runtime.agentId);
+  const scopeKey = resolveSandboxScopeKey(sandboxCfg.scope, runtime.sessionKey);
+  const snapshots = await listSandboxSnapshots(scopeKey);
+
+  if (action === "snapshots") {
+    if (snapshots.length === 0) {
+      return stopWithText(
+        sandboxCfg.snapshots.enabled
+          ? "🗂️ No sandbox snapshots yet. One is taken at the start of each run."
+          : "🗂️ No sandbox snapshots. Set agents.defaults.sandbox.snapshots.enabled to true to take one at the start of each run.",
+      );
+    }
+    const lines = snapshots.slice(0, MAX_LISTED_SNAPSHOTS).map(formatSnapshotLine);
+    return stopWithText(
+      [
+        `🗂️ Sandbox snapshots (${scopeKey}):`,
+        ...lines,
+        "Restore with /sandbox rollback [id|#].",
+      ].join("\n"),
+    );
+  }
+
+  const sessionId = params.sessionEntry?.sessionId;
+  if (sessionId && isEmbeddedPiRunActive(sessionId)) {
+    return stopWithText("⚠️ A run is in progress. Use /stop first, then roll back.");
+  }
+  const snapshot = findSandboxSnapshot(snapshots, ref);
+  if (!snapshot) {
+    return stopWithText(
+      ref
+        ? `⚠️ No sandbox snapshot matches "${ref}". Use /sandbox snapshots to list them.`
+        : "⚠️ No run snapshot to roll back to.",
+    );
+  }
+  try {
+    const result = await restoreSandboxSnapshot({
+      snapshot,
+      maxBytes: sandboxCfg.snapshots.maxBytes,
+      withoutBackup,
+    });
+    if (result.status === "backup-too-large") {
+      return stopWithText(
+        [
+          `⚠️ Rollback aborted: the current workspace (${result.bytes} bytes) exceeds snapshots.maxBytes (${sandboxCfg.snapshots.maxBytes}), so it cannot be saved first and the rollback could not be undone.`,
+          `Send /sandbox rollback ${snapshot.id} ${WITHOUT_BACKUP_FLAG} to discard it anyway.`,
+        ].join("\n"),
+      );
+    }
+    const undo = result.backup ? ` Previous state saved as ${result.backup.id}.` : "";
+    return stopWithText(`⏪ Sandbox workspace restored to ${snapshot.id}.${undo}`);
+  } catch (err) {
+    return stopWithText(`⚠️ Rollback failed: ${formatErrorMessage(err)}`);
+  }
+};
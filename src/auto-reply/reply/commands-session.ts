@@ -13,6 +13,7 @@ import {
 import { logVerbose } from "../../globals.js";
 import { scheduleGatewaySigusr1Restart, triggerOpenClawRestart } from "../../infra/restart.js";
 import { loadCostUsageSummary, loadSessionCostSummary } from "../../infra/session-cost-usage.js";
+import { formatUsageBudgetWindow, loadUsageBudgetStatus } from "../../infra/usage-budgets.js";
 import { formatTokenCount, formatUsd } from "../../utils/usage-format.js";
 import { parseActivationCommand } from "../group-activation.js";
 import { parseSendPolicyCommand } from "../send-policy.js";
@@ -205,10 +206,36 @@ export const handleUsageCommand: CommandHandler = async (params, allowTextComman
     };
   }
 
+  if (rawArgs.toLowerCase().startsWith("budget")) {
+    const status = await loadUsageBudgetStatus({
+      cfg: params.cfg,
+      subject: {
+        agentId: params.agentId,
+        channel: params.command.channel,
+        accountId: params.ctx.AccountId,
+        senderId: params.ctx.SenderId?.trim() || undefined,
+        sessionKey: params.sessionKey,
+      },
+    });
+    if (!status.enabled) {
+      return {
+        shouldContinue: false,
+        reply: { text: "💸 No spending budgets configured." },
+      };
+    }
+    const lines = status.windows.map(formatUsageBudgetWindow);
+    return {
+      shouldContinue: false,
+      reply: {
+        text: `💸 Usage budgets\n${lines.length > 0 ? lines.join("\n") : "No budget applies to this chat."}`,
+      },
+    };
+  }
+
   if (rawArgs && !requested) {
     return {
       shouldContinue: false,
-      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost" },
+      reply: { text: "⚙️ Usage: /usage off|tokens|full|cost|budget" },
     };
   }
 
@@ -25,7 +25,11 @@ import { buildStatusMessage } from "../status.js";
 import type { ElevatedLevel, ReasoningLevel, ThinkLevel, VerboseLevel } from "../thinking.js";
 import type { ReplyPayload } from "../types.js";
 import type { CommandContext } from "./commands-types.js";
-import { getFollowupQueueDepth, resolveQueueSettings } from "./queue.js";
+import {
+  getFollowupQueueDepth,
+  getFollowupQueueLaneDepths,
+  resolveQueueSettings,
+} from "./queue.js";
 import { resolveSubagentLabel } from "./subagents-utils.js";
 
 export async function buildStatusReply(params: {
@@ -112,6 +116,7 @@ export async function buildStatusReply(params: {
   });
   const queueKey = sessionKey ?? sessionEntry?.sessionId;
   const queueDepth = queueKey ? getFollowupQueueDepth(queueKey) : 0;
+  const queueLaneDepths = queueKey ? getFollowupQueueLaneDepths(queueKey) : {};
   const queueOverrides = Boolean(
     sessionEntry?.queueDebounceMs ?? sessionEntry?.queueCap ?? sessionEntry?.queueDrop,
   );
@@ -190,6 +195,7 @@ export async function buildStatusReply(params: {
     queue: {
       mode: queueSettings.mode,
       depth: queueDepth,
+      laneDepths: queueLaneDepths,
       debounceMs: queueSettings.debounceMs,
       cap: queueSettings.cap,
       dropPolicy: queueSettings.dropPolicy,
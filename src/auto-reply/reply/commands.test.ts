@@ -478,6 +478,21 @@ describe("parseConfigCommand", () => {
       { parse: parseDebugCommand, input: "/debug", expected: { action: "show" } },
       { parse: parseDebugCommand, input: "/debug show", expected: { action: "show" } },
       { parse: parseDebugCommand, input: "/debug reset", expected: { action: "reset" } },
+      {
+        parse: parseDebugCommand,
+        input: "/debug hooks",
+        expected: { action: "hooks", mode: "show" },
+      },
+      {
+        parse: parseDebugCommand,
+        input: "/debug hooks ON",
+        expected: { action: "hooks", mode: "on" },
+      },
+      {
+        parse: parseDebugCommand,
+        input: "/debug hooks later",
+        expected: { action: "error", message: "Usage: /debug hooks [on|off|clear]" },
+      },
       {
         parse: parseDebugCommand,
         input: "/debug unset foo.bar",
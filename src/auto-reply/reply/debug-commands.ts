@@ -1,10 +1,13 @@
 import { parseStandardSetUnsetSlashCommand } from "./commands-setunset-standard.js";
 
+export type DebugHooksMode = "show" | "on" | "off" | "clear";
+
 export type DebugCommand =
   | { action: "show" }
   | { action: "reset" }
   | { action: "set"; path: string; value: unknown }
   | { action: "unset"; path: string }
+  | { action: "hooks"; mode: DebugHooksMode }
   | { action: "error"; message: string };
 
 export function parseDebugCommand(raw: string): DebugCommand | null {
@@ -12,14 +15,21 @@ export function parseDebugCommand(raw: string): DebugCommand | null {
     raw,
     slash: "/debug",
     invalidMessage: "Invalid /debug syntax.",
-    usageMessage: "Usage: /debug show|set|unset|reset",
-    onKnownAction: (action) => {
+    usageMessage: "Usage: /debug show|set|unset|reset|hooks",
+    onKnownAction: (action, args) => {
       if (action === "show") {
         return { action: "show" };
       }
       if (action === "reset") {
         return { action: "reset" };
       }
+      if (action === "hooks") {
+        const mode = args.trim().toLowerCase() || "show";
+        if (mode === "show" || mode === "on" || mode === "off" || mode === "clear") {
+          return { action: "hooks", mode };
+        }
+        return { action: "error", message: "Usage: /debug hooks [on|off|clear]" };
+      }
       return undefined;
     },
   });
@@ -13,7 +13,8 @@ import { stripHeartbeatToken } from "../heartbeat.js";
 import type { OriginatingChannelType } from "../templating.js";
 import { isSilentReplyText, SILENT_REPLY_TOKEN } from "../tokens.js";
 import type { GetReplyOptions, ReplyPayload } from "../types.js";
-import { resolveRunAuthProfile } from "./agent-runner-utils.js";
+import { applyRunBudget, recordRunBudgetSpend } from "./agent-runner-budget.js";
+import { resolveRunAuthProfile, resolveRunLanePriority } from "./agent-runner-utils.js";
 import {
   resolveOriginAccountId,
   resolveOriginMessageProvider,
@@ -127,8 +128,16 @@ export function createFollowupRunner(params: {
     }
   };
 
-  return async (queued: FollowupRun) => {
+  return async (pending: FollowupRun) => {
     try {
+      const budgetGate = await applyRunBudget(pending, { isHeartbeat: opts?.isHeartbeat });
+      if (budgetGate.kind === "blocked") {
+        if (budgetGate.reply) {
+          await sendFollowupPayloads([budgetGate.reply], pending);
+        }
+        return;
+      }
+      const queued = budgetGate.followupRun;
       const runId = crypto.randomUUID();
       if (queued.run.sessionKey) {
         registerAgentRunContext(runId, {
@@ -188,6 +197,7 @@ export function createFollowupRunner(params: {
               execOverrides: queued.run.execOverrides,
               bashElevated: queued.run.bashElevated,
               timeoutMs: queued.run.timeoutMs,
+              ...resolveRunLanePriority(queued),
               runId,
               blockReplyBreak: queued.run.blockReplyBreak,
               onAgentEvent: (evt) => {
@@ -233,6 +243,12 @@ export function createFollowupRunner(params: {
           logLabel: "followup",
         });
       }
+      await recordRunBudgetSpend({
+        run: queued.run,
+        usage,
+        providerUsed: fallbackProvider,
+        modelUsed,
+      });
 
       const payloadArray = runResult.payloads ?? [];
       if (payloadArray.length === 0) {
@@ -312,6 +328,10 @@ export function createFollowupRunner(params: {
         }
       }
 
+      if (budgetGate.notice) {
+        finalPayloads.unshift(budgetGate.notice);
+      }
+
       await sendFollowupPayloads(finalPayloads, queued);
     } finally {
       // Both signals are required for the typing controller to clean up.
@@ -38,6 +38,7 @@ vi.mock("../../utils/provider-utils.js", () => ({
 
 vi.mock("../command-detection.js", () => ({
   hasControlCommand: vi.fn().mockReturnValue(false),
+  isControlCommandMessage: vi.fn().mockReturnValue(false),
 }));
 
 vi.mock("./agent-runner.js", () => ({
@@ -59,6 +60,7 @@ vi.mock("./inbound-meta.js", () => ({
 }));
 
 vi.mock("./queue.js", () => ({
+  resolveFollowupPriority: vi.fn().mockReturnValue("routine"),
   resolveQueueSettings: vi.fn().mockReturnValue({ mode: "followup" }),
 }));
 
@@ -2,7 +2,17 @@ export { extractQueueDirective } from "./queue/directive.js";
 export { clearSessionQueues } from "./queue/cleanup.js";
 export type { ClearSessionQueueResult } from "./queue/cleanup.js";
 export { scheduleFollowupDrain } from "./queue/drain.js";
-export { enqueueFollowupRun, getFollowupQueueDepth } from "./queue/enqueue.js";
+export {
+  enqueueFollowupRun,
+  getFollowupQueueDepth,
+  getFollowupQueueLaneDepths,
+} from "./queue/enqueue.js";
+export {
+  resolveFollowupPriority,
+  resolveFollowupPriorityRank,
+  resolveQueuePriorityMaxWaitMs,
+} from "./queue/priority.js";
+export type { FollowupPriority } from "./queue/priority.js";
 export { resolveQueueSettings } from "./queue/settings.js";
 export { clearFollowupQueue } from "./queue/state.js";
 export type {
@@ -10,6 +10,11 @@ import {
   waitForQueueDebounce,
 } from "../../../utils/queue-helpers.js";
 import { isRoutableChannel } from "../route-reply.js";
+import {
+  promoteNextFollowupItem,
+  resolveHighestFollowupPriority,
+  selectCollectBatch,
+} from "./priority.js";
 import { FOLLOWUP_QUEUES } from "./state.js";
 import type { FollowupRun } from "./types.js";
 
@@ -46,6 +51,15 @@ function resolveCrossChannelKey(item: FollowupRun): { cross?: true; key?: string
   };
 }
 
+function removeQueuedItems(items: FollowupRun[], drained: FollowupRun[]): void {
+  for (const item of drained) {
+    const index = items.indexOf(item);
+    if (index >= 0) {
+      items.splice(index, 1);
+    }
+  }
+}
+
 export function scheduleFollowupDrain(
   key: string,
   runFollowup: (run: FollowupRun) => Promise<void>,
@@ -68,6 +82,9 @@ export function scheduleFollowupDrain(
           // If so, process individually to preserve per-message routing.
           const isCrossChannel = hasCrossChannelItems(queue.items, resolveCrossChannelKey);
 
+          if (isCrossChannel || collectState.forceIndividualCollect) {
+            promoteNextFollowupItem(queue.items, queue.priorityMaxWaitMs);
+          }
           const collectDrainResult = await drainCollectQueueStep({
             collectState,
             isCrossChannel,
@@ -81,7 +98,8 @@ export function scheduleFollowupDrain(
             continue;
           }
 
-          const items = queue.items.slice();
+          // Priority lanes are collected first; routine chatter follows in the next batch.
+          const items = selectCollectBatch(queue.items, queue.priorityMaxWaitMs);
           const summary = previewQueueSummaryPrompt({ state: queue, noun: "message" });
           const run = items.at(-1)?.run ?? queue.lastRun;
           if (!run) {
@@ -100,9 +118,10 @@ export function scheduleFollowupDrain(
             prompt,
             run,
             enqueuedAt: Date.now(),
+            priority: resolveHighestFollowupPriority(items),
             ...routing,
           });
-          queue.items.splice(0, items.length);
+          removeQueuedItems(queue.items, items);
           if (summary) {
             clearQueueSummaryState(queue);
           }
@@ -134,6 +153,7 @@ export function scheduleFollowupDrain(
           continue;
         }
 
+        promoteNextFollowupItem(queue.items, queue.priorityMaxWaitMs);
         if (!(await drainNextQueueItem(queue.items, runFollowup))) {
           break;
         }
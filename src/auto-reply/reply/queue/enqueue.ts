@@ -1,4 +1,5 @@
 import { applyQueueDropPolicy, shouldSkipQueueItem } from "../../../utils/queue-helpers.js";
+import { countFollowupsByPriority, type FollowupPriority } from "./priority.js";
 import { getExistingFollowupQueue, getFollowupQueue } from "./state.js";
 import type { FollowupRun, QueueDedupeMode, QueueSettings } from "./types.js";
 
@@ -63,3 +64,11 @@ export function getFollowupQueueDepth(key: string): number {
   }
   return queue.items.length;
 }
+
+export function getFollowupQueueLaneDepths(key: string): Partial<Record<FollowupPriority, number>> {
+  const queue = getExistingFollowupQueue(key);
+  if (!queue) {
+    return {};
+  }
+  return countFollowupsByPriority(queue.items);
+}
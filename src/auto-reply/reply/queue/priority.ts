@@ -0,0 +1,127 @@
+import type { OpenClawConfig } from "../../../config/config.js";
+import type { FollowupRun } from "./types.js";
+
+/**
+ * Priority lanes for queued replies, highest first. Routine group chatter
+ * runs last; owner messages, control commands, mentions and cron wakes jump
+ * ahead of it.
+ */
+export const FOLLOWUP_PRIORITIES = ["command", "owner", "mention", "cron", "routine"] as const;
+
+export type FollowupPriority = (typeof FOLLOWUP_PRIORITIES)[number];
+
+export const DEFAULT_QUEUE_PRIORITY_MAX_WAIT_MS = 60_000;
+
+export function resolveFollowupPriority(params: {
+  isControlCommand?: boolean;
+  senderIsOwner?: boolean;
+  isGroup?: boolean;
+  wasMentioned?: boolean;
+  isCronWake?: boolean;
+}): FollowupPriority {
+  if (params.isControlCommand) {
+    return "command";
+  }
+  if (params.senderIsOwner) {
+    return "owner";
+  }
+  if (params.isCronWake) {
+    return "cron";
+  }
+  // Direct messages are addressed to the agent just like a group mention.
+  if (!params.isGroup || params.wasMentioned) {
+    return "mention";
+  }
+  return "routine";
+}
+
+/** Higher ranks run sooner; unknown or missing priorities count as routine. */
+export function resolveFollowupPriorityRank(priority?: FollowupPriority): number {
+  const index = priority ? FOLLOWUP_PRIORITIES.indexOf(priority) : -1;
+  return index < 0 ? 0 : FOLLOWUP_PRIORITIES.length - 1 - index;
+}
+
+export function resolveQueuePriorityMaxWaitMs(cfg?: OpenClawConfig): number {
+  const raw = cfg?.messages?.queue?.priorityMaxWaitMs;
+  return typeof raw === "number" && Number.isFinite(raw)
+    ? Math.max(0, raw)
+    : DEFAULT_QUEUE_PRIORITY_MAX_WAIT_MS;
+}
+
+function isStarved(item: FollowupRun, now: number, maxWaitMs: number): boolean {
+  return now - item.enqueuedAt >= maxWaitMs;
+}
+
+/**
+ * Pick the index of the next item to run. Items stay in arrival order; the
+ * highest lane wins unless the oldest item has waited past `maxWaitMs`, which
+ * keeps routine chatter from starving behind a steady stream of priority work.
+ */
+export function selectNextFollowupIndex(
+  items: FollowupRun[],
+  maxWaitMs: number,
+  now = Date.now(),
+): number {
+  const oldest = items[0];
+  if (!oldest || isStarved(oldest, now, maxWaitMs)) {
+    return 0;
+  }
+  let bestIndex = 0;
+  let bestRank = resolveFollowupPriorityRank(oldest.priority);
+  for (let index = 1; index < items.length; index += 1) {
+    const rank = resolveFollowupPriorityRank(items[index]?.priority);
+    if (rank > bestRank) {
+      bestIndex = index;
+      bestRank = rank;
+    }
+  }
+  return bestIndex;
+}
+
+/** Move the next item to the front so the shared queue helpers drain it first. */
+export function promoteNextFollowupItem(items: FollowupRun[], maxWaitMs: number): void {
+  const index = selectNextFollowupIndex(items, maxWaitMs);
+  if (index > 0) {
+    const [next] = items.splice(index, 1);
+    if (next) {
+      items.unshift(next);
+    }
+  }
+}
+
+/**
+ * Items to combine into the next collect batch: everything above the routine
+ * lane when any is queued, otherwise (or once routine items starve) the whole
+ * queue.
+ */
+export function selectCollectBatch(items: FollowupRun[], maxWaitMs: number): FollowupRun[] {
+  const oldest = items[0];
+  if (!oldest || isStarved(oldest, Date.now(), maxWaitMs)) {
+    return items.slice();
+  }
+  const prioritized = items.filter((item) => resolveFollowupPriorityRank(item.priority) > 0);
+  return prioritized.length > 0 ? prioritized : items.slice();
+}
+
+export function resolveHighestFollowupPriority(items: FollowupRun[]): FollowupPriority | undefined {
+  let highest: FollowupPriority | undefined;
+  for (const item of items) {
+    if (resolveFollowupPriorityRank(item.priority) > resolveFollowupPriorityRank(highest)) {
+      highest = item.priority;
+    }
+  }
+  return highest;
+}
+
+export function countFollowupsByPriority(
+  items: FollowupRun[],
+): Partial<Record<FollowupPriority, number>> {
+  const counts: Partial<Record<FollowupPriority, number>> = {};
+  for (const priority of FOLLOWUP_PRIORITIES) {
+    const count = items.filter((item) => (item.priority ?? "routine") === priority).length;
+    if (count > 0) {
+      counts[priority] = count;
+    }
+  }
+  return counts;
+}
@@ -1,6 +1,7 @@
 import { getChannelPlugin } from "../../../channels/plugins/index.js";
 import type { InboundDebounceByProvider } from "../../../config/types.messages.js";
 import { normalizeQueueDropPolicy, normalizeQueueMode } from "./normalize.js";
+import { resolveQueuePriorityMaxWaitMs } from "./priority.js";
 import { DEFAULT_QUEUE_CAP, DEFAULT_QUEUE_DEBOUNCE_MS, DEFAULT_QUEUE_DROP } from "./state.js";
 import type { QueueMode, QueueSettings, ResolveQueueSettingsParams } from "./types.js";
 
@@ -64,5 +65,6 @@ export function resolveQueueSettings(params: ResolveQueueSettingsParams): QueueS
     debounceMs: typeof debounceRaw === "number" ? Math.max(0, debounceRaw) : undefined,
     cap: typeof capRaw === "number" ? Math.max(1, Math.floor(capRaw)) : undefined,
     dropPolicy: dropRaw,
+    priorityMaxWaitMs: resolveQueuePriorityMaxWaitMs(params.cfg),
   };
 }
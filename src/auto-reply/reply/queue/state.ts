@@ -1,4 +1,5 @@
 import { applyQueueRuntimeSettings } from "../../../utils/queue-helpers.js";
+import { DEFAULT_QUEUE_PRIORITY_MAX_WAIT_MS } from "./priority.js";
 import type { FollowupRun, QueueDropPolicy, QueueMode, QueueSettings } from "./types.js";
 
 export type FollowupQueueState = {
@@ -9,6 +10,7 @@ export type FollowupQueueState = {
   debounceMs: number;
   cap: number;
   dropPolicy: QueueDropPolicy;
+  priorityMaxWaitMs: number;
   droppedCount: number;
   summaryLines: string[];
   lastRun?: FollowupRun["run"];
@@ -28,6 +30,12 @@ export function getExistingFollowupQueue(key: string): FollowupQueueState | unde
   return FOLLOWUP_QUEUES.get(cleaned);
 }
 
+function resolvePriorityMaxWaitMs(settings: QueueSettings, fallback: number): number {
+  return typeof settings.priorityMaxWaitMs === "number"
+    ? Math.max(0, settings.priorityMaxWaitMs)
+    : fallback;
+}
+
 export function getFollowupQueue(key: string, settings: QueueSettings): FollowupQueueState {
   const existing = FOLLOWUP_QUEUES.get(key);
   if (existing) {
@@ -35,6 +43,7 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
       target: existing,
       settings,
     });
+    existing.priorityMaxWaitMs = resolvePriorityMaxWaitMs(settings, existing.priorityMaxWaitMs);
     return existing;
   }
 
@@ -52,6 +61,7 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
         ? Math.floor(settings.cap)
         : DEFAULT_QUEUE_CAP,
     dropPolicy: settings.dropPolicy ?? DEFAULT_QUEUE_DROP,
+    priorityMaxWaitMs: resolvePriorityMaxWaitMs(settings, DEFAULT_QUEUE_PRIORITY_MAX_WAIT_MS),
     droppedCount: 0,
     summaryLines: [],
   };
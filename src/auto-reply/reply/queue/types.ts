@@ -4,6 +4,7 @@ import type { OpenClawConfig } from "../../../config/config.js";
 import type { SessionEntry } from "../../../config/sessions.js";
 import type { OriginatingChannelType } from "../../templating.js";
 import type { ElevatedLevel, ReasoningLevel, ThinkLevel, VerboseLevel } from "../directives.js";
+import type { FollowupPriority } from "./priority.js";
 
 export type QueueMode = "steer" | "followup" | "collect" | "steer-backlog" | "interrupt" | "queue";
 
@@ -14,6 +15,8 @@ export type QueueSettings = {
   debounceMs?: number;
   cap?: number;
   dropPolicy?: QueueDropPolicy;
+  /** How long a queued item can be overtaken by higher priority lanes before it runs next. */
+  priorityMaxWaitMs?: number;
 };
 
 export type QueueDedupeMode = "message-id" | "prompt" | "none";
@@ -24,6 +27,8 @@ export type FollowupRun = {
   messageId?: string;
   summaryLine?: string;
   enqueuedAt: number;
+  /** Priority lane; routine items run after owner, command, mention and cron items. */
+  priority?: FollowupPriority;
   /**
    * Originating channel for reply routing.
    * When set, replies should be routed back to this provider
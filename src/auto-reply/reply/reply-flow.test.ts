@@ -8,7 +8,7 @@ import { finalizeInboundContext } from "./inbound-context.js";
 import { normalizeInboundTextNewlines } from "./inbound-text.js";
 import { parseLineDirectives, hasLineDirectives } from "./line-directives.js";
 import type { FollowupRun, QueueSettings } from "./queue.js";
-import { enqueueFollowupRun, scheduleFollowupDrain } from "./queue.js";
+import { enqueueFollowupRun, getFollowupQueueLaneDepths, scheduleFollowupDrain } from "./queue.js";
 import { createReplyDispatcher } from "./reply-dispatcher.js";
 import { createReplyToModeFilter, resolveReplyToMode } from "./reply-threading.js";
 
@@ -602,11 +602,14 @@ function createRun(params: {
   originatingTo?: string;
   originatingAccountId?: string;
   originatingThreadId?: string | number;
+  priority?: FollowupRun["priority"];
+  enqueuedAt?: number;
 }): FollowupRun {
   return {
     prompt: params.prompt,
     messageId: params.messageId,
-    enqueuedAt: Date.now(),
+    enqueuedAt: params.enqueuedAt ?? Date.now(),
+    priority: params.priority,
     originatingChannel: params.originatingChannel,
     originatingTo: params.originatingTo,
     originatingAccountId: params.originatingAccountId,
@@ -1098,6 +1101,75 @@ describe("followup queue collect routing", () => {
 
 const emptyCfg = {} as OpenClawConfig;
 
+describe("followup queue priority lanes", () => {
+  const collectRuns = (expectedCalls: number) => {
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      if (calls.length >= expectedCalls) {
+        done.resolve();
+      }
+    };
+    return { calls, done: done.promise, runFollowup };
+  };
+
+  it("runs owner messages ahead of routine group chatter", async () => {
+    const key = `test-priority-followup-${Date.now()}`;
+    const { calls, done, runFollowup } = collectRuns(3);
+    const settings: QueueSettings = { mode: "followup", debounceMs: 0, cap: 50 };
+
+    enqueueFollowupRun(key, createRun({ prompt: "one", priority: "routine" }), settings);
+    enqueueFollowupRun(key, createRun({ prompt: "two" }), settings);
+    enqueueFollowupRun(key, createRun({ prompt: "owner", priority: "owner" }), settings);
+    expect(getFollowupQueueLaneDepths(key)).toEqual({ owner: 1, routine: 2 });
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done;
+    expect(calls.map((call) => call.prompt)).toEqual(["owner", "one", "two"]);
+  });
+
+  it("stops overtaking routine items that waited past priorityMaxWaitMs", async () => {
+    const key = `test-priority-starved-${Date.now()}`;
+    const { calls, done, runFollowup } = collectRuns(2);
+    const settings: QueueSettings = {
+      mode: "followup",
+      debounceMs: 0,
+      cap: 50,
+      priorityMaxWaitMs: 30_000,
+    };
+
+    enqueueFollowupRun(
+      key,
+      createRun({ prompt: "stale", priority: "routine", enqueuedAt: Date.now() - 60_000 }),
+      settings,
+    );
+    enqueueFollowupRun(key, createRun({ prompt: "stop", priority: "command" }), settings);
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done;
+    expect(calls.map((call) => call.prompt)).toEqual(["stale", "stop"]);
+  });
+
+  it("collects priority lanes before routine chatter", async () => {
+    const key = `test-priority-collect-${Date.now()}`;
+    const { calls, done, runFollowup } = collectRuns(2);
+    const settings: QueueSettings = { mode: "collect", debounceMs: 0, cap: 50 };
+
+    enqueueFollowupRun(key, createRun({ prompt: "chatter", priority: "routine" }), settings);
+    enqueueFollowupRun(key, createRun({ prompt: "hey bot", priority: "mention" }), settings);
+    enqueueFollowupRun(key, createRun({ prompt: "more chatter", priority: "routine" }), settings);
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done;
+    expect(calls[0]?.priority).toBe("mention");
+    expect(calls[0]?.prompt).toContain("Queued #1\nhey bot");
+    expect(calls[0]?.prompt).not.toContain("chatter");
+    expect(calls[1]?.prompt).toContain("Queued #1\nchatter");
+    expect(calls[1]?.prompt).toContain("Queued #2\nmore chatter");
+  });
+});
+
 describe("createReplyDispatcher", () => {
   it("drops empty payloads and exact silent tokens without media", async () => {
     const deliver = vi.fn().mockResolvedValue(undefined);
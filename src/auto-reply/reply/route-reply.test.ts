@@ -74,6 +74,7 @@ const createRegistry = (channels: PluginRegistry["channels"]): PluginRegistry =>
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  slotProviders: [],
   diagnostics: [],
 });
 
@@ -1037,7 +1037,7 @@ describe("initSessionState preserves behavior overrides across /new and /reset",
       overrides: { verboseLevel: "on" },
     });
     const sessionUtils = await import("../../gateway/session-utils.fs.js");
-    const archiveSpy = vi.spyOn(sessionUtils, "archiveSessionTranscripts");
+    const archiveSpy = vi.spyOn(sessionUtils, "archiveSessionBranchTranscripts");
 
     const cfg = {
       session: { store: storePath, idleMinutes: 999 },
@@ -1063,7 +1063,7 @@ describe("initSessionState preserves behavior overrides across /new and /reset",
     expect(result.resetTriggered).toBe(true);
     expect(archiveSpy).toHaveBeenCalledWith(
       expect.objectContaining({
-        sessionId: existingSessionId,
+        entry: expect.objectContaining({ sessionId: existingSessionId }),
         storePath,
         reason: "reset",
       }),
@@ -1071,6 +1071,50 @@ describe("initSessionState preserves behavior overrides across /new and /reset",
     archiveSpy.mockRestore();
   });
 
+  it("archives every branch transcript and drops the branches on /reset", async () => {
+    const storePath = await createStorePath("openclaw-archive-branches-");
+    const sessionKey = "agent:main:telegram:dm:user-branches";
+    const dir = path.dirname(storePath);
+    for (const sessionId of ["branch-root", "branch-fork"]) {
+      await fs.writeFile(path.join(dir, `${sessionId}.jsonl`), "{}\n", "utf-8");
+    }
+    await seedSessionStoreWithOverrides({
+      storePath,
+      sessionKey,
+      sessionId: "branch-fork",
+      overrides: {
+        branches: [
+          { sessionId: "branch-root", createdAt: 1 },
+          { sessionId: "branch-fork", parentSessionId: "branch-root", createdAt: 2 },
+        ],
+      },
+    });
+
+    const result = await initSessionState({
+      ctx: {
+        Body: "/reset",
+        RawBody: "/reset",
+        CommandBody: "/reset",
+        From: "user-branches",
+        To: "bot",
+        ChatType: "direct",
+        SessionKey: sessionKey,
+        Provider: "telegram",
+        Surface: "telegram",
+      },
+      cfg: { session: { store: storePath, idleMinutes: 999 } } as OpenClawConfig,
+      commandAuthorized: true,
+    });
+
+    expect(result.resetTriggered).toBe(true);
+    expect(result.sessionEntry.branches).toBeUndefined();
+    const files = await fs.readdir(dir);
+    expect(files.filter((file) => file.startsWith("branch-") && file.endsWith(".jsonl"))).toEqual(
+      [],
+    );
+    expect(files.filter((file) => file.includes(".jsonl.reset."))).toHaveLength(2);
+  });
+
   it("idle-based new session does NOT preserve overrides (no entry to read)", async () => {
     const storePath = await createStorePath("openclaw-idle-no-preserve-");
     const sessionKey = "agent:main:telegram:dm:new-user";
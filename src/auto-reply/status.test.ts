@@ -207,6 +207,17 @@ describe("buildStatusMessage", () => {
     expect(text).toContain("elevated");
   });
 
+  it("shows queue depth per priority lane", () => {
+    const text = buildStatusMessage({
+      agent: { model: "anthropic/claude-opus-4-5" },
+      sessionEntry: { sessionId: "q1", updatedAt: 0 },
+      sessionKey: "agent:main:main",
+      queue: { mode: "collect", depth: 3, laneDepths: { owner: 1, routine: 2 } },
+    });
+
+    expect(normalizeTestText(text)).toContain("Queue: collect (depth 3: owner 1, routine 2)");
+  });
+
   it("includes media understanding decisions when present", () => {
     const text = buildStatusMessage({
       agent: { model: "anthropic/claude-opus-4-5" },
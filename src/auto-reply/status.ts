@@ -60,6 +60,8 @@ export const formatTokenCount = formatTokenCountShared;
 type QueueStatus = {
   mode?: string;
   depth?: number;
+  /** Queued items per priority lane, in display order. */
+  laneDepths?: Record<string, number | undefined>;
   debounceMs?: number;
   cap?: number;
   dropPolicy?: string;
@@ -184,7 +186,13 @@ const formatQueueDetails = (queue?: QueueStatus) => {
   if (!queue) {
     return "";
   }
-  const depth = typeof queue.depth === "number" ? `depth ${queue.depth}` : null;
+  const lanes = Object.entries(queue.laneDepths ?? {})
+    .filter(([, count]) => typeof count === "number" && count > 0)
+    .map(([lane, count]) => `${lane} ${count}`);
+  const depth =
+    typeof queue.depth === "number"
+      ? `depth ${queue.depth}${lanes.length > 0 ? `: ${lanes.join(", ")}` : ""}`
+      : null;
   if (!queue.showDetails) {
     return depth ? ` (${depth})` : "";
   }
@@ -0,0 +1,112 @@
+import { buildProfileQuery, withBaseUrl } from "./client-actions-url.js";
+import { fetchBrowserJson } from "./client-fetch.js";
+import type {
+  BrowserRecording,
+  BrowserRecordingStep,
+  BrowserRecordingSummary,
+  BrowserReplayResult,
+} from "./recordings.js";
+
+export type BrowserRecordingStatus =
+  | { ok: true; active: false }
+  | { ok: true; active: true; name: string; steps: number; startedAt: string };
+
+export type BrowserReplayResponse = BrowserReplayResult & {
+  ok: boolean;
+  name: string;
+  targetId: string;
+  /** Steps from the failed one onward (placeholders unfilled), for the agent to finish. */
+  remaining?: BrowserRecordingStep[];
+};
+
+export async function browserRecordingStatus(
+  baseUrl: string | undefined,
+  opts: { profile?: string } = {},
+): Promise<BrowserRecordingStatus> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<BrowserRecordingStatus>(withBaseUrl(baseUrl, `/recording${q}`), {
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserRecordingStart(
+  baseUrl: string | undefined,
+  opts: { name: string; description?: string; profile?: string },
+): Promise<{ ok: true; name: string }> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<{ ok: true; name: string }>(
+    withBaseUrl(baseUrl, `/recording/start${q}`),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: opts.name, description: opts.description }),
+      timeoutMs: 20000,
+    },
+  );
+}
+
+export async function browserRecordingStop(
+  baseUrl: string | undefined,
+  opts: { discard?: boolean; profile?: string } = {},
+): Promise<{ ok: true; saved: boolean; recording: BrowserRecording; path?: string }> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<{
+    ok: true;
+    saved: boolean;
+    recording: BrowserRecording;
+    path?: string;
+  }>(withBaseUrl(baseUrl, `/recording/stop${q}`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ discard: opts.discard }),
+    timeoutMs: 20000,
+  });
+}
+
+export async function browserRecordings(
+  baseUrl: string | undefined,
+): Promise<BrowserRecordingSummary[]> {
+  const res = await fetchBrowserJson<{ ok: true; recordings: BrowserRecordingSummary[] }>(
+    withBaseUrl(baseUrl, "/recordings"),
+    { timeoutMs: 20000 },
+  );
+  return res.recordings ?? [];
+}
+
+export async function browserRecordingDelete(
+  baseUrl: string | undefined,
+  name: string,
+): Promise<{ ok: true; removed: boolean }> {
+  return await fetchBrowserJson<{ ok: true; removed: boolean }>(
+    withBaseUrl(baseUrl, `/recordings/${encodeURIComponent(name)}`),
+    { method: "DELETE", timeoutMs: 20000 },
+  );
+}
+
+export async function browserReplayRecording(
+  baseUrl: string | undefined,
+  opts: {
+    name: string;
+    vars?: Record<string, string>;
+    targetId?: string;
+    timeoutMs?: number;
+    profile?: string;
+  },
+): Promise<BrowserReplayResponse> {
+  const q = buildProfileQuery(opts.profile);
+  return await fetchBrowserJson<BrowserReplayResponse>(
+    withBaseUrl(baseUrl, `/recordings/replay${q}`),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: opts.name,
+        vars: opts.vars,
+        targetId: opts.targetId,
+        timeoutMs: opts.timeoutMs,
+      }),
+      // Whole scripts run in one request; leave room beyond a single step's timeout.
+      timeoutMs: 300_000,
+    },
+  );
+}
@@ -1,4 +1,5 @@
 export * from "./client-actions-core.js";
 export * from "./client-actions-observe.js";
+export * from "./client-actions-recording.js";
 export * from "./client-actions-state.js";
 export * from "./client-actions-types.js";
@@ -37,7 +37,9 @@ export {
   navigateViaPlaywright,
   pdfViaPlaywright,
   pressKeyViaPlaywright,
+  replayBrowserRecordingViaPlaywright,
   resizeViewportViaPlaywright,
+  resolveRecordingTargetViaPlaywright,
   responseBodyViaPlaywright,
   scrollIntoViewViaPlaywright,
   selectOptionViaPlaywright,
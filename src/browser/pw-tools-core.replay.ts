@@ -0,0 +1,225 @@
+import { formatErrorMessage } from "../infra/errors.js";
+import type { SsrFPolicy } from "../infra/net/ssrf.js";
+import {
+  ensurePageState,
+  getPageForTargetId,
+  restoreRoleRefsForTarget,
+  storeRoleRefsForTarget,
+} from "./pw-session.js";
+import { downloadViaPlaywright } from "./pw-tools-core.downloads.js";
+import {
+  clickViaPlaywright,
+  dragViaPlaywright,
+  fillFormViaPlaywright,
+  hoverViaPlaywright,
+  pressKeyViaPlaywright,
+  scrollIntoViewViaPlaywright,
+  selectOptionViaPlaywright,
+  typeViaPlaywright,
+  waitForViaPlaywright,
+} from "./pw-tools-core.interactions.js";
+import { requireRef } from "./pw-tools-core.shared.js";
+import { navigateViaPlaywright } from "./pw-tools-core.snapshot.js";
+import {
+  applyBrowserRecordingVars,
+  type BrowserRecording,
+  type BrowserRecordingStep,
+  type BrowserRecordingTarget,
+  type BrowserReplayResult,
+} from "./recordings.js";
+
+/**
+ * Resolve a snapshot ref (e.g. "e12") to the role selector it stands for so
+ * the step can be recorded without depending on the snapshot that produced it.
+ */
+export async function resolveRecordingTargetViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  ref: string;
+}): Promise<BrowserRecordingTarget | null> {
+  const page = await getPageForTargetId(opts);
+  const state = ensurePageState(page);
+  restoreRoleRefsForTarget({ cdpUrl: opts.cdpUrl, targetId: opts.targetId, page });
+  const ref = requireRef(opts.ref).replace(/^@|^ref=/, "");
+  const info = state.roleRefs?.[ref];
+  if (!info) {
+    return null;
+  }
+  return {
+    role: info.role,
+    ...(info.name ? { name: info.name } : {}),
+    ...(info.nth !== undefined ? { nth: info.nth } : {}),
+    ...(state.roleRefsFrameSelector ? { frame: state.roleRefsFrameSelector } : {}),
+  };
+}
+
+// Replay addresses elements through synthetic refs so it reuses the same
+// locator path (and error messages) as interactive actions.
+async function bindTargets(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  targets: BrowserRecordingTarget[];
+}): Promise<string[]> {
+  const page = await getPageForTargetId(opts);
+  const frames = new Set(opts.targets.map((target) => target.frame ?? ""));
+  if (frames.size > 1) {
+    throw new Error("Recorded step spans multiple frames.");
+  }
+  const refs: Record<string, { role: string; name?: string; nth?: number }> = {};
+  const ids = opts.targets.map(({ frame: _frame, ...target }, index) => {
+    const id = `e${index + 1}`;
+    refs[id] = target;
+    return id;
+  });
+  storeRoleRefsForTarget({
+    page,
+    cdpUrl: opts.cdpUrl,
+    targetId: opts.targetId,
+    refs,
+    frameSelector: opts.targets[0]?.frame,
+    mode: "role",
+  });
+  return ids;
+}
+
+async function runStep(
+  step: BrowserRecordingStep,
+  opts: {
+    cdpUrl: string;
+    targetId?: string;
+    timeoutMs?: number;
+    ssrfPolicy?: SsrFPolicy;
+    resolveDownloadPath: (requestedPath: string) => Promise<string>;
+  },
+): Promise<{ url?: string }> {
+  const base = { cdpUrl: opts.cdpUrl, targetId: opts.targetId, timeoutMs: opts.timeoutMs };
+  switch (step.action) {
+    case "navigate":
+      return await navigateViaPlaywright({ ...base, url: step.url, ssrfPolicy: opts.ssrfPolicy });
+    case "click": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await clickViaPlaywright({
+        ...base,
+        ref,
+        doubleClick: step.doubleClick,
+        button: step.button,
+        modifiers: step.modifiers,
+      });
+      return {};
+    }
+    case "type": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await typeViaPlaywright({
+        ...base,
+        ref,
+        text: step.text,
+        submit: step.submit,
+        slowly: step.slowly,
+      });
+      return {};
+    }
+    case "press":
+      await pressKeyViaPlaywright({ ...base, key: step.key });
+      return {};
+    case "hover": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await hoverViaPlaywright({ ...base, ref });
+      return {};
+    }
+    case "scrollIntoView": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await scrollIntoViewViaPlaywright({ ...base, ref });
+      return {};
+    }
+    case "drag": {
+      const [startRef, endRef] = await bindTargets({
+        ...base,
+        targets: [step.target, step.endTarget],
+      });
+      await dragViaPlaywright({ ...base, startRef, endRef });
+      return {};
+    }
+    case "select": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await selectOptionViaPlaywright({ ...base, ref, values: step.values });
+      return {};
+    }
+    case "fill": {
+      const refs = await bindTargets({
+        ...base,
+        targets: step.fields.map((field) => field.target),
+      });
+      await fillFormViaPlaywright({
+        ...base,
+        fields: step.fields.map((field, index) => ({
+          ref: refs[index],
+          type: field.type,
+          value: field.value,
+        })),
+      });
+      return {};
+    }
+    case "wait":
+      await waitForViaPlaywright({
+        ...base,
+        timeMs: step.timeMs,
+        text: step.text,
+        textGone: step.textGone,
+        url: step.url,
+        loadState: step.loadState,
+      });
+      return {};
+    case "download": {
+      const [ref] = await bindTargets({ ...base, targets: [step.target] });
+      await downloadViaPlaywright({
+        ...base,
+        ref,
+        path: await opts.resolveDownloadPath(step.path),
+      });
+      return {};
+    }
+    default:
+      throw new Error(`Unsupported recording step: ${(step as { action?: string }).action}`);
+  }
+}
+
+/**
+ * Replay a recording step by step and stop at the first failure, reporting how
+ * far it got so the caller can hand the rest back to the agent.
+ */
+export async function replayBrowserRecordingViaPlaywright(opts: {
+  cdpUrl: string;
+  targetId?: string;
+  recording: BrowserRecording;
+  vars?: Record<string, string>;
+  timeoutMs?: number;
+  ssrfPolicy?: SsrFPolicy;
+  resolveDownloadPath: (requestedPath: string) => Promise<string>;
+  /** Called after navigation; returns the tab's target id if the renderer was swapped. */
+  resolveTargetIdAfterNavigate?: (params: { targetId: string; url: string }) => Promise<string>;
+}): Promise<BrowserReplayResult & { targetId?: string }> {
+  const steps = opts.recording.steps;
+  let targetId = opts.targetId;
+  for (const [index, recorded] of steps.entries()) {
+    try {
+      const step = applyBrowserRecordingVars(recorded, opts.vars ?? {});
+      const result = await runStep(step, { ...opts, targetId });
+      if (result.url && targetId && opts.resolveTargetIdAfterNavigate) {
+        targetId = await opts.resolveTargetIdAfterNavigate({ targetId, url: result.url });
+      }
+    } catch (err) {
+      return {
+        status: "failed",
+        steps: steps.length,
+        completed: index,
+        failed: {
+          index,
+          action: recorded.action,
+          error: formatErrorMessage(err),
+        },
+        targetId,
+      };
+    }
+  }
+  return { status: "completed", steps: steps.length, targetId };
+}
@@ -0,0 +1,115 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { captureEnv } from "../test-utils/env.js";
+import {
+  appendBrowserRecordingStep,
+  applyBrowserRecordingVars,
+  deleteBrowserRecording,
+  getBrowserRecordingStatus,
+  listBrowserRecordings,
+  loadBrowserRecording,
+  redactBrowserRecordingStep,
+  resetBrowserRecordingsForTest,
+  resolveBrowserRecordingsDir,
+  startBrowserRecording,
+  stopBrowserRecording,
+} from "./recordings.js";
+
+describe("browser recordings", () => {
+  const envSnapshot = captureEnv(["OPENCLAW_STATE_DIR"]);
+  let stateDir = "";
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-recordings-"));
+    process.env.OPENCLAW_STATE_DIR = stateDir;
+  });
+
+  afterEach(async () => {
+    resetBrowserRecordingsForTest();
+    await fs.rm(stateDir, { recursive: true, force: true });
+    envSnapshot.restore();
+  });
+
+  it("turns values typed into secret fields into placeholders", () => {
+    expect(
+      redactBrowserRecordingStep({
+        action: "type",
+        target: { role: "textbox", name: "Password" },
+        text: "hunter2",
+      }),
+    ).toEqual({
+      action: "type",
+      target: { role: "textbox", name: "Password" },
+      text: "{{password}}",
+    });
+    expect(
+      redactBrowserRecordingStep({
+        action: "fill",
+        fields: [
+          { target: { role: "textbox", name: "Email" }, type: "text", value: "ada@example.com" },
+          { target: { role: "textbox", name: "One-time code" }, type: "text", value: "123456" },
+        ],
+      }),
+    ).toMatchObject({
+      fields: [{ value: "ada@example.com" }, { value: "{{one_time_code}}" }],
+    });
+  });
+
+  it("fills placeholders at replay time and rejects missing values", () => {
+    const step = {
+      action: "navigate" as const,
+      url: "https://example.com/{{Account}}/reports",
+    };
+    expect(applyBrowserRecordingVars(step, { account: "acme" })).toEqual({
+      action: "navigate",
+      url: "https://example.com/acme/reports",
+    });
+    expect(() => applyBrowserRecordingVars(step, {})).toThrow(/Missing value.*"account"/);
+  });
+
+  it("records steps per profile and saves them on stop", async () => {
+    startBrowserRecording({ profile: "openclaw", name: "login", description: "Sign in" });
+    expect(() => startBrowserRecording({ profile: "openclaw", name: "other" })).toThrow(
+      /Already recording "login"/,
+    );
+    appendBrowserRecordingStep("openclaw", { action: "navigate", url: "https://example.com" });
+    appendBrowserRecordingStep("openclaw", {
+      action: "type",
+      target: { role: "textbox", name: "Password" },
+      text: "hunter2",
+      submit: true,
+    });
+    appendBrowserRecordingStep("chrome", { action: "press", key: "Enter" });
+    expect(getBrowserRecordingStatus("openclaw")).toMatchObject({ active: true, steps: 2 });
+
+    const stopped = await stopBrowserRecording({ profile: "openclaw" });
+    expect(stopped.path).toBe(path.join(resolveBrowserRecordingsDir(), "login.json"));
+    expect(await fs.readFile(stopped.path ?? "", "utf8")).not.toContain("hunter2");
+    expect(getBrowserRecordingStatus("openclaw")).toEqual({ active: false });
+
+    await expect(listBrowserRecordings()).resolves.toEqual([
+      expect.objectContaining({
+        name: "login",
+        description: "Sign in",
+        steps: 2,
+        vars: ["password"],
+      }),
+    ]);
+    await expect(loadBrowserRecording("login")).resolves.toMatchObject({
+      profile: "openclaw",
+      steps: [{ action: "navigate" }, { action: "type", text: "{{password}}" }],
+    });
+    await expect(deleteBrowserRecording("login")).resolves.toBe(true);
+    await expect(loadBrowserRecording("login")).rejects.toThrow(/not found/);
+  });
+
+  it("refuses unsafe names and empty recordings", async () => {
+    expect(() => startBrowserRecording({ profile: "openclaw", name: "../escape" })).toThrow(
+      /Recording name/,
+    );
+    startBrowserRecording({ profile: "openclaw", name: "empty" });
+    await expect(stopBrowserRecording({ profile: "openclaw" })).rejects.toThrow(/no steps/);
+  });
+});
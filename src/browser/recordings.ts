@@ -0,0 +1,366 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { readJsonFile, writeJsonAtomic } from "../infra/json-files.js";
+import type { RoleRef } from "./pw-role-snapshot.js";
+
+export const BROWSER_RECORDING_VERSION = 1;
+
+/** Role-snapshot selector (role + accessible name, nth only for duplicates). */
+export type BrowserRecordingTarget = RoleRef & {
+  /** Frame selector the element was found in, when the snapshot was scoped to a frame. */
+  frame?: string;
+};
+
+export type BrowserRecordingStep =
+  | { action: "navigate"; url: string }
+  | {
+      action: "click";
+      target: BrowserRecordingTarget;
+      doubleClick?: boolean;
+      button?: "left" | "right" | "middle";
+      modifiers?: Array<"Alt" | "Control" | "ControlOrMeta" | "Meta" | "Shift">;
+    }
+  | {
+      action: "type";
+      target: BrowserRecordingTarget;
+      text: string;
+      submit?: boolean;
+      slowly?: boolean;
+    }
+  | { action: "press"; key: string }
+  | { action: "hover"; target: BrowserRecordingTarget }
+  | { action: "scrollIntoView"; target: BrowserRecordingTarget }
+  | { action: "drag"; target: BrowserRecordingTarget; endTarget: BrowserRecordingTarget }
+  | { action: "select"; target: BrowserRecordingTarget; values: string[] }
+  | {
+      action: "fill";
+      fields: Array<{
+        target: BrowserRecordingTarget;
+        type: string;
+        value?: string | number | boolean;
+      }>;
+    }
+  | {
+      action: "wait";
+      timeMs?: number;
+      text?: string;
+      textGone?: string;
+      url?: string;
+      loadState?: "load" | "domcontentloaded" | "networkidle";
+    }
+  | { action: "download"; target: BrowserRecordingTarget; path: string };
+
+export type BrowserRecording = {
+  version: typeof BROWSER_RECORDING_VERSION;
+  name: string;
+  description?: string;
+  profile?: string;
+  createdAt: string;
+  /** `{{name}}` placeholders used by the steps; values are supplied at replay time. */
+  vars: string[];
+  steps: BrowserRecordingStep[];
+};
+
+export type BrowserRecordingSummary = {
+  name: string;
+  description?: string;
+  profile?: string;
+  createdAt: string;
+  steps: number;
+  vars: string[];
+};
+
+export type BrowserReplayResult =
+  | { status: "completed"; steps: number }
+  | {
+      status: "failed";
+      steps: number;
+      /** Steps that ran successfully before the failure. */
+      completed: number;
+      failed: { index: number; action: BrowserRecordingStep["action"]; error: string };
+    };
+
+const RECORDING_NAME_RE = /^[a-z0-9][a-z0-9._-]{0,63}$/i;
+const VAR_RE = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/gi;
+const HAS_VAR_RE = /\{\{\s*[a-z][a-z0-9_]*\s*\}\}/i;
+// Typed values for these fields are never written to disk; they become `{{var}}` placeholders.
+const SECRET_FIELD_RE =
+  /pass(word|code|phrase)|passwd|secret|token|one[- ]time|\botp\b|\bpin\b|\bcvc\b|\bcvv\b/i;
+
+export function resolveBrowserRecordingsDir(): string {
+  return path.join(resolveStateDir(), "browser", "recordings");
+}
+
+export function normalizeBrowserRecordingName(raw: unknown): string {
+  const name = typeof raw === "string" ? raw.trim() : "";
+  if (!RECORDING_NAME_RE.test(name)) {
+    throw new Error(
+      "Recording name must be 1-64 characters of letters, digits, '.', '_' or '-' (starting with a letter or digit).",
+    );
+  }
+  return name;
+}
+
+function resolveRecordingPath(name: string): string {
+  return path.join(resolveBrowserRecordingsDir(), `${normalizeBrowserRecordingName(name)}.json`);
+}
+
+function collectStepStrings(step: BrowserRecordingStep): string[] {
+  switch (step.action) {
+    case "navigate":
+      return [step.url];
+    case "type":
+      return [step.text];
+    case "select":
+      return step.values;
+    case "fill":
+      return step.fields.map((field) => (typeof field.value === "string" ? field.value : ""));
+    case "wait":
+      return [step.text ?? "", step.textGone ?? "", step.url ?? ""];
+    case "download":
+      return [step.path];
+    default:
+      return [];
+  }
+}
+
+export function collectBrowserRecordingVars(steps: BrowserRecordingStep[]): string[] {
+  const vars = new Set<string>();
+  for (const step of steps) {
+    for (const value of collectStepStrings(step)) {
+      for (const match of value.matchAll(VAR_RE)) {
+        vars.add(match[1].toLowerCase());
+      }
+    }
+  }
+  return [...vars].toSorted();
+}
+
+function secretVarName(target: BrowserRecordingTarget): string {
+  const slug = (target.name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(slug) ? slug.slice(0, 32) : "secret";
+}
+
+/** Replace values typed into secret-looking fields with `{{var}}` placeholders. */
+export function redactBrowserRecordingStep(step: BrowserRecordingStep): BrowserRecordingStep {
+  const isSecret = (target: BrowserRecordingTarget) => SECRET_FIELD_RE.test(target.name ?? "");
+  if (step.action === "type" && isSecret(step.target) && !HAS_VAR_RE.test(step.text)) {
+    return { ...step, text: `{{${secretVarName(step.target)}}}` };
+  }
+  if (step.action === "fill") {
+    return {
+      ...step,
+      fields: step.fields.map((field) =>
+        isSecret(field.target) && typeof field.value === "string" && !HAS_VAR_RE.test(field.value)
+          ? { ...field, value: `{{${secretVarName(field.target)}}}` }
+          : field,
+      ),
+    };
+  }
+  return step;
+}
+
+function substitute(value: string, vars: Record<string, string>): string {
+  return value.replace(VAR_RE, (_match, rawName: string) => {
+    const name = rawName.toLowerCase();
+    const resolved = vars[name];
+    if (resolved === undefined) {
+      throw new Error(`Missing value for recording variable "${name}".`);
+    }
+    return resolved;
+  });
+}
+
+/** Fill `{{var}}` placeholders in a step; throws when a variable has no value. */
+export function applyBrowserRecordingVars(
+  step: BrowserRecordingStep,
+  vars: Record<string, string>,
+): BrowserRecordingStep {
+  const normalized = Object.fromEntries(
+    Object.entries(vars).map(([key, value]) => [key.toLowerCase(), value]),
+  );
+  switch (step.action) {
+    case "navigate":
+      return { ...step, url: substitute(step.url, normalized) };
+    case "type":
+      return { ...step, text: substitute(step.text, normalized) };
+    case "select":
+      return { ...step, values: step.values.map((value) => substitute(value, normalized)) };
+    case "fill":
+      return {
+        ...step,
+        fields: step.fields.map((field) =>
+          typeof field.value === "string"
+            ? { ...field, value: substitute(field.value, normalized) }
+            : field,
+        ),
+      };
+    case "wait":
+      return {
+        ...step,
+        ...(step.text ? { text: substitute(step.text, normalized) } : {}),
+        ...(step.textGone ? { textGone: substitute(step.textGone, normalized) } : {}),
+        ...(step.url ? { url: substitute(step.url, normalized) } : {}),
+      };
+    case "download":
+      return { ...step, path: substitute(step.path, normalized) };
+    default:
+      return step;
+  }
+}
+
+// --- Storage ---
+
+function isBrowserRecording(value: unknown): value is BrowserRecording {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const candidate = value as Partial<BrowserRecording>;
+  return (
+    candidate.version === BROWSER_RECORDING_VERSION &&
+    typeof candidate.name === "string" &&
+    Array.isArray(candidate.steps)
+  );
+}
+
+export async function saveBrowserRecording(recording: BrowserRecording): Promise<string> {
+  const filePath = resolveRecordingPath(recording.name);
+  await writeJsonAtomic(filePath, recording);
+  return filePath;
+}
+
+export async function loadBrowserRecording(name: string): Promise<BrowserRecording> {
+  const filePath = resolveRecordingPath(name);
+  const recording = await readJsonFile<unknown>(filePath);
+  if (!isBrowserRecording(recording)) {
+    throw new Error(`Browser recording "${name}" not found or unreadable (${filePath}).`);
+  }
+  return { ...recording, vars: collectBrowserRecordingVars(recording.steps) };
+}
+
+export async function listBrowserRecordings(): Promise<BrowserRecordingSummary[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(resolveBrowserRecordingsDir());
+  } catch {
+    return [];
+  }
+  const summaries: BrowserRecordingSummary[] = [];
+  for (const entry of entries.toSorted()) {
+    if (!entry.endsWith(".json")) {
+      continue;
+    }
+    const recording = await readJsonFile<unknown>(path.join(resolveBrowserRecordingsDir(), entry));
+    if (!isBrowserRecording(recording)) {
+      continue;
+    }
+    summaries.push({
+      name: recording.name,
+      description: recording.description,
+      profile: recording.profile,
+      createdAt: recording.createdAt,
+      steps: recording.steps.length,
+      vars: collectBrowserRecordingVars(recording.steps),
+    });
+  }
+  return summaries;
+}
+
+export async function deleteBrowserRecording(name: string): Promise<boolean> {
+  try {
+    await fs.unlink(resolveRecordingPath(name));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// --- Recorder (one active recording per browser profile) ---
+
+type ActiveRecording = {
+  name: string;
+  description?: string;
+  startedAt: string;
+  steps: BrowserRecordingStep[];
+};
+
+const activeRecordings = new Map<string, ActiveRecording>();
+
+export function startBrowserRecording(params: {
+  profile: string;
+  name: string;
+  description?: string;
+}): { name: string } {
+  const name = normalizeBrowserRecordingName(params.name);
+  const current = activeRecordings.get(params.profile);
+  if (current) {
+    throw new Error(
+      `Already recording "${current.name}" on profile "${params.profile}". Stop it first.`,
+    );
+  }
+  activeRecordings.set(params.profile, {
+    name,
+    description: params.description?.trim() || undefined,
+    startedAt: new Date().toISOString(),
+    steps: [],
+  });
+  return { name };
+}
+
+export function getBrowserRecordingStatus(
+  profile: string,
+): { active: false } | { active: true; name: string; steps: number; startedAt: string } {
+  const current = activeRecordings.get(profile);
+  return current
+    ? {
+        active: true,
+        name: current.name,
+        steps: current.steps.length,
+        startedAt: current.startedAt,
+      }
+    : { active: false };
+}
+
+export function isBrowserRecordingActive(profile: string): boolean {
+  return activeRecordings.has(profile);
+}
+
+export function appendBrowserRecordingStep(profile: string, step: BrowserRecordingStep): void {
+  activeRecordings.get(profile)?.steps.push(redactBrowserRecordingStep(step));
+}
+
+/** Stop the active recording and save it unless `discard` is set. */
+export async function stopBrowserRecording(params: {
+  profile: string;
+  discard?: boolean;
+}): Promise<{ recording: BrowserRecording; path?: string }> {
+  const current = activeRecordings.get(params.profile);
+  if (!current) {
+    throw new Error(`No active recording on profile "${params.profile}".`);
+  }
+  activeRecordings.delete(params.profile);
+  const recording: BrowserRecording = {
+    version: BROWSER_RECORDING_VERSION,
+    name: current.name,
+    ...(current.description ? { description: current.description } : {}),
+    profile: params.profile,
+    createdAt: current.startedAt,
+    vars: collectBrowserRecordingVars(current.steps),
+    steps: current.steps,
+  };
+  if (params.discard) {
+    return { recording };
+  }
+  if (recording.steps.length === 0) {
+    throw new Error(`Recording "${recording.name}" has no steps; nothing was saved.`);
+  }
+  return { recording, path: await saveBrowserRecording(recording) };
+}
+
+export function resetBrowserRecordingsForTest(): void {
+  activeRecordings.clear();
+}
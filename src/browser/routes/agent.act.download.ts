@@ -1,4 +1,5 @@
 import type { BrowserRouteContext } from "../server-context.js";
+import { prepareDownloadRecording } from "./agent.recording.js";
 import { readBody, resolveTargetIdFromBody, withPlaywrightRouteContext } from "./agent.shared.js";
 import { ensureOutputRootDir, resolveWritableOutputPathOrRespond } from "./output-paths.js";
 import { DEFAULT_DOWNLOAD_DIR } from "./path-output.js";
@@ -73,7 +74,7 @@ export function registerBrowserAgentActDownloadRoutes(
       ctx,
       targetId,
       feature: "download",
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ cdpUrl, tab, pw, profileCtx }) => {
         await ensureOutputRootDir(DEFAULT_DOWNLOAD_DIR);
         const downloadPath = await resolveWritableOutputPathOrRespond({
           res,
@@ -84,12 +85,17 @@ export function registerBrowserAgentActDownloadRoutes(
         if (!downloadPath) {
           return;
         }
+        const recordStep = await prepareDownloadRecording(
+          { profile: profileCtx.profile.name, pw, cdpUrl, targetId: tab.targetId },
+          { ref, path: out },
+        );
         const requestBase = buildDownloadRequestBase(cdpUrl, tab.targetId, timeoutMs);
         const result = await pw.downloadViaPlaywright({
           ...requestBase,
           ref,
           path: downloadPath,
         });
+        recordStep();
         res.json({ ok: true, targetId: tab.targetId, download: result });
       },
     });
@@ -9,6 +9,7 @@ import {
   parseClickButton,
   parseClickModifiers,
 } from "./agent.act.shared.js";
+import { prepareActRecording } from "./agent.recording.js";
 import {
   readBody,
   resolveTargetIdFromBody,
@@ -40,8 +41,13 @@ export function registerBrowserAgentActRoutes(
       ctx,
       targetId,
       feature: `act:${kind}`,
-      run: async ({ cdpUrl, tab, pw }) => {
+      run: async ({ cdpUrl, tab, pw, profileCtx }) => {
         const evaluateEnabled = ctx.state().resolved.evaluateEnabled;
+        const recordStep = await prepareActRecording(
+          { profile: profileCtx.profile.name, pw, cdpUrl, targetId: tab.targetId },
+          kind,
+          body,
+        );
 
         switch (kind) {
           case "click": {
@@ -79,6 +85,7 @@ export function registerBrowserAgentActRoutes(
               clickRequest.timeoutMs = timeoutMs;
             }
             await pw.clickViaPlaywright(clickRequest);
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId, url: tab.url });
           }
           case "type": {
@@ -105,6 +112,7 @@ export function registerBrowserAgentActRoutes(
               typeRequest.timeoutMs = timeoutMs;
             }
             await pw.typeViaPlaywright(typeRequest);
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "press": {
@@ -119,6 +127,7 @@ export function registerBrowserAgentActRoutes(
               key,
               delayMs: delayMs ?? undefined,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "hover": {
@@ -133,6 +142,7 @@ export function registerBrowserAgentActRoutes(
               ref,
               timeoutMs: timeoutMs ?? undefined,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "scrollIntoView": {
@@ -150,6 +160,7 @@ export function registerBrowserAgentActRoutes(
               scrollRequest.timeoutMs = timeoutMs;
             }
             await pw.scrollIntoViewViaPlaywright(scrollRequest);
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "drag": {
@@ -166,6 +177,7 @@ export function registerBrowserAgentActRoutes(
               endRef,
               timeoutMs: timeoutMs ?? undefined,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "select": {
@@ -182,6 +194,7 @@ export function registerBrowserAgentActRoutes(
               values,
               timeoutMs: timeoutMs ?? undefined,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "fill": {
@@ -204,6 +217,7 @@ export function registerBrowserAgentActRoutes(
               fields,
               timeoutMs: timeoutMs ?? undefined,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "resize": {
@@ -272,6 +286,7 @@ export function registerBrowserAgentActRoutes(
               fn,
               timeoutMs,
             });
+            recordStep();
             return res.json({ ok: true, targetId: tab.targetId });
           }
           case "evaluate": {
@@ -0,0 +1,345 @@
+import { formatErrorMessage } from "../../infra/errors.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { normalizeBrowserFormFieldType } from "../form-fields.js";
+import { withBrowserNavigationPolicy } from "../navigation-guard.js";
+import type { PwAiModule } from "../pw-ai-module.js";
+import {
+  appendBrowserRecordingStep,
+  deleteBrowserRecording,
+  getBrowserRecordingStatus,
+  isBrowserRecordingActive,
+  listBrowserRecordings,
+  loadBrowserRecording,
+  startBrowserRecording,
+  stopBrowserRecording,
+  type BrowserRecordingStep,
+  type BrowserRecordingTarget,
+} from "../recordings.js";
+import type { BrowserRouteContext } from "../server-context.js";
+import { type ActKind, parseClickButton, parseClickModifiers } from "./agent.act.shared.js";
+import {
+  readBody,
+  resolveProfileContext,
+  resolveTargetIdFromBody,
+  withPlaywrightRouteContext,
+} from "./agent.shared.js";
+import { resolveTargetIdAfterNavigate } from "./agent.snapshot.js";
+import { ensureOutputRootDir } from "./output-paths.js";
+import { DEFAULT_DOWNLOAD_DIR, resolveWritablePathWithinRoot } from "./path-output.js";
+import type { BrowserRouteRegistrar } from "./types.js";
+import { jsonError, toBoolean, toNumber, toStringArray, toStringOrEmpty } from "./utils.js";
+
+const log = createSubsystemLogger("browser").child("recording");
+
+type RecordingScope = {
+  profile: string;
+  pw: PwAiModule;
+  cdpUrl: string;
+  targetId: string;
+};
+
+async function resolveTarget(
+  scope: RecordingScope,
+  ref: string,
+): Promise<BrowserRecordingTarget | null> {
+  if (!ref) {
+    return null;
+  }
+  return await scope.pw.resolveRecordingTargetViaPlaywright({
+    cdpUrl: scope.cdpUrl,
+    targetId: scope.targetId,
+    ref,
+  });
+}
+
+async function buildActRecordingStep(
+  scope: RecordingScope,
+  kind: ActKind,
+  body: Record<string, unknown>,
+): Promise<BrowserRecordingStep | null> {
+  switch (kind) {
+    case "click": {
+      const target = await resolveTarget(scope, toStringOrEmpty(body.ref));
+      if (!target) {
+        return null;
+      }
+      const button = parseClickButton(toStringOrEmpty(body.button));
+      const modifiers = parseClickModifiers(toStringArray(body.modifiers) ?? []).modifiers;
+      return {
+        action: "click",
+        target,
+        ...(toBoolean(body.doubleClick) ? { doubleClick: true } : {}),
+        ...(button ? { button } : {}),
+        ...(modifiers ? { modifiers } : {}),
+      };
+    }
+    case "type": {
+      const target = await resolveTarget(scope, toStringOrEmpty(body.ref));
+      if (!target || typeof body.text !== "string") {
+        return null;
+      }
+      return {
+        action: "type",
+        target,
+        text: body.text,
+        ...(toBoolean(body.submit) ? { submit: true } : {}),
+        ...(toBoolean(body.slowly) ? { slowly: true } : {}),
+      };
+    }
+    case "press": {
+      const key = toStringOrEmpty(body.key);
+      return key ? { action: "press", key } : null;
+    }
+    case "hover":
+    case "scrollIntoView": {
+      const target = await resolveTarget(scope, toStringOrEmpty(body.ref));
+      return target ? { action: kind, target } : null;
+    }
+    case "drag": {
+      const target = await resolveTarget(scope, toStringOrEmpty(body.startRef));
+      const endTarget = await resolveTarget(scope, toStringOrEmpty(body.endRef));
+      return target && endTarget ? { action: "drag", target, endTarget } : null;
+    }
+    case "select": {
+      const target = await resolveTarget(scope, toStringOrEmpty(body.ref));
+      const values = toStringArray(body.values);
+      return target && values?.length ? { action: "select", target, values } : null;
+    }
+    case "fill": {
+      const rawFields = Array.isArray(body.fields) ? body.fields : [];
+      const fields: Extract<BrowserRecordingStep, { action: "fill" }>["fields"] = [];
+      for (const raw of rawFields) {
+        const field = (raw ?? {}) as Record<string, unknown>;
+        const target = await resolveTarget(scope, toStringOrEmpty(field.ref));
+        if (!target) {
+          return null;
+        }
+        const value = field.value;
+        fields.push({
+          target,
+          type: normalizeBrowserFormFieldType(field.type),
+          ...(typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+            ? { value }
+            : {}),
+        });
+      }
+      return fields.length ? { action: "fill", fields } : null;
+    }
+    case "wait": {
+      // Selector and function waits are not role-based, so they cannot be replayed reliably.
+      if (toStringOrEmpty(body.selector) || toStringOrEmpty(body.fn)) {
+        return null;
+      }
+      const loadState = toStringOrEmpty(body.loadState);
+      const step: Extract<BrowserRecordingStep, { action: "wait" }> = { action: "wait" };
+      const timeMs = toNumber(body.timeMs);
+      if (timeMs !== undefined) {
+        step.timeMs = timeMs;
+      }
+      for (const key of ["text", "textGone", "url"] as const) {
+        const value = toStringOrEmpty(body[key]);
+        if (value) {
+          step[key] = value;
+        }
+      }
+      if (loadState === "load" || loadState === "domcontentloaded" || loadState === "networkidle") {
+        step.loadState = loadState;
+      }
+      return step;
+    }
+    default:
+      // evaluate, resize and close are not part of recorded scripts.
+      return null;
+  }
+}
+
+/**
+ * Capture an /act request for the profile's active recording. Targets are
+ * resolved before the action runs (a click may navigate away); the returned
+ * callback commits the step once the action succeeded.
+ */
+export async function prepareActRecording(
+  scope: RecordingScope,
+  kind: ActKind,
+  body: Record<string, unknown>,
+): Promise<() => void> {
+  if (!isBrowserRecordingActive(scope.profile)) {
+    return () => {};
+  }
+  let step: BrowserRecordingStep | null = null;
+  try {
+    step = await buildActRecordingStep(scope, kind, body);
+  } catch (err) {
+    log.warn(`act:${kind} not recorded: ${formatErrorMessage(err)}`);
+    return () => {};
+  }
+  if (!step) {
+    if (kind !== "evaluate" && kind !== "resize" && kind !== "close") {
+      log.warn(`act:${kind} not recorded (no role selector for the ref; use a fresh snapshot)`);
+    }
+    return () => {};
+  }
+  const recorded = step;
+  return () => appendBrowserRecordingStep(scope.profile, recorded);
+}
+
+export async function prepareDownloadRecording(
+  scope: RecordingScope,
+  params: { ref: string; path: string },
+): Promise<() => void> {
+  if (!isBrowserRecordingActive(scope.profile)) {
+    return () => {};
+  }
+  const target = await resolveTarget(scope, params.ref).catch(() => null);
+  if (!target) {
+    log.warn("download not recorded (no role selector for the ref; use a fresh snapshot)");
+    return () => {};
+  }
+  return () =>
+    appendBrowserRecordingStep(scope.profile, { action: "download", target, path: params.path });
+}
+
+async function resolveReplayDownloadPath(requestedPath: string): Promise<string> {
+  await ensureOutputRootDir(DEFAULT_DOWNLOAD_DIR);
+  const result = await resolveWritablePathWithinRoot({
+    rootDir: DEFAULT_DOWNLOAD_DIR,
+    requestedPath,
+    scopeLabel: "downloads directory",
+  });
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.path;
+}
+
+function readVars(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  const vars: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof raw === "string" || typeof raw === "number" || typeof raw === "boolean") {
+      vars[key.toLowerCase()] = String(raw);
+    }
+  }
+  return vars;
+}
+
+export function registerBrowserAgentRecordingRoutes(
+  app: BrowserRouteRegistrar,
+  ctx: BrowserRouteContext,
+) {
+  app.get("/recording", async (req, res) => {
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    res.json({ ok: true, ...getBrowserRecordingStatus(profileCtx.profile.name) });
+  });
+
+  app.post("/recording/start", async (req, res) => {
+    const body = readBody(req);
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    try {
+      const started = startBrowserRecording({
+        profile: profileCtx.profile.name,
+        name: toStringOrEmpty(body.name),
+        description: toStringOrEmpty(body.description) || undefined,
+      });
+      res.json({ ok: true, ...started });
+    } catch (err) {
+      jsonError(res, 400, formatErrorMessage(err));
+    }
+  });
+
+  app.post("/recording/stop", async (req, res) => {
+    const body = readBody(req);
+    const profileCtx = resolveProfileContext(req, res, ctx);
+    if (!profileCtx) {
+      return;
+    }
+    try {
+      const stopped = await stopBrowserRecording({
+        profile: profileCtx.profile.name,
+        discard: toBoolean(body.discard) ?? false,
+      });
+      res.json({ ok: true, saved: Boolean(stopped.path), ...stopped });
+    } catch (err) {
+      jsonError(res, 400, formatErrorMessage(err));
+    }
+  });
+
+  app.get("/recordings", async (_req, res) => {
+    res.json({ ok: true, recordings: await listBrowserRecordings() });
+  });
+
+  app.delete("/recordings/:name", async (req, res) => {
+    try {
+      const removed = await deleteBrowserRecording(req.params.name ?? "");
+      if (!removed) {
+        return jsonError(res, 404, `Browser recording "${req.params.name}" not found.`);
+      }
+      res.json({ ok: true, removed });
+    } catch (err) {
+      jsonError(res, 400, formatErrorMessage(err));
+    }
+  });
+
+  app.post("/recordings/replay", async (req, res) => {
+    const body = readBody(req);
+    const targetId = resolveTargetIdFromBody(body);
+    const vars = readVars(body.vars);
+    const timeoutMs = toNumber(body.timeoutMs);
+    let recording: Awaited<ReturnType<typeof loadBrowserRecording>>;
+    try {
+      recording = await loadBrowserRecording(toStringOrEmpty(body.name));
+    } catch (err) {
+      return jsonError(res, 404, formatErrorMessage(err));
+    }
+    const missing = recording.vars.filter((name) => vars[name] === undefined);
+    if (missing.length) {
+      return jsonError(res, 400, `Missing recording vars: ${missing.join(", ")}`);
+    }
+
+    await withPlaywrightRouteContext({
+      req,
+      res,
+      ctx,
+      targetId,
+      feature: "replay",
+      run: async ({ cdpUrl, tab, pw, profileCtx }) => {
+        if (isBrowserRecordingActive(profileCtx.profile.name)) {
+          return jsonError(res, 409, "Stop the active recording before replaying.");
+        }
+        const result = await pw.replayBrowserRecordingViaPlaywright({
+          cdpUrl,
+          targetId: tab.targetId,
+          recording,
+          vars,
+          timeoutMs: timeoutMs ?? undefined,
+          ...withBrowserNavigationPolicy(ctx.state().resolved.ssrfPolicy),
+          resolveDownloadPath: resolveReplayDownloadPath,
+          resolveTargetIdAfterNavigate: ({ targetId: oldTargetId, url }) =>
+            resolveTargetIdAfterNavigate({
+              oldTargetId,
+              navigatedUrl: url,
+              listTabs: () => profileCtx.listTabs(),
+            }),
+        });
+        res.json({
+          ok: result.status === "completed",
+          name: recording.name,
+          ...result,
+          targetId: result.targetId ?? tab.targetId,
+          // Unfilled placeholders only: the caller finishes these steps by hand.
+          ...(result.status === "failed"
+            ? { remaining: recording.steps.slice(result.failed.index) }
+            : {}),
+        });
+      },
+    });
+  });
+}
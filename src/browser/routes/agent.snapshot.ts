@@ -7,6 +7,7 @@ import {
   DEFAULT_AI_SNAPSHOT_MAX_CHARS,
 } from "../constants.js";
 import { withBrowserNavigationPolicy } from "../navigation-guard.js";
+import { appendBrowserRecordingStep } from "../recordings.js";
 import {
   DEFAULT_BROWSER_SCREENSHOT_MAX_BYTES,
   DEFAULT_BROWSER_SCREENSHOT_MAX_SIDE,
@@ -112,6 +113,7 @@ export function registerBrowserAgentSnapshotRoutes(
           navigatedUrl: result.url,
           listTabs: () => profileCtx.listTabs(),
         });
+        appendBrowserRecordingStep(profileCtx.profile.name, { action: "navigate", url });
         res.json({ ok: true, targetId: currentTargetId, ...result });
       },
     });
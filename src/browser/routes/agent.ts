@@ -1,6 +1,7 @@
 import type { BrowserRouteContext } from "../server-context.js";
 import { registerBrowserAgentActRoutes } from "./agent.act.js";
 import { registerBrowserAgentDebugRoutes } from "./agent.debug.js";
+import { registerBrowserAgentRecordingRoutes } from "./agent.recording.js";
 import { registerBrowserAgentSnapshotRoutes } from "./agent.snapshot.js";
 import { registerBrowserAgentStorageRoutes } from "./agent.storage.js";
 import type { BrowserRouteRegistrar } from "./types.js";
@@ -10,4 +11,5 @@ export function registerBrowserAgentRoutes(app: BrowserRouteRegistrar, ctx: Brow
   registerBrowserAgentActRoutes(app, ctx);
   registerBrowserAgentDebugRoutes(app, ctx);
   registerBrowserAgentStorageRoutes(app, ctx);
+  registerBrowserAgentRecordingRoutes(app, ctx);
 }
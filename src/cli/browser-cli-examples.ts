@@ -31,4 +31,7 @@ export const browserActionExamples = [
   "openclaw browser evaluate --fn '(el) => el.textContent' --ref 7",
   "openclaw browser console --level error",
   "openclaw browser pdf",
+  "openclaw browser record start checkout",
+  "openclaw browser record stop",
+  "openclaw browser replay checkout --var password=…",
 ];
@@ -0,0 +1,231 @@
+import type { Command } from "commander";
+import type {
+  BrowserRecordingStatus,
+  BrowserReplayResponse,
+} from "../browser/client-actions-recording.js";
+import type { BrowserRecording, BrowserRecordingSummary } from "../browser/recordings.js";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { shortenHomePath } from "../utils.js";
+import { callBrowserRequest, type BrowserParentOpts } from "./browser-cli-shared.js";
+import { runCommandWithRuntime } from "./cli-utils.js";
+
+function runBrowserRecording(action: () => Promise<void>) {
+  return runCommandWithRuntime(defaultRuntime, action, (err) => {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  });
+}
+
+function parseVars(entries: string[]): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const entry of entries) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) {
+      throw new Error(`Invalid --var "${entry}" (expected key=value)`);
+    }
+    vars[entry.slice(0, eq).trim()] = entry.slice(eq + 1);
+  }
+  return vars;
+}
+
+export function registerBrowserRecordingCommands(
+  browser: Command,
+  parentOpts: (cmd: Command) => BrowserParentOpts,
+) {
+  const record = browser
+    .command("record")
+    .description("Record browser actions into a replayable script");
+
+  record
+    .command("start")
+    .description("Start recording actions on the current profile")
+    .argument("<name>", "Recording name (letters, digits, '.', '_', '-')")
+    .option("--description <text>", "What the script does")
+    .action(async (name: string, opts, cmd) => {
+      const parent = parentOpts(cmd.parent ?? cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<{ name: string }>(
+          parent,
+          {
+            method: "POST",
+            path: "/recording/start",
+            query: profile ? { profile } : undefined,
+            body: { name, description: opts.description },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(`recording "${result.name}"`);
+      });
+    });
+
+  record
+    .command("stop")
+    .description("Stop recording and save the script")
+    .option("--discard", "Drop the recording instead of saving it", false)
+    .action(async (opts, cmd) => {
+      const parent = parentOpts(cmd.parent ?? cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<{
+          recording: BrowserRecording;
+          path?: string;
+        }>(
+          parent,
+          {
+            method: "POST",
+            path: "/recording/stop",
+            query: profile ? { profile } : undefined,
+            body: { discard: Boolean(opts.discard) },
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (!result.path) {
+          defaultRuntime.log(`discarded "${result.recording.name}"`);
+          return;
+        }
+        const vars = result.recording.vars.length
+          ? ` (vars: ${result.recording.vars.join(", ")})`
+          : "";
+        defaultRuntime.log(
+          `saved "${result.recording.name}": ${result.recording.steps.length} step(s)${vars} → ${shortenHomePath(result.path)}`,
+        );
+      });
+    });
+
+  record
+    .command("status")
+    .description("Show the active recording")
+    .action(async (_opts, cmd) => {
+      const parent = parentOpts(cmd.parent ?? cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<BrowserRecordingStatus>(
+          parent,
+          {
+            method: "GET",
+            path: "/recording",
+            query: profile ? { profile } : undefined,
+          },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(
+          result.active
+            ? `recording "${result.name}": ${result.steps} step(s) since ${result.startedAt}`
+            : "not recording",
+        );
+      });
+    });
+
+  record
+    .command("delete")
+    .description("Delete a saved recording")
+    .argument("<name>", "Recording name")
+    .action(async (name: string, _opts, cmd) => {
+      const parent = parentOpts(cmd.parent ?? cmd);
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<{ removed: boolean }>(
+          parent,
+          { method: "DELETE", path: `/recordings/${encodeURIComponent(name)}` },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        defaultRuntime.log(`deleted "${name}"`);
+      });
+    });
+
+  browser
+    .command("recordings")
+    .description("List saved browser recordings")
+    .action(async (_opts, cmd) => {
+      const parent = parentOpts(cmd);
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<{ recordings: BrowserRecordingSummary[] }>(
+          parent,
+          { method: "GET", path: "/recordings" },
+          { timeoutMs: 20000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+          return;
+        }
+        if (!result.recordings.length) {
+          defaultRuntime.log("No browser recordings.");
+          return;
+        }
+        defaultRuntime.log(
+          result.recordings
+            .map((entry) => {
+              const vars = entry.vars.length ? ` vars: ${entry.vars.join(", ")}` : "";
+              const description = entry.description ? ` — ${entry.description}` : "";
+              return `${entry.name}: ${entry.steps} step(s)${vars}${description}`;
+            })
+            .join("\n"),
+        );
+      });
+    });
+
+  browser
+    .command("replay")
+    .description("Replay a saved recording on the current tab")
+    .argument("<name>", "Recording name")
+    .option(
+      "--var <key=value>",
+      "Value for a {{placeholder}} (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option("--target-id <id>", "CDP target id (or unique prefix)")
+    .option("--timeout-ms <ms>", "Per-step timeout", (v: string) => Number(v))
+    .action(async (name: string, opts, cmd) => {
+      const parent = parentOpts(cmd);
+      const profile = parent?.browserProfile;
+      await runBrowserRecording(async () => {
+        const result = await callBrowserRequest<BrowserReplayResponse>(
+          parent,
+          {
+            method: "POST",
+            path: "/recordings/replay",
+            query: profile ? { profile } : undefined,
+            body: {
+              name,
+              vars: parseVars(opts.var ?? []),
+              targetId: opts.targetId?.trim() || undefined,
+              timeoutMs: Number.isFinite(opts.timeoutMs) ? opts.timeoutMs : undefined,
+            },
+          },
+          { timeoutMs: 300_000 },
+        );
+        if (parent?.json) {
+          defaultRuntime.log(JSON.stringify(result, null, 2));
+        } else if (result.status === "completed") {
+          defaultRuntime.log(`replayed "${result.name}": ${result.steps} step(s)`);
+        } else {
+          defaultRuntime.error(
+            danger(
+              `replay "${result.name}" failed at step ${result.failed.index + 1}/${result.steps} (${result.failed.action}): ${result.failed.error}`,
+            ),
+          );
+        }
+        if (result.status === "failed") {
+          defaultRuntime.exit(1);
+        }
+      });
+    });
+}
@@ -8,8 +8,11 @@ import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import { parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
+  parseAfterStatuses,
   parseAt,
+  parseBlackoutOptions,
   parseDurationMs,
+  parseRetryPolicyOptions,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -76,6 +79,11 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option("--after <jobId>", "Run after another job finishes (dependency chain)")
+      .option(
+        "--after-status <statuses>",
+        "Upstream statuses that trigger --after (comma-separated ok,error,skipped; default ok)",
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
@@ -94,6 +102,28 @@ export function registerCronAddCommand(cron: Command) {
       )
       .option("--account <id>", "Channel account id for delivery (multi-account setups)")
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option("--retry <attempts>", "Retry failed runs; max attempts per run including the first")
+      .option("--retry-backoff <duration>", "Delay before the first retry (default 30s)")
+      .option("--retry-max-backoff <duration>", "Upper bound for a retry delay (default 1h)")
+      .option("--retry-jitter <ratio>", "Random jitter applied to retry delays (0-1)")
+      .option(
+        "--retry-on <kinds>",
+        "Error kinds to retry (comma-separated timeout,delivery-target,error; default all)",
+      )
+      .option("--dead-letter-webhook <url>", "POST the final failure to this URL")
+      .option(
+        "--dead-letter-channel <channel>",
+        `Announce the final failure on a channel (${getCronChannelOptions()})`,
+      )
+      .option("--dead-letter-to <dest>", "Dead-letter announce destination")
+      .option(
+        "--blackout <windows>",
+        "Quiet hours when runs are blocked (comma-separated HH:MM-HH:MM, e.g. 22:00-07:00)",
+      )
+      .option("--blackout-days <days>", "Weekdays the blackout windows start on (e.g. mon,tue)")
+      .option("--blackout-calendar <path>", "ICS calendar whose events block runs (e.g. holidays)")
+      .option("--blackout-tz <iana>", "Timezone for blackout windows (default: gateway host)")
+      .option("--blackout-mode <mode>", "defer (run after the blackout) or skip (default defer)")
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -107,13 +137,29 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            if (typeof opts.afterStatus === "string" && !after) {
+              throw new Error("--after-status is only valid with --after");
+            }
+            if (after) {
+              const onStatus =
+                typeof opts.afterStatus === "string"
+                  ? parseAfterStatuses(opts.afterStatus)
+                  : undefined;
+              if (onStatus === null) {
+                throw new Error("Invalid --after-status; use ok, error, skipped (comma-separated)");
+              }
+              return { kind: "after" as const, jobId: after, onStatus };
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -240,6 +286,9 @@ export function registerCronAddCommand(cron: Command) {
                   : "announce"
               : undefined;
 
+          const retry = parseRetryPolicyOptions(opts);
+          const blackout = parseBlackoutOptions(opts);
+
           const nameRaw = typeof opts.name === "string" ? opts.name : "";
           const name = nameRaw.trim();
           if (!name) {
@@ -279,6 +328,8 @@ export function registerCronAddCommand(cron: Command) {
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
                 }
               : undefined,
+            retry,
+            blackout,
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
@@ -6,8 +6,11 @@ import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
 import {
   getCronChannelOptions,
+  parseAfterStatuses,
   parseAt,
+  parseBlackoutOptions,
   parseDurationMs,
+  parseRetryPolicyOptions,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -43,6 +46,11 @@ export function registerCronEditCommand(cron: Command) {
       .option("--at <when>", "Set one-shot time (ISO) or duration like 20m")
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
+      .option("--after <jobId>", "Run after another job finishes (dependency chain)")
+      .option(
+        "--after-status <statuses>",
+        "Upstream statuses that trigger --after (comma-separated ok,error,skipped)",
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
@@ -62,6 +70,30 @@ export function registerCronEditCommand(cron: Command) {
       .option("--account <id>", "Channel account id for delivery (multi-account setups)")
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option("--retry <attempts>", "Retry failed runs; max attempts per run including the first")
+      .option("--retry-backoff <duration>", "Delay before the first retry (default 30s)")
+      .option("--retry-max-backoff <duration>", "Upper bound for a retry delay (default 1h)")
+      .option("--retry-jitter <ratio>", "Random jitter applied to retry delays (0-1)")
+      .option(
+        "--retry-on <kinds>",
+        "Error kinds to retry (comma-separated timeout,delivery-target,error; default all)",
+      )
+      .option("--dead-letter-webhook <url>", "POST the final failure to this URL")
+      .option(
+        "--dead-letter-channel <channel>",
+        `Announce the final failure on a channel (${getCronChannelOptions()})`,
+      )
+      .option("--dead-letter-to <dest>", "Dead-letter announce destination")
+      .option("--clear-retry", "Remove the retry policy", false)
+      .option(
+        "--blackout <windows>",
+        "Quiet hours when runs are blocked (comma-separated HH:MM-HH:MM, e.g. 22:00-07:00)",
+      )
+      .option("--blackout-days <days>", "Weekdays the blackout windows start on (e.g. mon,tue)")
+      .option("--blackout-calendar <path>", "ICS calendar whose events block runs (e.g. holidays)")
+      .option("--blackout-tz <iana>", "Timezone for blackout windows (default: gateway host)")
+      .option("--blackout-mode <mode>", "defer (run after the blackout) or skip (default defer)")
+      .option("--clear-blackout", "Remove the job's blackout rules", false)
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -146,16 +178,21 @@ export function registerCronEditCommand(cron: Command) {
             patch.sessionKey = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const scheduleChosen = [opts.at, opts.every, opts.cron, opts.after].filter(
+            Boolean,
+          ).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
           if (
             (requestedStaggerMs !== undefined || typeof opts.tz === "string") &&
-            (opts.at || opts.every)
+            (opts.at || opts.every || opts.after)
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
+          if (typeof opts.afterStatus === "string" && !opts.after) {
+            throw new Error("--after-status is only valid with --after");
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -168,6 +205,15 @@ export function registerCronEditCommand(cron: Command) {
               throw new Error("Invalid --every");
             }
             patch.schedule = { kind: "every", everyMs };
+          } else if (opts.after) {
+            const onStatus =
+              typeof opts.afterStatus === "string"
+                ? parseAfterStatuses(opts.afterStatus)
+                : undefined;
+            if (onStatus === null) {
+              throw new Error("Invalid --after-status");
+            }
+            patch.schedule = { kind: "after", jobId: String(opts.after).trim(), onStatus };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
@@ -264,6 +310,28 @@ export function registerCronEditCommand(cron: Command) {
             patch.delivery = delivery;
           }
 
+          const retry = parseRetryPolicyOptions(opts);
+          if (retry && opts.clearRetry) {
+            throw new Error("Use --retry or --clear-retry, not both");
+          }
+          if (retry) {
+            patch.retry = retry;
+          }
+          if (opts.clearRetry) {
+            patch.retry = null;
+          }
+
+          const blackout = parseBlackoutOptions(opts);
+          if (blackout && opts.clearBlackout) {
+            throw new Error("Use --blackout or --clear-blackout, not both");
+          }
+          if (blackout) {
+            patch.blackout = blackout;
+          }
+          if (opts.clearBlackout) {
+            patch.blackout = null;
+          }
+
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
             patch,
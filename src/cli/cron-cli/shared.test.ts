@@ -1,7 +1,7 @@
 import { describe, expect, it } from "vitest";
 import type { CronJob } from "../../cron/types.js";
 import type { RuntimeEnv } from "../../runtime.js";
-import { printCronList } from "./shared.js";
+import { parseBlackoutOptions, printCronList } from "./shared.js";
 
 function createRuntimeLogCapture(): { logs: string[]; runtime: RuntimeEnv } {
   const logs: string[] = [];
@@ -89,4 +89,46 @@ describe("printCronList", () => {
     printCronList([job], runtime);
     expect(logs.some((line) => line.includes("(exact)"))).toBe(true);
   });
+
+  it("shows why a run was deferred", () => {
+    const { logs, runtime } = createRuntimeLogCapture();
+    const job = createBaseJob({
+      id: "deferred-job",
+      sessionTarget: "main",
+      state: { nextRunAtMs: Date.now() + 3600000, deferredReason: "calendar: Christmas Day" },
+    });
+
+    printCronList([job], runtime);
+    expect(logs.some((line) => line.includes("deferred "))).toBe(true);
+    expect(logs).toContain("  deferred: calendar: Christmas Day");
+  });
+});
+
+describe("parseBlackoutOptions", () => {
+  it("builds blackout rules from CLI flags", () => {
+    expect(
+      parseBlackoutOptions({
+        blackout: "22:00-07:00, 12:00-13:00",
+        blackoutDays: "Mon,fri",
+        blackoutCalendar: "~/holidays.ics",
+        blackoutMode: "skip",
+      }),
+    ).toEqual({
+      windows: [
+        { start: "22:00", end: "07:00", days: ["mon", "fri"] },
+        { start: "12:00", end: "13:00", days: ["mon", "fri"] },
+      ],
+      calendar: "~/holidays.ics",
+      mode: "skip",
+    });
+    expect(parseBlackoutOptions({})).toBeUndefined();
+  });
+
+  it("rejects malformed blackout flags", () => {
+    expect(() => parseBlackoutOptions({ blackout: "10pm-7am" })).toThrow("--blackout");
+    expect(() => parseBlackoutOptions({ blackoutMode: "skip" })).toThrow("--blackout-calendar");
+    expect(() => parseBlackoutOptions({ blackout: "22:00-07:00", blackoutDays: "xyz" })).toThrow(
+      "--blackout-days",
+    );
+  });
 });
@@ -1,7 +1,17 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
+import type { CronBlackoutWeekday } from "../../config/types.cron.js";
+import { CRON_BLACKOUT_WEEKDAYS, parseCronBlackoutTime } from "../../cron/blackout.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronBlackout,
+  CronDelivery,
+  CronJob,
+  CronRetryErrorKind,
+  CronRetryPolicy,
+  CronRunStatus,
+  CronSchedule,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +88,165 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+export function parseAfterStatuses(input: string): CronRunStatus[] | null {
+  const statuses: CronRunStatus[] = [];
+  for (const part of input.split(",")) {
+    const status = part.trim().toLowerCase();
+    if (!status) {
+      continue;
+    }
+    if (status !== "ok" && status !== "error" && status !== "skipped") {
+      return null;
+    }
+    if (!statuses.includes(status)) {
+      statuses.push(status);
+    }
+  }
+  return statuses.length > 0 ? statuses : null;
+}
+
+const RETRY_ERROR_KINDS: readonly CronRetryErrorKind[] = ["timeout", "delivery-target", "error"];
+
+/**
+ * Build a retry policy from `--retry*` / `--dead-letter-*` flags. Returns
+ * `undefined` when none of them were passed.
+ */
+export function parseRetryPolicyOptions(
+  opts: Record<string, unknown>,
+): CronRetryPolicy | undefined {
+  const str = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const attemptsRaw = str(opts.retry);
+  const backoffRaw = str(opts.retryBackoff);
+  const maxBackoffRaw = str(opts.retryMaxBackoff);
+  const jitterRaw = str(opts.retryJitter);
+  const retryOnRaw = str(opts.retryOn);
+  const deadLetterWebhook = str(opts.deadLetterWebhook);
+  const deadLetterChannel = str(opts.deadLetterChannel);
+  const deadLetterTo = str(opts.deadLetterTo);
+  const hasRetryDetails =
+    Boolean(backoffRaw || maxBackoffRaw || jitterRaw || retryOnRaw) ||
+    Boolean(deadLetterWebhook || deadLetterChannel || deadLetterTo);
+  if (!attemptsRaw) {
+    if (hasRetryDetails) {
+      throw new Error("--retry-* and --dead-letter-* options require --retry <attempts>");
+    }
+    return undefined;
+  }
+  const maxAttempts = Number(attemptsRaw);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error("Invalid --retry; use a positive attempt count (e.g. 3)");
+  }
+  const policy: CronRetryPolicy = { maxAttempts };
+  if (backoffRaw) {
+    const backoffMs = parseDurationMs(backoffRaw);
+    if (!backoffMs) {
+      throw new Error("Invalid --retry-backoff; use e.g. 30s, 5m");
+    }
+    policy.backoffMs = backoffMs;
+  }
+  if (maxBackoffRaw) {
+    const maxBackoffMs = parseDurationMs(maxBackoffRaw);
+    if (!maxBackoffMs) {
+      throw new Error("Invalid --retry-max-backoff; use e.g. 10m, 1h");
+    }
+    policy.maxBackoffMs = maxBackoffMs;
+  }
+  if (jitterRaw) {
+    const jitter = Number(jitterRaw);
+    if (!Number.isFinite(jitter) || jitter < 0 || jitter > 1) {
+      throw new Error("Invalid --retry-jitter; use a ratio between 0 and 1");
+    }
+    policy.jitter = jitter;
+  }
+  if (retryOnRaw) {
+    const kinds = retryOnRaw
+      .split(",")
+      .map((part) => part.trim().toLowerCase())
+      .filter(Boolean);
+    if (
+      kinds.length === 0 ||
+      kinds.some((kind) => !(RETRY_ERROR_KINDS as readonly string[]).includes(kind))
+    ) {
+      throw new Error("Invalid --retry-on; use timeout, delivery-target, error (comma-separated)");
+    }
+    policy.retryOn = RETRY_ERROR_KINDS.filter((kind) => kinds.includes(kind));
+  }
+  if (deadLetterWebhook && (deadLetterChannel || deadLetterTo)) {
+    throw new Error("Choose --dead-letter-webhook or --dead-letter-channel/--dead-letter-to");
+  }
+  if (deadLetterWebhook) {
+    policy.deadLetter = { mode: "webhook", to: deadLetterWebhook };
+  } else if (deadLetterChannel || deadLetterTo) {
+    const deadLetter: CronDelivery = { mode: "announce", channel: "last" };
+    if (deadLetterChannel) {
+      deadLetter.channel = deadLetterChannel;
+    }
+    if (deadLetterTo) {
+      deadLetter.to = deadLetterTo;
+    }
+    policy.deadLetter = deadLetter;
+  }
+  return policy;
+}
+
+export function parseBlackoutOptions(opts: Record<string, unknown>): CronBlackout | undefined {
+  const str = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const windowsRaw = str(opts.blackout);
+  const daysRaw = str(opts.blackoutDays);
+  const calendar = str(opts.blackoutCalendar);
+  const tz = str(opts.blackoutTz);
+  const modeRaw = str(opts.blackoutMode).toLowerCase();
+  if (!windowsRaw && !calendar) {
+    if (daysRaw || tz || modeRaw) {
+      throw new Error(
+        "--blackout-* options require --blackout <windows> or --blackout-calendar <path>",
+      );
+    }
+    return undefined;
+  }
+  if (daysRaw && !windowsRaw) {
+    throw new Error("--blackout-days requires --blackout <windows>");
+  }
+  const blackout: CronBlackout = {};
+  if (windowsRaw) {
+    const days = daysRaw
+      ? daysRaw
+          .split(",")
+          .map((day) => day.trim().toLowerCase().slice(0, 3))
+          .filter(Boolean)
+      : undefined;
+    const weekdays = days?.filter((day): day is CronBlackoutWeekday =>
+      (CRON_BLACKOUT_WEEKDAYS as readonly string[]).includes(day),
+    );
+    if (days && weekdays?.length !== days.length) {
+      throw new Error("Invalid --blackout-days; use sun,mon,tue,wed,thu,fri,sat");
+    }
+    blackout.windows = windowsRaw.split(",").map((entry) => {
+      const [start = "", end = ""] = entry.split("-").map((part) => part.trim());
+      if (
+        parseCronBlackoutTime(start, { allow24: false }) === null ||
+        parseCronBlackoutTime(end, { allow24: true }) === null
+      ) {
+        throw new Error("Invalid --blackout; use HH:MM-HH:MM (e.g. 22:00-07:00)");
+      }
+      return weekdays ? { start, end, days: weekdays } : { start, end };
+    });
+  }
+  if (calendar) {
+    blackout.calendar = calendar;
+  }
+  if (tz) {
+    blackout.tz = tz;
+  }
+  if (modeRaw) {
+    if (modeRaw !== "defer" && modeRaw !== "skip") {
+      throw new Error("Invalid --blackout-mode; use defer or skip");
+    }
+    blackout.mode = modeRaw;
+  }
+  return blackout;
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -138,6 +307,10 @@ const formatSchedule = (schedule: CronSchedule) => {
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const statuses = schedule.onStatus?.length ? schedule.onStatus.join("|") : "ok";
+    return `after ${schedule.jobId} (${statuses})`;
+  }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
@@ -153,6 +326,9 @@ const formatStatus = (job: CronJob) => {
   if (job.state.runningAtMs) {
     return "running";
   }
+  if (job.state.deferredReason) {
+    return "deferred";
+  }
   return job.state.lastStatus ?? "idle";
 };
 
@@ -230,5 +406,8 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
     ].join(" ");
 
     runtime.log(line.trimEnd());
+    if (statusRaw === "deferred") {
+      runtime.log(colorize(rich, theme.muted, `  deferred: ${job.state.deferredReason}`));
+    }
   }
 }
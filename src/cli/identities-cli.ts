@@ -0,0 +1,94 @@
+import type { Command } from "commander";
+import {
+  linkIdentityIds,
+  listIdentityLinks,
+  removeIdentity,
+  unlinkIdentityId,
+} from "../pairing/identity-links.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+
+export function registerIdentitiesCli(program: Command) {
+  const identities = program
+    .command("identities")
+    .description("Link one person's accounts across channels (shared DM sessions)")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/identities", "docs.openclaw.ai/cli/identities")}\n`,
+    );
+
+  identities
+    .command("list")
+    .description("List linked identities")
+    .option("--json", "Print JSON", false)
+    .action(async (opts) => {
+      const entries = await listIdentityLinks();
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify({ identities: entries }, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        defaultRuntime.log(theme.muted("No linked identities."));
+        return;
+      }
+      const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+      defaultRuntime.log(
+        `${theme.heading("Linked identities")} ${theme.muted(`(${entries.length})`)}`,
+      );
+      defaultRuntime.log(
+        renderTable({
+          width: tableWidth,
+          columns: [
+            { key: "Identity", header: "Identity", minWidth: 10 },
+            { key: "Ids", header: "Ids", minWidth: 20, flex: true },
+            { key: "Updated", header: "Updated", minWidth: 12 },
+          ],
+          rows: entries.map((entry) => ({
+            Identity: entry.canonical,
+            Ids: entry.ids.join(", "),
+            Updated: entry.updatedAt,
+          })),
+        }).trimEnd(),
+      );
+    });
+
+  identities
+    .command("link")
+    .description("Link channel ids (<channel>:<id>) under one identity")
+    .argument("<ids...>", 'Channel-prefixed ids, e.g. "telegram:123" "whatsapp:+15551234567"')
+    .option("--as <name>", "Identity name (default: existing identity or the first id)")
+    .action(async (ids: string[], opts) => {
+      const identity = await linkIdentityIds({ ids, canonical: opts.as as string | undefined });
+      defaultRuntime.log(
+        `${theme.success("Linked")} ${theme.command(identity.canonical)}: ${identity.ids.join(", ")}`,
+      );
+    });
+
+  identities
+    .command("unlink")
+    .description("Remove one channel id from its identity")
+    .argument("<id>", 'Channel-prefixed id, e.g. "telegram:123"')
+    .action(async (id: string) => {
+      const identity = await unlinkIdentityId({ id });
+      if (!identity) {
+        throw new Error(`${id} is not linked to an identity.`);
+      }
+      defaultRuntime.log(
+        `${theme.success("Unlinked")} ${id} from ${theme.command(identity.canonical)}.`,
+      );
+    });
+
+  identities
+    .command("remove")
+    .description("Remove an identity and all of its links")
+    .argument("<name>", "Identity name")
+    .action(async (name: string) => {
+      if (!(await removeIdentity({ canonical: name }))) {
+        throw new Error(`Identity not found: ${name}`);
+      }
+      defaultRuntime.log(`${theme.success("Removed")} identity ${theme.command(name)}.`);
+    });
+}
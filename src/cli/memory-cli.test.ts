@@ -414,6 +414,40 @@ describe("memory cli", () => {
     expect(close).toHaveBeenCalled();
   });
 
+  it("passes search filters to the manager", async () => {
+    const close = vi.fn(async () => {});
+    const search = vi.fn(async () => []);
+    mockManager({ search, close });
+
+    spyRuntimeLogs();
+    await runMemoryCli([
+      "search",
+      "pricing",
+      "--source",
+      "sessions",
+      "--path",
+      "sessions/*",
+      "--channel",
+      "telegram",
+    ]);
+
+    expect(search).toHaveBeenCalledWith("pricing", {
+      maxResults: undefined,
+      minScore: undefined,
+      filter: { sources: ["sessions"], paths: ["sessions/*"], originChannel: "telegram" },
+    });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("rejects invalid search filters", async () => {
+    const error = spyRuntimeErrors();
+    await runMemoryCli(["search", "pricing", "--since", "someday"]);
+
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("Invalid memory search filter"));
+    expect(getMemorySearchManager).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
   it("fails when neither positional query nor --query is provided", async () => {
     const error = spyRuntimeErrors();
     await runMemoryCli(["search"]);
@@ -446,4 +480,58 @@ describe("memory cli", () => {
     expect(payload.results as unknown[]).toHaveLength(1);
     expect(close).toHaveBeenCalled();
   });
+
+  it("exports the index to a resolved archive path", async () => {
+    const close = vi.fn(async () => {});
+    const exportIndex = vi.fn(async ({ path: archivePath }: { path: string }) => ({
+      path: archivePath,
+      provider: "openai",
+      model: "text-embedding-3-small",
+      sources: ["memory"],
+      files: 2,
+      chunks: 5,
+    }));
+    mockManager({ exportIndex, close });
+
+    const log = spyRuntimeLogs();
+    await runMemoryCli(["export", "memory-index.jsonl.gz", "--json"]);
+
+    expect(exportIndex).toHaveBeenCalledWith({ path: path.resolve("memory-index.jsonl.gz") });
+    expect(firstLoggedJson(log)).toMatchObject({ agentId: "main", files: 2, chunks: 5 });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("fails import when the archive is incompatible", async () => {
+    const close = vi.fn(async () => {});
+    const importIndex = vi.fn(async () => {
+      throw new Error("archive embeddings come from openai/text-embedding-3-large");
+    });
+    mockManager({ importIndex, close });
+
+    const error = spyRuntimeErrors();
+    await runMemoryCli(["import", "/tmp/memory-index.jsonl.gz"]);
+
+    expect(importIndex).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: "/tmp/memory-index.jsonl.gz",
+        progress: expect.any(Function),
+      }),
+    );
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining("Memory import failed (main): archive embeddings come from"),
+    );
+    expect(process.exitCode).toBe(1);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("reports backends without index export support", async () => {
+    const close = vi.fn(async () => {});
+    mockManager({ close });
+
+    const error = spyRuntimeErrors();
+    await runMemoryCli(["export", "/tmp/memory-index.jsonl.gz"]);
+
+    expect(error).toHaveBeenCalledWith("Memory backend does not support index export.");
+    expect(process.exitCode).toBe(1);
+  });
 });
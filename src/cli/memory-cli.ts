@@ -10,10 +10,12 @@ import { resolveSessionTranscriptsDirForAgent } from "../config/sessions/paths.j
 import { setVerbose } from "../globals.js";
 import { getMemorySearchManager, type MemorySearchManagerResult } from "../memory/index.js";
 import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.js";
+import { buildMemorySearchFilter } from "../memory/search-filter.js";
+import type { MemorySearchFilter } from "../memory/types.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
-import { shortenHomeInString, shortenHomePath } from "../utils.js";
+import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatErrorMessage, withManager } from "./cli-utils.js";
 import { formatHelpExamples } from "./help-format.js";
 import { withProgress, withProgressTotals } from "./progress.js";
@@ -507,6 +509,25 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`${label("Cache cap")} ${info(String(status.cache.maxEntries))}`);
       }
     }
+    if (status.rerank?.enabled) {
+      const rerankModel = status.rerank.model ? ` ${status.rerank.model}` : "";
+      const rerankSuffix = ` (top ${status.rerank.candidates ?? "?"}, failures ${status.rerank.failures ?? 0})`;
+      lines.push(
+        `${label("Rerank")} ${success(status.rerank.provider ?? "enabled")}${info(rerankModel)}${muted(rerankSuffix)}`,
+      );
+      if (status.rerank.lastError) {
+        lines.push(`${label("Rerank error")} ${warn(status.rerank.lastError)}`);
+      }
+    }
+    if (status.timings) {
+      const stages = Object.entries(status.timings.stages)
+        .map(([stage, ms]) => `${stage} ${ms}ms`)
+        .join(" · ");
+      const fallback = status.timings.rerankFallback ? warn(" rerank fallback") : "";
+      lines.push(
+        `${label("Last search")} ${info(`${status.timings.totalMs}ms`)}${stages ? muted(` (${stages})`) : ""}${fallback}`,
+      );
+    }
     if (status.batch) {
       const batchState = status.batch.enabled ? "enabled" : "disabled";
       const batchColor = status.batch.enabled ? theme.success : theme.warn;
@@ -546,7 +567,19 @@ export function registerMemoryCli(program: Command) {
           ["openclaw memory status", "Show index and provider status."],
           ["openclaw memory index --force", "Force a full reindex."],
           ['openclaw memory search --query "deployment notes"', "Search indexed memory entries."],
+          [
+            'openclaw memory search "pricing" --source sessions --channel telegram --since 7d',
+            "Search last week's Telegram transcripts.",
+          ],
           ["openclaw memory status --json", "Output machine-readable JSON."],
+          [
+            "openclaw memory export ./memory-index.jsonl.gz",
+            "Export the index (chunks + embeddings) for another host.",
+          ],
+          [
+            "openclaw memory import ./memory-index.jsonl.gz",
+            "Load an exported index; only changed files are re-embedded.",
+          ],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/memory", "docs.openclaw.ai/cli/memory")}\n`,
     );
 
@@ -707,6 +740,20 @@ export function registerMemoryCli(program: Command) {
     .option("--agent <id>", "Agent id (default: default agent)")
     .option("--max-results <n>", "Max results", (value: string) => Number(value))
     .option("--min-score <n>", "Minimum score", (value: string) => Number(value))
+    .option(
+      "--source <source>",
+      "Only search memory files or session transcripts (memory|sessions)",
+    )
+    .option(
+      "--path <glob>",
+      "Only search paths matching a glob (repeatable)",
+      (value: string, previous: string[]) => [...previous, value],
+      [] as string[],
+    )
+    .option("--since <time>", "Only files modified since a duration ago (7d) or a date")
+    .option("--until <time>", "Only files modified before a duration ago (1d) or a date")
+    .option("--session <key>", "Only transcripts of this session key")
+    .option("--channel <id>", "Only transcripts of sessions from this channel")
     .option("--json", "Print JSON")
     .action(
       async (
@@ -715,6 +762,12 @@ export function registerMemoryCli(program: Command) {
           query?: string;
           maxResults?: number;
           minScore?: number;
+          source?: string;
+          path?: string[];
+          since?: string;
+          until?: string;
+          session?: string;
+          channel?: string;
         },
       ) => {
         const query = opts.query ?? queryArg;
@@ -725,6 +778,21 @@ export function registerMemoryCli(program: Command) {
           process.exitCode = 1;
           return;
         }
+        let filter: MemorySearchFilter | undefined;
+        try {
+          filter = buildMemorySearchFilter({
+            source: opts.source,
+            paths: opts.path,
+            since: opts.since,
+            until: opts.until,
+            session: opts.session,
+            channel: opts.channel,
+          });
+        } catch (err) {
+          defaultRuntime.error(`Invalid memory search filter: ${formatErrorMessage(err)}`);
+          process.exitCode = 1;
+          return;
+        }
         const cfg = loadConfig();
         const agentId = resolveAgent(cfg, opts.agent);
         await withMemoryManagerForAgent({
@@ -736,6 +804,7 @@ export function registerMemoryCli(program: Command) {
               results = await manager.search(query, {
                 maxResults: opts.maxResults,
                 minScore: opts.minScore,
+                filter,
               });
             } catch (err) {
               const message = formatErrorMessage(err);
@@ -769,4 +838,92 @@ export function registerMemoryCli(program: Command) {
         });
       },
     );
+
+  memory
+    .command("export")
+    .description("Export the memory index to a portable archive")
+    .argument("<file>", "Archive path to write (gzipped JSON lines)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .action(async (file: string, opts: MemoryCommandOptions) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          if (!manager.exportIndex) {
+            defaultRuntime.error("Memory backend does not support index export.");
+            process.exitCode = 1;
+            return;
+          }
+          const exportIndex = manager.exportIndex.bind(manager);
+          try {
+            const summary = await withProgress(
+              { label: "Exporting memory index…", indeterminate: true },
+              async () => await exportIndex({ path: resolveUserPath(file) }),
+            );
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify({ agentId, ...summary }, null, 2));
+              return;
+            }
+            defaultRuntime.log(
+              `Memory index exported (${agentId}): ${summary.files} files, ${summary.chunks} chunks (${summary.provider}/${summary.model}) → ${shortenHomePath(summary.path)}`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory export failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
+  memory
+    .command("import")
+    .description("Replace the memory index with an exported archive")
+    .argument("<file>", "Archive path written by `openclaw memory export`")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .option("--verbose", "Verbose logging", false)
+    .action(async (file: string, opts: MemoryCommandOptions) => {
+      setVerbose(Boolean(opts.verbose));
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          if (!manager.importIndex) {
+            defaultRuntime.error("Memory backend does not support index import.");
+            process.exitCode = 1;
+            return;
+          }
+          const importIndex = manager.importIndex.bind(manager);
+          try {
+            const summary = await withProgressTotals(
+              {
+                label: "Importing memory index…",
+                total: 0,
+                fallback: opts.verbose ? "line" : undefined,
+              },
+              async (update) =>
+                await importIndex({
+                  path: resolveUserPath(file),
+                  progress: (syncUpdate) => update(syncUpdate),
+                }),
+            );
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify({ agentId, ...summary }, null, 2));
+              return;
+            }
+            defaultRuntime.log(
+              `Memory index imported (${agentId}): ${summary.files} files, ${summary.chunks} chunks (${summary.provider}/${summary.model}); changed files were re-indexed.`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory import failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
 }
@@ -5,16 +5,27 @@ import type { Command } from "commander";
 import type { OpenClawConfig } from "../config/config.js";
 import { loadConfig, writeConfigFile } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
+import { danger, isYes } from "../globals.js";
 import { resolveArchiveKind } from "../infra/archive.js";
 import { findBundledPluginByNpmSpec } from "../plugins/bundled-sources.js";
+import {
+  DANGEROUS_PLUGIN_CAPABILITIES,
+  describePluginCapability,
+  listDangerousPluginCapabilities,
+} from "../plugins/capabilities.js";
 import { enablePluginInConfig } from "../plugins/enable.js";
 import { installPluginFromNpmSpec, installPluginFromPath } from "../plugins/install.js";
 import { recordPluginInstall } from "../plugins/installs.js";
 import { clearPluginManifestRegistryCache } from "../plugins/manifest-registry.js";
+import { loadPluginManifest } from "../plugins/manifest.js";
 import type { PluginRecord } from "../plugins/registry.js";
-import { applyExclusiveSlotSelection } from "../plugins/slots.js";
+import {
+  applyExclusiveSlotSelection,
+  builtinSlotLabel,
+  PLUGIN_SLOT_KEYS,
+} from "../plugins/slots.js";
 import { resolvePluginSourceRoots, formatPluginSourceForTable } from "../plugins/source-display.js";
-import { buildPluginStatusReport } from "../plugins/status.js";
+import { buildPluginStatusReport, type PluginSlotHolder } from "../plugins/status.js";
 import { resolveUninstallDirectoryTarget, uninstallPlugin } from "../plugins/uninstall.js";
 import { updateNpmInstalledPlugins } from "../plugins/update.js";
 import { defaultRuntime } from "../runtime.js";
@@ -22,6 +33,7 @@ import { formatDocsLink } from "../terminal/links.js";
 import { renderTable } from "../terminal/table.js";
 import { theme } from "../terminal/theme.js";
 import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
+import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
 import { resolvePinnedNpmInstallRecordForCli } from "./npm-resolution.js";
 import { setPluginEnabledInConfig } from "./plugins-config.js";
 import { promptYesNo } from "./prompt.js";
@@ -36,6 +48,10 @@ export type PluginInfoOptions = {
   json?: boolean;
 };
 
+export type PluginReloadOptions = GatewayRpcOpts & {
+  json?: boolean;
+};
+
 export type PluginUpdateOptions = {
   all?: boolean;
   dryRun?: boolean;
@@ -139,6 +155,85 @@ function createPluginInstallLogger(): { info: (msg: string) => void; warn: (msg:
   };
 }
 
+function formatSlotHolder(holder: PluginSlotHolder): string {
+  if (holder.disabled) {
+    return theme.muted("none (disabled)");
+  }
+  if (!holder.pluginId) {
+    return theme.muted(holder.builtin);
+  }
+  const status =
+    holder.status === "loaded"
+      ? theme.success("loaded")
+      : holder.status
+        ? theme.warn(holder.status)
+        : theme.error("not found");
+  return `${holder.pluginId} ${theme.muted("(")}${status}${theme.muted(")")}`;
+}
+
+type PluginCapabilityApproval = "approved" | "declined" | "non-interactive";
+
+async function confirmPluginCapabilities(params: {
+  pluginId: string;
+  rootDir: string;
+  yes?: boolean;
+}): Promise<PluginCapabilityApproval> {
+  const manifest = loadPluginManifest(params.rootDir);
+  if (!manifest.ok) {
+    return "approved";
+  }
+  const capabilities = manifest.manifest.capabilities;
+  if (!capabilities) {
+    defaultRuntime.log(
+      theme.warn(
+        `Plugin "${params.pluginId}" does not declare capabilities; it may register tools, hooks, HTTP routes, and gateway methods without restriction.`,
+      ),
+    );
+  } else if (capabilities.length === 0) {
+    defaultRuntime.log(`Plugin "${params.pluginId}" requests no capabilities.`);
+    return "approved";
+  } else {
+    defaultRuntime.log(`Plugin "${params.pluginId}" requests:`);
+    for (const capability of capabilities) {
+      const line = `  - ${capability}: ${describePluginCapability(capability)}`;
+      defaultRuntime.log(
+        DANGEROUS_PLUGIN_CAPABILITIES.has(capability) ? theme.warn(`${line} (sensitive)`) : line,
+      );
+    }
+  }
+  if (params.yes || isYes()) {
+    return "approved";
+  }
+  // readline never settles on a closed or piped stdin; require --yes instead.
+  if (!process.stdin.isTTY) {
+    defaultRuntime.error(
+      `Cannot confirm capabilities for "${params.pluginId}" without a terminal; re-run with --yes to approve them.`,
+    );
+    return "non-interactive";
+  }
+  const sensitive = !capabilities || listDangerousPluginCapabilities(capabilities).length > 0;
+  const approved = await promptYesNo(
+    `Allow "${params.pluginId}" to load with these capabilities?`,
+    !sensitive,
+  );
+  return approved ? "approved" : "declined";
+}
+
+async function abortDeclinedInstall(
+  targetDir: string | undefined,
+  approval: Exclude<PluginCapabilityApproval, "approved">,
+) {
+  if (targetDir) {
+    await fs.promises.rm(targetDir, { recursive: true, force: true });
+  }
+  const removed = targetDir ? `; removed ${shortenHomePath(targetDir)}` : "";
+  if (approval === "non-interactive") {
+    defaultRuntime.error(`Plugin not installed${removed}.`);
+    process.exit(1);
+  }
+  defaultRuntime.log(`Cancelled${removed}.`);
+}
+
 function logSlotWarnings(warnings: string[]) {
   if (warnings.length === 0) {
     return;
@@ -184,6 +279,7 @@ export function registerPluginsCli(program: Command) {
         const payload = {
           workspaceDir: report.workspaceDir,
           plugins: list,
+          slots: report.slots,
           diagnostics: report.diagnostics,
         };
         defaultRuntime.log(JSON.stringify(payload, null, 2));
@@ -195,6 +291,12 @@ export function registerPluginsCli(program: Command) {
         return;
       }
 
+      defaultRuntime.log(theme.heading("Slots"));
+      for (const holder of report.slots) {
+        defaultRuntime.log(`  ${theme.command(`${holder.slot}:`)} ${formatSlotHolder(holder)}`);
+      }
+      defaultRuntime.log("");
+
       const loaded = list.filter((p) => p.status === "loaded").length;
       defaultRuntime.log(
         `${theme.heading("Plugins")} ${theme.muted(`(${loaded}/${list.length} loaded)`)}`,
@@ -301,6 +403,13 @@ export function registerPluginsCli(program: Command) {
       if (plugin.version) {
         lines.push(`${theme.muted("Version:")} ${plugin.version}`);
       }
+      lines.push(
+        `${theme.muted("Capabilities:")} ${
+          plugin.capabilities
+            ? plugin.capabilities.join(", ") || "(none)"
+            : theme.warn("undeclared (unrestricted)")
+        }`,
+      );
       if (plugin.toolNames.length > 0) {
         lines.push(`${theme.muted("Tools:")} ${plugin.toolNames.join(", ")}`);
       }
@@ -378,6 +487,43 @@ export function registerPluginsCli(program: Command) {
       defaultRuntime.log(`Disabled plugin "${id}". Restart the gateway to apply.`);
     });
 
+  addGatewayClientOptions(
+    plugins
+      .command("reload")
+      .description("Reload a plugin in the running gateway without restarting it")
+      .argument("<id>", "Plugin id")
+      .option("--json", "Output JSON", false),
+  ).action(async (id: string, opts: PluginReloadOptions) => {
+    try {
+      const result = await callGatewayFromCli(
+        "plugins.reload",
+        opts,
+        { id },
+        {
+          expectFinal: false,
+        },
+      );
+      if (opts.json) {
+        defaultRuntime.log(JSON.stringify(result, null, 2));
+        return;
+      }
+      const plugin = (result as { plugin?: { status?: string; error?: string } } | undefined)
+        ?.plugin;
+      if (plugin?.status === "loaded") {
+        defaultRuntime.log(`Reloaded plugin "${id}".`);
+        return;
+      }
+      defaultRuntime.log(
+        theme.warn(
+          `Plugin "${id}" reloaded as ${plugin?.status ?? "unknown"}${plugin?.error ? `: ${plugin.error}` : ""}.`,
+        ),
+      );
+    } catch (err) {
+      defaultRuntime.error(danger(String(err)));
+      defaultRuntime.exit(1);
+    }
+  });
+
   plugins
     .command("uninstall")
     .description("Uninstall a plugin")
@@ -439,6 +585,11 @@ export function registerPluginsCli(program: Command) {
       if (cfg.plugins?.slots?.memory === pluginId) {
         preview.push(`memory slot (will reset to "memory-core")`);
       }
+      for (const slotKey of PLUGIN_SLOT_KEYS) {
+        if (slotKey !== "memory" && cfg.plugins?.slots?.[slotKey] === pluginId) {
+          preview.push(`${slotKey} slot (will reset to the ${builtinSlotLabel(slotKey)})`);
+        }
+      }
       const deleteTarget = !keepFiles
         ? resolveUninstallDirectoryTarget({
             pluginId,
@@ -503,6 +654,9 @@ export function registerPluginsCli(program: Command) {
       if (result.actions.memorySlot) {
         removed.push("memory slot");
       }
+      for (const slotKey of result.actions.slots) {
+        removed.push(`${slotKey} slot`);
+      }
       if (result.actions.directory) {
         removed.push("directory");
       }
@@ -519,7 +673,8 @@ export function registerPluginsCli(program: Command) {
     .argument("<path-or-spec>", "Path (.ts/.js/.zip/.tgz/.tar.gz) or an npm package spec")
     .option("-l, --link", "Link a local path instead of copying", false)
     .option("--pin", "Record npm installs as exact resolved <name>@<version>", false)
-    .action(async (raw: string, opts: { link?: boolean; pin?: boolean }) => {
+    .option("-y, --yes", "Approve the plugin's requested capabilities without prompting", false)
+    .action(async (raw: string, opts: { link?: boolean; pin?: boolean; yes?: boolean }) => {
       const fileSpec = resolveFileNpmSpecToLocalPath(raw);
       if (fileSpec && !fileSpec.ok) {
         defaultRuntime.error(fileSpec.error);
@@ -538,6 +693,15 @@ export function registerPluginsCli(program: Command) {
             defaultRuntime.error(probe.error);
             process.exit(1);
           }
+          const approval = await confirmPluginCapabilities({
+            pluginId: probe.pluginId,
+            rootDir: fs.statSync(resolved).isDirectory() ? resolved : path.dirname(resolved),
+            yes: opts.yes,
+          });
+          if (approval !== "approved") {
+            await abortDeclinedInstall(undefined, approval);
+            return;
+          }
 
           let next: OpenClawConfig = enablePluginInConfig(
             {
@@ -576,6 +740,15 @@ export function registerPluginsCli(program: Command) {
           defaultRuntime.error(result.error);
           process.exit(1);
         }
+        const approval = await confirmPluginCapabilities({
+          pluginId: result.pluginId,
+          rootDir: result.targetDir,
+          yes: opts.yes,
+        });
+        if (approval !== "approved") {
+          await abortDeclinedInstall(result.targetDir, approval);
+          return;
+        }
         // Plugin CLI registrars may have warmed the manifest registry cache before install;
         // force a rescan so config validation sees the freshly installed plugin.
         clearPluginManifestRegistryCache();
@@ -672,6 +845,15 @@ export function registerPluginsCli(program: Command) {
         defaultRuntime.log(`Restart the gateway to load plugins.`);
         return;
       }
+      const approval = await confirmPluginCapabilities({
+        pluginId: result.pluginId,
+        rootDir: result.targetDir,
+        yes: opts.yes,
+      });
+      if (approval !== "approved") {
+        await abortDeclinedInstall(result.targetDir, approval);
+        return;
+      }
       // Ensure config validation sees newly installed plugin(s) even if the cache was warmed at startup.
       clearPluginManifestRegistryCache();
 
@@ -7,6 +7,7 @@ const agentsBindingsCommandMock = vi.fn();
 const agentsBindCommandMock = vi.fn();
 const agentsDeleteCommandMock = vi.fn();
 const agentsListCommandMock = vi.fn();
+const agentsRouteCommandMock = vi.fn();
 const agentsSetIdentityCommandMock = vi.fn();
 const agentsUnbindCommandMock = vi.fn();
 const setVerboseMock = vi.fn();
@@ -28,6 +29,7 @@ vi.mock("../../commands/agents.js", () => ({
   agentsBindCommand: agentsBindCommandMock,
   agentsDeleteCommand: agentsDeleteCommandMock,
   agentsListCommand: agentsListCommandMock,
+  agentsRouteCommand: agentsRouteCommandMock,
   agentsSetIdentityCommand: agentsSetIdentityCommandMock,
   agentsUnbindCommand: agentsUnbindCommandMock,
 }));
@@ -65,6 +67,7 @@ describe("registerAgentCommands", () => {
     agentsBindCommandMock.mockResolvedValue(undefined);
     agentsDeleteCommandMock.mockResolvedValue(undefined);
     agentsListCommandMock.mockResolvedValue(undefined);
+    agentsRouteCommandMock.mockResolvedValue(undefined);
     agentsSetIdentityCommandMock.mockResolvedValue(undefined);
     agentsUnbindCommandMock.mockResolvedValue(undefined);
     createDefaultDepsMock.mockReturnValue({ deps: true });
@@ -198,6 +201,43 @@ describe("registerAgentCommands", () => {
     expect(help).toContain("accountId is resolved by channel defaults/hooks");
   });
 
+  it("forwards agents route options", async () => {
+    await runCli([
+      "agents",
+      "route",
+      "--channel",
+      "telegram",
+      "--peer",
+      "group:-100123",
+      "--sender",
+      "42",
+      "--text",
+      "refund please",
+      "--at",
+      "2026-10-18T09:00:00Z",
+      "--explain",
+      "--no-classify",
+    ]);
+    expect(agentsRouteCommandMock).toHaveBeenCalledWith(
+      {
+        channel: "telegram",
+        account: undefined,
+        peer: "group:-100123",
+        parentPeer: undefined,
+        guild: undefined,
+        team: undefined,
+        role: [],
+        sender: "42",
+        text: "refund please",
+        at: "2026-10-18T09:00:00Z",
+        explain: true,
+        classify: false,
+        json: false,
+      },
+      runtime,
+    );
+  });
+
   it("forwards agents unbind options", async () => {
     await runCli(["agents", "unbind", "--agent", "ops", "--all", "--json"]);
     expect(agentsUnbindCommandMock).toHaveBeenCalledWith(
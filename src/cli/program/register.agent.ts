@@ -6,6 +6,7 @@ import {
   agentsBindCommand,
   agentsDeleteCommand,
   agentsListCommand,
+  agentsRouteCommand,
   agentsSetIdentityCommand,
   agentsUnbindCommand,
 } from "../../commands/agents.js";
@@ -146,6 +147,45 @@ ${theme.muted("Docs:")} ${formatDocsLink("/cli/agent", "docs.openclaw.ai/cli/age
       });
     });
 
+  agents
+    .command("route")
+    .description("Show which agent a message would be routed to")
+    .requiredOption("--channel <channel>", "Inbound channel (telegram, discord, slack, ...)")
+    .option("--account <id>", "Channel account id")
+    .option("--peer <kind:id>", "Chat peer (direct|group|channel:<id>)")
+    .option("--parent-peer <kind:id>", "Thread parent peer (direct|group|channel:<id>)")
+    .option("--guild <id>", "Discord guild id")
+    .option("--team <id>", "Slack team id")
+    .option("--role <id>", "Discord member role id (repeatable)", collectOption, [])
+    .option("--sender <id>", "Sender id (for senders rules)")
+    .option("--text <text>", "Message text (for text, keywords and intent rules)")
+    .option("--at <time>", "Evaluate schedule rules at this ISO date/time (default: now)")
+    .option("--explain", "Explain why each binding did or did not match", false)
+    .option("--no-classify", "Skip the route classifier for intent rules")
+    .option("--json", "Output JSON instead of text", false)
+    .action(async (opts) => {
+      await runCommandWithRuntime(defaultRuntime, async () => {
+        await agentsRouteCommand(
+          {
+            channel: opts.channel as string,
+            account: opts.account as string | undefined,
+            peer: opts.peer as string | undefined,
+            parentPeer: opts.parentPeer as string | undefined,
+            guild: opts.guild as string | undefined,
+            team: opts.team as string | undefined,
+            role: Array.isArray(opts.role) ? (opts.role as string[]) : undefined,
+            sender: opts.sender as string | undefined,
+            text: opts.text as string | undefined,
+            at: opts.at as string | undefined,
+            explain: Boolean(opts.explain),
+            classify: opts.classify !== false,
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        );
+      });
+    });
+
   agents
     .command("unbind")
     .description("Remove routing bindings for an agent")
@@ -222,6 +222,15 @@ const entries: SubCliEntry[] = [
       mod.registerPairingCli(program);
     },
   },
+  {
+    name: "identities",
+    description: "Link one person's accounts across channels (shared DM sessions)",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../identities-cli.js");
+      mod.registerIdentitiesCli(program);
+    },
+  },
   {
     name: "plugins",
     description: "Manage OpenClaw plugins and extensions",
@@ -1,5 +1,6 @@
 import type { Command } from "commander";
 import { sandboxExplainCommand } from "../commands/sandbox-explain.js";
+import { sandboxRollbackCommand, sandboxSnapshotsCommand } from "../commands/sandbox-snapshots.js";
 import { sandboxListCommand, sandboxRecreateCommand } from "../commands/sandbox.js";
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
@@ -20,6 +21,8 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox recreate --session main", "Recreate a specific session."],
     ["openclaw sandbox recreate --agent mybot", "Recreate agent containers."],
     ["openclaw sandbox explain", "Explain effective sandbox config."],
+    ["openclaw sandbox snapshots --agent mybot", "List workspace snapshots."],
+    ["openclaw sandbox rollback 1", "Restore the newest listed snapshot."],
   ],
   list: [
     ["openclaw sandbox list", "List all sandbox containers."],
@@ -39,6 +42,20 @@ const SANDBOX_EXAMPLES = {
     ["openclaw sandbox explain --agent work", "Explain an agent sandbox."],
     ["openclaw sandbox explain --json", "JSON output."],
   ],
+  snapshots: [
+    ["openclaw sandbox snapshots", "List all workspace snapshots."],
+    ["openclaw sandbox snapshots --session agent:main:main", "Snapshots for a session."],
+    ["openclaw sandbox snapshots --agent work", "Snapshots for an agent."],
+    ["openclaw sandbox snapshots --json", "JSON output."],
+  ],
+  rollback: [
+    ["openclaw sandbox rollback 20261018T171000Z", "Restore a snapshot by id."],
+    [
+      "openclaw sandbox rollback 2 --agent work",
+      "Restore the second snapshot listed for an agent.",
+    ],
+    ["openclaw sandbox rollback 1 --session main --force", "Skip confirmation."],
+  ],
 } as const;
 
 function createRunner(
@@ -171,4 +188,65 @@ export function registerSandboxCli(program: Command) {
         ),
       ),
     );
+
+  // --- Snapshots Command ---
+
+  sandbox
+    .command("snapshots")
+    .description("List sandbox workspace snapshots taken at the start of agent runs")
+    .option("--session <key>", "Only snapshots for a session key")
+    .option("--agent <id>", "Only snapshots for an agent (includes agent:id:* variants)")
+    .option("--json", "Output result as JSON", false)
+    .addHelpText(
+      "after",
+      () => `\n${theme.heading("Examples:")}\n${formatHelpExamples(SANDBOX_EXAMPLES.snapshots)}\n`,
+    )
+    .action(
+      createRunner((opts) =>
+        sandboxSnapshotsCommand(
+          {
+            session: opts.session as string | undefined,
+            agent: opts.agent as string | undefined,
+            json: Boolean(opts.json),
+          },
+          defaultRuntime,
+        ),
+      ),
+    );
+
+  // --- Rollback Command ---
+
+  sandbox
+    .command("rollback")
+    .description("Restore a sandbox workspace from a snapshot")
+    .argument("<snapshot>", "Snapshot id, unique id prefix, or list number")
+    .option("--session <key>", "Pick from snapshots for a session key")
+    .option("--agent <id>", "Pick from snapshots for an agent")
+    .option("--force", "Skip confirmation prompt", false)
+    .option(
+      "--without-backup",
+      "Restore even when the current workspace is too large to snapshot first (no undo)",
+      false,
+    )
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.heading("Examples:")}\n${formatHelpExamples(SANDBOX_EXAMPLES.rollback)}\n\n${theme.muted(
+          "The current workspace is snapshotted first, so a rollback can itself be undone. When it exceeds snapshots.maxBytes the rollback aborts unless --without-backup is set.",
+        )}`,
+    )
+    .action(async (snapshot: string, opts: CommandOptions) => {
+      await createRunner((options) =>
+        sandboxRollbackCommand(
+          {
+            snapshot,
+            session: options.session as string | undefined,
+            agent: options.agent as string | undefined,
+            force: Boolean(options.force),
+            withoutBackup: Boolean(options.withoutBackup),
+          },
+          defaultRuntime,
+        ),
+      )(opts);
+    });
 }
@@ -3,6 +3,7 @@ import { getChannelPlugin, normalizeChannelId } from "../channels/plugins/index.
 import type { ChannelId } from "../channels/plugins/types.js";
 import type { OpenClawConfig } from "../config/config.js";
 import type { AgentBinding } from "../config/types.js";
+import { describeBindingRule } from "../routing/binding-rules.js";
 import { DEFAULT_ACCOUNT_ID, normalizeAgentId } from "../routing/session-key.js";
 import type { ChannelChoice } from "./onboard-types.js";
 
@@ -30,6 +31,8 @@ function bindingMatchIdentityKey(match: AgentBinding["match"]) {
     match.guildId ?? "",
     match.teamId ?? "",
     roles.join(","),
+    // Rule bindings never conflict with the plain binding for the same scope.
+    describeBindingRule(match).join(" "),
   ].join("|");
 }
 
@@ -68,6 +71,7 @@ export function describeBinding(binding: AgentBinding) {
   if (match.teamId) {
     parts.push(`team=${match.teamId}`);
   }
+  parts.push(...describeBindingRule(match));
   return parts.join(" ");
 }
 
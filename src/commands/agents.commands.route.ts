@@ -0,0 +1,155 @@
+import { normalizeChatType } from "../channels/chat-type.js";
+import { explainAgentRoute, listRouteIntentCandidates } from "../routing/resolve-route.js";
+import type { ResolveAgentRouteInput, RoutePeer } from "../routing/resolve-route.js";
+import { classifyRouteIntent } from "../routing/route-classifier.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { defaultRuntime } from "../runtime.js";
+import { describeBinding } from "./agents.bindings.js";
+import { requireValidConfig } from "./agents.command-shared.js";
+
+type AgentsRouteOptions = {
+  channel?: string;
+  account?: string;
+  peer?: string;
+  parentPeer?: string;
+  guild?: string;
+  team?: string;
+  role?: string[];
+  sender?: string;
+  text?: string;
+  at?: string;
+  explain?: boolean;
+  classify?: boolean;
+  json?: boolean;
+};
+
+function parsePeerSpec(
+  raw: string | undefined,
+  flag: string,
+): { peer: RoutePeer | null; error?: string } {
+  const value = raw?.trim();
+  if (!value) {
+    return { peer: null };
+  }
+  const sep = value.indexOf(":");
+  const kind = normalizeChatType(sep > 0 ? value.slice(0, sep) : "");
+  const id = sep > 0 ? value.slice(sep + 1).trim() : "";
+  if (!kind || !id) {
+    return { peer: null, error: `Invalid ${flag} "${value}". Use <direct|group|channel>:<id>.` };
+  }
+  return { peer: { kind, id } };
+}
+
+export async function agentsRouteCommand(
+  opts: AgentsRouteOptions,
+  runtime: RuntimeEnv = defaultRuntime,
+) {
+  const cfg = await requireValidConfig(runtime);
+  if (!cfg) {
+    return;
+  }
+
+  const channel = opts.channel?.trim();
+  if (!channel) {
+    runtime.error("Provide --channel <channel>.");
+    runtime.exit(1);
+    return;
+  }
+  const peer = parsePeerSpec(opts.peer, "--peer");
+  const parentPeer = parsePeerSpec(opts.parentPeer, "--parent-peer");
+  for (const parsed of [peer, parentPeer]) {
+    if (parsed.error) {
+      runtime.error(parsed.error);
+      runtime.exit(1);
+      return;
+    }
+  }
+  const nowMs = opts.at?.trim() ? Date.parse(opts.at.trim()) : Date.now();
+  if (!Number.isFinite(nowMs)) {
+    runtime.error(`Invalid --at "${opts.at}". Use an ISO date/time.`);
+    runtime.exit(1);
+    return;
+  }
+
+  const input: ResolveAgentRouteInput = {
+    cfg,
+    channel,
+    accountId: opts.account,
+    peer: peer.peer,
+    parentPeer: parentPeer.peer,
+    guildId: opts.guild,
+    teamId: opts.team,
+    memberRoleIds: opts.role,
+    text: opts.text,
+    senderId: opts.sender,
+    nowMs,
+  };
+  const candidates = opts.text?.trim() ? listRouteIntentCandidates(input) : [];
+  const classified =
+    candidates.length > 0 && opts.classify !== false
+      ? await classifyRouteIntent({ cfg, text: opts.text ?? "", candidates })
+      : null;
+  const explanation = explainAgentRoute({
+    ...input,
+    classifiedBindingIndex: classified?.index ?? null,
+  });
+  const bindings = cfg.bindings ?? [];
+
+  if (opts.json) {
+    runtime.log(
+      JSON.stringify(
+        {
+          ...explanation.route,
+          classifier:
+            candidates.length === 0
+              ? undefined
+              : opts.classify === false
+                ? "skipped"
+                : (classified?.intent ?? null),
+          bindings: opts.explain
+            ? explanation.bindings.map((entry) => ({
+                ...entry,
+                description: bindings[entry.index]
+                  ? describeBinding(bindings[entry.index])
+                  : undefined,
+              }))
+            : undefined,
+        },
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
+  const { route } = explanation;
+  const lines = [
+    `Agent: ${route.agentId} (matched by ${route.matchedBy})`,
+    `Session: ${route.sessionKey}`,
+  ];
+  if (candidates.length > 0) {
+    lines.push(
+      opts.classify === false
+        ? "Classifier: skipped (--no-classify)"
+        : `Classifier: ${classified ? `"${classified.intent}"` : "no intent matched"}`,
+    );
+  }
+  if (opts.explain) {
+    if (explanation.bindings.length === 0) {
+      lines.push("No routing bindings.");
+    } else {
+      lines.push("Bindings:");
+      for (const entry of explanation.bindings) {
+        const binding = bindings[entry.index];
+        const description = binding ? describeBinding(binding) : "(invalid)";
+        const status = entry.selected
+          ? "selected"
+          : entry.applies
+            ? "matches (lower priority)"
+            : `skipped: ${entry.reason}`;
+        lines.push(`- #${entry.index} ${entry.agentId} <- ${description}: ${status}`);
+      }
+    }
+  }
+  runtime.log(lines.join("\n"));
+}
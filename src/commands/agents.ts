@@ -4,4 +4,5 @@ export * from "./agents.commands.add.js";
 export * from "./agents.commands.delete.js";
 export * from "./agents.commands.identity.js";
 export * from "./agents.commands.list.js";
+export * from "./agents.commands.route.js";
 export * from "./agents.config.js";
@@ -4,6 +4,7 @@ import {
   DEFAULT_SANDBOX_BROWSER_IMAGE,
   DEFAULT_SANDBOX_COMMON_IMAGE,
   DEFAULT_SANDBOX_IMAGE,
+  resolveSandboxConfigForAgent,
   resolveSandboxScope,
 } from "../agents/sandbox.js";
 import type { OpenClawConfig } from "../config/config.js";
@@ -73,6 +74,52 @@ async function isDockerAvailable(): Promise<boolean> {
   }
 }
 
+async function isBwrapAvailable(command: string): Promise<boolean> {
+  try {
+    await runExec(command, ["--version"], { timeoutMs: 5_000 });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** bwrap binaries used by agents whose sandbox is on and set to the bwrap backend. */
+function collectBwrapSandboxCommands(cfg: OpenClawConfig): Map<string, string[]> {
+  const agentIds = new Set<string | undefined>([undefined]);
+  for (const agent of Array.isArray(cfg.agents?.list) ? cfg.agents.list : []) {
+    agentIds.add(agent.id);
+  }
+  const commands = new Map<string, string[]>();
+  for (const agentId of agentIds) {
+    const sandbox = resolveSandboxConfigForAgent(cfg, agentId);
+    if (sandbox.mode === "off" || sandbox.backend !== "bwrap") {
+      continue;
+    }
+    const users = commands.get(sandbox.bwrap.command) ?? [];
+    users.push(agentId ? `agent "${agentId}"` : "agents.defaults");
+    commands.set(sandbox.bwrap.command, users);
+  }
+  return commands;
+}
+
+async function noteMissingBwrap(cfg: OpenClawConfig) {
+  for (const [command, users] of collectBwrapSandboxCommands(cfg)) {
+    if (await isBwrapAvailable(command)) {
+      continue;
+    }
+    const lines = [
+      `Sandbox backend "bwrap" is enabled (${users.join(", ")}) but ${command} is not available.`,
+      "Sandboxed sessions for these agents will fail to run commands.",
+      "",
+      "Options:",
+      "- Install bubblewrap (e.g. apt install bubblewrap) and allow unprivileged user namespaces",
+      "- Point agents.defaults.sandbox.bwrap.command at the bwrap binary",
+      "- Switch back to Docker: openclaw config set agents.defaults.sandbox.backend docker",
+    ];
+    note(lines.join("\n"), "Sandbox");
+  }
+}
+
 async function dockerImageExists(image: string): Promise<boolean> {
   try {
     await runExec("docker", ["image", "inspect", image], { timeoutMs: 5_000 });
@@ -180,11 +227,17 @@ export async function maybeRepairSandboxImages(
   runtime: RuntimeEnv,
   prompter: DoctorPrompter,
 ): Promise<OpenClawConfig> {
+  await noteMissingBwrap(cfg);
+
   const sandbox = cfg.agents?.defaults?.sandbox;
   const mode = sandbox?.mode ?? "off";
   if (!sandbox || mode === "off") {
     return cfg;
   }
+  // bwrap runs on host binaries; Docker is only needed for the sandbox browser.
+  if (sandbox.backend === "bwrap" && !sandbox.browser?.enabled) {
+    return cfg;
+  }
 
   const dockerAvailable = await isDockerAvailable();
   if (!dockerAvailable) {
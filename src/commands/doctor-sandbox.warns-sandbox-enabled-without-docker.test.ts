@@ -126,4 +126,31 @@ describe("maybeRepairSandboxImages", () => {
     );
     expect(dockerUnavailableWarning).toBeUndefined();
   });
+
+  it("checks bwrap instead of Docker for the bwrap backend", async () => {
+    runExec.mockImplementation(async (command: string) => {
+      throw new Error(`${command} not installed`);
+    });
+
+    const config: OpenClawConfig = {
+      agents: {
+        defaults: {
+          sandbox: {
+            mode: "all",
+            backend: "bwrap",
+            bwrap: { command: "/opt/bin/bwrap" },
+          },
+        },
+      },
+    };
+
+    const { maybeRepairSandboxImages } = await import("./doctor-sandbox.js");
+    await maybeRepairSandboxImages(config, mockRuntime, mockPrompter);
+
+    expect(runExec.mock.calls.map((call) => call[0])).toEqual(["/opt/bin/bwrap"]);
+    expect(note).toHaveBeenCalledTimes(1);
+    expect(note.mock.calls[0]?.[0]).toContain(
+      'Sandbox backend "bwrap" is enabled (agents.defaults) but /opt/bin/bwrap is not available.',
+    );
+  });
 });
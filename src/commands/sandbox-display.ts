@@ -2,11 +2,20 @@
  * Display utilities for sandbox CLI
  */
 
-import type { SandboxBrowserInfo, SandboxContainerInfo } from "../agents/sandbox.js";
+import type {
+  SandboxBrowserInfo,
+  SandboxContainerInfo,
+  SandboxSnapshotMeta,
+} from "../agents/sandbox.js";
 import { formatCliCommand } from "../cli/command-format.js";
 import { formatDurationCompact } from "../infra/format-time/format-duration.ts";
 import type { RuntimeEnv } from "../runtime.js";
-import { formatImageMatch, formatSimpleStatus, formatStatus } from "./sandbox-formatters.js";
+import {
+  formatByteSize,
+  formatImageMatch,
+  formatSimpleStatus,
+  formatStatus,
+} from "./sandbox-formatters.js";
 
 type DisplayConfig<T> = {
   emptyMessage: string;
@@ -134,3 +143,28 @@ export function displayRecreateResult(
     runtime.log("\nContainers will be automatically recreated when the agent is next used.");
   }
 }
+
+export function displaySnapshots(snapshots: SandboxSnapshotMeta[], runtime: RuntimeEnv): void {
+  displayItems(
+    snapshots.map((snapshot, index) => ({ snapshot, index })),
+    {
+      emptyMessage: "No sandbox snapshots found.",
+      title: "🗂️  Sandbox Snapshots:",
+      renderItem: ({ snapshot, index }, rt) => {
+        rt.log(`  ${index + 1}. ${snapshot.id}`);
+        rt.log(`    Scope:   ${snapshot.scopeKey}`);
+        rt.log(
+          `    Age:     ${formatDurationCompact(Date.now() - snapshot.createdAtMs, { spaced: true }) ?? "0s"}`,
+        );
+        rt.log(
+          `    Reason:  ${snapshot.reason}${snapshot.runId ? ` (run ${snapshot.runId})` : ""}`,
+        );
+        rt.log(
+          `    Size:    ${snapshot.files} file(s), ${formatByteSize(snapshot.bytes)} (${formatByteSize(snapshot.archiveBytes)} archived)`,
+        );
+        rt.log("");
+      },
+    },
+    runtime,
+  );
+}
@@ -45,4 +45,42 @@ describe("sandbox explain command", () => {
     expect(parsed.fixIt).toContain("agents.defaults.sandbox.mode=off");
     expect(parsed.fixIt).toContain("tools.sandbox.tools.deny");
   });
+
+  it(
+    "reports the per-agent sandbox backend",
+    { timeout: SANDBOX_EXPLAIN_TEST_TIMEOUT_MS },
+    async () => {
+      mockCfg = {
+        agents: {
+          defaults: { sandbox: { mode: "all" } },
+          list: [
+            { id: "main", default: true },
+            {
+              id: "work",
+              sandbox: { backend: "bwrap", bwrap: { command: "/usr/local/bin/bwrap" } },
+            },
+          ],
+        },
+        session: { store: "/tmp/openclaw-test-sessions-{agentId}.json" },
+      };
+
+      const logs: string[] = [];
+      const runtime = {
+        log: (msg: string) => logs.push(msg),
+        error: (msg: string) => logs.push(msg),
+        exit: (_code: number) => {},
+      } as unknown as Parameters<typeof sandboxExplainCommand>[1];
+      await sandboxExplainCommand({ json: true, agent: "work" }, runtime);
+      await sandboxExplainCommand({ json: true, agent: "main" }, runtime);
+
+      const [work, main] = logs.map((entry) => JSON.parse(entry));
+      expect(work.sandbox).toMatchObject({
+        backend: "bwrap",
+        bwrapCommand: "/usr/local/bin/bwrap",
+        network: "none",
+      });
+      expect(main.sandbox.backend).toBe("docker");
+      expect(main.sandbox.bwrapCommand).toBeUndefined();
+    },
+  );
 });
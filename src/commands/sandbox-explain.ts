@@ -238,6 +238,9 @@ export async function sandboxExplainCommand(
       mode: sandboxCfg.mode,
       scope: sandboxCfg.scope,
       perSession: sandboxCfg.scope === "session",
+      backend: sandboxCfg.backend,
+      bwrapCommand: sandboxCfg.backend === "bwrap" ? sandboxCfg.bwrap.command : undefined,
+      network: sandboxCfg.docker.network,
       workspaceAccess: sandboxCfg.workspaceAccess,
       workspaceRoot: sandboxCfg.workspaceRoot,
       sessionIsSandboxed,
@@ -288,6 +291,13 @@ export async function sandboxExplainCommand(
       payload.sandbox.scope,
     )} ${key("perSession:")} ${bool(payload.sandbox.perSession)}`,
   );
+  lines.push(
+    `  ${key("backend:")} ${value(payload.sandbox.backend)}${
+      payload.sandbox.bwrapCommand
+        ? ` ${key("command:")} ${value(payload.sandbox.bwrapCommand)}`
+        : ""
+    } ${key("network:")} ${value(payload.sandbox.network)}`,
+  );
   lines.push(
     `  ${key("workspaceAccess:")} ${value(
       payload.sandbox.workspaceAccess,
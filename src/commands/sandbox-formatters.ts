@@ -14,6 +14,20 @@ export function formatImageMatch(matches: boolean): string {
   return matches ? "✓" : "⚠️  mismatch";
 }
 
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
 /**
  * Type guard and counter utilities
  */
@@ -0,0 +1,131 @@
+import { confirm as clackConfirm } from "@clack/prompts";
+import {
+  findSandboxSnapshot,
+  listAllSandboxSnapshots,
+  resolveSandboxConfigForAgent,
+  restoreSandboxSnapshot,
+  type SandboxSnapshotMeta,
+} from "../agents/sandbox.js";
+import { formatCliCommand } from "../cli/command-format.js";
+import { loadConfig } from "../config/config.js";
+import { resolveAgentIdFromSessionKey } from "../routing/session-key.js";
+import type { RuntimeEnv } from "../runtime.js";
+import { displaySnapshots } from "./sandbox-display.js";
+
+// --- Types ---
+
+type SandboxSnapshotFilter = {
+  session?: string;
+  agent?: string;
+};
+
+type SandboxSnapshotsOptions = SandboxSnapshotFilter & {
+  json: boolean;
+};
+
+type SandboxRollbackOptions = SandboxSnapshotFilter & {
+  snapshot: string;
+  force: boolean;
+  withoutBackup: boolean;
+};
+
+// --- Filtering ---
+
+async function listFilteredSnapshots(
+  filter: SandboxSnapshotFilter,
+): Promise<SandboxSnapshotMeta[]> {
+  const snapshots = await listAllSandboxSnapshots();
+  const session = filter.session?.trim();
+  if (session) {
+    return snapshots.filter(
+      (snapshot) => snapshot.sessionKey === session || snapshot.scopeKey === session,
+    );
+  }
+  const agent = filter.agent?.trim();
+  if (agent) {
+    const agentPrefix = `agent:${agent}`;
+    return snapshots.filter(
+      (snapshot) =>
+        snapshot.scopeKey === agentPrefix || snapshot.scopeKey.startsWith(`${agentPrefix}:`),
+    );
+  }
+  return snapshots;
+}
+
+// --- Snapshots Command ---
+
+export async function sandboxSnapshotsCommand(
+  opts: SandboxSnapshotsOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const snapshots = await listFilteredSnapshots(opts);
+
+  if (opts.json) {
+    runtime.log(JSON.stringify({ snapshots }, null, 2));
+    return;
+  }
+
+  displaySnapshots(snapshots, runtime);
+  if (snapshots.length > 0) {
+    runtime.log(
+      `Restore with '${formatCliCommand("openclaw sandbox rollback <id|#>")}' (numbers follow this list and its filters).`,
+    );
+    runtime.log(
+      "A rollback saves the current workspace first and aborts when it exceeds snapshots.maxBytes (override with --without-backup).",
+    );
+  }
+}
+
+// --- Rollback Command ---
+
+export async function sandboxRollbackCommand(
+  opts: SandboxRollbackOptions,
+  runtime: RuntimeEnv,
+): Promise<void> {
+  const snapshots = await listFilteredSnapshots(opts);
+  const snapshot = findSandboxSnapshot(snapshots, opts.snapshot);
+  if (!snapshot) {
+    runtime.error(`No sandbox snapshot matches "${opts.snapshot}".`);
+    runtime.exit(1);
+    return;
+  }
+
+  runtime.log(
+    `\nSnapshot ${snapshot.id} (${snapshot.scopeKey}) will replace the contents of ${snapshot.workspaceDir}.`,
+  );
+  if (!opts.force && !(await confirmRollback())) {
+    runtime.log("Cancelled.");
+    return;
+  }
+
+  const cfg = loadConfig();
+  const { snapshots: snapshotCfg } = resolveSandboxConfigForAgent(
+    cfg,
+    resolveAgentIdFromSessionKey(snapshot.sessionKey),
+  );
+  const result = await restoreSandboxSnapshot({
+    snapshot,
+    maxBytes: snapshotCfg.maxBytes,
+    withoutBackup: opts.withoutBackup,
+  });
+  if (result.status === "backup-too-large") {
+    runtime.error(
+      `Rollback aborted: the current workspace (${result.bytes} bytes) exceeds snapshots.maxBytes (${snapshotCfg.maxBytes}) and cannot be backed up first. Re-run with --without-backup to discard it anyway.`,
+    );
+    runtime.exit(1);
+    return;
+  }
+  runtime.log(`✓ Restored ${result.restored.id}`);
+  if (result.backup) {
+    runtime.log(`  Previous state saved as ${result.backup.id}.`);
+  }
+}
+
+async function confirmRollback(): Promise<boolean> {
+  const result = await clackConfirm({
+    message: "This will overwrite the sandbox workspace. Continue?",
+    initialValue: false,
+  });
+
+  return result !== false && result !== Symbol.for("clack:cancel");
+}
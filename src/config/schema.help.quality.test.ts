@@ -23,6 +23,7 @@ const ROOT_SECTIONS = [
   "messages",
   "commands",
   "approvals",
+  "budgets",
   "session",
   "cron",
   "hooks",
@@ -91,6 +92,35 @@ const TARGET_KEYS = [
   "agents.defaults.memorySearch.query.hybrid.mmr.lambda",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays",
+  "agents.defaults.memorySearch.query.rerank.enabled",
+  "agents.defaults.memorySearch.query.rerank.provider",
+  "agents.defaults.memorySearch.query.rerank.model",
+  "agents.defaults.memorySearch.query.rerank.candidates",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey",
+  "agents.defaults.memorySearch.query.rerank.remote.headers",
+  "agents.defaults.memorySearch.query.rerank.local.modelCacheDir",
+  "agents.defaults.sandbox.backend",
+  "agents.defaults.sandbox.bwrap",
+  "agents.defaults.sandbox.bwrap.command",
+  "agents.defaults.sandbox.bwrap.rootBinds",
+  "agents.defaults.sandbox.bwrap.systemdScope",
+  "agents.defaults.sandbox.bwrap.dangerouslyAllowHostNetwork",
+  "agents.defaults.sandbox.snapshots",
+  "agents.defaults.sandbox.snapshots.enabled",
+  "agents.defaults.sandbox.snapshots.keep",
+  "agents.defaults.sandbox.snapshots.maxAgeDays",
+  "agents.defaults.sandbox.snapshots.maxBytes",
+  "agents.defaults.sandbox.docker.egress",
+  "agents.defaults.sandbox.docker.egress.allow",
+  "agents.defaults.sandbox.docker.egress.ports",
+  "agents.defaults.sandbox.docker.egress.listenHost",
+  "tools.loopDetection.recovery",
+  "tools.loopDetection.recovery.genericRepeat",
+  "tools.loopDetection.recovery.knownPollNoProgress",
+  "tools.loopDetection.recovery.pingPong",
+  "tools.loopDetection.recovery.globalCircuitBreaker",
   "agents.defaults.memorySearch.cache.enabled",
   "agents.defaults.memorySearch.cache.maxEntries",
   "agents.defaults.memorySearch.sync.onSearch",
@@ -107,6 +137,7 @@ const TARGET_KEYS = [
   "cron",
   "cron.enabled",
   "cron.store",
+  "cron.storeBackend",
   "cron.maxConcurrentRuns",
   "cron.webhook",
   "cron.webhookToken",
@@ -114,6 +145,11 @@ const TARGET_KEYS = [
   "cron.runLog",
   "cron.runLog.maxBytes",
   "cron.runLog.keepLines",
+  "cron.blackout",
+  "cron.blackout.windows",
+  "cron.blackout.calendar",
+  "cron.blackout.tz",
+  "cron.blackout.mode",
   "session",
   "session.scope",
   "session.dmScope",
@@ -169,6 +205,16 @@ const TARGET_KEYS = [
   "approvals.exec.targets[].to",
   "approvals.exec.targets[].accountId",
   "approvals.exec.targets[].threadId",
+  "budgets",
+  "budgets.enabled",
+  "budgets.agents",
+  "budgets.accounts",
+  "budgets.senders",
+  "budgets.session",
+  "budgets.*.dailyUsd",
+  "budgets.*.monthlyUsd",
+  "budgets.*.warnPercent",
+  "budgets.*.downgradeModel",
   "nodeHost",
   "nodeHost.browserProxy",
   "nodeHost.browserProxy.enabled",
@@ -190,6 +236,18 @@ const TARGET_KEYS = [
   "bindings[].match.guildId",
   "bindings[].match.teamId",
   "bindings[].match.roles",
+  "bindings[].match.text",
+  "bindings[].match.keywords",
+  "bindings[].match.senders",
+  "bindings[].match.schedule",
+  "bindings[].match.schedule.start",
+  "bindings[].match.schedule.end",
+  "bindings[].match.schedule.days",
+  "bindings[].match.schedule.timezone",
+  "bindings[].match.intent",
+  "agents.routeClassifier",
+  "agents.routeClassifier.model",
+  "agents.routeClassifier.timeoutMs",
   "broadcast",
   "broadcast.strategy",
   "broadcast.*",
@@ -232,10 +290,18 @@ const TARGET_KEYS = [
   "messages.queue.debounceMsByChannel",
   "messages.queue.cap",
   "messages.queue.drop",
+  "messages.queue.priorityMaxWaitMs",
   "messages.inbound",
   "messages.inbound.byChannel",
   "messages.removeAckAfterReply",
   "messages.tts",
+  "messages.tts.local",
+  "messages.tts.local.command",
+  "messages.tts.local.args",
+  "messages.tts.local.outputFormat",
+  "messages.tts.local.sampleRate",
+  "messages.tts.local.ffmpegPath",
+  "messages.tts.local.timeoutMs",
   "channels",
   "channels.defaults",
   "channels.defaults.groupPolicy",
@@ -335,6 +401,10 @@ const TARGET_KEYS = [
   "plugins.entries.*.apiKey",
   "plugins.entries.*.env",
   "plugins.entries.*.config",
+  "plugins.hookTrace",
+  "plugins.hookTrace.enabled",
+  "plugins.hookTrace.slowMs",
+  "plugins.hookTrace.maxEntries",
   "plugins.installs",
   "auth",
   "auth.cooldowns",
@@ -185,6 +185,12 @@ export const FIELD_HELP: Record<string, string> = {
     "Shared default settings inherited by agents unless overridden per entry in agents.list. Use defaults to enforce consistent baseline behavior and reduce duplicated per-agent configuration.",
   "agents.list":
     "Explicit list of configured agents with IDs and optional overrides for model, tools, identity, and workspace. Keep IDs stable over time so bindings, approvals, and session routing remain deterministic.",
+  "agents.routeClassifier":
+    "LLM classifier used by bindings that set match.intent: inbound text is sent to a small model that picks the best-fitting intent. Keep it on a cheap, fast model because it runs before every routed message on channels with intent bindings.",
+  "agents.routeClassifier.model":
+    'Model for route classification as "provider/model" or an alias (default: the default agent\'s model). Use a small, inexpensive model; the classifier only returns a rule number.',
+  "agents.routeClassifier.timeoutMs":
+    "Maximum time in milliseconds to wait for a classification before routing falls back to the remaining bindings (default: 5000). Lower it when routing latency matters more than intent accuracy.",
   "agents.list[].identity.avatar":
     "Avatar image path (relative to the agent workspace only) or a remote URL/data URL.",
   "agents.defaults.heartbeat.suppressToolErrorWarnings":
@@ -325,6 +331,43 @@ export const FIELD_HELP: Record<string, string> = {
     "DANGEROUS break-glass override that allows sandbox Docker network mode container:<id>. This joins another container namespace and weakens sandbox isolation.",
   "agents.list[].sandbox.docker.dangerouslyAllowContainerNamespaceJoin":
     "Per-agent DANGEROUS override for container namespace joins in sandbox Docker network mode.",
+  "agents.defaults.sandbox.docker.egress":
+    'Starts an HTTP(S) proxy for the sandbox that only reaches allowlisted hosts; exec gets HTTP_PROXY/HTTPS_PROXY. Use it with an internal Docker network (docker network create --internal); "none", "bridge" and container joins are rejected.',
+  "agents.defaults.sandbox.docker.egress.allow":
+    'Hostnames the sandbox may reach through the egress proxy. Use "*.example.com" for subdomains (it does not match example.com itself); an empty list blocks everything.',
+  "agents.defaults.sandbox.docker.egress.ports":
+    "Destination ports the egress proxy will connect to (default: [80, 443]). Keep this narrow; private and loopback addresses stay blocked regardless.",
+  "agents.defaults.sandbox.docker.egress.listenHost":
+    "Host address the egress proxy listens on (default: the sandbox Docker network gateway). Set it when the gateway cannot be detected.",
+  "agents.list[].sandbox.docker.egress":
+    "Per-agent egress allowlist proxy settings; replaces the defaults object as a whole.",
+  "agents.defaults.sandbox.backend":
+    'Selects the sandbox runtime: "docker" (default) or "bwrap" for rootless bubblewrap on Linux hosts without a Docker daemon. bwrap reuses sandbox.docker workdir, binds, network, env and limits.',
+  "agents.list[].sandbox.backend":
+    "Per-agent sandbox runtime override so only some agents run under bubblewrap.",
+  "agents.defaults.sandbox.bwrap":
+    'Bubblewrap runtime settings used when sandbox.backend is "bwrap". Mounts, network, env, tmpfs and resource limits still come from sandbox.docker.',
+  "agents.defaults.sandbox.bwrap.command":
+    "bubblewrap binary to launch sandboxed commands (default: bwrap on PATH). Use an absolute path when the gateway service runs with a minimal PATH.",
+  "agents.defaults.sandbox.bwrap.rootBinds":
+    "Host paths bound read-only as the sandbox root filesystem (default: /usr, /bin, /sbin, /lib, /lib64 plus /etc/resolv.conf, /etc/hosts, /etc/nsswitch.conf, /etc/ssl, /etc/ca-certificates, /etc/pki, /etc/ld.so.cache and /etc/alternatives). Keep this list minimal; binding all of /etc exposes host secrets, and the workspace is mounted separately.",
+  "agents.defaults.sandbox.bwrap.systemdScope":
+    "Enable to run each bwrap command in a transient systemd-run --user scope so memory, cpus and pidsLimit become cgroup limits. Default false uses prlimit rlimits only.",
+  "agents.defaults.sandbox.bwrap.dangerouslyAllowHostNetwork":
+    'Enable to accept sandbox.docker.network "bridge" under bwrap, which shares the host network namespace (including loopback services). Default false rejects "bridge" so bwrap sandboxes stay offline.',
+  "agents.list[].sandbox.bwrap": "Per-agent override for bubblewrap sandbox runtime settings.",
+  "agents.defaults.sandbox.snapshots":
+    "Controls workspace snapshots taken at the start of each sandboxed run, so a bad run can be undone with /sandbox rollback or openclaw sandbox rollback.",
+  "agents.defaults.sandbox.snapshots.enabled":
+    "Enable per-run sandbox workspace snapshots (default: false). Snapshots copy the workspace onto the gateway host, so turn this on per agent where rollback is worth the disk use. Unchanged workspaces reuse the previous snapshot instead of writing a new archive.",
+  "agents.defaults.sandbox.snapshots.keep":
+    "Snapshots to keep per sandbox scope; older ones are removed by sandbox pruning (default: 10, 0 disables the count limit).",
+  "agents.defaults.sandbox.snapshots.maxAgeDays":
+    "Remove snapshots older than this many days during sandbox pruning (default: 7, 0 disables age-based removal).",
+  "agents.defaults.sandbox.snapshots.maxBytes":
+    "Skip snapshots when the workspace holds more than this many bytes of files (default: 268435456). Keep it low for large workspaces.",
+  "agents.list[].sandbox.snapshots":
+    "Per-agent override for sandbox workspace snapshots. Ignored when the sandbox scope is shared.",
   "agents.defaults.sandbox.browser.cdpSourceRange":
     "Optional CIDR allowlist for container-edge CDP ingress (for example 172.21.0.1/32).",
   "agents.list[].sandbox.browser.cdpSourceRange":
@@ -395,6 +438,24 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional team/workspace ID constraint used by providers that scope chats under teams. Add this when you need bindings isolated to one workspace context.",
   "bindings[].match.roles":
     "Optional role-based filter list used by providers that attach roles to chat context. Use this to route privileged or operational role traffic to specialized agents.",
+  "bindings[].match.text":
+    "Case-insensitive regular expression tested against the inbound message text; the binding applies only when it matches. Use anchored, simple patterns since unsafe regexes (nested repetition) are rejected.",
+  "bindings[].match.keywords":
+    "Keywords matched as whole words against the inbound message text (case-insensitive); any single keyword is enough. Use this instead of text for plain word lists that non-developers maintain.",
+  "bindings[].match.senders":
+    "Sender-id allowlist for this binding, using the channel's native sender ids (for example Telegram user ids or E.164 numbers). Use it to route specific people to a dedicated agent.",
+  "bindings[].match.schedule":
+    "Time window in which this binding applies, for example an after-hours agent from 18:00 to 08:00. Use days to limit the window to weekdays; windows that end before they start wrap past midnight.",
+  "bindings[].match.schedule.start":
+    "Window start time in 24h HH:MM format (inclusive); use it together with end. The window is evaluated in the schedule timezone.",
+  "bindings[].match.schedule.end":
+    "Window end time in 24h HH:MM format (exclusive); use 24:00 for end of day. An end earlier than start defines an overnight window.",
+  "bindings[].match.schedule.days":
+    "Weekdays (mon..sun) on which the window starts; overnight windows continue into the next morning. Leave unset to use the window every day.",
+  "bindings[].match.schedule.timezone":
+    'Timezone for the window: "user" (agents.defaults.userTimezone, the default), "local" (host timezone), or an IANA zone id. Set an explicit zone when the gateway host runs in UTC.',
+  "bindings[].match.intent":
+    'Short description of the messages this binding is for (for example "billing or refund questions"); agents.routeClassifier decides whether the inbound text fits. Use it only when text and keywords cannot express the rule, since it costs a model call.',
   broadcast:
     "Broadcast routing map for sending the same outbound message to multiple peer IDs per source conversation. Keep this minimal and audited because one source can fan out to many destinations.",
   "broadcast.strategy":
@@ -453,6 +514,16 @@ export const FIELD_HELP: Record<string, string> = {
   "tools.loopDetection.detectors.knownPollNoProgress":
     "Enable known poll tool no-progress loop detection (default: true).",
   "tools.loopDetection.detectors.pingPong": "Enable ping-pong loop detection (default: true).",
+  "tools.loopDetection.recovery":
+    'Controls what happens when a loop detector escalates to critical: "note" steers the agent with a corrective system note, "switch-model" moves to the next model fallback, "ask-user" pauses and asks on the session channel, "abort" stops with a summary. Unset detectors only block the looping call.',
+  "tools.loopDetection.recovery.genericRepeat":
+    "Recovery action for repeated identical calls. Setting it escalates generic repeats to critical at criticalThreshold (default: unset, warn only).",
+  "tools.loopDetection.recovery.knownPollNoProgress":
+    "Recovery action for known poll tools (process poll, command_status) that keep returning the same output (default: unset, block only).",
+  "tools.loopDetection.recovery.pingPong":
+    "Recovery action for no-progress ping-pong loops alternating between two tool calls (default: unset, block only).",
+  "tools.loopDetection.recovery.globalCircuitBreaker":
+    "Recovery action when any tool trips the global no-progress circuit breaker threshold (default: unset, block only).",
   "tools.exec.notifyOnExit":
     "When true (default), backgrounded exec sessions on exit and node exec lifecycle events enqueue a system event and request a heartbeat.",
   "tools.exec.notifyOnExitEmptySuccess":
@@ -568,6 +639,26 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional account selector for multi-account channel setups when approvals must route through a specific account context. Use this only when the target channel has multiple configured identities.",
   "approvals.exec.targets[].threadId":
     "Optional thread/topic target for channels that support threaded delivery of forwarded approvals. Use this to keep approval traffic contained in operational threads instead of main channels.",
+  budgets:
+    "Spending budgets checked before each agent run, with daily and monthly USD caps per agent, channel account, sender, and session. Costs come from models.providers.*.models[].cost, so keep model pricing configured or spend will not be counted.",
+  "budgets.enabled":
+    "Enables budget checks before agent runs (default: true when any limit is configured). Set false to pause enforcement while keeping limits and the spend ledger in place.",
+  "budgets.agents":
+    'Budget limits keyed by agent id, with "*" applying the same limits to every agent individually. Use this to cap what each agent may spend regardless of channel or sender.',
+  "budgets.accounts":
+    'Budget limits keyed by "<channel>:<accountId>", "<channel>", or "*"; channel and wildcard entries apply to each account separately. Use this to cap spend per connected bot account.',
+  "budgets.senders":
+    'Budget limits keyed by "<channel>:<senderId>", "<channel>", or "*"; channel and wildcard entries apply to each sender separately. Use this to keep a single chatty user or group member from exhausting the budget.',
+  "budgets.session":
+    "Budget limits applied to each session separately; use this so one runaway group chat or thread stops before it consumes the agent-wide budget. Leave unset to track sessions only through the other scopes.",
+  "budgets.*.dailyUsd":
+    "Hard cap in USD per local calendar day; runs are refused once spend reaches it. Set alongside monthlyUsd to bound both bursts and totals.",
+  "budgets.*.monthlyUsd":
+    "Hard cap in USD per local calendar month; runs are refused once spend reaches it until the month rolls over. Use this for overall cost control.",
+  "budgets.*.warnPercent":
+    "Percent of a cap at which the sender is warned once per period and downgradeModel takes effect (default: 80). Lower it to switch to the cheaper model earlier.",
+  "budgets.*.downgradeModel":
+    'Cheaper model as "provider/model" to use for runs once spend passes warnPercent of a cap. Keep it on a provider with configured pricing so downgraded runs still count toward the budget.',
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
   "tools.sessions.visibility":
@@ -769,6 +860,24 @@ export const FIELD_HELP: Record<string, string> = {
     "Applies recency decay so newer memory can outrank older memory when scores are close. Enable when timeliness matters; keep off for timeless reference knowledge.",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Controls how fast older memory loses rank when temporal decay is enabled (half-life in days, default: 30). Lower values prioritize recent context more aggressively.",
+  "agents.defaults.memorySearch.query.rerank.enabled":
+    "Adds a rerank stage that rescores the top memory hits after hybrid merge, MMR, and temporal decay (default: false). Enable when recall on long workspaces surfaces the right chunks too low; keep off for lowest latency.",
+  "agents.defaults.memorySearch.query.rerank.provider":
+    'Selects the reranker: "local" runs a GGUF cross-encoder via node-llama-cpp, "remote" calls a Cohere/Jina/Voyage-compatible `/rerank` endpoint, and "llm" asks the agent model to grade hits (default: "local").',
+  "agents.defaults.memorySearch.query.rerank.model":
+    "Sets the reranker model: a GGUF path or hf: URI for local, the model id sent to the remote endpoint, or a provider/model ref or alias for llm (default: the agent's primary model). Leave unset to use the provider default.",
+  "agents.defaults.memorySearch.query.rerank.candidates":
+    "Controls how many top hits are sent to the reranker (default: 20); hits below that keep their hybrid order. Raise for better recall on noisy corpora, lower to keep rerank latency and cost down.",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs":
+    "Sets how long a rerank may take before search falls back to the un-reranked order (default: 5000 ms, llm: 15000 ms). Keep it short enough that a slow reranker never stalls replies.",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl":
+    "Defines the base URL of the remote rerank API; OpenClaw posts to `<baseUrl>/rerank` with the query and candidate snippets. Use the Cohere, Jina, Voyage, or a self-hosted TEI-compatible endpoint.",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey":
+    "Sets the bearer API key sent to the remote rerank endpoint. Use this when the rerank service needs different credentials than the embedding provider; no key is sent when unset.",
+  "agents.defaults.memorySearch.query.rerank.remote.headers":
+    "Defines extra HTTP headers sent with remote rerank requests, such as org or gateway routing headers. Use only non-secret metadata here and keep credentials in remote.apiKey.",
+  "agents.defaults.memorySearch.query.rerank.local.modelCacheDir":
+    "Sets the cache directory for downloaded local reranker models (node-llama-cpp). Use this to keep GGUF downloads on a larger disk or share them between agents; the default node-llama-cpp cache otherwise.",
   "agents.defaults.memorySearch.cache.enabled":
     "Caches computed chunk embeddings in SQLite so reindexing and incremental updates run faster (default: true). Keep this enabled unless investigating cache correctness or minimizing disk usage.",
   memory: "Memory backend configuration (global).",
@@ -866,9 +975,15 @@ export const FIELD_HELP: Record<string, string> = {
   "plugins.load.paths":
     "Additional plugin files or directories scanned by the loader beyond built-in defaults. Use dedicated extension directories and avoid broad paths with unrelated executable content.",
   "plugins.slots":
-    "Selects which plugins own exclusive runtime slots such as memory so only one plugin provides that capability. Use explicit slot ownership to avoid overlapping providers with conflicting behavior.",
+    "Selects which plugins own exclusive runtime slots (memory, tts, webSearch, sandbox) so only one plugin provides that capability. Use explicit slot ownership to avoid overlapping providers with conflicting behavior.",
   "plugins.slots.memory":
     'Select the active memory plugin by id, or "none" to disable memory plugins.',
+  "plugins.slots.tts":
+    'Select a "tts" plugin by id to replace the built-in OpenAI/ElevenLabs/Edge providers for every TTS request; built-ins remain the fallback when it fails. Leave unset to keep the built-ins.',
+  "plugins.slots.webSearch":
+    'Select a "web-search" plugin by id to back the `web_search` tool instead of `tools.web.search.provider`. Leave unset to keep the built-in search providers.',
+  "plugins.slots.sandbox":
+    'Select a "sandbox" plugin by id to create sandboxes and run sandboxed exec/file commands instead of Docker. Leave unset to keep the Docker runtime; the sandbox browser stays Docker-only.',
   "plugins.entries":
     "Per-plugin settings keyed by plugin ID including enablement and plugin-specific runtime configuration payloads. Use this for scoped plugin tuning without changing global loader policy.",
   "plugins.entries.*.enabled":
@@ -879,6 +994,14 @@ export const FIELD_HELP: Record<string, string> = {
     "Per-plugin environment variable map injected for that plugin runtime context only. Use this to scope provider credentials to one plugin instead of sharing global process environment.",
   "plugins.entries.*.config":
     "Plugin-defined configuration payload interpreted by that plugin's own schema and validation rules. Use only documented fields from the plugin to prevent ignored or invalid settings.",
+  "plugins.hookTrace":
+    "Controls tracing of typed plugin hooks (before_tool_call, message_sending, ...) so you can see which plugin changed a prompt or blocked a tool call. Inspect with `/debug hooks` or the `plugins.hooks.trace` gateway method.",
+  "plugins.hookTrace.enabled":
+    "Enable to record every hook call with plugin id, priority, duration, and a diff of what the handler changed (default: false). `/debug hooks on|off` toggles it at runtime without editing config.",
+  "plugins.hookTrace.slowMs":
+    "Sets the slow-hook warning threshold in milliseconds for a single handler call (default: 1000). Slow calls are logged as warnings even when tracing is off; use 0 to disable the warnings.",
+  "plugins.hookTrace.maxEntries":
+    "Sets how many trace entries stay in memory before the oldest are dropped (default: 200). Keep this small; entries include truncated previews of prompts and tool params.",
   "plugins.installs":
     "CLI-managed install metadata (used by `openclaw plugins update` to locate install sources).",
   "plugins.installs.*.source": 'Install source ("npm", "archive", or "path").',
@@ -974,7 +1097,7 @@ export const FIELD_HELP: Record<string, string> = {
   "session.dmScope":
     'DM session scoping: "main" keeps continuity, while "per-peer", "per-channel-peer", and "per-account-channel-peer" increase isolation. Use isolated modes for shared inboxes or multi-account deployments.',
   "session.identityLinks":
-    "Maps canonical identities to provider-prefixed peer IDs so equivalent users resolve to one DM thread (example: telegram:123456). Use this when the same human appears across multiple channels or accounts.",
+    "Maps canonical identities to provider-prefixed peer IDs so equivalent users resolve to one DM thread (example: telegram:123456). Use this when the same human appears across multiple channels or accounts; links made with /link or `openclaw identities` are merged in.",
   "session.resetTriggers":
     "Lists message triggers that force a session reset when matched in inbound content. Use sparingly for explicit reset phrases so context is not dropped unexpectedly during normal conversation.",
   "session.idleMinutes":
@@ -1062,6 +1185,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Enables cron job execution for stored schedules managed by the gateway. Keep enabled for normal reminder/automation flows, and disable only to pause all cron execution without deleting jobs.",
   "cron.store":
     "Path to the cron job store file used to persist scheduled jobs across restarts. Set an explicit path only when you need custom storage layout, backups, or mounted volumes.",
+  "cron.storeBackend":
+    'Selects how cron jobs are persisted: "json" (default) keeps one JSON file at `cron.store`, while "sqlite" uses a `jobs.sqlite` database next to it with per-job rows and cross-process locks. Use "sqlite" for hundreds of jobs or when two gateways share a state directory; the JSON file is imported once and renamed to `*.migrated`.',
   "cron.maxConcurrentRuns":
     "Limits how many cron jobs can execute at the same time when multiple schedules fire together. Use lower values to protect CPU/memory under heavy automation load, or raise carefully for higher throughput.",
   "cron.webhook":
@@ -1076,6 +1201,16 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum bytes per cron run-log file before pruning rewrites to the last keepLines entries (for example `2mb`, default `2000000`).",
   "cron.runLog.keepLines":
     "How many trailing run-log lines to retain when a file exceeds maxBytes (default `2000`). Increase for longer forensic history or lower for smaller disks.",
+  "cron.blackout":
+    "Global quiet hours and calendar skip list applied to every cron job in addition to each job's own `blackout` rules. Use it to keep reminders from firing at night or on holidays.",
+  "cron.blackout.windows":
+    'Recurring blackout windows as `{ start, end, days? }` in 24h `HH:MM` (for example `{ start: "22:00", end: "07:00" }`). Windows wrap past midnight when end is earlier than start; use `days` to limit the weekdays a window starts on.',
+  "cron.blackout.calendar":
+    "Path to an ICS calendar file whose events block cron runs, such as a public-holiday feed. All-day and timed events are supported, plus yearly recurrences; use a local file path, which is re-read when it changes.",
+  "cron.blackout.tz":
+    "IANA timezone used for blackout windows and all-day calendar events (default: gateway host timezone). Set this when the host runs in UTC but quiet hours follow your local clock.",
+  "cron.blackout.mode":
+    'What happens to runs that land in a blackout: `"defer"` (default) moves the run to the end of the blackout, while `"skip"` records it as skipped and waits for the next scheduled slot.',
   hooks:
     "Inbound webhook automation surface for mapping external events into wake or agent actions in OpenClaw. Keep this locked down with explicit token/session/agent controls before exposing it beyond trusted networks.",
   "hooks.enabled":
@@ -1230,6 +1365,8 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum number of queued inbound items retained before drop policy applies. Keep caps bounded in noisy channels so memory usage remains predictable.",
   "messages.queue.drop":
     'Drop strategy when queue cap is exceeded: "old", "new", or "summarize". Use summarize when preserving intent matters, or old/new when deterministic dropping is preferred.',
+  "messages.queue.priorityMaxWaitMs":
+    "Maximum wait in milliseconds before a queued routine message stops being overtaken by owner messages, control commands, mentions, and cron wakes (default: 60000). Use 0 to disable priority lanes and keep strict arrival order.",
   "messages.inbound":
     "Direct inbound debounce settings used before queue/turn processing starts. Configure this for provider-specific rapid message bursts from the same sender.",
   "messages.inbound.byChannel":
@@ -1238,6 +1375,20 @@ export const FIELD_HELP: Record<string, string> = {
     "Removes the acknowledgment reaction after final reply delivery when enabled. Keep enabled for cleaner UX in channels where persistent ack reactions create clutter.",
   "messages.tts":
     "Text-to-speech policy for reading agent replies aloud on supported voice or audio surfaces. Keep disabled unless voice playback is part of your operator/user workflow.",
+  "messages.tts.local":
+    "Offline text-to-speech through a local command such as Piper or espeak-ng. Use this when replies must be voiced without sending text to a cloud provider.",
+  "messages.tts.local.command":
+    "Executable that synthesizes speech and writes WAV or raw PCM audio to stdout. Set this to enable the local provider; it stays unavailable until then.",
+  "messages.tts.local.args":
+    'Arguments passed to the local TTS command. Without a "{text}" placeholder the reply text is written to stdin (preferred). If you use "{text}", put "--" before it so replies starting with "-" are not read as options.',
+  "messages.tts.local.outputFormat":
+    'Audio format the local command writes to stdout: "wav" (default) or "pcm" for raw 16-bit mono samples at the configured sample rate.',
+  "messages.tts.local.sampleRate":
+    "Sample rate in Hz for raw PCM output from the local command (default: 22050). Ignored for WAV output, which carries its own header.",
+  "messages.tts.local.ffmpegPath":
+    "ffmpeg binary used to transcode local TTS audio into each channel's voice-note format (default: ffmpeg on PATH). Without it replies fall back to WAV.",
+  "messages.tts.local.timeoutMs":
+    "Timeout in milliseconds for one local TTS command run (default: messages.tts.timeoutMs). Raise it for large models on slow CPUs.",
   channels:
     "Channel provider configurations plus shared defaults that control access policies, heartbeat visibility, and per-surface behavior. Keep defaults centralized and override per provider only where required.",
   "channels.telegram":
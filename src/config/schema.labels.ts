@@ -54,6 +54,9 @@ export const FIELD_LABELS: Record<string, string> = {
   agents: "Agents",
   "agents.defaults": "Agent Defaults",
   "agents.list": "Agent List",
+  "agents.routeClassifier": "Route Classifier",
+  "agents.routeClassifier.model": "Route Classifier Model",
+  "agents.routeClassifier.timeoutMs": "Route Classifier Timeout (ms)",
   gateway: "Gateway",
   "gateway.port": "Gateway Port",
   "gateway.mode": "Gateway Mode",
@@ -164,6 +167,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "tools.loopDetection.detectors.genericRepeat": "Tool-loop Generic Repeat Detection",
   "tools.loopDetection.detectors.knownPollNoProgress": "Tool-loop Poll No-Progress Detection",
   "tools.loopDetection.detectors.pingPong": "Tool-loop Ping-Pong Detection",
+  "tools.loopDetection.recovery": "Tool-loop Recovery",
+  "tools.loopDetection.recovery.genericRepeat": "Tool-loop Generic Repeat Recovery",
+  "tools.loopDetection.recovery.knownPollNoProgress": "Tool-loop Poll No-Progress Recovery",
+  "tools.loopDetection.recovery.pingPong": "Tool-loop Ping-Pong Recovery",
+  "tools.loopDetection.recovery.globalCircuitBreaker": "Tool-loop Global Circuit Breaker Recovery",
   "tools.fs.workspaceOnly": "Workspace-only FS tools",
   "tools.sessions.visibility": "Session Tools Visibility",
   "tools.exec.notifyOnExit": "Exec Notify On Exit",
@@ -198,6 +206,16 @@ export const FIELD_LABELS: Record<string, string> = {
   "approvals.exec.targets[].to": "Approval Target Destination",
   "approvals.exec.targets[].accountId": "Approval Target Account ID",
   "approvals.exec.targets[].threadId": "Approval Target Thread ID",
+  budgets: "Budgets",
+  "budgets.enabled": "Budget Checks Enabled",
+  "budgets.agents": "Agent Budgets",
+  "budgets.accounts": "Channel Account Budgets",
+  "budgets.senders": "Sender Budgets",
+  "budgets.session": "Per-Session Budget",
+  "budgets.*.dailyUsd": "Daily Budget (USD)",
+  "budgets.*.monthlyUsd": "Monthly Budget (USD)",
+  "budgets.*.warnPercent": "Budget Warning Percent",
+  "budgets.*.downgradeModel": "Budget Downgrade Model",
   "tools.message.allowCrossContextSend": "Allow Cross-Context Messaging",
   "tools.message.crossContext.allowWithinProvider": "Allow Cross-Context (Same Provider)",
   "tools.message.crossContext.allowAcrossProviders": "Allow Cross-Context (Across Providers)",
@@ -270,6 +288,15 @@ export const FIELD_LABELS: Record<string, string> = {
   "bindings[].match.guildId": "Binding Guild ID",
   "bindings[].match.teamId": "Binding Team ID",
   "bindings[].match.roles": "Binding Roles",
+  "bindings[].match.text": "Binding Text Pattern",
+  "bindings[].match.keywords": "Binding Keywords",
+  "bindings[].match.senders": "Binding Senders",
+  "bindings[].match.schedule": "Binding Schedule",
+  "bindings[].match.schedule.start": "Binding Schedule Start",
+  "bindings[].match.schedule.end": "Binding Schedule End",
+  "bindings[].match.schedule.days": "Binding Schedule Days",
+  "bindings[].match.schedule.timezone": "Binding Schedule Timezone",
+  "bindings[].match.intent": "Binding Intent",
   broadcast: "Broadcast",
   "broadcast.strategy": "Broadcast Strategy",
   "broadcast.*": "Broadcast Destination List",
@@ -323,6 +350,16 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled": "Memory Search Temporal Decay",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Memory Search Temporal Decay Half-life (Days)",
+  "agents.defaults.memorySearch.query.rerank.enabled": "Memory Search Rerank",
+  "agents.defaults.memorySearch.query.rerank.provider": "Memory Search Rerank Provider",
+  "agents.defaults.memorySearch.query.rerank.model": "Memory Search Rerank Model",
+  "agents.defaults.memorySearch.query.rerank.candidates": "Memory Search Rerank Candidates",
+  "agents.defaults.memorySearch.query.rerank.timeoutMs": "Memory Search Rerank Timeout (ms)",
+  "agents.defaults.memorySearch.query.rerank.remote.baseUrl": "Memory Search Rerank Base URL",
+  "agents.defaults.memorySearch.query.rerank.remote.apiKey": "Memory Search Rerank API Key",
+  "agents.defaults.memorySearch.query.rerank.remote.headers": "Memory Search Rerank Headers",
+  "agents.defaults.memorySearch.query.rerank.local.modelCacheDir":
+    "Memory Search Rerank Model Cache Dir",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
@@ -422,10 +459,26 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.heartbeat.directPolicy": "Heartbeat Direct Policy",
   "agents.list.*.heartbeat.directPolicy": "Heartbeat Direct Policy",
   "agents.defaults.heartbeat.suppressToolErrorWarnings": "Heartbeat Suppress Tool Error Warnings",
+  "agents.defaults.sandbox.backend": "Sandbox Backend",
+  "agents.defaults.sandbox.bwrap": "Sandbox Bubblewrap",
+  "agents.defaults.sandbox.bwrap.command": "Sandbox Bubblewrap Command",
+  "agents.defaults.sandbox.bwrap.rootBinds": "Sandbox Bubblewrap Root Binds",
+  "agents.defaults.sandbox.bwrap.systemdScope": "Sandbox Bubblewrap systemd Scope",
+  "agents.defaults.sandbox.bwrap.dangerouslyAllowHostNetwork":
+    "Sandbox Bubblewrap Dangerously Allow Host Network",
+  "agents.defaults.sandbox.snapshots": "Sandbox Snapshots",
+  "agents.defaults.sandbox.snapshots.enabled": "Sandbox Snapshots Enabled",
+  "agents.defaults.sandbox.snapshots.keep": "Sandbox Snapshots Keep",
+  "agents.defaults.sandbox.snapshots.maxAgeDays": "Sandbox Snapshots Max Age (days)",
+  "agents.defaults.sandbox.snapshots.maxBytes": "Sandbox Snapshots Max Bytes",
   "agents.defaults.sandbox.browser.network": "Sandbox Browser Network",
   "agents.defaults.sandbox.browser.cdpSourceRange": "Sandbox Browser CDP Source Port Range",
   "agents.defaults.sandbox.docker.dangerouslyAllowContainerNamespaceJoin":
     "Sandbox Docker Allow Container Namespace Join",
+  "agents.defaults.sandbox.docker.egress": "Sandbox Egress Proxy",
+  "agents.defaults.sandbox.docker.egress.allow": "Sandbox Egress Allowlist",
+  "agents.defaults.sandbox.docker.egress.ports": "Sandbox Egress Ports",
+  "agents.defaults.sandbox.docker.egress.listenHost": "Sandbox Egress Listen Host",
   commands: "Commands",
   "commands.native": "Native Commands",
   "commands.nativeSkills": "Native Skill Commands",
@@ -503,6 +556,7 @@ export const FIELD_LABELS: Record<string, string> = {
   cron: "Cron",
   "cron.enabled": "Cron Enabled",
   "cron.store": "Cron Store Path",
+  "cron.storeBackend": "Cron Store Backend",
   "cron.maxConcurrentRuns": "Cron Max Concurrent Runs",
   "cron.webhook": "Cron Legacy Webhook (Deprecated)",
   "cron.webhookToken": "Cron Webhook Bearer Token",
@@ -510,6 +564,11 @@ export const FIELD_LABELS: Record<string, string> = {
   "cron.runLog": "Cron Run Log Pruning",
   "cron.runLog.maxBytes": "Cron Run Log Max Bytes",
   "cron.runLog.keepLines": "Cron Run Log Keep Lines",
+  "cron.blackout": "Cron Blackout",
+  "cron.blackout.windows": "Cron Blackout Windows",
+  "cron.blackout.calendar": "Cron Blackout Calendar",
+  "cron.blackout.tz": "Cron Blackout Timezone",
+  "cron.blackout.mode": "Cron Blackout Mode",
   hooks: "Hooks",
   "hooks.enabled": "Hooks Enabled",
   "hooks.path": "Hooks Endpoint Path",
@@ -611,6 +670,7 @@ export const FIELD_LABELS: Record<string, string> = {
   "messages.queue.debounceMsByChannel": "Queue Debounce by Channel (ms)",
   "messages.queue.cap": "Queue Capacity",
   "messages.queue.drop": "Queue Drop Strategy",
+  "messages.queue.priorityMaxWaitMs": "Queue Priority Max Wait (ms)",
   "messages.inbound": "Inbound Debounce",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
@@ -623,6 +683,13 @@ export const FIELD_LABELS: Record<string, string> = {
   "messages.inbound.debounceMs": "Inbound Message Debounce (ms)",
   "messages.inbound.byChannel": "Inbound Debounce by Channel (ms)",
   "messages.tts": "Message Text-to-Speech",
+  "messages.tts.local": "Local TTS Command",
+  "messages.tts.local.command": "Local TTS Command Path",
+  "messages.tts.local.args": "Local TTS Command Args",
+  "messages.tts.local.outputFormat": "Local TTS Output Format",
+  "messages.tts.local.sampleRate": "Local TTS PCM Sample Rate",
+  "messages.tts.local.ffmpegPath": "Local TTS ffmpeg Path",
+  "messages.tts.local.timeoutMs": "Local TTS Timeout (ms)",
   "talk.provider": "Talk Active Provider",
   "talk.providers": "Talk Provider Settings",
   "talk.providers.*.voiceId": "Talk Provider Voice ID",
@@ -738,10 +805,14 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.list[].identity.avatar": "Agent Avatar",
   "agents.list[].heartbeat.suppressToolErrorWarnings":
     "Agent Heartbeat Suppress Tool Error Warnings",
+  "agents.list[].sandbox.backend": "Agent Sandbox Backend",
+  "agents.list[].sandbox.bwrap": "Agent Sandbox Bubblewrap",
+  "agents.list[].sandbox.snapshots": "Agent Sandbox Snapshots",
   "agents.list[].sandbox.browser.network": "Agent Sandbox Browser Network",
   "agents.list[].sandbox.browser.cdpSourceRange": "Agent Sandbox Browser CDP Source Port Range",
   "agents.list[].sandbox.docker.dangerouslyAllowContainerNamespaceJoin":
     "Agent Sandbox Docker Allow Container Namespace Join",
+  "agents.list[].sandbox.docker.egress": "Agent Sandbox Egress Proxy",
   "discovery.mdns.mode": "mDNS Discovery Mode",
   plugins: "Plugins",
   "plugins.enabled": "Enable Plugins",
@@ -751,6 +822,13 @@ export const FIELD_LABELS: Record<string, string> = {
   "plugins.load.paths": "Plugin Load Paths",
   "plugins.slots": "Plugin Slots",
   "plugins.slots.memory": "Memory Plugin",
+  "plugins.slots.tts": "TTS Plugin",
+  "plugins.slots.webSearch": "Web Search Plugin",
+  "plugins.slots.sandbox": "Sandbox Plugin",
+  "plugins.hookTrace": "Plugin Hook Tracing",
+  "plugins.hookTrace.enabled": "Trace Plugin Hooks",
+  "plugins.hookTrace.slowMs": "Slow Hook Threshold (ms)",
+  "plugins.hookTrace.maxEntries": "Hook Trace Entries",
   "plugins.entries": "Plugin Entries",
   "plugins.entries.*.enabled": "Plugin Enabled",
   "plugins.entries.*.apiKey": "Plugin API Key",
@@ -0,0 +1,107 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  applySessionFork,
+  buildSessionBranchTree,
+  forkSessionTranscript,
+  resolveSessionBranch,
+  switchSessionBranch,
+} from "./branches.js";
+import type { SessionEntry } from "./types.js";
+
+function countMessages(sessionFile: string): number {
+  return SessionManager.open(sessionFile)
+    .getBranch()
+    .filter((entry) => entry.type === "message").length;
+}
+
+describe("session branches", () => {
+  let dir: string;
+  let sessionFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "openclaw-branches-"));
+    const manager = SessionManager.create(dir, dir);
+    for (let turn = 1; turn <= 3; turn += 1) {
+      manager.appendMessage({ role: "user", content: `question ${turn}`, timestamp: turn });
+      manager.appendMessage({
+        role: "assistant",
+        content: [{ type: "text", text: `answer ${turn}` }],
+        api: "openai-responses",
+        provider: "openai",
+        model: "gpt-test",
+        usage: {
+          input: 0,
+          output: 0,
+          cacheRead: 0,
+          cacheWrite: 0,
+          totalTokens: 0,
+          cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+        },
+        stopReason: "stop",
+        timestamp: turn,
+      });
+    }
+    sessionFile = manager.getSessionFile() ?? "";
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("copies a transcript prefix into a new session file", () => {
+    const fork = forkSessionTranscript({ sessionFile, messageIndex: 3 });
+    expect(fork.messageCount).toBe(3);
+    expect(fork.totalMessages).toBe(6);
+    expect(fork.sessionFile).not.toBe(sessionFile);
+    expect(countMessages(fork.sessionFile)).toBe(3);
+    expect(countMessages(sessionFile)).toBe(6);
+  });
+
+  it("counts negative indexes from the end and rejects out-of-range ones", () => {
+    expect(forkSessionTranscript({ sessionFile, messageIndex: -2 }).messageCount).toBe(4);
+    expect(forkSessionTranscript({ sessionFile }).messageCount).toBe(6);
+    expect(() => forkSessionTranscript({ sessionFile, messageIndex: 7 })).toThrow(/out of range/);
+    expect(() => forkSessionTranscript({ sessionFile, messageIndex: -6 })).toThrow(/out of range/);
+  });
+
+  it("tracks lineage and switches the active branch", () => {
+    const entry: SessionEntry = {
+      sessionId: "root-session",
+      sessionFile,
+      updatedAt: 1,
+      totalTokens: 1200,
+    };
+    const first = applySessionFork(entry, forkSessionTranscript({ sessionFile, messageIndex: 2 }));
+    expect(entry.sessionId).toBe(first.sessionId);
+    expect(entry.totalTokens).toBeUndefined();
+    expect(first).toMatchObject({ parentSessionId: "root-session", forkMessageCount: 2 });
+
+    const second = applySessionFork(
+      entry,
+      forkSessionTranscript({ sessionFile: first.sessionFile ?? "", messageIndex: 1 }),
+      "short",
+    );
+    expect(second.parentSessionId).toBe(first.sessionId);
+
+    expect(
+      buildSessionBranchTree(entry).map((node) => [node.index, node.depth, node.active]),
+    ).toEqual([
+      [1, 0, false],
+      [2, 1, false],
+      [3, 2, true],
+    ]);
+
+    expect(resolveSessionBranch(entry, "short")).toBe(second);
+    expect(resolveSessionBranch(entry, "root")?.sessionId).toBe("root-session");
+    const root = resolveSessionBranch(entry, "1");
+    expect(root?.sessionId).toBe("root-session");
+    expect(switchSessionBranch(entry, root!)).toBe(true);
+    expect(entry.sessionId).toBe("root-session");
+    expect(entry.sessionFile).toBe(sessionFile);
+    expect(switchSessionBranch(entry, root!)).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  SessionManager,
+  type SessionEntry as TranscriptEntry,
+} from "@mariozechner/pi-coding-agent";
+import type { SessionBranch, SessionEntry } from "./types.js";
+
+export type SessionTranscriptFork = {
+  sessionId: string;
+  sessionFile: string;
+  /** Messages (user + assistant) copied from the parent transcript. */
+  messageCount: number;
+  /** Messages in the parent transcript at fork time. */
+  totalMessages: number;
+};
+
+export type SessionBranchTreeNode = {
+  /** 1-based position in `listSessionBranches`, used to switch branches. */
+  index: number;
+  depth: number;
+  active: boolean;
+  branch: SessionBranch;
+};
+
+function isConversationMessage(entry: TranscriptEntry): boolean {
+  if (entry.type !== "message") {
+    return false;
+  }
+  const role = (entry.message as { role?: unknown }).role;
+  return role === "user" || role === "assistant";
+}
+
+/**
+ * Copy a prefix of a transcript into a new transcript file next to it.
+ * `messageIndex` counts user and assistant messages from 1; negative values
+ * count back from the end and an omitted index copies the whole transcript.
+ */
+export function forkSessionTranscript(params: {
+  sessionFile: string;
+  messageIndex?: number;
+}): SessionTranscriptFork {
+  const manager = SessionManager.open(params.sessionFile);
+  const path = manager.getBranch();
+  const totalMessages = path.filter(isConversationMessage).length;
+  if (totalMessages === 0) {
+    throw new Error("Transcript has no messages to fork.");
+  }
+  const requested = params.messageIndex ?? totalMessages;
+  const messageCount = requested < 0 ? totalMessages + requested : requested;
+  if (!Number.isInteger(messageCount) || messageCount < 1 || messageCount > totalMessages) {
+    throw new Error(
+      `Message index ${requested} is out of range (transcript has ${totalMessages} messages).`,
+    );
+  }
+
+  // Cut right before the next kept-out message so tool results of the last
+  // kept turn stay attached to it.
+  let seen = 0;
+  let leafId: string | undefined;
+  for (const entry of path) {
+    if (isConversationMessage(entry)) {
+      if (seen === messageCount) {
+        break;
+      }
+      seen += 1;
+    }
+    leafId = entry.id;
+  }
+  const sessionFile = leafId ? manager.createBranchedSession(leafId) : undefined;
+  if (!sessionFile) {
+    throw new Error("Failed to write the forked transcript.");
+  }
+  return { sessionId: manager.getSessionId(), sessionFile, messageCount, totalMessages };
+}
+
+/** Branches of a session, including the active transcript when it was never forked. */
+export function listSessionBranches(entry: SessionEntry): SessionBranch[] {
+  const branches = entry.branches ?? [];
+  if (branches.some((branch) => branch.sessionId === entry.sessionId)) {
+    return branches;
+  }
+  return [
+    ...branches,
+    { sessionId: entry.sessionId, sessionFile: entry.sessionFile, createdAt: entry.updatedAt },
+  ];
+}
+
+/** Branches ordered depth-first from their roots, for tree rendering. */
+export function buildSessionBranchTree(entry: SessionEntry): SessionBranchTreeNode[] {
+  const branches = listSessionBranches(entry);
+  const known = new Set(branches.map((branch) => branch.sessionId));
+  const nodes: SessionBranchTreeNode[] = [];
+  const visit = (parentSessionId: string | undefined, depth: number) => {
+    branches.forEach((branch, position) => {
+      const parent =
+        branch.parentSessionId && known.has(branch.parentSessionId)
+          ? branch.parentSessionId
+          : undefined;
+      if (parent !== parentSessionId) {
+        return;
+      }
+      nodes.push({
+        index: position + 1,
+        depth,
+        active: branch.sessionId === entry.sessionId,
+        branch,
+      });
+      visit(branch.sessionId, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return nodes;
+}
+
+/** Find a branch by 1-based list position, label, or (prefix of) session id. */
+export function resolveSessionBranch(entry: SessionEntry, ref: string): SessionBranch | undefined {
+  const branches = listSessionBranches(entry);
+  const trimmed = ref.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return branches[Number(trimmed) - 1];
+  }
+  const lowered = trimmed.toLowerCase();
+  const byLabel = branches.find((branch) => branch.label?.toLowerCase() === lowered);
+  if (byLabel) {
+    return byLabel;
+  }
+  const byId = branches.filter((branch) => branch.sessionId.startsWith(trimmed));
+  return byId.length === 1 ? byId[0] : undefined;
+}
+
+function activateSessionBranch(entry: SessionEntry, branch: SessionBranch): void {
+  entry.sessionId = branch.sessionId;
+  entry.sessionFile = branch.sessionFile;
+  // Token snapshots describe the previous transcript.
+  delete entry.inputTokens;
+  delete entry.outputTokens;
+  delete entry.totalTokens;
+  delete entry.totalTokensFresh;
+  entry.updatedAt = Date.now();
+}
+
+/** Record a fork as a child of the active branch and make it active. */
+export function applySessionFork(
+  entry: SessionEntry,
+  fork: SessionTranscriptFork,
+  label?: string,
+): SessionBranch {
+  const branch: SessionBranch = {
+    sessionId: fork.sessionId,
+    sessionFile: fork.sessionFile,
+    parentSessionId: entry.sessionId,
+    forkMessageCount: fork.messageCount,
+    ...(label?.trim() ? { label: label.trim() } : {}),
+    createdAt: Date.now(),
+  };
+  entry.branches = [...listSessionBranches(entry), branch];
+  activateSessionBranch(entry, branch);
+  return branch;
+}
+
+/** Make another branch active; returns false when it already is. */
+export function switchSessionBranch(entry: SessionEntry, branch: SessionBranch): boolean {
+  if (branch.sessionId === entry.sessionId) {
+    return false;
+  }
+  entry.branches = listSessionBranches(entry);
+  activateSessionBranch(entry, branch);
+  return true;
+}
@@ -65,6 +65,17 @@ export type AcpSessionRuntimeOptions = {
   backendExtras?: Record<string, string>;
 };
 
+export type SessionBranch = {
+  sessionId: string;
+  sessionFile?: string;
+  /** Transcript this branch was forked from; unset for the original transcript. */
+  parentSessionId?: string;
+  /** Number of parent messages (user + assistant) copied into the branch. */
+  forkMessageCount?: number;
+  label?: string;
+  createdAt: number;
+};
+
 export type SessionEntry = {
   /**
    * Last delivered heartbeat payload (used to suppress duplicate heartbeat notifications).
@@ -80,6 +91,11 @@ export type SessionEntry = {
   spawnedBy?: string;
   /** True after a thread/topic session has been forked from its parent transcript once. */
   forkedFromParent?: boolean;
+  /**
+   * Transcript branches created with /fork or sessions.fork. The active branch
+   * is the one whose sessionId matches this entry's sessionId.
+   */
+  branches?: SessionBranch[];
   /** Subagent spawn depth (0 = main, 1 = sub-agent, 2 = sub-sub-agent). */
   spawnDepth?: number;
   systemSent?: boolean;
@@ -1,7 +1,10 @@
 import type {
+  SandboxBackend,
   SandboxBrowserSettings,
+  SandboxBwrapSettings,
   SandboxDockerSettings,
   SandboxPruneSettings,
+  SandboxSnapshotSettings,
 } from "./types.sandbox.js";
 
 export type AgentModelConfig =
@@ -28,10 +31,16 @@ export type AgentSandboxConfig = {
   /** Legacy alias for scope ("session" when true, "shared" when false). */
   perSession?: boolean;
   workspaceRoot?: string;
+  /** Sandbox runtime: Docker containers (default) or rootless bubblewrap. */
+  backend?: SandboxBackend;
   /** Docker-specific sandbox settings. */
   docker?: SandboxDockerSettings;
+  /** Bubblewrap-specific sandbox settings (used when backend is "bwrap"). */
+  bwrap?: SandboxBwrapSettings;
   /** Optional sandboxed browser settings. */
   browser?: SandboxBrowserSettings;
   /** Auto-prune sandbox settings. */
   prune?: SandboxPruneSettings;
+  /** Per-run workspace snapshots for `/sandbox rollback`. */
+  snapshots?: SandboxSnapshotSettings;
 };
@@ -34,9 +34,31 @@ export type AgentConfig = {
   tools?: AgentToolsConfig;
 };
 
+export type AgentRouteClassifierConfig = {
+  /** Model for classifying inbound text against `match.intent` bindings (provider/model). */
+  model?: string;
+  /** Max time to wait for a classification before falling back to other bindings. Default: 5000. */
+  timeoutMs?: number;
+};
+
 export type AgentsConfig = {
   defaults?: AgentDefaultsConfig;
   list?: AgentConfig[];
+  /** LLM classifier used by bindings with `match.intent`. */
+  routeClassifier?: AgentRouteClassifierConfig;
+};
+
+export type AgentBindingWeekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export type AgentBindingSchedule = {
+  /** Start time (24h, HH:MM). Inclusive. */
+  start: string;
+  /** End time (24h, HH:MM). Exclusive; earlier than start wraps past midnight. */
+  end: string;
+  /** Days the window starts on. Omit = every day. */
+  days?: AgentBindingWeekday[];
+  /** Timezone for the window ("user", "local", or IANA TZ id). Default: "user". */
+  timezone?: string;
 };
 
 export type AgentBinding = {
@@ -50,5 +72,15 @@ export type AgentBinding = {
     teamId?: string;
     /** Discord role IDs used for role-based routing. */
     roles?: string[];
+    /** Case-insensitive regex tested against the inbound message text. */
+    text?: string;
+    /** Match when the inbound text contains any of these words (case-insensitive). */
+    keywords?: string[];
+    /** Only match messages from these sender ids. */
+    senders?: string[];
+    /** Only match inside this time window. */
+    schedule?: AgentBindingSchedule;
+    /** What messages this binding is for; decided by `agents.routeClassifier`. */
+    intent?: string;
   };
 };
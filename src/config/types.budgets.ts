@@ -0,0 +1,29 @@
+export type BudgetLimitConfig = {
+  /** Hard cap in USD per local calendar day. */
+  dailyUsd?: number;
+  /** Hard cap in USD per local calendar month. */
+  monthlyUsd?: number;
+  /** Percent of a cap at which to warn (and downgrade, when configured). Default: 80. */
+  warnPercent?: number;
+  /** Cheaper model ("provider/model") to switch to once past the warning threshold. */
+  downgradeModel?: string;
+};
+
+export type BudgetsConfig = {
+  /** Enable budget checks before agent runs. Default: true when any limit is configured. */
+  enabled?: boolean;
+  /** Limits keyed by agent id; "*" applies to every agent (tracked per agent). */
+  agents?: Record<string, BudgetLimitConfig>;
+  /**
+   * Limits keyed by "<channel>:<accountId>", "<channel>" or "*"; channel and
+   * wildcard entries apply to each account separately.
+   */
+  accounts?: Record<string, BudgetLimitConfig>;
+  /**
+   * Limits keyed by "<channel>:<senderId>", "<channel>" or "*"; channel and
+   * wildcard entries apply to each sender separately.
+   */
+  senders?: Record<string, BudgetLimitConfig>;
+  /** Limits applied to each session separately. */
+  session?: BudgetLimitConfig;
+};
@@ -1,6 +1,41 @@
+export type CronBlackoutWeekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export type CronBlackoutWindowConfig = {
+  /** Window start (24h, "HH:MM"). Inclusive. */
+  start: string;
+  /** Window end (24h, "HH:MM" or "24:00"). Exclusive; wraps past midnight when earlier than start. */
+  end: string;
+  /** Weekdays the window starts on (default: every day). */
+  days?: CronBlackoutWeekday[];
+};
+
+export type CronBlackoutConfig = {
+  /** Recurring quiet-hours windows. */
+  windows?: CronBlackoutWindowConfig[];
+  /** Path to an ICS calendar file whose events block runs (e.g. public holidays). */
+  calendar?: string;
+  /** IANA timezone for windows and all-day calendar events (default: host timezone). */
+  tz?: string;
+  /**
+   * What happens to runs that land in a blackout:
+   * - "defer": move the run to the end of the blackout (default)
+   * - "skip": record the run as skipped and wait for the next scheduled slot
+   */
+  mode?: "defer" | "skip";
+};
+
+export type CronStoreBackendKind = "json" | "sqlite";
+
 export type CronConfig = {
   enabled?: boolean;
   store?: string;
+  /**
+   * Where cron jobs are persisted:
+   * - "json": a single JSON file at `store` (default)
+   * - "sqlite": a SQLite database next to `store` (`jobs.sqlite`); safe to share
+   *   between gateways and imports the JSON file once on first start
+   */
+  storeBackend?: CronStoreBackendKind;
   maxConcurrentRuns?: number;
   /**
    * Deprecated legacy fallback webhook URL used only for stored jobs with notify=true.
@@ -23,4 +58,6 @@ export type CronConfig = {
     maxBytes?: number | string;
     keepLines?: number;
   };
+  /** Blackout rules applied to every job, in addition to per-job `blackout`. */
+  blackout?: CronBlackoutConfig;
 };
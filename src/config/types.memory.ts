@@ -3,6 +3,7 @@ import type { SessionSendPolicyConfig } from "./types.base.js";
 export type MemoryBackend = "builtin" | "qmd";
 export type MemoryCitationsMode = "auto" | "on" | "off";
 export type MemoryQmdSearchMode = "query" | "search" | "vsearch";
+export type MemoryRerankProvider = "local" | "remote" | "llm";
 
 export type MemoryConfig = {
   backend?: MemoryBackend;
@@ -65,3 +66,31 @@ export type MemoryQmdLimitsConfig = {
   maxInjectedChars?: number;
   timeoutMs?: number;
 };
+
+/** Optional rerank stage applied to builtin memory search hits (`memorySearch.query.rerank`). */
+export type MemoryRerankConfig = {
+  /** Enable reranking (default: false). */
+  enabled?: boolean;
+  /** Reranker: local GGUF cross-encoder, remote `/rerank` endpoint, or the agent's LLM as judge. */
+  provider?: MemoryRerankProvider;
+  /**
+   * Reranker model: GGUF path or hf: URI (local), model id sent to the endpoint (remote),
+   * or provider/model ref or alias (llm; default: the agent's primary model).
+   */
+  model?: string;
+  /** Top hits passed to the reranker; the rest keep their order (default: 20). */
+  candidates?: number;
+  /** Give up and keep the un-reranked order after this long (default: 5000; llm: 15000). */
+  timeoutMs?: number;
+  /** Remote rerank endpoint (Cohere/Jina/Voyage-compatible `POST /rerank`). */
+  remote?: {
+    baseUrl?: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+  };
+  /** Local reranker settings (node-llama-cpp). */
+  local?: {
+    /** Optional cache directory for local models. */
+    modelCacheDir?: string;
+  };
+};
@@ -18,6 +18,11 @@ export type QueueConfig = {
   debounceMsByChannel?: InboundDebounceByProvider;
   cap?: number;
   drop?: QueueDropPolicy;
+  /**
+   * How long (ms) a queued routine message may be overtaken by owner messages,
+   * control commands, mentions and cron wakes before it runs next (default: 60000).
+   */
+  priorityMaxWaitMs?: number;
 };
 
 export type InboundDebounceByProvider = Record<string, number>;
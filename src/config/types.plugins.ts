@@ -6,6 +6,12 @@ export type PluginEntryConfig = {
 export type PluginSlotsConfig = {
   /** Select which plugin owns the memory slot ("none" disables memory plugins). */
   memory?: string;
+  /** Plugin that replaces the built-in TTS providers (unset keeps the built-ins). */
+  tts?: string;
+  /** Plugin that backs the `web_search` tool (unset keeps the built-in providers). */
+  webSearch?: string;
+  /** Plugin that runs sandboxed sessions instead of Docker (unset keeps Docker). */
+  sandbox?: string;
 };
 
 export type PluginsLoadConfig = {
@@ -15,6 +21,15 @@ export type PluginsLoadConfig = {
 
 export type PluginInstallRecord = InstallRecordBase;
 
+export type PluginHookTraceConfig = {
+  /** Record every typed hook call with its plugin, priority, duration, and diff (default: false). */
+  enabled?: boolean;
+  /** Warn when one hook handler takes at least this long (default: 1000; 0 disables). */
+  slowMs?: number;
+  /** Trace entries kept in memory (default: 200). */
+  maxEntries?: number;
+};
+
 export type PluginsConfig = {
   /** Enable or disable plugin loading. */
   enabled?: boolean;
@@ -26,5 +41,6 @@ export type PluginsConfig = {
   slots?: PluginSlotsConfig;
   entries?: Record<string, PluginEntryConfig>;
   installs?: Record<string, PluginInstallRecord>;
+  hookTrace?: PluginHookTraceConfig;
 };
 import type { InstallRecordBase } from "./types.installs.js";
@@ -57,6 +57,48 @@ export type SandboxDockerSettings = {
    * Default behavior blocks container namespace joins to preserve sandbox isolation.
    */
   dangerouslyAllowContainerNamespaceJoin?: boolean;
+  /**
+   * HTTP(S) proxy that only lets sandboxed commands reach allowlisted hosts.
+   * Exec env gets `HTTP_PROXY`/`HTTPS_PROXY` pointed at it.
+   */
+  egress?: SandboxEgressSettings;
+};
+
+/** Domain allowlist enforced by the sandbox egress proxy. */
+export type SandboxEgressSettings = {
+  /** Hostnames reachable through the proxy; `*.example.com` matches subdomains only. */
+  allow?: string[];
+  /** Destination ports the proxy connects to (default: [80, 443]). */
+  ports?: number[];
+  /** Host address the proxy listens on (default: the sandbox network gateway). */
+  listenHost?: string;
+};
+
+/** Runtime that hosts sandboxed sessions. */
+export type SandboxBackend = "docker" | "bwrap";
+
+/**
+ * Bubblewrap backend settings. Mounts, network, env, tmpfs and resource limits
+ * still come from `sandbox.docker`.
+ */
+export type SandboxBwrapSettings = {
+  /** bubblewrap binary (default: `bwrap` on PATH). */
+  command?: string;
+  /**
+   * Host paths bound read-only to form the sandbox root (default: /usr, /bin,
+   * /sbin, /lib, /lib64 and the /etc files needed for DNS, TLS and the loader).
+   */
+  rootBinds?: string[];
+  /**
+   * Run each command in a transient `systemd-run --user --scope` so memory,
+   * cpus and pidsLimit become cgroup limits. Default: false (rlimits only).
+   */
+  systemdScope?: boolean;
+  /**
+   * Allow `docker.network: "bridge"`, which under bubblewrap shares the host
+   * network namespace (including loopback services). Default: false.
+   */
+  dangerouslyAllowHostNetwork?: boolean;
 };
 
 export type SandboxBrowserSettings = {
@@ -94,3 +136,14 @@ export type SandboxPruneSettings = {
   /** Prune if older than N days (0 disables). */
   maxAgeDays?: number;
 };
+
+export type SandboxSnapshotSettings = {
+  /** Snapshot the sandbox workspace at the start of each agent run (default: false). */
+  enabled?: boolean;
+  /** Snapshots kept per sandbox (default: 10, 0 keeps all). */
+  keep?: number;
+  /** Drop snapshots older than N days (default: 7, 0 disables). */
+  maxAgeDays?: number;
+  /** Skip snapshots when the workspace is larger than this many bytes (default: 256 MiB). */
+  maxBytes?: number;
+};
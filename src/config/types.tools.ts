@@ -1,6 +1,7 @@
 import type { ChatType } from "../channels/chat-type.js";
 import type { SafeBinProfileFixture } from "../infra/exec-safe-bin-policy.js";
 import type { AgentElevatedAllowFromConfig, SessionSendPolicyAction } from "./types.base.js";
+import type { MemoryRerankConfig } from "./types.memory.js";
 
 export type MediaUnderstandingScopeMatch = {
   channel?: string;
@@ -139,6 +140,26 @@ export type ToolLoopDetectionDetectorConfig = {
   pingPong?: boolean;
 };
 
+/**
+ * Recovery applied when a detector escalates to critical:
+ * - note: block the call and steer the agent with a corrective system note
+ * - switch-model: stop the attempt and continue on the next model fallback
+ * - ask-user: stop the run and ask the user how to proceed
+ * - abort: stop the run and reply with a loop summary
+ */
+export type ToolLoopRecoveryAction = "note" | "switch-model" | "ask-user" | "abort";
+
+export type ToolLoopRecoveryConfig = {
+  /** Recovery for repeated identical calls (escalates generic repeats to critical when set). */
+  genericRepeat?: ToolLoopRecoveryAction;
+  /** Recovery for known no-progress polling loops. */
+  knownPollNoProgress?: ToolLoopRecoveryAction;
+  /** Recovery for no-progress ping-pong alternating patterns. */
+  pingPong?: ToolLoopRecoveryAction;
+  /** Recovery for the global no-progress circuit breaker. */
+  globalCircuitBreaker?: ToolLoopRecoveryAction;
+};
+
 export type ToolLoopDetectionConfig = {
   /** Enable tool-loop protection (default: false). */
   enabled?: boolean;
@@ -152,6 +173,8 @@ export type ToolLoopDetectionConfig = {
   globalCircuitBreakerThreshold?: number;
   /** Detector toggles. */
   detectors?: ToolLoopDetectionDetectorConfig;
+  /** Per-detector recovery actions (default: block the looping call only). */
+  recovery?: ToolLoopRecoveryConfig;
 };
 
 export type SessionsToolsVisibility = "self" | "tree" | "agent" | "all";
@@ -407,6 +430,8 @@ export type MemorySearchConfig = {
         halfLifeDays?: number;
       };
     };
+    /** Optional rerank stage after hybrid merge, MMR and temporal decay. */
+    rerank?: MemoryRerankConfig;
   };
   /** Index cache behavior. */
   cache?: {
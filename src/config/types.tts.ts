@@ -1,4 +1,4 @@
-export type TtsProvider = "elevenlabs" | "openai" | "edge";
+export type TtsProvider = "elevenlabs" | "openai" | "edge" | "local";
 
 export type TtsMode = "final" | "all";
 
@@ -73,6 +73,24 @@ export type TtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  /** Offline TTS via a local command (Piper, espeak-ng, ...). */
+  local?: {
+    /** Executable to run; the provider is unavailable until this is set. */
+    command?: string;
+    /**
+     * Arguments; `{text}` is replaced with the text, otherwise it is written to
+     * stdin. Put `--` before `{text}` so text starting with "-" is not an option.
+     */
+    args?: string[];
+    /** Audio the command writes to stdout (default: wav; pcm = raw 16-bit mono). */
+    outputFormat?: "wav" | "pcm";
+    /** Sample rate of raw PCM output (default: 22050). */
+    sampleRate?: number;
+    /** ffmpeg binary used to transcode into the channel format (default: ffmpeg). */
+    ffmpegPath?: string;
+    /** Command timeout override (ms). */
+    timeoutMs?: number;
+  };
   /** Optional path for local TTS user preferences JSON. */
   prefsPath?: string;
   /** Hard cap for text sent to TTS (chars). */
@@ -4,6 +4,7 @@ import { CHANNEL_IDS, normalizeChatChannelId } from "../channels/registry.js";
 import {
   normalizePluginsConfig,
   resolveEffectiveEnableState,
+  resolveExclusiveSlotDecision,
   resolveMemorySlotDecision,
 } from "../plugins/config-state.js";
 import { loadPluginManifestRegistry } from "../plugins/manifest-registry.js";
@@ -376,6 +377,12 @@ function validateConfigObjectWithPluginsBase(
   if (typeof memorySlot === "string" && memorySlot.trim() && !knownIds.has(memorySlot)) {
     pushMissingPluginIssue("plugins.slots.memory", memorySlot);
   }
+  for (const slotKey of ["tts", "webSearch", "sandbox"] as const) {
+    const slotId = normalizedPlugins.slots[slotKey];
+    if (typeof slotId === "string" && !knownIds.has(slotId)) {
+      pushMissingPluginIssue(`plugins.slots.${slotKey}`, slotId);
+    }
+  }
 
   let selectedMemoryPluginId: string | null = null;
   const seenPlugins = new Set<string>();
@@ -411,6 +418,15 @@ function validateConfigObjectWithPluginsBase(
       if (memoryDecision.selected && record.kind === "memory") {
         selectedMemoryPluginId = pluginId;
       }
+      const slotDecision = resolveExclusiveSlotDecision({
+        id: pluginId,
+        kind: record.kind,
+        slots: normalizedPlugins.slots,
+      });
+      if (enabled && !slotDecision.enabled) {
+        enabled = false;
+        reason = slotDecision.reason;
+      }
     }
 
     const shouldValidate = enabled || entryHasConfig;
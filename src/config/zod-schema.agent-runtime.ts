@@ -1,5 +1,9 @@
 import { z } from "zod";
-import { getBlockedNetworkModeReason } from "../agents/sandbox/network-mode.js";
+import {
+  getBlockedNetworkModeReason,
+  getEgressNetworkBlockReason,
+  normalizeEgressAllowEntry,
+} from "../agents/sandbox/network-mode.js";
 import { parseDurationMs } from "../cli/parse-duration.js";
 import { AgentModelSchema } from "./zod-schema.agent-model.js";
 import {
@@ -90,6 +94,26 @@ export const HeartbeatSchema = z
   })
   .optional();
 
+export const SandboxEgressSchema = z
+  .object({
+    allow: z.array(z.string()).optional(),
+    ports: z.array(z.number().int().min(1).max(65535)).optional(),
+    listenHost: z.string().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    for (let i = 0; i < (data.allow?.length ?? 0); i += 1) {
+      const entry = data.allow?.[i] ?? "";
+      if (!normalizeEgressAllowEntry(entry)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["allow", i],
+          message: `Sandbox egress allowlist entry "${entry}" must be a hostname like "example.com" or "*.example.com".`,
+        });
+      }
+    }
+  });
+
 export const SandboxDockerSchema = z
   .object({
     image: z.string().optional(),
@@ -129,6 +153,7 @@ export const SandboxDockerSchema = z
     dangerouslyAllowReservedContainerTargets: z.boolean().optional(),
     dangerouslyAllowExternalBindSources: z.boolean().optional(),
     dangerouslyAllowContainerNamespaceJoin: z.boolean().optional(),
+    egress: SandboxEgressSchema.optional(),
   })
   .strict()
   .superRefine((data, ctx) => {
@@ -177,6 +202,33 @@ export const SandboxDockerSchema = z
           "Use a custom bridge network, or set dangerouslyAllowContainerNamespaceJoin=true only when you fully trust this runtime.",
       });
     }
+    if (data.egress && data.network !== undefined) {
+      const egressNetworkReason = getEgressNetworkBlockReason(data.network);
+      if (egressNetworkReason === "none") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["egress"],
+          message:
+            'Sandbox egress proxy is unreachable with network "none". Use an internal Docker network.',
+        });
+      }
+      if (egressNetworkReason === "bridge") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["egress"],
+          message:
+            'Sandbox egress proxy is bypassed by network "bridge" (not internal; the host network under bwrap). Use an internal Docker network.',
+        });
+      }
+      if (egressNetworkReason === "container_namespace_join") {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["egress"],
+          message:
+            'Sandbox egress proxy is bypassed by network mode "container:*". Use an internal Docker network.',
+        });
+      }
+    }
     if (data.seccompProfile?.trim().toLowerCase() === "unconfined") {
       ctx.addIssue({
         code: z.ZodIssueCode.custom,
@@ -228,6 +280,28 @@ export const SandboxBrowserSchema = z
   .strict()
   .optional();
 
+export const SandboxBwrapSchema = z
+  .object({
+    command: z.string().optional(),
+    rootBinds: z.array(z.string()).optional(),
+    systemdScope: z.boolean().optional(),
+    dangerouslyAllowHostNetwork: z.boolean().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    for (let i = 0; i < (data.rootBinds?.length ?? 0); i += 1) {
+      const root = data.rootBinds?.[i]?.trim() ?? "";
+      if (!root.startsWith("/")) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rootBinds", i],
+          message: `Sandbox bwrap root bind "${root}" must be an absolute host path.`,
+        });
+      }
+    }
+  })
+  .optional();
+
 export const SandboxPruneSchema = z
   .object({
     idleHours: z.number().int().nonnegative().optional(),
@@ -236,6 +310,16 @@ export const SandboxPruneSchema = z
   .strict()
   .optional();
 
+export const SandboxSnapshotSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    keep: z.number().int().nonnegative().optional(),
+    maxAgeDays: z.number().int().nonnegative().optional(),
+    maxBytes: z.number().int().positive().optional(),
+  })
+  .strict()
+  .optional();
+
 const ToolPolicyBaseSchema = z
   .object({
     allow: z.array(z.string()).optional(),
@@ -430,6 +514,20 @@ const ToolLoopDetectionDetectorSchema = z
   .strict()
   .optional();
 
+const ToolLoopRecoveryActionSchema = z
+  .union([z.literal("note"), z.literal("switch-model"), z.literal("ask-user"), z.literal("abort")])
+  .optional();
+
+const ToolLoopRecoverySchema = z
+  .object({
+    genericRepeat: ToolLoopRecoveryActionSchema,
+    knownPollNoProgress: ToolLoopRecoveryActionSchema,
+    pingPong: ToolLoopRecoveryActionSchema,
+    globalCircuitBreaker: ToolLoopRecoveryActionSchema,
+  })
+  .strict()
+  .optional();
+
 const ToolLoopDetectionSchema = z
   .object({
     enabled: z.boolean().optional(),
@@ -438,6 +536,7 @@ const ToolLoopDetectionSchema = z
     criticalThreshold: z.number().int().positive().optional(),
     globalCircuitBreakerThreshold: z.number().int().positive().optional(),
     detectors: ToolLoopDetectionDetectorSchema,
+    recovery: ToolLoopRecoverySchema,
   })
   .strict()
   .superRefine((value, ctx) => {
@@ -475,9 +574,12 @@ export const AgentSandboxSchema = z
     scope: z.union([z.literal("session"), z.literal("agent"), z.literal("shared")]).optional(),
     perSession: z.boolean().optional(),
     workspaceRoot: z.string().optional(),
+    backend: z.union([z.literal("docker"), z.literal("bwrap")]).optional(),
     docker: SandboxDockerSchema,
+    bwrap: SandboxBwrapSchema,
     browser: SandboxBrowserSchema,
     prune: SandboxPruneSchema,
+    snapshots: SandboxSnapshotSchema,
   })
   .strict()
   .superRefine((data, ctx) => {
@@ -656,6 +758,32 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        rerank: z
+          .object({
+            enabled: z.boolean().optional(),
+            provider: z
+              .union([z.literal("local"), z.literal("remote"), z.literal("llm")])
+              .optional(),
+            model: z.string().optional(),
+            candidates: z.number().int().positive().optional(),
+            timeoutMs: z.number().int().positive().optional(),
+            remote: z
+              .object({
+                baseUrl: z.string().optional(),
+                apiKey: z.string().optional().register(sensitive),
+                headers: z.record(z.string(), z.string()).optional(),
+              })
+              .strict()
+              .optional(),
+            local: z
+              .object({
+                modelCacheDir: z.string().optional(),
+              })
+              .strict()
+              .optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
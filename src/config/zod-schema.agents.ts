@@ -1,12 +1,36 @@
 import { z } from "zod";
+import { compileSafeRegex } from "../security/safe-regex.js";
 import { AgentDefaultsSchema } from "./zod-schema.agent-defaults.js";
 import { AgentEntrySchema } from "./zod-schema.agent-runtime.js";
 import { TranscribeAudioSchema } from "./zod-schema.core.js";
 
+const BindingTimeSchema = z
+  .string()
+  .regex(/^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/, 'invalid time (use "HH:MM" 24h format)');
+
+const BindingScheduleSchema = z
+  .object({
+    start: BindingTimeSchema,
+    end: BindingTimeSchema,
+    days: z
+      .array(z.enum(["mon", "tue", "wed", "thu", "fri", "sat", "sun"]))
+      .min(1)
+      .optional(),
+    timezone: z.string().optional(),
+  })
+  .strict();
+
 export const AgentsSchema = z
   .object({
     defaults: z.lazy(() => AgentDefaultsSchema).optional(),
     list: z.array(AgentEntrySchema).optional(),
+    routeClassifier: z
+      .object({
+        model: z.string().optional(),
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
@@ -37,6 +61,16 @@ export const BindingsSchema = z
             guildId: z.string().optional(),
             teamId: z.string().optional(),
             roles: z.array(z.string()).optional(),
+            text: z
+              .string()
+              .refine((value) => compileSafeRegex(value, "i") !== null, {
+                message: "invalid or unsafe regex",
+              })
+              .optional(),
+            keywords: z.array(z.string().min(1)).optional(),
+            senders: z.array(z.string().min(1)).optional(),
+            schedule: BindingScheduleSchema.optional(),
+            intent: z.string().min(1).optional(),
           })
           .strict(),
       })
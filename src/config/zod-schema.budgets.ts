@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const BudgetLimitSchema = z
+  .object({
+    dailyUsd: z.number().nonnegative().optional(),
+    monthlyUsd: z.number().nonnegative().optional(),
+    warnPercent: z.number().positive().max(100).optional(),
+    downgradeModel: z.string().min(1).optional(),
+  })
+  .strict();
+
+export const BudgetsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    agents: z.record(z.string(), BudgetLimitSchema).optional(),
+    accounts: z.record(z.string(), BudgetLimitSchema).optional(),
+    senders: z.record(z.string(), BudgetLimitSchema).optional(),
+    session: BudgetLimitSchema.optional(),
+  })
+  .strict()
+  .optional();
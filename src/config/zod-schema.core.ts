@@ -353,7 +353,7 @@ export const MarkdownConfigSchema = z
   .strict()
   .optional();
 
-export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge"]);
+export const TtsProviderSchema = z.enum(["elevenlabs", "openai", "edge", "local"]);
 export const TtsModeSchema = z.enum(["final", "all"]);
 export const TtsAutoSchema = z.enum(["off", "always", "inbound", "tagged"]);
 export const TtsConfigSchema = z
@@ -421,6 +421,17 @@ export const TtsConfigSchema = z
       })
       .strict()
       .optional(),
+    local: z
+      .object({
+        command: z.string().optional(),
+        args: z.array(z.string()).optional(),
+        outputFormat: z.enum(["wav", "pcm"]).optional(),
+        sampleRate: z.number().int().min(8000).max(96000).optional(),
+        ffmpegPath: z.string().optional(),
+        timeoutMs: z.number().int().min(1000).max(120000).optional(),
+      })
+      .strict()
+      .optional(),
     prefsPath: z.string().optional(),
     maxTextLength: z.number().int().min(1).optional(),
     timeoutMs: z.number().int().min(1000).max(120000).optional(),
@@ -578,6 +589,7 @@ export const QueueSchema = z
     debounceMsByChannel: DebounceMsBySurfaceSchema,
     cap: z.number().int().positive().optional(),
     drop: QueueDropSchema.optional(),
+    priorityMaxWaitMs: z.number().int().nonnegative().optional(),
   })
   .strict()
   .optional();
@@ -37,4 +37,25 @@ describe("OpenClawSchema cron retention and run-log validation", () => {
       }),
     ).toThrow(/runLog|maxBytes|size/i);
   });
+
+  it("validates cron.blackout windows", () => {
+    expect(() =>
+      OpenClawSchema.parse({
+        cron: {
+          blackout: {
+            windows: [{ start: "22:00", end: "24:00", days: ["fri", "sat"] }],
+            calendar: "~/holidays.ics",
+            mode: "skip",
+          },
+        },
+      }),
+    ).not.toThrow();
+    expect(() =>
+      OpenClawSchema.parse({
+        cron: {
+          blackout: { windows: [{ start: "10pm", end: "07:00" }] },
+        },
+      }),
+    ).toThrow(/HH:MM/);
+  });
 });
@@ -4,6 +4,7 @@ import { parseDurationMs } from "../cli/parse-duration.js";
 import { ToolsSchema } from "./zod-schema.agent-runtime.js";
 import { AgentsSchema, AudioSchema, BindingsSchema, BroadcastSchema } from "./zod-schema.agents.js";
 import { ApprovalsSchema } from "./zod-schema.approvals.js";
+import { BudgetsSchema } from "./zod-schema.budgets.js";
 import {
   HexColorSchema,
   ModelsConfigSchema,
@@ -368,11 +369,13 @@ export const OpenClawSchema = z
     messages: MessagesSchema,
     commands: CommandsSchema,
     approvals: ApprovalsSchema,
+    budgets: BudgetsSchema,
     session: SessionSchema,
     cron: z
       .object({
         enabled: z.boolean().optional(),
         store: z.string().optional(),
+        storeBackend: z.union([z.literal("json"), z.literal("sqlite")]).optional(),
         maxConcurrentRuns: z.number().int().positive().optional(),
         webhook: HttpUrlSchema.optional(),
         webhookToken: z.string().optional().register(sensitive),
@@ -384,6 +387,31 @@ export const OpenClawSchema = z
           })
           .strict()
           .optional(),
+        blackout: z
+          .object({
+            windows: z
+              .array(
+                z
+                  .object({
+                    start: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, {
+                      message: 'invalid time (use "HH:MM" 24h format)',
+                    }),
+                    end: z.string().regex(/^(([01]\d|2[0-3]):([0-5]\d)|24:00)$/, {
+                      message: 'invalid time (use "HH:MM" 24h format)',
+                    }),
+                    days: z
+                      .array(z.enum(["sun", "mon", "tue", "wed", "thu", "fri", "sat"]))
+                      .optional(),
+                  })
+                  .strict(),
+              )
+              .optional(),
+            calendar: z.string().optional(),
+            tz: z.string().optional(),
+            mode: z.union([z.literal("defer"), z.literal("skip")]).optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .superRefine((val, ctx) => {
@@ -751,6 +779,9 @@ export const OpenClawSchema = z
         slots: z
           .object({
             memory: z.string().optional(),
+            tts: z.string().optional(),
+            webSearch: z.string().optional(),
+            sandbox: z.string().optional(),
           })
           .strict()
           .optional(),
@@ -775,6 +806,14 @@ export const OpenClawSchema = z
               .strict(),
           )
           .optional(),
+        hookTrace: z
+          .object({
+            enabled: z.boolean().optional(),
+            slowMs: z.number().int().nonnegative().optional(),
+            maxEntries: z.number().int().positive().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
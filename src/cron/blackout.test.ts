@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  findCronBlackout,
+  loadCronBlackoutCalendar,
+  parseIcsCalendar,
+  resolveCronBlackoutRules,
+} from "./blackout.js";
+import { deferPastCronBlackouts } from "./schedule.js";
+
+const HOLIDAYS_ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20241225",
+  "DTEND;VALUE=DATE:20241226",
+  "RRULE:FREQ=YEARLY",
+  "SUMMARY:Christmas Day",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART:20250610T120000Z",
+  "DTEND:20250610T140000Z",
+  "SUMMARY:Offsite\\, all hands",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20250704",
+  "STATUS:CANCELLED",
+  "SUMMARY:Cancelled",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("cron blackout", () => {
+  it("parses all-day, timed, and recurring ICS events", () => {
+    const events = parseIcsCalendar(HOLIDAYS_ICS);
+    expect(events.map((event) => [event.summary, event.yearly])).toEqual([
+      ["Christmas Day", true],
+      ["Offsite, all hands", false],
+    ]);
+    expect(events[1]?.start).toMatchObject({ minutes: 12 * 60, dateOnly: false, zone: "UTC" });
+  });
+
+  it("unfolds continuation lines", () => {
+    const [event] = parseIcsCalendar(
+      "BEGIN:VEVENT\nDTSTART;VALUE=DATE:20250101\nSUMMARY:New\n  Year\nEND:VEVENT\n",
+    );
+    expect(event?.summary).toBe("New Year");
+    expect(event?.end).toMatchObject({ year: 2025, month: 1, day: 2 });
+  });
+
+  it("matches windows that wrap past midnight", () => {
+    const rules = resolveCronBlackoutRules([
+      { windows: [{ start: "22:00", end: "07:00" }], tz: "UTC" },
+    ]);
+    expect(findCronBlackout(rules, Date.parse("2025-06-10T23:30:00Z"))).toEqual({
+      mode: "defer",
+      reason: "quiet hours 22:00-07:00",
+      untilMs: Date.parse("2025-06-11T07:00:00Z"),
+    });
+    expect(findCronBlackout(rules, Date.parse("2025-06-11T03:00:00Z"))?.untilMs).toBe(
+      Date.parse("2025-06-11T07:00:00Z"),
+    );
+    expect(findCronBlackout(rules, Date.parse("2025-06-11T07:00:00Z"))).toBeUndefined();
+  });
+
+  it("limits windows to the weekdays they start on", () => {
+    // 2025-06-13 is a Friday.
+    const rules = resolveCronBlackoutRules([
+      { windows: [{ start: "20:00", end: "08:00", days: ["fri"] }], tz: "UTC" },
+    ]);
+    expect(findCronBlackout(rules, Date.parse("2025-06-14T02:00:00Z"))).toBeDefined();
+    expect(findCronBlackout(rules, Date.parse("2025-06-15T02:00:00Z"))).toBeUndefined();
+  });
+
+  it("evaluates windows in the configured timezone", () => {
+    const rules = resolveCronBlackoutRules([
+      { windows: [{ start: "22:00", end: "07:00" }], tz: "America/New_York" },
+    ]);
+    // 03:00 UTC is 23:00 in New York (EDT).
+    expect(findCronBlackout(rules, Date.parse("2025-06-11T03:00:00Z"))?.untilMs).toBe(
+      Date.parse("2025-06-11T11:00:00Z"),
+    );
+    expect(findCronBlackout(rules, Date.parse("2025-06-11T12:00:00Z"))).toBeUndefined();
+  });
+
+  it("blocks yearly calendar events in later years", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-blackout-"));
+    try {
+      const calendar = path.join(dir, "holidays.ics");
+      await fs.writeFile(calendar, HOLIDAYS_ICS, "utf-8");
+      const rules = resolveCronBlackoutRules([{ calendar, tz: "UTC" }]);
+      expect(findCronBlackout(rules, Date.parse("2026-12-25T09:00:00Z"))).toEqual({
+        mode: "defer",
+        reason: "calendar: Christmas Day",
+        untilMs: Date.parse("2026-12-26T00:00:00Z"),
+      });
+      expect(findCronBlackout(rules, Date.parse("2026-12-26T09:00:00Z"))).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports unreadable calendars once and blocks nothing", () => {
+    const errors: string[] = [];
+    const missing = path.join(os.tmpdir(), "openclaw-cron-missing-calendar.ics");
+    const onError = (file: string) => errors.push(file);
+    expect(loadCronBlackoutCalendar(missing, onError)).toEqual([]);
+    expect(loadCronBlackoutCalendar(missing, onError)).toEqual([]);
+    expect(errors).toEqual([missing]);
+  });
+
+  it("defers across back-to-back blackouts and ignores skip-mode rules", () => {
+    const rules = resolveCronBlackoutRules([
+      { windows: [{ start: "22:00", end: "07:00" }], tz: "UTC" },
+      { windows: [{ start: "07:00", end: "08:30" }], tz: "UTC" },
+      { windows: [{ start: "12:00", end: "13:00" }], tz: "UTC", mode: "skip" },
+    ]);
+    expect(deferPastCronBlackouts(Date.parse("2025-06-10T23:00:00Z"), rules)).toEqual({
+      nextRunAtMs: Date.parse("2025-06-11T08:30:00Z"),
+      reason: "quiet hours 22:00-07:00",
+    });
+    expect(deferPastCronBlackouts(Date.parse("2025-06-11T12:30:00Z"), rules)).toBeUndefined();
+  });
+});
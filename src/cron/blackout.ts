@@ -0,0 +1,434 @@
+import fs from "node:fs";
+import type { CronBlackoutConfig, CronBlackoutWeekday } from "../config/types.cron.js";
+import { resolveUserPath } from "../utils.js";
+
+export const CRON_BLACKOUT_WEEKDAYS: readonly CronBlackoutWeekday[] = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+];
+
+const BLACKOUT_TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/;
+const MINUTES_PER_DAY = 24 * 60;
+const ZONED_WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type CronBlackoutMode = "defer" | "skip";
+
+export type CronCalendarDate = {
+  year: number;
+  month: number;
+  day: number;
+  /** Minutes after local midnight. */
+  minutes: number;
+  seconds: number;
+  dateOnly: boolean;
+  /** `"UTC"` for `Z` timestamps, the TZID for zoned ones, unset for floating times. */
+  zone?: string;
+};
+
+export type CronCalendarEvent = {
+  start: CronCalendarDate;
+  end: CronCalendarDate;
+  summary?: string;
+  /** `RRULE:FREQ=YEARLY` events (e.g. fixed-date holidays). */
+  yearly: boolean;
+};
+
+type CronBlackoutWindow = {
+  startMin: number;
+  endMin: number;
+  days?: ReadonlySet<number>;
+  label: string;
+};
+
+export type CronBlackoutRule = {
+  mode: CronBlackoutMode;
+  timeZone: string;
+  windows: CronBlackoutWindow[];
+  events: CronCalendarEvent[];
+};
+
+export type CronBlackoutMatch = {
+  mode: CronBlackoutMode;
+  reason: string;
+  /** First instant after the blackout. */
+  untilMs: number;
+};
+
+type ZonedClock = {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  minutes: number;
+  seconds: number;
+};
+
+/** Parse `HH:MM` into minutes after midnight; `24:00` is only valid as an end. */
+export function parseCronBlackoutTime(raw: unknown, opts: { allow24: boolean }): number | null {
+  if (typeof raw !== "string" || !BLACKOUT_TIME_PATTERN.test(raw)) {
+    return null;
+  }
+  const [hourStr, minuteStr] = raw.split(":");
+  const minutes = Number(hourStr) * 60 + Number(minuteStr);
+  if (minutes === MINUTES_PER_DAY && !opts.allow24) {
+    return null;
+  }
+  return minutes;
+}
+
+export function isValidCronBlackoutTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone }).format(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveBlackoutTimezone(tz?: string): string {
+  const trimmed = tz?.trim();
+  if (trimmed && trimmed !== "local" && isValidCronBlackoutTimezone(trimmed)) {
+    return trimmed;
+  }
+  return Intl.DateTimeFormat().resolvedOptions().timeZone?.trim() || "UTC";
+}
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function readZonedClock(atMs: number, timeZone: string): ZonedClock {
+  let formatter = clockFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    clockFormatters.set(timeZone, formatter);
+  }
+  const map: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(atMs))) {
+    if (part.type !== "literal") {
+      map[part.type] = part.value;
+    }
+  }
+  return {
+    year: Number(map.year),
+    month: Number(map.month),
+    day: Number(map.day),
+    weekday: ZONED_WEEKDAYS.indexOf(map.weekday ?? ""),
+    minutes: Number(map.hour) * 60 + Number(map.minute),
+    seconds: Number(map.second),
+  };
+}
+
+function zoneOffsetMs(atMs: number, timeZone: string): number {
+  const clock = readZonedClock(atMs, timeZone);
+  const localAsUtc = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    0,
+    clock.minutes,
+    clock.seconds,
+  );
+  return localAsUtc - Math.floor(atMs / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in `timeZone` to epoch ms. `minutes` may exceed
+ * one day; the date rolls forward accordingly.
+ */
+function zonedTimeToUtcMs(
+  date: { year: number; month: number; day: number },
+  minutes: number,
+  seconds: number,
+  timeZone: string,
+): number {
+  const localAsUtc = Date.UTC(date.year, date.month - 1, date.day, 0, minutes, seconds);
+  const guess = localAsUtc - zoneOffsetMs(localAsUtc, timeZone);
+  return localAsUtc - zoneOffsetMs(guess, timeZone);
+}
+
+function calendarDateToMs(value: CronCalendarDate, timeZone: string, yearOffset = 0): number {
+  const date = { year: value.year + yearOffset, month: value.month, day: value.day };
+  if (value.zone === "UTC") {
+    return Date.UTC(date.year, date.month - 1, date.day, 0, value.minutes, value.seconds);
+  }
+  const zone = value.zone && isValidCronBlackoutTimezone(value.zone) ? value.zone : timeZone;
+  return zonedTimeToUtcMs(date, value.minutes, value.seconds, zone);
+}
+
+function parseBlackoutWindows(config: CronBlackoutConfig): CronBlackoutWindow[] {
+  const windows: CronBlackoutWindow[] = [];
+  for (const window of config.windows ?? []) {
+    const startMin = parseCronBlackoutTime(window?.start, { allow24: false });
+    const endMin = parseCronBlackoutTime(window?.end, { allow24: true });
+    if (startMin === null || endMin === null || startMin === endMin) {
+      continue;
+    }
+    const days = Array.isArray(window.days)
+      ? new Set(window.days.map((day) => CRON_BLACKOUT_WEEKDAYS.indexOf(day)).filter((i) => i >= 0))
+      : undefined;
+    windows.push({
+      startMin,
+      endMin,
+      days,
+      label: `quiet hours ${window.start}-${window.end}`,
+    });
+  }
+  return windows;
+}
+
+function matchWindow(
+  window: CronBlackoutWindow,
+  clock: ZonedClock,
+  atMs: number,
+  timeZone: string,
+): number | undefined {
+  const startsOn = (weekday: number) => !window.days || window.days.has(weekday);
+  let endMinutes: number | undefined;
+  if (window.startMin < window.endMin) {
+    if (
+      clock.minutes >= window.startMin &&
+      clock.minutes < window.endMin &&
+      startsOn(clock.weekday)
+    ) {
+      endMinutes = window.endMin;
+    }
+  } else if (clock.minutes >= window.startMin && startsOn(clock.weekday)) {
+    endMinutes = window.endMin + MINUTES_PER_DAY;
+  } else if (clock.minutes < window.endMin && startsOn((clock.weekday + 6) % 7)) {
+    endMinutes = window.endMin;
+  }
+  if (endMinutes === undefined) {
+    return undefined;
+  }
+  const untilMs = zonedTimeToUtcMs(clock, endMinutes, 0, timeZone);
+  // DST transitions can land the computed end at or before `atMs`; always
+  // make progress so callers looping over blackouts terminate.
+  return untilMs > atMs ? untilMs : atMs + 60_000;
+}
+
+function matchEvent(event: CronCalendarEvent, atMs: number, timeZone: string): number | undefined {
+  if (!event.yearly) {
+    const startMs = calendarDateToMs(event.start, timeZone);
+    const endMs = calendarDateToMs(event.end, timeZone);
+    return atMs >= startMs && atMs < endMs ? endMs : undefined;
+  }
+  const spanYears = Math.max(0, event.end.year - event.start.year);
+  const year = new Date(atMs).getUTCFullYear();
+  for (let occurrence = year - 1 - spanYears; occurrence <= year + 1; occurrence += 1) {
+    const offset = occurrence - event.start.year;
+    if (offset < 0) {
+      continue;
+    }
+    const startMs = calendarDateToMs(event.start, timeZone, offset);
+    const endMs = calendarDateToMs(event.end, timeZone, offset);
+    if (atMs >= startMs && atMs < endMs) {
+      return endMs;
+    }
+  }
+  return undefined;
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+}
+
+const ICS_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+function parseIcsDate(value: string, params: Record<string, string>): CronCalendarDate | null {
+  const match = ICS_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const dateOnly = match[4] === undefined;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    minutes: dateOnly ? 0 : Number(match[4]) * 60 + Number(match[5]),
+    seconds: dateOnly ? 0 : Number(match[6]),
+    dateOnly,
+    zone: match[7] ? "UTC" : dateOnly ? undefined : params.TZID?.replace(/^"|"$/g, ""),
+  };
+}
+
+/**
+ * Parse the VEVENTs of an ICS calendar. Supports DATE and DATE-TIME
+ * (UTC, TZID, floating) DTSTART/DTEND and `RRULE:FREQ=YEARLY`; other
+ * recurrence rules are treated as single occurrences.
+ */
+export function parseIcsCalendar(text: string): CronCalendarEvent[] {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else {
+      lines.push(raw);
+    }
+  }
+
+  const events: CronCalendarEvent[] = [];
+  let current: {
+    start?: CronCalendarDate;
+    end?: CronCalendarDate;
+    summary?: string;
+    yearly: boolean;
+    cancelled: boolean;
+  } | null = null;
+  for (const line of lines) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) {
+      continue;
+    }
+    const [rawName = "", ...rawParams] = line.slice(0, colon).split(";");
+    const name = rawName.trim().toUpperCase();
+    const value = line.slice(colon + 1);
+    if (name === "BEGIN" && value.trim().toUpperCase() === "VEVENT") {
+      current = { yearly: false, cancelled: false };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    if (name === "END" && value.trim().toUpperCase() === "VEVENT") {
+      const { start, cancelled } = current;
+      if (start && !cancelled) {
+        const end =
+          current.end ?? (start.dateOnly ? { ...start, day: start.day + 1 } : { ...start });
+        events.push({ start, end, summary: current.summary, yearly: current.yearly });
+      }
+      current = null;
+      continue;
+    }
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const eq = param.indexOf("=");
+      if (eq > 0) {
+        params[param.slice(0, eq).trim().toUpperCase()] = param.slice(eq + 1).trim();
+      }
+    }
+    if (name === "DTSTART") {
+      current.start = parseIcsDate(value, params) ?? undefined;
+    } else if (name === "DTEND") {
+      current.end = parseIcsDate(value, params) ?? undefined;
+    } else if (name === "SUMMARY") {
+      current.summary = unescapeIcsText(value).trim() || undefined;
+    } else if (name === "RRULE") {
+      current.yearly = /(?:^|;)FREQ=YEARLY(?:;|$)/i.test(value.trim());
+    } else if (name === "STATUS") {
+      current.cancelled = value.trim().toUpperCase() === "CANCELLED";
+    }
+  }
+  return events;
+}
+
+type CalendarCacheEntry =
+  | { mtimeMs: number; size: number; events: CronCalendarEvent[] }
+  | { error: string };
+
+const calendarCache = new Map<string, CalendarCacheEntry>();
+
+/**
+ * Load an ICS calendar, re-reading it only when its mtime or size changes.
+ * Unreadable files block nothing; `onError` fires once per distinct failure.
+ */
+export function loadCronBlackoutCalendar(
+  file: string,
+  onError?: (path: string, err: unknown) => void,
+): CronCalendarEvent[] {
+  const resolved = resolveUserPath(file);
+  const cached = calendarCache.get(resolved);
+  try {
+    const stat = fs.statSync(resolved);
+    if (
+      cached &&
+      "events" in cached &&
+      cached.mtimeMs === stat.mtimeMs &&
+      cached.size === stat.size
+    ) {
+      return cached.events;
+    }
+    const events = parseIcsCalendar(fs.readFileSync(resolved, "utf-8"));
+    calendarCache.set(resolved, { mtimeMs: stat.mtimeMs, size: stat.size, events });
+    return events;
+  } catch (err) {
+    const error = String(err);
+    if (!cached || !("error" in cached) || cached.error !== error) {
+      calendarCache.set(resolved, { error });
+      onError?.(resolved, err);
+    }
+    return [];
+  }
+}
+
+/** Resolve blackout configs (global first, then per-job) into evaluable rules. */
+export function resolveCronBlackoutRules(
+  configs: ReadonlyArray<CronBlackoutConfig | null | undefined>,
+  opts?: { onCalendarError?: (path: string, err: unknown) => void },
+): CronBlackoutRule[] {
+  const rules: CronBlackoutRule[] = [];
+  for (const config of configs) {
+    if (!config) {
+      continue;
+    }
+    const windows = parseBlackoutWindows(config);
+    const calendar = config.calendar?.trim();
+    const events = calendar ? loadCronBlackoutCalendar(calendar, opts?.onCalendarError) : [];
+    if (windows.length === 0 && events.length === 0) {
+      continue;
+    }
+    rules.push({
+      mode: config.mode === "skip" ? "skip" : "defer",
+      timeZone: resolveBlackoutTimezone(config.tz),
+      windows,
+      events,
+    });
+  }
+  return rules;
+}
+
+/** Return the first blackout covering `atMs`, optionally limited to one mode. */
+export function findCronBlackout(
+  rules: readonly CronBlackoutRule[],
+  atMs: number,
+  opts?: { mode?: CronBlackoutMode },
+): CronBlackoutMatch | undefined {
+  for (const rule of rules) {
+    if (opts?.mode && rule.mode !== opts.mode) {
+      continue;
+    }
+    if (rule.windows.length > 0) {
+      const clock = readZonedClock(atMs, rule.timeZone);
+      for (const window of rule.windows) {
+        const untilMs = matchWindow(window, clock, atMs, rule.timeZone);
+        if (untilMs !== undefined) {
+          return { mode: rule.mode, reason: window.label, untilMs };
+        }
+      }
+    }
+    for (const event of rule.events) {
+      const untilMs = matchEvent(event, atMs, rule.timeZone);
+      if (untilMs !== undefined) {
+        return {
+          mode: rule.mode,
+          reason: event.summary ? `calendar: ${event.summary}` : "calendar event",
+          untilMs,
+        };
+      }
+    }
+  }
+  return undefined;
+}
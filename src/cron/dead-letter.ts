@@ -0,0 +1,56 @@
+import { createOutboundSendDeps, type CliDeps } from "../cli/deps.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { deliverOutboundPayloads } from "../infra/outbound/deliver.js";
+import { resolveDeliveryTarget } from "./isolated-agent/delivery-target.js";
+import type { CronDelivery, CronJob } from "./types.js";
+
+export function formatCronDeadLetterText(params: {
+  job: Pick<CronJob, "id" | "name">;
+  error?: string;
+  attempt?: number;
+  maxAttempts?: number;
+}): string {
+  const attempts =
+    typeof params.attempt === "number" && typeof params.maxAttempts === "number"
+      ? ` after ${params.attempt}/${params.maxAttempts} attempts`
+      : "";
+  const lines = [`Cron job "${params.job.name}" (${params.job.id}) failed${attempts}.`];
+  const error = params.error?.trim();
+  if (error) {
+    lines.push(`Last error: ${error}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Send a dead-letter notice to a channel target (`mode: "announce"`).
+ * Throws when the target cannot be resolved so callers can log it.
+ */
+export async function deliverCronDeadLetterAnnouncement(params: {
+  cfg: OpenClawConfig;
+  deps: CliDeps;
+  agentId: string;
+  job: CronJob;
+  deadLetter: CronDelivery;
+  text: string;
+}): Promise<void> {
+  const target = await resolveDeliveryTarget(params.cfg, params.agentId, {
+    channel: params.deadLetter.channel,
+    to: params.deadLetter.to,
+    accountId: params.deadLetter.accountId,
+    sessionKey: params.job.sessionKey,
+  });
+  if (!target.ok) {
+    throw target.error;
+  }
+  await deliverOutboundPayloads({
+    cfg: params.cfg,
+    channel: target.channel,
+    to: target.to,
+    accountId: target.accountId,
+    threadId: target.threadId,
+    payloads: [{ text: params.text }],
+    bestEffort: params.deadLetter.bestEffort,
+    deps: createOutboundSendDeps(params.deps),
+  });
+}
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import { normalizeCronJobCreate, normalizeCronJobPatch } from "./normalize.js";
+import {
+  findCronDependencyCycle,
+  normalizeCronJobCreate,
+  normalizeCronJobPatch,
+  validateCronDependency,
+} from "./normalize.js";
 import { DEFAULT_TOP_OF_HOUR_STAGGER_MS } from "./stagger.js";
 
 function expectNormalizedAtSchedule(scheduleInput: Record<string, unknown>) {
@@ -466,4 +471,91 @@ describe("normalizeCronJobPatch", () => {
     const schedule = normalized.schedule as Record<string, unknown>;
     expect(schedule.staggerMs).toBe(30_000);
   });
+
+  it("infers after schedules and normalizes trigger statuses", () => {
+    const normalized = normalizeCronJobPatch({
+      schedule: { jobId: " fetch ", onStatus: ["OK", "error", "bogus", "ok"] },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.schedule).toEqual({
+      kind: "after",
+      jobId: "fetch",
+      onStatus: ["ok", "error"],
+    });
+  });
+
+  it("coerces retry policy fields and preserves null retry patches", () => {
+    const normalized = normalizeCronJobPatch({
+      retry: {
+        maxAttempts: "3",
+        backoffMs: 1500.7,
+        jitter: "0.25",
+        retryOn: "Timeout, bogus, error",
+        deadLetter: { mode: "Webhook", to: " https://example.com/hook " },
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.retry).toEqual({
+      maxAttempts: 3,
+      backoffMs: 1500,
+      jitter: 0.25,
+      retryOn: ["timeout", "error"],
+      deadLetter: { mode: "webhook", to: "https://example.com/hook" },
+    });
+
+    const cleared = normalizeCronJobPatch({ retry: null }) as unknown as Record<string, unknown>;
+    expect(cleared.retry).toBeNull();
+  });
+
+  it("coerces blackout rules and preserves null blackout patches", () => {
+    const normalized = normalizeCronJobPatch({
+      blackout: {
+        windows: ["22:00-07:00", { start: " 12:00 ", end: "13:00", days: "Monday, FRI" }],
+        calendar: "  ",
+        tz: " Europe/Berlin ",
+        mode: "Skip",
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.blackout).toEqual({
+      windows: [
+        { start: "22:00", end: "07:00" },
+        { start: "12:00", end: "13:00", days: ["mon", "fri"] },
+      ],
+      tz: "Europe/Berlin",
+      mode: "skip",
+    });
+
+    const cleared = normalizeCronJobPatch({ blackout: null }) as unknown as Record<string, unknown>;
+    expect(cleared.blackout).toBeNull();
+  });
+});
+
+describe("cron dependency validation", () => {
+  const after = (id: string, upstream: string) => ({
+    id,
+    schedule: { kind: "after" as const, jobId: upstream },
+  });
+  const every = (id: string) => ({ id, schedule: { kind: "every" as const, everyMs: 60_000 } });
+
+  it("accepts chains that end at a scheduled job", () => {
+    const jobs = [every("fetch"), after("digest", "fetch")];
+    expect(findCronDependencyCycle(jobs, after("publish", "digest"))).toBeNull();
+    expect(validateCronDependency(jobs, after("publish", "digest"))).toBeUndefined();
+  });
+
+  it("detects cycles introduced by an update", () => {
+    const jobs = [after("a", "c"), after("b", "a"), every("c")];
+    expect(findCronDependencyCycle(jobs, after("c", "b"))).toEqual(["c", "b", "a", "c"]);
+    expect(validateCronDependency(jobs, after("c", "b"))).toBe(
+      "cron dependency cycle detected: c -> b -> a -> c",
+    );
+  });
+
+  it("rejects self-references and unknown upstream jobs", () => {
+    expect(validateCronDependency([every("a")], after("a", "a"))).toContain("cycle");
+    expect(validateCronDependency([every("a")], after("", "missing"))).toBe(
+      "cron after schedule references unknown job id: missing",
+    );
+  });
 });
@@ -9,7 +9,13 @@ import { parseAbsoluteTimeMs } from "./parse.js";
 import { migrateLegacyCronPayload } from "./payload-migration.js";
 import { inferLegacyName } from "./service/normalize.js";
 import { normalizeCronStaggerMs, resolveDefaultCronStaggerMs } from "./stagger.js";
-import type { CronJobCreate, CronJobPatch } from "./types.js";
+import type {
+  CronJob,
+  CronJobCreate,
+  CronJobPatch,
+  CronRetryErrorKind,
+  CronRunStatus,
+} from "./types.js";
 
 type UnknownRecord = Record<string, unknown>;
 
@@ -21,10 +27,33 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
   applyDefaults: false,
 };
 
+const CRON_RUN_STATUSES: readonly CronRunStatus[] = ["ok", "error", "skipped"];
+
+function coerceAfterStatuses(raw: unknown): CronRunStatus[] | undefined {
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  const statuses = new Set<CronRunStatus>();
+  for (const value of values) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === "any" || trimmed === "all") {
+      return [...CRON_RUN_STATUSES];
+    }
+    if ((CRON_RUN_STATUSES as readonly string[]).includes(trimmed)) {
+      statuses.add(trimmed as CronRunStatus);
+    }
+  }
+  return statuses.size > 0 ? CRON_RUN_STATUSES.filter((status) => statuses.has(status)) : undefined;
+}
+
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,6 +79,20 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (typeof schedule.jobId === "string") {
+      next.kind = "after";
+    }
+  }
+
+  if (next.kind === "after") {
+    if (typeof schedule.jobId === "string") {
+      next.jobId = schedule.jobId.trim();
+    }
+    const onStatus = coerceAfterStatuses(schedule.onStatus);
+    if (onStatus) {
+      next.onStatus = onStatus;
+    } else if ("onStatus" in next) {
+      delete next.onStatus;
     }
   }
 
@@ -196,6 +239,139 @@ function coerceDelivery(delivery: UnknownRecord) {
   return next;
 }
 
+const CRON_RETRY_ERROR_KINDS: readonly CronRetryErrorKind[] = [
+  "timeout",
+  "delivery-target",
+  "error",
+];
+
+function coerceRetryNumber(raw: unknown): number | undefined {
+  if (typeof raw === "number" && Number.isFinite(raw)) {
+    return raw;
+  }
+  if (typeof raw === "string" && raw.trim()) {
+    const parsed = Number(raw.trim());
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function coerceRetryErrorKinds(raw: unknown): CronRetryErrorKind[] | undefined {
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  const kinds = new Set<CronRetryErrorKind>();
+  for (const value of values) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed === "any" || trimmed === "all") {
+      return [...CRON_RETRY_ERROR_KINDS];
+    }
+    if ((CRON_RETRY_ERROR_KINDS as readonly string[]).includes(trimmed)) {
+      kinds.add(trimmed as CronRetryErrorKind);
+    }
+  }
+  return kinds.size > 0 ? CRON_RETRY_ERROR_KINDS.filter((kind) => kinds.has(kind)) : undefined;
+}
+
+function coerceRetry(retry: UnknownRecord) {
+  const next: UnknownRecord = { ...retry };
+  for (const key of ["maxAttempts", "backoffMs", "maxBackoffMs"] as const) {
+    const value = coerceRetryNumber(retry[key]);
+    if (value !== undefined) {
+      next[key] = Math.floor(value);
+    } else {
+      delete next[key];
+    }
+  }
+  for (const key of ["multiplier", "jitter"] as const) {
+    const value = coerceRetryNumber(retry[key]);
+    if (value !== undefined) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+  }
+  const retryOn = coerceRetryErrorKinds(retry.retryOn);
+  if (retryOn) {
+    next.retryOn = retryOn;
+  } else {
+    delete next.retryOn;
+  }
+  if (isRecord(retry.deadLetter)) {
+    next.deadLetter = coerceDelivery(retry.deadLetter);
+  } else {
+    delete next.deadLetter;
+  }
+  return next;
+}
+
+function coerceBlackoutDays(raw: unknown): string[] | undefined {
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  const days = new Set<string>();
+  for (const value of values) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    const day = value.trim().toLowerCase().slice(0, 3);
+    if (day) {
+      days.add(day);
+    }
+  }
+  return days.size > 0 ? [...days] : undefined;
+}
+
+function coerceBlackoutWindow(raw: unknown): UnknownRecord | undefined {
+  if (typeof raw === "string") {
+    // Shorthand: "22:00-07:00".
+    const [start, end] = raw.split("-").map((part) => part.trim());
+    return start && end ? { start, end } : undefined;
+  }
+  if (!isRecord(raw)) {
+    return undefined;
+  }
+  const next: UnknownRecord = { ...raw };
+  for (const key of ["start", "end"] as const) {
+    if (typeof raw[key] === "string") {
+      next[key] = raw[key].trim();
+    }
+  }
+  const days = coerceBlackoutDays(raw.days);
+  if (days) {
+    next.days = days;
+  } else {
+    delete next.days;
+  }
+  return next;
+}
+
+function coerceBlackout(blackout: UnknownRecord) {
+  const next: UnknownRecord = { ...blackout };
+  const windows = (Array.isArray(blackout.windows) ? blackout.windows : [blackout.windows])
+    .map(coerceBlackoutWindow)
+    .filter((window): window is UnknownRecord => window !== undefined);
+  if (windows.length > 0) {
+    next.windows = windows;
+  } else {
+    delete next.windows;
+  }
+  for (const key of ["calendar", "tz"] as const) {
+    const value = typeof blackout[key] === "string" ? blackout[key].trim() : "";
+    if (value) {
+      next[key] = value;
+    } else {
+      delete next[key];
+    }
+  }
+  const mode = typeof blackout.mode === "string" ? blackout.mode.trim().toLowerCase() : "";
+  if (mode === "defer" || mode === "skip") {
+    next.mode = mode;
+  } else {
+    delete next.mode;
+  }
+  return next;
+}
+
 function unwrapJob(raw: UnknownRecord) {
   if (isRecord(raw.data)) {
     return raw.data;
@@ -388,6 +564,26 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if ("retry" in base) {
+    if (base.retry === null) {
+      next.retry = null;
+    } else if (isRecord(base.retry)) {
+      next.retry = coerceRetry(base.retry);
+    } else {
+      delete next.retry;
+    }
+  }
+
+  if ("blackout" in base) {
+    if (base.blackout === null) {
+      next.blackout = null;
+    } else if (isRecord(base.blackout)) {
+      next.blackout = coerceBlackout(base.blackout);
+    } else {
+      delete next.blackout;
+    }
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
@@ -471,6 +667,68 @@ export function normalizeCronJobInput(
   return next;
 }
 
+type CronDependencyNode = Pick<CronJob, "id" | "schedule">;
+
+/**
+ * Walks `after` schedule edges starting at `candidate` and returns the job id
+ * chain that loops back to it, or `null` when the dependency graph stays acyclic.
+ * `candidate` replaces any existing job with the same id (pending update).
+ */
+export function findCronDependencyCycle(
+  jobs: readonly CronDependencyNode[],
+  candidate: CronDependencyNode,
+): string[] | null {
+  const byId = new Map<string, CronDependencyNode>();
+  for (const job of jobs) {
+    byId.set(job.id, job);
+  }
+  byId.set(candidate.id, candidate);
+
+  const chain = [candidate.id];
+  const seen = new Set(chain);
+  let current: CronDependencyNode | undefined = candidate;
+  while (current?.schedule.kind === "after") {
+    const upstreamId = current.schedule.jobId;
+    if (upstreamId === candidate.id) {
+      return [...chain, upstreamId];
+    }
+    if (seen.has(upstreamId)) {
+      // A pre-existing loop that does not pass through the candidate.
+      return null;
+    }
+    chain.push(upstreamId);
+    seen.add(upstreamId);
+    current = byId.get(upstreamId);
+  }
+  return null;
+}
+
+/**
+ * Validates `after` schedules against the current job list: the upstream job
+ * must exist and the chain must not loop back to the candidate.
+ * Returns an error message, or `undefined` when the schedule is valid.
+ */
+export function validateCronDependency(
+  jobs: readonly CronDependencyNode[],
+  candidate: CronDependencyNode,
+): string | undefined {
+  if (candidate.schedule.kind !== "after") {
+    return undefined;
+  }
+  const upstreamId = candidate.schedule.jobId.trim();
+  if (!upstreamId) {
+    return "cron after schedule requires schedule.jobId";
+  }
+  if (upstreamId !== candidate.id && !jobs.some((job) => job.id === upstreamId)) {
+    return `cron after schedule references unknown job id: ${upstreamId}`;
+  }
+  const cycle = findCronDependencyCycle(jobs, candidate);
+  if (cycle) {
+    return `cron dependency cycle detected: ${cycle.join(" -> ")}`;
+  }
+  return undefined;
+}
+
 export function normalizeCronJobCreate(
   raw: unknown,
   options?: NormalizeOptions,
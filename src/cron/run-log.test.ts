@@ -232,6 +232,39 @@ describe("cron run log", () => {
     });
   });
 
+  it("reads retry attempt fields", async () => {
+    await withRunLogDir("openclaw-cron-log-retry-", async (dir) => {
+      const logPath = path.join(dir, "runs", "job-1.jsonl");
+
+      await appendCronRunLog(logPath, {
+        ts: 1,
+        jobId: "job-1",
+        action: "finished",
+        status: "error",
+        attempt: 1,
+        maxAttempts: 2,
+        retryAtMs: 30_001,
+      });
+      await appendCronRunLog(logPath, {
+        ts: 2,
+        jobId: "job-1",
+        action: "finished",
+        status: "error",
+        attempt: 2,
+        maxAttempts: 2,
+        retryExhausted: true,
+      });
+
+      const entries = await readCronRunLogEntries(logPath, { limit: 10, jobId: "job-1" });
+      expect(
+        entries.map((entry) => [entry.attempt, entry.retryAtMs, entry.retryExhausted]),
+      ).toEqual([
+        [1, 30_001, undefined],
+        [2, undefined, true],
+      ]);
+    });
+  });
+
   it("cleans up pending-write bookkeeping after appends complete", async () => {
     await withRunLogDir("openclaw-cron-log-pending-", async (dir) => {
       const logPath = path.join(dir, "runs", "job-cleanup.jsonl");
@@ -19,6 +19,11 @@ export type CronRunLogEntry = {
   runAtMs?: number;
   durationMs?: number;
   nextRunAtMs?: number;
+  /** Attempt number within the job's retry sequence. */
+  attempt?: number;
+  maxAttempts?: number;
+  retryAtMs?: number;
+  retryExhausted?: boolean;
 } & CronRunTelemetry;
 
 export type CronRunLogSortDir = "asc" | "desc";
@@ -296,6 +301,18 @@ function parseAllRunLogEntries(raw: string, opts?: { jobId?: string }): CronRunL
       if (typeof obj.sessionKey === "string" && obj.sessionKey.trim().length > 0) {
         entry.sessionKey = obj.sessionKey;
       }
+      if (typeof obj.attempt === "number" && Number.isFinite(obj.attempt)) {
+        entry.attempt = obj.attempt;
+      }
+      if (typeof obj.maxAttempts === "number" && Number.isFinite(obj.maxAttempts)) {
+        entry.maxAttempts = obj.maxAttempts;
+      }
+      if (typeof obj.retryAtMs === "number" && Number.isFinite(obj.retryAtMs)) {
+        entry.retryAtMs = obj.retryAtMs;
+      }
+      if (obj.retryExhausted === true) {
+        entry.retryExhausted = true;
+      }
       parsed.push(entry);
     } catch {
       // ignore invalid lines
@@ -1,4 +1,5 @@
 import { Cron } from "croner";
+import { findCronBlackout, type CronBlackoutRule } from "./blackout.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 import type { CronSchedule } from "./types.js";
 
@@ -30,6 +31,12 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return atMs > nowMs ? atMs : undefined;
   }
 
+  if (schedule.kind === "after") {
+    // Dependency-triggered jobs have no wall-clock slot; the scheduler marks
+    // them due when the upstream job finishes.
+    return undefined;
+  }
+
   if (schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(schedule.everyMs));
     const anchor = Math.max(0, Math.floor(schedule.anchorMs ?? nowMs));
@@ -75,3 +82,33 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
   const retryMs = retry.getTime();
   return Number.isFinite(retryMs) && retryMs > nowMs ? retryMs : undefined;
 }
+
+/** Upper bound on back-to-back blackouts crossed while deferring one run. */
+const MAX_BLACKOUT_DEFERRALS = 64;
+
+export type CronBlackoutDeferral = {
+  nextRunAtMs: number;
+  reason: string;
+};
+
+/**
+ * Push `runAtMs` past any defer-mode blackout. Returns `undefined` when the
+ * slot is allowed as-is; otherwise the first allowed instant and the reason
+ * of the blackout that covered the original slot.
+ */
+export function deferPastCronBlackouts(
+  runAtMs: number,
+  rules: readonly CronBlackoutRule[],
+): CronBlackoutDeferral | undefined {
+  let deferral: CronBlackoutDeferral | undefined;
+  let cursorMs = runAtMs;
+  for (let i = 0; i < MAX_BLACKOUT_DEFERRALS; i += 1) {
+    const blackout = findCronBlackout(rules, cursorMs, { mode: "defer" });
+    if (!blackout || blackout.untilMs <= cursorMs) {
+      break;
+    }
+    cursorMs = blackout.untilMs;
+    deferral = { nextRunAtMs: cursorMs, reason: deferral?.reason ?? blackout.reason };
+  }
+  return deferral;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from "vitest";
+import { setupCronServiceSuite, withCronServiceForTest } from "./service.test-harness.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-after-" });
+
+describe("CronService after (dependency) schedules", () => {
+  it("runs dependent jobs after the upstream job succeeds and forwards its summary", async () => {
+    const runIsolatedAgentJob = vi.fn(async (params: { message: string }) => ({
+      status: "ok" as const,
+      summary: params.message === "fetch" ? "fetched 3 items" : "digest sent",
+    }));
+    await withCronServiceForTest(
+      { makeStorePath, logger, cronEnabled: true, runIsolatedAgentJob },
+      async ({ cron }) => {
+        const fetch = await cron.add({
+          name: "fetch",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "isolated",
+          wakeMode: "now",
+          payload: { kind: "agentTurn", message: "fetch" },
+          delivery: { mode: "none" },
+        });
+        const digest = await cron.add({
+          name: "digest",
+          enabled: true,
+          schedule: { kind: "after", jobId: fetch.id },
+          sessionTarget: "isolated",
+          wakeMode: "now",
+          payload: { kind: "agentTurn", message: "digest" },
+          delivery: { mode: "none" },
+        });
+        expect(digest.state.nextRunAtMs).toBeUndefined();
+
+        await cron.run(fetch.id, "force");
+        const triggered = (await cron.list({ includeDisabled: true })).find(
+          (job) => job.id === digest.id,
+        );
+        expect(triggered?.state.pendingTrigger).toMatchObject({
+          jobId: fetch.id,
+          status: "ok",
+          summary: "fetched 3 items",
+        });
+        expect(typeof triggered?.state.nextRunAtMs).toBe("number");
+
+        await expect(cron.run(digest.id, "due")).resolves.toEqual({ ok: true, ran: true });
+        expect(runIsolatedAgentJob).toHaveBeenCalledTimes(2);
+        const digestMessage = runIsolatedAgentJob.mock.calls[1]?.[0]?.message ?? "";
+        expect(digestMessage).toContain("digest");
+        expect(digestMessage).toContain("fetched 3 items");
+
+        const settled = (await cron.list({ includeDisabled: true })).find(
+          (job) => job.id === digest.id,
+        );
+        expect(settled?.state.lastStatus).toBe("ok");
+        expect(settled?.state.pendingTrigger).toBeUndefined();
+        expect(settled?.state.nextRunAtMs).toBeUndefined();
+      },
+    );
+  });
+
+  it("ignores upstream runs whose status is not in onStatus", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({
+      status: "error" as const,
+      error: "boom",
+    }));
+    await withCronServiceForTest(
+      { makeStorePath, logger, cronEnabled: true, runIsolatedAgentJob },
+      async ({ cron }) => {
+        const upstream = await cron.add({
+          name: "upstream",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "isolated",
+          wakeMode: "now",
+          payload: { kind: "agentTurn", message: "upstream" },
+          delivery: { mode: "none" },
+        });
+        const onOk = await cron.add({
+          name: "on ok",
+          enabled: true,
+          schedule: { kind: "after", jobId: upstream.id },
+          sessionTarget: "main",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "systemEvent", text: "upstream ok" },
+        });
+        const onError = await cron.add({
+          name: "on error",
+          enabled: true,
+          schedule: { kind: "after", jobId: upstream.id, onStatus: ["error"] },
+          sessionTarget: "main",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "systemEvent", text: "upstream failed" },
+        });
+
+        await cron.run(upstream.id, "force");
+        const jobs = await cron.list({ includeDisabled: true });
+        expect(jobs.find((job) => job.id === onOk.id)?.state.pendingTrigger).toBeUndefined();
+        expect(jobs.find((job) => job.id === onError.id)?.state.pendingTrigger?.status).toBe(
+          "error",
+        );
+      },
+    );
+  });
+
+  it("rejects unknown upstream jobs and dependency cycles", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      await expect(
+        cron.add({
+          name: "orphan",
+          enabled: true,
+          schedule: { kind: "after", jobId: "missing" },
+          sessionTarget: "main",
+          wakeMode: "next-heartbeat",
+          payload: { kind: "systemEvent", text: "orphan" },
+        }),
+      ).rejects.toThrow("unknown job id: missing");
+
+      const first = await cron.add({
+        name: "first",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 60_000 },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "first" },
+      });
+      const second = await cron.add({
+        name: "second",
+        enabled: true,
+        schedule: { kind: "after", jobId: first.id },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "second" },
+      });
+      await expect(
+        cron.update(first.id, { schedule: { kind: "after", jobId: second.id } }),
+      ).rejects.toThrow("cron dependency cycle detected");
+    });
+  });
+
+  it("keeps upstream jobs while dependents point at them", async () => {
+    await withCronServiceForTest({ makeStorePath, logger, cronEnabled: true }, async ({ cron }) => {
+      const upstream = await cron.add({
+        name: "upstream",
+        enabled: true,
+        deleteAfterRun: true,
+        schedule: { kind: "at", at: new Date(Date.now() + 60_000).toISOString() },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "upstream" },
+      });
+      const downstream = await cron.add({
+        name: "downstream",
+        enabled: true,
+        schedule: { kind: "after", jobId: upstream.id },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "downstream" },
+      });
+
+      await expect(cron.remove(upstream.id)).rejects.toThrow(
+        `cron job ${upstream.id} has dependent jobs (${downstream.id})`,
+      );
+
+      // A successful one-shot run disables the upstream instead of deleting it.
+      await cron.run(upstream.id, "force");
+      const jobs = await cron.list({ includeDisabled: true });
+      expect(jobs.find((job) => job.id === upstream.id)?.enabled).toBe(false);
+      expect(jobs.find((job) => job.id === downstream.id)?.state.pendingTrigger?.jobId).toBe(
+        upstream.id,
+      );
+
+      await expect(cron.remove(downstream.id)).resolves.toEqual({ ok: true, removed: true });
+      await expect(cron.remove(upstream.id)).resolves.toEqual({ ok: true, removed: true });
+    });
+  });
+});
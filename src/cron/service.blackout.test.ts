@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CronConfig } from "../config/types.cron.js";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronEvent } from "./service/state.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-blackout-" });
+
+async function withBlackoutCron(
+  params: { cronConfig?: CronConfig; runIsolatedAgentJob?: ReturnType<typeof vi.fn> },
+  run: (ctx: { cron: CronService; events: CronEvent[] }) => Promise<void>,
+) {
+  const store = await makeStorePath();
+  const events: CronEvent[] = [];
+  const cron = new CronService({
+    cronEnabled: true,
+    cronConfig: params.cronConfig,
+    storePath: store.storePath,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: (params.runIsolatedAgentJob ??
+      vi.fn(async () => ({ status: "ok" as const, summary: "done" }))) as never,
+    onEvent: (evt) => {
+      events.push(evt);
+    },
+  });
+  await cron.start();
+  try {
+    await run({ cron, events });
+  } finally {
+    cron.stop();
+    await store.cleanup();
+  }
+}
+
+describe("CronService blackout", () => {
+  it("defers runs that land in quiet hours and reports the reason", async () => {
+    await withBlackoutCron({}, async ({ cron }) => {
+      const job = await cron.add({
+        name: "nightly reminder",
+        enabled: true,
+        schedule: { kind: "cron", expr: "0 23 * * *", tz: "UTC", staggerMs: 0 },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "stretch" },
+        blackout: { windows: [{ start: "22:00", end: "07:00" }], tz: "UTC" },
+      });
+
+      expect(job.state).toMatchObject({
+        nextRunAtMs: Date.parse("2025-12-14T07:00:00.000Z"),
+        deferredFromMs: Date.parse("2025-12-13T23:00:00.000Z"),
+        deferredReason: "quiet hours 22:00-07:00",
+      });
+      expect((await cron.status()).deferredJobs).toEqual([
+        {
+          jobId: job.id,
+          name: "nightly reminder",
+          reason: "quiet hours 22:00-07:00",
+          deferredFromMs: Date.parse("2025-12-13T23:00:00.000Z"),
+          nextRunAtMs: Date.parse("2025-12-14T07:00:00.000Z"),
+        },
+      ]);
+
+      const updated = await cron.update(job.id, { blackout: null });
+      expect(updated.state.nextRunAtMs).toBe(Date.parse("2025-12-13T23:00:00.000Z"));
+      expect(updated.state.deferredReason).toBeUndefined();
+      expect((await cron.status()).deferredJobs).toEqual([]);
+    });
+  });
+
+  it("skips due runs inside a global skip-mode blackout unless forced", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const, summary: "done" }));
+    await withBlackoutCron(
+      {
+        cronConfig: {
+          blackout: { windows: [{ start: "00:00", end: "06:00" }], tz: "UTC", mode: "skip" },
+        },
+        runIsolatedAgentJob,
+      },
+      async ({ cron, events }) => {
+        const job = await cron.add({
+          name: "hourly digest",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 3_600_000 },
+          sessionTarget: "isolated",
+          wakeMode: "now",
+          payload: { kind: "agentTurn", message: "digest" },
+          delivery: { mode: "none" },
+        });
+        expect(job.state.deferredReason).toBeUndefined();
+
+        vi.setSystemTime(job.state.nextRunAtMs ?? 0);
+        await expect(cron.run(job.id, "due")).resolves.toEqual({ ok: true, ran: true });
+        expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+        expect(events.filter((evt) => evt.action === "finished").at(-1)).toMatchObject({
+          status: "skipped",
+          error: "blackout: quiet hours 00:00-06:00",
+        });
+
+        await cron.run(job.id, "force");
+        expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1);
+      },
+    );
+  });
+});
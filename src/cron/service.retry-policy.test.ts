@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronEvent } from "./service/state.js";
+import type { CronJob } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-retry-" });
+
+async function withRetryCron(
+  runIsolatedAgentJob: ReturnType<typeof vi.fn>,
+  run: (ctx: { cron: CronService; events: CronEvent[] }) => Promise<void>,
+) {
+  const store = await makeStorePath();
+  const events: CronEvent[] = [];
+  const cron = new CronService({
+    cronEnabled: true,
+    storePath: store.storePath,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: runIsolatedAgentJob as never,
+    onEvent: (evt) => {
+      events.push(evt);
+    },
+  });
+  await cron.start();
+  try {
+    await run({ cron, events });
+  } finally {
+    cron.stop();
+    await store.cleanup();
+  }
+}
+
+async function getJob(cron: CronService, id: string): Promise<CronJob | undefined> {
+  return (await cron.list({ includeDisabled: true })).find((job) => job.id === id);
+}
+
+function finishedEvents(events: CronEvent[], jobId: string) {
+  return events.filter((evt) => evt.action === "finished" && evt.jobId === jobId);
+}
+
+describe("CronService retry policy", () => {
+  it("retries failed runs with backoff and marks the last attempt as exhausted", async () => {
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "error" as const, error: "boom" }));
+    await withRetryCron(runIsolatedAgentJob, async ({ cron, events }) => {
+      const job = await cron.add({
+        name: "flaky",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 24 * 3_600_000 },
+        sessionTarget: "isolated",
+        wakeMode: "now",
+        payload: { kind: "agentTurn", message: "flaky" },
+        delivery: { mode: "none" },
+        retry: { maxAttempts: 3, backoffMs: 60_000 },
+      });
+
+      const firstAt = Date.now();
+      await cron.run(job.id, "force");
+      let current = await getJob(cron, job.id);
+      expect(current?.state.retryAttempt).toBe(1);
+      expect(current?.state.nextRunAtMs).toBe(firstAt + 60_000);
+      expect(finishedEvents(events, job.id).at(-1)).toMatchObject({
+        attempt: 1,
+        maxAttempts: 3,
+        retryAtMs: firstAt + 60_000,
+      });
+
+      vi.setSystemTime(firstAt + 60_000);
+      await expect(cron.run(job.id, "due")).resolves.toEqual({ ok: true, ran: true });
+      current = await getJob(cron, job.id);
+      expect(current?.state.retryAttempt).toBe(2);
+      expect(current?.state.nextRunAtMs).toBe(firstAt + 60_000 + 120_000);
+
+      vi.setSystemTime(firstAt + 180_000);
+      await expect(cron.run(job.id, "due")).resolves.toEqual({ ok: true, ran: true });
+      current = await getJob(cron, job.id);
+      expect(current?.state.retryAttempt).toBeUndefined();
+      expect(current?.state.consecutiveErrors).toBe(3);
+      const last = finishedEvents(events, job.id).at(-1);
+      expect(last).toMatchObject({ attempt: 3, maxAttempts: 3, retryExhausted: true });
+      expect(last?.retryAtMs).toBeUndefined();
+      expect(runIsolatedAgentJob).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  it("only retries configured error kinds and resets after a success", async () => {
+    const runIsolatedAgentJob = vi
+      .fn()
+      .mockResolvedValueOnce({ status: "error", error: "boom" })
+      .mockResolvedValueOnce({
+        status: "error",
+        error: "no route",
+        errorKind: "delivery-target",
+      })
+      .mockResolvedValueOnce({ status: "ok", summary: "done" });
+    await withRetryCron(runIsolatedAgentJob, async ({ cron, events }) => {
+      const job = await cron.add({
+        name: "picky",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 24 * 3_600_000 },
+        sessionTarget: "isolated",
+        wakeMode: "now",
+        payload: { kind: "agentTurn", message: "picky" },
+        delivery: { mode: "none" },
+        retry: { maxAttempts: 5, backoffMs: 1_000, retryOn: ["delivery-target"] },
+      });
+
+      await cron.run(job.id, "force");
+      expect(finishedEvents(events, job.id).at(-1)).toMatchObject({
+        attempt: 1,
+        retryExhausted: true,
+      });
+      expect((await getJob(cron, job.id))?.state.retryAttempt).toBeUndefined();
+
+      await cron.run(job.id, "force");
+      expect(finishedEvents(events, job.id).at(-1)).toMatchObject({ attempt: 1 });
+      expect((await getJob(cron, job.id))?.state.retryAttempt).toBe(1);
+
+      vi.setSystemTime(Date.now() + 1_000);
+      await cron.run(job.id, "due");
+      const last = finishedEvents(events, job.id).at(-1);
+      expect(last).toMatchObject({ status: "ok", attempt: 2 });
+      expect(last?.retryExhausted).toBeUndefined();
+      expect((await getJob(cron, job.id))?.state.retryAttempt).toBeUndefined();
+    });
+  });
+
+  it("triggers dependent jobs only once the retry sequence settles", async () => {
+    const runIsolatedAgentJob = vi.fn(async (params: { message: string }) =>
+      params.message === "upstream"
+        ? { status: "error" as const, error: "boom" }
+        : { status: "ok" as const, summary: "cleanup done" },
+    );
+    await withRetryCron(runIsolatedAgentJob, async ({ cron }) => {
+      const upstream = await cron.add({
+        name: "upstream",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 24 * 3_600_000 },
+        sessionTarget: "isolated",
+        wakeMode: "now",
+        payload: { kind: "agentTurn", message: "upstream" },
+        delivery: { mode: "none" },
+        retry: { maxAttempts: 2, backoffMs: 5_000 },
+      });
+      const onError = await cron.add({
+        name: "on error",
+        enabled: true,
+        schedule: { kind: "after", jobId: upstream.id, onStatus: ["error"] },
+        sessionTarget: "isolated",
+        wakeMode: "now",
+        payload: { kind: "agentTurn", message: "cleanup" },
+        delivery: { mode: "none" },
+      });
+
+      await cron.run(upstream.id, "force");
+      expect((await getJob(cron, onError.id))?.state.pendingTrigger).toBeUndefined();
+
+      vi.setSystemTime(Date.now() + 5_000);
+      await cron.run(upstream.id, "due");
+      expect((await getJob(cron, onError.id))?.state.pendingTrigger).toMatchObject({
+        jobId: upstream.id,
+        status: "error",
+      });
+    });
+  });
+
+  it("rejects invalid dead-letter webhook targets", async () => {
+    await withRetryCron(vi.fn(), async ({ cron }) => {
+      await expect(
+        cron.add({
+          name: "bad dead letter",
+          enabled: true,
+          schedule: { kind: "every", everyMs: 60_000 },
+          sessionTarget: "isolated",
+          wakeMode: "now",
+          payload: { kind: "agentTurn", message: "hi" },
+          delivery: { mode: "none" },
+          retry: { maxAttempts: 2, deadLetter: { mode: "webhook", to: "ftp://example.com" } },
+        }),
+      ).rejects.toThrow("retry.deadLetter.to");
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import fs from "node:fs/promises";
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite, writeCronStoreSnapshot } from "./service.test-harness.js";
+import { CRON_STORE_LOCK, resolveCronSqliteStorePath } from "./store-backend.js";
+import { createSqliteCronStoreBackend } from "./store-sqlite.js";
+import type { CronJob } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "openclaw-cron-sqlite-" });
+
+function createSqliteCron(storePath: string) {
+  return new CronService({
+    cronEnabled: true,
+    cronConfig: { storeBackend: "sqlite" },
+    storePath,
+    log: logger,
+    enqueueSystemEvent: vi.fn(),
+    requestHeartbeatNow: vi.fn(),
+    runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })) as never,
+  });
+}
+
+describe("CronService sqlite store", () => {
+  it("imports the JSON store and shares jobs between services", async () => {
+    const { storePath } = await makeStorePath();
+    const legacy: CronJob = {
+      id: "legacy",
+      name: "legacy",
+      enabled: true,
+      createdAtMs: Date.now(),
+      updatedAtMs: Date.now(),
+      schedule: { kind: "every", everyMs: 3_600_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "tick" },
+      state: {},
+    };
+    await writeCronStoreSnapshot({ storePath, jobs: [legacy] });
+
+    const first = createSqliteCron(storePath);
+    const second = createSqliteCron(storePath);
+    await first.start();
+    await second.start();
+    try {
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.objectContaining({ from: storePath, jobs: 1 }),
+        "cron: imported JSON store into SQLite",
+      );
+      await expect(fs.access(storePath)).rejects.toThrow();
+      expect((await first.status()).storePath).toBe(storePath.replace(/\.json$/, ".sqlite"));
+
+      const added = await first.add({
+        name: "added elsewhere",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 60_000 },
+        sessionTarget: "main",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "systemEvent", text: "hello" },
+      });
+      const seen = await second.list({ includeDisabled: true });
+      expect(seen.map((job) => job.id).toSorted()).toEqual([added.id, "legacy"].toSorted());
+
+      await second.remove("legacy");
+      expect((await first.list()).map((job) => job.id)).toEqual([added.id]);
+    } finally {
+      first.stop();
+      second.stop();
+    }
+  });
+
+  it("edits but does not remove a job while another gateway holds the store-wide lease", async () => {
+    const { storePath } = await makeStorePath();
+    const cron = createSqliteCron(storePath);
+    await cron.start();
+    const job = await cron.add({
+      name: "before",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "hello" },
+    });
+    const other = createSqliteCronStoreBackend({ path: resolveCronSqliteStorePath(storePath) });
+    let release!: () => void;
+    let acquired!: () => void;
+    const holding = new Promise<void>((resolve) => (acquired = resolve));
+    const held = other.withLock(CRON_STORE_LOCK, async () => {
+      acquired();
+      await new Promise<void>((resolve) => (release = resolve));
+    });
+    try {
+      await holding;
+
+      // Updates take only the job's lease, so they do not wait for the store lease.
+      const updated = await cron.update(job.id, { name: "after" });
+      expect(updated.name).toBe("after");
+
+      // Removal checks dependents, which `add` can create, so it waits.
+      let removed = false;
+      const removing = cron.remove(job.id).then((result) => {
+        removed = true;
+        return result;
+      });
+      await vi.advanceTimersByTimeAsync(500);
+      expect(removed).toBe(false);
+
+      release();
+      for (let i = 0; i < 100 && !removed; i += 1) {
+        await vi.advanceTimersByTimeAsync(50);
+      }
+      await expect(removing).resolves.toEqual({ ok: true, removed: true });
+    } finally {
+      release();
+      await held;
+      other.close();
+      cron.stop();
+    }
+  });
+
+  it("stores a manual run's result under the job lease before the store-wide repair", async () => {
+    const { storePath } = await makeStorePath();
+    const cron = createSqliteCron(storePath);
+    await cron.start();
+    const job = await cron.add({
+      name: "manual",
+      enabled: true,
+      schedule: { kind: "every", everyMs: 60_000 },
+      sessionTarget: "main",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "systemEvent", text: "hello" },
+    });
+    const other = createSqliteCronStoreBackend({ path: resolveCronSqliteStorePath(storePath) });
+    let release!: () => void;
+    let acquired!: () => void;
+    const holding = new Promise<void>((resolve) => (acquired = resolve));
+    const held = other.withLock(CRON_STORE_LOCK, async () => {
+      acquired();
+      await new Promise<void>((resolve) => (release = resolve));
+    });
+    const lastStatus = async () =>
+      (await other.load()).jobs.find((entry) => entry.id === job.id)?.state.lastRunStatus;
+    try {
+      await holding;
+      let settled = false;
+      const running = cron.run(job.id, "force").then((result) => {
+        settled = true;
+        return result;
+      });
+      for (let i = 0; i < 100 && !(await lastStatus()); i += 1) {
+        await vi.advanceTimersByTimeAsync(50);
+      }
+      expect(await lastStatus()).toBe("ok");
+      // The maintenance recompute still waits for the store lease.
+      expect(settled).toBe(false);
+
+      release();
+      await held;
+      for (let i = 0; i < 100 && !settled; i += 1) {
+        await vi.advanceTimersByTimeAsync(50);
+      }
+      await expect(running).resolves.toEqual({ ok: true, ran: true });
+    } finally {
+      release();
+      other.close();
+      cron.stop();
+    }
+  });
+});
@@ -6,6 +6,7 @@ import type { MockFn } from "../test-utils/vitest-mock-fn.js";
 import type { CronEvent, CronServiceDeps } from "./service.js";
 import { CronService } from "./service.js";
 import { createCronServiceState, type CronServiceState } from "./service/state.js";
+import { createJsonCronStoreBackend } from "./store-backend.js";
 import type { CronJob } from "./types.js";
 
 export type NoopLogger = {
@@ -215,11 +216,12 @@ export function createMockCronStateForJobs(params: {
 }): CronServiceState {
   const nowMs = params.nowMs ?? Date.now();
   return {
+    storeBackend: createJsonCronStoreBackend("/mock/path"),
     store: { version: 1, jobs: params.jobs },
     running: false,
     timer: null,
     storeLoadedAtMs: nowMs,
-    storeFileMtimeMs: null,
+    storeRevision: null,
     op: Promise.resolve(),
     warnedDisabled: false,
     deps: {
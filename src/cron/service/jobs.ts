@@ -1,6 +1,13 @@
 import crypto from "node:crypto";
+import {
+  CRON_BLACKOUT_WEEKDAYS,
+  findCronBlackout,
+  isValidCronBlackoutTimezone,
+  parseCronBlackoutTime,
+  resolveCronBlackoutRules,
+} from "../blackout.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
-import { computeNextRunAtMs } from "../schedule.js";
+import { computeNextRunAtMs, deferPastCronBlackouts } from "../schedule.js";
 import {
   normalizeCronStaggerMs,
   resolveCronStaggerMs,
@@ -14,6 +21,8 @@ import type {
   CronJobPatch,
   CronPayload,
   CronPayloadPatch,
+  CronRunStatus,
+  CronSchedule,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
@@ -130,6 +139,107 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   }
 }
 
+function assertRetrySupport(job: Pick<CronJob, "retry">) {
+  const retry = job.retry;
+  if (!retry) {
+    return;
+  }
+  if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+    throw new Error("cron retry.maxAttempts must be a positive integer");
+  }
+  const deadLetter = retry.deadLetter;
+  if (!deadLetter) {
+    return;
+  }
+  if (deadLetter.mode === "webhook") {
+    const target = normalizeHttpWebhookUrl(deadLetter.to);
+    if (!target) {
+      throw new Error(
+        "cron dead-letter webhook delivery requires retry.deadLetter.to to be a valid http(s) URL",
+      );
+    }
+    deadLetter.to = target;
+    return;
+  }
+  if (deadLetter.mode === "announce" && deadLetter.channel === "telegram") {
+    const telegramError = validateTelegramDeliveryTarget(deadLetter.to);
+    if (telegramError) {
+      throw new Error(telegramError);
+    }
+  }
+}
+
+function assertBlackoutSupport(job: Pick<CronJob, "blackout">) {
+  const blackout = job.blackout;
+  if (!blackout) {
+    return;
+  }
+  for (const window of blackout.windows ?? []) {
+    if (
+      parseCronBlackoutTime(window?.start, { allow24: false }) === null ||
+      parseCronBlackoutTime(window?.end, { allow24: true }) === null
+    ) {
+      throw new Error('cron blackout windows require start/end in "HH:MM" 24h format');
+    }
+    const invalidDay = window.days?.find((day) => !CRON_BLACKOUT_WEEKDAYS.includes(day));
+    if (invalidDay !== undefined) {
+      throw new Error(
+        `invalid cron blackout day "${String(invalidDay)}" (use ${CRON_BLACKOUT_WEEKDAYS.join(", ")})`,
+      );
+    }
+  }
+  const tz = blackout.tz?.trim();
+  if (tz && tz !== "local" && !isValidCronBlackoutTimezone(tz)) {
+    throw new Error(`invalid cron blackout timezone "${tz}"`);
+  }
+}
+
+function resolveJobBlackoutRules(state: CronServiceState, job: CronJob) {
+  return resolveCronBlackoutRules([state.deps.cronConfig?.blackout, job.blackout], {
+    onCalendarError: (path, err) => {
+      state.deps.log.warn(
+        { jobId: job.id, path, err: String(err) },
+        "cron: failed to load blackout calendar",
+      );
+    },
+  });
+}
+
+/**
+ * Push a freshly computed run time past any defer-mode blackout (global
+ * `cron.blackout` and the job's own rules) and record why on the job state.
+ * Returns the run time to schedule.
+ */
+export function applyBlackoutDeferral(
+  state: CronServiceState,
+  job: CronJob,
+  nextRunAtMs: number | undefined,
+): number | undefined {
+  const deferral =
+    nextRunAtMs === undefined
+      ? undefined
+      : deferPastCronBlackouts(nextRunAtMs, resolveJobBlackoutRules(state, job));
+  if (deferral) {
+    job.state.deferredReason = deferral.reason;
+    job.state.deferredFromMs = nextRunAtMs;
+    return deferral.nextRunAtMs;
+  }
+  if (job.state.deferredReason !== undefined || job.state.deferredFromMs !== undefined) {
+    job.state.deferredReason = undefined;
+    job.state.deferredFromMs = undefined;
+  }
+  return nextRunAtMs;
+}
+
+/** Reason a run starting at `nowMs` falls in a skip-mode blackout, if any. */
+export function resolveBlackoutSkipReason(
+  state: CronServiceState,
+  job: CronJob,
+  nowMs: number,
+): string | undefined {
+  return findCronBlackout(resolveJobBlackoutRules(state, job), nowMs, { mode: "skip" })?.reason;
+}
+
 export function findJobOrThrow(state: CronServiceState, id: string) {
   const job = state.store?.jobs.find((j) => j.id === id);
   if (!job) {
@@ -142,6 +252,10 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
   if (!job.enabled) {
     return undefined;
   }
+  if (job.schedule.kind === "after") {
+    // Dependency jobs only become due once an upstream run has triggered them.
+    return job.state.pendingTrigger ? nowMs : undefined;
+  }
   if (job.schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(job.schedule.everyMs));
     const lastRunAtMs = job.state.lastRunAtMs;
@@ -287,7 +401,15 @@ function walkSchedulableJobs(
 function recomputeJobNextRunAtMs(params: { state: CronServiceState; job: CronJob; nowMs: number }) {
   let changed = false;
   try {
-    const newNext = computeJobNextRunAtMs(params.job, params.nowMs);
+    const deferredReason = params.job.state.deferredReason;
+    const newNext = applyBlackoutDeferral(
+      params.state,
+      params.job,
+      computeJobNextRunAtMs(params.job, params.nowMs),
+    );
+    if (params.job.state.deferredReason !== deferredReason) {
+      changed = true;
+    }
     if (params.job.state.nextRunAtMs !== newNext) {
       params.job.state.nextRunAtMs = newNext;
       changed = true;
@@ -406,13 +528,17 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry ?? undefined,
+    blackout: input.blackout ?? undefined,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
-  job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
+  assertRetrySupport(job);
+  assertBlackoutSupport(job);
+  job.state.nextRunAtMs = applyBlackoutDeferral(state, job, computeJobNextRunAtMs(job, now));
   return job;
 }
 
@@ -446,6 +572,9 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     } else {
       job.schedule = patch.schedule;
     }
+    if (job.schedule.kind !== "after") {
+      job.state.pendingTrigger = undefined;
+    }
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
@@ -473,6 +602,13 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
+  if ("retry" in patch) {
+    job.retry = patch.retry ?? undefined;
+    job.state.retryAttempt = undefined;
+  }
+  if ("blackout" in patch) {
+    job.blackout = patch.blackout ?? undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -484,6 +620,8 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertRetrySupport(job);
+  assertBlackoutSupport(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -635,6 +773,58 @@ function mergeCronDelivery(
   return next;
 }
 
+function resolveAfterStatuses(schedule: Extract<CronSchedule, { kind: "after" }>): CronRunStatus[] {
+  return schedule.onStatus && schedule.onStatus.length > 0 ? schedule.onStatus : ["ok"];
+}
+
+/** Ids of the `after` jobs that depend on `upstreamJobId`. */
+export function listDependentJobIds(state: CronServiceState, upstreamJobId: string): string[] {
+  return (state.store?.jobs ?? [])
+    .filter((job) => job.schedule.kind === "after" && job.schedule.jobId === upstreamJobId)
+    .map((job) => job.id);
+}
+
+/**
+ * Mark enabled `after` jobs that depend on `upstreamJobId` as due when the
+ * upstream run status matches their trigger statuses. The upstream summary is
+ * kept on the downstream job state so the next run can forward it. `jobId`
+ * limits this to one dependent (for callers holding only that job's lock).
+ */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  upstreamJobId: string,
+  result: { status: CronRunStatus; summary?: string; startedAt: number; endedAt: number },
+  opts?: { jobId?: string },
+): CronJob[] {
+  const triggered: CronJob[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || job.schedule.kind !== "after" || job.schedule.jobId !== upstreamJobId) {
+      continue;
+    }
+    if (opts?.jobId && job.id !== opts.jobId) {
+      continue;
+    }
+    if (!resolveAfterStatuses(job.schedule).includes(result.status)) {
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstreamJobId,
+      status: result.status,
+      runAtMs: result.startedAt,
+      summary: result.summary,
+    };
+    job.state.nextRunAtMs = applyBlackoutDeferral(state, job, result.endedAt);
+    triggered.push(job);
+  }
+  if (triggered.length > 0) {
+    state.deps.log.info(
+      { upstreamJobId, status: result.status, jobIds: triggered.map((job) => job.id) },
+      "cron: triggered dependent jobs",
+    );
+  }
+  return triggered;
+}
+
 export function isJobDue(job: CronJob, nowMs: number, opts: { forced: boolean }) {
   if (!job.state) {
     job.state = {};
@@ -648,6 +838,27 @@ export function isJobDue(job: CronJob, nowMs: number, opts: { forced: boolean })
   return job.enabled && typeof job.state.nextRunAtMs === "number" && nowMs >= job.state.nextRunAtMs;
 }
 
+/**
+ * Resolve the agentTurn message for an isolated run, appending the upstream
+ * run summary when the job was triggered by an `after` dependency.
+ */
+export function resolveJobAgentTurnMessage(job: CronJob): string | undefined {
+  if (job.payload.kind !== "agentTurn") {
+    return undefined;
+  }
+  const trigger = job.state.pendingTrigger;
+  const summary = trigger?.summary?.trim();
+  if (!trigger || !summary) {
+    return job.payload.message;
+  }
+  return [
+    job.payload.message,
+    "",
+    `Upstream cron job ${trigger.jobId} finished with status ${trigger.status}. Summary:`,
+    summary,
+  ].join("\n");
+}
+
 export function resolveJobPayloadTextForMain(job: CronJob): string | undefined {
   if (job.payload.kind !== "systemEvent") {
     return undefined;
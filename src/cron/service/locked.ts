@@ -1,3 +1,4 @@
+import { CRON_STORE_LOCK, cronJobLockName } from "../store-backend.js";
 import type { CronServiceState } from "./state.js";
 
 const storeLocks = new Map<string, Promise<void>>();
@@ -8,15 +9,51 @@ const resolveChain = (promise: Promise<unknown>) =>
     () => undefined,
   );
 
-export async function locked<T>(state: CronServiceState, fn: () => Promise<T>): Promise<T> {
-  const storePath = state.deps.storePath;
-  const storeOp = storeLocks.get(storePath) ?? Promise.resolve();
-  const next = Promise.all([resolveChain(state.op), resolveChain(storeOp)]).then(fn);
+/** Cross-process leases taken one at a time inside a `serialized` section. */
+export type CronLeases = {
+  /** Whole-store lease: loading, listing, adding and scanning for due jobs. */
+  store: <T>(fn: () => Promise<T>) => Promise<T>;
+  /** One job's lease, for running or editing that job. */
+  job: <T>(jobId: string, fn: () => Promise<T>) => Promise<T>;
+};
+
+/**
+ * Serialize `fn` against other sections on the same store in-process via a
+ * promise chain keyed by the backend path. Across processes `fn` takes the
+ * backend's leases (a lease row for SQLite; a no-op for the JSON file) as it
+ * goes, so gateways sharing a store do not queue behind each other's runs
+ * and edits of unrelated jobs.
+ */
+export async function serialized<T>(
+  state: CronServiceState,
+  fn: (leases: CronLeases) => Promise<T>,
+): Promise<T> {
+  const storeKey = state.storeBackend.path;
+  const storeOp = storeLocks.get(storeKey) ?? Promise.resolve();
+  const leases: CronLeases = {
+    store: (section) => state.storeBackend.withLock(CRON_STORE_LOCK, section),
+    job: (jobId, section) => state.storeBackend.withLock(cronJobLockName(jobId), section),
+  };
+  const next = Promise.all([resolveChain(state.op), resolveChain(storeOp)]).then(() => fn(leases));
 
   // Keep the chain alive even when the operation fails.
   const keepAlive = resolveChain(next);
   state.op = keepAlive;
-  storeLocks.set(storePath, keepAlive);
+  storeLocks.set(storeKey, keepAlive);
 
   return (await next) as T;
 }
+
+/** Serialized section holding the whole-store lease. */
+export async function locked<T>(state: CronServiceState, fn: () => Promise<T>): Promise<T> {
+  return await serialized(state, (leases) => leases.store(fn));
+}
+
+/** Serialized section holding only `jobId`'s lease. */
+export async function lockedJob<T>(
+  state: CronServiceState,
+  jobId: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return await serialized(state, (leases) => leases.job(jobId, fn));
+}
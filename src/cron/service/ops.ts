@@ -1,24 +1,30 @@
+import { validateCronDependency } from "../normalize.js";
 import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
 import {
+  applyBlackoutDeferral,
   applyJobPatch,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
   isJobDue,
+  listDependentJobIds,
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
 } from "./jobs.js";
-import { locked } from "./locked.js";
-import type { CronServiceState } from "./state.js";
+import { locked, lockedJob, serialized } from "./locked.js";
+import type { CronDeferredJobSummary, CronServiceState } from "./state.js";
 import { ensureLoaded, persist, warnIfDisabled } from "./store.js";
 import {
   applyJobResult,
   armTimer,
   emit,
   executeJobCoreWithTimeout,
+  planJobRetry,
+  retryEventFields,
   runMissedJobs,
   stopTimer,
+  triggerDependentJobsLocked,
   wake,
 } from "./timer.js";
 
@@ -73,6 +79,13 @@ function mergeManualRunSnapshotAfterReload(params: {
   reloaded.state = params.snapshot.state;
 }
 
+function assertJobDependency(state: CronServiceState, job: Pick<CronJob, "id" | "schedule">) {
+  const error = validateCronDependency(state.store?.jobs ?? [], job);
+  if (error) {
+    throw new Error(error);
+  }
+}
+
 async function ensureLoadedForRead(state: CronServiceState) {
   await ensureLoaded(state, { skipRecompute: true });
   if (!state.store) {
@@ -129,6 +142,7 @@ export async function start(state: CronServiceState) {
 
 export function stop(state: CronServiceState) {
   stopTimer(state);
+  state.storeBackend.close();
 }
 
 export async function status(state: CronServiceState) {
@@ -136,13 +150,32 @@ export async function status(state: CronServiceState) {
     await ensureLoadedForRead(state);
     return {
       enabled: state.deps.cronEnabled,
-      storePath: state.deps.storePath,
+      storePath: state.storeBackend.path,
       jobs: state.store?.jobs.length ?? 0,
       nextWakeAtMs: state.deps.cronEnabled ? (nextWakeAtMs(state) ?? null) : null,
+      deferredJobs: listDeferredJobs(state),
     };
   });
 }
 
+function listDeferredJobs(state: CronServiceState): CronDeferredJobSummary[] {
+  const deferred: CronDeferredJobSummary[] = [];
+  for (const job of state.store?.jobs ?? []) {
+    const { deferredReason, deferredFromMs, nextRunAtMs } = job.state;
+    if (!job.enabled || !deferredReason || typeof nextRunAtMs !== "number") {
+      continue;
+    }
+    deferred.push({
+      jobId: job.id,
+      name: job.name,
+      reason: deferredReason,
+      deferredFromMs,
+      nextRunAtMs,
+    });
+  }
+  return deferred.toSorted((a, b) => a.nextRunAtMs - b.nextRunAtMs);
+}
+
 export async function list(state: CronServiceState, opts?: { includeDisabled?: boolean }) {
   return await locked(state, async () => {
     await ensureLoadedForRead(state);
@@ -231,6 +264,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
     const job = createJob(state, input);
+    assertJobDependency(state, job);
     state.store?.jobs.push(job);
 
     // Defensive: recompute all next-run times to ensure consistency
@@ -261,80 +295,113 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
 }
 
 export async function update(state: CronServiceState, id: string, patch: CronJobPatch) {
-  return await locked(state, async () => {
-    warnIfDisabled(state, "update");
-    await ensureLoaded(state, { skipRecompute: true });
-    const job = findJobOrThrow(state, id);
-    const now = state.deps.nowMs();
-    applyJobPatch(job, patch);
-    if (job.schedule.kind === "every") {
-      const anchor = job.schedule.anchorMs;
-      if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
-        const patchSchedule = patch.schedule;
-        const fallbackAnchorMs =
-          patchSchedule?.kind === "every"
-            ? now
-            : typeof job.createdAtMs === "number" && Number.isFinite(job.createdAtMs)
-              ? job.createdAtMs
-              : now;
-        job.schedule = {
-          ...job.schedule,
-          anchorMs: Math.max(0, Math.floor(fallbackAnchorMs)),
-        };
-      }
+  // A schedule edit can add an `after` dependency, so it also takes the store
+  // lease that `remove` checks dependents under.
+  return await serialized(state, (leases) => {
+    const section = () => leases.job(id, () => updateJobLocked(state, id, patch));
+    return patch.schedule ? leases.store(section) : section();
+  });
+}
+
+async function updateJobLocked(state: CronServiceState, id: string, patch: CronJobPatch) {
+  warnIfDisabled(state, "update");
+  await ensureLoaded(state, { skipRecompute: true });
+  const job = findJobOrThrow(state, id);
+  const now = state.deps.nowMs();
+  if (patch.schedule) {
+    assertJobDependency(state, { id: job.id, schedule: patch.schedule });
+  }
+  applyJobPatch(job, patch);
+  if (job.schedule.kind === "every") {
+    const anchor = job.schedule.anchorMs;
+    if (typeof anchor !== "number" || !Number.isFinite(anchor)) {
+      const patchSchedule = patch.schedule;
+      const fallbackAnchorMs =
+        patchSchedule?.kind === "every"
+          ? now
+          : typeof job.createdAtMs === "number" && Number.isFinite(job.createdAtMs)
+            ? job.createdAtMs
+            : now;
+      job.schedule = {
+        ...job.schedule,
+        anchorMs: Math.max(0, Math.floor(fallbackAnchorMs)),
+      };
     }
-    const scheduleChanged = patch.schedule !== undefined;
-    const enabledChanged = patch.enabled !== undefined;
+  }
+  const scheduleChanged = patch.schedule !== undefined;
+  const enabledChanged = patch.enabled !== undefined;
 
-    job.updatedAtMs = now;
-    if (scheduleChanged || enabledChanged) {
-      if (job.enabled) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
-      } else {
-        job.state.nextRunAtMs = undefined;
-        job.state.runningAtMs = undefined;
-      }
-    } else if (job.enabled) {
-      // Non-schedule edits should not mutate other jobs, but still repair a
-      // missing/corrupt nextRunAtMs for the updated job.
-      const nextRun = job.state.nextRunAtMs;
-      if (typeof nextRun !== "number" || !Number.isFinite(nextRun)) {
-        job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
-      }
+  job.updatedAtMs = now;
+  if (scheduleChanged || enabledChanged) {
+    if (job.enabled) {
+      job.state.nextRunAtMs = applyBlackoutDeferral(state, job, computeJobNextRunAtMs(job, now));
+    } else {
+      job.state.nextRunAtMs = undefined;
+      job.state.runningAtMs = undefined;
+      applyBlackoutDeferral(state, job, undefined);
+    }
+  } else if (job.enabled) {
+    // Non-schedule edits should not mutate other jobs, but still repair a
+    // missing/corrupt nextRunAtMs for the updated job.
+    const nextRun = job.state.nextRunAtMs;
+    if (typeof nextRun !== "number" || !Number.isFinite(nextRun)) {
+      job.state.nextRunAtMs = applyBlackoutDeferral(state, job, computeJobNextRunAtMs(job, now));
+    } else if ("blackout" in patch) {
+      // Re-evaluate the pending slot against the new rules, starting from
+      // the originally scheduled time when it was already deferred.
+      job.state.nextRunAtMs = applyBlackoutDeferral(
+        state,
+        job,
+        job.state.deferredFromMs ?? nextRun,
+      );
     }
+  }
 
-    await persist(state);
-    armTimer(state);
-    emit(state, {
-      jobId: id,
-      action: "updated",
-      nextRunAtMs: job.state.nextRunAtMs,
-    });
-    return job;
+  await persist(state);
+  armTimer(state);
+  emit(state, {
+    jobId: id,
+    action: "updated",
+    nextRunAtMs: job.state.nextRunAtMs,
   });
+  return job;
 }
 
 export async function remove(state: CronServiceState, id: string) {
-  return await locked(state, async () => {
-    warnIfDisabled(state, "remove");
-    await ensureLoaded(state);
-    const before = state.store?.jobs.length ?? 0;
-    if (!state.store) {
-      return { ok: false, removed: false } as const;
-    }
-    state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
-    const removed = (state.store.jobs.length ?? 0) !== before;
-    await persist(state);
-    armTimer(state);
-    if (removed) {
-      emit(state, { jobId: id, action: "removed" });
-    }
-    return { ok: true, removed } as const;
-  });
+  // The store lease keeps `add` from creating an `after` dependent between the
+  // dependents check and the delete; the job lease keeps runs and edits of
+  // this job from writing it back. Nothing takes them in the opposite order.
+  return await serialized(state, (leases) =>
+    leases.store(() => leases.job(id, () => removeJobLocked(state, id))),
+  );
+}
+
+async function removeJobLocked(state: CronServiceState, id: string) {
+  warnIfDisabled(state, "remove");
+  await ensureLoaded(state);
+  const before = state.store?.jobs.length ?? 0;
+  if (!state.store) {
+    return { ok: false, removed: false } as const;
+  }
+  // Removing an upstream job would leave `after` jobs waiting forever.
+  const dependents = listDependentJobIds(state, id).filter((jobId) => jobId !== id);
+  if (dependents.length > 0) {
+    throw new Error(
+      `cron job ${id} has dependent jobs (${dependents.join(", ")}); remove them or change their schedule first`,
+    );
+  }
+  state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
+  const removed = (state.store.jobs.length ?? 0) !== before;
+  await persist(state);
+  armTimer(state);
+  if (removed) {
+    emit(state, { jobId: id, action: "removed" });
+  }
+  return { ok: true, removed } as const;
 }
 
 export async function run(state: CronServiceState, id: string, mode?: "due" | "force") {
-  const prepared = await locked(state, async () => {
+  const prepared = await lockedJob(state, id, async () => {
     warnIfDisabled(state, "run");
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
@@ -377,25 +444,29 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
 
   let coreResult: Awaited<ReturnType<typeof executeJobCoreWithTimeout>>;
   try {
-    coreResult = await executeJobCoreWithTimeout(state, executionJob);
+    coreResult = await executeJobCoreWithTimeout(state, executionJob, {
+      forced: mode === "force",
+    });
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
   const endedAt = state.deps.nowMs();
 
-  await locked(state, async () => {
+  const final = await lockedJob(state, jobId, async () => {
     await ensureLoaded(state, { skipRecompute: true });
     const job = state.store?.jobs.find((entry) => entry.id === jobId);
     if (!job) {
-      return;
+      return false;
     }
 
+    const retry = planJobRetry(job, { ...coreResult, endedAt });
     const shouldDelete = applyJobResult(state, job, {
       status: coreResult.status,
       error: coreResult.error,
       delivered: coreResult.delivered,
       startedAt,
       endedAt,
+      retry,
     });
 
     emit(state, {
@@ -415,6 +486,7 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       model: coreResult.model,
       provider: coreResult.provider,
       usage: coreResult.usage,
+      ...retryEventFields(retry),
     });
 
     if (shouldDelete && state.store) {
@@ -442,10 +514,23 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       snapshot: postRunSnapshot,
       removed: postRunRemoved,
     });
-    recomputeNextRunsForMaintenance(state);
     await persist(state);
-    armTimer(state);
+    return retry?.retryAtMs === undefined;
+  });
+  // Dependents are triggered after the reload above (so their due state is
+  // not discarded), each under its own job lock.
+  if (final) {
+    await triggerDependentJobsLocked(state, jobId, { ...coreResult, startedAt, endedAt });
+  }
+  // The maintenance recompute can touch any job, so it runs under the store
+  // lease like the timer's post-run repair.
+  await locked(state, async () => {
+    await ensureLoaded(state, { skipRecompute: true });
+    if (recomputeNextRunsForMaintenance(state)) {
+      await persist(state);
+    }
   });
+  armTimer(state);
 
   return { ok: true, ran: true } as const;
 }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { CronJob } from "../types.js";
+import {
+  DEFAULT_RETRY_BACKOFF_MS,
+  computeCronRetryDelayMs,
+  planCronRetry,
+  resolveCronRetryPolicy,
+} from "./retry-policy.js";
+
+function makeJob(retry?: CronJob["retry"], state: CronJob["state"] = {}): CronJob {
+  return {
+    id: "job-1",
+    name: "job",
+    createdAtMs: 0,
+    updatedAtMs: 0,
+    enabled: true,
+    schedule: { kind: "every", everyMs: 60_000 },
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "agentTurn", message: "hi" },
+    retry,
+    state,
+  };
+}
+
+describe("retry-policy", () => {
+  it("returns undefined for jobs without a retry policy", () => {
+    expect(resolveCronRetryPolicy(makeJob())).toBeUndefined();
+    expect(
+      planCronRetry({ job: makeJob(), status: "error", errorKind: "error", endedAt: 0 }),
+    ).toBeUndefined();
+  });
+
+  it("applies defaults", () => {
+    expect(resolveCronRetryPolicy(makeJob({ maxAttempts: 3 }))).toMatchObject({
+      maxAttempts: 3,
+      backoffMs: DEFAULT_RETRY_BACKOFF_MS,
+      multiplier: 2,
+      jitter: 0,
+      retryOn: ["timeout", "delivery-target", "error"],
+    });
+  });
+
+  it("grows delays exponentially up to the cap", () => {
+    const policy = resolveCronRetryPolicy(
+      makeJob({ maxAttempts: 10, backoffMs: 1_000, maxBackoffMs: 5_000 }),
+    );
+    expect(policy).toBeDefined();
+    const delays = [1, 2, 3, 4].map((attempt) => computeCronRetryDelayMs(policy!, attempt));
+    expect(delays).toEqual([1_000, 2_000, 4_000, 5_000]);
+  });
+
+  it("spreads delays by the jitter ratio", () => {
+    const policy = resolveCronRetryPolicy(
+      makeJob({ maxAttempts: 3, backoffMs: 1_000, jitter: 0.5 }),
+    );
+    expect(computeCronRetryDelayMs(policy!, 1, () => 0)).toBe(500);
+    expect(computeCronRetryDelayMs(policy!, 1, () => 0.5)).toBe(1_000);
+    expect(computeCronRetryDelayMs(policy!, 1, () => 0.999)).toBeLessThan(1_500);
+  });
+
+  it("schedules retries until attempts run out", () => {
+    const retry = { maxAttempts: 2, backoffMs: 1_000 };
+    expect(
+      planCronRetry({ job: makeJob(retry), status: "error", errorKind: "error", endedAt: 10 }),
+    ).toEqual({ attempt: 1, maxAttempts: 2, retryAtMs: 1_010 });
+    expect(
+      planCronRetry({
+        job: makeJob(retry, { retryAttempt: 1 }),
+        status: "error",
+        errorKind: "error",
+        endedAt: 10,
+      }),
+    ).toEqual({ attempt: 2, maxAttempts: 2, exhausted: true });
+  });
+
+  it("does not retry error kinds outside retryOn", () => {
+    const job = makeJob({ maxAttempts: 3, retryOn: ["timeout"] });
+    expect(planCronRetry({ job, status: "error", errorKind: "error", endedAt: 0 })).toEqual({
+      attempt: 1,
+      maxAttempts: 3,
+      exhausted: true,
+    });
+    expect(planCronRetry({ job, status: "ok", errorKind: "error", endedAt: 0 })).toEqual({
+      attempt: 1,
+      maxAttempts: 3,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type { CronDelivery, CronJob, CronRetryErrorKind, CronRunStatus } from "../types.js";
+
+/** Delay before the first retry when the policy does not set one. */
+export const DEFAULT_RETRY_BACKOFF_MS = 30_000; // 30 seconds
+
+/** Ceiling for a single retry delay when the policy does not set one. */
+export const DEFAULT_RETRY_MAX_BACKOFF_MS = 60 * 60_000; // 60 minutes
+
+const DEFAULT_RETRY_MULTIPLIER = 2;
+
+export const CRON_RETRY_ERROR_KINDS: readonly CronRetryErrorKind[] = [
+  "timeout",
+  "delivery-target",
+  "error",
+];
+
+export type ResolvedCronRetryPolicy = {
+  maxAttempts: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+  multiplier: number;
+  jitter: number;
+  retryOn: readonly CronRetryErrorKind[];
+  deadLetter?: CronDelivery;
+};
+
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Resolve a job's retry policy with defaults applied. Returns `undefined`
+ * when the job has no policy configured.
+ */
+export function resolveCronRetryPolicy(job: CronJob): ResolvedCronRetryPolicy | undefined {
+  const retry = job.retry;
+  if (!retry) {
+    return undefined;
+  }
+  const backoffMs = Math.max(0, Math.floor(finiteOr(retry.backoffMs, DEFAULT_RETRY_BACKOFF_MS)));
+  const retryOn = Array.isArray(retry.retryOn)
+    ? CRON_RETRY_ERROR_KINDS.filter((kind) => retry.retryOn?.includes(kind))
+    : CRON_RETRY_ERROR_KINDS;
+  return {
+    maxAttempts: Math.max(1, Math.floor(finiteOr(retry.maxAttempts, 1))),
+    backoffMs,
+    maxBackoffMs: Math.max(
+      backoffMs,
+      Math.floor(finiteOr(retry.maxBackoffMs, DEFAULT_RETRY_MAX_BACKOFF_MS)),
+    ),
+    multiplier: Math.max(1, finiteOr(retry.multiplier, DEFAULT_RETRY_MULTIPLIER)),
+    jitter: Math.min(1, Math.max(0, finiteOr(retry.jitter, 0))),
+    retryOn,
+    deadLetter: retry.deadLetter,
+  };
+}
+
+/**
+ * Delay before the retry that follows `attempt` (1-based). Grows
+ * exponentially, is capped at `maxBackoffMs`, and is spread by up to
+ * `jitter` of its value in either direction.
+ */
+export function computeCronRetryDelayMs(
+  policy: ResolvedCronRetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(policy.maxBackoffMs, policy.backoffMs * policy.multiplier ** exponent);
+  if (policy.jitter <= 0) {
+    return Math.floor(base);
+  }
+  const spread = base * policy.jitter;
+  return Math.max(0, Math.floor(base - spread + random() * spread * 2));
+}
+
+export type CronRetryPlan = {
+  /** Attempt that just finished (1-based). */
+  attempt: number;
+  maxAttempts: number;
+  /** When the next attempt is due; unset when the failure is not retried. */
+  retryAtMs?: number;
+  /** Set when the run failed and no further attempts will be made. */
+  exhausted?: boolean;
+};
+
+/**
+ * Decide what happens after a run of a job with a retry policy. Returns
+ * `undefined` when the job has no policy.
+ */
+export function planCronRetry(params: {
+  job: CronJob;
+  status: CronRunStatus;
+  errorKind: CronRetryErrorKind;
+  endedAt: number;
+  random?: () => number;
+}): CronRetryPlan | undefined {
+  const policy = resolveCronRetryPolicy(params.job);
+  if (!policy) {
+    return undefined;
+  }
+  const attempt = (params.job.state.retryAttempt ?? 0) + 1;
+  const plan: CronRetryPlan = { attempt, maxAttempts: policy.maxAttempts };
+  if (params.status !== "error") {
+    return plan;
+  }
+  if (attempt < policy.maxAttempts && policy.retryOn.includes(params.errorKind)) {
+    plan.retryAtMs = params.endedAt + computeCronRetryDelayMs(policy, attempt, params.random);
+  } else {
+    plan.exhausted = true;
+  }
+  return plan;
+}
@@ -1,5 +1,7 @@
 import type { CronConfig } from "../../config/types.cron.js";
+import { formatErrorMessage } from "../../infra/errors.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
+import { type CronStoreBackend, openCronStoreBackend } from "../store-backend.js";
 import type {
   CronDeliveryStatus,
   CronJob,
@@ -25,6 +27,13 @@ export type CronEvent = {
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
+  /** Attempt number within the job's retry sequence (jobs with a retry policy only). */
+  attempt?: number;
+  maxAttempts?: number;
+  /** When the next retry attempt is due. */
+  retryAtMs?: number;
+  /** The run failed and the retry policy will not try again. */
+  retryExhausted?: boolean;
 } & CronRunTelemetry;
 
 export type Logger = {
@@ -99,25 +108,40 @@ export type CronServiceDepsInternal = Omit<CronServiceDeps, "nowMs"> & {
 
 export type CronServiceState = {
   deps: CronServiceDepsInternal;
+  storeBackend: CronStoreBackend;
   store: CronStoreFile | null;
   timer: NodeJS.Timeout | null;
   running: boolean;
   op: Promise<unknown>;
   warnedDisabled: boolean;
   storeLoadedAtMs: number | null;
-  storeFileMtimeMs: number | null;
+  /** Backend revision the in-memory store was loaded from or last saved as. */
+  storeRevision: number | null;
 };
 
 export function createCronServiceState(deps: CronServiceDeps): CronServiceState {
   return {
     deps: { ...deps, nowMs: deps.nowMs ?? (() => Date.now()) },
+    storeBackend: openCronStoreBackend({
+      storePath: deps.storePath,
+      backend: deps.cronConfig?.storeBackend,
+      onMigrated: (migration) => {
+        deps.log.info(migration, "cron: imported JSON store into SQLite");
+      },
+      onLockLost: ({ name, path, error }) => {
+        deps.log.warn(
+          { lock: name, path, err: error === undefined ? undefined : formatErrorMessage(error) },
+          "cron: lost store lock lease; aborting writes until it is released",
+        );
+      },
+    }),
     store: null,
     timer: null,
     running: false,
     op: Promise.resolve(),
     warnedDisabled: false,
     storeLoadedAtMs: null,
-    storeFileMtimeMs: null,
+    storeRevision: null,
   };
 }
 
@@ -129,6 +153,16 @@ export type CronStatusSummary = {
   storePath: string;
   jobs: number;
   nextWakeAtMs: number | null;
+  /** Enabled jobs whose next run was pushed past a blackout. */
+  deferredJobs: CronDeferredJobSummary[];
+};
+
+export type CronDeferredJobSummary = {
+  jobId: string;
+  name: string;
+  reason: string;
+  deferredFromMs?: number;
+  nextRunAtMs: number;
 };
 
 export type CronRunResult =
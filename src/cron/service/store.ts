@@ -1,4 +1,3 @@
-import fs from "node:fs";
 import {
   buildDeliveryFromLegacyPayload,
   hasLegacyDeliveryHints,
@@ -7,7 +6,6 @@ import {
 import { parseAbsoluteTimeMs } from "../parse.js";
 import { migrateLegacyCronPayload } from "../payload-migration.js";
 import { normalizeCronStaggerMs, resolveDefaultCronStaggerMs } from "../stagger.js";
-import { loadCronStore, saveCronStore } from "../store.js";
 import type { CronJob } from "../types.js";
 import { recomputeNextRuns } from "./jobs.js";
 import { inferLegacyName, normalizeOptionalText } from "./normalize.js";
@@ -211,15 +209,6 @@ function stripLegacyTopLevelFields(raw: Record<string, unknown>) {
   }
 }
 
-async function getFileMtimeMs(path: string): Promise<number | null> {
-  try {
-    const stats = await fs.promises.stat(path);
-    return stats.mtimeMs;
-  } catch {
-    return null;
-  }
-}
-
 export async function ensureLoaded(
   state: CronServiceState,
   opts?: {
@@ -229,16 +218,21 @@ export async function ensureLoaded(
     skipRecompute?: boolean;
   },
 ) {
+  const backend = state.storeBackend;
   // Fast path: store is already in memory. Other callers (add, list, run, …)
-  // trust the in-memory copy to avoid a stat syscall on every operation.
+  // trust the in-memory copy to avoid a stat syscall on every operation;
+  // backends with a reliable revision (SQLite) reload when another gateway
+  // has written since.
   if (state.store && !opts?.forceReload) {
-    return;
+    if (!backend.tracksRevisions || (await backend.revision()) === state.storeRevision) {
+      return;
+    }
   }
-  // Force reload always re-reads the file to avoid missing cross-service
+  // Force reload always re-reads the store to avoid missing cross-service
   // edits on filesystems with coarse mtime resolution.
 
-  const fileMtimeMs = await getFileMtimeMs(state.deps.storePath);
-  const loaded = await loadCronStore(state.deps.storePath);
+  const revision = await backend.revision();
+  const loaded = await backend.load();
   const jobs = (loaded.jobs ?? []) as unknown as Array<Record<string, unknown>>;
   let mutated = false;
   for (const raw of jobs) {
@@ -461,7 +455,7 @@ export async function ensureLoaded(
   }
   state.store = { version: 1, jobs: jobs as unknown as CronJob[] };
   state.storeLoadedAtMs = state.deps.nowMs();
-  state.storeFileMtimeMs = fileMtimeMs;
+  state.storeRevision = revision;
 
   if (!opts?.skipRecompute) {
     recomputeNextRuns(state);
@@ -490,7 +484,7 @@ export async function persist(state: CronServiceState) {
   if (!state.store) {
     return;
   }
-  await saveCronStore(state.deps.storePath, state.store);
-  // Update file mtime after save to prevent immediate reload
-  state.storeFileMtimeMs = await getFileMtimeMs(state.deps.storePath);
+  await state.storeBackend.save(state.store);
+  // Track our own write so the next revision check does not reload it.
+  state.storeRevision = await state.storeBackend.revision();
 }
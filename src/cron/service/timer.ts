@@ -5,17 +5,24 @@ import { sweepCronRunSessions } from "../session-reaper.js";
 import type {
   CronDeliveryStatus,
   CronJob,
+  CronRetryErrorKind,
   CronRunOutcome,
   CronRunStatus,
   CronRunTelemetry,
 } from "../types.js";
 import {
+  applyBlackoutDeferral,
   computeJobNextRunAtMs,
+  listDependentJobIds,
   nextWakeAtMs,
   recomputeNextRunsForMaintenance,
+  resolveBlackoutSkipReason,
+  resolveJobAgentTurnMessage,
   resolveJobPayloadTextForMain,
+  triggerDependentJobs,
 } from "./jobs.js";
-import { locked } from "./locked.js";
+import { serialized, type CronLeases } from "./locked.js";
+import { planCronRetry, type CronRetryPlan } from "./retry-policy.js";
 import type { CronEvent, CronServiceState } from "./state.js";
 import { ensureLoaded, persist } from "./store.js";
 import { DEFAULT_JOB_TIMEOUT_MS, resolveCronJobTimeoutMs } from "./timeout-policy.js";
@@ -42,10 +49,31 @@ type TimedCronRunOutcome = CronRunOutcome &
     endedAt: number;
   };
 
+/**
+ * Skip-mode blackouts turn a due run into a `skipped` outcome. Forced manual
+ * runs bypass them.
+ */
+function resolveBlackoutSkip(
+  state: CronServiceState,
+  job: CronJob,
+  opts?: { forced?: boolean },
+): CronRunOutcome | undefined {
+  if (opts?.forced) {
+    return undefined;
+  }
+  const reason = resolveBlackoutSkipReason(state, job, state.deps.nowMs());
+  return reason ? { status: "skipped", error: `blackout: ${reason}` } : undefined;
+}
+
 export async function executeJobCoreWithTimeout(
   state: CronServiceState,
   job: CronJob,
+  opts?: { forced?: boolean },
 ): Promise<Awaited<ReturnType<typeof executeJobCore>>> {
+  const blackoutSkip = resolveBlackoutSkip(state, job, opts);
+  if (blackoutSkip) {
+    return blackoutSkip;
+  }
   const jobTimeoutMs = resolveCronJobTimeoutMs(job);
   if (typeof jobTimeoutMs !== "number") {
     return await executeJobCore(state, job);
@@ -104,6 +132,56 @@ function errorBackoffMs(consecutiveErrors: number): number {
   return ERROR_BACKOFF_SCHEDULE_MS[Math.max(0, idx)];
 }
 
+function classifyRunError(result: {
+  error?: string;
+  errorKind?: CronRunOutcome["errorKind"];
+}): CronRetryErrorKind {
+  // Manual runs surface the raw rejection text ("Error: cron: job execution timed out").
+  if (result.error?.includes(timeoutErrorMessage())) {
+    return "timeout";
+  }
+  if (result.errorKind === "delivery-target") {
+    return "delivery-target";
+  }
+  return "error";
+}
+
+/**
+ * Resolve the retry decision for a finished run. Must be called before
+ * `applyJobResult`, which advances the job's attempt counter.
+ */
+export function planJobRetry(
+  job: CronJob,
+  result: {
+    status: CronRunStatus;
+    error?: string;
+    errorKind?: CronRunOutcome["errorKind"];
+    endedAt: number;
+  },
+): CronRetryPlan | undefined {
+  return planCronRetry({
+    job,
+    status: result.status,
+    errorKind: classifyRunError(result),
+    endedAt: result.endedAt,
+  });
+}
+
+/** Event fields describing where a run sits within its retry sequence. */
+export function retryEventFields(
+  plan: CronRetryPlan | undefined,
+): Pick<CronEvent, "attempt" | "maxAttempts" | "retryAtMs" | "retryExhausted"> {
+  if (!plan) {
+    return {};
+  }
+  return {
+    attempt: plan.attempt,
+    maxAttempts: plan.maxAttempts,
+    retryAtMs: plan.retryAtMs,
+    retryExhausted: plan.exhausted,
+  };
+}
+
 function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): CronDeliveryStatus {
   if (params.delivered === true) {
     return "delivered";
@@ -116,8 +194,9 @@ function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): C
 
 /**
  * Apply the result of a job execution to the job's state.
- * Handles consecutive error tracking, exponential backoff, one-shot disable,
- * and nextRunAtMs computation. Returns `true` if the job should be deleted.
+ * Handles consecutive error tracking, retry policies, exponential backoff,
+ * one-shot disable, and nextRunAtMs computation. Returns `true` if the job
+ * should be deleted.
  */
 export function applyJobResult(
   state: CronServiceState,
@@ -128,6 +207,7 @@ export function applyJobResult(
     delivered?: boolean;
     startedAt: number;
     endedAt: number;
+    retry?: CronRetryPlan;
   },
 ): boolean {
   job.state.runningAtMs = undefined;
@@ -150,11 +230,34 @@ export function applyJobResult(
     job.state.consecutiveErrors = 0;
   }
 
+  // A pending retry keeps the attempt counter; any other outcome ends the
+  // retry sequence.
+  const retryAtMs = job.enabled ? result.retry?.retryAtMs : undefined;
+  job.state.retryAttempt = retryAtMs !== undefined ? result.retry?.attempt : undefined;
+
+  // One-shot jobs that other jobs depend on are disabled instead of deleted so
+  // the dependents keep a valid upstream.
   const shouldDelete =
-    job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
+    job.schedule.kind === "at" &&
+    job.deleteAfterRun === true &&
+    result.status === "ok" &&
+    listDependentJobIds(state, job.id).length === 0;
 
   if (!shouldDelete) {
-    if (job.schedule.kind === "at") {
+    if (retryAtMs !== undefined) {
+      // Retries take precedence over the schedule so one-shot and dependency
+      // jobs keep their pending run until the policy gives up.
+      job.state.nextRunAtMs = retryAtMs;
+      state.deps.log.info(
+        {
+          jobId: job.id,
+          attempt: result.retry?.attempt,
+          maxAttempts: result.retry?.maxAttempts,
+          nextRunAtMs: retryAtMs,
+        },
+        "cron: scheduling retry",
+      );
+    } else if (job.schedule.kind === "at") {
       // One-shot jobs are always disabled after ANY terminal status
       // (ok, error, or skipped). This prevents tight-loop rescheduling
       // when computeJobNextRunAtMs returns the past atMs value (#11452).
@@ -171,6 +274,11 @@ export function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
+    } else if (job.schedule.kind === "after") {
+      // Dependency jobs wait for the next upstream completion instead of
+      // rescheduling themselves (errors included).
+      job.state.pendingTrigger = undefined;
+      job.state.nextRunAtMs = undefined;
     } else if (result.status === "error" && job.enabled) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
@@ -204,36 +312,130 @@ export function applyJobResult(
     } else {
       job.state.nextRunAtMs = undefined;
     }
+    job.state.nextRunAtMs = applyBlackoutDeferral(state, job, job.state.nextRunAtMs);
   }
 
   return shouldDelete;
 }
 
-function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOutcome): void {
+/** Returns whether the run is final, so dependents should be triggered. */
+function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOutcome): boolean {
   const store = state.store;
   if (!store) {
-    return;
+    return false;
   }
   const jobs = store.jobs;
   const job = jobs.find((entry) => entry.id === result.jobId);
   if (!job) {
-    return;
+    return false;
   }
 
+  const retry = planJobRetry(job, result);
   const shouldDelete = applyJobResult(state, job, {
     status: result.status,
     error: result.error,
     delivered: result.delivered,
     startedAt: result.startedAt,
     endedAt: result.endedAt,
+    retry,
   });
 
-  emitJobFinished(state, job, result, result.startedAt);
+  emitJobFinished(state, job, result, result.startedAt, retry);
 
   if (shouldDelete) {
     store.jobs = jobs.filter((entry) => entry.id !== job.id);
     emit(state, { jobId: job.id, action: "removed" });
   }
+  return retry?.retryAtMs === undefined;
+}
+
+/**
+ * Trigger the dependents of a finished run, each under its own job lease so a
+ * gateway editing a dependent cannot overwrite the trigger.
+ */
+async function triggerDependents(
+  state: CronServiceState,
+  leases: CronLeases,
+  upstreamJobId: string,
+  result: { status: CronRunStatus; summary?: string; startedAt: number; endedAt: number },
+) {
+  for (const jobId of listDependentJobIds(state, upstreamJobId)) {
+    await leases.job(jobId, async () => {
+      await ensureLoaded(state, { skipRecompute: true });
+      if (triggerDependentJobs(state, upstreamJobId, result, { jobId }).length > 0) {
+        await persist(state);
+      }
+    });
+  }
+}
+
+export async function triggerDependentJobsLocked(
+  state: CronServiceState,
+  upstreamJobId: string,
+  result: { status: CronRunStatus; summary?: string; startedAt: number; endedAt: number },
+) {
+  await serialized(state, (leases) => triggerDependents(state, leases, upstreamJobId, result));
+}
+
+/**
+ * Mark runnable jobs as running, each under its own job lease, and return the
+ * ones this gateway claimed. Another gateway may have claimed or edited a job
+ * since the store-wide scan, so each one is checked again after reloading.
+ */
+async function claimRunnableJobs(
+  state: CronServiceState,
+  leases: CronLeases,
+  jobIds: string[],
+  opts?: { skipAtIfAlreadyRan?: boolean },
+): Promise<CronJob[]> {
+  const claimed: CronJob[] = [];
+  for (const jobId of jobIds) {
+    const job = await leases.job(jobId, async () => {
+      await ensureLoaded(state, { forceReload: true, skipRecompute: true });
+      const now = state.deps.nowMs();
+      const job = state.store?.jobs.find((entry) => entry.id === jobId);
+      if (
+        !job ||
+        !isRunnableJob({ job, nowMs: now, skipAtIfAlreadyRan: opts?.skipAtIfAlreadyRan })
+      ) {
+        return null;
+      }
+      job.state.runningAtMs = now;
+      job.state.lastError = undefined;
+      await persist(state);
+      return job;
+    });
+    if (job) {
+      claimed.push(job);
+    }
+  }
+  return claimed;
+}
+
+/** Store run outcomes job by job, then repair schedules store-wide. */
+async function applyRunOutcomes(state: CronServiceState, outcomes: TimedCronRunOutcome[]) {
+  await serialized(state, async (leases) => {
+    for (const result of outcomes) {
+      const final = await leases.job(result.jobId, async () => {
+        await ensureLoaded(state, { forceReload: true, skipRecompute: true });
+        const final = applyOutcomeToStoredJob(state, result);
+        await persist(state);
+        return final;
+      });
+      if (final) {
+        await triggerDependents(state, leases, result.jobId, result);
+      }
+    }
+    await leases.store(async () => {
+      await ensureLoaded(state, { skipRecompute: true });
+      // Maintenance-only recompute: past-due nextRunAtMs values that became due
+      // while these jobs ran must execute on a future tick instead of being
+      // silently advanced (#17852).
+      if (recomputeNextRunsForMaintenance(state)) {
+        await persist(state);
+      }
+    });
+  });
 }
 
 export function armTimer(state: CronServiceState) {
@@ -312,33 +514,26 @@ export async function onTimer(state: CronServiceState) {
   // (for example in a provider call), the scheduler still wakes to re-check.
   armRunningRecheckTimer(state);
   try {
-    const dueJobs = await locked(state, async () => {
-      await ensureLoaded(state, { forceReload: true, skipRecompute: true });
-      const due = findDueJobs(state);
-
-      if (due.length === 0) {
-        // Use maintenance-only recompute to avoid advancing past-due nextRunAtMs
-        // values without execution. This prevents jobs from being silently skipped
-        // when the timer wakes up but findDueJobs returns empty (see #13992).
-        const changed = recomputeNextRunsForMaintenance(state);
-        if (changed) {
-          await persist(state);
-        }
-        return [];
-      }
-
-      const now = state.deps.nowMs();
-      for (const job of due) {
-        job.state.runningAtMs = now;
-        job.state.lastError = undefined;
-      }
-      await persist(state);
+    const claimedJobs = await serialized(state, async (leases) => {
+      const dueJobIds = await leases.store(async () => {
+        await ensureLoaded(state, { forceReload: true, skipRecompute: true });
+        const due = findDueJobs(state);
 
-      return due.map((j) => ({
-        id: j.id,
-        job: j,
-      }));
+        if (due.length === 0) {
+          // Use maintenance-only recompute to avoid advancing past-due nextRunAtMs
+          // values without execution. This prevents jobs from being silently skipped
+          // when the timer wakes up but findDueJobs returns empty (see #13992).
+          const changed = recomputeNextRunsForMaintenance(state);
+          if (changed) {
+            await persist(state);
+          }
+          return [];
+        }
+        return due.map((job) => job.id);
+      });
+      return await claimRunnableJobs(state, leases, dueJobIds);
     });
+    const dueJobs = claimedJobs.map((job) => ({ id: job.id, job }));
 
     const runDueJob = async (params: {
       id: string;
@@ -392,21 +587,7 @@ export async function onTimer(state: CronServiceState) {
     );
 
     if (completedResults.length > 0) {
-      await locked(state, async () => {
-        await ensureLoaded(state, { forceReload: true, skipRecompute: true });
-
-        for (const result of completedResults) {
-          applyOutcomeToStoredJob(state, result);
-        }
-
-        // Use maintenance-only recompute to avoid advancing past-due
-        // nextRunAtMs values that became due between findDueJobs and this
-        // locked block.  The full recomputeNextRuns would silently skip
-        // those jobs (advancing nextRunAtMs without execution), causing
-        // daily cron schedules to jump 48 h instead of 24 h (#17852).
-        recomputeNextRunsForMaintenance(state);
-        await persist(state);
-      });
+      await applyRunOutcomes(state, completedResults);
     }
     // Piggyback session reaper on timer tick (self-throttled to every 5 min).
     const storePaths = new Set<string>();
@@ -505,28 +686,26 @@ export async function runMissedJobs(
   state: CronServiceState,
   opts?: { skipJobIds?: ReadonlySet<string> },
 ) {
-  const startupCandidates = await locked(state, async () => {
-    await ensureLoaded(state, { skipRecompute: true });
-    if (!state.store) {
-      return [] as Array<{ jobId: string; job: CronJob }>;
-    }
-    const now = state.deps.nowMs();
-    const skipJobIds = opts?.skipJobIds;
-    const missed = collectRunnableJobs(state, now, { skipJobIds, skipAtIfAlreadyRan: true });
-    if (missed.length === 0) {
-      return [] as Array<{ jobId: string; job: CronJob }>;
-    }
+  const claimedJobs = await serialized(state, async (leases) => {
+    const missedJobIds = await leases.store(async () => {
+      await ensureLoaded(state, { skipRecompute: true });
+      if (!state.store) {
+        return [];
+      }
+      const now = state.deps.nowMs();
+      const skipJobIds = opts?.skipJobIds;
+      const missed = collectRunnableJobs(state, now, { skipJobIds, skipAtIfAlreadyRan: true });
+      return missed.map((job) => job.id);
+    });
+    return await claimRunnableJobs(state, leases, missedJobIds, { skipAtIfAlreadyRan: true });
+  });
+  const startupCandidates = claimedJobs.map((job) => ({ jobId: job.id, job }));
+  if (startupCandidates.length > 0) {
     state.deps.log.info(
-      { count: missed.length, jobIds: missed.map((j) => j.id) },
+      { count: startupCandidates.length, jobIds: startupCandidates.map((entry) => entry.jobId) },
       "cron: running missed jobs after restart",
     );
-    for (const job of missed) {
-      job.state.runningAtMs = now;
-      job.state.lastError = undefined;
-    }
-    await persist(state);
-    return missed.map((job) => ({ jobId: job.id, job }));
-  });
+  }
 
   if (startupCandidates.length === 0) {
     return;
@@ -542,6 +721,7 @@ export async function runMissedJobs(
         jobId: candidate.jobId,
         status: result.status,
         error: result.error,
+        errorKind: result.errorKind,
         summary: result.summary,
         delivered: result.delivered,
         sessionId: result.sessionId,
@@ -563,22 +743,7 @@ export async function runMissedJobs(
     }
   }
 
-  await locked(state, async () => {
-    await ensureLoaded(state, { forceReload: true, skipRecompute: true });
-    if (!state.store) {
-      return;
-    }
-
-    for (const result of outcomes) {
-      applyOutcomeToStoredJob(state, result);
-    }
-
-    // Preserve any new past-due nextRunAtMs values that became due while
-    // startup catch-up was running. They should execute on a future tick
-    // instead of being silently advanced.
-    recomputeNextRunsForMaintenance(state);
-    await persist(state);
-  });
+  await applyRunOutcomes(state, outcomes);
 }
 
 export async function runDueJobs(state: CronServiceState) {
@@ -722,7 +887,7 @@ export async function executeJobCore(
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message: resolveJobAgentTurnMessage(job) ?? job.payload.message,
     abortSignal,
   });
 
@@ -766,6 +931,7 @@ export async function executeJobCore(
   return {
     status: res.status,
     error: res.error,
+    errorKind: res.errorKind,
     summary: res.summary,
     delivered: res.delivered,
     deliveryAttempted: res.deliveryAttempted,
@@ -785,7 +951,7 @@ export async function executeJob(
   state: CronServiceState,
   job: CronJob,
   _nowMs: number,
-  _opts: { forced: boolean },
+  opts: { forced: boolean },
 ) {
   if (!job.state) {
     job.state = {};
@@ -801,21 +967,26 @@ export async function executeJob(
   } & CronRunOutcome &
     CronRunTelemetry;
   try {
-    coreResult = await executeJobCore(state, job);
+    coreResult = resolveBlackoutSkip(state, job, opts) ?? (await executeJobCore(state, job));
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
 
   const endedAt = state.deps.nowMs();
+  const retry = planJobRetry(job, { ...coreResult, endedAt });
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
     delivered: coreResult.delivered,
     startedAt,
     endedAt,
+    retry,
   });
 
-  emitJobFinished(state, job, coreResult, startedAt);
+  emitJobFinished(state, job, coreResult, startedAt, retry);
+  if (retry?.retryAtMs === undefined) {
+    triggerDependentJobs(state, job.id, { ...coreResult, startedAt, endedAt });
+  }
 
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -832,6 +1003,7 @@ function emitJobFinished(
   } & CronRunOutcome &
     CronRunTelemetry,
   runAtMs: number,
+  retry?: CronRetryPlan,
 ) {
   emit(state, {
     jobId: job.id,
@@ -850,6 +1022,7 @@ function emitJobFinished(
     model: result.model,
     provider: result.provider,
     usage: result.usage,
+    ...retryEventFields(retry),
   });
 }
 
@@ -0,0 +1,83 @@
+import fs from "node:fs";
+import type { CronStoreBackendKind } from "../config/types.cron.js";
+import {
+  type CronSqliteLockLost,
+  type CronSqliteMigration,
+  createSqliteCronStoreBackend,
+} from "./store-sqlite.js";
+import { loadCronStore, saveCronStore } from "./store.js";
+import type { CronStoreFile } from "./types.js";
+
+export type CronStoreBackend = {
+  kind: CronStoreBackendKind;
+  /** Location of the backing file (the JSON store or the SQLite database). */
+  path: string;
+  /**
+   * Whether `revision()` reliably changes on every write by another process.
+   * File mtimes can be too coarse for that, so the JSON backend opts out and
+   * callers keep trusting their in-memory copy between forced reloads.
+   */
+  tracksRevisions: boolean;
+  revision(): Promise<number | null>;
+  load(): Promise<CronStoreFile>;
+  save(store: CronStoreFile): Promise<void>;
+  /**
+   * Run `fn` while holding the named lock for every process sharing this
+   * store. In-process serialization is the caller's job (see service/locked.ts).
+   */
+  withLock<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  close(): void;
+};
+
+/** Lock name for whole-store sections: loading, listing and scanning for due jobs. */
+export const CRON_STORE_LOCK = "store";
+
+/** Lock name for sections that run or edit a single job. */
+export function cronJobLockName(jobId: string) {
+  return `job:${jobId}`;
+}
+
+export function resolveCronSqliteStorePath(storePath: string) {
+  if (/\.(sqlite|db)$/i.test(storePath)) {
+    return storePath;
+  }
+  return `${storePath.replace(/\.json5?$/i, "")}.sqlite`;
+}
+
+export function createJsonCronStoreBackend(storePath: string): CronStoreBackend {
+  return {
+    kind: "json",
+    path: storePath,
+    tracksRevisions: false,
+    revision: async () => {
+      try {
+        return (await fs.promises.stat(storePath)).mtimeMs;
+      } catch {
+        return null;
+      }
+    },
+    load: async () => await loadCronStore(storePath),
+    save: async (store) => await saveCronStore(storePath, store),
+    // A single gateway owns the JSON file; in-process serialization is enough.
+    withLock: async (_name, fn) => await fn(),
+    close: () => {},
+  };
+}
+
+export function openCronStoreBackend(params: {
+  storePath: string;
+  backend?: CronStoreBackendKind;
+  onMigrated?: (migration: CronSqliteMigration) => void;
+  onLockLost?: (lost: CronSqliteLockLost) => void;
+}): CronStoreBackend {
+  if (params.backend === "sqlite") {
+    const dbPath = resolveCronSqliteStorePath(params.storePath);
+    return createSqliteCronStoreBackend({
+      path: dbPath,
+      legacyJsonPath: dbPath === params.storePath ? undefined : params.storePath,
+      onMigrated: params.onMigrated,
+      onLockLost: params.onLockLost,
+    });
+  }
+  return createJsonCronStoreBackend(params.storePath);
+}
@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { openCronStoreBackend, resolveCronSqliteStorePath } from "./store-backend.js";
+import { type CronSqliteLockLost, createSqliteCronStoreBackend } from "./store-sqlite.js";
+import type { CronJob } from "./types.js";
+
+function makeJob(id: string, name = id): CronJob {
+  return {
+    id,
+    name,
+    enabled: true,
+    createdAtMs: 1,
+    updatedAtMs: 1,
+    schedule: { kind: "every", everyMs: 60_000 },
+    sessionTarget: "main",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "systemEvent", text: name },
+    state: {},
+  };
+}
+
+describe("sqlite cron store", () => {
+  let dir = "";
+  let dbPath = "";
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-cron-sqlite-"));
+    dbPath = path.join(dir, "jobs.sqlite");
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("places the database next to the JSON store", () => {
+    expect(resolveCronSqliteStorePath("/state/cron/jobs.json")).toBe("/state/cron/jobs.sqlite");
+    expect(resolveCronSqliteStorePath("/state/cron/custom.db")).toBe("/state/cron/custom.db");
+  });
+
+  it("imports the JSON store once and parks the file", async () => {
+    const jsonPath = path.join(dir, "jobs.json");
+    await fs.writeFile(jsonPath, JSON.stringify({ version: 1, jobs: [makeJob("a")] }), "utf-8");
+    const migrations: unknown[] = [];
+    const backend = openCronStoreBackend({
+      storePath: jsonPath,
+      backend: "sqlite",
+      onMigrated: (migration) => migrations.push(migration),
+    });
+    try {
+      expect(backend.path).toBe(dbPath);
+      expect((await backend.load()).jobs.map((job) => job.id)).toEqual(["a"]);
+      expect(migrations).toEqual([{ from: jsonPath, to: dbPath, jobs: 1 }]);
+      await expect(fs.access(jsonPath)).rejects.toThrow();
+      await expect(fs.access(`${jsonPath}.migrated`)).resolves.toBeUndefined();
+
+      // A JSON file that reappears later is not imported again.
+      await fs.writeFile(jsonPath, JSON.stringify({ version: 1, jobs: [makeJob("b")] }), "utf-8");
+      expect((await backend.load()).jobs.map((job) => job.id)).toEqual(["a"]);
+      expect(migrations).toHaveLength(1);
+    } finally {
+      backend.close();
+    }
+  });
+
+  it("writes only changed rows so concurrent writers keep each other's jobs", async () => {
+    const first = createSqliteCronStoreBackend({ path: dbPath });
+    const second = createSqliteCronStoreBackend({ path: dbPath });
+    try {
+      await first.save({ version: 1, jobs: [makeJob("a"), makeJob("b")] });
+      const before = await first.revision();
+
+      const fromFirst = await first.load();
+      const fromSecond = await second.load();
+      fromSecond.jobs.push(makeJob("c"));
+      await second.save(fromSecond);
+
+      fromFirst.jobs[0] = makeJob("a", "renamed");
+      fromFirst.jobs = fromFirst.jobs.filter((job) => job.id !== "b");
+      await first.save(fromFirst);
+
+      expect(await first.revision()).toBe((before ?? 0) + 2);
+      const loaded = await second.load();
+      expect(loaded.jobs.map((job) => [job.id, job.name])).toEqual([
+        ["a", "renamed"],
+        ["c", "c"],
+      ]);
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+
+  it("does not bump the revision when nothing changed", async () => {
+    const backend = createSqliteCronStoreBackend({ path: dbPath });
+    try {
+      await backend.save({ version: 1, jobs: [makeJob("a")] });
+      const revision = await backend.revision();
+      await backend.save(await backend.load());
+      expect(await backend.revision()).toBe(revision);
+    } finally {
+      backend.close();
+    }
+  });
+
+  it("holds locks across connections and takes over expired leases", async () => {
+    const holder = createSqliteCronStoreBackend({ path: dbPath, lockLeaseMs: 60_000 });
+    const waiter = createSqliteCronStoreBackend({ path: dbPath, lockTimeoutMs: 100 });
+    try {
+      let release!: () => void;
+      const held = holder.withLock("store", () => new Promise<void>((r) => (release = r)));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await expect(waiter.withLock("store", async () => "ran")).rejects.toThrow(
+        /Timed out waiting for cron store lock "store"/,
+      );
+      // Other lock names are independent rows.
+      await expect(waiter.withLock("job:a", async () => "ran")).resolves.toBe("ran");
+
+      release();
+      await held;
+      await expect(waiter.withLock("store", async () => "ran")).resolves.toBe("ran");
+
+      const crashed = createSqliteCronStoreBackend({ path: dbPath, lockLeaseMs: 1 });
+      void crashed.withLock("store", () => new Promise<void>(() => {}));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await expect(waiter.withLock("store", async () => "took over")).resolves.toBe("took over");
+      crashed.close();
+    } finally {
+      holder.close();
+      waiter.close();
+    }
+  });
+
+  it("stops writing once a lease is taken over instead of clobbering the new holder", async () => {
+    let lost!: (value: CronSqliteLockLost) => void;
+    const lostLock = new Promise<CronSqliteLockLost>((resolve) => (lost = resolve));
+    const holder = createSqliteCronStoreBackend({
+      path: dbPath,
+      lockLeaseMs: 1,
+      onLockLost: lost,
+    });
+    const thief = createSqliteCronStoreBackend({ path: dbPath });
+    try {
+      const store = await holder.load();
+      await holder.withLock("store", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await thief.withLock("store", async () => {
+          await thief.save({ version: 1, jobs: [makeJob("thief")] });
+          // The holder's next renew finds the row owned by someone else.
+          await expect(lostLock).resolves.toMatchObject({ name: "store", path: dbPath });
+        });
+        await expect(holder.save({ ...store, jobs: [makeJob("stale")] })).rejects.toThrow(
+          /Lost cron store lock "store"/,
+        );
+      });
+
+      expect((await thief.load()).jobs.map((job) => job.id)).toEqual(["thief"]);
+      // A fresh lease clears the lost state.
+      await holder.withLock("store", async () => {
+        await holder.load();
+        await holder.save({ version: 1, jobs: [makeJob("thief"), makeJob("fresh")] });
+      });
+      expect((await thief.load()).jobs.map((job) => job.id)).toEqual(["thief", "fresh"]);
+    } finally {
+      holder.close();
+      thief.close();
+    }
+  });
+});
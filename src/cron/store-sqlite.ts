@@ -0,0 +1,330 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+import { requireNodeSqlite } from "../memory/sqlite.js";
+import type { CronStoreBackend } from "./store-backend.js";
+import { loadCronStore } from "./store.js";
+import type { CronJob, CronStoreFile } from "./types.js";
+
+const DEFAULT_LOCK_LEASE_MS = 60_000;
+const DEFAULT_LOCK_TIMEOUT_MS = 120_000;
+const LOCK_POLL_MS = 50;
+const BUSY_TIMEOUT_MS = 5_000;
+
+const META_REVISION = "revision";
+const META_LEGACY_JSON_MIGRATED = "legacy_json_migrated";
+
+type StoredRow = { position: number; json: string };
+
+export type CronSqliteMigration = { from: string; to: string; jobs: number };
+
+export type CronSqliteLockLost = { name: string; path: string; error?: unknown };
+
+function ensureCronStoreSchema(db: DatabaseSync) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      position INTEGER NOT NULL,
+      job TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+  // One row per held lock. Rows carry a lease so a crashed gateway cannot
+  // wedge the store: an expired row is taken over by the next acquirer.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS locks (
+      name TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    );
+  `);
+}
+
+function withTransaction<T>(db: DatabaseSync, fn: () => T): T {
+  // IMMEDIATE takes the write lock up front so two gateways cannot both read
+  // a stale row and then race to write it.
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn();
+    db.exec("COMMIT");
+    return result;
+  } catch (err) {
+    db.exec("ROLLBACK");
+    throw err;
+  }
+}
+
+function readMeta(db: DatabaseSync, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value;
+}
+
+function writeMeta(db: DatabaseSync, key: string, value: string) {
+  db.prepare(
+    "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+  ).run(key, value);
+}
+
+function readRevision(db: DatabaseSync): number {
+  const raw = Number(readMeta(db, META_REVISION));
+  return Number.isFinite(raw) ? raw : 0;
+}
+
+function bumpRevision(db: DatabaseSync): number {
+  const next = readRevision(db) + 1;
+  writeMeta(db, META_REVISION, String(next));
+  return next;
+}
+
+function upsertJob(db: DatabaseSync, id: string, row: StoredRow, nowMs: number) {
+  db.prepare(
+    `INSERT INTO jobs (id, position, job, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       position = excluded.position,
+       job = excluded.job,
+       updated_at = excluded.updated_at`,
+  ).run(id, row.position, row.json, nowMs);
+}
+
+function toRows(jobs: CronJob[]): Map<string, StoredRow> {
+  const rows = new Map<string, StoredRow>();
+  jobs.forEach((job, position) => {
+    rows.set(job.id, { position, json: JSON.stringify(job) });
+  });
+  return rows;
+}
+
+export function createSqliteCronStoreBackend(params: {
+  path: string;
+  /** JSON store to import once when the database is first opened. */
+  legacyJsonPath?: string;
+  onMigrated?: (migration: CronSqliteMigration) => void;
+  /** Called when a held lease could not be renewed; writes fail until it is released. */
+  onLockLost?: (lost: CronSqliteLockLost) => void;
+  lockLeaseMs?: number;
+  lockTimeoutMs?: number;
+}): CronStoreBackend {
+  const dbPath = params.path;
+  const lockLeaseMs = params.lockLeaseMs ?? DEFAULT_LOCK_LEASE_MS;
+  const lockTimeoutMs = params.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const owner = `${process.pid}:${randomUUID()}`;
+  const heldLocks = new Set<string>();
+  // Held locks whose lease could not be renewed. Another gateway may own
+  // them by now, so writing under them would clobber its changes.
+  const lostLocks = new Set<string>();
+  let db: DatabaseSync | null = null;
+  // Rows as of the last load/save; saves only touch rows that differ so two
+  // gateways editing different jobs do not overwrite each other.
+  let snapshot = new Map<string, StoredRow>();
+
+  const open = (): DatabaseSync => {
+    if (db) {
+      return db;
+    }
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const { DatabaseSync } = requireNodeSqlite();
+    const next = new DatabaseSync(dbPath);
+    next.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    next.exec("PRAGMA journal_mode = WAL");
+    ensureCronStoreSchema(next);
+    db = next;
+    return next;
+  };
+
+  const migrateLegacyJsonStore = async (conn: DatabaseSync) => {
+    const legacyPath = params.legacyJsonPath;
+    if (!legacyPath || readMeta(conn, META_LEGACY_JSON_MIGRATED)) {
+      return;
+    }
+    const legacyExists = fs.existsSync(legacyPath);
+    const legacy = legacyExists ? await loadCronStore(legacyPath) : { version: 1, jobs: [] };
+    const imported = withTransaction(conn, () => {
+      // Another gateway may have finished the import while we read the file.
+      if (readMeta(conn, META_LEGACY_JSON_MIGRATED)) {
+        return 0;
+      }
+      const existing = conn.prepare("SELECT COUNT(*) AS count FROM jobs").get() as {
+        count: number;
+      };
+      let count = 0;
+      if (existing.count === 0) {
+        const nowMs = Date.now();
+        for (const [id, row] of toRows(legacy.jobs)) {
+          upsertJob(conn, id, row, nowMs);
+          count += 1;
+        }
+      }
+      writeMeta(conn, META_LEGACY_JSON_MIGRATED, String(Date.now()));
+      if (count > 0) {
+        bumpRevision(conn);
+      }
+      return count;
+    });
+    if (!legacyExists) {
+      return;
+    }
+    // Park the JSON file so nothing keeps editing a store the gateway no
+    // longer reads. It stays on disk as a backup.
+    try {
+      await fs.promises.rename(legacyPath, `${legacyPath}.migrated`);
+    } catch (err) {
+      if ((err as { code?: unknown })?.code !== "ENOENT") {
+        throw err;
+      }
+    }
+    params.onMigrated?.({ from: legacyPath, to: dbPath, jobs: imported });
+  };
+
+  const tryAcquireLock = (conn: DatabaseSync, name: string) =>
+    withTransaction(conn, () => {
+      const nowMs = Date.now();
+      const row = conn.prepare("SELECT owner, expires_at FROM locks WHERE name = ?").get(name) as
+        | { owner: string; expires_at: number }
+        | undefined;
+      if (row && row.owner !== owner && row.expires_at > nowMs) {
+        return row;
+      }
+      conn
+        .prepare(
+          `INSERT INTO locks (name, owner, expires_at) VALUES (?, ?, ?)
+           ON CONFLICT(name) DO UPDATE SET owner = excluded.owner, expires_at = excluded.expires_at`,
+        )
+        .run(name, owner, nowMs + lockLeaseMs);
+      return null;
+    });
+
+  const acquireLock = async (name: string) => {
+    const conn = open();
+    const deadline = Date.now() + lockTimeoutMs;
+    for (;;) {
+      const holder = tryAcquireLock(conn, name);
+      if (!holder) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out waiting for cron store lock "${name}" in ${dbPath} (held by ${holder.owner})`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+    }
+  };
+
+  const releaseLock = (name: string) => {
+    open().prepare("DELETE FROM locks WHERE name = ? AND owner = ?").run(name, owner);
+  };
+
+  return {
+    kind: "sqlite",
+    path: dbPath,
+    tracksRevisions: true,
+    revision: async () => readRevision(open()),
+    load: async (): Promise<CronStoreFile> => {
+      const conn = open();
+      await migrateLegacyJsonStore(conn);
+      const rows = conn.prepare("SELECT id, job FROM jobs ORDER BY position, id").all() as Array<{
+        id: string;
+        job: string;
+      }>;
+      const jobs: CronJob[] = [];
+      const next = new Map<string, StoredRow>();
+      for (const row of rows) {
+        let job: CronJob;
+        try {
+          job = JSON.parse(row.job) as CronJob;
+        } catch (err) {
+          throw new Error(`Failed to parse cron job ${row.id} in ${dbPath}: ${String(err)}`, {
+            cause: err,
+          });
+        }
+        next.set(row.id, { position: jobs.length, json: row.job });
+        jobs.push(job);
+      }
+      snapshot = next;
+      return { version: 1, jobs };
+    },
+    save: async (store) => {
+      const [lost] = lostLocks;
+      if (lost !== undefined) {
+        throw new Error(`Lost cron store lock "${lost}" in ${dbPath}; not saving`);
+      }
+      const conn = open();
+      const next = toRows(store.jobs);
+      const changed = [...next].filter(([id, row]) => {
+        const prev = snapshot.get(id);
+        return !prev || prev.position !== row.position || prev.json !== row.json;
+      });
+      const removed = [...snapshot.keys()].filter((id) => !next.has(id));
+      if (changed.length > 0 || removed.length > 0) {
+        withTransaction(conn, () => {
+          const nowMs = Date.now();
+          for (const [id, row] of changed) {
+            upsertJob(conn, id, row, nowMs);
+          }
+          for (const id of removed) {
+            conn.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+          }
+          bumpRevision(conn);
+        });
+      }
+      snapshot = next;
+    },
+    withLock: async (name, fn) => {
+      // Re-entrant: nested sections under the same name share the outer lease.
+      if (heldLocks.has(name)) {
+        return await fn();
+      }
+      await acquireLock(name);
+      heldLocks.add(name);
+      const markLost = (error?: unknown) => {
+        clearInterval(renew);
+        lostLocks.add(name);
+        params.onLockLost?.({ name, path: dbPath, error });
+      };
+      const renew = setInterval(
+        () => {
+          if (!db) {
+            return;
+          }
+          try {
+            const result = db
+              .prepare("UPDATE locks SET expires_at = ? WHERE name = ? AND owner = ?")
+              .run(Date.now() + lockLeaseMs, name, owner);
+            // No row: the lease expired and another gateway took it over.
+            if (result.changes === 0) {
+              markLost();
+            }
+          } catch (err) {
+            markLost(err);
+          }
+        },
+        Math.max(1_000, Math.floor(lockLeaseMs / 3)),
+      );
+      renew.unref?.();
+      try {
+        return await fn();
+      } finally {
+        clearInterval(renew);
+        heldLocks.delete(name);
+        lostLocks.delete(name);
+        releaseLock(name);
+      }
+    },
+    close: () => {
+      if (!db) {
+        return;
+      }
+      db.close();
+      db = null;
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import type { ChannelId } from "../channels/plugins/types.js";
+import type { CronBlackoutConfig } from "../config/types.cron.js";
 
 export type CronSchedule =
   | { kind: "at"; at: string }
@@ -9,6 +10,14 @@ export type CronSchedule =
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
+    }
+  | {
+      /** Run after another job's run finishes (dependency chain). */
+      kind: "after";
+      /** Upstream job id whose completed runs trigger this job. */
+      jobId: string;
+      /** Upstream run statuses that fire this job (default: ["ok"]). */
+      onStatus?: CronRunStatus[];
     };
 
 export type CronSessionTarget = "main" | "isolated";
@@ -29,6 +38,29 @@ export type CronDelivery = {
 
 export type CronDeliveryPatch = Partial<CronDelivery>;
 
+/** Failure classes a retry policy can opt into. */
+export type CronRetryErrorKind = "timeout" | "delivery-target" | "error";
+
+export type CronRetryPolicy = {
+  /** Total attempts per scheduled run, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry (default: 30s). */
+  backoffMs?: number;
+  /** Upper bound for a single retry delay (default: 1h). */
+  maxBackoffMs?: number;
+  /** Growth factor applied per attempt (default: 2). */
+  multiplier?: number;
+  /** Random jitter ratio (0-1) applied to each delay (default: 0). */
+  jitter?: number;
+  /** Error kinds that qualify for a retry (default: all). */
+  retryOn?: CronRetryErrorKind[];
+  /** Delivery target notified once all attempts are exhausted. */
+  deadLetter?: CronDelivery;
+};
+
+/** Quiet hours and calendar skip list; same shape as the global `cron.blackout` config. */
+export type CronBlackout = CronBlackoutConfig;
+
 export type CronRunStatus = "ok" | "error" | "skipped";
 export type CronDeliveryStatus = "delivered" | "not-delivered" | "unknown" | "not-requested";
 
@@ -107,6 +139,21 @@ export type CronJobState = {
   lastDeliveryError?: string;
   /** Whether the last run's output was delivered to the target channel. */
   lastDelivered?: boolean;
+  /** Attempt number of the last run within the current retry sequence (1-based). */
+  retryAttempt?: number;
+  /** Upstream run that made an `after` job due; cleared once the job runs. */
+  pendingTrigger?: CronJobTrigger;
+  /** Why nextRunAtMs was pushed past its scheduled slot (blackout window or calendar event). */
+  deferredReason?: string;
+  /** Scheduled slot the current nextRunAtMs was deferred from. */
+  deferredFromMs?: number;
+};
+
+export type CronJobTrigger = {
+  jobId: string;
+  status: CronRunStatus;
+  runAtMs: number;
+  summary?: string;
 };
 
 export type CronJob = {
@@ -125,6 +172,8 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
+  blackout?: CronBlackout;
   state: CronJobState;
 };
 
@@ -137,8 +186,14 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "retry" | "blackout">
+> & {
   payload?: CronPayloadPatch;
+  /** Replaces the retry policy; `null` removes it. */
+  retry?: CronRetryPolicy | null;
+  /** Replaces the job's blackout rules; `null` removes them. */
+  blackout?: CronBlackout | null;
   delivery?: CronDeliveryPatch;
   state?: Partial<CronJobState>;
 };
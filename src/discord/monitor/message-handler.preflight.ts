@@ -26,7 +26,8 @@ import { logDebug } from "../../logger.js";
 import { getChildLogger } from "../../logging.js";
 import { buildPairingReply } from "../../pairing/pairing-messages.js";
 import { upsertChannelPairingRequest } from "../../pairing/pairing-store.js";
-import { resolveAgentRoute } from "../../routing/resolve-route.js";
+import { resolveAgentRoute, type ResolveAgentRouteInput } from "../../routing/resolve-route.js";
+import { resolveAgentRouteWithClassifier } from "../../routing/route-classifier.js";
 import { DEFAULT_ACCOUNT_ID, resolveAgentIdFromSessionKey } from "../../routing/session-key.js";
 import { readStoreAllowFromForDmPolicy } from "../../security/dm-policy-shared.js";
 import { fetchPluralKitMessageInfo } from "../pluralkit.js";
@@ -290,7 +291,7 @@ export async function preflightDiscordMessage(
   const memberRoleIds = Array.isArray(params.data.rawMember?.roles)
     ? params.data.rawMember.roles.map((roleId: string) => String(roleId))
     : [];
-  const route = resolveAgentRoute({
+  const routeInput = {
     cfg: loadConfig(),
     channel: "discord",
     accountId: params.accountId,
@@ -302,7 +303,11 @@ export async function preflightDiscordMessage(
     },
     // Pass parent peer for thread binding inheritance
     parentPeer: earlyThreadParentId ? { kind: "channel", id: earlyThreadParentId } : undefined,
-  });
+    text: baseText,
+    senderId: author.id,
+  } satisfies ResolveAgentRouteInput;
+  // Intent rules are classified only once the message clears allowlist and mention gating below.
+  let route = resolveAgentRoute(routeInput);
   let threadBinding: SessionBindingRecord | undefined;
   if (earlyThreadChannel) {
     threadBinding =
@@ -325,7 +330,7 @@ export async function preflightDiscordMessage(
   }
   const boundSessionKey = threadBinding?.targetSessionKey?.trim();
   const boundAgentId = boundSessionKey ? resolveAgentIdFromSessionKey(boundSessionKey) : undefined;
-  const effectiveRoute = boundSessionKey
+  let effectiveRoute = boundSessionKey
     ? {
         ...route,
         sessionKey: boundSessionKey,
@@ -393,7 +398,7 @@ export async function preflightDiscordMessage(
   const threadChannelSlug = channelName ? normalizeDiscordSlug(channelName) : "";
   const threadParentSlug = threadParentName ? normalizeDiscordSlug(threadParentName) : "";
 
-  const baseSessionKey = effectiveRoute.sessionKey;
+  let baseSessionKey = effectiveRoute.sessionKey;
   const channelConfig = isGuildMessage
     ? resolveDiscordChannelConfigWithFallback({
         guildInfo,
@@ -687,6 +692,12 @@ export async function preflightDiscordMessage(
     return null;
   }
 
+  if (!boundSessionKey) {
+    route = await resolveAgentRouteWithClassifier(routeInput);
+    effectiveRoute = route;
+    baseSessionKey = route.sessionKey;
+  }
+
   logDebug(
     `[discord-preflight] success: route=${effectiveRoute.agentId} sessionKey=${effectiveRoute.sessionKey}`,
   );
@@ -105,6 +105,10 @@ function mergeTtsConfig(base: TtsConfig, override?: TtsConfig): TtsConfig {
       ...base.edge,
       ...override.edge,
     },
+    local: {
+      ...base.local,
+      ...override.local,
+    },
   };
 }
 
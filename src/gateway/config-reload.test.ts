@@ -3,6 +3,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { listChannelPlugins } from "../channels/plugins/index.js";
 import type { ChannelPlugin } from "../channels/plugins/types.js";
 import type { ConfigFileSnapshot } from "../config/config.js";
+import type { PluginRecord } from "../plugins/registry.js";
 import { setActivePluginRegistry } from "../plugins/runtime.js";
 import { createTestRegistry } from "../test-utils/channel-plugins.js";
 import {
@@ -159,10 +160,35 @@ describe("buildGatewayReloadPlan", () => {
     expect(plan.noopPaths).toContain("secrets.providers.default.path");
   });
 
+  it("applies hook trace settings without a restart", () => {
+    const plan = buildGatewayReloadPlan(["plugins.hookTrace.slowMs"]);
+    expect(plan.restartGateway).toBe(false);
+    expect(plan.reloadHookTrace).toBe(true);
+    expect(plan.hotReasons).toContain("plugins.hookTrace.slowMs");
+  });
+
   it("defaults unknown paths to restart", () => {
     const plan = buildGatewayReloadPlan(["unknownField"]);
     expect(plan.restartGateway).toBe(true);
   });
+
+  it("reloads loaded plugins when only their own config changes", () => {
+    setActivePluginRegistry({
+      ...createTestRegistry([]),
+      plugins: [
+        { id: "demo", status: "loaded" } as PluginRecord,
+        { id: "off", status: "disabled" } as PluginRecord,
+      ],
+    });
+    const plan = buildGatewayReloadPlan(["plugins.entries.demo.config.interval"]);
+    expect(plan.restartGateway).toBe(false);
+    expect(plan.reloadPlugins).toEqual(new Set(["demo"]));
+
+    expect(buildGatewayReloadPlan(["plugins.entries.demo.enabled"]).restartGateway).toBe(true);
+    expect(buildGatewayReloadPlan(["plugins.entries.off.config.interval"]).restartGateway).toBe(
+      true,
+    );
+  });
 });
 
 describe("resolveGatewayReloadSettings", () => {
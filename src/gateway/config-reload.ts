@@ -23,6 +23,8 @@ export type GatewayReloadPlan = {
   restartCron: boolean;
   restartHeartbeat: boolean;
   restartChannels: Set<ChannelKind>;
+  reloadPlugins: Set<string>;
+  reloadHookTrace: boolean;
   noopPaths: string[];
 };
 
@@ -38,7 +40,9 @@ type ReloadAction =
   | "restart-browser-control"
   | "restart-cron"
   | "restart-heartbeat"
-  | `restart-channel:${ChannelId}`;
+  | "reload-hook-trace"
+  | `restart-channel:${ChannelId}`
+  | `reload-plugin:${string}`;
 
 const DEFAULT_RELOAD_SETTINGS: GatewayReloadSettings = {
   mode: "hybrid",
@@ -59,6 +63,7 @@ const BASE_RELOAD_RULES: ReloadRule[] = [
   },
   { prefix: "agent.heartbeat", kind: "hot", actions: ["restart-heartbeat"] },
   { prefix: "cron", kind: "hot", actions: ["restart-cron"] },
+  { prefix: "plugins.hookTrace", kind: "hot", actions: ["reload-hook-trace"] },
   {
     prefix: "browser",
     kind: "hot",
@@ -118,11 +123,30 @@ function listReloadRules(): ReloadRule[] {
       }),
     ),
   ]);
-  const rules = [...BASE_RELOAD_RULES, ...channelReloadRules, ...BASE_RELOAD_RULES_TAIL];
+  // Loaded plugins pick up their own config through a plugin reload; every
+  // other plugins.* change still restarts the gateway.
+  const pluginReloadRules: ReloadRule[] = (registry?.plugins ?? [])
+    .filter((plugin) => plugin.status === "loaded")
+    .map((plugin) => ({
+      prefix: `plugins.entries.${plugin.id}.config`,
+      kind: "hot",
+      actions: [`reload-plugin:${plugin.id}`],
+    }));
+  const rules = [
+    ...BASE_RELOAD_RULES,
+    ...channelReloadRules,
+    ...pluginReloadRules,
+    ...BASE_RELOAD_RULES_TAIL,
+  ];
   cachedReloadRules = rules;
   return rules;
 }
 
+/** Drop cached rules after the active registry changed in place (plugin reload). */
+export function invalidateGatewayReloadRules() {
+  cachedReloadRules = null;
+}
+
 function matchRule(path: string): ReloadRule | null {
   for (const rule of listReloadRules()) {
     if (path === rule.prefix || path.startsWith(`${rule.prefix}.`)) {
@@ -189,6 +213,8 @@ export function buildGatewayReloadPlan(changedPaths: string[]): GatewayReloadPla
     restartCron: false,
     restartHeartbeat: false,
     restartChannels: new Set(),
+    reloadPlugins: new Set(),
+    reloadHookTrace: false,
     noopPaths: [],
   };
 
@@ -198,6 +224,10 @@ export function buildGatewayReloadPlan(changedPaths: string[]): GatewayReloadPla
       plan.restartChannels.add(channel);
       return;
     }
+    if (action.startsWith("reload-plugin:")) {
+      plan.reloadPlugins.add(action.slice("reload-plugin:".length));
+      return;
+    }
     switch (action) {
       case "reload-hooks":
         plan.reloadHooks = true;
@@ -214,6 +244,9 @@ export function buildGatewayReloadPlan(changedPaths: string[]): GatewayReloadPla
       case "restart-heartbeat":
         plan.restartHeartbeat = true;
         break;
+      case "reload-hook-trace":
+        plan.reloadHookTrace = true;
+        break;
       default:
         break;
     }
@@ -45,6 +45,10 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "device.token.rotate",
     "device.token.revoke",
     "node.rename",
+    "identities.list",
+    "identities.link",
+    "identities.unlink",
+    "identities.remove",
   ],
   [READ_SCOPE]: [
     "health",
@@ -73,6 +77,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.runs",
     "system-presence",
     "last-heartbeat",
+    "gateway.protocol.info",
     "node.list",
     "node.describe",
     "chat.history",
@@ -92,6 +97,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "tts.disable",
     "tts.convert",
     "tts.setProvider",
+    "memory.write",
     "voicewake.set",
     "node.invoke",
     "chat.send",
@@ -107,6 +113,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "skills.install",
     "skills.update",
     "secrets.reload",
+    "plugins.reload",
+    "plugins.hooks.trace",
     "cron.add",
     "cron.update",
     "cron.remove",
@@ -115,6 +123,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "sessions.reset",
     "sessions.delete",
     "sessions.compact",
+    "sessions.fork",
+    "sessions.switch",
     "connect",
     "chat.inject",
     "web.login.start",
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  listDeprecatedProtocolMethods,
+  listSupportedProtocolVersions,
+  negotiateProtocolVersion,
+  resolveProtocolMethod,
+} from "./protocol-versions.js";
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from "./protocol/index.js";
+
+describe("protocol versions", () => {
+  it("negotiates the highest version both sides support", () => {
+    expect(listSupportedProtocolVersions()).toEqual([PROTOCOL_VERSION]);
+    expect(negotiateProtocolVersion({ minProtocol: MIN_PROTOCOL_VERSION, maxProtocol: 99 })).toBe(
+      PROTOCOL_VERSION,
+    );
+    expect(negotiateProtocolVersion({ minProtocol: 1, maxProtocol: 2 })).toBeNull();
+    expect(
+      negotiateProtocolVersion({ minProtocol: PROTOCOL_VERSION + 1, maxProtocol: 99 }),
+    ).toBeNull();
+  });
+
+  it("keeps every method name while the deprecation table is empty", () => {
+    expect(listDeprecatedProtocolMethods()).toEqual([]);
+    expect(resolveProtocolMethod("system-presence", MIN_PROTOCOL_VERSION)).toEqual({
+      method: "system-presence",
+    });
+  });
+
+  it("routes renamed methods only for clients on an older protocol", () => {
+    const table = [{ method: "old.name", replacement: "new.name", deprecatedIn: 4 }];
+    expect(resolveProtocolMethod("old.name", 3, table)).toEqual({
+      method: "new.name",
+      deprecation: {
+        method: "old.name",
+        replacement: "new.name",
+        deprecatedIn: 4,
+        protocol: 3,
+        message: "old.name is deprecated since protocol 4; use new.name",
+      },
+    });
+    expect(resolveProtocolMethod("old.name", 4, table)).toEqual({ method: "old.name" });
+    expect(resolveProtocolMethod("new.name", 3, table)).toEqual({ method: "new.name" });
+  });
+});
@@ -0,0 +1,70 @@
+import { MIN_PROTOCOL_VERSION, PROTOCOL_VERSION } from "./protocol/index.js";
+
+/**
+ * A method whose name changed in `deprecatedIn`. Clients that negotiated an
+ * older protocol keep calling the old name; the server routes it to
+ * `replacement` and sends a `gateway.deprecation` notice.
+ */
+export type ProtocolMethodDeprecation = {
+  method: string;
+  replacement: string;
+  deprecatedIn: number;
+};
+
+export type ProtocolDeprecationNotice = ProtocolMethodDeprecation & {
+  protocol: number;
+  message: string;
+};
+
+// Add an entry here (and raise PROTOCOL_VERSION) when a protocol bump renames
+// a method. Protocol 3 is the only version served today, so the adapter and
+// notice paths are scaffolding until then.
+const PROTOCOL_METHOD_DEPRECATIONS: readonly ProtocolMethodDeprecation[] = [];
+
+export function listSupportedProtocolVersions(): number[] {
+  const versions: number[] = [];
+  for (let version = MIN_PROTOCOL_VERSION; version <= PROTOCOL_VERSION; version += 1) {
+    versions.push(version);
+  }
+  return versions;
+}
+
+/** Highest protocol both sides support, or null when the ranges do not overlap. */
+export function negotiateProtocolVersion(range: {
+  minProtocol: number;
+  maxProtocol: number;
+}): number | null {
+  const version = Math.min(range.maxProtocol, PROTOCOL_VERSION);
+  if (version < range.minProtocol || version < MIN_PROTOCOL_VERSION) {
+    return null;
+  }
+  return version;
+}
+
+export function listDeprecatedProtocolMethods(): ProtocolMethodDeprecation[] {
+  return PROTOCOL_METHOD_DEPRECATIONS.map((entry) => ({ ...entry }));
+}
+
+/**
+ * Map a method name sent by a client on `protocol` to the current handler
+ * name. Old names are only honored for clients that negotiated a protocol
+ * older than the one that replaced them.
+ */
+export function resolveProtocolMethod(
+  method: string,
+  protocol: number,
+  deprecations: readonly ProtocolMethodDeprecation[] = PROTOCOL_METHOD_DEPRECATIONS,
+): { method: string; deprecation?: ProtocolDeprecationNotice } {
+  const deprecated = deprecations.find((entry) => entry.method === method);
+  if (!deprecated || protocol >= deprecated.deprecatedIn) {
+    return { method };
+  }
+  return {
+    method: deprecated.replacement,
+    deprecation: {
+      ...deprecated,
+      protocol,
+      message: `${method} is deprecated since protocol ${deprecated.deprecatedIn}; use ${deprecated.replacement}`,
+    },
+  };
+}
@@ -42,6 +42,12 @@ import {
   AgentsListResultSchema,
   type AgentWaitParams,
   AgentWaitParamsSchema,
+  BATCH_MAX_CALLS,
+  type BatchRequestFrame,
+  BatchRequestFrameSchema,
+  type BatchResponseFrame,
+  BatchResponseFrameSchema,
+  type BatchResult,
   type ChannelsLogoutParams,
   ChannelsLogoutParamsSchema,
   type TalkConfigParams,
@@ -157,6 +163,7 @@ import {
   type PollParams,
   PollParamsSchema,
   PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
   type PushTestParams,
   PushTestParamsSchema,
   PushTestResultSchema,
@@ -172,6 +179,8 @@ import {
   SessionsCompactParamsSchema,
   type SessionsDeleteParams,
   SessionsDeleteParamsSchema,
+  type SessionsForkParams,
+  SessionsForkParamsSchema,
   type SessionsListParams,
   SessionsListParamsSchema,
   type SessionsPatchParams,
@@ -182,6 +191,8 @@ import {
   SessionsResetParamsSchema,
   type SessionsResolveParams,
   SessionsResolveParamsSchema,
+  type SessionsSwitchParams,
+  SessionsSwitchParamsSchema,
   type SessionsUsageParams,
   SessionsUsageParamsSchema,
   type ShutdownEvent,
@@ -242,6 +253,23 @@ export const validateConnectParams = ajv.compile<ConnectParams>(ConnectParamsSch
 export const validateRequestFrame = ajv.compile<RequestFrame>(RequestFrameSchema);
 export const validateResponseFrame = ajv.compile<ResponseFrame>(ResponseFrameSchema);
 export const validateEventFrame = ajv.compile<EventFrame>(EventFrameSchema);
+export const validateBatchRequestFrame = ajv.compile<BatchRequestFrame>(BatchRequestFrameSchema);
+
+/**
+ * Call ids must be unique within a batch: each call answers with a `res`
+ * frame keyed by its id. JSON Schema cannot express that, so the frame
+ * handler checks it after `validateBatchRequestFrame`.
+ */
+export function findDuplicateBatchCallId(batch: BatchRequestFrame): string | undefined {
+  const seen = new Set<string>();
+  for (const call of batch.calls) {
+    if (seen.has(call.id)) {
+      return call.id;
+    }
+    seen.add(call.id);
+  }
+  return undefined;
+}
 export const validateSendParams = ajv.compile(SendParamsSchema);
 export const validatePollParams = ajv.compile<PollParams>(PollParamsSchema);
 export const validateAgentParams = ajv.compile(AgentParamsSchema);
@@ -301,6 +329,10 @@ export const validateSessionsDeleteParams = ajv.compile<SessionsDeleteParams>(
 export const validateSessionsCompactParams = ajv.compile<SessionsCompactParams>(
   SessionsCompactParamsSchema,
 );
+export const validateSessionsForkParams = ajv.compile<SessionsForkParams>(SessionsForkParamsSchema);
+export const validateSessionsSwitchParams = ajv.compile<SessionsSwitchParams>(
+  SessionsSwitchParamsSchema,
+);
 export const validateSessionsUsageParams =
   ajv.compile<SessionsUsageParams>(SessionsUsageParamsSchema);
 export const validateConfigGetParams = ajv.compile<ConfigGetParams>(ConfigGetParamsSchema);
@@ -423,6 +455,8 @@ export {
   RequestFrameSchema,
   ResponseFrameSchema,
   EventFrameSchema,
+  BatchRequestFrameSchema,
+  BatchResponseFrameSchema,
   GatewayFrameSchema,
   PresenceEntrySchema,
   SnapshotSchema,
@@ -451,6 +485,8 @@ export {
   SessionsResetParamsSchema,
   SessionsDeleteParamsSchema,
   SessionsCompactParamsSchema,
+  SessionsForkParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsUsageParamsSchema,
   ConfigGetParamsSchema,
   ConfigSetParamsSchema,
@@ -512,6 +548,8 @@ export {
   ShutdownEventSchema,
   ProtocolSchemas,
   PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  BATCH_MAX_CALLS,
   ErrorCodes,
   errorShape,
 };
@@ -523,6 +561,9 @@ export type {
   RequestFrame,
   ResponseFrame,
   EventFrame,
+  BatchRequestFrame,
+  BatchResponseFrame,
+  BatchResult,
   PresenceEntry,
   Snapshot,
   ErrorShape,
@@ -600,6 +641,8 @@ export type {
   SessionsResetParams,
   SessionsDeleteParams,
   SessionsCompactParams,
+  SessionsForkParams,
+  SessionsSwitchParams,
   SessionsUsageParams,
   CronJob,
   CronListParams,
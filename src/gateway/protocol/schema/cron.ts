@@ -112,6 +112,14 @@ export const CronScheduleSchema = Type.Union([
     },
     { additionalProperties: false },
   ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      onStatus: Type.Optional(Type.Array(CronRunStatusSchema, { minItems: 1, maxItems: 3 })),
+    },
+    { additionalProperties: false },
+  ),
 ]);
 
 export const CronPayloadSchema = Type.Union([
@@ -186,6 +194,56 @@ export const CronDeliveryPatchSchema = Type.Object(
   { additionalProperties: false },
 );
 
+const CronRetryErrorKindSchema = Type.Union([
+  Type.Literal("timeout"),
+  Type.Literal("delivery-target"),
+  Type.Literal("error"),
+]);
+
+export const CronRetryPolicySchema = Type.Object(
+  {
+    maxAttempts: Type.Integer({ minimum: 1 }),
+    backoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    maxBackoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    multiplier: Type.Optional(Type.Number({ minimum: 1 })),
+    jitter: Type.Optional(Type.Number({ minimum: 0, maximum: 1 })),
+    retryOn: Type.Optional(Type.Array(CronRetryErrorKindSchema, { minItems: 1, maxItems: 3 })),
+    deadLetter: Type.Optional(CronDeliverySchema),
+  },
+  { additionalProperties: false },
+);
+
+const CronBlackoutWeekdaySchema = Type.Union([
+  Type.Literal("sun"),
+  Type.Literal("mon"),
+  Type.Literal("tue"),
+  Type.Literal("wed"),
+  Type.Literal("thu"),
+  Type.Literal("fri"),
+  Type.Literal("sat"),
+]);
+
+export const CronBlackoutSchema = Type.Object(
+  {
+    windows: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            start: NonEmptyString,
+            end: NonEmptyString,
+            days: Type.Optional(Type.Array(CronBlackoutWeekdaySchema, { minItems: 1 })),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
+    calendar: Type.Optional(Type.String()),
+    tz: Type.Optional(Type.String()),
+    mode: Type.Optional(Type.Union([Type.Literal("defer"), Type.Literal("skip")])),
+  },
+  { additionalProperties: false },
+);
+
 export const CronJobStateSchema = Type.Object(
   {
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
@@ -199,6 +257,20 @@ export const CronJobStateSchema = Type.Object(
     lastDelivered: Type.Optional(Type.Boolean()),
     lastDeliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     lastDeliveryError: Type.Optional(Type.String()),
+    retryAttempt: Type.Optional(Type.Integer({ minimum: 1 })),
+    pendingTrigger: Type.Optional(
+      Type.Object(
+        {
+          jobId: NonEmptyString,
+          status: CronRunStatusSchema,
+          runAtMs: Type.Integer({ minimum: 0 }),
+          summary: Type.Optional(Type.String()),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    deferredReason: Type.Optional(Type.String()),
+    deferredFromMs: Type.Optional(Type.Integer({ minimum: 0 })),
   },
   { additionalProperties: false },
 );
@@ -219,6 +291,8 @@ export const CronJobSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
+    blackout: Type.Optional(CronBlackoutSchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -248,6 +322,8 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
+    blackout: Type.Optional(CronBlackoutSchema),
   },
   { additionalProperties: false },
 );
@@ -261,6 +337,8 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(CronWakeModeSchema),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    retry: Type.Optional(Type.Union([CronRetryPolicySchema, Type.Null()])),
+    blackout: Type.Optional(Type.Union([CronBlackoutSchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -311,6 +389,10 @@ export const CronRunLogEntrySchema = Type.Object(
     runAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
     durationMs: Type.Optional(Type.Integer({ minimum: 0 })),
     nextRunAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    attempt: Type.Optional(Type.Integer({ minimum: 1 })),
+    maxAttempts: Type.Optional(Type.Integer({ minimum: 1 })),
+    retryAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    retryExhausted: Type.Optional(Type.Boolean()),
     model: Type.Optional(Type.String()),
     provider: Type.Optional(Type.String()),
     usage: Type.Optional(
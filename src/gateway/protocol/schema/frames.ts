@@ -2,6 +2,9 @@ import { Type } from "@sinclair/typebox";
 import { GatewayClientIdSchema, GatewayClientModeSchema, NonEmptyString } from "./primitives.js";
 import { SnapshotSchema, StateVersionSchema } from "./snapshot.js";
 
+/** Upper bound on sub-calls in one `batch` frame. */
+export const BATCH_MAX_CALLS = 32;
+
 export const TickEventSchema = Type.Object(
   {
     ts: Type.Integer({ minimum: 0 }),
@@ -83,6 +86,14 @@ export const HelloOkSchema = Type.Object(
       {
         methods: Type.Array(NonEmptyString),
         events: Type.Array(NonEmptyString),
+        batch: Type.Optional(
+          Type.Object(
+            {
+              maxCalls: Type.Integer({ minimum: 1 }),
+            },
+            { additionalProperties: false },
+          ),
+        ),
       },
       { additionalProperties: false },
     ),
@@ -143,6 +154,45 @@ export const ResponseFrameSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const BatchCallSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    method: NonEmptyString,
+    params: Type.Optional(Type.Unknown()),
+  },
+  { additionalProperties: false },
+);
+
+// Several requests in one frame; each call is authorized and dispatched like a
+// standalone `req` and answers with its own `res` frame as soon as it is done.
+// A closing `batch-res` frame reports every call's status once all answered.
+export const BatchRequestFrameSchema = Type.Object(
+  {
+    type: Type.Literal("batch"),
+    id: NonEmptyString,
+    calls: Type.Array(BatchCallSchema, { minItems: 1, maxItems: BATCH_MAX_CALLS }),
+  },
+  { additionalProperties: false },
+);
+
+export const BatchResultSchema = Type.Object(
+  {
+    id: NonEmptyString,
+    ok: Type.Boolean(),
+    error: Type.Optional(ErrorShapeSchema),
+  },
+  { additionalProperties: false },
+);
+
+export const BatchResponseFrameSchema = Type.Object(
+  {
+    type: Type.Literal("batch-res"),
+    id: NonEmptyString,
+    results: Type.Array(BatchResultSchema),
+  },
+  { additionalProperties: false },
+);
+
 export const EventFrameSchema = Type.Object(
   {
     type: Type.Literal("event"),
@@ -158,6 +208,12 @@ export const EventFrameSchema = Type.Object(
 // downstream codegen (quicktype) produce tighter types instead of all-optional
 // blobs.
 export const GatewayFrameSchema = Type.Union(
-  [RequestFrameSchema, ResponseFrameSchema, EventFrameSchema],
+  [
+    RequestFrameSchema,
+    ResponseFrameSchema,
+    EventFrameSchema,
+    BatchRequestFrameSchema,
+    BatchResponseFrameSchema,
+  ],
   { discriminator: "type" },
 );
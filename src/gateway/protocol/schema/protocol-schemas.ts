@@ -90,6 +90,10 @@ import {
   ExecApprovalResolveParamsSchema,
 } from "./exec-approvals.js";
 import {
+  BatchCallSchema,
+  BatchRequestFrameSchema,
+  BatchResponseFrameSchema,
+  BatchResultSchema,
   ConnectParamsSchema,
   ErrorShapeSchema,
   EventFrameSchema,
@@ -127,11 +131,13 @@ import { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
+  SessionsForkParamsSchema,
   SessionsListParamsSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
   SessionsResetParamsSchema,
   SessionsResolveParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
@@ -152,6 +158,10 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   RequestFrame: RequestFrameSchema,
   ResponseFrame: ResponseFrameSchema,
   EventFrame: EventFrameSchema,
+  BatchCall: BatchCallSchema,
+  BatchRequestFrame: BatchRequestFrameSchema,
+  BatchResult: BatchResultSchema,
+  BatchResponseFrame: BatchResponseFrameSchema,
   GatewayFrame: GatewayFrameSchema,
   PresenceEntry: PresenceEntrySchema,
   StateVersion: StateVersionSchema,
@@ -186,6 +196,8 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   SessionsResetParams: SessionsResetParamsSchema,
   SessionsDeleteParams: SessionsDeleteParamsSchema,
   SessionsCompactParams: SessionsCompactParamsSchema,
+  SessionsForkParams: SessionsForkParamsSchema,
+  SessionsSwitchParams: SessionsSwitchParamsSchema,
   SessionsUsageParams: SessionsUsageParamsSchema,
   ConfigGetParams: ConfigGetParamsSchema,
   ConfigSetParams: ConfigSetParamsSchema,
@@ -275,3 +287,5 @@ export const ProtocolSchemas: Record<string, TSchema> = {
 };
 
 export const PROTOCOL_VERSION = 3 as const;
+/** Oldest protocol the gateway still negotiates (served through method adapters). */
+export const MIN_PROTOCOL_VERSION = 3 as const;
@@ -108,6 +108,25 @@ export const SessionsCompactParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const SessionsForkParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Messages to keep (1-based; negative counts from the end). Defaults to the whole transcript. */
+    messageIndex: Type.Optional(Type.Integer()),
+    label: Type.Optional(SessionLabelString),
+  },
+  { additionalProperties: false },
+);
+
+export const SessionsSwitchParamsSchema = Type.Object(
+  {
+    key: NonEmptyString,
+    /** Branch list number, label, or session id. */
+    branch: NonEmptyString,
+  },
+  { additionalProperties: false },
+);
+
 export const SessionsUsageParamsSchema = Type.Object(
   {
     /** Specific session key to analyze; if omitted returns all sessions. */
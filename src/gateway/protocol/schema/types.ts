@@ -86,6 +86,10 @@ import type {
   ExecApprovalResolveParamsSchema,
 } from "./exec-approvals.js";
 import type {
+  BatchCallSchema,
+  BatchRequestFrameSchema,
+  BatchResponseFrameSchema,
+  BatchResultSchema,
   ConnectParamsSchema,
   ErrorShapeSchema,
   EventFrameSchema,
@@ -120,11 +124,13 @@ import type { PushTestParamsSchema, PushTestResultSchema } from "./push.js";
 import type {
   SessionsCompactParamsSchema,
   SessionsDeleteParamsSchema,
+  SessionsForkParamsSchema,
   SessionsListParamsSchema,
   SessionsPatchParamsSchema,
   SessionsPreviewParamsSchema,
   SessionsResetParamsSchema,
   SessionsResolveParamsSchema,
+  SessionsSwitchParamsSchema,
   SessionsUsageParamsSchema,
 } from "./sessions.js";
 import type { PresenceEntrySchema, SnapshotSchema, StateVersionSchema } from "./snapshot.js";
@@ -144,6 +150,10 @@ export type HelloOk = Static<typeof HelloOkSchema>;
 export type RequestFrame = Static<typeof RequestFrameSchema>;
 export type ResponseFrame = Static<typeof ResponseFrameSchema>;
 export type EventFrame = Static<typeof EventFrameSchema>;
+export type BatchCall = Static<typeof BatchCallSchema>;
+export type BatchRequestFrame = Static<typeof BatchRequestFrameSchema>;
+export type BatchResult = Static<typeof BatchResultSchema>;
+export type BatchResponseFrame = Static<typeof BatchResponseFrameSchema>;
 export type GatewayFrame = Static<typeof GatewayFrameSchema>;
 export type Snapshot = Static<typeof SnapshotSchema>;
 export type PresenceEntry = Static<typeof PresenceEntrySchema>;
@@ -175,6 +185,8 @@ export type SessionsPatchParams = Static<typeof SessionsPatchParamsSchema>;
 export type SessionsResetParams = Static<typeof SessionsResetParamsSchema>;
 export type SessionsDeleteParams = Static<typeof SessionsDeleteParamsSchema>;
 export type SessionsCompactParams = Static<typeof SessionsCompactParamsSchema>;
+export type SessionsForkParams = Static<typeof SessionsForkParamsSchema>;
+export type SessionsSwitchParams = Static<typeof SessionsSwitchParamsSchema>;
 export type SessionsUsageParams = Static<typeof SessionsUsageParamsSchema>;
 export type ConfigGetParams = Static<typeof ConfigGetParamsSchema>;
 export type ConfigSetParams = Static<typeof ConfigSetParamsSchema>;
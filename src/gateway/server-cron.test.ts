@@ -9,6 +9,7 @@ const enqueueSystemEventMock = vi.fn();
 const requestHeartbeatNowMock = vi.fn();
 const loadConfigMock = vi.fn();
 const fetchWithSsrFGuardMock = vi.fn();
+const runCronIsolatedAgentTurnMock = vi.fn();
 
 vi.mock("../infra/system-events.js", () => ({
   enqueueSystemEvent: (...args: unknown[]) => enqueueSystemEventMock(...args),
@@ -30,6 +31,10 @@ vi.mock("../infra/net/fetch-guard.js", () => ({
   fetchWithSsrFGuard: (...args: unknown[]) => fetchWithSsrFGuardMock(...args),
 }));
 
+vi.mock("../cron/isolated-agent.js", () => ({
+  runCronIsolatedAgentTurn: (...args: unknown[]) => runCronIsolatedAgentTurnMock(...args),
+}));
+
 import { buildGatewayCronService } from "./server-cron.js";
 
 describe("buildGatewayCronService", () => {
@@ -38,6 +43,7 @@ describe("buildGatewayCronService", () => {
     requestHeartbeatNowMock.mockClear();
     loadConfigMock.mockClear();
     fetchWithSsrFGuardMock.mockClear();
+    runCronIsolatedAgentTurnMock.mockReset();
   });
 
   it("routes main-target jobs to the scoped session for enqueue + wake", async () => {
@@ -139,4 +145,62 @@ describe("buildGatewayCronService", () => {
       state.cron.stop();
     }
   });
+
+  it("posts to the dead-letter webhook once retries are exhausted", async () => {
+    const tmpDir = path.join(os.tmpdir(), `server-cron-dead-letter-${Date.now()}`);
+    const cfg = {
+      session: {
+        mainKey: "main",
+      },
+      cron: {
+        store: path.join(tmpDir, "cron.json"),
+      },
+    } as OpenClawConfig;
+
+    loadConfigMock.mockReturnValue(cfg);
+    runCronIsolatedAgentTurnMock.mockResolvedValue({ status: "error", error: "boom" });
+    fetchWithSsrFGuardMock.mockResolvedValue({ release: async () => {} });
+
+    const state = buildGatewayCronService({
+      cfg,
+      deps: {} as CliDeps,
+      broadcast: () => {},
+    });
+    try {
+      const job = await state.cron.add({
+        name: "dead-letter",
+        enabled: true,
+        schedule: { kind: "every", everyMs: 3_600_000 },
+        sessionTarget: "isolated",
+        wakeMode: "next-heartbeat",
+        payload: { kind: "agentTurn", message: "hello" },
+        delivery: { mode: "none" },
+        retry: {
+          maxAttempts: 1,
+          deadLetter: { mode: "webhook", to: "https://example.com/cron-failed" },
+        },
+      });
+
+      await state.cron.run(job.id, "force");
+
+      expect(fetchWithSsrFGuardMock).toHaveBeenCalledOnce();
+      const call = fetchWithSsrFGuardMock.mock.calls[0]?.[0] as {
+        url: string;
+        init: { body: string };
+      };
+      expect(call.url).toBe("https://example.com/cron-failed");
+      expect(JSON.parse(call.init.body)).toMatchObject({
+        jobId: job.id,
+        action: "finished",
+        status: "error",
+        error: "boom",
+        attempt: 1,
+        maxAttempts: 1,
+        retryExhausted: true,
+        deadLetter: true,
+      });
+    } finally {
+      state.cron.stop();
+    }
+  });
 });
@@ -7,13 +7,17 @@ import {
   resolveAgentMainSessionKey,
 } from "../config/sessions.js";
 import { resolveStorePath } from "../config/sessions/paths.js";
+import {
+  deliverCronDeadLetterAnnouncement,
+  formatCronDeadLetterText,
+} from "../cron/dead-letter.js";
 import { runCronIsolatedAgentTurn } from "../cron/isolated-agent.js";
 import {
   appendCronRunLog,
   resolveCronRunLogPath,
   resolveCronRunLogPruneOptions,
 } from "../cron/run-log.js";
-import { CronService } from "../cron/service.js";
+import { CronService, type CronEvent } from "../cron/service.js";
 import { resolveCronStorePath } from "../cron/store.js";
 import { normalizeHttpWebhookUrl } from "../cron/webhook-url.js";
 import { formatErrorMessage } from "../infra/errors.js";
@@ -156,6 +160,62 @@ export function buildGatewayCronService(params: {
   const sessionStorePath = resolveSessionStorePath(defaultAgentId);
   const warnedLegacyWebhookJobs = new Set<string>();
 
+  const postCronWebhook = (opts: {
+    url: string;
+    evt: CronEvent;
+    webhookToken?: string;
+    deadLetter?: boolean;
+  }) => {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (opts.webhookToken) {
+      headers.Authorization = `Bearer ${opts.webhookToken}`;
+    }
+    const label = opts.deadLetter ? "dead-letter webhook" : "webhook";
+    const abortController = new AbortController();
+    const timeout = setTimeout(() => {
+      abortController.abort();
+    }, CRON_WEBHOOK_TIMEOUT_MS);
+
+    void (async () => {
+      try {
+        const result = await fetchWithSsrFGuard({
+          url: opts.url,
+          init: {
+            method: "POST",
+            headers,
+            body: JSON.stringify(opts.deadLetter ? { ...opts.evt, deadLetter: true } : opts.evt),
+            signal: abortController.signal,
+          },
+        });
+        await result.release();
+      } catch (err) {
+        if (err instanceof SsrFBlockedError) {
+          cronLogger.warn(
+            {
+              reason: formatErrorMessage(err),
+              jobId: opts.evt.jobId,
+              webhookUrl: redactWebhookUrl(opts.url),
+            },
+            `cron: ${label} delivery blocked by SSRF guard`,
+          );
+        } else {
+          cronLogger.warn(
+            {
+              err: formatErrorMessage(err),
+              jobId: opts.evt.jobId,
+              webhookUrl: redactWebhookUrl(opts.url),
+            },
+            `cron: ${label} delivery failed`,
+          );
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    })();
+  };
+
   const cron = new CronService({
     storePath,
     cronEnabled,
@@ -262,53 +322,37 @@ export function buildGatewayCronService(params: {
         }
 
         if (webhookTarget && evt.summary) {
-          const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-          };
-          if (webhookToken) {
-            headers.Authorization = `Bearer ${webhookToken}`;
-          }
-          const abortController = new AbortController();
-          const timeout = setTimeout(() => {
-            abortController.abort();
-          }, CRON_WEBHOOK_TIMEOUT_MS);
+          postCronWebhook({ url: webhookTarget.url, evt, webhookToken });
+        }
 
-          void (async () => {
-            try {
-              const result = await fetchWithSsrFGuard({
-                url: webhookTarget.url,
-                init: {
-                  method: "POST",
-                  headers,
-                  body: JSON.stringify(evt),
-                  signal: abortController.signal,
-                },
-              });
-              await result.release();
-            } catch (err) {
-              if (err instanceof SsrFBlockedError) {
-                cronLogger.warn(
-                  {
-                    reason: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery blocked by SSRF guard",
-                );
-              } else {
-                cronLogger.warn(
-                  {
-                    err: formatErrorMessage(err),
-                    jobId: evt.jobId,
-                    webhookUrl: redactWebhookUrl(webhookTarget.url),
-                  },
-                  "cron: webhook delivery failed",
-                );
-              }
-            } finally {
-              clearTimeout(timeout);
+        const deadLetter = job?.retry?.deadLetter;
+        if (job && deadLetter && evt.retryExhausted) {
+          if (deadLetter.mode === "webhook") {
+            const url = normalizeHttpWebhookUrl(deadLetter.to);
+            if (url) {
+              postCronWebhook({ url, evt, webhookToken, deadLetter: true });
             }
-          })();
+          } else if (deadLetter.mode === "announce") {
+            const { agentId, cfg: runtimeConfig } = resolveCronAgent(job.agentId);
+            void deliverCronDeadLetterAnnouncement({
+              cfg: runtimeConfig,
+              deps: params.deps,
+              agentId,
+              job,
+              deadLetter,
+              text: formatCronDeadLetterText({
+                job,
+                error: evt.error,
+                attempt: evt.attempt,
+                maxAttempts: evt.maxAttempts,
+              }),
+            }).catch((err) => {
+              cronLogger.warn(
+                { err: formatErrorMessage(err), jobId: evt.jobId },
+                "cron: dead-letter delivery failed",
+              );
+            });
+          }
         }
         const logPath = resolveCronRunLogPath({
           storePath,
@@ -331,6 +375,10 @@ export function buildGatewayCronService(params: {
             runAtMs: evt.runAtMs,
             durationMs: evt.durationMs,
             nextRunAtMs: evt.nextRunAtMs,
+            attempt: evt.attempt,
+            maxAttempts: evt.maxAttempts,
+            retryAtMs: evt.retryAtMs,
+            retryExhausted: evt.retryExhausted,
             model: evt.model,
             provider: evt.provider,
             usage: evt.usage,
@@ -16,6 +16,7 @@ const BASE_METHODS = [
   "tts.disable",
   "tts.convert",
   "tts.setProvider",
+  "memory.write",
   "config.get",
   "config.set",
   "config.apply",
@@ -51,12 +52,16 @@ const BASE_METHODS = [
   "voicewake.get",
   "voicewake.set",
   "secrets.reload",
+  "plugins.reload",
+  "plugins.hooks.trace",
   "sessions.list",
   "sessions.preview",
   "sessions.patch",
   "sessions.reset",
   "sessions.delete",
   "sessions.compact",
+  "sessions.fork",
+  "sessions.switch",
   "last-heartbeat",
   "set-heartbeats",
   "wake",
@@ -72,6 +77,10 @@ const BASE_METHODS = [
   "device.token.rotate",
   "device.token.revoke",
   "node.rename",
+  "identities.list",
+  "identities.link",
+  "identities.unlink",
+  "identities.remove",
   "node.list",
   "node.describe",
   "node.invoke",
@@ -87,6 +96,7 @@ const BASE_METHODS = [
   "cron.runs",
   "system-presence",
   "system-event",
+  "gateway.protocol.info",
   "send",
   "agent",
   "agent.identity.get",
@@ -122,5 +132,6 @@ export const GATEWAY_EVENTS = [
   "voicewake.changed",
   "exec.approval.requested",
   "exec.approval.resolved",
+  "gateway.deprecation",
   GATEWAY_EVENT_UPDATE_AVAILABLE,
 ];
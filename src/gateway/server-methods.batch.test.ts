@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleGatewayBatchRequest } from "./server-methods.js";
+import type { GatewayRequestHandler } from "./server-methods/types.js";
+
+type BatchOptions = Parameters<typeof handleGatewayBatchRequest>[0];
+
+const noWebchat = () => false;
+
+describe("gateway batch deadline", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function buildClient(): BatchOptions["client"] {
+    return {
+      connect: {
+        role: "operator",
+        scopes: ["operator.read"],
+        client: { id: "openclaw-control-ui", version: "1.0.0", platform: "darwin", mode: "ui" },
+        minProtocol: 3,
+        maxProtocol: 3,
+      },
+      connId: "conn-1",
+    } as BatchOptions["client"];
+  }
+
+  it("answers calls still pending at the deadline with a timeout and drops late answers", async () => {
+    let respondLate: Parameters<GatewayRequestHandler>[0]["respond"] | undefined;
+    const onResponse = vi.fn();
+    const summary = handleGatewayBatchRequest({
+      batch: {
+        type: "batch",
+        id: "batch-1",
+        calls: [
+          { id: "fast", method: "health" },
+          { id: "slow", method: "status" },
+          { id: "stuck", method: "system-presence" },
+        ],
+      },
+      client: buildClient(),
+      isWebchatConnect: noWebchat,
+      context: {} as BatchOptions["context"],
+      timeoutMs: 1_000,
+      onResponse,
+      extraHandlers: {
+        health: ({ respond }) => respond(true, { ok: true }),
+        status: ({ respond }) => {
+          respondLate = respond;
+        },
+        // A handler that never settles must not hold the batch open.
+        "system-presence": () => new Promise<void>(() => {}),
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    const results = await summary;
+
+    expect(results.map((result) => [result.id, result.ok])).toEqual([
+      ["fast", true],
+      ["slow", false],
+      ["stuck", false],
+    ]);
+    expect(results[1]?.error).toMatchObject({
+      code: "UNAVAILABLE",
+      message: "batch call timed out after 1000ms",
+      retryable: true,
+    });
+    expect(onResponse.mock.calls.map(([call, ok]) => [call.id, ok])).toEqual([
+      ["fast", true],
+      ["slow", false],
+      ["stuck", false],
+    ]);
+
+    respondLate?.(true, { ok: true });
+    expect(onResponse).toHaveBeenCalledTimes(3);
+  });
+});
@@ -1,7 +1,14 @@
 import { formatControlPlaneActor, resolveControlPlaneActor } from "./control-plane-audit.js";
 import { consumeControlPlaneWriteBudget } from "./control-plane-rate-limit.js";
 import { ADMIN_SCOPE, authorizeOperatorScopesForMethod } from "./method-scopes.js";
-import { ErrorCodes, errorShape } from "./protocol/index.js";
+import { resolveProtocolMethod } from "./protocol-versions.js";
+import {
+  type BatchRequestFrame,
+  type BatchResult,
+  ErrorCodes,
+  errorShape,
+  PROTOCOL_VERSION,
+} from "./protocol/index.js";
 import { isRoleAuthorizedForMethod, parseGatewayRole } from "./role-policy.js";
 import { agentHandlers } from "./server-methods/agent.js";
 import { agentsHandlers } from "./server-methods/agents.js";
@@ -15,7 +22,9 @@ import { deviceHandlers } from "./server-methods/devices.js";
 import { doctorHandlers } from "./server-methods/doctor.js";
 import { execApprovalsHandlers } from "./server-methods/exec-approvals.js";
 import { healthHandlers } from "./server-methods/health.js";
+import { identitiesHandlers } from "./server-methods/identities.js";
 import { logsHandlers } from "./server-methods/logs.js";
+import { memoryHandlers } from "./server-methods/memory.js";
 import { modelsHandlers } from "./server-methods/models.js";
 import { nodeHandlers } from "./server-methods/nodes.js";
 import { pushHandlers } from "./server-methods/push.js";
@@ -26,12 +35,17 @@ import { systemHandlers } from "./server-methods/system.js";
 import { talkHandlers } from "./server-methods/talk.js";
 import { toolsCatalogHandlers } from "./server-methods/tools-catalog.js";
 import { ttsHandlers } from "./server-methods/tts.js";
-import type { GatewayRequestHandlers, GatewayRequestOptions } from "./server-methods/types.js";
+import type {
+  GatewayRequestHandlers,
+  GatewayRequestOptions,
+  RespondFn,
+} from "./server-methods/types.js";
 import { updateHandlers } from "./server-methods/update.js";
 import { usageHandlers } from "./server-methods/usage.js";
 import { voicewakeHandlers } from "./server-methods/voicewake.js";
 import { webHandlers } from "./server-methods/web.js";
 import { wizardHandlers } from "./server-methods/wizard.js";
+import { formatForLog } from "./ws-log.js";
 
 const CONTROL_PLANE_WRITE_METHODS = new Set(["config.apply", "config.patch", "update.run"]);
 function authorizeGatewayMethod(method: string, client: GatewayRequestOptions["client"]) {
@@ -73,6 +87,8 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...cronHandlers,
   ...deviceHandlers,
   ...doctorHandlers,
+  ...memoryHandlers,
+  ...identitiesHandlers,
   ...execApprovalsHandlers,
   ...webHandlers,
   ...modelsHandlers,
@@ -94,10 +110,39 @@ export const coreGatewayHandlers: GatewayRequestHandlers = {
   ...browserHandlers,
 };
 
+/**
+ * Route methods renamed after the client's negotiated protocol to their
+ * current handler, and tell the client once per method that it is deprecated.
+ */
+function adaptRequestForProtocol(
+  req: GatewayRequestOptions["req"],
+  client: GatewayRequestOptions["client"],
+  context: GatewayRequestOptions["context"],
+): GatewayRequestOptions["req"] {
+  if (!client?.connect) {
+    return req;
+  }
+  const resolved = resolveProtocolMethod(req.method, client.protocol ?? PROTOCOL_VERSION);
+  const notice = resolved.deprecation;
+  if (!notice) {
+    return req;
+  }
+  const notified = (client.deprecationsNotified ??= new Set());
+  if (client.connId && !notified.has(notice.method)) {
+    notified.add(notice.method);
+    context.logGateway.warn(
+      `deprecated method ${notice.method} called by ${client.connect.client.id} (protocol ${notice.protocol}); use ${notice.replacement}`,
+    );
+    context.broadcastToConnIds("gateway.deprecation", notice, new Set([client.connId]));
+  }
+  return { ...req, method: resolved.method };
+}
+
 export async function handleGatewayRequest(
   opts: GatewayRequestOptions & { extraHandlers?: GatewayRequestHandlers },
 ): Promise<void> {
-  const { req, respond, client, isWebchatConnect, context } = opts;
+  const { respond, client, isWebchatConnect, context } = opts;
+  const req = adaptRequestForProtocol(opts.req, client, context);
   const authError = authorizeGatewayMethod(req.method, client);
   if (authError) {
     respond(false, undefined, authError);
@@ -147,3 +192,84 @@ export async function handleGatewayRequest(
     context,
   });
 }
+
+/** How long a batch waits for its calls before answering the rest with a timeout. */
+const BATCH_TIMEOUT_MS = 60_000;
+
+/**
+ * Dispatch every call of a `batch` frame through the same authorization,
+ * rate-limit, and handler path as a standalone request. Calls run concurrently
+ * and every response is handed to `onResponse` as soon as it arrives, so a slow
+ * call never holds back the others. The returned summary (without payloads)
+ * resolves once each call has answered at least once; calls still unanswered
+ * after `timeoutMs` answer with a timeout error and later responses are dropped.
+ * Call ids must be unique (see `findDuplicateBatchCallId`).
+ */
+export async function handleGatewayBatchRequest(
+  opts: Omit<GatewayRequestOptions, "req" | "respond"> & {
+    batch: BatchRequestFrame;
+    extraHandlers?: GatewayRequestHandlers;
+    timeoutMs?: number;
+    onResponse?: (
+      call: BatchRequestFrame["calls"][number],
+      ...response: Parameters<RespondFn>
+    ) => void;
+  },
+): Promise<BatchResult[]> {
+  const timeoutMs = opts.timeoutMs ?? BATCH_TIMEOUT_MS;
+  const expireCalls: Array<() => void> = [];
+  const deadline = setTimeout(() => {
+    for (const expire of expireCalls) {
+      expire();
+    }
+  }, timeoutMs);
+  try {
+    return await Promise.all(
+      opts.batch.calls.map(async (call): Promise<BatchResult> => {
+        let settled = false;
+        let expired = false;
+        let resolveResult!: (result: BatchResult) => void;
+        const result = new Promise<BatchResult>((resolve) => (resolveResult = resolve));
+        // Handlers may respond after they return (background work), so wait for
+        // the first response rather than for the handler itself.
+        const respond: RespondFn = (ok, payload, error, meta) => {
+          if (expired) {
+            return;
+          }
+          opts.onResponse?.(call, ok, payload, error, meta);
+          if (settled) {
+            return;
+          }
+          settled = true;
+          resolveResult({ id: call.id, ok, error });
+        };
+        expireCalls.push(() => {
+          if (settled) {
+            return;
+          }
+          respond(
+            false,
+            undefined,
+            errorShape(ErrorCodes.UNAVAILABLE, `batch call timed out after ${timeoutMs}ms`, {
+              retryable: true,
+            }),
+          );
+          expired = true;
+        });
+        void handleGatewayRequest({
+          req: { type: "req", id: call.id, method: call.method, params: call.params },
+          respond,
+          client: opts.client,
+          isWebchatConnect: opts.isWebchatConnect,
+          extraHandlers: opts.extraHandlers,
+          context: opts.context,
+        }).catch((err) => {
+          respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
+        });
+        return await result;
+      }),
+    );
+  } finally {
+    clearTimeout(deadline);
+  }
+}
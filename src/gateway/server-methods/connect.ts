@@ -1,4 +1,13 @@
-import { ErrorCodes, errorShape } from "../protocol/index.js";
+import {
+  listDeprecatedProtocolMethods,
+  listSupportedProtocolVersions,
+} from "../protocol-versions.js";
+import {
+  ErrorCodes,
+  errorShape,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+} from "../protocol/index.js";
 import type { GatewayRequestHandlers } from "./types.js";
 
 export const connectHandlers: GatewayRequestHandlers = {
@@ -9,4 +18,13 @@ export const connectHandlers: GatewayRequestHandlers = {
       errorShape(ErrorCodes.INVALID_REQUEST, "connect is only valid as the first request"),
     );
   },
+  "gateway.protocol.info": ({ client, respond }) => {
+    respond(true, {
+      protocol: client?.protocol ?? PROTOCOL_VERSION,
+      currentProtocol: PROTOCOL_VERSION,
+      minProtocol: MIN_PROTOCOL_VERSION,
+      supportedProtocols: listSupportedProtocolVersions(),
+      deprecatedMethods: listDeprecatedProtocolMethods(),
+    });
+  },
 };
@@ -1,10 +1,14 @@
-import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
+import {
+  normalizeCronJobCreate,
+  normalizeCronJobPatch,
+  validateCronDependency,
+} from "../../cron/normalize.js";
 import {
   readCronRunLogEntriesPage,
   readCronRunLogEntriesPageAll,
   resolveCronRunLogPath,
 } from "../../cron/run-log.js";
-import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
+import type { CronJob, CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
 import {
   ErrorCodes,
@@ -19,7 +23,18 @@ import {
   validateCronUpdateParams,
   validateWakeParams,
 } from "../protocol/index.js";
-import type { GatewayRequestHandlers } from "./types.js";
+import type { GatewayRequestContext, GatewayRequestHandlers } from "./types.js";
+
+async function validateCronDependencyParams(
+  context: GatewayRequestContext,
+  candidate: Pick<CronJob, "id" | "schedule">,
+): Promise<string | undefined> {
+  if (candidate.schedule.kind !== "after") {
+    return undefined;
+  }
+  const jobs = await context.cron.list({ includeDisabled: true });
+  return validateCronDependency(jobs, candidate);
+}
 
 export const cronHandlers: GatewayRequestHandlers = {
   wake: ({ params, respond, context }) => {
@@ -111,6 +126,14 @@ export const cronHandlers: GatewayRequestHandlers = {
       );
       return;
     }
+    const dependencyError = await validateCronDependencyParams(context, {
+      id: "",
+      schedule: jobCreate.schedule,
+    });
+    if (dependencyError) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, dependencyError));
+      return;
+    }
     const job = await context.cron.add(jobCreate);
     respond(true, job, undefined);
   },
@@ -156,6 +179,14 @@ export const cronHandlers: GatewayRequestHandlers = {
         );
         return;
       }
+      const dependencyError = await validateCronDependencyParams(context, {
+        id: jobId,
+        schedule: patch.schedule,
+      });
+      if (dependencyError) {
+        respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, dependencyError));
+        return;
+      }
     }
     const job = await context.cron.update(jobId, patch);
     respond(true, job, undefined);
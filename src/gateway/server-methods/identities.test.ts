@@ -0,0 +1,115 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { withEnvAsync } from "../../test-utils/env.js";
+import { authorizeOperatorScopesForMethod } from "../method-scopes.js";
+import { identitiesHandlers } from "./identities.js";
+
+let fixtureRoot = "";
+let caseId = 0;
+
+beforeAll(async () => {
+  fixtureRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-identities-handlers-"));
+});
+
+afterAll(async () => {
+  if (fixtureRoot) {
+    await fs.rm(fixtureRoot, { recursive: true, force: true });
+  }
+});
+
+async function withTempStateDir<T>(fn: () => Promise<T>) {
+  const dir = path.join(fixtureRoot, `case-${caseId++}`);
+  await fs.mkdir(dir, { recursive: true });
+  return await withEnvAsync({ OPENCLAW_STATE_DIR: dir }, fn);
+}
+
+async function call(method: keyof typeof identitiesHandlers, params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await identitiesHandlers[method]({
+    req: { type: "req", id: "1", method },
+    params,
+    client: null,
+    isWebchatConnect: () => false,
+    respond,
+    context: {} as never,
+  });
+  return respond;
+}
+
+describe("identities handlers", () => {
+  it("requires the pairing scope", () => {
+    for (const method of Object.keys(identitiesHandlers)) {
+      expect(authorizeOperatorScopesForMethod(method, ["operator.write"])).toEqual({
+        allowed: false,
+        missingScope: "operator.pairing",
+      });
+      expect(authorizeOperatorScopesForMethod(method, ["operator.pairing"])).toEqual({
+        allowed: true,
+      });
+    }
+  });
+
+  it("links, lists, unlinks, and removes identities", async () => {
+    await withTempStateDir(async () => {
+      const linked = await call("identities.link", {
+        ids: ["telegram:111", " discord:222 "],
+        canonical: "alice",
+      });
+      expect(linked).toHaveBeenCalledWith(true, {
+        identity: expect.objectContaining({
+          canonical: "alice",
+          ids: ["telegram:111", "discord:222"],
+        }),
+      });
+
+      const listed = await call("identities.list", {});
+      expect(listed.mock.calls[0]?.[1]).toMatchObject({
+        identities: [{ canonical: "alice", ids: ["telegram:111", "discord:222"] }],
+      });
+
+      const unlinked = await call("identities.unlink", { id: "discord:222" });
+      expect(unlinked).toHaveBeenCalledWith(true, {
+        removed: true,
+        identity: expect.objectContaining({ canonical: "alice", ids: ["telegram:111"] }),
+      });
+      const missing = await call("identities.unlink", { id: "discord:222" });
+      expect(missing).toHaveBeenCalledWith(true, { removed: false, identity: undefined });
+
+      expect(await call("identities.remove", { canonical: "alice" })).toHaveBeenCalledWith(true, {
+        removed: true,
+      });
+      expect((await call("identities.list", {})).mock.calls[0]?.[1]).toEqual({ identities: [] });
+    });
+  });
+
+  it("rejects missing or malformed params", async () => {
+    await withTempStateDir(async () => {
+      const cases: Array<[keyof typeof identitiesHandlers, Record<string, unknown>, string]> = [
+        ["identities.link", {}, "identities.link requires ids"],
+        ["identities.link", { ids: ["", 42] }, "identities.link requires ids"],
+        ["identities.link", { ids: ["no-channel"] }, 'must look like "<channel>:<id>"'],
+        [
+          "identities.link",
+          { ids: ["telegram:111"], canonical: "bad name!" },
+          'Invalid identity name "bad name!"',
+        ],
+        ["identities.unlink", { id: "  " }, "identities.unlink requires id"],
+        ["identities.remove", {}, "identities.remove requires canonical"],
+      ];
+      for (const [method, params, message] of cases) {
+        const respond = await call(method, params);
+        expect(respond).toHaveBeenCalledWith(
+          false,
+          undefined,
+          expect.objectContaining({
+            code: "INVALID_REQUEST",
+            message: expect.stringContaining(message),
+          }),
+        );
+      }
+      expect((await call("identities.list", {})).mock.calls[0]?.[1]).toEqual({ identities: [] });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  linkIdentityIds,
+  listIdentityLinks,
+  removeIdentity,
+  unlinkIdentityId,
+} from "../../pairing/identity-links.js";
+import { ErrorCodes, errorShape } from "../protocol/index.js";
+import { formatForLog } from "../ws-log.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+function readString(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+export const identitiesHandlers: GatewayRequestHandlers = {
+  "identities.list": async ({ respond }) => {
+    try {
+      respond(true, { identities: await listIdentityLinks() });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
+    }
+  },
+  "identities.link": async ({ params, respond }) => {
+    const ids = Array.isArray(params.ids) ? params.ids.map(readString).filter(Boolean) : [];
+    if (ids.length === 0) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "identities.link requires ids"),
+      );
+      return;
+    }
+    let identity: Awaited<ReturnType<typeof linkIdentityIds>>;
+    try {
+      identity = await linkIdentityIds({ ids, canonical: readString(params.canonical) });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatForLog(err)));
+      return;
+    }
+    respond(true, { identity });
+  },
+  "identities.unlink": async ({ params, respond }) => {
+    const id = readString(params.id);
+    if (!id) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "identities.unlink requires id"),
+      );
+      return;
+    }
+    try {
+      const identity = await unlinkIdentityId({ id });
+      respond(true, { removed: Boolean(identity), identity: identity ?? undefined });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
+    }
+  },
+  "identities.remove": async ({ params, respond }) => {
+    const canonical = readString(params.canonical);
+    if (!canonical) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "identities.remove requires canonical"),
+      );
+      return;
+    }
+    try {
+      respond(true, { removed: await removeIdentity({ canonical }) });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
+    }
+  },
+};
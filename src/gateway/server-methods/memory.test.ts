@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../../config/config.js";
+
+const loadConfig = vi.hoisted(() =>
+  vi.fn(
+    () => ({ agents: { list: [{ id: "main", default: true }, { id: "ops" }] } }) as OpenClawConfig,
+  ),
+);
+const getMemorySearchManager = vi.hoisted(() => vi.fn());
+
+vi.mock("../../config/config.js", () => ({
+  loadConfig,
+}));
+
+vi.mock("../../memory/index.js", () => ({
+  getMemorySearchManager,
+}));
+
+import { memoryHandlers } from "./memory.js";
+
+const invokeMemoryWrite = async (params: Record<string, unknown>) => {
+  const respond = vi.fn();
+  await memoryHandlers["memory.write"]({
+    req: {} as never,
+    params: params as never,
+    respond: respond as never,
+    context: {} as never,
+    client: null,
+    isWebchatConnect: () => false,
+  });
+  return respond;
+};
+
+describe("memory.write", () => {
+  beforeEach(() => {
+    getMemorySearchManager.mockReset();
+  });
+
+  it("writes through the agent's memory manager", async () => {
+    const write = vi.fn().mockResolvedValue({
+      action: "append",
+      path: "memory/people.md",
+      line: 4,
+      indexed: true,
+    });
+    getMemorySearchManager.mockResolvedValue({ manager: { write } });
+
+    const respond = await invokeMemoryWrite({
+      text: " Alice prefers email. ",
+      path: "memory/people.md",
+      sessionKey: "agent:ops:main",
+    });
+
+    expect(getMemorySearchManager).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId: "ops" }),
+    );
+    expect(write).toHaveBeenCalledWith({
+      text: "Alice prefers email.",
+      path: "memory/people.md",
+      mode: undefined,
+      conflict: undefined,
+      sessionKey: "agent:ops:main",
+      origin: "gateway",
+    });
+    expect(respond).toHaveBeenCalledWith(true, {
+      agentId: "ops",
+      action: "append",
+      path: "memory/people.md",
+      line: 4,
+      indexed: true,
+    });
+  });
+
+  it("rejects paths outside the memory files and unknown agents", async () => {
+    const badPath = await invokeMemoryWrite({ text: "fact", path: "../notes.md" });
+    expect(badPath).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ message: expect.stringContaining("memory writes must target") }),
+    );
+
+    const badAgent = await invokeMemoryWrite({ text: "fact", agentId: "nope" });
+    expect(badAgent).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ message: 'unknown agent id "nope"' }),
+    );
+    expect(getMemorySearchManager).not.toHaveBeenCalled();
+  });
+});
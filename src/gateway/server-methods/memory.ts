@@ -0,0 +1,91 @@
+import { listAgentIds, resolveSessionAgentId } from "../../agents/agent-scope.js";
+import { loadConfig } from "../../config/config.js";
+import { getMemorySearchManager } from "../../memory/index.js";
+import type { MemoryWriteParams } from "../../memory/types.js";
+import { resolveMemoryWritePath } from "../../memory/write-back.js";
+import { normalizeAgentId } from "../../routing/session-key.js";
+import { ErrorCodes, errorShape } from "../protocol/index.js";
+import { formatForLog } from "../ws-log.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+function readOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export const memoryHandlers: GatewayRequestHandlers = {
+  "memory.write": async ({ params, respond }) => {
+    const text = typeof params.text === "string" ? params.text.trim() : "";
+    if (!text) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "memory.write requires text"),
+      );
+      return;
+    }
+    const mode = readOptionalString(params.mode);
+    if (mode && mode !== "auto" && mode !== "append") {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, "memory.write mode must be auto or append"),
+      );
+      return;
+    }
+    const conflict = readOptionalString(params.conflict);
+    if (conflict && conflict !== "replace" && conflict !== "keep-both") {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          "memory.write conflict must be replace or keep-both",
+        ),
+      );
+      return;
+    }
+    let targetPath: string;
+    try {
+      targetPath = resolveMemoryWritePath(readOptionalString(params.path));
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatForLog(err)));
+      return;
+    }
+    const cfg = loadConfig();
+    const sessionKey = readOptionalString(params.sessionKey);
+    const rawAgentId = readOptionalString(params.agentId);
+    const agentId = rawAgentId
+      ? normalizeAgentId(rawAgentId)
+      : resolveSessionAgentId({ sessionKey, config: cfg });
+    if (!listAgentIds(cfg).includes(agentId)) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown agent id "${rawAgentId}"`),
+      );
+      return;
+    }
+    const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+    if (!manager?.write) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAVAILABLE, error ?? "memory write unavailable"),
+      );
+      return;
+    }
+    try {
+      const result = await manager.write({
+        text,
+        path: targetPath,
+        mode: mode as MemoryWriteParams["mode"],
+        conflict: conflict as MemoryWriteParams["conflict"],
+        sessionKey,
+        origin: "gateway",
+      });
+      respond(true, { agentId, ...result });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)));
+    }
+  },
+};
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clearPluginHookTrace, configurePluginHookTrace } from "../../plugins/hook-trace.js";
+import { createPluginsHandlers } from "./plugins.js";
+
+async function callHandler(
+  handlers: ReturnType<typeof createPluginsHandlers>,
+  method: "plugins.reload" | "plugins.hooks.trace",
+  params: Record<string, unknown>,
+) {
+  const respond = vi.fn();
+  await handlers[method]({
+    req: { type: "req", id: "1", method, params },
+    params,
+    client: null,
+    isWebchatConnect: () => false,
+    respond,
+    context: {} as never,
+  });
+  return respond;
+}
+
+function callReload(
+  handlers: ReturnType<typeof createPluginsHandlers>,
+  params: Record<string, unknown>,
+) {
+  return callHandler(handlers, "plugins.reload", params);
+}
+
+describe("plugins handlers", () => {
+  afterEach(() => {
+    configurePluginHookTrace(undefined);
+    clearPluginHookTrace();
+  });
+
+  it("reloads the requested plugin", async () => {
+    const plugin = {
+      id: "demo",
+      status: "loaded" as const,
+      gatewayMethods: [],
+      channels: [],
+      services: ["demo-service"],
+    };
+    const reloadPlugin = vi.fn().mockResolvedValue(plugin);
+    const respond = await callReload(createPluginsHandlers({ reloadPlugin }), { id: " demo " });
+    expect(reloadPlugin).toHaveBeenCalledWith("demo");
+    expect(respond).toHaveBeenCalledWith(true, { ok: true, plugin });
+  });
+
+  it("rejects requests without a plugin id", async () => {
+    const reloadPlugin = vi.fn();
+    const respond = await callReload(createPluginsHandlers({ reloadPlugin }), {});
+    expect(reloadPlugin).not.toHaveBeenCalled();
+    expect(respond).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ code: "INVALID_REQUEST" }),
+    );
+  });
+
+  it("returns unavailable when the reload fails", async () => {
+    const reloadPlugin = vi.fn().mockRejectedValue(new Error("plugin not found: nope"));
+    const respond = await callReload(createPluginsHandlers({ reloadPlugin }), { id: "nope" });
+    expect(respond).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({
+        code: "UNAVAILABLE",
+        message: "Error: plugin not found: nope",
+      }),
+    );
+  });
+
+  it("toggles hook tracing and returns the trace snapshot", async () => {
+    const handlers = createPluginsHandlers({ reloadPlugin: vi.fn() });
+    const respond = await callHandler(handlers, "plugins.hooks.trace", { enabled: true });
+    expect(respond).toHaveBeenCalledWith(true, {
+      enabled: true,
+      slowMs: 1000,
+      maxEntries: 200,
+      entries: [],
+      stats: [],
+    });
+
+    const invalid = await callHandler(handlers, "plugins.hooks.trace", { enabled: "yes" });
+    expect(invalid).toHaveBeenCalledWith(
+      false,
+      undefined,
+      expect.objectContaining({ code: "INVALID_REQUEST" }),
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import {
+  clearPluginHookTrace,
+  getPluginHookTraceSettings,
+  listPluginHookLatencyStats,
+  listPluginHookTrace,
+  setPluginHookTraceEnabled,
+} from "../../plugins/hook-trace.js";
+import { ErrorCodes, errorShape } from "../protocol/index.js";
+import type { GatewayPluginReloadResult } from "../server-plugins.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+export function createPluginsHandlers(params: {
+  reloadPlugin: (pluginId: string) => Promise<GatewayPluginReloadResult>;
+}): GatewayRequestHandlers {
+  return {
+    "plugins.reload": async ({ params: requestParams, respond }) => {
+      const id = typeof requestParams.id === "string" ? requestParams.id.trim() : "";
+      if (!id) {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "invalid plugins.reload params: id required"),
+        );
+        return;
+      }
+      try {
+        const result = await params.reloadPlugin(id);
+        respond(true, { ok: true, plugin: result });
+      } catch (err) {
+        respond(false, undefined, errorShape(ErrorCodes.UNAVAILABLE, String(err)));
+      }
+    },
+    "plugins.hooks.trace": ({ params: requestParams, respond }) => {
+      const { enabled, clear, limit, hookName, pluginId } = requestParams;
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        respond(
+          false,
+          undefined,
+          errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            "invalid plugins.hooks.trace params: enabled must be a boolean",
+          ),
+        );
+        return;
+      }
+      if (typeof enabled === "boolean") {
+        setPluginHookTraceEnabled(enabled);
+      }
+      if (clear === true) {
+        clearPluginHookTrace();
+      }
+      respond(true, {
+        ...getPluginHookTraceSettings(),
+        entries: listPluginHookTrace({
+          limit: typeof limit === "number" ? limit : undefined,
+          hookName: typeof hookName === "string" ? hookName : undefined,
+          pluginId: typeof pluginId === "string" ? pluginId : undefined,
+        }),
+        stats: listPluginHookLatencyStats(),
+      });
+    },
+  };
+}
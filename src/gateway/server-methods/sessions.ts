@@ -3,15 +3,23 @@ import fs from "node:fs";
 import { getAcpSessionManager } from "../../acp/control-plane/manager.js";
 import { resolveDefaultAgentId } from "../../agents/agent-scope.js";
 import { clearBootstrapSnapshot } from "../../agents/bootstrap-cache.js";
-import { abortEmbeddedPiRun, waitForEmbeddedPiRunEnd } from "../../agents/pi-embedded.js";
+import {
+  abortEmbeddedPiRun,
+  isEmbeddedPiRunActive,
+  waitForEmbeddedPiRunEnd,
+} from "../../agents/pi-embedded.js";
 import { stopSubagentsForRequester } from "../../auto-reply/reply/abort.js";
 import { clearSessionQueues } from "../../auto-reply/reply/queue.js";
 import { loadConfig } from "../../config/config.js";
 import {
+  applySessionFork,
+  forkSessionTranscript,
   loadSessionStore,
   snapshotSessionOrigin,
   resolveMainSessionKey,
+  resolveSessionBranch,
   type SessionEntry,
+  switchSessionBranch,
   updateSessionStore,
 } from "../../config/sessions.js";
 import { unbindThreadBindingsBySessionKey } from "../../discord/monitor/thread-bindings.js";
@@ -29,15 +37,18 @@ import {
   errorShape,
   validateSessionsCompactParams,
   validateSessionsDeleteParams,
+  validateSessionsForkParams,
   validateSessionsListParams,
   validateSessionsPatchParams,
   validateSessionsPreviewParams,
   validateSessionsResetParams,
   validateSessionsResolveParams,
+  validateSessionsSwitchParams,
 } from "../protocol/index.js";
 import {
   archiveFileOnDisk,
-  archiveSessionTranscripts,
+  archiveSessionBranchTranscripts,
+  buildGatewaySessionBranches,
   listSessionsFromStore,
   loadCombinedSessionStoreForGateway,
   loadSessionEntry,
@@ -52,6 +63,7 @@ import {
 } from "../session-utils.js";
 import { applySessionsPatchToStore } from "../sessions-patch.js";
 import { resolveSessionKeyFromResolveParams } from "../sessions-resolve.js";
+import { formatForLog } from "../ws-log.js";
 import type { GatewayClient, GatewayRequestHandlers, RespondFn } from "./types.js";
 import { assertValidParams } from "./validation.js";
 
@@ -126,25 +138,6 @@ function migrateAndPruneSessionStoreKey(params: {
   return { target, primaryKey, entry: params.store[primaryKey] };
 }
 
-function archiveSessionTranscriptsForSession(params: {
-  sessionId: string | undefined;
-  storePath: string;
-  sessionFile?: string;
-  agentId?: string;
-  reason: "reset" | "deleted";
-}): string[] {
-  if (!params.sessionId) {
-    return [];
-  }
-  return archiveSessionTranscripts({
-    sessionId: params.sessionId,
-    storePath: params.storePath,
-    sessionFile: params.sessionFile,
-    agentId: params.agentId,
-    reason: params.reason,
-  });
-}
-
 async function emitSessionUnboundLifecycleEvent(params: {
   targetSessionKey: string;
   reason: "session-reset" | "session-delete";
@@ -461,16 +454,14 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       respond(false, undefined, acpCleanupError);
       return;
     }
-    let oldSessionId: string | undefined;
-    let oldSessionFile: string | undefined;
+    let oldEntry: SessionEntry | undefined;
     const next = await updateSessionStore(storePath, (store) => {
       const { primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
       const entry = store[primaryKey];
       const parsed = parseAgentSessionKey(primaryKey);
       const sessionAgentId = normalizeAgentId(parsed?.agentId ?? resolveDefaultAgentId(cfg));
       const resolvedModel = resolveSessionModelRef(cfg, entry, sessionAgentId);
-      oldSessionId = entry?.sessionId;
-      oldSessionFile = entry?.sessionFile;
+      oldEntry = entry;
       const now = Date.now();
       const nextEntry: SessionEntry = {
         sessionId: randomUUID(),
@@ -499,11 +490,10 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       store[primaryKey] = nextEntry;
       return nextEntry;
     });
-    // Archive old transcript so it doesn't accumulate on disk (#14869).
-    archiveSessionTranscriptsForSession({
-      sessionId: oldSessionId,
+    // Archive old transcripts (every branch) so they don't accumulate on disk (#14869).
+    archiveSessionBranchTranscripts({
+      entry: oldEntry,
       storePath,
-      sessionFile: oldSessionFile,
       agentId: target.agentId,
       reason: "reset",
     });
@@ -558,9 +548,11 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       respond(false, undefined, acpCleanupError);
       return;
     }
+    let deletedEntry: SessionEntry | undefined;
     const deleted = await updateSessionStore(storePath, (store) => {
       const { primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
-      const hadEntry = Boolean(store[primaryKey]);
+      deletedEntry = store[primaryKey];
+      const hadEntry = Boolean(deletedEntry);
       if (hadEntry) {
         delete store[primaryKey];
       }
@@ -569,10 +561,9 @@ export const sessionsHandlers: GatewayRequestHandlers = {
 
     const archived =
       deleted && deleteTranscript
-        ? archiveSessionTranscriptsForSession({
-            sessionId,
+        ? archiveSessionBranchTranscripts({
+            entry: deletedEntry,
             storePath,
-            sessionFile: entry?.sessionFile,
             agentId: target.agentId,
             reason: "deleted",
           })
@@ -690,4 +681,144 @@ export const sessionsHandlers: GatewayRequestHandlers = {
       undefined,
     );
   },
+  "sessions.fork": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsForkParams, "sessions.fork", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const forkTarget = await updateSessionStore(storePath, (store) => {
+      const { entry, primaryKey } = migrateAndPruneSessionStoreKey({ cfg, key, store });
+      return { entry, primaryKey };
+    });
+    const sessionId = forkTarget.entry?.sessionId;
+    if (!sessionId) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `Session ${key} has no transcript to fork.`),
+      );
+      return;
+    }
+    if (isEmbeddedPiRunActive(sessionId)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.UNAVAILABLE,
+          `Session ${key} is still active; try again in a moment.`,
+        ),
+      );
+      return;
+    }
+    const filePath = resolveSessionTranscriptCandidates(
+      sessionId,
+      storePath,
+      forkTarget.entry?.sessionFile,
+      target.agentId,
+    ).find((candidate) => fs.existsSync(candidate));
+    if (!filePath) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `Session ${key} has no transcript to fork.`),
+      );
+      return;
+    }
+
+    let fork: ReturnType<typeof forkSessionTranscript>;
+    try {
+      fork = forkSessionTranscript({ sessionFile: filePath, messageIndex: p.messageIndex });
+    } catch (err) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, formatForLog(err)));
+      return;
+    }
+
+    const forked = await updateSessionStore(storePath, (store) => {
+      const current = store[forkTarget.primaryKey];
+      // The chat may have moved on (reset/switch) while the transcript was copied.
+      if (!current || current.sessionId !== sessionId) {
+        return undefined;
+      }
+      applySessionFork(current, fork, p.label);
+      return current;
+    });
+    if (!forked) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.UNAVAILABLE, `Session ${key} changed while forking; try again.`),
+      );
+      return;
+    }
+
+    respond(
+      true,
+      {
+        ok: true,
+        key: target.canonicalKey,
+        sessionId: fork.sessionId,
+        parentSessionId: sessionId,
+        messageCount: fork.messageCount,
+        totalMessages: fork.totalMessages,
+        branches: buildGatewaySessionBranches(forked),
+      },
+      undefined,
+    );
+  },
+  "sessions.switch": async ({ params, respond }) => {
+    if (!assertValidParams(params, validateSessionsSwitchParams, "sessions.switch", respond)) {
+      return;
+    }
+    const p = params;
+    const key = requireSessionKey(p.key, respond);
+    if (!key) {
+      return;
+    }
+
+    const { cfg, target, storePath } = resolveGatewaySessionTargetFromKey(key);
+    const result = await updateSessionStore(storePath, (store) => {
+      const { entry } = migrateAndPruneSessionStoreKey({ cfg, key, store });
+      if (!entry?.sessionId) {
+        return { error: errorShape(ErrorCodes.INVALID_REQUEST, `Session ${key} not found.`) };
+      }
+      const branch = resolveSessionBranch(entry, p.branch);
+      if (!branch) {
+        return {
+          error: errorShape(ErrorCodes.INVALID_REQUEST, `No branch matches "${p.branch}".`),
+        };
+      }
+      if (branch.sessionId !== entry.sessionId && isEmbeddedPiRunActive(entry.sessionId)) {
+        return {
+          error: errorShape(
+            ErrorCodes.UNAVAILABLE,
+            `Session ${key} is still active; try again in a moment.`,
+          ),
+        };
+      }
+      const switched = switchSessionBranch(entry, branch);
+      return { entry, switched };
+    });
+    if ("error" in result) {
+      respond(false, undefined, result.error);
+      return;
+    }
+
+    respond(
+      true,
+      {
+        ok: true,
+        key: target.canonicalKey,
+        sessionId: result.entry.sessionId,
+        switched: result.switched,
+        branches: buildGatewaySessionBranches(result.entry),
+      },
+      undefined,
+    );
+  },
 };
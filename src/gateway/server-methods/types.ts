@@ -16,6 +16,10 @@ type SubsystemLogger = ReturnType<typeof createSubsystemLogger>;
 
 export type GatewayClient = {
   connect: ConnectParams;
+  /** Protocol version negotiated during `connect`. */
+  protocol?: number;
+  /** Deprecated methods this connection was already told about. */
+  deprecationsNotified?: Set<string>;
   connId?: string;
   clientIp?: string;
   canvasHostUrl?: string;
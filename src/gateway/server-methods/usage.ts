@@ -23,6 +23,7 @@ import {
   discoverAllSessions,
   type DiscoveredSession,
 } from "../../infra/session-cost-usage.js";
+import { loadUsageBudgetStatus } from "../../infra/usage-budgets.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { buildUsageAggregateTail } from "../../shared/usage-aggregates.js";
 import {
@@ -397,8 +398,11 @@ export type SessionsUsageResult = {
 
 export const usageHandlers: GatewayRequestHandlers = {
   "usage.status": async ({ respond }) => {
-    const summary = await loadProviderUsageSummary();
-    respond(true, summary, undefined);
+    const [summary, budgets] = await Promise.all([
+      loadProviderUsageSummary(),
+      loadUsageBudgetStatus({ cfg: loadConfig() }),
+    ]);
+    respond(true, { ...summary, budgets }, undefined);
   },
   "usage.cost": async ({ respond, params }) => {
     const config = loadConfig();
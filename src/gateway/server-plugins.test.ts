@@ -1,12 +1,14 @@
 import { describe, expect, test, vi } from "vitest";
-import type { PluginRegistry } from "../plugins/registry.js";
+import type { PluginRecord, PluginRegistry } from "../plugins/registry.js";
 import type { PluginDiagnostic } from "../plugins/types.js";
-import { loadGatewayPlugins } from "./server-plugins.js";
+import { loadGatewayPlugins, reloadGatewayPlugin } from "./server-plugins.js";
 
 const loadOpenClawPlugins = vi.hoisted(() => vi.fn());
+const prepareOpenClawPluginReload = vi.hoisted(() => vi.fn());
 
 vi.mock("../plugins/loader.js", () => ({
   loadOpenClawPlugins,
+  prepareOpenClawPluginReload,
 }));
 
 const createRegistry = (diagnostics: PluginDiagnostic[]): PluginRegistry => ({
@@ -22,6 +24,7 @@ const createRegistry = (diagnostics: PluginDiagnostic[]): PluginRegistry => ({
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  slotProviders: [],
   diagnostics,
 });
 
@@ -58,3 +61,90 @@ describe("loadGatewayPlugins", () => {
     expect(log.warn).not.toHaveBeenCalled();
   });
 });
+
+describe("reloadGatewayPlugin", () => {
+  const createRecord = (gatewayMethods: string[]) =>
+    ({
+      id: "hot",
+      status: "loaded",
+      gatewayMethods,
+      channelIds: ["hotchat"],
+      services: [],
+    }) as unknown as PluginRecord;
+
+  const setup = () => {
+    const registry = createRegistry([]);
+    registry.plugins.push(createRecord(["hot.v1"]));
+    const events: string[] = [];
+    const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    const params = {
+      pluginId: "hot",
+      pluginRegistry: registry,
+      cfg: {},
+      workspaceDir: "/tmp",
+      log,
+      coreGatewayHandlers: {},
+      extraHandlers: { "hot.v1": vi.fn() },
+      gatewayMethods: ["health", "hot.v1"],
+      pluginServices: {
+        stop: async () => {},
+        stopPlugin: async (id: string) => {
+          events.push(`stop services ${id}`);
+        },
+        startPlugin: async (id: string) => {
+          events.push(`start services ${id}`);
+        },
+      },
+      startChannel: async (name: string) => {
+        events.push(`start channel ${name}`);
+      },
+      stopChannel: async (name: string) => {
+        events.push(`stop channel ${name}`);
+      },
+    };
+    return { registry, events, params };
+  };
+
+  test("keeps the running instance when the new one fails to load", async () => {
+    const { events, params } = setup();
+    prepareOpenClawPluginReload.mockImplementation(() => {
+      throw new Error("plugin reload failed: hot: boom");
+    });
+
+    await expect(reloadGatewayPlugin(params)).rejects.toThrow("boom");
+    expect(events).toEqual([]);
+    expect(params.gatewayMethods).toEqual(["health", "hot.v1"]);
+    expect(Object.keys(params.extraHandlers)).toEqual(["hot.v1"]);
+  });
+
+  test("stops the old instance only after the new one loaded and refreshes the method list", async () => {
+    const { registry, events, params } = setup();
+    const handler = vi.fn();
+    prepareOpenClawPluginReload.mockImplementation(() => {
+      events.push("load");
+      return {
+        record: createRecord(["hot.v2"]),
+        commit: () => {
+          events.push("commit");
+          registry.gatewayHandlers["hot.v2"] = handler;
+          return { services: [], gatewayMethods: ["hot.v1"], channelIds: ["hotchat"] };
+        },
+        discard: () => {},
+      };
+    });
+
+    const result = await reloadGatewayPlugin(params);
+
+    expect(events).toEqual([
+      "load",
+      "stop channel hotchat",
+      "stop services hot",
+      "commit",
+      "start services hot",
+      "start channel hotchat",
+    ]);
+    expect(result.gatewayMethods).toEqual(["hot.v2"]);
+    expect(params.gatewayMethods).toEqual(["health", "hot.v2"]);
+    expect(params.extraHandlers).toEqual({ "hot.v2": handler });
+  });
+});
@@ -1,16 +1,41 @@
 import type { loadConfig } from "../config/config.js";
-import { loadOpenClawPlugins } from "../plugins/loader.js";
-import type { GatewayRequestHandler } from "./server-methods/types.js";
+import { loadOpenClawPlugins, prepareOpenClawPluginReload } from "../plugins/loader.js";
+import type { PluginRecord, PluginRegistry } from "../plugins/registry.js";
+import type { PluginServicesHandle } from "../plugins/services.js";
+import type { PluginDiagnostic } from "../plugins/types.js";
+import { type ChannelKind, invalidateGatewayReloadRules } from "./config-reload.js";
+import type { GatewayRequestHandler, GatewayRequestHandlers } from "./server-methods/types.js";
+
+type GatewayPluginLog = {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+  error: (msg: string) => void;
+  debug: (msg: string) => void;
+};
+
+function logPluginDiagnostics(diagnostics: PluginDiagnostic[], log: GatewayPluginLog) {
+  for (const diag of diagnostics) {
+    const details = [
+      diag.pluginId ? `plugin=${diag.pluginId}` : null,
+      diag.source ? `source=${diag.source}` : null,
+    ]
+      .filter((entry): entry is string => Boolean(entry))
+      .join(", ");
+    const message = details
+      ? `[plugins] ${diag.message} (${details})`
+      : `[plugins] ${diag.message}`;
+    if (diag.level === "error") {
+      log.error(message);
+    } else {
+      log.info(message);
+    }
+  }
+}
 
 export function loadGatewayPlugins(params: {
   cfg: ReturnType<typeof loadConfig>;
   workspaceDir: string;
-  log: {
-    info: (msg: string) => void;
-    warn: (msg: string) => void;
-    error: (msg: string) => void;
-    debug: (msg: string) => void;
-  };
+  log: GatewayPluginLog;
   coreGatewayHandlers: Record<string, GatewayRequestHandler>;
   baseMethods: string[];
 }) {
@@ -27,23 +52,101 @@ export function loadGatewayPlugins(params: {
   });
   const pluginMethods = Object.keys(pluginRegistry.gatewayHandlers);
   const gatewayMethods = Array.from(new Set([...params.baseMethods, ...pluginMethods]));
-  if (pluginRegistry.diagnostics.length > 0) {
-    for (const diag of pluginRegistry.diagnostics) {
-      const details = [
-        diag.pluginId ? `plugin=${diag.pluginId}` : null,
-        diag.source ? `source=${diag.source}` : null,
-      ]
-        .filter((entry): entry is string => Boolean(entry))
-        .join(", ");
-      const message = details
-        ? `[plugins] ${diag.message} (${details})`
-        : `[plugins] ${diag.message}`;
-      if (diag.level === "error") {
-        params.log.error(message);
-      } else {
-        params.log.info(message);
-      }
-    }
-  }
+  logPluginDiagnostics(pluginRegistry.diagnostics, params.log);
   return { pluginRegistry, gatewayMethods };
 }
+
+export type GatewayPluginReloadResult = {
+  id: string;
+  status: PluginRecord["status"];
+  error?: string;
+  version?: string;
+  gatewayMethods: string[];
+  channels: string[];
+  services: string[];
+};
+
+/**
+ * Reload one plugin inside a running gateway. The new instance is loaded and
+ * validated first; only then are the old channels and services stopped, the
+ * registrations swapped and the new services and channels started. A failed
+ * load leaves the previous instance running.
+ */
+export async function reloadGatewayPlugin(params: {
+  pluginId: string;
+  pluginRegistry: PluginRegistry;
+  cfg: ReturnType<typeof loadConfig>;
+  workspaceDir: string;
+  log: GatewayPluginLog;
+  coreGatewayHandlers: Record<string, GatewayRequestHandler>;
+  /** Live handler map of the WS server; plugin gateway methods are swapped in place. */
+  extraHandlers: GatewayRequestHandlers;
+  /** Live method list advertised in hello `features.methods`; updated in place. */
+  gatewayMethods: string[];
+  pluginServices: PluginServicesHandle | null;
+  startChannel: (name: ChannelKind) => Promise<void>;
+  stopChannel: (name: ChannelKind) => Promise<void>;
+}): Promise<GatewayPluginReloadResult> {
+  const { pluginId, pluginRegistry } = params;
+  const previous = pluginRegistry.plugins.find((entry) => entry.id === pluginId);
+  if (!previous) {
+    throw new Error(`plugin not found: ${pluginId}`);
+  }
+
+  const plan = prepareOpenClawPluginReload({
+    registry: pluginRegistry,
+    pluginId,
+    config: params.cfg,
+    workspaceDir: params.workspaceDir,
+    logger: {
+      info: (msg) => params.log.info(msg),
+      warn: (msg) => params.log.warn(msg),
+      error: (msg) => params.log.error(msg),
+      debug: (msg) => params.log.debug(msg),
+    },
+    coreGatewayHandlers: params.coreGatewayHandlers,
+  });
+
+  for (const channel of previous.channelIds) {
+    await params.stopChannel(channel as ChannelKind);
+  }
+  await params.pluginServices?.stopPlugin(pluginId);
+
+  const removed = plan.commit();
+  const { record } = plan;
+  for (const method of removed.gatewayMethods) {
+    delete params.extraHandlers[method];
+  }
+  for (const method of record.gatewayMethods) {
+    params.extraHandlers[method] = pluginRegistry.gatewayHandlers[method];
+  }
+  const advertised = params.gatewayMethods.filter(
+    (method) => !removed.gatewayMethods.includes(method),
+  );
+  params.gatewayMethods.splice(
+    0,
+    params.gatewayMethods.length,
+    ...new Set([...advertised, ...record.gatewayMethods]),
+  );
+  invalidateGatewayReloadRules();
+
+  await params.pluginServices?.startPlugin(pluginId);
+  for (const channel of record.channelIds) {
+    await params.startChannel(channel as ChannelKind);
+  }
+  logPluginDiagnostics(
+    pluginRegistry.diagnostics.filter((diag) => diag.pluginId === pluginId),
+    params.log,
+  );
+  params.log.info(`[plugins] reloaded ${pluginId} (${record.status})`);
+
+  return {
+    id: record.id,
+    status: record.status,
+    error: record.error,
+    version: record.version,
+    gatewayMethods: [...record.gatewayMethods],
+    channels: [...record.channelIds],
+    services: [...record.services],
+  };
+}
@@ -14,6 +14,7 @@ import {
   emitGatewayRestart,
   setGatewaySigusr1RestartPolicy,
 } from "../infra/restart.js";
+import { configurePluginHookTrace } from "../plugins/hook-trace.js";
 import { setCommandLaneConcurrency, getTotalQueueSize } from "../process/command-queue.js";
 import { CommandLane } from "../process/lanes.js";
 import type { ChannelKind, GatewayReloadPlan } from "./config-reload.js";
@@ -35,6 +36,7 @@ export function createGatewayReloadHandlers(params: {
   setState: (state: GatewayHotReloadState) => void;
   startChannel: (name: ChannelKind) => Promise<void>;
   stopChannel: (name: ChannelKind) => Promise<void>;
+  reloadPlugin: (pluginId: string, nextConfig: ReturnType<typeof loadConfig>) => Promise<void>;
   logHooks: {
     info: (msg: string) => void;
     warn: (msg: string) => void;
@@ -120,6 +122,18 @@ export function createGatewayReloadHandlers(params: {
       }
     }
 
+    if (plan.reloadHookTrace) {
+      configurePluginHookTrace(nextConfig.plugins?.hookTrace);
+    }
+
+    for (const pluginId of plan.reloadPlugins) {
+      try {
+        await params.reloadPlugin(pluginId, nextConfig);
+      } catch (err) {
+        params.logReload.warn(`plugin ${pluginId} reload failed: ${String(err)}`);
+      }
+    }
+
     setCommandLaneConcurrency(CommandLane.Cron, nextConfig.cron?.maxConcurrentRuns ?? 1);
     setCommandLaneConcurrency(CommandLane.Main, resolveAgentMaxConcurrent(nextConfig));
     setCommandLaneConcurrency(CommandLane.Subagent, resolveSubagentMaxConcurrent(nextConfig));
@@ -0,0 +1,100 @@
+import { randomUUID } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import type { WebSocket } from "ws";
+import { rawDataToString } from "../infra/ws.js";
+import { BATCH_MAX_CALLS } from "./protocol/index.js";
+import { connectOk, installGatewayTestHooks, onceMessage } from "./test-helpers.js";
+import { withServer } from "./test-with-server.js";
+
+installGatewayTestHooks({ scope: "suite" });
+
+type BatchFrame = {
+  type?: string;
+  id?: string;
+  ok?: boolean;
+  payload?: Record<string, unknown>;
+  error?: { code?: string; message?: string };
+  results?: Array<{ id: string; ok: boolean; error?: { message?: string } }>;
+};
+
+/** Send a batch and collect every frame up to its closing `batch-res` (or error `res`). */
+async function batchReq(
+  ws: WebSocket,
+  calls: Array<{ id: string; method: string; params?: unknown }>,
+): Promise<BatchFrame[]> {
+  const id = randomUUID();
+  const callIds = new Set(calls.map((call) => call.id));
+  const frames: BatchFrame[] = [];
+  const done = new Promise<void>((resolve) => {
+    const onMessage = (data: WebSocket.RawData) => {
+      const frame = JSON.parse(rawDataToString(data)) as BatchFrame;
+      if (frame.type === "res" && frame.id && (callIds.has(frame.id) || frame.id === id)) {
+        frames.push(frame);
+      }
+      if ((frame.type === "batch-res" || frame.type === "res") && frame.id === id) {
+        if (frame.type === "batch-res") {
+          frames.push(frame);
+        }
+        ws.off("message", onMessage);
+        resolve();
+      }
+    };
+    ws.on("message", onMessage);
+  });
+  ws.send(JSON.stringify({ type: "batch", id, calls }));
+  await done;
+  return frames;
+}
+
+describe("gateway batch requests", () => {
+  it("streams a res frame per call and closes with a batch-res summary", async () => {
+    await withServer(async (ws) => {
+      const hello = (await connectOk(ws, { token: "secret", scopes: ["operator.read"] })) as {
+        features?: { batch?: { maxCalls?: number } };
+      };
+      expect(hello.features?.batch?.maxCalls).toBe(BATCH_MAX_CALLS);
+
+      const frames = await batchReq(ws, [
+        { id: "a", method: "tools.catalog", params: {} },
+        { id: "b", method: "config.apply", params: { raw: "{}" } },
+        { id: "c", method: "health" },
+      ]);
+
+      const summary = frames.at(-1);
+      expect(summary?.type).toBe("batch-res");
+      const streamed = frames.slice(0, -1);
+      expect(streamed.every((frame) => frame.type === "res")).toBe(true);
+      const byId = new Map(streamed.map((frame) => [frame.id, frame]));
+      expect(streamed).toHaveLength(3);
+      expect(byId.get("a")?.payload?.groups).toBeDefined();
+      expect(byId.get("b")?.error?.message).toBe("missing scope: operator.admin");
+      expect(byId.get("c")?.ok).toBe(true);
+
+      const results = summary?.results ?? [];
+      expect(results.map((result) => [result.id, result.ok])).toEqual([
+        ["a", true],
+        ["b", false],
+        ["c", true],
+      ]);
+    });
+  });
+
+  it("rejects malformed batches with a plain error response", async () => {
+    await withServer(async (ws) => {
+      await connectOk(ws, { token: "secret", scopes: ["operator.read"] });
+      const id = randomUUID();
+      const res = onceMessage<BatchFrame>(ws, (o) => o.type === "res" && o.id === id);
+      ws.send(JSON.stringify({ type: "batch", id, calls: [] }));
+      expect((await res).error?.message).toContain("invalid batch frame");
+
+      // Duplicate call ids would make the per-call res frames ambiguous.
+      const frames = await batchReq(ws, [
+        { id: "a", method: "health" },
+        { id: "a", method: "status" },
+      ]);
+      expect(frames).toHaveLength(1);
+      expect(frames[0]?.type).toBe("res");
+      expect(frames[0]?.error?.message).toBe("invalid batch frame: duplicate call id: a");
+    });
+  });
+});
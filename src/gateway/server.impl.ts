@@ -77,11 +77,13 @@ import { GATEWAY_EVENTS, listGatewayMethods } from "./server-methods-list.js";
 import { coreGatewayHandlers } from "./server-methods.js";
 import { createExecApprovalHandlers } from "./server-methods/exec-approval.js";
 import { safeParseJson } from "./server-methods/nodes.helpers.js";
+import { createPluginsHandlers } from "./server-methods/plugins.js";
 import { createSecretsHandlers } from "./server-methods/secrets.js";
+import type { GatewayRequestHandlers } from "./server-methods/types.js";
 import { hasConnectedMobileNode } from "./server-mobile-nodes.js";
 import { loadGatewayModelCatalog } from "./server-model-catalog.js";
 import { createNodeSubscriptionManager } from "./server-node-subscriptions.js";
-import { loadGatewayPlugins } from "./server-plugins.js";
+import { loadGatewayPlugins, reloadGatewayPlugin } from "./server-plugins.js";
 import { createGatewayReloadHandlers } from "./server-reload-handlers.js";
 import { resolveGatewayRuntimeConfig } from "./server-runtime-config.js";
 import { createGatewayRuntimeState } from "./server-runtime-state.js";
@@ -691,6 +693,31 @@ export async function startGatewayServer(
     },
   });
 
+  const reloadPlugin = (pluginId: string, cfg: ReturnType<typeof loadConfig> = loadConfig()) =>
+    reloadGatewayPlugin({
+      pluginId,
+      pluginRegistry,
+      cfg,
+      workspaceDir: defaultWorkspaceDir,
+      log,
+      coreGatewayHandlers,
+      extraHandlers,
+      gatewayMethods,
+      pluginServices,
+      startChannel,
+      stopChannel,
+    });
+  const pluginsHandlers = createPluginsHandlers({
+    reloadPlugin: (pluginId) => reloadPlugin(pluginId),
+  });
+  // Kept as one object so a plugin reload can swap its gateway methods in place.
+  const extraHandlers: GatewayRequestHandlers = {
+    ...pluginRegistry.gatewayHandlers,
+    ...execApprovalHandlers,
+    ...secretsHandlers,
+    ...pluginsHandlers,
+  };
+
   const canvasHostServerPort = (canvasHostServer as CanvasHostServer | null)?.port;
 
   attachGatewayWsHandlers({
@@ -708,11 +735,7 @@ export async function startGatewayServer(
     logGateway: log,
     logHealth,
     logWsControl,
-    extraHandlers: {
-      ...pluginRegistry.gatewayHandlers,
-      ...execApprovalHandlers,
-      ...secretsHandlers,
-    },
+    extraHandlers,
     broadcast,
     context: {
       deps,
@@ -843,6 +866,9 @@ export async function startGatewayServer(
           },
           startChannel,
           stopChannel,
+          reloadPlugin: async (pluginId, nextConfig) => {
+            await reloadPlugin(pluginId, nextConfig);
+          },
           logHooks,
           logBrowser,
           logChannels,
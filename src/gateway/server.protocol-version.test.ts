@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { PROTOCOL_VERSION } from "./protocol/index.js";
+import { connectOk, installGatewayTestHooks, rpcReq } from "./test-helpers.js";
+import { withServer } from "./test-with-server.js";
+
+installGatewayTestHooks({ scope: "suite" });
+
+describe("gateway protocol negotiation", () => {
+  it("picks the highest version inside the client's range", async () => {
+    await withServer(async (ws) => {
+      const hello = (await connectOk(ws, {
+        minProtocol: 1,
+        maxProtocol: PROTOCOL_VERSION + 5,
+      })) as { protocol?: number };
+      expect(hello.protocol).toBe(PROTOCOL_VERSION);
+
+      const info = await rpcReq<{
+        protocol?: number;
+        supportedProtocols?: number[];
+        deprecatedMethods?: unknown[];
+      }>(ws, "gateway.protocol.info");
+      expect(info.payload).toMatchObject({
+        protocol: PROTOCOL_VERSION,
+        supportedProtocols: [PROTOCOL_VERSION],
+        deprecatedMethods: [],
+      });
+
+      const presence = await rpcReq(ws, "system-presence");
+      expect(presence.ok).toBe(true);
+    });
+  });
+});
@@ -319,6 +319,8 @@ describe("gateway hot reload", () => {
           restartCron: true,
           restartHeartbeat: true,
           restartChannels: new Set(["whatsapp", "telegram", "discord", "signal", "imessage"]),
+          reloadPlugins: new Set(),
+          reloadHookTrace: false,
           noopPaths: [],
         },
         nextConfig,
@@ -369,6 +371,8 @@ describe("gateway hot reload", () => {
           restartCron: false,
           restartHeartbeat: false,
           restartChannels: new Set(),
+          reloadPlugins: new Set(),
+          reloadHookTrace: false,
           noopPaths: [],
         },
         {},
@@ -418,6 +422,8 @@ describe("gateway hot reload", () => {
         restartCron: false,
         restartHeartbeat: false,
         restartChannels: new Set(),
+        reloadPlugins: new Set(),
+        reloadHookTrace: false,
         noopPaths: [],
       };
       const nextConfig = {
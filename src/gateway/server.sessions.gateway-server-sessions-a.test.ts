@@ -1,6 +1,8 @@
+import { writeFileSync } from "node:fs";
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { SessionManager } from "@mariozechner/pi-coding-agent";
 import { afterAll, beforeAll, beforeEach, describe, expect, test, vi } from "vitest";
 import { WebSocket } from "ws";
 import { DEFAULT_PROVIDER } from "../agents/defaults.js";
@@ -45,6 +47,10 @@ const acpRuntimeMocks = vi.hoisted(() => ({
   requireAcpRuntimeBackend: vi.fn(),
 }));
 
+const sessionBranchMocks = vi.hoisted(() => ({
+  afterFork: undefined as (() => void) | undefined,
+}));
+
 vi.mock("../auto-reply/reply/queue.js", async () => {
   const actual = await vi.importActual<typeof import("../auto-reply/reply/queue.js")>(
     "../auto-reply/reply/queue.js",
@@ -55,6 +61,18 @@ vi.mock("../auto-reply/reply/queue.js", async () => {
   };
 });
 
+vi.mock("../config/sessions/branches.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../config/sessions/branches.js")>();
+  return {
+    ...actual,
+    forkSessionTranscript: (params: Parameters<typeof actual.forkSessionTranscript>[0]) => {
+      const fork = actual.forkSessionTranscript(params);
+      sessionBranchMocks.afterFork?.();
+      return fork;
+    },
+  };
+});
+
 vi.mock("../auto-reply/reply/abort.js", async () => {
   const actual = await vi.importActual<typeof import("../auto-reply/reply/abort.js")>(
     "../auto-reply/reply/abort.js",
@@ -156,6 +174,43 @@ async function seedActiveMainSession() {
   return { dir, storePath };
 }
 
+async function seedForkableSession(key = "main") {
+  const { dir, storePath } = await createSessionStoreDir();
+  const manager = SessionManager.create(dir, dir);
+  for (let turn = 1; turn <= 2; turn += 1) {
+    manager.appendMessage({ role: "user", content: `question ${turn}`, timestamp: turn });
+    manager.appendMessage({
+      role: "assistant",
+      content: [{ type: "text", text: `answer ${turn}` }],
+      api: "openai-responses",
+      provider: "openai",
+      model: "gpt-test",
+      usage: {
+        input: 0,
+        output: 0,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: 0,
+        cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+      },
+      stopReason: "stop",
+      timestamp: turn,
+    });
+  }
+  const sessionId = manager.getSessionId();
+  await writeSessionStore({
+    entries: {
+      [key]: { sessionId, sessionFile: manager.getSessionFile(), updatedAt: Date.now() },
+    },
+  });
+  return { dir, storePath, sessionId };
+}
+
+type SessionBranchesPayload = {
+  sessionId: string;
+  branches?: Array<{ sessionId: string; depth: number; active: boolean; label?: string }>;
+};
+
 function expectActiveRunCleanup(
   requesterSessionKey: string,
   expectedQueueKeys: string[],
@@ -191,6 +246,7 @@ async function getMainPreviewEntry(ws: import("ws").WebSocket) {
 
 describe("gateway server sessions", () => {
   beforeEach(() => {
+    sessionBranchMocks.afterFork = undefined;
     sessionCleanupMocks.clearSessionQueues.mockClear();
     sessionCleanupMocks.stopSubagentsForRequester.mockClear();
     sessionHookMocks.triggerInternalHook.mockClear();
@@ -1302,4 +1358,120 @@ describe("gateway server sessions", () => {
 
     ws.close();
   });
+
+  test("sessions.fork branches the transcript and sessions.switch moves between branches", async () => {
+    const { storePath, sessionId } = await seedForkableSession();
+    const { ws } = await openClient();
+
+    const forked = await rpcReq<SessionBranchesPayload & { parentSessionId: string }>(
+      ws,
+      "sessions.fork",
+      { key: "main", messageIndex: 2, label: "retry" },
+    );
+    expect(forked.ok).toBe(true);
+    expect(forked.payload?.parentSessionId).toBe(sessionId);
+    const forkId = forked.payload?.sessionId;
+    expect(forkId).not.toBe(sessionId);
+    expect(forked.payload?.branches).toEqual([
+      expect.objectContaining({ sessionId, depth: 0, active: false }),
+      expect.objectContaining({ sessionId: forkId, depth: 1, active: true, label: "retry" }),
+    ]);
+
+    const switched = await rpcReq<SessionBranchesPayload & { switched: boolean }>(
+      ws,
+      "sessions.switch",
+      { key: "main", branch: "1" },
+    );
+    expect(switched.ok).toBe(true);
+    expect(switched.payload?.switched).toBe(true);
+    expect(switched.payload?.sessionId).toBe(sessionId);
+    expect(switched.payload?.branches?.map((branch) => branch.active)).toEqual([true, false]);
+
+    const store = JSON.parse(await fs.readFile(storePath, "utf-8")) as Record<
+      string,
+      { sessionId?: string; branches?: unknown[] }
+    >;
+    expect(store["agent:main:main"]?.sessionId).toBe(sessionId);
+    expect(store["agent:main:main"]?.branches).toHaveLength(2);
+
+    ws.close();
+  });
+
+  test("sessions.fork and sessions.switch reject sessions with an active run", async () => {
+    const { sessionId } = await seedForkableSession();
+    const { ws } = await openClient();
+
+    embeddedRunMock.activeIds.add(sessionId);
+    const rejectedFork = await rpcReq(ws, "sessions.fork", { key: "main" });
+    expect(rejectedFork.ok).toBe(false);
+    expect(rejectedFork.error?.code).toBe("UNAVAILABLE");
+    expect(rejectedFork.error?.message ?? "").toMatch(/still active/i);
+
+    embeddedRunMock.activeIds.delete(sessionId);
+    const forked = await rpcReq<SessionBranchesPayload>(ws, "sessions.fork", { key: "main" });
+    expect(forked.ok).toBe(true);
+
+    embeddedRunMock.activeIds.add(forked.payload?.sessionId ?? "");
+    const rejectedSwitch = await rpcReq(ws, "sessions.switch", { key: "main", branch: "1" });
+    expect(rejectedSwitch.ok).toBe(false);
+    expect(rejectedSwitch.error?.code).toBe("UNAVAILABLE");
+    expect(rejectedSwitch.error?.message ?? "").toMatch(/still active/i);
+
+    ws.close();
+  });
+
+  test("sessions.fork does not record the fork when the session changed meanwhile", async () => {
+    const { storePath } = await seedForkableSession();
+    sessionBranchMocks.afterFork = () => {
+      writeFileSync(
+        storePath,
+        JSON.stringify({ "agent:main:main": { sessionId: "sess-reset", updatedAt: Date.now() } }),
+        "utf-8",
+      );
+    };
+    const { ws } = await openClient();
+
+    const forked = await rpcReq(ws, "sessions.fork", { key: "main" });
+    expect(forked.ok).toBe(false);
+    expect(forked.error?.code).toBe("UNAVAILABLE");
+    expect(forked.error?.message ?? "").toMatch(/changed while forking/i);
+
+    const store = JSON.parse(await fs.readFile(storePath, "utf-8")) as Record<
+      string,
+      { sessionId?: string; branches?: unknown[] }
+    >;
+    expect(store["agent:main:main"]?.sessionId).toBe("sess-reset");
+    expect(store["agent:main:main"]?.branches).toBeUndefined();
+
+    ws.close();
+  });
+
+  test("sessions.reset and sessions.delete archive every branch transcript", async () => {
+    const { dir } = await seedForkableSession("discord:group:dev");
+    const { ws } = await openClient();
+
+    const forked = await rpcReq(ws, "sessions.fork", { key: "discord:group:dev" });
+    expect(forked.ok).toBe(true);
+
+    const reset = await rpcReq<{ entry: { branches?: unknown[] } }>(ws, "sessions.reset", {
+      key: "discord:group:dev",
+    });
+    expect(reset.ok).toBe(true);
+    expect(reset.payload?.entry.branches).toBeUndefined();
+    let files = await fs.readdir(dir);
+    expect(files.filter((file) => file.endsWith(".jsonl"))).toEqual([]);
+    expect(files.filter((file) => file.includes(".jsonl.reset."))).toHaveLength(2);
+
+    const reforked = await seedForkableSession("discord:group:dev");
+    await rpcReq(ws, "sessions.fork", { key: "discord:group:dev" });
+    const deleted = await rpcReq<{ archived: string[] }>(ws, "sessions.delete", {
+      key: "discord:group:dev",
+    });
+    expect(deleted.ok).toBe(true);
+    expect(deleted.payload?.archived).toHaveLength(2);
+    files = await fs.readdir(reforked.dir);
+    expect(files.filter((file) => file.endsWith(".jsonl"))).toEqual([]);
+
+    ws.close();
+  });
 });
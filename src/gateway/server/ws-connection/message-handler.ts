@@ -45,6 +45,10 @@ import {
 } from "../../net.js";
 import { resolveNodeCommandAllowlist } from "../../node-command-policy.js";
 import { checkBrowserOrigin } from "../../origin-check.js";
+import {
+  listSupportedProtocolVersions,
+  negotiateProtocolVersion,
+} from "../../protocol-versions.js";
 import { GATEWAY_CLIENT_IDS } from "../../protocol/client-info.js";
 import {
   ConnectErrorDetailCodes,
@@ -52,18 +56,21 @@ import {
   resolveAuthConnectErrorDetailCode,
 } from "../../protocol/connect-error-details.js";
 import {
+  BATCH_MAX_CALLS,
   type ConnectParams,
   ErrorCodes,
   type ErrorShape,
   errorShape,
+  findDuplicateBatchCallId,
   formatValidationErrors,
   PROTOCOL_VERSION,
+  validateBatchRequestFrame,
   validateConnectParams,
   validateRequestFrame,
 } from "../../protocol/index.js";
 import { parseGatewayRole } from "../../role-policy.js";
 import { MAX_BUFFERED_BYTES, MAX_PAYLOAD_BYTES, TICK_INTERVAL_MS } from "../../server-constants.js";
-import { handleGatewayRequest } from "../../server-methods.js";
+import { handleGatewayBatchRequest, handleGatewayRequest } from "../../server-methods.js";
 import type { GatewayRequestContext, GatewayRequestHandlers } from "../../server-methods/types.js";
 import { formatError } from "../../server-utils.js";
 import { formatForLog, logWs } from "../../ws-log.js";
@@ -433,7 +440,8 @@ export function attachGatewayWsMessageHandler(params: {
 
         // protocol negotiation
         const { minProtocol, maxProtocol } = connectParams;
-        if (maxProtocol < PROTOCOL_VERSION || minProtocol > PROTOCOL_VERSION) {
+        const protocol = negotiateProtocolVersion({ minProtocol, maxProtocol });
+        if (protocol === null) {
           markHandshakeFailure("protocol-mismatch", {
             minProtocol,
             maxProtocol,
@@ -443,7 +451,10 @@ export function attachGatewayWsMessageHandler(params: {
             `protocol mismatch conn=${connId} remote=${remoteAddr ?? "?"} client=${clientLabel} ${connectParams.client.mode} v${connectParams.client.version}`,
           );
           sendHandshakeErrorResponse(ErrorCodes.INVALID_REQUEST, "protocol mismatch", {
-            details: { expectedProtocol: PROTOCOL_VERSION },
+            details: {
+              expectedProtocol: PROTOCOL_VERSION,
+              supportedProtocols: listSupportedProtocolVersions(),
+            },
           });
           close(1002, "protocol mismatch");
           return;
@@ -986,12 +997,12 @@ export function attachGatewayWsMessageHandler(params: {
             : canvasHostUrl;
         const helloOk = {
           type: "hello-ok",
-          protocol: PROTOCOL_VERSION,
+          protocol,
           server: {
             version: resolveRuntimeServiceVersion(process.env, "dev"),
             connId,
           },
-          features: { methods: gatewayMethods, events },
+          features: { methods: gatewayMethods, events, batch: { maxCalls: BATCH_MAX_CALLS } },
           snapshot,
           canvasHostUrl: scopedCanvasHostUrl,
           auth: deviceToken
@@ -1013,6 +1024,7 @@ export function attachGatewayWsMessageHandler(params: {
         const nextClient: GatewayWsClient = {
           socket,
           connect: connectParams,
+          protocol,
           connId,
           presenceKey,
           clientIp: reportedClientIp,
@@ -1087,30 +1099,16 @@ export function attachGatewayWsMessageHandler(params: {
         return;
       }
 
-      // After handshake, accept only req frames
-      if (!validateRequestFrame(parsed)) {
-        send({
-          type: "res",
-          id: (parsed as { id?: unknown })?.id ?? "invalid",
-          ok: false,
-          error: errorShape(
-            ErrorCodes.INVALID_REQUEST,
-            `invalid request frame: ${formatValidationErrors(validateRequestFrame.errors)}`,
-          ),
-        });
-        return;
-      }
-      const req = parsed;
-      logWs("in", "req", { connId, id: req.id, method: req.method });
-      const respond = (
-        ok: boolean,
-        payload?: unknown,
-        error?: ErrorShape,
-        meta?: Record<string, unknown>,
-      ) => {
-        send({ type: "res", id: req.id, ok, payload, error });
-        const unauthorizedRoleError = isUnauthorizedRoleError(error);
-        let logMeta = meta;
+      const trackResponse = (res: {
+        id: string;
+        method: string;
+        ok: boolean;
+        error?: ErrorShape;
+        meta?: Record<string, unknown>;
+        batchId?: string;
+      }) => {
+        const unauthorizedRoleError = isUnauthorizedRoleError(res.error);
+        let logMeta = res.meta;
         if (unauthorizedRoleError) {
           const unauthorizedDecision = unauthorizedFloodGuard.registerUnauthorized();
           if (unauthorizedDecision.suppressedSinceLastLog > 0) {
@@ -1125,7 +1123,7 @@ export function attachGatewayWsMessageHandler(params: {
           if (unauthorizedDecision.shouldClose) {
             setCloseCause("repeated-unauthorized-requests", {
               unauthorizedCount: unauthorizedDecision.count,
-              method: req.method,
+              method: res.method,
             });
             queueMicrotask(() => close(1008, "repeated unauthorized calls"));
           }
@@ -1138,15 +1136,102 @@ export function attachGatewayWsMessageHandler(params: {
         }
         logWs("out", "res", {
           connId,
-          id: req.id,
-          ok,
-          method: req.method,
-          errorCode: error?.code,
-          errorMessage: error?.message,
+          id: res.id,
+          ...(res.batchId ? { batchId: res.batchId } : {}),
+          ok: res.ok,
+          method: res.method,
+          errorCode: res.error?.code,
+          errorMessage: res.error?.message,
           ...logMeta,
         });
       };
 
+      // After handshake, accept req frames and batches of them.
+      if (validateBatchRequestFrame(parsed)) {
+        const batch = parsed;
+        const duplicateCallId = findDuplicateBatchCallId(batch);
+        if (duplicateCallId !== undefined) {
+          send({
+            type: "res",
+            id: batch.id,
+            ok: false,
+            error: errorShape(
+              ErrorCodes.INVALID_REQUEST,
+              `invalid batch frame: duplicate call id: ${duplicateCallId}`,
+            ),
+          });
+          return;
+        }
+        for (const call of batch.calls) {
+          logWs("in", "req", { connId, id: call.id, method: call.method, batchId: batch.id });
+        }
+        void (async () => {
+          const results = await handleGatewayBatchRequest({
+            batch,
+            client,
+            isWebchatConnect,
+            extraHandlers,
+            context: buildRequestContext(),
+            onResponse: (call, ok, payload, error, meta) => {
+              send({ type: "res", id: call.id, ok, payload, error });
+              trackResponse({
+                id: call.id,
+                method: call.method,
+                ok,
+                error,
+                meta,
+                batchId: batch.id,
+              });
+            },
+          });
+          send({ type: "batch-res", id: batch.id, results });
+        })().catch((err) => {
+          logGateway.error(`batch handler failed: ${formatForLog(err)}`);
+          send({
+            type: "res",
+            id: batch.id,
+            ok: false,
+            error: errorShape(ErrorCodes.UNAVAILABLE, formatForLog(err)),
+          });
+        });
+        return;
+      }
+      if ((parsed as { type?: unknown })?.type === "batch") {
+        send({
+          type: "res",
+          id: (parsed as { id?: unknown })?.id ?? "invalid",
+          ok: false,
+          error: errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            `invalid batch frame: ${formatValidationErrors(validateBatchRequestFrame.errors)}`,
+          ),
+        });
+        return;
+      }
+      if (!validateRequestFrame(parsed)) {
+        send({
+          type: "res",
+          id: (parsed as { id?: unknown })?.id ?? "invalid",
+          ok: false,
+          error: errorShape(
+            ErrorCodes.INVALID_REQUEST,
+            `invalid request frame: ${formatValidationErrors(validateRequestFrame.errors)}`,
+          ),
+        });
+        return;
+      }
+      const req = parsed;
+      logWs("in", "req", { connId, id: req.id, method: req.method });
+      const respond = (
+        ok: boolean,
+        payload?: unknown,
+        error?: ErrorShape,
+        meta?: Record<string, unknown>,
+      ) => {
+        send({ type: "res", id: req.id, ok, payload, error });
+        trackResponse({ id: req.id, method: req.method, ok, error, meta });
+      };
+
       void (async () => {
         await handleGatewayRequest({
           req,
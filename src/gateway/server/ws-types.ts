@@ -4,6 +4,8 @@ import type { ConnectParams } from "../protocol/index.js";
 export type GatewayWsClient = {
   socket: WebSocket;
   connect: ConnectParams;
+  protocol?: number;
+  deprecationsNotified?: Set<string>;
   connId: string;
   presenceKey?: string;
   clientIp?: string;
@@ -3,8 +3,10 @@ import os from "node:os";
 import path from "node:path";
 import {
   formatSessionArchiveTimestamp,
+  listSessionBranches,
   parseSessionArchiveTimestamp,
   type SessionArchiveReason,
+  type SessionEntry,
   resolveSessionFilePath,
   resolveSessionTranscriptPath,
   resolveSessionTranscriptPathInDir,
@@ -226,6 +228,30 @@ export function archiveSessionTranscripts(opts: {
   return archived;
 }
 
+/**
+ * Archives the transcripts of every branch of a session entry (see
+ * `sessions.fork`), not just the active one.
+ */
+export function archiveSessionBranchTranscripts(opts: {
+  entry: SessionEntry | undefined;
+  storePath: string | undefined;
+  agentId?: string;
+  reason: "reset" | "deleted";
+}): string[] {
+  if (!opts.entry?.sessionId) {
+    return [];
+  }
+  return listSessionBranches(opts.entry).flatMap((branch) =>
+    archiveSessionTranscripts({
+      sessionId: branch.sessionId,
+      storePath: opts.storePath,
+      sessionFile: branch.sessionFile,
+      agentId: opts.agentId,
+      reason: opts.reason,
+    }),
+  );
+}
+
 export async function cleanupArchivedSessionTranscripts(opts: {
   directories: string[];
   olderThanMs: number;
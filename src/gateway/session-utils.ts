@@ -13,6 +13,7 @@ import { type OpenClawConfig, loadConfig } from "../config/config.js";
 import { resolveStateDir } from "../config/paths.js";
 import {
   buildGroupDisplayName,
+  buildSessionBranchTree,
   canonicalizeMainSessionAlias,
   loadSessionStore,
   resolveAgentMainSessionKey,
@@ -41,6 +42,7 @@ import { normalizeSessionDeliveryFields } from "../utils/delivery-context.js";
 import { readSessionTitleFieldsFromTranscript } from "./session-utils.fs.js";
 import type {
   GatewayAgentRow,
+  GatewaySessionBranch,
   GatewaySessionRow,
   GatewaySessionsDefaults,
   SessionsListResult,
@@ -48,6 +50,7 @@ import type {
 
 export {
   archiveFileOnDisk,
+  archiveSessionBranchTranscripts,
   archiveSessionTranscripts,
   capArrayByJsonBytes,
   readFirstUserMessageFromTranscript,
@@ -59,6 +62,7 @@ export {
 } from "./session-utils.fs.js";
 export type {
   GatewayAgentRow,
+  GatewaySessionBranch,
   GatewaySessionRow,
   GatewaySessionsDefaults,
   SessionsListResult,
@@ -725,6 +729,23 @@ export function resolveSessionModelIdentityRef(
   return { provider: resolved.provider, model: resolved.model };
 }
 
+export function buildGatewaySessionBranches(
+  entry: SessionEntry | undefined,
+): GatewaySessionBranch[] | undefined {
+  if (!entry?.branches?.length) {
+    return undefined;
+  }
+  return buildSessionBranchTree(entry).map(({ branch, depth, active }) => ({
+    sessionId: branch.sessionId,
+    parentSessionId: branch.parentSessionId,
+    forkMessageCount: branch.forkMessageCount,
+    label: branch.label,
+    createdAt: branch.createdAt,
+    depth,
+    active,
+  }));
+}
+
 export function listSessionsFromStore(params: {
   cfg: OpenClawConfig;
   storePath: string;
@@ -851,6 +872,7 @@ export function listSessionsFromStore(params: {
         lastChannel: deliveryFields.lastChannel ?? entry?.lastChannel,
         lastTo: deliveryFields.lastTo ?? entry?.lastTo,
         lastAccountId: deliveryFields.lastAccountId ?? entry?.lastAccountId,
+        branches: buildGatewaySessionBranches(entry),
       };
     })
     .toSorted((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
@@ -8,6 +8,17 @@ export type GatewaySessionsDefaults = {
   contextTokens: number | null;
 };
 
+export type GatewaySessionBranch = {
+  sessionId: string;
+  parentSessionId?: string;
+  forkMessageCount?: number;
+  label?: string;
+  createdAt: number;
+  /** Nesting level in the branch tree (0 = root transcript). */
+  depth: number;
+  active: boolean;
+};
+
 export type GatewaySessionRow = {
   key: string;
   kind: "direct" | "group" | "global" | "unknown";
@@ -42,6 +53,8 @@ export type GatewaySessionRow = {
   lastChannel?: SessionEntry["lastChannel"];
   lastTo?: string;
   lastAccountId?: string;
+  /** Transcript branch tree in depth-first order; only set once the session was forked. */
+  branches?: GatewaySessionBranch[];
 };
 
 export type GatewayAgentRow = {
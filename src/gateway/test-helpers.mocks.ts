@@ -150,6 +150,7 @@ const createStubPluginRegistry = (): PluginRegistry => ({
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  slotProviders: [],
   commands: [],
   diagnostics: [],
 });
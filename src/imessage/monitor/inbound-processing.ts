@@ -206,6 +206,8 @@ export function resolveIMessageInboundDecision(params: {
       kind: isGroup ? "group" : "direct",
       id: isGroup ? String(chatId ?? "unknown") : senderNormalized,
     },
+    text: params.messageText,
+    senderId: senderNormalized,
   });
   const mentionRegexes = buildMentionRegexes(params.cfg, route.agentId);
   const messageText = params.messageText.trim();
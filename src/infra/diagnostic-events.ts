@@ -145,6 +145,18 @@ export type DiagnosticToolLoopEvent = DiagnosticBaseEvent & {
   count: number;
   message: string;
   pairedToolName?: string;
+  recovery?: "note" | "switch-model" | "ask-user" | "abort";
+};
+
+export type DiagnosticSandboxEgressEvent = DiagnosticBaseEvent & {
+  type: "sandbox.egress";
+  sessionKey?: string;
+  scopeKey: string;
+  method: string;
+  host: string;
+  port: number;
+  allowed: boolean;
+  reason?: string;
 };
 
 export type DiagnosticEventPayload =
@@ -160,7 +172,8 @@ export type DiagnosticEventPayload =
   | DiagnosticLaneDequeueEvent
   | DiagnosticRunAttemptEvent
   | DiagnosticHeartbeatEvent
-  | DiagnosticToolLoopEvent;
+  | DiagnosticToolLoopEvent
+  | DiagnosticSandboxEgressEvent;
 
 export type DiagnosticEventInput = DiagnosticEventPayload extends infer Event
   ? Event extends DiagnosticEventPayload
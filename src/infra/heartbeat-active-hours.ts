@@ -42,10 +42,24 @@ function parseActiveHoursTime(opts: { allow24: boolean }, raw?: string): number
   return hour * 60 + minute;
 }
 
-function resolveMinutesInTimeZone(nowMs: number, timeZone: string): number | null {
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type HoursWindow = {
+  start?: string;
+  end?: string;
+  timezone?: string;
+  /** Weekdays ("mon".."sun") the window starts on. Omit = every day. */
+  days?: string[];
+};
+
+function resolveClockInTimeZone(
+  nowMs: number,
+  timeZone: string,
+): { minutes: number; weekday: number } | null {
   try {
     const parts = new Intl.DateTimeFormat("en-US", {
       timeZone,
+      weekday: "short",
       hour: "2-digit",
       minute: "2-digit",
       hourCycle: "h23",
@@ -58,42 +72,63 @@ function resolveMinutesInTimeZone(nowMs: number, timeZone: string): number | nul
     }
     const hour = Number(map.hour);
     const minute = Number(map.minute);
-    if (!Number.isFinite(hour) || !Number.isFinite(minute)) {
+    const weekday = WEEKDAYS.indexOf(
+      (map.weekday ?? "").slice(0, 3).toLowerCase() as (typeof WEEKDAYS)[number],
+    );
+    if (!Number.isFinite(hour) || !Number.isFinite(minute) || weekday < 0) {
       return null;
     }
-    return hour * 60 + minute;
+    return { minutes: hour * 60 + minute, weekday };
   } catch {
     return null;
   }
 }
 
-export function isWithinActiveHours(
+/**
+ * Check a daily HH:MM window (optionally limited to weekdays). Returns
+ * undefined when the window cannot be evaluated so callers pick their own
+ * fallback.
+ */
+export function isWithinHoursWindow(
   cfg: OpenClawConfig,
-  heartbeat?: HeartbeatConfig,
+  window: HoursWindow,
   nowMs?: number,
-): boolean {
-  const active = heartbeat?.activeHours;
-  if (!active) {
-    return true;
-  }
-
-  const startMin = parseActiveHoursTime({ allow24: false }, active.start);
-  const endMin = parseActiveHoursTime({ allow24: true }, active.end);
+): boolean | undefined {
+  const startMin = parseActiveHoursTime({ allow24: false }, window.start);
+  const endMin = parseActiveHoursTime({ allow24: true }, window.end);
   if (startMin === null || endMin === null) {
-    return true;
+    return undefined;
   }
   if (startMin === endMin) {
     return false;
   }
 
-  const timeZone = resolveActiveHoursTimezone(cfg, active.timezone);
-  const currentMin = resolveMinutesInTimeZone(nowMs ?? Date.now(), timeZone);
-  if (currentMin === null) {
-    return true;
+  const timeZone = resolveActiveHoursTimezone(cfg, window.timezone);
+  const clock = resolveClockInTimeZone(nowMs ?? Date.now(), timeZone);
+  if (!clock) {
+    return undefined;
   }
+  const days = window.days?.length ? new Set(window.days.map((day) => day.toLowerCase())) : null;
+  const startsOn = (weekday: number) => !days || days.has(WEEKDAYS[(weekday + 7) % 7]);
 
   if (endMin > startMin) {
-    return currentMin >= startMin && currentMin < endMin;
+    return startsOn(clock.weekday) && clock.minutes >= startMin && clock.minutes < endMin;
+  }
+  // Overnight window: the early-morning part belongs to the previous day's window.
+  if (clock.minutes >= startMin) {
+    return startsOn(clock.weekday);
+  }
+  return clock.minutes < endMin && startsOn(clock.weekday - 1);
+}
+
+export function isWithinActiveHours(
+  cfg: OpenClawConfig,
+  heartbeat?: HeartbeatConfig,
+  nowMs?: number,
+): boolean {
+  const active = heartbeat?.activeHours;
+  if (!active) {
+    return true;
   }
-  return currentMin >= startMin || currentMin < endMin;
+  return isWithinHoursWindow(cfg, active, nowMs) ?? true;
 }
@@ -0,0 +1,149 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  checkUsageBudgets,
+  formatUsageBudgetBlockedText,
+  loadUsageBudgetStatus,
+  recordUsageBudgetSpend,
+} from "./usage-budgets.js";
+
+const now = new Date(2026, 9, 18, 12, 0, 0);
+
+function makeConfig(budgets: OpenClawConfig["budgets"]): OpenClawConfig {
+  return {
+    budgets,
+    models: {
+      providers: {
+        openai: {
+          baseUrl: "https://api.openai.com/v1",
+          models: [
+            {
+              id: "gpt-5",
+              name: "GPT-5",
+              reasoning: false,
+              input: ["text"],
+              // $1 per million tokens each way keeps the arithmetic readable.
+              cost: { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 },
+              contextWindow: 200_000,
+              maxTokens: 8192,
+            },
+          ],
+        },
+      },
+    },
+  } as OpenClawConfig;
+}
+
+describe("usage budgets", () => {
+  let baseDir = "";
+
+  beforeEach(async () => {
+    baseDir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-budgets-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  });
+
+  const spend = (cfg: OpenClawConfig, subject: object, usd: number) =>
+    recordUsageBudgetSpend({
+      cfg,
+      subject,
+      usage: { input: usd * 1_000_000 },
+      provider: "openai",
+      model: "gpt-5",
+      now,
+      baseDir,
+    });
+
+  it("warns once with a downgrade model and blocks at the cap", async () => {
+    const cfg = makeConfig({
+      agents: { main: { dailyUsd: 10, downgradeModel: "openai/gpt-5-mini" } },
+    });
+    const subject = { agentId: "main" };
+
+    await spend(cfg, subject, 8.5);
+    const warn = await checkUsageBudgets({ cfg, subject, now, baseDir });
+    expect(warn).toMatchObject({
+      state: "warn",
+      downgradeModel: "openai/gpt-5-mini",
+      notify: true,
+      trigger: { scope: "agent:main", period: "day", spentUsd: 8.5, limitUsd: 10 },
+    });
+    await expect(checkUsageBudgets({ cfg, subject, now, baseDir })).resolves.toMatchObject({
+      state: "warn",
+      notify: false,
+    });
+
+    await spend(cfg, subject, 2);
+    const blocked = await checkUsageBudgets({ cfg, subject, now, baseDir });
+    expect(blocked).toMatchObject({ state: "blocked", notify: true, downgradeModel: undefined });
+    expect(formatUsageBudgetBlockedText(blocked!.trigger!)).toBe(
+      "⛔ Spending budget reached for agent main: $10.50 of $10.00 today. Replies resume tomorrow.",
+    );
+
+    const tomorrow = new Date(2026, 9, 19, 9, 0, 0);
+    await expect(
+      checkUsageBudgets({ cfg, subject, now: tomorrow, baseDir }),
+    ).resolves.toMatchObject({ state: "ok", notify: false });
+  });
+
+  it("tracks wildcard scopes per sender and reports status", async () => {
+    const cfg = makeConfig({
+      senders: { "*": { dailyUsd: 1 } },
+      accounts: { "telegram:support": { monthlyUsd: 50 } },
+    });
+    const alice = { channel: "telegram", accountId: "support", senderId: "111" };
+    const bob = { channel: "telegram", accountId: "support", senderId: "222" };
+
+    await spend(cfg, alice, 1.2);
+    await expect(checkUsageBudgets({ cfg, subject: alice, now, baseDir })).resolves.toMatchObject({
+      state: "blocked",
+      trigger: { scope: "sender:telegram:111" },
+    });
+    await expect(checkUsageBudgets({ cfg, subject: bob, now, baseDir })).resolves.toMatchObject({
+      state: "ok",
+    });
+
+    const status = await loadUsageBudgetStatus({ cfg, now, baseDir });
+    expect(status.windows).toEqual([
+      expect.objectContaining({
+        scope: "account:telegram:support",
+        period: "month",
+        spentUsd: 1.2,
+        state: "ok",
+      }),
+      expect.objectContaining({ scope: "sender:telegram:111", period: "day", state: "blocked" }),
+    ]);
+  });
+
+  it("ignores runs without pricing and stays off without limits", async () => {
+    const cfg = makeConfig({ agents: { main: { dailyUsd: 1 } } });
+    await expect(
+      recordUsageBudgetSpend({
+        cfg,
+        subject: { agentId: "main" },
+        usage: { input: 5_000_000 },
+        provider: "anthropic",
+        model: "claude-opus-4-6",
+        now,
+        baseDir,
+      }),
+    ).resolves.toBeUndefined();
+    await expect(
+      checkUsageBudgets({
+        cfg: makeConfig({ enabled: false, agents: { main: { dailyUsd: 1 } } }),
+        subject: { agentId: "main" },
+        now,
+        baseDir,
+      }),
+    ).resolves.toBeNull();
+    await expect(loadUsageBudgetStatus({ cfg: makeConfig(undefined), baseDir })).resolves.toEqual({
+      enabled: false,
+      windows: [],
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import path from "node:path";
+import type { NormalizedUsage } from "../agents/usage.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStateDir } from "../config/paths.js";
+import type { BudgetLimitConfig, BudgetsConfig } from "../config/types.budgets.js";
+import { estimateUsageCost, formatUsd, resolveModelCostConfig } from "../utils/usage-format.js";
+import { createAsyncLock, readJsonFile, writeJsonAtomic } from "./json-files.js";
+
+/** Who a run is attributed to; each field maps to one budget scope. */
+export type UsageBudgetSubject = {
+  agentId?: string;
+  channel?: string;
+  accountId?: string;
+  senderId?: string;
+  sessionKey?: string;
+};
+
+export type UsageBudgetPeriod = "day" | "month";
+
+export type UsageBudgetState = "ok" | "warn" | "blocked";
+
+export type UsageBudgetWindow = {
+  /** Scope key, e.g. "agent:main", "account:telegram:default", "sender:telegram:123". */
+  scope: string;
+  period: UsageBudgetPeriod;
+  /** Local date ("YYYY-MM-DD") or month ("YYYY-MM"). */
+  periodKey: string;
+  spentUsd: number;
+  limitUsd: number;
+  warnUsd: number;
+  state: UsageBudgetState;
+};
+
+export type UsageBudgetCheck = {
+  state: UsageBudgetState;
+  windows: UsageBudgetWindow[];
+  /** The window that blocked the run, or the most specific one past its warning threshold. */
+  trigger?: UsageBudgetWindow;
+  /** Cheaper model ("provider/model") to use while over a warning threshold. */
+  downgradeModel?: string;
+  /** True the first time the trigger window reaches its state in the current period. */
+  notify: boolean;
+};
+
+export type UsageBudgetStatus = {
+  enabled: boolean;
+  windows: UsageBudgetWindow[];
+};
+
+type BudgetLedgerEntry = {
+  day: string;
+  dayUsd: number;
+  month: string;
+  monthUsd: number;
+  /** "<state>:<period>:<periodKey>" markers for notices already sent. */
+  notified?: string[];
+};
+
+type BudgetLedger = {
+  version: 1;
+  scopes: Record<string, BudgetLedgerEntry>;
+};
+
+const DEFAULT_WARN_PERCENT = 80;
+
+const withLock = createAsyncLock();
+
+function resolveLedgerPath(baseDir?: string) {
+  return path.join(baseDir ?? resolveStateDir(), "usage", "budgets.json");
+}
+
+const formatDayKey = (date: Date): string =>
+  date.toLocaleDateString("en-CA", { timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+
+function resolvePeriodKeys(now: Date): { day: string; month: string } {
+  const day = formatDayKey(now);
+  return { day, month: day.slice(0, 7) };
+}
+
+function hasLimit(limits: BudgetLimitConfig | undefined): limits is BudgetLimitConfig {
+  return typeof limits?.dailyUsd === "number" || typeof limits?.monthlyUsd === "number";
+}
+
+export function isUsageBudgetsEnabled(cfg?: OpenClawConfig): boolean {
+  const budgets = cfg?.budgets;
+  if (!budgets || budgets.enabled === false) {
+    return false;
+  }
+  return (
+    hasLimit(budgets.session) ||
+    [budgets.agents, budgets.accounts, budgets.senders].some((entries) =>
+      Object.values(entries ?? {}).some(hasLimit),
+    )
+  );
+}
+
+function normalizeToken(value?: string): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/** Scope keys for a subject, most specific first. */
+function resolveSubjectScopes(subject: UsageBudgetSubject): string[] {
+  const channel = normalizeToken(subject.channel)?.toLowerCase();
+  const sessionKey = normalizeToken(subject.sessionKey);
+  const senderId = normalizeToken(subject.senderId);
+  const agentId = normalizeToken(subject.agentId);
+  const scopes: string[] = [];
+  if (sessionKey) {
+    scopes.push(`session:${sessionKey}`);
+  }
+  if (channel && senderId) {
+    scopes.push(`sender:${channel}:${senderId}`);
+  }
+  if (channel) {
+    scopes.push(`account:${channel}:${normalizeToken(subject.accountId) ?? "default"}`);
+  }
+  if (agentId) {
+    scopes.push(`agent:${agentId}`);
+  }
+  return scopes;
+}
+
+function pickLimits(
+  entries: Record<string, BudgetLimitConfig> | undefined,
+  keys: string[],
+): BudgetLimitConfig | undefined {
+  for (const key of keys) {
+    const limits = entries?.[key];
+    if (hasLimit(limits)) {
+      return limits;
+    }
+  }
+  return undefined;
+}
+
+function resolveScopeLimits(budgets: BudgetsConfig, scope: string): BudgetLimitConfig | undefined {
+  const sep = scope.indexOf(":");
+  const kind = scope.slice(0, sep);
+  const rest = scope.slice(sep + 1);
+  switch (kind) {
+    case "session":
+      return hasLimit(budgets.session) ? budgets.session : undefined;
+    case "agent":
+      return pickLimits(budgets.agents, [rest, "*"]);
+    case "account":
+    case "sender": {
+      const channel = rest.slice(0, rest.indexOf(":"));
+      return pickLimits(kind === "account" ? budgets.accounts : budgets.senders, [
+        rest,
+        channel,
+        "*",
+      ]);
+    }
+    default:
+      return undefined;
+  }
+}
+
+function evaluateScope(params: {
+  scope: string;
+  limits: BudgetLimitConfig;
+  entry: BudgetLedgerEntry | undefined;
+  now: Date;
+}): UsageBudgetWindow[] {
+  const { day, month } = resolvePeriodKeys(params.now);
+  const warnPercent = params.limits.warnPercent ?? DEFAULT_WARN_PERCENT;
+  const windows: UsageBudgetWindow[] = [];
+  const periods: Array<[UsageBudgetPeriod, string, number | undefined, number]> = [
+    ["day", day, params.limits.dailyUsd, params.entry?.day === day ? params.entry.dayUsd : 0],
+    [
+      "month",
+      month,
+      params.limits.monthlyUsd,
+      params.entry?.month === month ? params.entry.monthUsd : 0,
+    ],
+  ];
+  for (const [period, periodKey, limitUsd, spentUsd] of periods) {
+    if (typeof limitUsd !== "number") {
+      continue;
+    }
+    const warnUsd = (limitUsd * warnPercent) / 100;
+    windows.push({
+      scope: params.scope,
+      period,
+      periodKey,
+      spentUsd,
+      limitUsd,
+      warnUsd,
+      state: spentUsd >= limitUsd ? "blocked" : spentUsd >= warnUsd ? "warn" : "ok",
+    });
+  }
+  return windows;
+}
+
+async function readLedger(baseDir?: string): Promise<BudgetLedger> {
+  const existing = await readJsonFile<BudgetLedger>(resolveLedgerPath(baseDir));
+  if (!existing || typeof existing.scopes !== "object" || !existing.scopes) {
+    return { version: 1, scopes: {} };
+  }
+  return existing;
+}
+
+async function writeLedger(ledger: BudgetLedger, now: Date, baseDir?: string) {
+  // Spend from earlier months can no longer count against any limit.
+  const { month } = resolvePeriodKeys(now);
+  for (const [scope, entry] of Object.entries(ledger.scopes)) {
+    if (entry.month !== month) {
+      delete ledger.scopes[scope];
+    }
+  }
+  await writeJsonAtomic(resolveLedgerPath(baseDir), ledger);
+}
+
+function resolveLimitedScopes(
+  budgets: BudgetsConfig,
+  subject: UsageBudgetSubject,
+): Array<{ scope: string; limits: BudgetLimitConfig }> {
+  return resolveSubjectScopes(subject).flatMap((scope) => {
+    const limits = resolveScopeLimits(budgets, scope);
+    return limits ? [{ scope, limits }] : [];
+  });
+}
+
+/**
+ * Check every budget that applies to a run before it starts. A blocked run
+ * must not call the model; a warning may switch to the configured cheaper
+ * model. `notify` is set once per state and period so chats are not flooded.
+ */
+export async function checkUsageBudgets(params: {
+  cfg: OpenClawConfig;
+  subject: UsageBudgetSubject;
+  now?: Date;
+  baseDir?: string;
+}): Promise<UsageBudgetCheck | null> {
+  const budgets = params.cfg.budgets;
+  if (!budgets || !isUsageBudgetsEnabled(params.cfg)) {
+    return null;
+  }
+  const scopes = resolveLimitedScopes(budgets, params.subject);
+  if (scopes.length === 0) {
+    return null;
+  }
+  const now = params.now ?? new Date();
+  return await withLock(async () => {
+    const ledger = await readLedger(params.baseDir);
+    const windows = scopes.flatMap(({ scope, limits }) =>
+      evaluateScope({ scope, limits, entry: ledger.scopes[scope], now }),
+    );
+    const trigger =
+      windows.find((window) => window.state === "blocked") ??
+      windows.find((window) => window.state === "warn");
+    const state = trigger?.state ?? "ok";
+    const downgradeModel =
+      state === "warn"
+        ? windows
+            .filter((window) => window.state === "warn")
+            .map((window) => scopes.find((entry) => entry.scope === window.scope)?.limits)
+            .find((limits) => limits?.downgradeModel)?.downgradeModel
+        : undefined;
+    let notify = false;
+    if (trigger) {
+      const marker = `${trigger.state}:${trigger.period}:${trigger.periodKey}`;
+      const { day, month } = resolvePeriodKeys(now);
+      const entry = ledger.scopes[trigger.scope] ?? { day, dayUsd: 0, month, monthUsd: 0 };
+      if (!entry.notified?.includes(marker)) {
+        entry.notified = [...(entry.notified ?? []), marker];
+        ledger.scopes[trigger.scope] = entry;
+        await writeLedger(ledger, now, params.baseDir);
+        notify = true;
+      }
+    }
+    return { state, windows, trigger, downgradeModel, notify };
+  });
+}
+
+/**
+ * Add the estimated cost of a finished run to every budget that applies to it.
+ * Runs on models without configured pricing cannot be counted.
+ */
+export async function recordUsageBudgetSpend(params: {
+  cfg: OpenClawConfig;
+  subject: UsageBudgetSubject;
+  usage?: NormalizedUsage;
+  provider?: string;
+  model?: string;
+  now?: Date;
+  baseDir?: string;
+}): Promise<number | undefined> {
+  const budgets = params.cfg.budgets;
+  if (!budgets || !isUsageBudgetsEnabled(params.cfg)) {
+    return undefined;
+  }
+  const costUsd = estimateUsageCost({
+    usage: params.usage,
+    cost: resolveModelCostConfig({
+      provider: params.provider,
+      model: params.model,
+      config: params.cfg,
+    }),
+  });
+  if (costUsd === undefined || costUsd <= 0) {
+    return undefined;
+  }
+  const scopes = resolveLimitedScopes(budgets, params.subject);
+  if (scopes.length === 0) {
+    return undefined;
+  }
+  const now = params.now ?? new Date();
+  const { day, month } = resolvePeriodKeys(now);
+  await withLock(async () => {
+    const ledger = await readLedger(params.baseDir);
+    for (const { scope } of scopes) {
+      const prev = ledger.scopes[scope];
+      ledger.scopes[scope] = {
+        day,
+        dayUsd: (prev?.day === day ? prev.dayUsd : 0) + costUsd,
+        month,
+        monthUsd: (prev?.month === month ? prev.monthUsd : 0) + costUsd,
+        notified: prev?.notified?.filter(
+          (marker) => marker.endsWith(`:${day}`) || marker.endsWith(`:${month}`),
+        ),
+      };
+    }
+    await writeLedger(ledger, now, params.baseDir);
+  });
+  return costUsd;
+}
+
+/**
+ * Current budget windows, either for one subject (all scopes that apply to it)
+ * or for every scope with recorded spend or an explicitly configured limit.
+ */
+export async function loadUsageBudgetStatus(params: {
+  cfg: OpenClawConfig;
+  subject?: UsageBudgetSubject;
+  now?: Date;
+  baseDir?: string;
+}): Promise<UsageBudgetStatus> {
+  const budgets = params.cfg.budgets;
+  if (!budgets || !isUsageBudgetsEnabled(params.cfg)) {
+    return { enabled: false, windows: [] };
+  }
+  const now = params.now ?? new Date();
+  const ledger = await readLedger(params.baseDir);
+  let scopes: string[];
+  if (params.subject) {
+    scopes = resolveSubjectScopes(params.subject);
+  } else {
+    const configured = [
+      ...Object.keys(budgets.agents ?? {})
+        .filter((key) => key !== "*")
+        .map((key) => `agent:${key}`),
+      ...Object.keys(budgets.accounts ?? {})
+        .filter((key) => key.includes(":"))
+        .map((key) => `account:${key}`),
+      ...Object.keys(budgets.senders ?? {})
+        .filter((key) => key.includes(":"))
+        .map((key) => `sender:${key}`),
+    ];
+    scopes = [...new Set([...Object.keys(ledger.scopes), ...configured])].toSorted();
+  }
+  const windows = scopes.flatMap((scope) => {
+    const limits = resolveScopeLimits(budgets, scope);
+    return limits ? evaluateScope({ scope, limits, entry: ledger.scopes[scope], now }) : [];
+  });
+  return { enabled: true, windows };
+}
+
+function formatScopeLabel(scope: string): string {
+  const sep = scope.indexOf(":");
+  return `${scope.slice(0, sep)} ${scope.slice(sep + 1)}`;
+}
+
+function formatPeriod(period: UsageBudgetPeriod): string {
+  return period === "day" ? "today" : "this month";
+}
+
+export function formatUsageBudgetWindow(window: UsageBudgetWindow): string {
+  const percent = window.limitUsd > 0 ? Math.round((window.spentUsd / window.limitUsd) * 100) : 100;
+  const flag = window.state === "blocked" ? " ⛔" : window.state === "warn" ? " ⚠️" : "";
+  return `${formatScopeLabel(window.scope)}: ${formatUsd(window.spentUsd) ?? "$0.00"} / ${formatUsd(window.limitUsd) ?? "$0.00"} ${formatPeriod(window.period)} (${percent}%)${flag}`;
+}
+
+export function formatUsageBudgetBlockedText(window: UsageBudgetWindow): string {
+  const resume = window.period === "day" ? "tomorrow" : "next month";
+  return `⛔ Spending budget reached for ${formatScopeLabel(window.scope)}: ${formatUsd(window.spentUsd) ?? "$0.00"} of ${formatUsd(window.limitUsd) ?? "$0.00"} ${formatPeriod(window.period)}. Replies resume ${resume}.`;
+}
+
+export function formatUsageBudgetWarningText(
+  window: UsageBudgetWindow,
+  downgradeModel?: string,
+): string {
+  const switching = downgradeModel ? ` Switching to ${downgradeModel} to save cost.` : "";
+  return `⚠️ Spending budget for ${formatScopeLabel(window.scope)} at ${formatUsd(window.spentUsd) ?? "$0.00"} of ${formatUsd(window.limitUsd) ?? "$0.00"} ${formatPeriod(window.period)}.${switching}`;
+}
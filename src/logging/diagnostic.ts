@@ -265,13 +265,16 @@ export function logToolLoopAction(
     count: number;
     message: string;
     pairedToolName?: string;
+    recovery?: "note" | "switch-model" | "ask-user" | "abort";
   },
 ) {
   const payload = `tool loop: sessionId=${params.sessionId ?? "unknown"} sessionKey=${
     params.sessionKey ?? "unknown"
   } tool=${params.toolName} level=${params.level} action=${params.action} detector=${
     params.detector
-  } count=${params.count}${params.pairedToolName ? ` pairedTool=${params.pairedToolName}` : ""} message="${params.message}"`;
+  } count=${params.count}${params.pairedToolName ? ` pairedTool=${params.pairedToolName}` : ""}${
+    params.recovery ? ` recovery=${params.recovery}` : ""
+  } message="${params.message}"`;
   if (params.level === "critical") {
     diag.error(payload);
   } else {
@@ -288,10 +291,43 @@ export function logToolLoopAction(
     count: params.count,
     message: params.message,
     pairedToolName: params.pairedToolName,
+    recovery: params.recovery,
   });
   markActivity();
 }
 
+export function logSandboxEgress(
+  params: SessionRef & {
+    scopeKey: string;
+    method: string;
+    host: string;
+    port: number;
+    allowed: boolean;
+    reason?: string;
+  },
+) {
+  const payload = `sandbox egress: sessionKey=${params.sessionKey ?? "unknown"} scope=${
+    params.scopeKey
+  } ${params.method} ${params.host}:${params.port} ${params.allowed ? "allowed" : "blocked"}${
+    params.reason ? ` reason="${params.reason}"` : ""
+  }`;
+  if (params.allowed) {
+    diag.info(payload);
+  } else {
+    diag.warn(payload);
+  }
+  emitDiagnosticEvent({
+    type: "sandbox.egress",
+    sessionKey: params.sessionKey,
+    scopeKey: params.scopeKey,
+    method: params.method,
+    host: params.host,
+    port: params.port,
+    allowed: params.allowed,
+    reason: params.reason,
+  });
+}
+
 export function logActiveRuns() {
   const activeSessions = Array.from(diagnosticSessionStates.entries())
     .filter(([, s]) => s.state === "processing")
@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { gzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  MEMORY_INDEX_ARCHIVE_FORMAT,
+  MEMORY_INDEX_ARCHIVE_VERSION,
+  openMemoryIndexArchive,
+  writeMemoryIndexArchive,
+  type MemoryIndexArchiveHeader,
+  type MemoryIndexArchiveRecord,
+} from "./index-archive.js";
+
+const header: MemoryIndexArchiveHeader = {
+  format: MEMORY_INDEX_ARCHIVE_FORMAT,
+  version: MEMORY_INDEX_ARCHIVE_VERSION,
+  exportedAt: "2026-02-27T00:00:00.000Z",
+  agentId: "main",
+  provider: "openai",
+  model: "text-embedding-3-small",
+  vectorDims: 2,
+  chunkTokens: 400,
+  chunkOverlap: 80,
+  sources: ["memory"],
+  fts: true,
+  files: 1,
+  chunks: 1,
+};
+
+describe("memory index archive", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-mem-archive-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips the header and records", async () => {
+    const archivePath = path.join(dir, "nested", "index.jsonl.gz");
+    const records: MemoryIndexArchiveRecord[] = [
+      { type: "file", path: "MEMORY.md", source: "memory", hash: "h1", mtime: 1, size: 12 },
+      {
+        type: "chunk",
+        id: "c1",
+        path: "MEMORY.md",
+        source: "memory",
+        startLine: 1,
+        endLine: 2,
+        hash: "h2",
+        text: "Alpha fact.",
+        embedding: [0.5, 0.25],
+        updatedAt: 2,
+      },
+    ];
+    await writeMemoryIndexArchive(archivePath, header, records);
+
+    const archive = await openMemoryIndexArchive(archivePath);
+    expect(archive.header).toEqual(header);
+    const read: MemoryIndexArchiveRecord[] = [];
+    for await (const record of archive.records) {
+      read.push(record);
+    }
+    expect(read).toEqual(records);
+  });
+
+  it("rejects files that are not archives or use another version", async () => {
+    const plainPath = path.join(dir, "plain.gz");
+    await fs.writeFile(plainPath, "not gzip");
+    await expect(openMemoryIndexArchive(plainPath)).rejects.toThrow("not a memory index archive");
+
+    const foreignPath = path.join(dir, "foreign.gz");
+    await fs.writeFile(foreignPath, gzipSync(`${JSON.stringify({ format: "other" })}\n`));
+    await expect(openMemoryIndexArchive(foreignPath)).rejects.toThrow("not a memory index archive");
+
+    const futurePath = path.join(dir, "future.gz");
+    await fs.writeFile(futurePath, gzipSync(`${JSON.stringify({ ...header, version: 99 })}\n`));
+    await expect(openMemoryIndexArchive(futurePath)).rejects.toThrow(
+      "unsupported memory index archive version 99",
+    );
+  });
+});
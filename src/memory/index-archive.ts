@@ -0,0 +1,154 @@
+import { once } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { createGunzip, createGzip } from "node:zlib";
+import type { MemorySource } from "./types.js";
+
+/**
+ * Portable memory index archive: gzipped JSON lines. The first line is the
+ * header (provider/model/chunking metadata); every following line is one
+ * `files` or `chunks` row. FTS rows, vector rows and the embedding cache are
+ * rebuilt from the chunks on import, so they are not stored separately.
+ */
+export const MEMORY_INDEX_ARCHIVE_FORMAT = "openclaw.memory-index";
+export const MEMORY_INDEX_ARCHIVE_VERSION = 1;
+
+export type MemoryIndexArchiveHeader = {
+  format: typeof MEMORY_INDEX_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agentId: string;
+  provider: string;
+  model: string;
+  vectorDims?: number;
+  chunkTokens: number;
+  chunkOverlap: number;
+  sources: MemorySource[];
+  /** Whether the exporting index had full-text search; informational only. */
+  fts: boolean;
+  files: number;
+  chunks: number;
+};
+
+export type MemoryIndexArchiveRecord =
+  | {
+      type: "file";
+      path: string;
+      source: MemorySource;
+      hash: string;
+      mtime: number;
+      size: number;
+    }
+  | {
+      type: "chunk";
+      id: string;
+      path: string;
+      source: MemorySource;
+      startLine: number;
+      endLine: number;
+      hash: string;
+      text: string;
+      embedding: number[];
+      updatedAt: number;
+    };
+
+export async function writeMemoryIndexArchive(
+  filePath: string,
+  header: MemoryIndexArchiveHeader,
+  records: Iterable<MemoryIndexArchiveRecord>,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const gzip = createGzip();
+  const out = fs.createWriteStream(filePath);
+  const done = new Promise<void>((resolve, reject) => {
+    out.once("finish", () => resolve());
+    out.once("error", reject);
+    gzip.once("error", reject);
+  });
+  gzip.pipe(out);
+  const writeLine = async (value: unknown) => {
+    if (!gzip.write(`${JSON.stringify(value)}\n`)) {
+      await once(gzip, "drain");
+    }
+  };
+  await writeLine(header);
+  for (const record of records) {
+    await writeLine(record);
+  }
+  gzip.end();
+  await done;
+}
+
+function parseHeader(line: string | undefined, filePath: string): MemoryIndexArchiveHeader {
+  let parsed: Partial<MemoryIndexArchiveHeader> | null = null;
+  try {
+    parsed = line ? (JSON.parse(line) as Partial<MemoryIndexArchiveHeader>) : null;
+  } catch {}
+  if (!parsed || parsed.format !== MEMORY_INDEX_ARCHIVE_FORMAT) {
+    throw new Error(`not a memory index archive: ${filePath}`);
+  }
+  if (parsed.version !== MEMORY_INDEX_ARCHIVE_VERSION) {
+    throw new Error(
+      `unsupported memory index archive version ${String(parsed.version)} (expected ${MEMORY_INDEX_ARCHIVE_VERSION})`,
+    );
+  }
+  return parsed as MemoryIndexArchiveHeader;
+}
+
+/**
+ * Open an archive for streaming. The header is read eagerly so callers can
+ * check compatibility before consuming (and applying) any rows.
+ */
+export async function openMemoryIndexArchive(filePath: string): Promise<{
+  header: MemoryIndexArchiveHeader;
+  records: AsyncGenerator<MemoryIndexArchiveRecord>;
+  close: () => void;
+}> {
+  const input = fs.createReadStream(filePath);
+  const gunzip = createGunzip();
+  const lines = createInterface({ input: input.pipe(gunzip), crlfDelay: Infinity });
+  const failure = new Promise<never>((_, reject) => {
+    input.once("error", reject);
+    gunzip.once("error", reject);
+  });
+  failure.catch(() => {});
+  const iterator = lines[Symbol.asyncIterator]();
+  const close = () => {
+    lines.close();
+    input.destroy();
+  };
+  let first: IteratorResult<string>;
+  try {
+    first = await Promise.race([iterator.next(), failure]);
+  } catch (err) {
+    close();
+    if ((err as NodeJS.ErrnoException).code === "Z_DATA_ERROR") {
+      throw new Error(`not a memory index archive: ${filePath}`, { cause: err });
+    }
+    throw err;
+  }
+  let header: MemoryIndexArchiveHeader;
+  try {
+    header = parseHeader(first.done ? undefined : first.value, filePath);
+  } catch (err) {
+    close();
+    throw err;
+  }
+  async function* records(): AsyncGenerator<MemoryIndexArchiveRecord> {
+    try {
+      while (true) {
+        const next = await Promise.race([iterator.next(), failure]);
+        if (next.done) {
+          return;
+        }
+        if (next.value.trim()) {
+          yield JSON.parse(next.value) as MemoryIndexArchiveRecord;
+        }
+      }
+    } finally {
+      close();
+    }
+  }
+  return { header, records: records(), close };
+}
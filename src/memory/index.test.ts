@@ -7,6 +7,14 @@ import "./test-runtime-mocks.js";
 
 let embedBatchCalls = 0;
 
+const rerankMocks = vi.hoisted(() => ({ createMemoryReranker: vi.fn() }));
+
+vi.mock("./rerank.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./rerank.js")>();
+  rerankMocks.createMemoryReranker.mockImplementation(actual.createMemoryReranker);
+  return { ...actual, createMemoryReranker: rerankMocks.createMemoryReranker };
+});
+
 vi.mock("./embeddings.js", () => {
   const embedText = (text: string) => {
     const lower = text.toLowerCase();
@@ -100,6 +108,7 @@ describe("memory index", () => {
     cacheEnabled?: boolean;
     minScore?: number;
     hybrid?: { enabled: boolean; vectorWeight?: number; textWeight?: number };
+    rerank?: { enabled: boolean; provider?: "local" | "remote" | "llm" };
   }): TestCfg {
     return {
       agents: {
@@ -115,6 +124,7 @@ describe("memory index", () => {
             query: {
               minScore: params.minScore ?? 0,
               hybrid: params.hybrid ?? { enabled: false },
+              rerank: params.rerank,
             },
             cache: params.cacheEnabled ? { enabled: true } : undefined,
             extraPaths: params.extraPaths,
@@ -173,6 +183,168 @@ describe("memory index", () => {
     );
   });
 
+  it("applies search filters before ranking", async () => {
+    const notesPath = path.join(memoryDir, "notes.md");
+    await fs.writeFile(notesPath, "# Notes\nAlpha alpha notes line.");
+    const old = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    await fs.utimes(notesPath, old, old);
+    const cfg = createCfg({
+      storePath: path.join(workspaceDir, `index-filter-${Date.now()}.sqlite`),
+      hybrid: { enabled: true, vectorWeight: 0.5, textWeight: 0.5 },
+    });
+    try {
+      const manager = await getPersistentManager(cfg);
+      await manager.sync({ reason: "test" });
+
+      const unfiltered = await manager.search("alpha");
+      expect(unfiltered.map((entry) => entry.path)).toContain("memory/notes.md");
+
+      const byPath = await manager.search("alpha", { filter: { paths: ["memory/2026-*.md"] } });
+      expect(byPath.map((entry) => entry.path)).toEqual(["memory/2026-01-12.md"]);
+
+      const recent = await manager.search("alpha", {
+        filter: { modifiedAfter: Date.now() - 24 * 60 * 60 * 1000 },
+      });
+      expect(recent.map((entry) => entry.path)).not.toContain("memory/notes.md");
+
+      expect(await manager.search("alpha", { filter: { sources: ["sessions"] } })).toEqual([]);
+    } finally {
+      await fs.rm(notesPath, { force: true });
+    }
+  });
+
+  it("keeps the hybrid order and records timings when reranking fails", async () => {
+    const notesPath = path.join(memoryDir, "rerank-notes.md");
+    await fs.writeFile(notesPath, "# Notes\nAlpha beta beta notes line.");
+    const cfg = createCfg({
+      storePath: path.join(workspaceDir, `index-rerank-${Date.now()}.sqlite`),
+      hybrid: { enabled: true, vectorWeight: 0.5, textWeight: 0.5 },
+      // Remote reranking without a base URL fails on first use.
+      rerank: { enabled: true, provider: "remote" },
+    });
+    rerankMocks.createMemoryReranker.mockClear();
+    try {
+      const manager = await getPersistentManager(cfg);
+      await manager.sync({ reason: "test" });
+
+      const results = await manager.search("alpha");
+      expect(results.map((entry) => entry.path)).toEqual([
+        "memory/2026-01-12.md",
+        "memory/rerank-notes.md",
+      ]);
+      const status = manager.status();
+      expect(status.rerank).toMatchObject({
+        enabled: true,
+        provider: "remote",
+        failures: 1,
+        lastError: expect.stringContaining("rerank.remote.baseUrl is required"),
+      });
+      expect(status.timings?.rerankFallback).toBe(true);
+      expect(Object.keys(status.timings?.stages ?? {}).toSorted()).toEqual([
+        "embed",
+        "keyword",
+        "merge",
+        "rerank",
+        "vector",
+      ]);
+
+      // A failed reranker setup is retried instead of cached.
+      await manager.search("alpha");
+      expect(manager.status().rerank?.failures).toBe(2);
+      expect(rerankMocks.createMemoryReranker).toHaveBeenCalledTimes(2);
+    } finally {
+      await fs.rm(notesPath, { force: true });
+    }
+  });
+
+  it("writes facts back with dedupe, updates and provenance", async () => {
+    const memoryFile = path.join(workspaceDir, "MEMORY.md");
+    const cfg = createCfg({
+      storePath: path.join(workspaceDir, `index-write-${Date.now()}.sqlite`),
+    });
+    try {
+      const manager = await getPersistentManager(cfg);
+
+      const appended = await manager.write({ text: "Beta preference.", origin: "test" });
+      expect(appended).toMatchObject({ action: "append", path: "MEMORY.md", line: 1 });
+      expect(appended.indexed).toBe(true);
+      const written = await fs.readFile(memoryFile, "utf-8");
+      expect(written).toMatch(
+        /^- Beta preference\.\n {2}<!-- memory: written=\S+ origin=test -->\n$/,
+      );
+
+      const duplicate = await manager.write({ text: "beta preference" });
+      expect(duplicate).toMatchObject({ action: "skip", path: "MEMORY.md", line: 1 });
+
+      const updated = await manager.write({
+        text: "Beta beta beta alpha preference.",
+        sessionKey: "agent:main:main",
+      });
+      expect(updated).toMatchObject({
+        action: "update",
+        path: "MEMORY.md",
+        similarity: "embedding",
+        replaced: "Beta preference.",
+      });
+      const afterUpdate = await fs.readFile(memoryFile, "utf-8");
+      expect(afterUpdate).not.toContain("- Beta preference.");
+      expect(afterUpdate).toContain('session=agent:main:main replaces="Beta preference."');
+
+      const kept = await manager.write({ text: "Alpha beta note.", conflict: "keep-both" });
+      expect(kept).toMatchObject({ action: "merge", path: "MEMORY.md", line: 3 });
+      const results = await manager.search("alpha beta", { filter: { paths: ["MEMORY.md"] } });
+      expect(results[0]?.snippet).toContain("Alpha beta note.");
+    } finally {
+      await fs.rm(memoryFile, { force: true });
+    }
+  });
+
+  it("exports the index and re-embeds only changed files on import", async () => {
+    const archivePath = path.join(workspaceDir, `index-archive-${Date.now()}.jsonl.gz`);
+    const changedPath = path.join(memoryDir, "archive-changed.md");
+    await fs.writeFile(changedPath, "# Changed\nBeta before export.");
+    try {
+      const source = await getPersistentManager(
+        createCfg({ storePath: path.join(workspaceDir, `index-export-${Date.now()}.sqlite`) }),
+      );
+      await source.sync({ reason: "test" });
+      const exported = await source.exportIndex({ path: archivePath });
+      expect(exported).toMatchObject({
+        provider: "mock",
+        model: "mock-embed",
+        sources: ["memory"],
+      });
+      expect(exported.files).toBeGreaterThanOrEqual(2);
+
+      const mismatched = await getPersistentManager(
+        createCfg({
+          storePath: path.join(workspaceDir, `index-import-other-${Date.now()}.sqlite`),
+          model: "other-embed",
+        }),
+      );
+      await expect(mismatched.importIndex({ path: archivePath })).rejects.toThrow(
+        "archive embeddings come from mock/mock-embed",
+      );
+
+      await fs.writeFile(changedPath, "# Changed\nAlpha after export.");
+      const target = await getPersistentManager(
+        createCfg({ storePath: path.join(workspaceDir, `index-import-${Date.now()}.sqlite`) }),
+      );
+      embedBatchCalls = 0;
+      const imported = await target.importIndex({ path: archivePath });
+      expect(imported).toMatchObject({ files: exported.files, chunks: exported.chunks });
+      expect(embedBatchCalls).toBe(1);
+      expect(target.status()).toMatchObject({ files: exported.files, dirty: false });
+      const results = await target.search("alpha", {
+        filter: { paths: ["memory/archive-changed.md"] },
+      });
+      expect(results[0]?.snippet).toContain("Alpha after export.");
+    } finally {
+      await fs.rm(changedPath, { force: true });
+      await fs.rm(archivePath, { force: true });
+    }
+  });
+
   it("keeps dirty false in status-only manager after prior indexing", async () => {
     const indexStatusPath = path.join(workspaceDir, `index-status-${Date.now()}.sqlite`);
     const cfg = createCfg({ storePath: indexStatusPath });
@@ -204,6 +204,16 @@ export abstract class MemoryManagerEmbeddingOps extends MemoryManagerSyncOps {
     return embeddings;
   }
 
+  /**
+   * Embed free-standing texts (single memory entries rather than indexed
+   * chunks) through the embedding cache, so repeated write-back checks against
+   * the same entries do not hit the provider again.
+   */
+  protected async embedTextsWithCache(texts: string[]): Promise<number[][]> {
+    const chunks = texts.map((text) => ({ startLine: 0, endLine: 0, text, hash: hashText(text) }));
+    return await this.embedChunksInBatches(chunks);
+  }
+
   protected computeProviderKey(): string {
     // FTS-only mode: no provider, use a constant key
     if (!this.provider) {
@@ -7,6 +7,27 @@ const vectorToBlob = (embedding: number[]): Buffer =>
 
 export type SearchSource = string;
 
+type SearchFilterSql = { sql: string; params: SearchSource[] };
+
+/**
+ * Restrict a query to `paths` (already resolved from a search filter). The
+ * list travels as one JSON parameter so large allowlists stay under SQLite's
+ * bound-parameter limit.
+ */
+function withPathFilter(
+  filter: SearchFilterSql,
+  column: string,
+  paths: string[] | undefined,
+): SearchFilterSql {
+  if (!paths) {
+    return filter;
+  }
+  return {
+    sql: `${filter.sql} AND ${column} IN (SELECT value FROM json_each(?))`,
+    params: [...filter.params, JSON.stringify(paths)],
+  };
+}
+
 export type SearchRowResult = {
   id: string;
   path: string;
@@ -25,13 +46,16 @@ export async function searchVector(params: {
   limit: number;
   snippetMaxChars: number;
   ensureVectorReady: (dimensions: number) => Promise<boolean>;
-  sourceFilterVec: { sql: string; params: SearchSource[] };
-  sourceFilterChunks: { sql: string; params: SearchSource[] };
+  sourceFilterVec: SearchFilterSql;
+  sourceFilterChunks: SearchFilterSql;
+  /** Allowed paths from a search filter; undefined means unrestricted. */
+  paths?: string[];
 }): Promise<SearchRowResult[]> {
   if (params.queryVec.length === 0 || params.limit <= 0) {
     return [];
   }
   if (await params.ensureVectorReady(params.queryVec.length)) {
+    const filterVec = withPathFilter(params.sourceFilterVec, "c.path", params.paths);
     const rows = params.db
       .prepare(
         `SELECT c.id, c.path, c.start_line, c.end_line, c.text,\n` +
@@ -39,14 +63,14 @@ export async function searchVector(params: {
           `       vec_distance_cosine(v.embedding, ?) AS dist\n` +
           `  FROM ${params.vectorTable} v\n` +
           `  JOIN chunks c ON c.id = v.id\n` +
-          ` WHERE c.model = ?${params.sourceFilterVec.sql}\n` +
+          ` WHERE c.model = ?${filterVec.sql}\n` +
           ` ORDER BY dist ASC\n` +
           ` LIMIT ?`,
       )
       .all(
         vectorToBlob(params.queryVec),
         params.providerModel,
-        ...params.sourceFilterVec.params,
+        ...filterVec.params,
         params.limit,
       ) as Array<{
       id: string;
@@ -71,7 +95,7 @@ export async function searchVector(params: {
   const candidates = listChunks({
     db: params.db,
     providerModel: params.providerModel,
-    sourceFilter: params.sourceFilterChunks,
+    sourceFilter: withPathFilter(params.sourceFilterChunks, "path", params.paths),
   });
   const scored = candidates
     .map((chunk) => ({
@@ -96,7 +120,7 @@ export async function searchVector(params: {
 export function listChunks(params: {
   db: DatabaseSync;
   providerModel: string;
-  sourceFilter: { sql: string; params: SearchSource[] };
+  sourceFilter: SearchFilterSql;
 }): Array<{
   id: string;
   path: string;
@@ -140,7 +164,9 @@ export async function searchKeyword(params: {
   query: string;
   limit: number;
   snippetMaxChars: number;
-  sourceFilter: { sql: string; params: SearchSource[] };
+  sourceFilter: SearchFilterSql;
+  /** Allowed paths from a search filter; undefined means unrestricted. */
+  paths?: string[];
   buildFtsQuery: (raw: string) => string | null;
   bm25RankToScore: (rank: number) => number;
 }): Promise<Array<SearchRowResult & { textScore: number }>> {
@@ -155,17 +181,18 @@ export async function searchKeyword(params: {
   // When providerModel is undefined (FTS-only mode), search all models
   const modelClause = params.providerModel ? " AND model = ?" : "";
   const modelParams = params.providerModel ? [params.providerModel] : [];
+  const filter = withPathFilter(params.sourceFilter, "path", params.paths);
 
   const rows = params.db
     .prepare(
       `SELECT id, path, source, start_line, end_line, text,\n` +
         `       bm25(${params.ftsTable}) AS rank\n` +
         `  FROM ${params.ftsTable}\n` +
-        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${params.sourceFilter.sql}\n` +
+        ` WHERE ${params.ftsTable} MATCH ?${modelClause}${filter.sql}\n` +
         ` ORDER BY rank ASC\n` +
         ` LIMIT ?`,
     )
-    .all(ftsQuery, ...modelParams, ...params.sourceFilter.params, params.limit) as Array<{
+    .all(ftsQuery, ...modelParams, ...filter.params, params.limit) as Array<{
     id: string;
     path: string;
     source: SearchSource;
@@ -24,11 +24,20 @@ import {
   type VoyageEmbeddingClient,
 } from "./embeddings.js";
 import { isFileMissingError } from "./fs-utils.js";
+import {
+  MEMORY_INDEX_ARCHIVE_FORMAT,
+  MEMORY_INDEX_ARCHIVE_VERSION,
+  openMemoryIndexArchive,
+  writeMemoryIndexArchive,
+  type MemoryIndexArchiveHeader,
+  type MemoryIndexArchiveRecord,
+} from "./index-archive.js";
 import {
   buildFileEntry,
   ensureDir,
   listMemoryFiles,
   normalizeExtraMemoryPaths,
+  parseEmbedding,
   runWithConcurrency,
 } from "./internal.js";
 import { type MemoryFileEntry } from "./internal.js";
@@ -41,7 +50,7 @@ import {
 } from "./session-files.js";
 import { loadSqliteVecExtension } from "./sqlite-vec.js";
 import { requireNodeSqlite } from "./sqlite.js";
-import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
+import type { MemoryIndexArchiveSummary, MemorySource, MemorySyncProgressUpdate } from "./types.js";
 
 type MemoryIndexMeta = {
   model: string;
@@ -67,6 +76,7 @@ const EMBEDDING_CACHE_TABLE = "embedding_cache";
 const SESSION_DIRTY_DEBOUNCE_MS = 5000;
 const SESSION_DELTA_READ_CHUNK_BYTES = 64 * 1024;
 const VECTOR_LOAD_TIMEOUT_MS = 30_000;
+const ARCHIVE_PAGE_SIZE = 500;
 const IGNORED_MEMORY_WATCH_DIR_NAMES = new Set([
   ".git",
   "node_modules",
@@ -77,6 +87,9 @@ const IGNORED_MEMORY_WATCH_DIR_NAMES = new Set([
   "__pycache__",
 ]);
 
+const vectorToBlob = (embedding: number[]): Buffer =>
+  Buffer.from(new Float32Array(embedding).buffer);
+
 const log = createSubsystemLogger("memory");
 
 function shouldIgnoreMemoryWatchPath(watchPath: string): boolean {
@@ -624,6 +637,10 @@ export abstract class MemoryManagerSyncOps {
     if (needsFullReindex) {
       return true;
     }
+    if (reason === "import") {
+      // Imported rows carry the source host's hashes; compare every transcript once.
+      return this.sessionsDirty;
+    }
     return this.sessionsDirty && this.sessionsDirtyFiles.size > 0;
   }
 
@@ -1184,6 +1201,262 @@ export abstract class MemoryManagerSyncOps {
       .run(META_KEY, value);
   }
 
+  /** Stream the indexed files and chunks of the current model into a portable archive. */
+  protected async exportIndexArchive(filePath: string): Promise<MemoryIndexArchiveSummary> {
+    const meta = this.readMeta();
+    if (!meta) {
+      throw new Error("memory index is empty; run `openclaw memory index` first");
+    }
+    const files = this.db
+      .prepare(`SELECT path, source, hash, mtime, size FROM files ORDER BY source, path`)
+      .all() as Array<{
+      path: string;
+      source: MemorySource;
+      hash: string;
+      mtime: number;
+      size: number;
+    }>;
+    const countRow = this.db
+      .prepare(`SELECT COUNT(*) as c FROM chunks WHERE model = ?`)
+      .get(meta.model) as { c: number } | undefined;
+    const chunkCount = countRow?.c ?? 0;
+    const sources = this.normalizeMetaSources(meta);
+    const header: MemoryIndexArchiveHeader = {
+      format: MEMORY_INDEX_ARCHIVE_FORMAT,
+      version: MEMORY_INDEX_ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      agentId: this.agentId,
+      provider: meta.provider,
+      model: meta.model,
+      ...(meta.vectorDims ? { vectorDims: meta.vectorDims } : {}),
+      chunkTokens: meta.chunkTokens,
+      chunkOverlap: meta.chunkOverlap,
+      sources,
+      fts: this.fts.available,
+      files: files.length,
+      chunks: chunkCount,
+    };
+    const db = this.db;
+    const model = meta.model;
+    function* records(): Generator<MemoryIndexArchiveRecord> {
+      for (const file of files) {
+        yield { type: "file", ...file };
+      }
+      const page = db.prepare(
+        `SELECT id, path, source, start_line, end_line, hash, text, embedding, updated_at FROM chunks\n` +
+          ` WHERE model = ? ORDER BY rowid LIMIT ? OFFSET ?`,
+      );
+      for (let offset = 0; ; offset += ARCHIVE_PAGE_SIZE) {
+        const rows = page.all(model, ARCHIVE_PAGE_SIZE, offset) as Array<{
+          id: string;
+          path: string;
+          source: MemorySource;
+          start_line: number;
+          end_line: number;
+          hash: string;
+          text: string;
+          embedding: string;
+          updated_at: number;
+        }>;
+        for (const row of rows) {
+          yield {
+            type: "chunk",
+            id: row.id,
+            path: row.path,
+            source: row.source,
+            startLine: row.start_line,
+            endLine: row.end_line,
+            hash: row.hash,
+            text: row.text,
+            embedding: parseEmbedding(row.embedding),
+            updatedAt: row.updated_at,
+          };
+        }
+        if (rows.length < ARCHIVE_PAGE_SIZE) {
+          return;
+        }
+      }
+    }
+    await writeMemoryIndexArchive(filePath, header, records());
+    return {
+      path: filePath,
+      provider: meta.provider,
+      model: meta.model,
+      sources,
+      files: files.length,
+      chunks: chunkCount,
+    };
+  }
+
+  /**
+   * Replace the index with an archive built by the same provider, model and
+   * chunking. FTS rows, vector rows and embedding cache entries are rebuilt
+   * from the archived chunks; the next sync then re-embeds only files whose
+   * content hash differs from the archive.
+   */
+  protected async importIndexArchive(filePath: string): Promise<MemoryIndexArchiveSummary> {
+    const archive = await openMemoryIndexArchive(filePath);
+    const { header } = archive;
+    let provider: EmbeddingProvider;
+    try {
+      provider = this.assertArchiveCompatible(header);
+    } catch (err) {
+      archive.close();
+      throw err;
+    }
+    const providerKey = this.providerKey ?? this.computeProviderKey();
+    const previousDims = this.vector.dims;
+    const configuredSources = this.resolveConfiguredSourcesForMeta();
+    const useFts = this.fts.enabled && this.fts.available;
+    // Read the whole archive before touching the index so the transaction
+    // below runs synchronously: nothing else can write to the connection
+    // while it is open.
+    const fileRecords: Array<Extract<MemoryIndexArchiveRecord, { type: "file" }>> = [];
+    const chunkRecords: Array<Extract<MemoryIndexArchiveRecord, { type: "chunk" }>> = [];
+    try {
+      for await (const record of archive.records) {
+        if (!configuredSources.includes(record.source)) {
+          continue;
+        }
+        if (record.type === "file") {
+          fileRecords.push(record);
+        } else {
+          chunkRecords.push(record);
+        }
+      }
+    } catch (err) {
+      archive.close();
+      throw err;
+    }
+    // Older exports may lack vectorDims; size the vector table from the first embedding.
+    const vectorDims =
+      header.vectorDims ||
+      chunkRecords.find((record) => record.embedding.length > 0)?.embedding.length;
+    const vectorLoaded = vectorDims ? await this.ensureVectorReady() : false;
+    const vectorReady = Boolean(vectorLoaded && vectorDims);
+    this.db.exec("BEGIN");
+    try {
+      this.resetIndex();
+      if (vectorReady && vectorDims) {
+        this.ensureVectorTable(vectorDims);
+      }
+      const insertFile = this.db.prepare(
+        `INSERT OR REPLACE INTO files (path, source, hash, mtime, size) VALUES (?, ?, ?, ?, ?)`,
+      );
+      const insertChunk = this.db.prepare(
+        `INSERT OR REPLACE INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)\n` +
+          ` VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      const insertFts = useFts
+        ? this.db.prepare(
+            `INSERT INTO ${FTS_TABLE} (text, id, path, source, model, start_line, end_line)\n` +
+              ` VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          )
+        : null;
+      const insertVector = vectorReady
+        ? this.db.prepare(`INSERT INTO ${VECTOR_TABLE} (id, embedding) VALUES (?, ?)`)
+        : null;
+      const insertCache = this.cache.enabled
+        ? this.db.prepare(
+            `INSERT OR IGNORE INTO ${EMBEDDING_CACHE_TABLE} (provider, model, provider_key, hash, embedding, dims, updated_at)\n` +
+              ` VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          )
+        : null;
+      for (const record of fileRecords) {
+        insertFile.run(record.path, record.source, record.hash, record.mtime, record.size);
+      }
+      for (const record of chunkRecords) {
+        const embedding = JSON.stringify(record.embedding);
+        insertChunk.run(
+          record.id,
+          record.path,
+          record.source,
+          record.startLine,
+          record.endLine,
+          record.hash,
+          provider.model,
+          record.text,
+          embedding,
+          record.updatedAt,
+        );
+        insertFts?.run(
+          record.text,
+          record.id,
+          record.path,
+          record.source,
+          provider.model,
+          record.startLine,
+          record.endLine,
+        );
+        if (record.embedding.length > 0) {
+          insertVector?.run(record.id, vectorToBlob(record.embedding));
+        }
+        insertCache?.run(
+          provider.id,
+          provider.model,
+          providerKey,
+          record.hash,
+          embedding,
+          record.embedding.length,
+          Date.now(),
+        );
+      }
+      this.writeMeta({
+        model: provider.model,
+        provider: provider.id,
+        providerKey,
+        sources: configuredSources,
+        chunkTokens: header.chunkTokens,
+        chunkOverlap: header.chunkOverlap,
+        ...(vectorReady && vectorDims ? { vectorDims } : {}),
+      });
+      this.db.exec("COMMIT");
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      this.vector.dims = previousDims;
+      throw err;
+    }
+    this.pruneEmbeddingCacheIfNeeded();
+    this.dirty = this.sources.has("memory");
+    this.sessionsDirty = this.sources.has("sessions");
+    return {
+      path: filePath,
+      provider: provider.id,
+      model: provider.model,
+      sources: configuredSources.filter((source) => header.sources.includes(source)),
+      files: fileRecords.length,
+      chunks: chunkRecords.length,
+    };
+  }
+
+  private assertArchiveCompatible(header: MemoryIndexArchiveHeader): EmbeddingProvider {
+    if (!this.provider) {
+      throw new Error(
+        "memory index import needs an embedding provider; this agent runs memory search in FTS-only mode",
+      );
+    }
+    if (header.provider !== this.provider.id || header.model !== this.provider.model) {
+      throw new Error(
+        `archive embeddings come from ${header.provider}/${header.model} but this agent uses ` +
+          `${this.provider.id}/${this.provider.model}; match memorySearch.provider/model or run ` +
+          "`openclaw memory index --force` instead",
+      );
+    }
+    if (
+      header.chunkTokens !== this.settings.chunking.tokens ||
+      header.chunkOverlap !== this.settings.chunking.overlap
+    ) {
+      throw new Error(
+        `archive was chunked with ${header.chunkTokens}/${header.chunkOverlap} tokens ` +
+          `(size/overlap) but this agent uses ${this.settings.chunking.tokens}/${this.settings.chunking.overlap}; ` +
+          "match memorySearch.chunking or run `openclaw memory index --force` instead",
+      );
+    }
+    return this.provider;
+  }
+
   private resolveConfiguredSourcesForMeta(): MemorySource[] {
     const normalized = Array.from(this.sources)
       .filter((source): source is MemorySource => source === "memory" || source === "sessions")
@@ -6,6 +6,7 @@ import { resolveAgentDir, resolveAgentWorkspaceDir } from "../agents/agent-scope
 import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
 import { resolveMemorySearchConfig } from "../agents/memory-search.js";
 import type { OpenClawConfig } from "../config/config.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import {
   createEmbeddingProvider,
@@ -18,23 +19,55 @@ import {
 } from "./embeddings.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
-import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
+import {
+  cosineSimilarity,
+  isMemoryPath,
+  listMemoryFiles,
+  normalizeExtraMemoryPaths,
+} from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { extractKeywords } from "./query-expansion.js";
+import { createMemoryReranker, rerankMemoryResults, type MemoryReranker } from "./rerank.js";
+import {
+  hasMemoryOriginFilter,
+  hasMemorySearchFilter,
+  matchesMemorySearchFilter,
+  resolveMemorySessionOrigins,
+} from "./search-filter.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryIndexArchiveSummary,
   MemoryProviderStatus,
+  MemorySearchFilter,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySearchResult,
+  MemorySearchStage,
+  MemorySearchTimings,
   MemorySource,
   MemorySyncProgressUpdate,
+  MemoryWriteParams,
+  MemoryWriteResult,
 } from "./types.js";
+import {
+  applyMemoryWrite,
+  formatMemoryEntry,
+  formatMemoryProvenance,
+  memoryTextSimilarity,
+  normalizeMemoryWriteText,
+  resolveMemoryWriteAction,
+  resolveMemoryWritePath,
+  splitMemoryEntries,
+  type MemoryWriteEntry,
+  type MemoryWriteMatch,
+} from "./write-back.js";
 const SNIPPET_MAX_CHARS = 700;
 const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
 const EMBEDDING_CACHE_TABLE = "embedding_cache";
 const BATCH_FAILURE_LIMIT = 2;
+const WRITE_CANDIDATE_CHUNKS = 8;
 
 const log = createSubsystemLogger("memory");
 
@@ -100,6 +133,11 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   >();
   private sessionWarm = new Set<string>();
   private syncing: Promise<void> | null = null;
+  private writeLock: Promise<void> = Promise.resolve();
+  private reranker: Promise<MemoryReranker> | null = null;
+  private rerankFailures = 0;
+  private rerankLastError?: string;
+  private lastSearchTimings?: MemorySearchTimings;
   private readonlyRecoveryAttempts = 0;
   private readonlyRecoverySuccesses = 0;
   private readonlyRecoveryFailures = 0;
@@ -227,14 +265,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     }
   }
 
-  async search(
-    query: string,
-    opts?: {
-      maxResults?: number;
-      minScore?: number;
-      sessionKey?: string;
-    },
-  ): Promise<MemorySearchResult[]> {
+  async search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]> {
     void this.warmSession(opts?.sessionKey);
     if (this.settings.sync.onSearch && (this.dirty || this.sessionsDirty)) {
       void this.sync({ reason: "search" }).catch((err) => {
@@ -245,6 +276,10 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!cleaned) {
       return [];
     }
+    const paths = this.resolveFilteredPaths(opts?.filter);
+    if (paths?.length === 0) {
+      return [];
+    }
     const minScore = opts?.minScore ?? this.settings.query.minScore;
     const maxResults = opts?.maxResults ?? this.settings.query.maxResults;
     const hybrid = this.settings.query.hybrid;
@@ -252,6 +287,22 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       200,
       Math.max(1, Math.floor(maxResults * hybrid.candidateMultiplier)),
     );
+    const startedAt = Date.now();
+    const timings: MemorySearchTimings = { at: startedAt, totalMs: 0, stages: {} };
+    const timed = async <T>(stage: MemorySearchStage, run: () => Promise<T>): Promise<T> => {
+      const stageStartedAt = Date.now();
+      try {
+        return await run();
+      } finally {
+        timings.stages[stage] = Date.now() - stageStartedAt;
+      }
+    };
+    const finish = async <T extends MemorySearchResult>(ranked: T[]): Promise<T[]> => {
+      const reranked = await this.rerankResults(cleaned, ranked, maxResults, timings, timed);
+      timings.totalMs = Date.now() - startedAt;
+      this.lastSearchTimings = timings;
+      return reranked.slice(0, maxResults);
+    };
 
     // FTS-only mode: no embedding provider available
     if (!this.provider) {
@@ -266,8 +317,12 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       const searchTerms = keywords.length > 0 ? keywords : [cleaned];
 
       // Search with each keyword and merge results
-      const resultSets = await Promise.all(
-        searchTerms.map((term) => this.searchKeyword(term, candidates).catch(() => [])),
+      const resultSets = await timed(
+        "keyword",
+        async () =>
+          await Promise.all(
+            searchTerms.map((term) => this.searchKeyword(term, candidates, paths).catch(() => [])),
+          ),
       );
 
       // Merge and deduplicate results, keeping highest score for each chunk
@@ -283,37 +338,46 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
 
       const merged = [...seenIds.values()]
         .toSorted((a, b) => b.score - a.score)
-        .filter((entry) => entry.score >= minScore)
-        .slice(0, maxResults);
+        .filter((entry) => entry.score >= minScore);
 
-      return merged;
+      return await finish(merged);
     }
 
     const keywordResults = hybrid.enabled
-      ? await this.searchKeyword(cleaned, candidates).catch(() => [])
+      ? await timed(
+          "keyword",
+          async () => await this.searchKeyword(cleaned, candidates, paths).catch(() => []),
+        )
       : [];
 
-    const queryVec = await this.embedQueryWithTimeout(cleaned);
+    const queryVec = await timed("embed", async () => await this.embedQueryWithTimeout(cleaned));
     const hasVector = queryVec.some((v) => v !== 0);
     const vectorResults = hasVector
-      ? await this.searchVector(queryVec, candidates).catch(() => [])
+      ? await timed(
+          "vector",
+          async () => await this.searchVector(queryVec, candidates, paths).catch(() => []),
+        )
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return await finish(vectorResults.filter((entry) => entry.score >= minScore));
     }
 
-    const merged = await this.mergeHybridResults({
-      vector: vectorResults,
-      keyword: keywordResults,
-      vectorWeight: hybrid.vectorWeight,
-      textWeight: hybrid.textWeight,
-      mmr: hybrid.mmr,
-      temporalDecay: hybrid.temporalDecay,
-    });
+    const merged = await timed(
+      "merge",
+      async () =>
+        await this.mergeHybridResults({
+          vector: vectorResults,
+          keyword: keywordResults,
+          vectorWeight: hybrid.vectorWeight,
+          textWeight: hybrid.textWeight,
+          mmr: hybrid.mmr,
+          temporalDecay: hybrid.temporalDecay,
+        }),
+    );
     const strict = merged.filter((entry) => entry.score >= minScore);
     if (strict.length > 0 || keywordResults.length === 0) {
-      return strict.slice(0, maxResults);
+      return await finish(strict);
     }
 
     // Hybrid defaults can produce keyword-only matches with max score equal to
@@ -326,18 +390,95 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         (entry) => `${entry.source}:${entry.path}:${entry.startLine}:${entry.endLine}`,
       ),
     );
-    return merged
-      .filter(
+    return await finish(
+      merged.filter(
         (entry) =>
           keywordKeys.has(`${entry.source}:${entry.path}:${entry.startLine}:${entry.endLine}`) &&
           entry.score >= relaxedMinScore,
+      ),
+    );
+  }
+
+  /**
+   * Optional rerank stage over the ranked hits. Any failure or timeout keeps
+   * the incoming order, so reranking can only help recall, never break search.
+   */
+  private async rerankResults<T extends MemorySearchResult>(
+    query: string,
+    ranked: T[],
+    maxResults: number,
+    timings: MemorySearchTimings,
+    timed: <R>(stage: MemorySearchStage, run: () => Promise<R>) => Promise<R>,
+  ): Promise<T[]> {
+    const settings = this.settings.query.rerank;
+    if (!settings.enabled || ranked.length < 2) {
+      return ranked;
+    }
+    try {
+      return await timed("rerank", async () => {
+        if (!this.reranker) {
+          const reranker = createMemoryReranker({
+            cfg: this.cfg,
+            agentId: this.agentId,
+            settings,
+          });
+          // Retry the setup on the next search instead of caching a failure.
+          reranker.catch(() => {
+            if (this.reranker === reranker) {
+              this.reranker = null;
+            }
+          });
+          this.reranker = reranker;
+        }
+        return await rerankMemoryResults({
+          query,
+          results: ranked,
+          reranker: await this.reranker,
+          // Rerank at least every hit that can be returned so scores stay ordered.
+          candidates: Math.max(maxResults, settings.candidates),
+          timeoutMs: settings.timeoutMs,
+        });
+      });
+    } catch (err) {
+      this.rerankFailures += 1;
+      this.rerankLastError = formatErrorMessage(err);
+      timings.rerankFallback = true;
+      log.warn(`memory rerank failed; keeping un-reranked order: ${this.rerankLastError}`);
+      return ranked;
+    }
+  }
+
+  /**
+   * Indexed paths that pass `filter`, or undefined when nothing is filtered.
+   * Filters are resolved against the `files` table up front so ranking only
+   * ever sees matching chunks.
+   */
+  private resolveFilteredPaths(filter?: MemorySearchFilter): string[] | undefined {
+    if (!hasMemorySearchFilter(filter)) {
+      return undefined;
+    }
+    const sourceFilter = this.buildSourceFilter();
+    const rows = this.db
+      .prepare(`SELECT path, source, mtime FROM files WHERE 1 = 1${sourceFilter.sql}`)
+      .all(...sourceFilter.params) as Array<{ path: string; source: MemorySource; mtime: number }>;
+    const origins = hasMemoryOriginFilter(filter)
+      ? resolveMemorySessionOrigins({ cfg: this.cfg, agentId: this.agentId })
+      : undefined;
+    return rows
+      .filter((row) =>
+        matchesMemorySearchFilter(
+          { path: row.path, source: row.source, mtimeMs: row.mtime },
+          filter,
+          origins,
+        ),
       )
-      .slice(0, maxResults);
+      .map((row) => row.path);
   }
 
   private async searchVector(
     queryVec: number[],
     limit: number,
+    paths?: string[],
   ): Promise<Array<MemorySearchResult & { id: string }>> {
     // This method should never be called without a provider
     if (!this.provider) {
@@ -353,6 +494,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       ensureVectorReady: async (dimensions) => await this.ensureVectorReady(dimensions),
       sourceFilterVec: this.buildSourceFilter("c"),
       sourceFilterChunks: this.buildSourceFilter(),
+      paths,
     });
     return results.map((entry) => entry as MemorySearchResult & { id: string });
   }
@@ -364,6 +506,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
   private async searchKeyword(
     query: string,
     limit: number,
+    paths?: string[],
   ): Promise<Array<MemorySearchResult & { id: string; textScore: number }>> {
     if (!this.fts.enabled || !this.fts.available) {
       return [];
@@ -379,6 +522,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       limit,
       snippetMaxChars: SNIPPET_MAX_CHARS,
       sourceFilter,
+      paths,
       buildFtsQuery: (raw) => this.buildFtsQuery(raw),
       bm25RankToScore,
     });
@@ -595,6 +739,193 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return { text: slice.join("\n"), path: relPath };
   }
 
+  /**
+   * Record a fact in the workspace memory files. The closest existing entry
+   * decides whether the fact is skipped as a duplicate, replaces a conflicting
+   * entry, lands next to a related one, or is appended to the target file.
+   */
+  async write(params: MemoryWriteParams): Promise<MemoryWriteResult> {
+    const run = this.writeLock.then(async () => await this.runWrite(params));
+    this.writeLock = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return await run;
+  }
+
+  private async runWrite(params: MemoryWriteParams): Promise<MemoryWriteResult> {
+    const text = normalizeMemoryWriteText(params.text);
+    if (!text) {
+      throw new Error("text required");
+    }
+    const targetPath = resolveMemoryWritePath(params.path);
+    const match = params.mode === "append" ? null : await this.findSimilarMemoryEntry(text);
+    const action = resolveMemoryWriteAction(match, params.conflict);
+    const score = match ? { score: match.score, similarity: match.similarity } : {};
+    if (action === "skip") {
+      const line = match?.entry.startLine ?? 1;
+      return { action, path: match?.path ?? targetPath, line, ...score, indexed: true };
+    }
+    const filePath = action === "append" || !match ? targetPath : match.path;
+    const absPath = path.join(this.workspaceDir, filePath);
+    const current = await this.readMemoryFileForWrite(absPath);
+    const replaced = action === "update" ? match?.entry.text : undefined;
+    const provenance = formatMemoryProvenance({
+      action,
+      at: new Date(),
+      origin: params.origin,
+      sessionKey: params.sessionKey,
+      replaced,
+    });
+    const next = applyMemoryWrite(current, {
+      action,
+      entry: match?.entry,
+      lines: formatMemoryEntry(text, provenance),
+    });
+    await fs.mkdir(path.dirname(absPath), { recursive: true });
+    await fs.writeFile(absPath, next.content, "utf-8");
+    const indexed = await this.syncAfterWrite();
+    return {
+      action,
+      path: filePath,
+      line: next.line,
+      ...score,
+      ...(replaced ? { replaced } : {}),
+      indexed,
+    };
+  }
+
+  private async readMemoryFileForWrite(absPath: string): Promise<string> {
+    try {
+      const stat = await fs.lstat(absPath);
+      if (!stat.isFile()) {
+        throw new Error(`memory write target is not a regular file: ${absPath}`);
+      }
+      return await fs.readFile(absPath, "utf-8");
+    } catch (err) {
+      if (isFileMissingError(err)) {
+        return "";
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Closest existing entry in the workspace memory files. Uses the embedding
+   * index when memory files are indexed with a provider and falls back to
+   * token overlap across the files otherwise (or when embedding fails).
+   */
+  private async findSimilarMemoryEntry(text: string): Promise<MemoryWriteMatch | null> {
+    if (this.provider && this.sources.has("memory")) {
+      try {
+        return await this.findSimilarMemoryEntryByEmbedding(text);
+      } catch (err) {
+        log.warn(
+          `memory write: embedding similarity failed; using lexical match: ${formatErrorMessage(err)}`,
+        );
+      }
+    }
+    const files = await listMemoryFiles(this.workspaceDir);
+    const candidates = files.map((absPath) =>
+      path.relative(this.workspaceDir, absPath).replace(/\\/g, "/"),
+    );
+    let best: MemoryWriteMatch | null = null;
+    for (const relPath of candidates) {
+      const content = await this.readMemoryFileForWrite(path.join(this.workspaceDir, relPath));
+      for (const entry of splitMemoryEntries(content)) {
+        const score = memoryTextSimilarity(text, entry.text);
+        if (!best || score > best.score) {
+          best = { path: relPath, entry, score, similarity: "lexical" };
+        }
+      }
+    }
+    return best;
+  }
+
+  private async findSimilarMemoryEntryByEmbedding(text: string): Promise<MemoryWriteMatch | null> {
+    if (this.dirty) {
+      await this.sync({ reason: "write" });
+    }
+    const paths = (this.resolveFilteredPaths({ sources: ["memory"] }) ?? []).filter(
+      (relPath) => isMemoryPath(relPath) && !relPath.startsWith("../"),
+    );
+    if (paths.length === 0) {
+      return null;
+    }
+    const [textVec = []] = await this.embedTextsWithCache([text]);
+    const chunks = await this.searchVector(textVec, WRITE_CANDIDATE_CHUNKS, paths);
+    // Chunks span many entries, so re-score the entries inside each hit.
+    const entries: Array<{ path: string; entry: MemoryWriteEntry }> = [];
+    const contents = new Map<string, string>();
+    for (const chunk of chunks) {
+      let content = contents.get(chunk.path);
+      if (content === undefined) {
+        content = await this.readMemoryFileForWrite(path.join(this.workspaceDir, chunk.path));
+        contents.set(chunk.path, content);
+      }
+      for (const entry of splitMemoryEntries(content)) {
+        const overlaps = entry.startLine <= chunk.endLine && entry.endLine >= chunk.startLine;
+        const seen = entries.some(
+          (candidate) =>
+            candidate.path === chunk.path && candidate.entry.startLine === entry.startLine,
+        );
+        if (overlaps && !seen) {
+          entries.push({ path: chunk.path, entry });
+        }
+      }
+    }
+    if (entries.length === 0) {
+      return null;
+    }
+    const vectors = await this.embedTextsWithCache(entries.map(({ entry }) => entry.text));
+    let best: MemoryWriteMatch | null = null;
+    for (let i = 0; i < entries.length; i += 1) {
+      const candidate = entries[i];
+      const score = cosineSimilarity(textVec, vectors[i] ?? []);
+      if (candidate && (!best || score > best.score)) {
+        best = { ...candidate, score, similarity: "embedding" };
+      }
+    }
+    return best;
+  }
+
+  /** Incremental sync so the written entry is searchable right away. */
+  private async syncAfterWrite(): Promise<boolean> {
+    if (!this.sources.has("memory")) {
+      return true;
+    }
+    try {
+      // A sync already in flight may have hashed the file before this write.
+      await this.syncing?.catch(() => {});
+      this.dirty = true;
+      await this.sync({ reason: "write" });
+      return true;
+    } catch (err) {
+      log.warn(`memory sync failed (write): ${formatErrorMessage(err)}`);
+      return false;
+    }
+  }
+
+  /** Write the index (files, chunks, embeddings, metadata) to a portable archive. */
+  async exportIndex(params: { path: string }): Promise<MemoryIndexArchiveSummary> {
+    await this.syncing?.catch(() => {});
+    return await this.exportIndexArchive(path.resolve(params.path));
+  }
+
+  /**
+   * Replace the index with an exported archive, then sync so only files whose
+   * content hash differs from the archive are re-embedded.
+   */
+  async importIndex(params: {
+    path: string;
+    progress?: (update: MemorySyncProgressUpdate) => void;
+  }): Promise<MemoryIndexArchiveSummary> {
+    await this.syncing?.catch(() => {});
+    const summary = await this.importIndexArchive(path.resolve(params.path));
+    await this.sync({ reason: "import", progress: params.progress });
+    return summary;
+  }
+
   status(): MemoryProviderStatus {
     const sourceFilter = this.buildSourceFilter();
     const files = this.db
@@ -678,6 +1009,18 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       fallback: this.fallbackReason
         ? { from: this.fallbackFrom ?? "local", reason: this.fallbackReason }
         : undefined,
+      rerank: this.settings.query.rerank.enabled
+        ? {
+            enabled: true,
+            provider: this.settings.query.rerank.provider,
+            model: this.settings.query.rerank.model,
+            candidates: this.settings.query.rerank.candidates,
+            timeoutMs: this.settings.query.rerank.timeoutMs,
+            failures: this.rerankFailures,
+            lastError: this.rerankLastError,
+          }
+        : { enabled: false },
+      timings: this.lastSearchTimings,
       vector: {
         enabled: this.vector.enabled,
         available: this.vector.available ?? undefined,
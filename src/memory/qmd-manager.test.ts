@@ -1641,6 +1641,67 @@ describe("QmdMemoryManager", () => {
     await manager.close();
   });
 
+  it("applies search filters to qmd collections and hits", async () => {
+    cfg = {
+      ...cfg,
+      memory: {
+        backend: "qmd",
+        qmd: {
+          includeDefaultMemory: false,
+          update: { interval: "0s", debounceMs: 60_000, onBoot: false },
+          sessions: { enabled: true },
+          paths: [{ path: workspaceDir, pattern: "**/*.md", name: "workspace" }],
+        },
+      },
+    } as OpenClawConfig;
+
+    spawnMock.mockImplementation((_cmd: string, args: string[]) => {
+      if (args[0] === "search") {
+        const child = createMockChild({ autoClose: false });
+        emitAndClose(
+          child,
+          "stdout",
+          JSON.stringify([
+            { docid: "m1", score: 0.9, snippet: "@@ -1,1\nnotes fact" },
+            { docid: "m2", score: 0.6, snippet: "@@ -1,1\nmemory fact" },
+          ]),
+        );
+        return child;
+      }
+      return createMockChild();
+    });
+
+    const { manager } = await createManager();
+    const inner = manager as unknown as {
+      db: { prepare: (_query: string) => { all: (arg: unknown) => unknown }; close: () => void };
+    };
+    inner.db = {
+      prepare: (_query: string) => ({
+        all: (arg: unknown) =>
+          arg === "m1"
+            ? [{ collection: "workspace-main", path: "notes/facts.md" }]
+            : arg === "m2"
+              ? [{ collection: "workspace-main", path: "memory/facts.md" }]
+              : [],
+      }),
+      close: () => {},
+    };
+
+    const results = await manager.search("fact", {
+      sessionKey: "agent:main:slack:dm:u123",
+      filter: { sources: ["memory"], paths: ["memory/*.md"] },
+    });
+
+    expect(results.map((entry) => entry.path)).toEqual(["memory/facts.md"]);
+    const searchCalls = spawnMock.mock.calls
+      .map((call: unknown[]) => call[1] as string[])
+      .filter((args: string[]) => args[0] === "search");
+    expect(searchCalls).toHaveLength(1);
+    expect(searchCalls[0]).toContain("workspace-main");
+    expect(searchCalls[0]).not.toContain("sessions-main");
+    await manager.close();
+  });
+
   it("logs and continues when qmd embed times out", async () => {
     vi.useFakeTimers();
     cfg = {
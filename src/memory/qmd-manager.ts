@@ -9,6 +9,13 @@ import { resolveStateDir } from "../config/paths.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
 import { deriveQmdScopeChannel, deriveQmdScopeChatType, isQmdScopeAllowed } from "./qmd-scope.js";
+import {
+  hasMemoryOriginFilter,
+  hasMemorySearchFilter,
+  matchesMemorySearchFilter,
+  resolveMemorySessionOrigins,
+  type MemorySessionOrigin,
+} from "./search-filter.js";
 import {
   listSessionFilesForAgent,
   buildSessionEntry,
@@ -18,7 +25,9 @@ import { requireNodeSqlite } from "./sqlite.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemoryProviderStatus,
+  MemorySearchFilter,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySearchResult,
   MemorySource,
   MemorySyncProgressUpdate,
@@ -605,10 +614,7 @@ export class QmdMemoryManager implements MemorySearchManager {
     return true;
   }
 
-  async search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ): Promise<MemorySearchResult[]> {
+  async search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]> {
     if (!this.isScopeAllowed(opts?.sessionKey)) {
       this.logScopeDenied(opts?.sessionKey);
       return [];
@@ -622,11 +628,21 @@ export class QmdMemoryManager implements MemorySearchManager {
       this.qmd.limits.maxResults,
       opts?.maxResults ?? this.qmd.limits.maxResults,
     );
-    const collectionNames = this.listManagedCollectionNames();
+    const filter = hasMemorySearchFilter(opts?.filter) ? opts.filter : undefined;
+    // Filters other than `sources` are applied to QMD's hits afterwards, so ask
+    // for the full result budget to leave room for the ones that get dropped.
+    const queryLimit = filter ? this.qmd.limits.maxResults : limit;
+    const collectionNames = this.listManagedCollectionNames(filter?.sources);
     if (collectionNames.length === 0) {
-      log.warn("qmd query skipped: no managed collections configured");
+      if (!filter?.sources?.length) {
+        log.warn("qmd query skipped: no managed collections configured");
+      }
       return [];
     }
+    const origins =
+      filter && hasMemoryOriginFilter(filter)
+        ? resolveMemorySessionOrigins({ cfg: this.cfg, agentId: this.agentId })
+        : undefined;
     const qmdSearchCommand = this.qmd.searchMode;
     const mcporterEnabled = this.qmd.mcporter.enabled;
     const runSearchAttempt = async (
@@ -645,7 +661,7 @@ export class QmdMemoryManager implements MemorySearchManager {
             return await this.runMcporterAcrossCollections({
               tool,
               query: trimmed,
-              limit,
+              limit: queryLimit,
               minScore,
               collectionNames,
             });
@@ -654,7 +670,7 @@ export class QmdMemoryManager implements MemorySearchManager {
             mcporter: this.qmd.mcporter,
             tool,
             query: trimmed,
-            limit,
+            limit: queryLimit,
             minScore,
             collection: collectionNames[0],
             timeoutMs: this.qmd.limits.timeoutMs,
@@ -663,12 +679,12 @@ export class QmdMemoryManager implements MemorySearchManager {
         if (collectionNames.length > 1) {
           return await this.runQueryAcrossCollections(
             trimmed,
-            limit,
+            queryLimit,
             collectionNames,
             qmdSearchCommand,
           );
         }
-        const args = this.buildSearchArgs(qmdSearchCommand, trimmed, limit);
+        const args = this.buildSearchArgs(qmdSearchCommand, trimmed, queryLimit);
         args.push(...this.buildCollectionFilterArgs(collectionNames));
         // Always scope to managed collections (default + custom). Even for `search`/`vsearch`,
         // pass collection filters; if a given QMD build rejects these flags, we fall back to `query`.
@@ -688,9 +704,14 @@ export class QmdMemoryManager implements MemorySearchManager {
           );
           try {
             if (collectionNames.length > 1) {
-              return await this.runQueryAcrossCollections(trimmed, limit, collectionNames, "query");
+              return await this.runQueryAcrossCollections(
+                trimmed,
+                queryLimit,
+                collectionNames,
+                "query",
+              );
             }
-            const fallbackArgs = this.buildSearchArgs("query", trimmed, limit);
+            const fallbackArgs = this.buildSearchArgs("query", trimmed, queryLimit);
             fallbackArgs.push(...this.buildCollectionFilterArgs(collectionNames));
             const fallback = await this.runQmd(fallbackArgs, {
               timeoutMs: this.qmd.limits.timeoutMs,
@@ -732,6 +753,9 @@ export class QmdMemoryManager implements MemorySearchManager {
       if (score < minScore) {
         continue;
       }
+      if (filter && !(await this.matchesSearchFilter(doc, filter, origins))) {
+        continue;
+      }
       results.push({
         path: doc.rel,
         startLine: lines.startLine,
@@ -1683,6 +1707,26 @@ export class QmdMemoryManager implements MemorySearchManager {
     return clamped;
   }
 
+  private async matchesSearchFilter(
+    doc: { rel: string; abs: string; source: MemorySource },
+    filter: MemorySearchFilter,
+    origins?: Map<string, MemorySessionOrigin>,
+  ): Promise<boolean> {
+    let mtimeMs: number | undefined;
+    if (filter.modifiedAfter !== undefined || filter.modifiedBefore !== undefined) {
+      try {
+        mtimeMs = (await fs.stat(doc.abs)).mtimeMs;
+      } catch {
+        return false;
+      }
+    }
+    return matchesMemorySearchFilter(
+      { path: doc.rel, source: doc.source, mtimeMs },
+      filter,
+      origins,
+    );
+  }
+
   private diversifyResultsBySource(
     results: MemorySearchResult[],
     limit: number,
@@ -1852,7 +1896,7 @@ export class QmdMemoryManager implements MemorySearchManager {
     return [...bestByDocId.values()].toSorted((a, b) => (b.score ?? 0) - (a.score ?? 0));
   }
 
-  private listManagedCollectionNames(): string[] {
+  private listManagedCollectionNames(sources?: MemorySource[]): string[] {
     const seen = new Set<string>();
     const names: string[] = [];
     for (const collection of this.qmd.collections) {
@@ -1860,6 +1904,10 @@ export class QmdMemoryManager implements MemorySearchManager {
       if (!name || seen.has(name)) {
         continue;
       }
+      const source: MemorySource = collection.kind === "sessions" ? "sessions" : "memory";
+      if (sources?.length && !sources.includes(source)) {
+        continue;
+      }
       seen.add(name);
       names.push(name);
     }
@@ -0,0 +1,104 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "../agents/model-selection.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryReranker, MemoryRerankSettings } from "./rerank.js";
+
+const MAX_PASSAGE_CHARS = 600;
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+export function buildLlmRerankPrompt(query: string, documents: string[]): string {
+  const passages = documents
+    .map((doc, index) => `[${index + 1}] ${doc.slice(0, MAX_PASSAGE_CHARS).replaceAll("\n", " ")}`)
+    .join("\n");
+  return (
+    `You grade search results. Rate how well each numbered passage answers the query, ` +
+    `from 0 (irrelevant) to 10 (directly answers it). Reply only with a JSON array of ` +
+    `${documents.length} numbers, one per passage, in passage order.\n\n` +
+    `<query>\n${query}\n</query>\n\n<passages>\n${passages}\n</passages>`
+  );
+}
+
+/** Parse the judge's `[7, 0, 3]` reply into 0-1 scores. */
+export function parseLlmRerankScores(text: string, count: number): number[] {
+  const match = text.match(/\[[\s\S]*?\]/);
+  let parsed: unknown = null;
+  try {
+    parsed = match ? JSON.parse(match[0]) : null;
+  } catch {}
+  if (
+    !Array.isArray(parsed) ||
+    parsed.length !== count ||
+    !parsed.every((value) => typeof value === "number" && Number.isFinite(value))
+  ) {
+    throw new Error(`llm reranker reply is not a list of ${count} scores`);
+  }
+  return (parsed as number[]).map((value) => Math.max(0, Math.min(10, value)) / 10);
+}
+
+/** LLM-as-judge reranker using the agent's model (or `rerank.model`). */
+export function createLlmReranker(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  settings: MemoryRerankSettings;
+}): MemoryReranker {
+  const { cfg } = params;
+  const defaultRef = resolveDefaultModelForAgent({ cfg, agentId: params.agentId });
+  const raw = params.settings.model;
+  const ref = raw
+    ? resolveModelRefFromString({
+        raw,
+        defaultProvider: defaultRef.provider,
+        aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+      })?.ref
+    : defaultRef;
+  if (!ref) {
+    throw new Error(`Unknown rerank model: ${raw}`);
+  }
+  const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+  const model = resolved.model;
+  if (!model) {
+    throw new Error(resolved.error ?? `Unknown rerank model: ${ref.provider}/${ref.model}`);
+  }
+  return {
+    id: "llm",
+    model: `${ref.provider}/${ref.model}`,
+    rerank: async (query, documents, signal) => {
+      const apiKey = requireApiKey(await getApiKeyForModel({ model, cfg }), ref.provider);
+      const res = await completeSimple(
+        model,
+        {
+          messages: [
+            {
+              role: "user",
+              content: buildLlmRerankPrompt(query, documents),
+              timestamp: Date.now(),
+            },
+          ],
+        },
+        {
+          apiKey,
+          maxTokens: 32 + documents.length * 6,
+          temperature: 0,
+          signal,
+        },
+      );
+      if (res.stopReason === "error" || res.stopReason === "aborted") {
+        throw new Error(res.errorMessage ?? `llm reranker stopped: ${res.stopReason}`);
+      }
+      const text = res.content
+        .filter(isTextContentBlock)
+        .map((block) => block.text)
+        .join("");
+      return parseLlmRerankScores(text, documents.length);
+    },
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseLlmRerankScores } from "./rerank-llm.js";
+import { parseRemoteRerankResponse, rerankMemoryResults, type MemoryReranker } from "./rerank.js";
+
+function hit(snippet: string, score: number) {
+  return { path: "MEMORY.md", snippet, score };
+}
+
+function reranker(rerank: MemoryReranker["rerank"]): MemoryReranker {
+  return { id: "remote", model: "test-rerank", rerank };
+}
+
+describe("memory rerank", () => {
+  it("reorders the candidate window by reranker score and keeps the tail", async () => {
+    const results = [hit("a", 0.9), hit("b", 0.8), hit("c", 0.7), hit("d", 0.6)];
+    const rerank = vi.fn(async (_query: string, documents: string[]) =>
+      documents.map((doc) => (doc === "c" ? 0.95 : doc === "a" ? 0.4 : 0.1)),
+    );
+
+    const reranked = await rerankMemoryResults({
+      query: "q",
+      results,
+      reranker: reranker(rerank),
+      candidates: 3,
+      timeoutMs: 1000,
+    });
+
+    expect(rerank).toHaveBeenCalledWith("q", ["a", "b", "c"], expect.any(AbortSignal));
+    expect(reranked.map((entry) => [entry.snippet, entry.score])).toEqual([
+      ["c", 0.95],
+      ["a", 0.4],
+      ["b", 0.1],
+      ["d", 0.6],
+    ]);
+  });
+
+  it("rejects on timeout and aborts the reranker", async () => {
+    vi.useFakeTimers();
+    try {
+      let signal: AbortSignal | undefined;
+      const pending = rerankMemoryResults({
+        query: "q",
+        results: [hit("a", 0.9), hit("b", 0.8)],
+        reranker: reranker(async (_query, _documents, abortSignal) => {
+          signal = abortSignal;
+          return await new Promise<number[]>(() => {});
+        }),
+        candidates: 10,
+        timeoutMs: 50,
+      });
+      const assertion = expect(pending).rejects.toThrow("rerank timed out after 50ms");
+      await vi.advanceTimersByTimeAsync(50);
+      await assertion;
+      expect(signal?.aborted).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("rejects score lists that do not match the hits", async () => {
+    await expect(
+      rerankMemoryResults({
+        query: "q",
+        results: [hit("a", 0.9), hit("b", 0.8)],
+        reranker: reranker(async () => [0.5]),
+        candidates: 10,
+        timeoutMs: 1000,
+      }),
+    ).rejects.toThrow("reranker returned 1 scores for 2 hits");
+  });
+
+  it("parses Cohere, Voyage and TEI style responses", () => {
+    expect(
+      parseRemoteRerankResponse(
+        {
+          results: [
+            { index: 1, relevance_score: 0.9 },
+            { index: 0, relevance_score: 0.2 },
+          ],
+        },
+        3,
+      ),
+    ).toEqual([0.2, 0.9, 0]);
+    expect(parseRemoteRerankResponse({ data: [{ index: 0, relevance_score: 0.5 }] }, 1)).toEqual([
+      0.5,
+    ]);
+    expect(parseRemoteRerankResponse([{ index: 0, score: 0.7 }], 1)).toEqual([0.7]);
+    expect(() => parseRemoteRerankResponse({ error: "nope" }, 1)).toThrow(
+      "rerank response has no results",
+    );
+  });
+
+  it("parses llm judge scores onto a 0-1 scale", () => {
+    expect(parseLlmRerankScores("Scores: [10, 3, 0]", 3)).toEqual([1, 0.3, 0]);
+    expect(() => parseLlmRerankScores("[1, 2]", 3)).toThrow(
+      "llm reranker reply is not a list of 3 scores",
+    );
+  });
+});
@@ -0,0 +1,177 @@
+import type { LlamaRankingContext } from "node-llama-cpp";
+import type { ResolvedMemorySearchConfig } from "../agents/memory-search.js";
+import type { OpenClawConfig } from "../config/config.js";
+import type { MemoryRerankProvider } from "../config/types.memory.js";
+import { importNodeLlamaCpp } from "./node-llama.js";
+import { postJson } from "./post-json.js";
+import { buildRemoteBaseUrlPolicy } from "./remote-http.js";
+
+export type MemoryRerankSettings = ResolvedMemorySearchConfig["query"]["rerank"];
+
+export type MemoryReranker = {
+  id: MemoryRerankProvider;
+  model: string;
+  /** Relevance of each document to the query (0-1), in document order. */
+  rerank: (query: string, documents: string[], signal: AbortSignal) => Promise<number[]>;
+};
+
+export const DEFAULT_LOCAL_RERANK_MODEL =
+  "hf:gpustack/bge-reranker-v2-m3-GGUF/bge-reranker-v2-m3-Q8_0.gguf";
+
+async function createLocalReranker(settings: MemoryRerankSettings): Promise<MemoryReranker> {
+  const modelPath = settings.model ?? DEFAULT_LOCAL_RERANK_MODEL;
+  const modelCacheDir = settings.local.modelCacheDir?.trim();
+
+  // Lazy-load node-llama-cpp to keep startup light unless local reranking is enabled.
+  const { getLlama, resolveModelFile, LlamaLogLevel } = await importNodeLlamaCpp();
+
+  let context: Promise<LlamaRankingContext> | null = null;
+  const ensureContext = () => {
+    if (!context) {
+      context = (async () => {
+        const llama = await getLlama({ logLevel: LlamaLogLevel.error });
+        const resolved = await resolveModelFile(modelPath, modelCacheDir || undefined);
+        const model = await llama.loadModel({ modelPath: resolved });
+        return await model.createRankingContext();
+      })();
+      // Retry the load on the next search instead of caching a failed download.
+      context.catch(() => {
+        context = null;
+      });
+    }
+    return context;
+  };
+
+  return {
+    id: "local",
+    model: modelPath,
+    rerank: async (query, documents) => {
+      const ctx = await ensureContext();
+      return await ctx.rankAll(query, documents);
+    },
+  };
+}
+
+function readRerankScore(entry: Record<string, unknown>): number | undefined {
+  const score = entry.relevance_score ?? entry.score;
+  return typeof score === "number" && Number.isFinite(score) ? score : undefined;
+}
+
+/**
+ * Parse Cohere/Jina (`results`), Voyage (`data`) and TEI (top-level array)
+ * rerank responses into scores aligned with the request documents.
+ */
+export function parseRemoteRerankResponse(payload: unknown, count: number): number[] {
+  const record = payload as { results?: unknown; data?: unknown } | null;
+  const entries = Array.isArray(payload) ? payload : (record?.results ?? record?.data);
+  if (!Array.isArray(entries)) {
+    throw new Error("rerank response has no results");
+  }
+  const scores = Array.from({ length: count }, () => 0);
+  let matched = 0;
+  for (const entry of entries as Array<Record<string, unknown>>) {
+    const index = entry?.index;
+    const score = entry ? readRerankScore(entry) : undefined;
+    if (typeof index !== "number" || index < 0 || index >= count || score === undefined) {
+      continue;
+    }
+    scores[index] = score;
+    matched += 1;
+  }
+  if (matched === 0 && count > 0) {
+    throw new Error("rerank response has no scored documents");
+  }
+  return scores;
+}
+
+function createRemoteReranker(settings: MemoryRerankSettings): MemoryReranker {
+  const baseUrl = settings.remote?.baseUrl?.trim().replace(/\/+$/, "");
+  if (!baseUrl) {
+    throw new Error("memorySearch.query.rerank.remote.baseUrl is required for remote reranking");
+  }
+  const apiKey = settings.remote?.apiKey?.trim();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    ...settings.remote?.headers,
+  };
+  const ssrfPolicy = buildRemoteBaseUrlPolicy(baseUrl);
+  return {
+    id: "remote",
+    model: settings.model ?? "",
+    rerank: async (query, documents, signal) =>
+      await postJson({
+        url: `${baseUrl}/rerank`,
+        headers,
+        ssrfPolicy,
+        signal,
+        body: {
+          ...(settings.model ? { model: settings.model } : {}),
+          query,
+          documents,
+          top_n: documents.length,
+        },
+        errorPrefix: "rerank request failed",
+        parse: (payload) => parseRemoteRerankResponse(payload, documents.length),
+      }),
+  };
+}
+
+export async function createMemoryReranker(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+  settings: MemoryRerankSettings;
+}): Promise<MemoryReranker> {
+  if (params.settings.provider === "remote") {
+    return createRemoteReranker(params.settings);
+  }
+  if (params.settings.provider === "llm") {
+    const { createLlmReranker } = await import("./rerank-llm.js");
+    return createLlmReranker(params);
+  }
+  return await createLocalReranker(params.settings);
+}
+
+/**
+ * Reorder the top `candidates` hits by reranker relevance; hits past that keep
+ * their order. Reranked hits carry the reranker score. Throws on failure or
+ * timeout so callers can keep the un-reranked order.
+ */
+export async function rerankMemoryResults<T extends { snippet: string; score: number }>(params: {
+  query: string;
+  results: T[];
+  reranker: MemoryReranker;
+  candidates: number;
+  timeoutMs: number;
+}): Promise<T[]> {
+  const head = params.results.slice(0, params.candidates);
+  const tail = params.results.slice(params.candidates);
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`rerank timed out after ${params.timeoutMs}ms`));
+    }, params.timeoutMs);
+  });
+  try {
+    const scores = await Promise.race([
+      params.reranker.rerank(
+        params.query,
+        head.map((entry) => entry.snippet),
+        controller.signal,
+      ),
+      timeout,
+    ]);
+    if (scores.length !== head.length) {
+      throw new Error(`reranker returned ${scores.length} scores for ${head.length} hits`);
+    }
+    const reranked = head
+      .map((entry, index) => ({ entry, score: scores[index] ?? 0 }))
+      .toSorted((a, b) => b.score - a.score)
+      .map(({ entry, score }) => ({ ...entry, score }));
+    return [...reranked, ...tail];
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import {
+  buildMemorySearchFilter,
+  compileMemoryPathGlob,
+  matchesMemorySearchFilter,
+  parseMemorySearchTime,
+  resolveMemorySessionOrigins,
+} from "./search-filter.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("memory search filters", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-memory-filter-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("matches path globs segment by segment", () => {
+    expect(compileMemoryPathGlob("memory/*.md").test("memory/2026-01-12.md")).toBe(true);
+    expect(compileMemoryPathGlob("memory/*.md").test("memory/archive/old.md")).toBe(false);
+    expect(compileMemoryPathGlob("memory/**/*.md").test("memory/archive/old.md")).toBe(true);
+    expect(compileMemoryPathGlob("memory/**/*.md").test("memory/top.md")).toBe(true);
+    expect(compileMemoryPathGlob("./MEMORY.md").test("MEMORY.md")).toBe(true);
+    expect(compileMemoryPathGlob("memory/2026-0?-*.md").test("memory/2026-02-01.md")).toBe(true);
+  });
+
+  it("parses durations relative to now and absolute dates", () => {
+    const now = Date.UTC(2026, 1, 10);
+    expect(parseMemorySearchTime("7d", now)).toBe(now - 7 * DAY_MS);
+    expect(parseMemorySearchTime("2026-02-01", now)).toBe(Date.UTC(2026, 1, 1));
+    expect(() => parseMemorySearchTime("last tuesday", now)).toThrow(/invalid time/);
+  });
+
+  it("builds filters from user options", () => {
+    const now = Date.UTC(2026, 1, 10);
+    expect(buildMemorySearchFilter({}, now)).toBeUndefined();
+    expect(
+      buildMemorySearchFilter(
+        { source: "Sessions", paths: [" sessions/* "], since: "1d", channel: "telegram" },
+        now,
+      ),
+    ).toEqual({
+      sources: ["sessions"],
+      paths: ["sessions/*"],
+      modifiedAfter: now - DAY_MS,
+      originChannel: "telegram",
+    });
+    expect(() => buildMemorySearchFilter({ source: "files" })).toThrow(/invalid source/);
+  });
+
+  it("filters by source, modified time, and session origin", async () => {
+    const storePath = path.join(dir, "sessions.json");
+    await fs.writeFile(
+      storePath,
+      JSON.stringify({
+        "agent:main:telegram:dm:42": {
+          sessionId: "abc",
+          updatedAt: 1,
+          origin: { provider: "telegram" },
+        },
+        "agent:main:main": { sessionId: "def", updatedAt: 1, lastChannel: "webchat" },
+      }),
+    );
+    const origins = resolveMemorySessionOrigins({
+      cfg: { session: { store: storePath } } as OpenClawConfig,
+      agentId: "main",
+    });
+    expect(origins.get("abc")).toEqual({
+      sessionKey: "agent:main:telegram:dm:42",
+      channel: "telegram",
+    });
+
+    const telegram = { originChannel: "Telegram" };
+    expect(
+      matchesMemorySearchFilter(
+        { path: "sessions/abc.jsonl", source: "sessions" },
+        telegram,
+        origins,
+      ),
+    ).toBe(true);
+    expect(
+      matchesMemorySearchFilter(
+        { path: "sessions/def.jsonl", source: "sessions" },
+        telegram,
+        origins,
+      ),
+    ).toBe(false);
+    expect(
+      matchesMemorySearchFilter({ path: "MEMORY.md", source: "memory" }, telegram, origins),
+    ).toBe(false);
+    expect(
+      matchesMemorySearchFilter(
+        { path: "abc.md", source: "sessions" },
+        { originSessionKey: "agent:main:telegram:dm:42" },
+        origins,
+      ),
+    ).toBe(true);
+
+    const recent = { modifiedAfter: 1_000, modifiedBefore: 2_000 };
+    expect(
+      matchesMemorySearchFilter({ path: "a.md", source: "memory", mtimeMs: 1_500 }, recent),
+    ).toBe(true);
+    expect(
+      matchesMemorySearchFilter({ path: "a.md", source: "memory", mtimeMs: 2_500 }, recent),
+    ).toBe(false);
+    expect(matchesMemorySearchFilter({ path: "a.md", source: "memory" }, recent)).toBe(false);
+    expect(
+      matchesMemorySearchFilter({ path: "a.md", source: "memory" }, { sources: ["sessions"] }),
+    ).toBe(false);
+  });
+});
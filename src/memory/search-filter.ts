@@ -0,0 +1,198 @@
+import path from "node:path";
+import { parseDurationMs } from "../cli/parse-duration.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveStorePath } from "../config/sessions/paths.js";
+import { loadSessionStore } from "../config/sessions/store.js";
+import type { MemorySearchFilter, MemorySource } from "./types.js";
+
+export type MemorySessionOrigin = {
+  sessionKey: string;
+  channel?: string;
+};
+
+export type MemoryFilterCandidate = {
+  path: string;
+  source: MemorySource;
+  mtimeMs?: number;
+};
+
+export function hasMemorySearchFilter(
+  filter: MemorySearchFilter | undefined,
+): filter is MemorySearchFilter {
+  if (!filter) {
+    return false;
+  }
+  return Boolean(
+    filter.sources?.length ||
+    filter.paths?.length ||
+    filter.modifiedAfter !== undefined ||
+    filter.modifiedBefore !== undefined ||
+    filter.originSessionKey ||
+    filter.originChannel,
+  );
+}
+
+export function hasMemoryOriginFilter(filter: MemorySearchFilter | undefined): boolean {
+  return Boolean(filter?.originSessionKey || filter?.originChannel);
+}
+
+/**
+ * Parse a `since`/`until` value: a duration back from now (`7d`, `12h`) or
+ * anything `Date.parse` accepts (`2026-02-01`, ISO timestamps).
+ */
+export function parseMemorySearchTime(raw: string, nowMs = Date.now()): number {
+  const trimmed = raw.trim();
+  if (/^\d+(?:\.\d+)?(?:ms|s|m|h|d)/i.test(trimmed)) {
+    return nowMs - parseDurationMs(trimmed);
+  }
+  const parsed = Date.parse(trimmed);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`invalid time "${raw}" (use a duration like 7d or a date like 2026-02-01)`);
+  }
+  return parsed;
+}
+
+function normalizeMemoryPath(value: string): string {
+  return value.trim().replaceAll("\\", "/").replace(/^\.\//, "");
+}
+
+/** `**` crosses directories, `*` and `?` stay within one path segment. */
+export function compileMemoryPathGlob(glob: string): RegExp {
+  const normalized = normalizeMemoryPath(glob);
+  let pattern = "";
+  for (let i = 0; i < normalized.length; i += 1) {
+    const char = normalized[i];
+    if (char === "*" && normalized[i + 1] === "*") {
+      const slash = normalized[i + 2] === "/";
+      pattern += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+/** Transcript id shared by `sessions/<id>.jsonl` and QMD's exported `<id>.md`. */
+function sessionTranscriptId(filePath: string): string {
+  return path.basename(normalizeMemoryPath(filePath)).replace(/\.(jsonl|md)$/i, "");
+}
+
+/** Map transcript ids to the session key (and origin channel) that wrote them. */
+export function resolveMemorySessionOrigins(params: {
+  cfg: OpenClawConfig;
+  agentId: string;
+}): Map<string, MemorySessionOrigin> {
+  const origins = new Map<string, MemorySessionOrigin>();
+  const storePath = resolveStorePath(params.cfg.session?.store, { agentId: params.agentId });
+  let store: ReturnType<typeof loadSessionStore>;
+  try {
+    store = loadSessionStore(storePath);
+  } catch {
+    return origins;
+  }
+  for (const [sessionKey, entry] of Object.entries(store)) {
+    if (!entry?.sessionId) {
+      continue;
+    }
+    const transcriptId = entry.sessionFile
+      ? sessionTranscriptId(entry.sessionFile)
+      : entry.sessionId;
+    const channel = entry.origin?.provider ?? entry.lastChannel ?? entry.channel;
+    origins.set(transcriptId, {
+      sessionKey,
+      ...(channel ? { channel: channel.toLowerCase() } : {}),
+    });
+  }
+  return origins;
+}
+
+export function matchesMemorySearchFilter(
+  candidate: MemoryFilterCandidate,
+  filter: MemorySearchFilter,
+  origins?: Map<string, MemorySessionOrigin>,
+): boolean {
+  if (filter.sources?.length && !filter.sources.includes(candidate.source)) {
+    return false;
+  }
+  if (filter.paths?.length) {
+    const normalized = normalizeMemoryPath(candidate.path);
+    if (!filter.paths.some((glob) => compileMemoryPathGlob(glob).test(normalized))) {
+      return false;
+    }
+  }
+  if (filter.modifiedAfter !== undefined || filter.modifiedBefore !== undefined) {
+    const mtimeMs = candidate.mtimeMs;
+    if (mtimeMs === undefined) {
+      return false;
+    }
+    if (filter.modifiedAfter !== undefined && mtimeMs < filter.modifiedAfter) {
+      return false;
+    }
+    if (filter.modifiedBefore !== undefined && mtimeMs > filter.modifiedBefore) {
+      return false;
+    }
+  }
+  if (hasMemoryOriginFilter(filter)) {
+    if (candidate.source !== "sessions") {
+      return false;
+    }
+    const origin = origins?.get(sessionTranscriptId(candidate.path));
+    if (!origin) {
+      return false;
+    }
+    if (
+      filter.originSessionKey &&
+      origin.sessionKey.toLowerCase() !== filter.originSessionKey.trim().toLowerCase()
+    ) {
+      return false;
+    }
+    if (filter.originChannel && origin.channel !== filter.originChannel.trim().toLowerCase()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function parseMemorySource(raw: string | undefined): MemorySource | undefined {
+  const normalized = raw?.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  if (normalized === "memory" || normalized === "sessions") {
+    return normalized;
+  }
+  throw new Error(`invalid source "${raw}" (use memory or sessions)`);
+}
+
+/**
+ * Build a filter from user-facing options (`memory_search`, `openclaw memory
+ * search`). Throws on unparseable times; returns undefined when nothing is set.
+ */
+export function buildMemorySearchFilter(
+  raw: {
+    source?: string;
+    paths?: string[];
+    since?: string;
+    until?: string;
+    session?: string;
+    channel?: string;
+  },
+  nowMs = Date.now(),
+): MemorySearchFilter | undefined {
+  const source = parseMemorySource(raw.source);
+  const paths = raw.paths?.map((entry) => entry.trim()).filter(Boolean);
+  const filter: MemorySearchFilter = {
+    ...(source ? { sources: [source] } : {}),
+    ...(paths?.length ? { paths } : {}),
+    ...(raw.since?.trim() ? { modifiedAfter: parseMemorySearchTime(raw.since, nowMs) } : {}),
+    ...(raw.until?.trim() ? { modifiedBefore: parseMemorySearchTime(raw.until, nowMs) } : {}),
+    ...(raw.session?.trim() ? { originSessionKey: raw.session.trim() } : {}),
+    ...(raw.channel?.trim() ? { originChannel: raw.channel.trim() } : {}),
+  };
+  return hasMemorySearchFilter(filter) ? filter : undefined;
+}
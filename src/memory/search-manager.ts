@@ -5,7 +5,9 @@ import { resolveMemoryBackendConfig } from "./backend-config.js";
 import type {
   MemoryEmbeddingProbeResult,
   MemorySearchManager,
+  MemorySearchOptions,
   MemorySyncProgressUpdate,
+  MemoryWriteParams,
 } from "./types.js";
 
 const log = createSubsystemLogger("memory");
@@ -86,10 +88,7 @@ class FallbackMemoryManager implements MemorySearchManager {
     private readonly onClose?: () => void,
   ) {}
 
-  async search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ) {
+  async search(query: string, opts?: MemorySearchOptions) {
     if (!this.primaryFailed) {
       try {
         return await this.deps.primary.search(query, opts);
@@ -120,6 +119,18 @@ class FallbackMemoryManager implements MemorySearchManager {
     throw new Error(this.lastError ?? "memory read unavailable");
   }
 
+  async write(params: MemoryWriteParams) {
+    // QMD has no write-back of its own; the builtin index shares the same memory files.
+    const target =
+      !this.primaryFailed && this.deps.primary.write
+        ? this.deps.primary
+        : await this.ensureFallback();
+    if (target?.write) {
+      return await target.write(params);
+    }
+    throw new Error(this.lastError ?? "memory write unavailable");
+  }
+
   status() {
     if (!this.primaryFailed) {
       return this.deps.primary.status();
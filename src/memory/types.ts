@@ -10,6 +10,84 @@ export type MemorySearchResult = {
   citation?: string;
 };
 
+/** Structured search filters; every field that is set must match. */
+export type MemorySearchFilter = {
+  sources?: MemorySource[];
+  /** Globs over indexed paths (`*`, `**`, `?`); a result passes when any glob matches. */
+  paths?: string[];
+  /** Only files modified at or after this time (epoch ms). */
+  modifiedAfter?: number;
+  /** Only files modified at or before this time (epoch ms). */
+  modifiedBefore?: number;
+  /** Only session transcripts of this session key. */
+  originSessionKey?: string;
+  /** Only session transcripts whose session originated on this channel. */
+  originChannel?: string;
+};
+
+export type MemorySearchOptions = {
+  maxResults?: number;
+  minScore?: number;
+  sessionKey?: string;
+  filter?: MemorySearchFilter;
+};
+
+/**
+ * What a write did: `append` added a new entry to the target file, `merge`
+ * placed it next to a related entry, `update` replaced a conflicting entry,
+ * and `skip` found a near-duplicate and wrote nothing.
+ */
+export type MemoryWriteAction = "append" | "merge" | "update" | "skip";
+
+export type MemoryWriteParams = {
+  text: string;
+  /** Workspace memory file for new entries (`MEMORY.md`, `memory/*.md`); defaults to MEMORY.md. */
+  path?: string;
+  /** `append` always adds a new entry without checking for similar ones. */
+  mode?: "auto" | "append";
+  /** How to resolve a conflicting entry: replace it (default) or keep both side by side. */
+  conflict?: "replace" | "keep-both";
+  /** Recorded in the provenance footer. */
+  sessionKey?: string;
+  /** Who wrote the entry (`memory_write`, `gateway`); recorded in the provenance footer. */
+  origin?: string;
+};
+
+export type MemoryWriteResult = {
+  action: MemoryWriteAction;
+  path: string;
+  /** 1-based line of the written (or duplicate) entry. */
+  line: number;
+  /** Similarity to the closest existing entry, when one was found. */
+  score?: number;
+  similarity?: "embedding" | "lexical";
+  /** Entry text that an update replaced. */
+  replaced?: string;
+  /** False when the file was written but the index refresh failed. */
+  indexed: boolean;
+};
+
+/** What an index export wrote or an import loaded. */
+export type MemoryIndexArchiveSummary = {
+  path: string;
+  provider: string;
+  model: string;
+  sources: MemorySource[];
+  files: number;
+  chunks: number;
+};
+
+export type MemorySearchStage = "keyword" | "embed" | "vector" | "merge" | "rerank";
+
+/** Wall-clock timing of the most recent search. */
+export type MemorySearchTimings = {
+  at: number;
+  totalMs: number;
+  stages: Partial<Record<MemorySearchStage, number>>;
+  /** Set when the rerank stage failed or timed out and the un-reranked order was kept. */
+  rerankFallback?: boolean;
+};
+
 export type MemoryEmbeddingProbeResult = {
   ok: boolean;
   error?: string;
@@ -37,6 +115,16 @@ export type MemoryProviderStatus = {
   cache?: { enabled: boolean; entries?: number; maxEntries?: number };
   fts?: { enabled: boolean; available: boolean; error?: string };
   fallback?: { from: string; reason?: string };
+  rerank?: {
+    enabled: boolean;
+    provider?: string;
+    model?: string;
+    candidates?: number;
+    timeoutMs?: number;
+    failures?: number;
+    lastError?: string;
+  };
+  timings?: MemorySearchTimings;
   vector?: {
     enabled: boolean;
     available?: boolean;
@@ -59,16 +147,19 @@ export type MemoryProviderStatus = {
 };
 
 export interface MemorySearchManager {
-  search(
-    query: string,
-    opts?: { maxResults?: number; minScore?: number; sessionKey?: string },
-  ): Promise<MemorySearchResult[]>;
+  search(query: string, opts?: MemorySearchOptions): Promise<MemorySearchResult[]>;
   readFile(params: {
     relPath: string;
     from?: number;
     lines?: number;
   }): Promise<{ text: string; path: string }>;
   status(): MemoryProviderStatus;
+  write?(params: MemoryWriteParams): Promise<MemoryWriteResult>;
+  exportIndex?(params: { path: string }): Promise<MemoryIndexArchiveSummary>;
+  importIndex?(params: {
+    path: string;
+    progress?: (update: MemorySyncProgressUpdate) => void;
+  }): Promise<MemoryIndexArchiveSummary>;
   sync?(params?: {
     reason?: string;
     force?: boolean;
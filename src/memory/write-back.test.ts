@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMemoryWrite,
+  formatMemoryEntry,
+  formatMemoryProvenance,
+  memoryTextSimilarity,
+  resolveMemoryWriteAction,
+  resolveMemoryWritePath,
+  splitMemoryEntries,
+} from "./write-back.js";
+
+const AT = new Date(Date.UTC(2026, 1, 10, 12, 0, 0));
+
+describe("memory write-back", () => {
+  it("splits list items, paragraphs and provenance footers into entries", () => {
+    const content = [
+      "# Preferences",
+      "- Prefers metric units.",
+      "  Mentioned twice.",
+      "  <!-- memory: written=2026-02-01T00:00:00.000Z -->",
+      "- [x] Ship the release.",
+      "",
+      "Lives in Berlin",
+      "since 2020.",
+      "```",
+      "- not an entry",
+      "```",
+    ].join("\n");
+    expect(splitMemoryEntries(content)).toEqual([
+      { startLine: 2, endLine: 4, text: "Prefers metric units. Mentioned twice." },
+      { startLine: 5, endLine: 5, text: "Ship the release." },
+      { startLine: 7, endLine: 8, text: "Lives in Berlin since 2020." },
+    ]);
+  });
+
+  it("picks an action from the closest match", () => {
+    const entry = { startLine: 1, endLine: 1, text: "x" };
+    const match = (score: number, similarity: "embedding" | "lexical" = "embedding") => ({
+      path: "MEMORY.md",
+      entry,
+      score,
+      similarity,
+    });
+    expect(resolveMemoryWriteAction(null, undefined)).toBe("append");
+    expect(resolveMemoryWriteAction(match(0.97), undefined)).toBe("skip");
+    expect(resolveMemoryWriteAction(match(0.9), undefined)).toBe("update");
+    expect(resolveMemoryWriteAction(match(0.9), "keep-both")).toBe("merge");
+    expect(resolveMemoryWriteAction(match(0.75), undefined)).toBe("merge");
+    expect(resolveMemoryWriteAction(match(0.4), undefined)).toBe("append");
+    const lexical = memoryTextSimilarity("User lives in Berlin", "User lives in Munich");
+    expect(resolveMemoryWriteAction(match(lexical, "lexical"), undefined)).toBe("update");
+  });
+
+  it("appends, merges and updates entries in place", () => {
+    const lines = formatMemoryEntry(
+      "Lives in Munich.",
+      formatMemoryProvenance({
+        action: "update",
+        at: AT,
+        origin: "memory_write",
+        sessionKey: "agent:main:main",
+        replaced: 'Lives in "Berlin" --',
+      }),
+    );
+    expect(lines).toEqual([
+      "- Lives in Munich.",
+      "  <!-- memory: updated=2026-02-10T12:00:00.000Z origin=memory_write session=agent:main:main replaces=\"Lives in 'Berlin' -\" -->",
+    ]);
+
+    const content = "# Facts\n- Lives in Berlin.\n- Likes tea.\n";
+    const [berlin] = splitMemoryEntries(content);
+    expect(applyMemoryWrite(content, { action: "update", entry: berlin, lines: ["- A"] })).toEqual({
+      content: "# Facts\n- A\n- Likes tea.\n",
+      line: 2,
+    });
+    expect(applyMemoryWrite(content, { action: "merge", entry: berlin, lines: ["- A"] })).toEqual({
+      content: "# Facts\n- Lives in Berlin.\n- A\n- Likes tea.\n",
+      line: 3,
+    });
+    expect(applyMemoryWrite(content, { action: "append", lines: ["- A"] })).toEqual({
+      content: "# Facts\n- Lives in Berlin.\n- Likes tea.\n- A\n",
+      line: 4,
+    });
+    expect(applyMemoryWrite("# Notes\nfree text\n", { action: "append", lines: ["- A"] })).toEqual({
+      content: "# Notes\nfree text\n\n- A\n",
+      line: 4,
+    });
+    expect(applyMemoryWrite("", { action: "append", lines: ["- A"] })).toEqual({
+      content: "- A\n",
+      line: 1,
+    });
+  });
+
+  it("only targets workspace memory files", () => {
+    expect(resolveMemoryWritePath(undefined)).toBe("MEMORY.md");
+    expect(resolveMemoryWritePath("./memory/people.md")).toBe("memory/people.md");
+    expect(() => resolveMemoryWritePath("../MEMORY.md")).toThrow(/memory writes must target/);
+    expect(() => resolveMemoryWritePath("notes/todo.md")).toThrow(/memory writes must target/);
+    expect(() => resolveMemoryWritePath("memory/data.json")).toThrow(/memory writes must target/);
+  });
+});
@@ -0,0 +1,230 @@
+import path from "node:path";
+import { isMemoryPath } from "./internal.js";
+import type { MemoryWriteAction, MemoryWriteParams } from "./types.js";
+
+/** One fact in a memory file: a list item or paragraph plus its continuation lines. */
+export type MemoryWriteEntry = {
+  /** 1-based and inclusive; covers continuation lines and the provenance footer. */
+  startLine: number;
+  endLine: number;
+  text: string;
+};
+
+export type MemoryWriteMatch = {
+  path: string;
+  entry: MemoryWriteEntry;
+  score: number;
+  similarity: "embedding" | "lexical";
+};
+
+export const DEFAULT_MEMORY_WRITE_PATH = "MEMORY.md";
+
+// Cosine similarity of embeddings runs much higher than token overlap for the
+// same pair of sentences, so each measure gets its own cut-offs.
+const SIMILARITY_THRESHOLDS = {
+  embedding: { duplicate: 0.95, update: 0.85, merge: 0.7 },
+  lexical: { duplicate: 0.9, update: 0.6, merge: 0.35 },
+} as const;
+
+const PROVENANCE_RE = /^\s*<!--\s*memory:.*-->\s*$/;
+const LIST_ITEM_RE = /^\s{0,1}(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const LIST_MARKER_RE = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const FENCE_RE = /^\s*(?:```|~~~)/;
+const REPLACED_PREVIEW_CHARS = 160;
+
+export function normalizeMemoryWriteText(raw: string): string {
+  const lines = raw
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd());
+  const text = lines.join("\n").trim();
+  return text.replace(LIST_MARKER_RE, "");
+}
+
+/** Workspace-relative target for a write; only MEMORY.md and memory/*.md are writable. */
+export function resolveMemoryWritePath(raw?: string): string {
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return DEFAULT_MEMORY_WRITE_PATH;
+  }
+  const normalized = path.posix.normalize(trimmed.replaceAll("\\", "/")).replace(/^\.\//, "");
+  if (
+    path.posix.isAbsolute(normalized) ||
+    normalized.startsWith("../") ||
+    !normalized.endsWith(".md") ||
+    !isMemoryPath(normalized)
+  ) {
+    throw new Error(`memory writes must target MEMORY.md or memory/*.md (got "${trimmed}")`);
+  }
+  return normalized;
+}
+
+function isBlockStart(line: string): boolean {
+  return /^\s*#/.test(line) || FENCE_RE.test(line) || /^\s*(?:<!--|>|\|)/.test(line);
+}
+
+/** Split Markdown into fact entries; headings, fences, quotes and tables are skipped. */
+export function splitMemoryEntries(content: string): MemoryWriteEntry[] {
+  const lines = content.split("\n");
+  const entries: MemoryWriteEntry[] = [];
+  let current: { startLine: number; endLine: number; parts: string[]; list: boolean } | null = null;
+  let inFence = false;
+  const flush = () => {
+    if (current) {
+      entries.push({
+        startLine: current.startLine,
+        endLine: current.endLine,
+        text: current.parts.join(" "),
+      });
+      current = null;
+    }
+  };
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i] ?? "";
+    const lineNo = i + 1;
+    if (FENCE_RE.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) {
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    if (PROVENANCE_RE.test(line)) {
+      if (current) {
+        current.endLine = lineNo;
+      }
+      flush();
+      continue;
+    }
+    if (isBlockStart(line)) {
+      flush();
+      continue;
+    }
+    const isItem = LIST_ITEM_RE.test(line);
+    const continues = current !== null && !isItem && (/^\s+/.test(line) || !current.list);
+    if (current && continues) {
+      current.parts.push(line.replace(LIST_MARKER_RE, "").trim());
+      current.endLine = lineNo;
+      continue;
+    }
+    flush();
+    current = {
+      startLine: lineNo,
+      endLine: lineNo,
+      parts: [line.replace(LIST_MARKER_RE, "").trim()],
+      list: isItem,
+    };
+  }
+  flush();
+  return entries;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/** Dice coefficient over word tokens; used when no embedding provider is available. */
+export function memoryTextSimilarity(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) {
+      shared += 1;
+    }
+  }
+  return (2 * shared) / (left.size + right.size);
+}
+
+export function resolveMemoryWriteAction(
+  match: MemoryWriteMatch | null,
+  conflict: MemoryWriteParams["conflict"],
+): MemoryWriteAction {
+  if (!match) {
+    return "append";
+  }
+  const thresholds = SIMILARITY_THRESHOLDS[match.similarity];
+  if (match.score >= thresholds.duplicate) {
+    return "skip";
+  }
+  if (match.score >= thresholds.update) {
+    return conflict === "keep-both" ? "merge" : "update";
+  }
+  return match.score >= thresholds.merge ? "merge" : "append";
+}
+
+function sanitizeCommentValue(value: string): string {
+  return value.replace(/-{2,}/g, "-").replace(/"/g, "'").replace(/\s+/g, " ").trim();
+}
+
+/** HTML comment kept under each written entry so later readers know where it came from. */
+export function formatMemoryProvenance(params: {
+  action: MemoryWriteAction;
+  at: Date;
+  origin?: string;
+  sessionKey?: string;
+  replaced?: string;
+}): string {
+  const parts = [
+    `${params.action === "update" ? "updated" : "written"}=${params.at.toISOString()}`,
+  ];
+  if (params.origin) {
+    parts.push(`origin=${sanitizeCommentValue(params.origin)}`);
+  }
+  if (params.sessionKey) {
+    parts.push(`session=${sanitizeCommentValue(params.sessionKey)}`);
+  }
+  if (params.replaced) {
+    const preview = sanitizeCommentValue(params.replaced);
+    const clipped =
+      preview.length > REPLACED_PREVIEW_CHARS
+        ? `${preview.slice(0, REPLACED_PREVIEW_CHARS)}…`
+        : preview;
+    parts.push(`replaces="${clipped}"`);
+  }
+  return `<!-- memory: ${parts.join(" ")} -->`;
+}
+
+export function formatMemoryEntry(text: string, provenance: string): string[] {
+  const [first = "", ...rest] = text.split("\n");
+  return [`- ${first}`, ...rest.map((line) => (line ? `  ${line}` : "")), `  ${provenance}`];
+}
+
+/** Apply a planned write to file content; returns the new content and the entry's first line. */
+export function applyMemoryWrite(
+  content: string,
+  params: { action: "append" | "merge" | "update"; entry?: MemoryWriteEntry; lines: string[] },
+): { content: string; line: number } {
+  if (params.action !== "append" && params.entry) {
+    const lines = content.split("\n");
+    const { startLine, endLine } = params.entry;
+    if (params.action === "update") {
+      lines.splice(startLine - 1, endLine - startLine + 1, ...params.lines);
+      return { content: lines.join("\n"), line: startLine };
+    }
+    lines.splice(endLine, 0, ...params.lines);
+    return { content: lines.join("\n"), line: endLine + 1 };
+  }
+  const base = content.replace(/\s+$/, "");
+  if (!base) {
+    return { content: `${params.lines.join("\n")}\n`, line: 1 };
+  }
+  const baseLines = base.split("\n");
+  const last = baseLines[baseLines.length - 1] ?? "";
+  // Keep a trailing list contiguous; anything else gets a blank line before the new entry.
+  const joinList = LIST_ITEM_RE.test(last) || PROVENANCE_RE.test(last) || /^\s+\S/.test(last);
+  const separator = joinList ? [] : [""];
+  const next = [...baseLines, ...separator, ...params.lines];
+  return {
+    content: `${next.join("\n")}\n`,
+    line: baseLines.length + separator.length + 1,
+  };
+}
@@ -0,0 +1,120 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveAgentRoute } from "../routing/resolve-route.js";
+import { withEnvAsync } from "../test-utils/env.js";
+import {
+  confirmIdentityLinkCode,
+  createIdentityLinkCode,
+  linkIdentityIds,
+  listIdentityLinks,
+  removeIdentity,
+  resolveIdentityLinks,
+  unlinkIdentityId,
+} from "./identity-links.js";
+
+let fixtureRoot = "";
+let caseId = 0;
+
+beforeAll(async () => {
+  fixtureRoot = await fs.mkdtemp(path.join(os.tmpdir(), "openclaw-identity-links-"));
+});
+
+afterAll(async () => {
+  if (fixtureRoot) {
+    await fs.rm(fixtureRoot, { recursive: true, force: true });
+  }
+});
+
+async function withTempStateDir<T>(fn: () => Promise<T>) {
+  const dir = path.join(fixtureRoot, `case-${caseId++}`);
+  await fs.mkdir(dir, { recursive: true });
+  return await withEnvAsync({ OPENCLAW_STATE_DIR: dir }, fn);
+}
+
+describe("identity links", () => {
+  it("links two channels through a one-time code", async () => {
+    await withTempStateDir(async () => {
+      const { code } = await createIdentityLinkCode({ id: "telegram:111" });
+      expect(code).toMatch(/^[A-Z2-9]{8}$/);
+
+      await expect(confirmIdentityLinkCode({ code, id: "telegram:111" })).resolves.toEqual({
+        ok: false,
+        reason: "same-identity",
+      });
+      const result = await confirmIdentityLinkCode({
+        code: code.toLowerCase(),
+        id: "WhatsApp:+15551234567",
+      });
+      expect(result).toMatchObject({
+        ok: true,
+        identity: { canonical: "111", ids: ["telegram:111", "whatsapp:+15551234567"] },
+      });
+      // Codes are single-use.
+      await expect(confirmIdentityLinkCode({ code, id: "slack:u1" })).resolves.toEqual({
+        ok: false,
+        reason: "not-found",
+      });
+    });
+  });
+
+  it("expires codes after ten minutes", async () => {
+    await withTempStateDir(async () => {
+      vi.useFakeTimers({ now: new Date("2026-10-18T10:00:00Z"), toFake: ["Date"] });
+      try {
+        const { code } = await createIdentityLinkCode({ id: "telegram:111" });
+        vi.setSystemTime(new Date("2026-10-18T10:11:00Z"));
+        await expect(confirmIdentityLinkCode({ code, id: "slack:u1" })).resolves.toEqual({
+          ok: false,
+          reason: "not-found",
+        });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  it("moves ids between identities and drops empty ones", async () => {
+    await withTempStateDir(async () => {
+      await linkIdentityIds({ ids: ["telegram:111", "slack:u1"], canonical: "Alice" });
+      await linkIdentityIds({ ids: ["discord:222"], canonical: "bob" });
+      await linkIdentityIds({ ids: ["discord:222", "signal:+1555"] });
+      await linkIdentityIds({ ids: ["slack:u1"], canonical: "bob" });
+
+      expect((await listIdentityLinks()).map(({ canonical, ids }) => ({ canonical, ids }))).toEqual(
+        [
+          { canonical: "alice", ids: ["telegram:111"] },
+          { canonical: "bob", ids: ["discord:222", "signal:+1555", "slack:u1"] },
+        ],
+      );
+
+      await unlinkIdentityId({ id: "telegram:111" });
+      await expect(removeIdentity({ canonical: "bob" })).resolves.toBe(true);
+      await expect(listIdentityLinks()).resolves.toEqual([]);
+      await expect(linkIdentityIds({ ids: ["no-channel"] })).rejects.toThrow("<channel>:<id>");
+    });
+  });
+
+  it("feeds managed links into DM session keys", async () => {
+    await withTempStateDir(async () => {
+      const cfg: OpenClawConfig = {
+        session: { dmScope: "per-peer", identityLinks: { carol: ["slack:u9"] } },
+      };
+      const route = (channel: string, id: string) =>
+        resolveAgentRoute({ cfg, channel, peer: { kind: "direct", id } }).sessionKey;
+
+      expect(route("discord", "222")).toBe("agent:main:direct:222");
+      await linkIdentityIds({ ids: ["telegram:111", "discord:222"], canonical: "alice" });
+
+      expect(resolveIdentityLinks(cfg)).toEqual({
+        carol: ["slack:u9"],
+        alice: ["telegram:111", "discord:222"],
+      });
+      expect(route("discord", "222")).toBe("agent:main:direct:alice");
+      expect(route("telegram", "111")).toBe("agent:main:direct:alice");
+      expect(route("slack", "u9")).toBe("agent:main:direct:carol");
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { OpenClawConfig } from "../config/config.js";
+import { resolveOAuthDir, resolveStateDir } from "../config/paths.js";
+import { withFileLock as withPathLock } from "../infra/file-lock.js";
+import { resolveRequiredHomeDir } from "../infra/home-dir.js";
+import { readJsonFileWithFallback, writeJsonFileAtomically } from "../plugin-sdk/json-store.js";
+import { generatePairingCode } from "./pairing-code.js";
+
+const IDENTITY_LINK_CODE_TTL_MS = 10 * 60 * 1000;
+const IDENTITY_CANONICAL_RE = /^[a-z0-9][a-z0-9._+@-]{0,63}$/;
+const IDENTITY_STORE_LOCK_OPTIONS = {
+  retries: {
+    retries: 10,
+    factor: 2,
+    minTimeout: 100,
+    maxTimeout: 10_000,
+    randomize: true,
+  },
+  stale: 30_000,
+} as const;
+
+export type IdentityLinkRecord = {
+  /** Name used in place of the peer id when collapsing DM session keys. */
+  canonical: string;
+  /** Channel-prefixed ids ("telegram:123", "whatsapp:+15551234567"). */
+  ids: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type IdentityLinkCode = {
+  code: string;
+  /** Identity that requested the code. */
+  id: string;
+  createdAt: string;
+};
+
+type IdentityLinksStore = {
+  version: 1;
+  identities: IdentityLinkRecord[];
+  codes: IdentityLinkCode[];
+};
+
+export type ConfirmIdentityLinkResult =
+  | { ok: true; identity: IdentityLinkRecord; linkedId: string }
+  | { ok: false; reason: "not-found" | "same-identity" };
+
+const EMPTY_STORE: IdentityLinksStore = { version: 1, identities: [], codes: [] };
+
+function resolveIdentityLinksPath(env: NodeJS.ProcessEnv = process.env): string {
+  const stateDir = resolveStateDir(env, () => resolveRequiredHomeDir(env, os.homedir));
+  return path.join(resolveOAuthDir(env, stateDir), "identity-links.json");
+}
+
+/** Normalize a "<channel>:<id>" identity; returns "" when the channel prefix is missing. */
+export function normalizeIdentityId(raw: string): string {
+  const trimmed = raw.trim();
+  const sep = trimmed.indexOf(":");
+  if (sep <= 0 || sep === trimmed.length - 1) {
+    return "";
+  }
+  const channel = trimmed.slice(0, sep).trim().toLowerCase();
+  const id = trimmed
+    .slice(sep + 1)
+    .trim()
+    .toLowerCase();
+  return channel && id ? `${channel}:${id}` : "";
+}
+
+export function normalizeIdentityCanonical(raw: string): string {
+  const value = raw.trim().toLowerCase();
+  return IDENTITY_CANONICAL_RE.test(value) ? value : "";
+}
+
+/** Default canonical name for a new identity: the id without its channel prefix. */
+function deriveCanonical(id: string, taken: Set<string>): string {
+  const base =
+    normalizeIdentityCanonical(id.slice(id.indexOf(":") + 1).replace(/[^a-z0-9._+@-]/g, "-")) ||
+    "user";
+  let candidate = base;
+  for (let n = 2; taken.has(candidate); n += 1) {
+    candidate = `${base}-${n}`;
+  }
+  return candidate;
+}
+
+function sanitizeStore(value: Partial<IdentityLinksStore> | null | undefined): IdentityLinksStore {
+  const identities = Array.isArray(value?.identities)
+    ? value.identities.filter(
+        (entry): entry is IdentityLinkRecord =>
+          Boolean(entry) && typeof entry.canonical === "string" && Array.isArray(entry.ids),
+      )
+    : [];
+  const codes = Array.isArray(value?.codes)
+    ? value.codes.filter(
+        (entry): entry is IdentityLinkCode =>
+          Boolean(entry) && typeof entry.code === "string" && typeof entry.id === "string",
+      )
+    : [];
+  return { version: 1, identities, codes };
+}
+
+function pruneExpiredCodes(codes: IdentityLinkCode[], nowMs: number): IdentityLinkCode[] {
+  return codes.filter((entry) => {
+    const createdAt = Date.parse(entry.createdAt);
+    return Number.isFinite(createdAt) && nowMs - createdAt <= IDENTITY_LINK_CODE_TTL_MS;
+  });
+}
+
+async function readStore(filePath: string): Promise<IdentityLinksStore> {
+  const { value } = await readJsonFileWithFallback<Partial<IdentityLinksStore>>(
+    filePath,
+    EMPTY_STORE,
+  );
+  return sanitizeStore(value);
+}
+
+async function ensureStoreFile(filePath: string) {
+  try {
+    await fs.promises.access(filePath);
+  } catch {
+    await writeJsonFileAtomically(filePath, EMPTY_STORE);
+  }
+}
+
+async function updateStore<T>(
+  env: NodeJS.ProcessEnv,
+  fn: (store: IdentityLinksStore, now: Date) => { result: T; changed: boolean },
+): Promise<T> {
+  const filePath = resolveIdentityLinksPath(env);
+  await ensureStoreFile(filePath);
+  return await withPathLock(filePath, IDENTITY_STORE_LOCK_OPTIONS, async () => {
+    const now = new Date();
+    const store = await readStore(filePath);
+    const codes = pruneExpiredCodes(store.codes, now.getTime());
+    const pruned = codes.length !== store.codes.length;
+    store.codes = codes;
+    const { result, changed } = fn(store, now);
+    if (changed || pruned) {
+      await writeJsonFileAtomically(filePath, store);
+    }
+    return result;
+  });
+}
+
+/**
+ * Attach ids to an identity, moving them off any identity they belonged to.
+ * Identities left without ids are dropped.
+ */
+function attachIds(
+  store: IdentityLinksStore,
+  canonical: string,
+  ids: string[],
+  now: Date,
+): IdentityLinkRecord {
+  const stamp = now.toISOString();
+  for (const entry of store.identities) {
+    if (entry.canonical !== canonical) {
+      entry.ids = entry.ids.filter((id) => !ids.includes(id));
+    }
+  }
+  store.identities = store.identities.filter(
+    (entry) => entry.canonical === canonical || entry.ids.length > 0,
+  );
+  let record = store.identities.find((entry) => entry.canonical === canonical);
+  if (!record) {
+    record = { canonical, ids: [], createdAt: stamp, updatedAt: stamp };
+    store.identities.push(record);
+  }
+  record.ids = Array.from(new Set([...record.ids, ...ids]));
+  record.updatedAt = stamp;
+  return record;
+}
+
+function findIdentityById(store: IdentityLinksStore, id: string): IdentityLinkRecord | undefined {
+  return store.identities.find((entry) => entry.ids.includes(id));
+}
+
+export async function listIdentityLinks(
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<IdentityLinkRecord[]> {
+  const store = await readStore(resolveIdentityLinksPath(env));
+  return store.identities.toSorted((a, b) => a.canonical.localeCompare(b.canonical));
+}
+
+/**
+ * Link ids under one identity. Without a canonical name the identity of the
+ * first already-linked id is reused, else one is derived from the first id.
+ */
+export async function linkIdentityIds(params: {
+  ids: string[];
+  canonical?: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<IdentityLinkRecord> {
+  const ids = params.ids.map(normalizeIdentityId);
+  if (ids.length === 0 || ids.some((id) => !id)) {
+    throw new Error('Identity ids must look like "<channel>:<id>".');
+  }
+  const requested = params.canonical?.trim() ? normalizeIdentityCanonical(params.canonical) : "";
+  if (params.canonical?.trim() && !requested) {
+    throw new Error(`Invalid identity name "${params.canonical}". Use letters, digits, . _ + @ -.`);
+  }
+  return await updateStore(params.env ?? process.env, (store, now) => {
+    const canonical =
+      requested ||
+      ids.map((id) => findIdentityById(store, id)?.canonical).find(Boolean) ||
+      deriveCanonical(ids[0], new Set(store.identities.map((entry) => entry.canonical)));
+    return { result: structuredClone(attachIds(store, canonical, ids, now)), changed: true };
+  });
+}
+
+/** Remove one id from its identity. Returns the identity it was removed from. */
+export async function unlinkIdentityId(params: {
+  id: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<IdentityLinkRecord | null> {
+  const id = normalizeIdentityId(params.id);
+  if (!id) {
+    return null;
+  }
+  return await updateStore(params.env ?? process.env, (store, now) => {
+    const record = findIdentityById(store, id);
+    if (!record) {
+      return { result: null, changed: false };
+    }
+    record.ids = record.ids.filter((entry) => entry !== id);
+    record.updatedAt = now.toISOString();
+    store.identities = store.identities.filter((entry) => entry.ids.length > 0);
+    return { result: structuredClone(record), changed: true };
+  });
+}
+
+export async function removeIdentity(params: {
+  canonical: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<boolean> {
+  const canonical = params.canonical.trim().toLowerCase();
+  return await updateStore(params.env ?? process.env, (store) => {
+    const before = store.identities.length;
+    store.identities = store.identities.filter((entry) => entry.canonical !== canonical);
+    const removed = store.identities.length !== before;
+    return { result: removed, changed: removed };
+  });
+}
+
+/**
+ * Start a `/link` pairing: issue a one-time code for this identity that must be
+ * confirmed from another channel within ten minutes. Re-requesting replaces
+ * the previous code.
+ */
+export async function createIdentityLinkCode(params: {
+  id: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<{ code: string; expiresAt: string }> {
+  const id = normalizeIdentityId(params.id);
+  if (!id) {
+    throw new Error('Identity ids must look like "<channel>:<id>".');
+  }
+  return await updateStore(params.env ?? process.env, (store, now) => {
+    store.codes = store.codes.filter((entry) => entry.id !== id);
+    const code = generatePairingCode(new Set(store.codes.map((entry) => entry.code)));
+    store.codes.push({ code, id, createdAt: now.toISOString() });
+    const expiresAt = new Date(now.getTime() + IDENTITY_LINK_CODE_TTL_MS).toISOString();
+    return { result: { code, expiresAt }, changed: true };
+  });
+}
+
+/** Confirm a `/link` code from a second identity and link both under one identity. */
+export async function confirmIdentityLinkCode(params: {
+  code: string;
+  id: string;
+  env?: NodeJS.ProcessEnv;
+}): Promise<ConfirmIdentityLinkResult> {
+  const code = params.code.trim().toUpperCase();
+  const id = normalizeIdentityId(params.id);
+  if (!code || !id) {
+    return { ok: false, reason: "not-found" };
+  }
+  return await updateStore<ConfirmIdentityLinkResult>(params.env ?? process.env, (store, now) => {
+    const pending = store.codes.find((entry) => entry.code === code);
+    if (!pending) {
+      return { result: { ok: false, reason: "not-found" }, changed: false };
+    }
+    if (pending.id === id) {
+      return { result: { ok: false, reason: "same-identity" }, changed: false };
+    }
+    store.codes = store.codes.filter((entry) => entry !== pending);
+    // The requester keeps its identity (and session history); the confirming id joins it.
+    const canonical =
+      findIdentityById(store, pending.id)?.canonical ??
+      findIdentityById(store, id)?.canonical ??
+      deriveCanonical(pending.id, new Set(store.identities.map((entry) => entry.canonical)));
+    const record = attachIds(store, canonical, [pending.id, id], now);
+    return { result: { ok: true, identity: structuredClone(record), linkedId: id }, changed: true };
+  });
+}
+
+let syncCache: { filePath: string; stamp: string; links: Record<string, string[]> } | null = null;
+
+/** Managed identity links as a `session.identityLinks`-shaped map (cached per file version). */
+export function readIdentityLinksSync(
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string[]> {
+  const filePath = resolveIdentityLinksPath(env);
+  let stamp: string;
+  try {
+    // Writes are atomic renames, so the inode changes even within one mtime tick.
+    const stat = fs.statSync(filePath);
+    stamp = `${stat.ino}:${stat.mtimeMs}:${stat.size}`;
+  } catch {
+    return {};
+  }
+  if (syncCache && syncCache.filePath === filePath && syncCache.stamp === stamp) {
+    return syncCache.links;
+  }
+  let store: IdentityLinksStore;
+  try {
+    store = sanitizeStore(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  } catch {
+    store = EMPTY_STORE;
+  }
+  const links = Object.fromEntries(store.identities.map((entry) => [entry.canonical, entry.ids]));
+  syncCache = { filePath, stamp, links };
+  return links;
+}
+
+/**
+ * Identity links used for DM session-key collapsing: `session.identityLinks`
+ * from config merged with the managed store. Config entries come first, so a
+ * config mapping wins when the same id appears in both.
+ */
+export function resolveIdentityLinks(
+  cfg: OpenClawConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): Record<string, string[]> | undefined {
+  const configured = cfg.session?.identityLinks;
+  const managed = readIdentityLinksSync(env);
+  if (Object.keys(managed).length === 0) {
+    return configured;
+  }
+  const merged: Record<string, string[]> = { ...configured };
+  for (const [canonical, ids] of Object.entries(managed)) {
+    merged[canonical] = Array.from(new Set([...(merged[canonical] ?? []), ...ids]));
+  }
+  return merged;
+}
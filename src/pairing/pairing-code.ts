@@ -0,0 +1,24 @@
+import crypto from "node:crypto";
+
+const PAIRING_CODE_LENGTH = 8;
+const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function randomCode(): string {
+  // Human-friendly: 8 chars, upper, no ambiguous chars (0O1I).
+  let out = "";
+  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+    const idx = crypto.randomInt(0, PAIRING_CODE_ALPHABET.length);
+    out += PAIRING_CODE_ALPHABET[idx];
+  }
+  return out;
+}
+
+export function generatePairingCode(existing: Set<string>): string {
+  for (let attempt = 0; attempt < 500; attempt += 1) {
+    const code = randomCode();
+    if (!existing.has(code)) {
+      return code;
+    }
+  }
+  throw new Error("failed to generate unique pairing code");
+}
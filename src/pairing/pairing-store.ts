@@ -1,4 +1,3 @@
-import crypto from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
@@ -9,9 +8,8 @@ import { withFileLock as withPathLock } from "../infra/file-lock.js";
 import { resolveRequiredHomeDir } from "../infra/home-dir.js";
 import { readJsonFileWithFallback, writeJsonFileAtomically } from "../plugin-sdk/json-store.js";
 import { DEFAULT_ACCOUNT_ID } from "../routing/session-key.js";
+import { generatePairingCode } from "./pairing-code.js";
 
-const PAIRING_CODE_LENGTH = 8;
-const PAIRING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
 const PAIRING_PENDING_TTL_MS = 60 * 60 * 1000;
 const PAIRING_PENDING_MAX = 3;
 const PAIRING_STORE_LOCK_OPTIONS = {
@@ -184,26 +182,6 @@ function pruneExcessRequests(reqs: PairingRequest[], maxPending: number) {
   return { requests: sorted.slice(-maxPending), removed: true };
 }
 
-function randomCode(): string {
-  // Human-friendly: 8 chars, upper, no ambiguous chars (0O1I).
-  let out = "";
-  for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
-    const idx = crypto.randomInt(0, PAIRING_CODE_ALPHABET.length);
-    out += PAIRING_CODE_ALPHABET[idx];
-  }
-  return out;
-}
-
-function generateUniqueCode(existing: Set<string>): string {
-  for (let attempt = 0; attempt < 500; attempt += 1) {
-    const code = randomCode();
-    if (!existing.has(code)) {
-      return code;
-    }
-  }
-  throw new Error("failed to generate unique pairing code");
-}
-
 function normalizePairingAccountId(accountId?: string): string {
   return accountId?.trim().toLowerCase() || "";
 }
@@ -599,7 +577,7 @@ export async function upsertChannelPairingRequest(params: {
         const existing = reqs[existingIdx];
         const existingCode =
           existing && typeof existing.code === "string" ? existing.code.trim() : "";
-        const code = existingCode || generateUniqueCode(existingCodes);
+        const code = existingCode || generatePairingCode(existingCodes);
         const next: PairingRequest = {
           id,
           code,
@@ -630,7 +608,7 @@ export async function upsertChannelPairingRequest(params: {
         }
         return { code: "", created: false };
       }
-      const code = generateUniqueCode(existingCodes);
+      const code = generatePairingCode(existingCodes);
       const next: PairingRequest = {
         id,
         code,
@@ -100,6 +100,11 @@ export type {
   OpenClawPluginService,
   OpenClawPluginServiceContext,
   PluginLogger,
+  PluginSandboxRuntime,
+  PluginTtsProvider,
+  PluginTtsSynthesizeResult,
+  PluginWebSearchParams,
+  PluginWebSearchProvider,
   ProviderAuthContext,
   ProviderAuthResult,
 } from "../plugins/types.js";
@@ -0,0 +1,119 @@
+import { PLUGIN_HOOK_NAMES, type PluginHookName } from "./types.js";
+
+/**
+ * Registration capabilities a plugin declares in `openclaw.plugin.json`
+ * (`"capabilities": [...]`). Typed hooks are declared per hook
+ * (`"on:before_tool_call"`) or all at once (`"on:*"`).
+ */
+export type PluginCapability =
+  | "tool"
+  | "hook"
+  | "http"
+  | "channel"
+  | "provider"
+  | "gateway-method"
+  | "cli"
+  | "service"
+  | "command"
+  | "tts-provider"
+  | "web-search-provider"
+  | "sandbox-runtime"
+  | "on:*"
+  | `on:${PluginHookName}`;
+
+const PLUGIN_CAPABILITY_LABELS: Record<string, string> = {
+  tool: "register agent tools",
+  hook: "register internal event hooks",
+  http: "serve HTTP routes on the gateway",
+  channel: "register chat channels",
+  provider: "register model providers",
+  "gateway-method": "add gateway RPC methods",
+  cli: "add CLI commands",
+  service: "run background services",
+  command: "register chat commands",
+  "tts-provider": "replace text-to-speech",
+  "web-search-provider": "replace the web_search tool backend",
+  "sandbox-runtime": "replace the sandbox runtime",
+  "on:*": "observe and modify every agent/message lifecycle hook",
+};
+
+const PLUGIN_HOOK_NAME_SET: ReadonlySet<string> = new Set(PLUGIN_HOOK_NAMES);
+
+/**
+ * Capabilities that let a plugin expose network surface or rewrite what the
+ * agent sees, sends, or stores. Security audit flags plugins holding them.
+ */
+export const DANGEROUS_PLUGIN_CAPABILITIES: ReadonlySet<PluginCapability> =
+  new Set<PluginCapability>([
+    "http",
+    "gateway-method",
+    "sandbox-runtime",
+    "on:*",
+    "on:before_tool_call",
+    "on:before_message_write",
+    "on:message_sending",
+    "on:tool_result_persist",
+  ]);
+
+export function isPluginCapability(value: string): value is PluginCapability {
+  if (value in PLUGIN_CAPABILITY_LABELS) {
+    return true;
+  }
+  return value.startsWith("on:") && PLUGIN_HOOK_NAME_SET.has(value.slice(3));
+}
+
+/** Split a raw manifest list into known capabilities and unknown entries. */
+export function normalizePluginCapabilities(raw: unknown): {
+  capabilities: PluginCapability[];
+  unknown: string[];
+} {
+  const capabilities: PluginCapability[] = [];
+  const unknown: string[] = [];
+  if (!Array.isArray(raw)) {
+    return { capabilities, unknown };
+  }
+  for (const entry of raw) {
+    const value = typeof entry === "string" ? entry.trim() : "";
+    if (!value) {
+      continue;
+    }
+    if (!isPluginCapability(value)) {
+      unknown.push(value);
+    } else if (!capabilities.includes(value)) {
+      capabilities.push(value);
+    }
+  }
+  return { capabilities, unknown };
+}
+
+/**
+ * Whether `declared` grants `capability`. Plugins whose manifest has no
+ * `capabilities` list (undefined) predate the permission model and keep
+ * unrestricted access.
+ */
+export function hasPluginCapability(
+  declared: readonly PluginCapability[] | undefined,
+  capability: PluginCapability,
+): boolean {
+  if (!declared) {
+    return true;
+  }
+  if (declared.includes(capability)) {
+    return true;
+  }
+  return capability.startsWith("on:") && declared.includes("on:*");
+}
+
+export function listDangerousPluginCapabilities(
+  declared: readonly PluginCapability[],
+): PluginCapability[] {
+  return declared.filter((capability) => DANGEROUS_PLUGIN_CAPABILITIES.has(capability));
+}
+
+export function describePluginCapability(capability: PluginCapability): string {
+  const label = PLUGIN_CAPABILITY_LABELS[capability];
+  if (label) {
+    return label;
+  }
+  return `run the ${capability.slice(3)} hook`;
+}
@@ -1,7 +1,8 @@
 import { normalizeChatChannelId } from "../channels/registry.js";
 import type { OpenClawConfig } from "../config/config.js";
 import type { PluginRecord } from "./registry.js";
-import { defaultSlotIdForKey } from "./slots.js";
+import { builtinSlotLabel, defaultSlotIdForKey, slotKeyForPluginKind } from "./slots.js";
+import type { PluginKind } from "./types.js";
 
 export type NormalizedPluginsConfig = {
   enabled: boolean;
@@ -10,6 +11,9 @@ export type NormalizedPluginsConfig = {
   loadPaths: string[];
   slots: {
     memory?: string | null;
+    tts?: string | null;
+    webSearch?: string | null;
+    sandbox?: string | null;
   };
   entries: Record<string, { enabled?: boolean; config?: unknown }>;
 };
@@ -74,6 +78,9 @@ export const normalizePluginsConfig = (
     loadPaths: normalizeList(config?.load?.paths),
     slots: {
       memory: memorySlot === undefined ? defaultSlotIdForKey("memory") : memorySlot,
+      tts: normalizeSlotValue(config?.slots?.tts),
+      webSearch: normalizeSlotValue(config?.slots?.webSearch),
+      sandbox: normalizeSlotValue(config?.slots?.sandbox),
     },
     entries: normalizePluginEntries(config?.entries),
   };
@@ -176,7 +183,7 @@ export function resolveEnableState(
   if (config.allow.length > 0 && !config.allow.includes(id)) {
     return { enabled: false, reason: "not in allowlist" };
   }
-  if (config.slots.memory === id) {
+  if (Object.values(config.slots).includes(id)) {
     return { enabled: true };
   }
   const entry = config.entries[id];
@@ -260,3 +267,33 @@ export function resolveMemorySlotDecision(params: {
   }
   return { enabled: true, selected: true };
 }
+
+/**
+ * Slot decision for the non-memory exclusive kinds (tts, web-search, sandbox).
+ * Unlike memory these slots have no default plugin: a plugin only loads when
+ * the slot names it, otherwise the built-in implementation stays in charge.
+ */
+export function resolveExclusiveSlotDecision(params: {
+  id: string;
+  kind?: PluginKind;
+  slots: NormalizedPluginsConfig["slots"];
+}): { enabled: boolean; reason?: string; selected?: boolean } {
+  const slotKey = slotKeyForPluginKind(params.kind);
+  if (!slotKey || slotKey === "memory") {
+    return { enabled: true };
+  }
+  const slot = params.slots[slotKey];
+  if (slot === params.id) {
+    return { enabled: true, selected: true };
+  }
+  if (typeof slot === "string") {
+    return { enabled: false, reason: `${slotKey} slot set to "${slot}"` };
+  }
+  if (slot === null) {
+    return { enabled: false, reason: `${slotKey} slot disabled` };
+  }
+  return {
+    enabled: false,
+    reason: `${slotKey} slot not assigned (${builtinSlotLabel(slotKey)} in use)`,
+  };
+}
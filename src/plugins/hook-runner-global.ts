@@ -7,6 +7,7 @@
 
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { createHookRunner, type HookRunner } from "./hooks.js";
+import { createPluginLoaderLogger } from "./logger.js";
 import type { PluginRegistry } from "./registry.js";
 import type { PluginHookGatewayContext, PluginHookGatewayStopEvent } from "./types.js";
 
@@ -22,11 +23,7 @@ let globalRegistry: PluginRegistry | null = null;
 export function initializeGlobalHookRunner(registry: PluginRegistry): void {
   globalRegistry = registry;
   globalHookRunner = createHookRunner(registry, {
-    logger: {
-      debug: (msg) => log.debug(msg),
-      warn: (msg) => log.warn(msg),
-      error: (msg) => log.error(msg),
-    },
+    logger: createPluginLoaderLogger(log),
     catchErrors: true,
   });
 
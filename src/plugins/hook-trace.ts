@@ -0,0 +1,259 @@
+/**
+ * Plugin Hook Tracing
+ *
+ * Per-handler latency counters for typed plugin hooks, plus an opt-in ring
+ * buffer that records what each handler changed. Latency counters are always
+ * kept; trace entries (and their diffs) are only built while tracing is on.
+ */
+
+import type { PluginHookTraceConfig } from "../config/types.plugins.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import type { PluginHookName } from "./types.js";
+
+export type PluginHookTraceMode = "parallel" | "sequential" | "sync";
+
+export type PluginHookTraceOutcome = "ok" | "error" | "ignored";
+
+export type PluginHookTraceChange = {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type PluginHookTraceEntry = {
+  seq: number;
+  ts: number;
+  hookName: PluginHookName;
+  pluginId: string;
+  priority: number;
+  mode: PluginHookTraceMode;
+  durationMs: number;
+  outcome: PluginHookTraceOutcome;
+  error?: string;
+  changes: PluginHookTraceChange[];
+};
+
+export type PluginHookLatencyStats = {
+  hookName: PluginHookName;
+  pluginId: string;
+  calls: number;
+  errors: number;
+  slow: number;
+  totalMs: number;
+  maxMs: number;
+  lastMs: number;
+};
+
+export type PluginHookTraceSettings = {
+  enabled: boolean;
+  slowMs: number;
+  maxEntries: number;
+};
+
+const DEFAULT_SLOW_MS = 1000;
+const DEFAULT_MAX_ENTRIES = 200;
+const MAX_CHANGES_PER_ENTRY = 20;
+const MAX_DIFF_DEPTH = 6;
+const MAX_PREVIEW_CHARS = 200;
+
+let settings: PluginHookTraceSettings = {
+  enabled: false,
+  slowMs: DEFAULT_SLOW_MS,
+  maxEntries: DEFAULT_MAX_ENTRIES,
+};
+let entries: PluginHookTraceEntry[] = [];
+let nextSeq = 1;
+const stats = new Map<string, PluginHookLatencyStats>();
+
+function normalizeCount(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? Math.floor(value)
+    : fallback;
+}
+
+/** Apply `plugins.hookTrace`; called on plugin load and config hot reload. */
+export function configurePluginHookTrace(config?: PluginHookTraceConfig) {
+  settings = {
+    enabled: config?.enabled === true,
+    slowMs: normalizeCount(config?.slowMs, DEFAULT_SLOW_MS),
+    maxEntries: Math.max(1, normalizeCount(config?.maxEntries, DEFAULT_MAX_ENTRIES)),
+  };
+  trimEntries();
+}
+
+/** Runtime toggle (`/debug hooks on|off`, `plugins.hooks.trace`); not persisted. */
+export function setPluginHookTraceEnabled(enabled: boolean) {
+  settings = { ...settings, enabled };
+}
+
+export function getPluginHookTraceSettings(): PluginHookTraceSettings {
+  return { ...settings };
+}
+
+export function clearPluginHookTrace() {
+  entries = [];
+  stats.clear();
+}
+
+function trimEntries() {
+  if (entries.length > settings.maxEntries) {
+    entries = entries.slice(entries.length - settings.maxEntries);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringifyForDiff(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Trace entries keep primitives; strings and objects become (truncated) text. */
+function previewValue(value: unknown): unknown {
+  if (typeof value !== "string" && (typeof value !== "object" || value === null)) {
+    return value;
+  }
+  const text = typeof value === "string" ? value : stringifyForDiff(value);
+  if (text.length > MAX_PREVIEW_CHARS) {
+    return `${text.slice(0, MAX_PREVIEW_CHARS)}… (${text.length} chars)`;
+  }
+  return typeof value === "string" ? value : text;
+}
+
+function collectChanges(
+  before: unknown,
+  after: unknown,
+  path: string,
+  depth: number,
+  out: PluginHookTraceChange[],
+) {
+  if (out.length >= MAX_CHANGES_PER_ENTRY || before === after) {
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after) && depth < MAX_DIFF_DEPTH) {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, depth + 1, out);
+    }
+    return;
+  }
+  if (stringifyForDiff(before) === stringifyForDiff(after)) {
+    return;
+  }
+  out.push({ path: path || "<root>", before: previewValue(before), after: previewValue(after) });
+}
+
+/** Field-level diff between two hook payloads (values are truncated previews). */
+export function diffPluginHookValues(
+  before: unknown,
+  after: unknown,
+  path = "",
+): PluginHookTraceChange[] {
+  const out: PluginHookTraceChange[] = [];
+  collectChanges(before, after, path, 0, out);
+  return out;
+}
+
+/**
+ * What a modifying hook's result would change: every field the handler
+ * returned, compared with the same field on the event (absent → added).
+ */
+export function diffPluginHookResult(event: unknown, result: unknown): PluginHookTraceChange[] {
+  if (!isPlainObject(result)) {
+    return [];
+  }
+  const source = isPlainObject(event) ? event : {};
+  const out: PluginHookTraceChange[] = [];
+  for (const [key, value] of Object.entries(result)) {
+    if (value !== undefined) {
+      collectChanges(source[key], value, key, 1, out);
+    }
+  }
+  return out;
+}
+
+/**
+ * Record one handler call. Counters are always updated; the trace entry (and
+ * the `changes` diff, computed lazily) only while tracing is enabled.
+ * Returns true when the call crossed the slow-hook threshold.
+ */
+export function recordPluginHookCall(params: {
+  hookName: PluginHookName;
+  pluginId: string;
+  priority?: number;
+  mode: PluginHookTraceMode;
+  durationMs: number;
+  outcome: PluginHookTraceOutcome;
+  error?: unknown;
+  changes?: () => PluginHookTraceChange[];
+}): boolean {
+  const slow = settings.slowMs > 0 && params.durationMs >= settings.slowMs;
+  const key = `${params.hookName}:${params.pluginId}`;
+  const current = stats.get(key) ?? {
+    hookName: params.hookName,
+    pluginId: params.pluginId,
+    calls: 0,
+    errors: 0,
+    slow: 0,
+    totalMs: 0,
+    maxMs: 0,
+    lastMs: 0,
+  };
+  current.calls += 1;
+  current.errors += params.outcome === "error" ? 1 : 0;
+  current.slow += slow ? 1 : 0;
+  current.totalMs += params.durationMs;
+  current.maxMs = Math.max(current.maxMs, params.durationMs);
+  current.lastMs = params.durationMs;
+  stats.set(key, current);
+
+  if (!settings.enabled) {
+    return slow;
+  }
+  let changes: PluginHookTraceChange[] = [];
+  try {
+    changes = params.changes?.() ?? [];
+  } catch {
+    // Diffing is best effort; never let tracing break a hook run.
+  }
+  entries.push({
+    seq: nextSeq++,
+    ts: Date.now(),
+    hookName: params.hookName,
+    pluginId: params.pluginId,
+    priority: params.priority ?? 0,
+    mode: params.mode,
+    durationMs: params.durationMs,
+    outcome: params.outcome,
+    ...(params.error !== undefined ? { error: formatErrorMessage(params.error) } : {}),
+    changes,
+  });
+  trimEntries();
+  return slow;
+}
+
+/** Most recent trace entries, oldest first. */
+export function listPluginHookTrace(filter?: {
+  limit?: number;
+  hookName?: string;
+  pluginId?: string;
+}): PluginHookTraceEntry[] {
+  const matching = entries.filter(
+    (entry) =>
+      (!filter?.hookName || entry.hookName === filter.hookName) &&
+      (!filter?.pluginId || entry.pluginId === filter.pluginId),
+  );
+  const limit = normalizeCount(filter?.limit, matching.length);
+  return limit >= matching.length ? matching : matching.slice(matching.length - limit);
+}
+
+/** Latency counters per hook and plugin, slowest total first. */
+export function listPluginHookLatencyStats(): PluginHookLatencyStats[] {
+  return [...stats.values()]
+    .map((entry) => ({ ...entry }))
+    .toSorted((a, b) => b.totalMs - a.totalMs);
+}
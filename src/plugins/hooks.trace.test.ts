@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clearPluginHookTrace,
+  configurePluginHookTrace,
+  diffPluginHookValues,
+  listPluginHookLatencyStats,
+  listPluginHookTrace,
+} from "./hook-trace.js";
+import { createHookRunner } from "./hooks.js";
+import { createEmptyPluginRegistry, type PluginRegistry } from "./registry.js";
+import type { PluginHookRegistration } from "./types.js";
+
+function addTypedHook(
+  registry: PluginRegistry,
+  hookName: PluginHookRegistration["hookName"],
+  pluginId: string,
+  handler: (...args: unknown[]) => unknown,
+  priority?: number,
+) {
+  registry.typedHooks.push({
+    pluginId,
+    hookName,
+    handler,
+    priority,
+    source: "test",
+  } as PluginHookRegistration);
+}
+
+describe("hook tracing", () => {
+  let registry: PluginRegistry;
+
+  beforeEach(() => {
+    registry = createEmptyPluginRegistry();
+    clearPluginHookTrace();
+  });
+
+  afterEach(() => {
+    configurePluginHookTrace(undefined);
+    clearPluginHookTrace();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps latency counters but no entries while tracing is off", async () => {
+    configurePluginHookTrace({ enabled: false });
+    addTypedHook(registry, "message_sent", "audit", () => undefined);
+
+    const runner = createHookRunner(registry);
+    await runner.runMessageSent({ to: "u1", content: "hi", success: true }, { channelId: "test" });
+
+    expect(listPluginHookTrace()).toEqual([]);
+    expect(listPluginHookLatencyStats()).toEqual([
+      expect.objectContaining({ hookName: "message_sent", pluginId: "audit", calls: 1 }),
+    ]);
+  });
+
+  it("records priority, outcome and a diff of what each handler changed", async () => {
+    configurePluginHookTrace({ enabled: true });
+    addTypedHook(
+      registry,
+      "before_tool_call",
+      "guard",
+      () => ({ params: { command: "ls -la" } }),
+      5,
+    );
+    addTypedHook(
+      registry,
+      "before_tool_call",
+      "broken",
+      () => {
+        throw new Error("boom");
+      },
+      1,
+    );
+
+    const runner = createHookRunner(registry, { catchErrors: true });
+    await runner.runBeforeToolCall(
+      { toolName: "exec", params: { command: "ls" } },
+      { toolName: "exec" },
+    );
+
+    const entries = listPluginHookTrace({ hookName: "before_tool_call" });
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      pluginId: "guard",
+      priority: 5,
+      mode: "sequential",
+      outcome: "ok",
+      changes: [{ path: "params.command", before: "ls", after: "ls -la" }],
+    });
+    expect(entries[1]).toMatchObject({
+      pluginId: "broken",
+      outcome: "error",
+      error: "boom",
+      changes: [],
+    });
+    expect(listPluginHookTrace({ pluginId: "guard" })).toHaveLength(1);
+    expect(listPluginHookLatencyStats().find((entry) => entry.pluginId === "broken")?.errors).toBe(
+      1,
+    );
+  });
+
+  it("warns through the plugin logger when a handler crosses the slow threshold", async () => {
+    configurePluginHookTrace({ slowMs: 5 });
+    const clock = vi.spyOn(performance, "now");
+    clock.mockReturnValueOnce(100).mockReturnValueOnce(140);
+    addTypedHook(registry, "message_sent", "slowpoke", () => undefined);
+    const warn = vi.fn();
+
+    const runner = createHookRunner(registry, { logger: { warn, error: vi.fn() } });
+    await runner.runMessageSent({ to: "u1", content: "hi", success: true }, { channelId: "test" });
+
+    expect(warn).toHaveBeenCalledWith(
+      "[hooks] slow message_sent handler from slowpoke: 40ms (threshold 5ms)",
+    );
+    expect(listPluginHookLatencyStats()[0]).toMatchObject({ slow: 1, maxMs: 40 });
+  });
+
+  it("truncates long values in diffs", () => {
+    const long = "x".repeat(500);
+    const [change] = diffPluginHookValues({ text: "a" }, { text: long });
+    expect(change?.path).toBe("text");
+    expect(String(change?.after)).toMatch(/… \(500 chars\)$/);
+  });
+});
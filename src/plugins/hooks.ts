@@ -5,6 +5,15 @@
  * error handling, priority ordering, and async support.
  */
 
+import {
+  diffPluginHookResult,
+  diffPluginHookValues,
+  getPluginHookTraceSettings,
+  recordPluginHookCall,
+  type PluginHookTraceChange,
+  type PluginHookTraceMode,
+  type PluginHookTraceOutcome,
+} from "./hook-trace.js";
 import type { PluginRegistry } from "./registry.js";
 import type {
   PluginHookAfterCompactionEvent,
@@ -187,6 +196,34 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     throw new Error(msg, { cause: params.error });
   };
 
+  /** Feed latency counters/trace and warn about slow handlers. */
+  const observeHookCall = (params: {
+    hookName: PluginHookName;
+    hook: { pluginId: string; priority?: number };
+    mode: PluginHookTraceMode;
+    startedAt: number;
+    outcome: PluginHookTraceOutcome;
+    error?: unknown;
+    changes?: () => PluginHookTraceChange[];
+  }) => {
+    const durationMs = Math.round((performance.now() - params.startedAt) * 100) / 100;
+    const slow = recordPluginHookCall({
+      hookName: params.hookName,
+      pluginId: params.hook.pluginId,
+      priority: params.hook.priority,
+      mode: params.mode,
+      durationMs,
+      outcome: params.outcome,
+      error: params.error,
+      changes: params.changes,
+    });
+    if (slow) {
+      logger?.warn(
+        `[hooks] slow ${params.hookName} handler from ${params.hook.pluginId}: ${Math.round(durationMs)}ms (threshold ${getPluginHookTraceSettings().slowMs}ms)`,
+      );
+    }
+  };
+
   /**
    * Run a hook that doesn't return a value (fire-and-forget style).
    * All handlers are executed in parallel for performance.
@@ -204,9 +241,19 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     logger?.debug?.(`[hooks] running ${hookName} (${hooks.length} handlers)`);
 
     const promises = hooks.map(async (hook) => {
+      const startedAt = performance.now();
       try {
         await (hook.handler as (event: unknown, ctx: unknown) => Promise<void>)(event, ctx);
+        observeHookCall({ hookName, hook, mode: "parallel", startedAt, outcome: "ok" });
       } catch (err) {
+        observeHookCall({
+          hookName,
+          hook,
+          mode: "parallel",
+          startedAt,
+          outcome: "error",
+          error: err,
+        });
         handleHookError({ hookName, pluginId: hook.pluginId, error: err });
       }
     });
@@ -234,10 +281,19 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let result: TResult | undefined;
 
     for (const hook of hooks) {
+      const startedAt = performance.now();
       try {
         const handlerResult = await (
           hook.handler as (event: unknown, ctx: unknown) => Promise<TResult>
         )(event, ctx);
+        observeHookCall({
+          hookName,
+          hook,
+          mode: "sequential",
+          startedAt,
+          outcome: "ok",
+          changes: () => diffPluginHookResult(event, handlerResult),
+        });
 
         if (handlerResult !== undefined && handlerResult !== null) {
           if (mergeResults && result !== undefined) {
@@ -247,6 +303,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
           }
         }
       } catch (err) {
+        observeHookCall({
+          hookName,
+          hook,
+          mode: "sequential",
+          startedAt,
+          outcome: "error",
+          error: err,
+        });
         handleHookError({ hookName, pluginId: hook.pluginId, error: err });
       }
     }
@@ -475,6 +539,8 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let current = event.message;
 
     for (const hook of hooks) {
+      const startedAt = performance.now();
+      const before = current;
       try {
         // oxlint-disable-next-line typescript/no-explicit-any
         const out = (hook.handler as any)({ ...event, message: current }, ctx) as
@@ -485,6 +551,13 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
         // Guard against accidental async handlers (this hook is sync-only).
         // oxlint-disable-next-line typescript/no-explicit-any
         if (out && typeof (out as any).then === "function") {
+          observeHookCall({
+            hookName: "tool_result_persist",
+            hook,
+            mode: "sync",
+            startedAt,
+            outcome: "ignored",
+          });
           const msg =
             `[hooks] tool_result_persist handler from ${hook.pluginId} returned a Promise; ` +
             `this hook is synchronous and the result was ignored.`;
@@ -496,10 +569,26 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
         }
 
         const next = (out as PluginHookToolResultPersistResult | undefined)?.message;
+        observeHookCall({
+          hookName: "tool_result_persist",
+          hook,
+          mode: "sync",
+          startedAt,
+          outcome: "ok",
+          changes: () => (next ? diffPluginHookValues(before, next, "message") : []),
+        });
         if (next) {
           current = next;
         }
       } catch (err) {
+        observeHookCall({
+          hookName: "tool_result_persist",
+          hook,
+          mode: "sync",
+          startedAt,
+          outcome: "error",
+          error: err,
+        });
         const msg = `[hooks] tool_result_persist handler from ${hook.pluginId} failed: ${String(err)}`;
         if (catchErrors) {
           logger?.error(msg);
@@ -540,6 +629,8 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
     let current = event.message;
 
     for (const hook of hooks) {
+      const startedAt = performance.now();
+      const before = current;
       try {
         // oxlint-disable-next-line typescript/no-explicit-any
         const out = (hook.handler as any)({ ...event, message: current }, ctx) as
@@ -550,6 +641,13 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
         // Guard against accidental async handlers (this hook is sync-only).
         // oxlint-disable-next-line typescript/no-explicit-any
         if (out && typeof (out as any).then === "function") {
+          observeHookCall({
+            hookName: "before_message_write",
+            hook,
+            mode: "sync",
+            startedAt,
+            outcome: "ignored",
+          });
           const msg =
             `[hooks] before_message_write handler from ${hook.pluginId} returned a Promise; ` +
             `this hook is synchronous and the result was ignored.`;
@@ -561,6 +659,17 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
         }
 
         const result = out as PluginHookBeforeMessageWriteResult | undefined;
+        observeHookCall({
+          hookName: "before_message_write",
+          hook,
+          mode: "sync",
+          startedAt,
+          outcome: "ok",
+          changes: () => [
+            ...(result?.block ? [{ path: "block", after: true }] : []),
+            ...(result?.message ? diffPluginHookValues(before, result.message, "message") : []),
+          ],
+        });
 
         // If any handler blocks, return immediately.
         if (result?.block) {
@@ -572,6 +681,14 @@ export function createHookRunner(registry: PluginRegistry, options: HookRunnerOp
           current = result.message;
         }
       } catch (err) {
+        observeHookCall({
+          hookName: "before_message_write",
+          hook,
+          mode: "sync",
+          startedAt,
+          outcome: "error",
+          error: err,
+        });
         const msg = `[hooks] before_message_write handler from ${hook.pluginId} failed: ${String(err)}`;
         if (catchErrors) {
           logger?.error(msg);
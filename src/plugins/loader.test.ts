@@ -4,7 +4,9 @@ import os from "node:os";
 import path from "node:path";
 import { afterAll, afterEach, describe, expect, it } from "vitest";
 import { withEnv } from "../test-utils/env.js";
-import { __testing, loadOpenClawPlugins } from "./loader.js";
+import { getPluginCommandSpecs } from "./commands.js";
+import { __testing, loadOpenClawPlugins, reloadOpenClawPlugin } from "./loader.js";
+import { startPluginServices } from "./services.js";
 
 type TempPlugin = { dir: string; file: string; id: string };
 
@@ -44,6 +46,7 @@ function writePlugin(params: {
   body: string;
   dir?: string;
   filename?: string;
+  capabilities?: string[];
 }): TempPlugin {
   const dir = params.dir ?? makeTempDir();
   const filename = params.filename ?? `${params.id}.js`;
@@ -55,6 +58,7 @@ function writePlugin(params: {
       {
         id: params.id,
         configSchema: EMPTY_PLUGIN_SCHEMA,
+        ...(params.capabilities ? { capabilities: params.capabilities } : {}),
       },
       null,
       2,
@@ -536,6 +540,197 @@ describe("loadOpenClawPlugins", () => {
     expect(entry?.status).toBe("disabled");
   });
 
+  it("loads only the plugin holding the tts slot and registers its provider", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const ttsBody = (id: string) =>
+      `export default { id: "${id}", kind: "tts", register(api) {
+  api.registerTtsProvider({ id: "${id}", synthesize: async () => ({ audio: Buffer.from(""), extension: ".mp3" }) });
+} };`;
+    const ttsA = writePlugin({ id: "tts-a", body: ttsBody("tts-a") });
+    const ttsB = writePlugin({ id: "tts-b", body: ttsBody("tts-b") });
+    const sandbox = writePlugin({
+      id: "sandbox-x",
+      body: `export default { id: "sandbox-x", kind: "sandbox", register() {} };`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: {
+        plugins: {
+          load: { paths: [ttsA.file, ttsB.file, sandbox.file] },
+          slots: { tts: "tts-b", webSearch: "missing-search" },
+        },
+      },
+    });
+
+    expect(registry.plugins.find((entry) => entry.id === "tts-b")?.status).toBe("loaded");
+    const a = registry.plugins.find((entry) => entry.id === "tts-a");
+    expect(a?.status).toBe("disabled");
+    expect(a?.error).toBe('tts slot set to "tts-b"');
+    expect(registry.plugins.find((entry) => entry.id === "sandbox-x")?.error).toBe(
+      "sandbox slot not assigned (built-in Docker sandbox in use)",
+    );
+    expect(registry.slotProviders.map((entry) => [entry.slot, entry.pluginId])).toEqual([
+      ["tts", "tts-b"],
+    ]);
+    expect(registry.diagnostics.map((diag) => diag.message)).toContain(
+      "webSearch slot plugin not found or not marked as web-search: missing-search",
+    );
+  });
+
+  it("rejects slot providers from plugins that do not claim the slot", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const plugin = writePlugin({
+      id: "sneaky-search",
+      body: `export default { id: "sneaky-search", register(api) {
+  api.registerWebSearchProvider({ id: "sneaky", search: async () => ({}) });
+} };`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: { plugins: { load: { paths: [plugin.file] } } },
+    });
+
+    expect(registry.slotProviders).toEqual([]);
+    expect(registry.diagnostics.map((diag) => diag.message)).toContain(
+      'web search provider registration requires the plugin to claim the "webSearch" slot (kind)',
+    );
+  });
+
+  it("warns when a non-bundled manifest omits capabilities", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const plugin = writePlugin({
+      id: "legacy",
+      body: `export default { id: "legacy", register(api) {
+  api.registerGatewayMethod("legacy.ping", () => {});
+} };`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: { plugins: { load: { paths: [plugin.file] }, allow: ["legacy"] } },
+    });
+
+    expect(Object.keys(registry.gatewayHandlers)).toContain("legacy.ping");
+    expect(
+      registry.diagnostics.find((diag) => diag.pluginId === "legacy" && diag.level === "warn")
+        ?.message,
+    ).toContain("declares no capabilities");
+  });
+
+  it("refuses registrations outside the manifest capabilities", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const plugin = writePlugin({
+      id: "scoped",
+      capabilities: ["tool", "on:message_received", "teleport"],
+      body: `export default { id: "scoped", register(api) {
+  api.registerTool({ name: "scoped_tool", description: "t", parameters: {}, execute: async () => ({}) });
+  api.registerGatewayMethod("scoped.secret", () => {});
+  api.on("message_received", () => {});
+  api.on("before_message_write", () => {});
+} };`,
+    });
+
+    const registry = loadOpenClawPlugins({
+      cache: false,
+      config: { plugins: { load: { paths: [plugin.file] }, allow: ["scoped"] } },
+    });
+
+    const record = registry.plugins.find((entry) => entry.id === "scoped");
+    expect(record?.status).toBe("loaded");
+    expect(record?.capabilities).toEqual(["tool", "on:message_received"]);
+    expect(record?.toolNames).toEqual(["scoped_tool"]);
+    expect(Object.keys(registry.gatewayHandlers)).not.toContain("scoped.secret");
+    expect(registry.typedHooks.map((hook) => hook.hookName)).toEqual(["message_received"]);
+    const messages = registry.diagnostics.map((diag) => diag.message);
+    expect(messages).toContain(
+      'registration refused: capability "gateway-method" is not declared in the plugin manifest',
+    );
+    expect(messages).toContain(
+      'registration refused: capability "on:before_message_write" is not declared in the plugin manifest',
+    );
+    expect(messages).toContain("unknown plugin capabilities ignored: teleport");
+  });
+
+  it("reloads one plugin from disk and stops the previous instance's services", async () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const pluginBody = (version: string) => `export default { id: "hot", register(api) {
+  api.registerTool({ name: "hot_${version}", description: "t", parameters: {}, execute: async () => ({}) });
+  api.registerGatewayMethod("hot.${version}", () => {});
+  api.registerService({
+    id: "hot-service",
+    start: () => { globalThis.__hotReloadEvents.push("start ${version}"); },
+    stop: () => { globalThis.__hotReloadEvents.push("stop ${version}"); },
+  });
+} };`;
+    const plugin = writePlugin({ id: "hot", body: pluginBody("v1") });
+    const other = writePlugin({
+      id: "steady",
+      body: `export default { id: "steady", register(api) {
+  api.registerGatewayMethod("steady.ping", () => {});
+} };`,
+    });
+    const config = {
+      plugins: { load: { paths: [plugin.file, other.file] }, allow: ["hot", "steady"] },
+    };
+    const events: string[] = [];
+    (globalThis as { __hotReloadEvents?: string[] }).__hotReloadEvents = events;
+
+    try {
+      const registry = loadOpenClawPlugins({ cache: false, config });
+      const services = await startPluginServices({ registry, config });
+      const order = registry.plugins.map((entry) => entry.id);
+
+      fs.writeFileSync(plugin.file, pluginBody("v2"), "utf-8");
+      await services.stopPlugin("hot");
+      const { record, removed } = reloadOpenClawPlugin({ registry, pluginId: "hot", config });
+      await services.startPlugin("hot");
+
+      expect(events).toEqual(["start v1", "stop v1", "start v2"]);
+      expect(removed.gatewayMethods).toEqual(["hot.v1"]);
+      expect(record.status).toBe("loaded");
+      expect(record.toolNames).toEqual(["hot_v2"]);
+      expect(registry.plugins.map((entry) => entry.id)).toEqual(order);
+      expect(registry.tools.flatMap((entry) => entry.names)).toEqual(["hot_v2"]);
+      expect(Object.keys(registry.gatewayHandlers).toSorted()).toEqual(["hot.v2", "steady.ping"]);
+      expect(registry.services.map((entry) => entry.pluginId)).toEqual(["hot"]);
+      expect(() => reloadOpenClawPlugin({ registry, pluginId: "missing", config })).toThrow(
+        "plugin not found: missing",
+      );
+    } finally {
+      delete (globalThis as { __hotReloadEvents?: string[] }).__hotReloadEvents;
+    }
+  });
+
+  it("keeps the previous instance registered when a reload fails", () => {
+    process.env.OPENCLAW_BUNDLED_PLUGINS_DIR = "/nonexistent/bundled/plugins";
+    const plugin = writePlugin({
+      id: "fragile",
+      body: `export default { id: "fragile", register(api) {
+  api.registerTool({ name: "fragile_tool", description: "t", parameters: {}, execute: async () => ({}) });
+  api.registerGatewayMethod("fragile.ping", () => {});
+  api.registerCommand({ name: "fragile", description: "f", handler: () => ({ text: "ok" }) });
+} };`,
+    });
+    const config = { plugins: { load: { paths: [plugin.file] }, allow: ["fragile"] } };
+    const registry = loadOpenClawPlugins({ cache: false, config });
+
+    fs.writeFileSync(
+      plugin.file,
+      `export default { id: "fragile", register() { throw new Error("boom"); } };`,
+      "utf-8",
+    );
+    expect(() => reloadOpenClawPlugin({ registry, pluginId: "fragile", config })).toThrow(
+      "plugin reload failed: fragile: Error: boom",
+    );
+
+    expect(registry.plugins.find((entry) => entry.id === "fragile")?.status).toBe("loaded");
+    expect(registry.tools.flatMap((entry) => entry.names)).toEqual(["fragile_tool"]);
+    expect(Object.keys(registry.gatewayHandlers)).toEqual(["fragile.ping"]);
+    expect(getPluginCommandSpecs().map((spec) => spec.name)).toEqual(["fragile"]);
+  });
+
   it("prefers higher-precedence plugins with the same id", () => {
     const bundledDir = makeTempDir();
     writePlugin({
@@ -7,22 +7,38 @@ import type { GatewayRequestHandler } from "../gateway/server-methods/types.js";
 import { openBoundaryFileSync } from "../infra/boundary-file-read.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import { resolveUserPath } from "../utils.js";
-import { clearPluginCommands } from "./commands.js";
+import { clearPluginCommands, clearPluginCommandsForPlugin } from "./commands.js";
 import {
   applyTestPluginDefaults,
   normalizePluginsConfig,
   resolveEffectiveEnableState,
+  resolveExclusiveSlotDecision,
   resolveMemorySlotDecision,
   type NormalizedPluginsConfig,
 } from "./config-state.js";
-import { discoverOpenClawPlugins } from "./discovery.js";
+import { discoverOpenClawPlugins, type PluginCandidate } from "./discovery.js";
 import { initializeGlobalHookRunner } from "./hook-runner-global.js";
-import { loadPluginManifestRegistry } from "./manifest-registry.js";
+import { configurePluginHookTrace } from "./hook-trace.js";
+import { loadPluginManifestRegistry, type PluginManifestRecord } from "./manifest-registry.js";
 import { isPathInside, safeStatSync } from "./path-safety.js";
-import { createPluginRegistry, type PluginRecord, type PluginRegistry } from "./registry.js";
+import {
+  commitPluginReload,
+  createPluginRegistry,
+  createPluginReloadRegistry,
+  discardPluginReload,
+  type PluginRecord,
+  type PluginRegistrationsRemoval,
+  type PluginRegistry,
+} from "./registry.js";
 import { setActivePluginRegistry } from "./runtime.js";
 import { createPluginRuntime } from "./runtime/index.js";
 import { validateJsonSchemaValue } from "./schema-validator.js";
+import {
+  PLUGIN_SLOT_KEYS,
+  type PluginSlotKey,
+  pluginKindForSlotKey,
+  slotKeyForPluginKind,
+} from "./slots.js";
 import type {
   OpenClawPluginDefinition,
   OpenClawPluginModule,
@@ -95,6 +111,26 @@ export const __testing = {
   resolvePluginSdkAliasFile,
 };
 
+function createPluginJiti(opts?: { moduleCache?: boolean }) {
+  const pluginSdkAlias = resolvePluginSdkAlias();
+  const pluginSdkAccountIdAlias = resolvePluginSdkAccountIdAlias();
+  return createJiti(import.meta.url, {
+    interopDefault: true,
+    extensions: [".ts", ".tsx", ".mts", ".cts", ".mtsx", ".ctsx", ".js", ".mjs", ".cjs", ".json"],
+    ...(opts?.moduleCache === false ? { moduleCache: false } : {}),
+    ...(pluginSdkAlias || pluginSdkAccountIdAlias
+      ? {
+          alias: {
+            ...(pluginSdkAlias ? { "openclaw/plugin-sdk": pluginSdkAlias } : {}),
+            ...(pluginSdkAccountIdAlias
+              ? { "openclaw/plugin-sdk/account-id": pluginSdkAccountIdAlias }
+              : {}),
+          },
+        }
+      : {}),
+  });
+}
+
 function buildCacheKey(params: {
   workspaceDir?: string;
   plugins: NormalizedPluginsConfig;
@@ -365,6 +401,292 @@ function warnAboutUntrackedLoadedPlugins(params: {
   }
 }
 
+type PluginLoadContext = {
+  registry: PluginRegistry;
+  config: OpenClawConfig;
+  normalized: NormalizedPluginsConfig;
+  logger: PluginLogger;
+  validateOnly: boolean;
+  seenIds: Map<string, PluginRecord["origin"]>;
+  selectedMemoryPluginId: string | null;
+  memorySlotMatched: boolean;
+  matchedSlotKeys: Set<PluginSlotKey>;
+  getJiti: () => ReturnType<typeof createJiti>;
+  createApi: ReturnType<typeof createPluginRegistry>["createApi"];
+};
+
+function loadPluginCandidate(
+  ctx: PluginLoadContext,
+  candidate: PluginCandidate,
+  manifestRecord: PluginManifestRecord,
+) {
+  const pluginId = manifestRecord.id;
+  const existingOrigin = ctx.seenIds.get(pluginId);
+  if (existingOrigin) {
+    const record = createPluginRecord({
+      id: pluginId,
+      name: manifestRecord.name ?? pluginId,
+      description: manifestRecord.description,
+      version: manifestRecord.version,
+      source: candidate.source,
+      origin: candidate.origin,
+      workspaceDir: candidate.workspaceDir,
+      enabled: false,
+      configSchema: Boolean(manifestRecord.configSchema),
+    });
+    record.status = "disabled";
+    record.error = `overridden by ${existingOrigin} plugin`;
+    ctx.registry.plugins.push(record);
+    return;
+  }
+
+  const enableState = resolveEffectiveEnableState({
+    id: pluginId,
+    origin: candidate.origin,
+    config: ctx.normalized,
+    rootConfig: ctx.config,
+  });
+  const entry = ctx.normalized.entries[pluginId];
+  const record = createPluginRecord({
+    id: pluginId,
+    name: manifestRecord.name ?? pluginId,
+    description: manifestRecord.description,
+    version: manifestRecord.version,
+    source: candidate.source,
+    origin: candidate.origin,
+    workspaceDir: candidate.workspaceDir,
+    enabled: enableState.enabled,
+    configSchema: Boolean(manifestRecord.configSchema),
+  });
+  record.kind = manifestRecord.kind;
+  record.capabilities = manifestRecord.capabilities;
+  record.configUiHints = manifestRecord.configUiHints;
+  record.configJsonSchema = manifestRecord.configSchema;
+
+  if (!enableState.enabled) {
+    record.status = "disabled";
+    record.error = enableState.reason;
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    return;
+  }
+
+  if (!manifestRecord.configSchema) {
+    record.status = "error";
+    record.error = "missing config schema";
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    ctx.registry.diagnostics.push({
+      level: "error",
+      pluginId: record.id,
+      source: record.source,
+      message: record.error,
+    });
+    return;
+  }
+
+  // Manifests without a capabilities list predate the permission model; they
+  // still load unrestricted, but only bundled plugins do so silently.
+  if (!record.capabilities && candidate.origin !== "bundled") {
+    ctx.registry.diagnostics.push({
+      level: "warn",
+      pluginId: record.id,
+      source: record.source,
+      message:
+        "plugin manifest declares no capabilities; loaded with legacy unrestricted access (add a capabilities list to restrict registrations)",
+    });
+  }
+
+  const pluginRoot = safeRealpathOrResolve(candidate.rootDir);
+  const opened = openBoundaryFileSync({
+    absolutePath: candidate.source,
+    rootPath: pluginRoot,
+    boundaryLabel: "plugin root",
+    // Discovery stores rootDir as realpath but source may still be a lexical alias
+    // (e.g. /var/... vs /private/var/... on macOS). Canonical boundary checks
+    // still enforce containment; skip lexical pre-check to avoid false escapes.
+    skipLexicalRootCheck: true,
+  });
+  if (!opened.ok) {
+    record.status = "error";
+    record.error = "plugin entry path escapes plugin root or fails alias checks";
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    ctx.registry.diagnostics.push({
+      level: "error",
+      pluginId: record.id,
+      source: record.source,
+      message: record.error,
+    });
+    return;
+  }
+  const safeSource = opened.path;
+  fs.closeSync(opened.fd);
+
+  let mod: OpenClawPluginModule | null = null;
+  try {
+    mod = ctx.getJiti()(safeSource) as OpenClawPluginModule;
+  } catch (err) {
+    recordPluginError({
+      logger: ctx.logger,
+      registry: ctx.registry,
+      record,
+      seenIds: ctx.seenIds,
+      pluginId,
+      origin: candidate.origin,
+      error: err,
+      logPrefix: `[plugins] ${record.id} failed to load from ${record.source}: `,
+      diagnosticMessagePrefix: "failed to load plugin: ",
+    });
+    return;
+  }
+
+  const resolved = resolvePluginModuleExport(mod);
+  const definition = resolved.definition;
+  const register = resolved.register;
+
+  if (definition?.id && definition.id !== record.id) {
+    ctx.registry.diagnostics.push({
+      level: "warn",
+      pluginId: record.id,
+      source: record.source,
+      message: `plugin id mismatch (config uses "${record.id}", export uses "${definition.id}")`,
+    });
+  }
+
+  record.name = definition?.name ?? record.name;
+  record.description = definition?.description ?? record.description;
+  record.version = definition?.version ?? record.version;
+  const manifestKind = record.kind as string | undefined;
+  const exportKind = definition?.kind as string | undefined;
+  if (manifestKind && exportKind && exportKind !== manifestKind) {
+    ctx.registry.diagnostics.push({
+      level: "warn",
+      pluginId: record.id,
+      source: record.source,
+      message: `plugin kind mismatch (manifest uses "${manifestKind}", export uses "${exportKind}")`,
+    });
+  }
+  record.kind = definition?.kind ?? record.kind;
+
+  if (record.kind === "memory" && ctx.normalized.slots.memory === record.id) {
+    ctx.memorySlotMatched = true;
+  }
+
+  const memoryDecision = resolveMemorySlotDecision({
+    id: record.id,
+    kind: record.kind,
+    slot: ctx.normalized.slots.memory,
+    selectedId: ctx.selectedMemoryPluginId,
+  });
+
+  if (!memoryDecision.enabled) {
+    record.enabled = false;
+    record.status = "disabled";
+    record.error = memoryDecision.reason;
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    return;
+  }
+
+  if (memoryDecision.selected && record.kind === "memory") {
+    ctx.selectedMemoryPluginId = record.id;
+  }
+
+  const slotDecision = resolveExclusiveSlotDecision({
+    id: record.id,
+    kind: record.kind,
+    slots: ctx.normalized.slots,
+  });
+  if (!slotDecision.enabled) {
+    record.enabled = false;
+    record.status = "disabled";
+    record.error = slotDecision.reason;
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    return;
+  }
+  const claimedSlotKey = slotKeyForPluginKind(record.kind);
+  if (slotDecision.selected && claimedSlotKey) {
+    ctx.matchedSlotKeys.add(claimedSlotKey);
+  }
+
+  const validatedConfig = validatePluginConfig({
+    schema: manifestRecord.configSchema,
+    cacheKey: manifestRecord.schemaCacheKey,
+    value: entry?.config,
+  });
+
+  if (!validatedConfig.ok) {
+    ctx.logger.error(
+      `[plugins] ${record.id} invalid config: ${validatedConfig.errors?.join(", ")}`,
+    );
+    record.status = "error";
+    record.error = `invalid config: ${validatedConfig.errors?.join(", ")}`;
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    ctx.registry.diagnostics.push({
+      level: "error",
+      pluginId: record.id,
+      source: record.source,
+      message: record.error,
+    });
+    return;
+  }
+
+  if (ctx.validateOnly) {
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    return;
+  }
+
+  if (typeof register !== "function") {
+    ctx.logger.error(`[plugins] ${record.id} missing register/activate export`);
+    record.status = "error";
+    record.error = "plugin export missing register/activate";
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+    ctx.registry.diagnostics.push({
+      level: "error",
+      pluginId: record.id,
+      source: record.source,
+      message: record.error,
+    });
+    return;
+  }
+
+  const api = ctx.createApi(record, {
+    config: ctx.config,
+    pluginConfig: validatedConfig.value,
+  });
+
+  try {
+    const result = register(api);
+    if (result && typeof result.then === "function") {
+      ctx.registry.diagnostics.push({
+        level: "warn",
+        pluginId: record.id,
+        source: record.source,
+        message: "plugin register returned a promise; async registration is ignored",
+      });
+    }
+    ctx.registry.plugins.push(record);
+    ctx.seenIds.set(pluginId, candidate.origin);
+  } catch (err) {
+    recordPluginError({
+      logger: ctx.logger,
+      registry: ctx.registry,
+      record,
+      seenIds: ctx.seenIds,
+      pluginId,
+      origin: candidate.origin,
+      error: err,
+      logPrefix: `[plugins] ${record.id} failed during register from ${record.source}: `,
+      diagnosticMessagePrefix: "plugin failed during register: ",
+    });
+  }
+}
+
 export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegistry {
   // Test env: default-disable plugins unless explicitly configured.
   // This keeps unit/gateway suites fast and avoids loading heavyweight plugin deps by accident.
@@ -372,6 +694,7 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
   const logger = options.logger ?? defaultLogger();
   const validateOnly = options.mode === "validate";
   const normalized = normalizePluginsConfig(cfg.plugins);
+  configurePluginHookTrace(cfg.plugins?.hookTrace);
   const cacheKey = buildCacheKey({
     workspaceDir: options.workspaceDir,
     plugins: normalized,
@@ -425,280 +748,49 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
   // Lazy: avoid creating the Jiti loader when all plugins are disabled (common in unit tests).
   let jitiLoader: ReturnType<typeof createJiti> | null = null;
   const getJiti = () => {
-    if (jitiLoader) {
-      return jitiLoader;
-    }
-    const pluginSdkAlias = resolvePluginSdkAlias();
-    const pluginSdkAccountIdAlias = resolvePluginSdkAccountIdAlias();
-    jitiLoader = createJiti(import.meta.url, {
-      interopDefault: true,
-      extensions: [".ts", ".tsx", ".mts", ".cts", ".mtsx", ".ctsx", ".js", ".mjs", ".cjs", ".json"],
-      ...(pluginSdkAlias || pluginSdkAccountIdAlias
-        ? {
-            alias: {
-              ...(pluginSdkAlias ? { "openclaw/plugin-sdk": pluginSdkAlias } : {}),
-              ...(pluginSdkAccountIdAlias
-                ? { "openclaw/plugin-sdk/account-id": pluginSdkAccountIdAlias }
-                : {}),
-            },
-          }
-        : {}),
-    });
+    jitiLoader ??= createPluginJiti();
     return jitiLoader;
   };
 
   const manifestByRoot = new Map(
     manifestRegistry.plugins.map((record) => [record.rootDir, record]),
   );
-
-  const seenIds = new Map<string, PluginRecord["origin"]>();
   const memorySlot = normalized.slots.memory;
-  let selectedMemoryPluginId: string | null = null;
-  let memorySlotMatched = false;
+  const ctx: PluginLoadContext = {
+    registry,
+    config: cfg,
+    normalized,
+    logger,
+    validateOnly,
+    seenIds: new Map(),
+    selectedMemoryPluginId: null,
+    memorySlotMatched: false,
+    matchedSlotKeys: new Set(),
+    getJiti,
+    createApi,
+  };
 
   for (const candidate of discovery.candidates) {
     const manifestRecord = manifestByRoot.get(candidate.rootDir);
-    if (!manifestRecord) {
-      continue;
-    }
-    const pluginId = manifestRecord.id;
-    const existingOrigin = seenIds.get(pluginId);
-    if (existingOrigin) {
-      const record = createPluginRecord({
-        id: pluginId,
-        name: manifestRecord.name ?? pluginId,
-        description: manifestRecord.description,
-        version: manifestRecord.version,
-        source: candidate.source,
-        origin: candidate.origin,
-        workspaceDir: candidate.workspaceDir,
-        enabled: false,
-        configSchema: Boolean(manifestRecord.configSchema),
-      });
-      record.status = "disabled";
-      record.error = `overridden by ${existingOrigin} plugin`;
-      registry.plugins.push(record);
-      continue;
-    }
-
-    const enableState = resolveEffectiveEnableState({
-      id: pluginId,
-      origin: candidate.origin,
-      config: normalized,
-      rootConfig: cfg,
-    });
-    const entry = normalized.entries[pluginId];
-    const record = createPluginRecord({
-      id: pluginId,
-      name: manifestRecord.name ?? pluginId,
-      description: manifestRecord.description,
-      version: manifestRecord.version,
-      source: candidate.source,
-      origin: candidate.origin,
-      workspaceDir: candidate.workspaceDir,
-      enabled: enableState.enabled,
-      configSchema: Boolean(manifestRecord.configSchema),
-    });
-    record.kind = manifestRecord.kind;
-    record.configUiHints = manifestRecord.configUiHints;
-    record.configJsonSchema = manifestRecord.configSchema;
-
-    if (!enableState.enabled) {
-      record.status = "disabled";
-      record.error = enableState.reason;
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      continue;
-    }
-
-    if (!manifestRecord.configSchema) {
-      record.status = "error";
-      record.error = "missing config schema";
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      registry.diagnostics.push({
-        level: "error",
-        pluginId: record.id,
-        source: record.source,
-        message: record.error,
-      });
-      continue;
-    }
-
-    const pluginRoot = safeRealpathOrResolve(candidate.rootDir);
-    const opened = openBoundaryFileSync({
-      absolutePath: candidate.source,
-      rootPath: pluginRoot,
-      boundaryLabel: "plugin root",
-      // Discovery stores rootDir as realpath but source may still be a lexical alias
-      // (e.g. /var/... vs /private/var/... on macOS). Canonical boundary checks
-      // still enforce containment; skip lexical pre-check to avoid false escapes.
-      skipLexicalRootCheck: true,
-    });
-    if (!opened.ok) {
-      record.status = "error";
-      record.error = "plugin entry path escapes plugin root or fails alias checks";
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      registry.diagnostics.push({
-        level: "error",
-        pluginId: record.id,
-        source: record.source,
-        message: record.error,
-      });
-      continue;
-    }
-    const safeSource = opened.path;
-    fs.closeSync(opened.fd);
-
-    let mod: OpenClawPluginModule | null = null;
-    try {
-      mod = getJiti()(safeSource) as OpenClawPluginModule;
-    } catch (err) {
-      recordPluginError({
-        logger,
-        registry,
-        record,
-        seenIds,
-        pluginId,
-        origin: candidate.origin,
-        error: err,
-        logPrefix: `[plugins] ${record.id} failed to load from ${record.source}: `,
-        diagnosticMessagePrefix: "failed to load plugin: ",
-      });
-      continue;
-    }
-
-    const resolved = resolvePluginModuleExport(mod);
-    const definition = resolved.definition;
-    const register = resolved.register;
-
-    if (definition?.id && definition.id !== record.id) {
-      registry.diagnostics.push({
-        level: "warn",
-        pluginId: record.id,
-        source: record.source,
-        message: `plugin id mismatch (config uses "${record.id}", export uses "${definition.id}")`,
-      });
-    }
-
-    record.name = definition?.name ?? record.name;
-    record.description = definition?.description ?? record.description;
-    record.version = definition?.version ?? record.version;
-    const manifestKind = record.kind as string | undefined;
-    const exportKind = definition?.kind as string | undefined;
-    if (manifestKind && exportKind && exportKind !== manifestKind) {
-      registry.diagnostics.push({
-        level: "warn",
-        pluginId: record.id,
-        source: record.source,
-        message: `plugin kind mismatch (manifest uses "${manifestKind}", export uses "${exportKind}")`,
-      });
-    }
-    record.kind = definition?.kind ?? record.kind;
-
-    if (record.kind === "memory" && memorySlot === record.id) {
-      memorySlotMatched = true;
-    }
-
-    const memoryDecision = resolveMemorySlotDecision({
-      id: record.id,
-      kind: record.kind,
-      slot: memorySlot,
-      selectedId: selectedMemoryPluginId,
-    });
-
-    if (!memoryDecision.enabled) {
-      record.enabled = false;
-      record.status = "disabled";
-      record.error = memoryDecision.reason;
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      continue;
-    }
-
-    if (memoryDecision.selected && record.kind === "memory") {
-      selectedMemoryPluginId = record.id;
+    if (manifestRecord) {
+      loadPluginCandidate(ctx, candidate, manifestRecord);
     }
+  }
 
-    const validatedConfig = validatePluginConfig({
-      schema: manifestRecord.configSchema,
-      cacheKey: manifestRecord.schemaCacheKey,
-      value: entry?.config,
+  if (typeof memorySlot === "string" && !ctx.memorySlotMatched) {
+    registry.diagnostics.push({
+      level: "warn",
+      message: `memory slot plugin not found or not marked as memory: ${memorySlot}`,
     });
-
-    if (!validatedConfig.ok) {
-      logger.error(`[plugins] ${record.id} invalid config: ${validatedConfig.errors?.join(", ")}`);
-      record.status = "error";
-      record.error = `invalid config: ${validatedConfig.errors?.join(", ")}`;
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      registry.diagnostics.push({
-        level: "error",
-        pluginId: record.id,
-        source: record.source,
-        message: record.error,
-      });
-      continue;
-    }
-
-    if (validateOnly) {
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      continue;
-    }
-
-    if (typeof register !== "function") {
-      logger.error(`[plugins] ${record.id} missing register/activate export`);
-      record.status = "error";
-      record.error = "plugin export missing register/activate";
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-      registry.diagnostics.push({
-        level: "error",
-        pluginId: record.id,
-        source: record.source,
-        message: record.error,
-      });
+  }
+  for (const slotKey of PLUGIN_SLOT_KEYS) {
+    const slotId = normalized.slots[slotKey];
+    if (slotKey === "memory" || typeof slotId !== "string" || ctx.matchedSlotKeys.has(slotKey)) {
       continue;
     }
-
-    const api = createApi(record, {
-      config: cfg,
-      pluginConfig: validatedConfig.value,
-    });
-
-    try {
-      const result = register(api);
-      if (result && typeof result.then === "function") {
-        registry.diagnostics.push({
-          level: "warn",
-          pluginId: record.id,
-          source: record.source,
-          message: "plugin register returned a promise; async registration is ignored",
-        });
-      }
-      registry.plugins.push(record);
-      seenIds.set(pluginId, candidate.origin);
-    } catch (err) {
-      recordPluginError({
-        logger,
-        registry,
-        record,
-        seenIds,
-        pluginId,
-        origin: candidate.origin,
-        error: err,
-        logPrefix: `[plugins] ${record.id} failed during register from ${record.source}: `,
-        diagnosticMessagePrefix: "plugin failed during register: ",
-      });
-    }
-  }
-
-  if (typeof memorySlot === "string" && !memorySlotMatched) {
     registry.diagnostics.push({
       level: "warn",
-      message: `memory slot plugin not found or not marked as memory: ${memorySlot}`,
+      message: `${slotKey} slot plugin not found or not marked as ${pluginKindForSlotKey(slotKey)}: ${slotId}`,
     });
   }
 
@@ -716,6 +808,122 @@ export function loadOpenClawPlugins(options: PluginLoadOptions = {}): PluginRegi
   return registry;
 }
 
+export type PluginReloadOptions = {
+  registry: PluginRegistry;
+  pluginId: string;
+  config?: OpenClawConfig;
+  workspaceDir?: string;
+  logger?: PluginLogger;
+  coreGatewayHandlers?: Record<string, GatewayRequestHandler>;
+};
+
+export type PluginReloadPlan = {
+  /** The new instance, loaded but not yet visible in the live registry. */
+  record: PluginRecord;
+  /** Swap the new instance's registrations into the live registry. */
+  commit: () => PluginRegistrationsRemoval;
+  /** Drop the new instance and keep the previous one registered. */
+  discard: () => void;
+};
+
+export type PluginReloadResult = {
+  record: PluginRecord;
+  /** What the previous instance had registered; its services are still running. */
+  removed: PluginRegistrationsRemoval;
+};
+
+/**
+ * Re-import one plugin from disk into a scratch copy of `registry`. The live
+ * registry is only touched by `commit()`, so callers can keep the previous
+ * instance serving until the new one has loaded. Throws when the plugin is
+ * missing or its new instance fails to load.
+ */
+export function prepareOpenClawPluginReload(options: PluginReloadOptions): PluginReloadPlan {
+  const { registry, pluginId } = options;
+  const cfg = applyTestPluginDefaults(options.config ?? {}, process.env);
+  const logger = options.logger ?? defaultLogger();
+  const normalized = normalizePluginsConfig(cfg.plugins);
+  const index = registry.plugins.findIndex((entry) => entry.id === pluginId);
+  if (index === -1) {
+    throw new Error(`plugin not found: ${pluginId}`);
+  }
+
+  const discovery = discoverOpenClawPlugins({
+    workspaceDir: options.workspaceDir,
+    extraPaths: normalized.loadPaths,
+  });
+  const manifestRegistry = loadPluginManifestRegistry({
+    config: cfg,
+    workspaceDir: options.workspaceDir,
+    cache: false,
+    candidates: discovery.candidates,
+  });
+  const manifestRecord = manifestRegistry.plugins.find((entry) => entry.id === pluginId);
+  const candidate = manifestRecord
+    ? discovery.candidates.find((entry) => entry.rootDir === manifestRecord.rootDir)
+    : undefined;
+  if (!manifestRecord || !candidate) {
+    throw new Error(`plugin not found on disk: ${pluginId}`);
+  }
+
+  const next = createPluginReloadRegistry(registry, pluginId);
+  const { createApi } = createPluginRegistry({
+    logger,
+    runtime: createPluginRuntime(),
+    coreGatewayHandlers: options.coreGatewayHandlers as Record<string, GatewayRequestHandler>,
+    registry: next,
+  });
+  // Without the module cache jiti re-evaluates the entry and its local imports.
+  const jiti = createPluginJiti({ moduleCache: false });
+  const otherMemoryPlugin = next.plugins.find(
+    (entry) => entry.kind === "memory" && entry.status === "loaded",
+  );
+  // The previous instance's commands would collide with the new ones;
+  // discardPluginReload puts them back if the new instance is dropped.
+  clearPluginCommandsForPlugin(pluginId);
+  loadPluginCandidate(
+    {
+      registry: next,
+      config: cfg,
+      normalized,
+      logger,
+      validateOnly: false,
+      seenIds: new Map(),
+      selectedMemoryPluginId: otherMemoryPlugin?.id ?? null,
+      memorySlotMatched: false,
+      matchedSlotKeys: new Set(),
+      getJiti: () => jiti,
+      createApi,
+    },
+    candidate,
+    manifestRecord,
+  );
+
+  // loadPluginCandidate appends the new record; keep the plugin's list position.
+  const record = next.plugins.pop() as PluginRecord;
+  next.plugins.splice(index, 0, record);
+  const discard = () => discardPluginReload(registry, next, pluginId);
+  if (record.status === "error") {
+    discard();
+    throw new Error(`plugin reload failed: ${pluginId}: ${record.error ?? "unknown error"}`);
+  }
+  return {
+    record,
+    commit: () => commitPluginReload(registry, next, pluginId),
+    discard,
+  };
+}
+
+/**
+ * Re-import one plugin from disk and swap its registrations in `registry`
+ * without touching the other plugins. Callers own the side effects outside
+ * the registry: stopping the old services and restarting channels.
+ */
+export function reloadOpenClawPlugin(options: PluginReloadOptions): PluginReloadResult {
+  const plan = prepareOpenClawPluginReload(options);
+  return { record: plan.record, removed: plan.commit() };
+}
+
 function safeRealpathOrResolve(value: string): string {
   try {
     return fs.realpathSync(value);
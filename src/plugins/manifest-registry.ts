@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import type { OpenClawConfig } from "../config/config.js";
 import { resolveUserPath } from "../utils.js";
+import type { PluginCapability } from "./capabilities.js";
 import { normalizePluginsConfig, type NormalizedPluginsConfig } from "./config-state.js";
 import { discoverOpenClawPlugins, type PluginCandidate } from "./discovery.js";
 import { loadPluginManifest, type PluginManifest } from "./manifest.js";
@@ -29,6 +30,8 @@ export type PluginManifestRecord = {
   channels: string[];
   providers: string[];
   skills: string[];
+  /** Declared registration capabilities; undefined means unrestricted (legacy manifest). */
+  capabilities?: PluginCapability[];
   origin: PluginOrigin;
   workspaceDir?: string;
   rootDir: string;
@@ -120,6 +123,7 @@ function buildRecord(params: {
     channels: params.manifest.channels ?? [],
     providers: params.manifest.providers ?? [],
     skills: params.manifest.skills ?? [],
+    capabilities: params.manifest.capabilities,
     origin: params.candidate.origin,
     workspaceDir: params.candidate.workspaceDir,
     rootDir: params.candidate.rootDir,
@@ -187,6 +191,15 @@ export function loadPluginManifestRegistry(params: {
       });
     }
 
+    if (manifest.unknownCapabilities && manifest.unknownCapabilities.length > 0) {
+      diagnostics.push({
+        level: "warn",
+        pluginId: manifest.id,
+        source: manifestRes.manifestPath,
+        message: `unknown plugin capabilities ignored: ${manifest.unknownCapabilities.join(", ")}`,
+      });
+    }
+
     const configSchema = manifest.configSchema;
     const manifestMtime = safeStatMtimeMs(manifestRes.manifestPath);
     const schemaCacheKey = manifestMtime
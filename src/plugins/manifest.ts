@@ -3,6 +3,7 @@ import path from "node:path";
 import { MANIFEST_KEY } from "../compat/legacy-names.js";
 import { openBoundaryFileSync } from "../infra/boundary-file-read.js";
 import { isRecord } from "../utils.js";
+import { normalizePluginCapabilities, type PluginCapability } from "./capabilities.js";
 import type { PluginConfigUiHint, PluginKind } from "./types.js";
 
 export const PLUGIN_MANIFEST_FILENAME = "openclaw.plugin.json";
@@ -15,6 +16,13 @@ export type PluginManifest = {
   channels?: string[];
   providers?: string[];
   skills?: string[];
+  /**
+   * Registrations the plugin may make. Undefined when the manifest has no
+   * `capabilities` list, which keeps legacy plugins unrestricted.
+   */
+  capabilities?: PluginCapability[];
+  /** `capabilities` entries that are not known capability names. */
+  unknownCapabilities?: string[];
   name?: string;
   description?: string;
   version?: string;
@@ -90,6 +98,9 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
   const channels = normalizeStringList(raw.channels);
   const providers = normalizeStringList(raw.providers);
   const skills = normalizeStringList(raw.skills);
+  const declaredCapabilities = Array.isArray(raw.capabilities)
+    ? normalizePluginCapabilities(raw.capabilities)
+    : undefined;
 
   let uiHints: Record<string, PluginConfigUiHint> | undefined;
   if (isRecord(raw.uiHints)) {
@@ -105,6 +116,8 @@ export function loadPluginManifest(rootDir: string): PluginManifestLoadResult {
       channels,
       providers,
       skills,
+      capabilities: declaredCapabilities?.capabilities,
+      unknownCapabilities: declaredCapabilities?.unknown,
       name,
       description,
       version,
@@ -6,12 +6,18 @@ import type {
   GatewayRequestHandler,
   GatewayRequestHandlers,
 } from "../gateway/server-methods/types.js";
-import { registerInternalHook } from "../hooks/internal-hooks.js";
+import {
+  registerInternalHook,
+  unregisterInternalHook,
+  type InternalHookHandler,
+} from "../hooks/internal-hooks.js";
 import type { HookEntry } from "../hooks/types.js";
 import { resolveUserPath } from "../utils.js";
-import { registerPluginCommand } from "./commands.js";
+import { hasPluginCapability, type PluginCapability } from "./capabilities.js";
+import { clearPluginCommandsForPlugin, registerPluginCommand } from "./commands.js";
 import { normalizePluginHttpPath } from "./http-path.js";
 import type { PluginRuntime } from "./runtime/types.js";
+import { type PluginSlotKey, slotKeyForPluginKind } from "./slots.js";
 import type {
   OpenClawPluginApi,
   OpenClawPluginChannelRegistration,
@@ -32,6 +38,9 @@ import type {
   PluginHookName,
   PluginHookHandlerMap,
   PluginHookRegistration as TypedPluginHookRegistration,
+  PluginSandboxRuntime,
+  PluginTtsProvider,
+  PluginWebSearchProvider,
 } from "./types.js";
 
 export type PluginToolRegistration = {
@@ -80,6 +89,8 @@ export type PluginHookRegistration = {
   entry: HookEntry;
   events: string[];
   source: string;
+  /** Handler passed to the internal hook system, kept so a reload can unregister it. */
+  handler?: InternalHookHandler;
 };
 
 export type PluginServiceRegistration = {
@@ -88,6 +99,11 @@ export type PluginServiceRegistration = {
   source: string;
 };
 
+export type PluginSlotProviderRegistration =
+  | { slot: "tts"; pluginId: string; provider: PluginTtsProvider; source: string }
+  | { slot: "webSearch"; pluginId: string; provider: PluginWebSearchProvider; source: string }
+  | { slot: "sandbox"; pluginId: string; provider: PluginSandboxRuntime; source: string };
+
 export type PluginCommandRegistration = {
   pluginId: string;
   command: OpenClawPluginCommandDefinition;
@@ -119,6 +135,8 @@ export type PluginRecord = {
   configSchema: boolean;
   configUiHints?: Record<string, PluginConfigUiHint>;
   configJsonSchema?: Record<string, unknown>;
+  /** Capabilities from the manifest; registrations outside them are refused. */
+  capabilities?: PluginCapability[];
 };
 
 export type PluginRegistry = {
@@ -134,6 +152,8 @@ export type PluginRegistry = {
   cliRegistrars: PluginCliRegistration[];
   services: PluginServiceRegistration[];
   commands: PluginCommandRegistration[];
+  /** Providers registered by exclusive-slot plugins (tts, web search, sandbox). */
+  slotProviders: PluginSlotProviderRegistration[];
   diagnostics: PluginDiagnostic[];
 };
 
@@ -141,6 +161,8 @@ export type PluginRegistryParams = {
   logger: PluginLogger;
   coreGatewayHandlers?: GatewayRequestHandlers;
   runtime: PluginRuntime;
+  /** Register into an existing registry (plugin reload) instead of a fresh one. */
+  registry?: PluginRegistry;
 };
 
 export function createEmptyPluginRegistry(): PluginRegistry {
@@ -157,12 +179,128 @@ export function createEmptyPluginRegistry(): PluginRegistry {
     cliRegistrars: [],
     services: [],
     commands: [],
+    slotProviders: [],
     diagnostics: [],
   };
 }
 
+function replaceList<T>(list: T[], next: T[]) {
+  list.splice(0, list.length, ...next);
+}
+
+function unregisterPluginHookHandlers(hooks: PluginHookRegistration[]) {
+  for (const hook of hooks) {
+    if (hook.handler) {
+      for (const event of hook.events) {
+        unregisterInternalHook(event, hook.handler);
+      }
+    }
+  }
+}
+
+export type PluginRegistrationsRemoval = {
+  record?: PluginRecord;
+  services: PluginServiceRegistration[];
+  gatewayMethods: string[];
+  channelIds: string[];
+};
+
+/**
+ * Copy of `registry` without `pluginId`'s registrations. A reload registers the
+ * new instance here first, so duplicate checks still see the other plugins and
+ * a failing import or register() leaves the live registry untouched.
+ */
+export function createPluginReloadRegistry(
+  registry: PluginRegistry,
+  pluginId: string,
+): PluginRegistry {
+  const others = <T extends { pluginId?: string }>(list: T[]) =>
+    list.filter((entry) => entry.pluginId !== pluginId);
+  const previous = registry.plugins.find((entry) => entry.id === pluginId);
+  const gatewayHandlers = { ...registry.gatewayHandlers };
+  for (const method of previous?.gatewayMethods ?? []) {
+    delete gatewayHandlers[method];
+  }
+  return {
+    plugins: registry.plugins.filter((entry) => entry.id !== pluginId),
+    tools: others(registry.tools),
+    hooks: others(registry.hooks),
+    typedHooks: others(registry.typedHooks),
+    channels: others(registry.channels),
+    providers: others(registry.providers),
+    gatewayHandlers,
+    httpHandlers: others(registry.httpHandlers),
+    httpRoutes: others(registry.httpRoutes),
+    cliRegistrars: others(registry.cliRegistrars),
+    services: others(registry.services),
+    commands: others(registry.commands),
+    slotProviders: others(registry.slotProviders),
+    diagnostics: others(registry.diagnostics),
+  };
+}
+
+/**
+ * Undo the global side effects of loading `pluginId` into a reload registry
+ * and put the previous instance's plugin commands back.
+ */
+export function discardPluginReload(
+  registry: PluginRegistry,
+  next: PluginRegistry,
+  pluginId: string,
+) {
+  const byPlugin = (entry: { pluginId?: string }) => entry.pluginId === pluginId;
+  unregisterPluginHookHandlers(next.hooks.filter(byPlugin));
+  clearPluginCommandsForPlugin(pluginId);
+  for (const entry of registry.commands.filter(byPlugin)) {
+    registerPluginCommand(pluginId, entry.command);
+  }
+}
+
+/**
+ * Swap a reload registry into the live one in a single step. Lists are edited
+ * in place because the gateway, hook runner and HTTP handlers keep references
+ * to the active registry's arrays.
+ */
+export function commitPluginReload(
+  registry: PluginRegistry,
+  next: PluginRegistry,
+  pluginId: string,
+): PluginRegistrationsRemoval {
+  const record = registry.plugins.find((entry) => entry.id === pluginId);
+  const byPlugin = (entry: { pluginId?: string }) => entry.pluginId === pluginId;
+  const services = registry.services.filter(byPlugin);
+  const channels = registry.channels.filter(byPlugin);
+  unregisterPluginHookHandlers(registry.hooks.filter(byPlugin));
+
+  const gatewayMethods = record?.gatewayMethods ?? [];
+  for (const method of gatewayMethods) {
+    delete registry.gatewayHandlers[method];
+  }
+  Object.assign(registry.gatewayHandlers, next.gatewayHandlers);
+  replaceList(registry.plugins, next.plugins);
+  replaceList(registry.tools, next.tools);
+  replaceList(registry.hooks, next.hooks);
+  replaceList(registry.typedHooks, next.typedHooks);
+  replaceList(registry.channels, next.channels);
+  replaceList(registry.providers, next.providers);
+  replaceList(registry.httpHandlers, next.httpHandlers);
+  replaceList(registry.httpRoutes, next.httpRoutes);
+  replaceList(registry.cliRegistrars, next.cliRegistrars);
+  replaceList(registry.services, next.services);
+  replaceList(registry.commands, next.commands);
+  replaceList(registry.slotProviders, next.slotProviders);
+  replaceList(registry.diagnostics, next.diagnostics);
+
+  return {
+    record,
+    services,
+    gatewayMethods: [...gatewayMethods],
+    channelIds: channels.map((entry) => String(entry.plugin.id)),
+  };
+}
+
 export function createPluginRegistry(registryParams: PluginRegistryParams) {
-  const registry = createEmptyPluginRegistry();
+  const registry = registryParams.registry ?? createEmptyPluginRegistry();
   const coreGatewayMethods = new Set(Object.keys(registryParams.coreGatewayHandlers ?? {}));
 
   const pushDiagnostic = (diag: PluginDiagnostic) => {
@@ -249,18 +387,20 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
         };
 
     record.hookNames.push(name);
-    registry.hooks.push({
+    const registration: PluginHookRegistration = {
       pluginId: record.id,
       entry: hookEntry,
       events: normalizedEvents,
       source: record.source,
-    });
+    };
+    registry.hooks.push(registration);
 
     const hookSystemEnabled = config?.hooks?.internal?.enabled === true;
     if (!hookSystemEnabled || opts?.register === false) {
       return;
     }
 
+    registration.handler = handler;
     for (const event of normalizedEvents) {
       registerInternalHook(event, handler);
     }
@@ -386,6 +526,47 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     });
   };
 
+  const registerSlotProvider = (
+    record: PluginRecord,
+    registration: { slot: Exclude<PluginSlotKey, "memory">; provider: { id?: unknown } },
+    label: string,
+  ) => {
+    const id = typeof registration.provider?.id === "string" ? registration.provider.id.trim() : "";
+    if (!id) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `${label} registration missing id`,
+      });
+      return;
+    }
+    if (slotKeyForPluginKind(record.kind) !== registration.slot) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `${label} registration requires the plugin to claim the "${registration.slot}" slot (kind)`,
+      });
+      return;
+    }
+    const existing = registry.slotProviders.find((entry) => entry.slot === registration.slot);
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `${registration.slot} slot provider already registered by ${existing.pluginId}`,
+      });
+      return;
+    }
+    registry.slotProviders.push({
+      ...registration,
+      pluginId: record.id,
+      source: record.source,
+    } as PluginSlotProviderRegistration);
+  };
+
   const registerCli = (
     record: PluginRecord,
     registrar: OpenClawPluginCliRegistrar,
@@ -469,6 +650,21 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     debug: logger.debug,
   });
 
+  // Plugins that declare capabilities in their manifest may only register
+  // what they declared; anything else is refused with an error diagnostic.
+  const requireCapability = (record: PluginRecord, capability: PluginCapability): boolean => {
+    if (hasPluginCapability(record.capabilities, capability)) {
+      return true;
+    }
+    pushDiagnostic({
+      level: "error",
+      pluginId: record.id,
+      source: record.source,
+      message: `registration refused: capability "${capability}" is not declared in the plugin manifest`,
+    });
+    return false;
+  };
+
   const createApi = (
     record: PluginRecord,
     params: {
@@ -486,19 +682,77 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
       pluginConfig: params.pluginConfig,
       runtime: registryParams.runtime,
       logger: normalizeLogger(registryParams.logger),
-      registerTool: (tool, opts) => registerTool(record, tool, opts),
-      registerHook: (events, handler, opts) =>
-        registerHook(record, events, handler, opts, params.config),
-      registerHttpHandler: (handler) => registerHttpHandler(record, handler),
-      registerHttpRoute: (params) => registerHttpRoute(record, params),
-      registerChannel: (registration) => registerChannel(record, registration),
-      registerProvider: (provider) => registerProvider(record, provider),
-      registerGatewayMethod: (method, handler) => registerGatewayMethod(record, method, handler),
-      registerCli: (registrar, opts) => registerCli(record, registrar, opts),
-      registerService: (service) => registerService(record, service),
-      registerCommand: (command) => registerCommand(record, command),
+      registerTool: (tool, opts) => {
+        if (requireCapability(record, "tool")) {
+          registerTool(record, tool, opts);
+        }
+      },
+      registerHook: (events, handler, opts) => {
+        if (requireCapability(record, "hook")) {
+          registerHook(record, events, handler, opts, params.config);
+        }
+      },
+      registerHttpHandler: (handler) => {
+        if (requireCapability(record, "http")) {
+          registerHttpHandler(record, handler);
+        }
+      },
+      registerHttpRoute: (params) => {
+        if (requireCapability(record, "http")) {
+          registerHttpRoute(record, params);
+        }
+      },
+      registerChannel: (registration) => {
+        if (requireCapability(record, "channel")) {
+          registerChannel(record, registration);
+        }
+      },
+      registerProvider: (provider) => {
+        if (requireCapability(record, "provider")) {
+          registerProvider(record, provider);
+        }
+      },
+      registerTtsProvider: (provider) => {
+        if (requireCapability(record, "tts-provider")) {
+          registerSlotProvider(record, { slot: "tts", provider }, "tts provider");
+        }
+      },
+      registerWebSearchProvider: (provider) => {
+        if (requireCapability(record, "web-search-provider")) {
+          registerSlotProvider(record, { slot: "webSearch", provider }, "web search provider");
+        }
+      },
+      registerSandboxRuntime: (runtime) => {
+        if (requireCapability(record, "sandbox-runtime")) {
+          registerSlotProvider(record, { slot: "sandbox", provider: runtime }, "sandbox runtime");
+        }
+      },
+      registerGatewayMethod: (method, handler) => {
+        if (requireCapability(record, "gateway-method")) {
+          registerGatewayMethod(record, method, handler);
+        }
+      },
+      registerCli: (registrar, opts) => {
+        if (requireCapability(record, "cli")) {
+          registerCli(record, registrar, opts);
+        }
+      },
+      registerService: (service) => {
+        if (requireCapability(record, "service")) {
+          registerService(record, service);
+        }
+      },
+      registerCommand: (command) => {
+        if (requireCapability(record, "command")) {
+          registerCommand(record, command);
+        }
+      },
       resolvePath: (input: string) => resolveUserPath(input),
-      on: (hookName, handler, opts) => registerTypedHook(record, hookName, handler, opts),
+      on: (hookName, handler, opts) => {
+        if (requireCapability(record, `on:${hookName}`)) {
+          registerTypedHook(record, hookName, handler, opts);
+        }
+      },
     };
   };
 
@@ -29,47 +29,71 @@ function createServiceContext(params: {
 
 export type PluginServicesHandle = {
   stop: () => Promise<void>;
+  /** Stop the running services of one plugin (before it is reloaded). */
+  stopPlugin: (pluginId: string) => Promise<void>;
+  /** Start the services one plugin currently has in the registry. */
+  startPlugin: (pluginId: string) => Promise<void>;
 };
 
+type RunningPluginService = {
+  pluginId: string;
+  id: string;
+  stop?: () => void | Promise<void>;
+};
+
+async function stopRunningServices(entries: RunningPluginService[]) {
+  for (const entry of entries.toReversed()) {
+    if (!entry.stop) {
+      continue;
+    }
+    try {
+      await entry.stop();
+    } catch (err) {
+      log.warn(`plugin service stop failed (${entry.id}): ${String(err)}`);
+    }
+  }
+}
+
 export async function startPluginServices(params: {
   registry: PluginRegistry;
   config: OpenClawConfig;
   workspaceDir?: string;
 }): Promise<PluginServicesHandle> {
-  const running: Array<{
-    id: string;
-    stop?: () => void | Promise<void>;
-  }> = [];
+  let running: RunningPluginService[] = [];
   const serviceContext = createServiceContext({
     config: params.config,
     workspaceDir: params.workspaceDir,
   });
 
-  for (const entry of params.registry.services) {
-    const service = entry.service;
-    try {
-      await service.start(serviceContext);
-      running.push({
-        id: service.id,
-        stop: service.stop ? () => service.stop?.(serviceContext) : undefined,
-      });
-    } catch (err) {
-      log.error(`plugin service failed (${service.id}): ${String(err)}`);
+  const startServices = async (entries: PluginRegistry["services"]) => {
+    for (const entry of entries) {
+      const service = entry.service;
+      try {
+        await service.start(serviceContext);
+        running.push({
+          pluginId: entry.pluginId,
+          id: service.id,
+          stop: service.stop ? () => service.stop?.(serviceContext) : undefined,
+        });
+      } catch (err) {
+        log.error(`plugin service failed (${service.id}): ${String(err)}`);
+      }
     }
-  }
+  };
+
+  await startServices(params.registry.services);
 
   return {
     stop: async () => {
-      for (const entry of running.toReversed()) {
-        if (!entry.stop) {
-          continue;
-        }
-        try {
-          await entry.stop();
-        } catch (err) {
-          log.warn(`plugin service stop failed (${entry.id}): ${String(err)}`);
-        }
-      }
+      await stopRunningServices(running);
+    },
+    stopPlugin: async (pluginId) => {
+      const stopping = running.filter((entry) => entry.pluginId === pluginId);
+      running = running.filter((entry) => entry.pluginId !== pluginId);
+      await stopRunningServices(stopping);
+    },
+    startPlugin: async (pluginId) => {
+      await startServices(params.registry.services.filter((entry) => entry.pluginId === pluginId));
     },
   };
 }
@@ -0,0 +1,30 @@
+import type { PluginSlotProviderRegistration } from "./registry.js";
+import { getActivePluginRegistry } from "./runtime.js";
+import type { PluginSandboxRuntime, PluginTtsProvider, PluginWebSearchProvider } from "./types.js";
+
+type SlotProviderFor<K extends PluginSlotProviderRegistration["slot"]> = Extract<
+  PluginSlotProviderRegistration,
+  { slot: K }
+>;
+
+function findSlotProvider<K extends PluginSlotProviderRegistration["slot"]>(
+  slot: K,
+): SlotProviderFor<K> | undefined {
+  const entries = getActivePluginRegistry()?.slotProviders ?? [];
+  return entries.find((entry): entry is SlotProviderFor<K> => entry.slot === slot);
+}
+
+/** TTS provider registered by the plugin holding `plugins.slots.tts`, if any. */
+export function getSlotTtsProvider(): PluginTtsProvider | undefined {
+  return findSlotProvider("tts")?.provider;
+}
+
+/** `web_search` provider registered by the plugin holding `plugins.slots.webSearch`, if any. */
+export function getSlotWebSearchProvider(): PluginWebSearchProvider | undefined {
+  return findSlotProvider("webSearch")?.provider;
+}
+
+/** Sandbox runtime registered by the plugin holding `plugins.slots.sandbox`, if any. */
+export function getSlotSandboxRuntime(): PluginSandboxRuntime | undefined {
+  return findSlotProvider("sandbox")?.provider;
+}
@@ -92,6 +92,46 @@ describe("applyExclusiveSlotSelection", () => {
     expect(result.warnings).not.toContain('Disabled other "memory" slot plugins: memory-core.');
   });
 
+  it("warns when a plugin takes over a built-in slot and disables its competitors", () => {
+    const config: OpenClawConfig = {
+      plugins: { entries: { "tts-b": { enabled: true } } },
+    };
+    const result = applyExclusiveSlotSelection({
+      config,
+      selectedId: "tts-a",
+      selectedKind: "tts",
+      registry: {
+        plugins: [
+          { id: "tts-a", kind: "tts" },
+          { id: "tts-b", kind: "tts" },
+          { id: "search", kind: "web-search" },
+        ],
+      },
+    });
+
+    expect(result.changed).toBe(true);
+    expect(result.config.plugins?.slots?.tts).toBe("tts-a");
+    expect(result.config.plugins?.entries?.["tts-b"]?.enabled).toBe(false);
+    expect(result.config.plugins?.entries?.search).toBeUndefined();
+    expect(result.warnings).toEqual([
+      'Exclusive slot "tts" now uses "tts-a" instead of the built-in TTS providers.',
+      'Disabled other "tts" slot plugins: tts-b.',
+    ]);
+  });
+
+  it("warns when another plugin already holds the web search slot", () => {
+    const result = applyExclusiveSlotSelection({
+      config: { plugins: { slots: { webSearch: "search-a" } } },
+      selectedId: "search-b",
+      selectedKind: "web-search",
+    });
+
+    expect(result.config.plugins?.slots?.webSearch).toBe("search-b");
+    expect(result.warnings).toContain(
+      'Exclusive slot "webSearch" switched from "search-a" to "search-b".',
+    );
+  });
+
   it("skips changes when no exclusive slot applies", () => {
     const config: OpenClawConfig = {};
     const result = applyExclusiveSlotSelection({
@@ -11,10 +11,26 @@ type SlotPluginRecord = {
 
 const SLOT_BY_KIND: Record<PluginKind, PluginSlotKey> = {
   memory: "memory",
+  tts: "tts",
+  "web-search": "webSearch",
+  sandbox: "sandbox",
 };
 
-const DEFAULT_SLOT_BY_KEY: Record<PluginSlotKey, string> = {
+export const PLUGIN_SLOT_KEYS: readonly PluginSlotKey[] = ["memory", "tts", "webSearch", "sandbox"];
+
+// Slots without a default plugin fall back to the built-in implementation.
+const DEFAULT_SLOT_BY_KEY: Record<PluginSlotKey, string | undefined> = {
   memory: "memory-core",
+  tts: undefined,
+  webSearch: undefined,
+  sandbox: undefined,
+};
+
+const BUILTIN_SLOT_LABEL: Record<PluginSlotKey, string> = {
+  memory: "memory",
+  tts: "built-in TTS providers",
+  webSearch: "built-in web_search providers",
+  sandbox: "built-in Docker sandbox",
 };
 
 export function slotKeyForPluginKind(kind?: PluginKind): PluginSlotKey | null {
@@ -24,10 +40,20 @@ export function slotKeyForPluginKind(kind?: PluginKind): PluginSlotKey | null {
   return SLOT_BY_KIND[kind] ?? null;
 }
 
-export function defaultSlotIdForKey(slotKey: PluginSlotKey): string {
+export function pluginKindForSlotKey(slotKey: PluginSlotKey): PluginKind {
+  const entry = Object.entries(SLOT_BY_KIND).find(([, key]) => key === slotKey);
+  return (entry?.[0] ?? slotKey) as PluginKind;
+}
+
+export function defaultSlotIdForKey(slotKey: PluginSlotKey): string | undefined {
   return DEFAULT_SLOT_BY_KEY[slotKey];
 }
 
+/** Human label for whatever serves a slot when no plugin holds it. */
+export function builtinSlotLabel(slotKey: PluginSlotKey): string {
+  return BUILTIN_SLOT_LABEL[slotKey];
+}
+
 export type SlotSelectionResult = {
   config: OpenClawConfig;
   warnings: string[];
@@ -58,6 +84,10 @@ export function applyExclusiveSlotSelection(params: {
     warnings.push(
       `Exclusive slot "${slotKey}" switched from "${inferredPrevSlot}" to "${params.selectedId}".`,
     );
+  } else if (!inferredPrevSlot) {
+    warnings.push(
+      `Exclusive slot "${slotKey}" now uses "${params.selectedId}" instead of the ${builtinSlotLabel(slotKey)}.`,
+    );
   }
 
   const entries = { ...pluginsConfig.entries };
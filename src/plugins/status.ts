@@ -2,12 +2,27 @@ import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent
 import { resolveDefaultAgentWorkspaceDir } from "../agents/workspace.js";
 import { loadConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { normalizePluginsConfig } from "./config-state.js";
 import { loadOpenClawPlugins } from "./loader.js";
 import { createPluginLoaderLogger } from "./logger.js";
-import type { PluginRegistry } from "./registry.js";
+import type { PluginRecord, PluginRegistry } from "./registry.js";
+import { builtinSlotLabel, PLUGIN_SLOT_KEYS, type PluginSlotKey } from "./slots.js";
+
+export type PluginSlotHolder = {
+  slot: PluginSlotKey;
+  /** Plugin selected for the slot; null when the built-in (or nothing) serves it. */
+  pluginId: string | null;
+  /** True when the slot is explicitly turned off (`"none"`). */
+  disabled: boolean;
+  /** Load status of the selected plugin, if it was discovered. */
+  status?: PluginRecord["status"];
+  /** Built-in implementation used when no plugin holds the slot. */
+  builtin: string;
+};
 
 export type PluginStatusReport = PluginRegistry & {
   workspaceDir?: string;
+  slots: PluginSlotHolder[];
 };
 
 const log = createSubsystemLogger("plugins");
@@ -31,5 +46,27 @@ export function buildPluginStatusReport(params?: {
   return {
     workspaceDir,
     ...registry,
+    slots: resolvePluginSlotHolders({ config, registry }),
   };
 }
+
+export function resolvePluginSlotHolders(params: {
+  config: ReturnType<typeof loadConfig>;
+  registry: Pick<PluginRegistry, "plugins">;
+}): PluginSlotHolder[] {
+  const slots = normalizePluginsConfig(params.config.plugins).slots;
+  return PLUGIN_SLOT_KEYS.map((slot) => {
+    const selected = slots[slot];
+    const pluginId = typeof selected === "string" ? selected : null;
+    const record = pluginId
+      ? params.registry.plugins.find((plugin) => plugin.id === pluginId)
+      : undefined;
+    return {
+      slot,
+      pluginId,
+      disabled: selected === null,
+      status: record?.status,
+      builtin: builtinSlotLabel(slot),
+    };
+  });
+}
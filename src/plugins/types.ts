@@ -2,6 +2,7 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { Command } from "commander";
 import type { AuthProfileCredential, OAuthCredential } from "../agents/auth-profiles/types.js";
+import type { SandboxConfig } from "../agents/sandbox/types.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
 import type { ReplyPayload } from "../auto-reply/types.js";
 import type { ChannelDock } from "../channels/dock.js";
@@ -35,7 +36,11 @@ export type PluginConfigUiHint = {
   placeholder?: string;
 };
 
-export type PluginKind = "memory";
+/**
+ * Plugin kinds that compete for an exclusive slot (`plugins.slots`): only the
+ * selected plugin of each kind loads.
+ */
+export type PluginKind = "memory" | "tts" | "web-search" | "sandbox";
 
 export type PluginConfigValidation =
   | { ok: true; value?: unknown }
@@ -227,6 +232,74 @@ export type OpenClawPluginChannelRegistration = {
   dock?: ChannelDock;
 };
 
+export type PluginTtsSynthesizeResult = {
+  audio: Buffer;
+  /** File extension including the dot (e.g. ".mp3", ".opus"). */
+  extension: string;
+  outputFormat?: string;
+  /** True when the audio can be sent as a voice bubble (opus/ogg). */
+  voiceCompatible?: boolean;
+};
+
+/** Replaces the built-in TTS providers while the plugin holds `plugins.slots.tts`. */
+export type PluginTtsProvider = {
+  id: string;
+  label?: string;
+  synthesize: (params: {
+    text: string;
+    config: OpenClawConfig;
+    /** Normalized channel id the audio is for, when known. */
+    channel?: string;
+    /** Whether the target channel prefers voice-bubble (opus) audio. */
+    preferVoice: boolean;
+    timeoutMs: number;
+  }) => Promise<PluginTtsSynthesizeResult>;
+};
+
+export type PluginWebSearchParams = {
+  query: string;
+  count: number;
+  country?: string;
+  search_lang?: string;
+  ui_lang?: string;
+  freshness?: string;
+  config?: OpenClawConfig;
+};
+
+/** Backs the `web_search` tool while the plugin holds `plugins.slots.webSearch`. */
+export type PluginWebSearchProvider = {
+  id: string;
+  label?: string;
+  /** Tool description shown to the model; defaults to a generic one. */
+  description?: string;
+  /** Returned as the tool result (JSON). */
+  search: (params: PluginWebSearchParams) => Promise<Record<string, unknown>>;
+};
+
+/** Runs sandboxed sessions while the plugin holds `plugins.slots.sandbox`. */
+export type PluginSandboxRuntime = {
+  id: string;
+  label?: string;
+  /**
+   * Create (or reuse) the sandbox for a session and return its handle; the
+   * handle stands in for the Docker container name everywhere else.
+   */
+  ensure: (params: {
+    sessionKey: string;
+    workspaceDir: string;
+    agentWorkspaceDir: string;
+    cfg: SandboxConfig;
+  }) => Promise<string>;
+  /** Host argv that runs `argv` inside the sandbox identified by `handle`. */
+  buildExecArgv: (params: {
+    handle: string;
+    argv: string[];
+    workdir?: string;
+    env?: Record<string, string>;
+    tty?: boolean;
+  }) => string[];
+};
+
 export type OpenClawPluginDefinition = {
   id?: string;
   name?: string;
@@ -268,6 +341,12 @@ export type OpenClawPluginApi = {
   registerCli: (registrar: OpenClawPluginCliRegistrar, opts?: { commands?: string[] }) => void;
   registerService: (service: OpenClawPluginService) => void;
   registerProvider: (provider: ProviderPlugin) => void;
+  /** Requires `kind: "tts"`; used only while the plugin holds the tts slot. */
+  registerTtsProvider: (provider: PluginTtsProvider) => void;
+  /** Requires `kind: "web-search"`; used only while the plugin holds the webSearch slot. */
+  registerWebSearchProvider: (provider: PluginWebSearchProvider) => void;
+  /** Requires `kind: "sandbox"`; used only while the plugin holds the sandbox slot. */
+  registerSandboxRuntime: (runtime: PluginSandboxRuntime) => void;
   /**
    * Register a custom command that bypasses the LLM agent.
    * Plugin commands are processed before built-in commands and before agent invocation.
@@ -296,31 +375,34 @@ export type PluginDiagnostic = {
 // Plugin Hooks
 // ============================================================================
 
-export type PluginHookName =
-  | "before_model_resolve"
-  | "before_prompt_build"
-  | "before_agent_start"
-  | "llm_input"
-  | "llm_output"
-  | "agent_end"
-  | "before_compaction"
-  | "after_compaction"
-  | "before_reset"
-  | "message_received"
-  | "message_sending"
-  | "message_sent"
-  | "before_tool_call"
-  | "after_tool_call"
-  | "tool_result_persist"
-  | "before_message_write"
-  | "session_start"
-  | "session_end"
-  | "subagent_spawning"
-  | "subagent_delivery_target"
-  | "subagent_spawned"
-  | "subagent_ended"
-  | "gateway_start"
-  | "gateway_stop";
+export const PLUGIN_HOOK_NAMES = [
+  "before_model_resolve",
+  "before_prompt_build",
+  "before_agent_start",
+  "llm_input",
+  "llm_output",
+  "agent_end",
+  "before_compaction",
+  "after_compaction",
+  "before_reset",
+  "message_received",
+  "message_sending",
+  "message_sent",
+  "before_tool_call",
+  "after_tool_call",
+  "tool_result_persist",
+  "before_message_write",
+  "session_start",
+  "session_end",
+  "subagent_spawning",
+  "subagent_delivery_target",
+  "subagent_spawned",
+  "subagent_ended",
+  "gateway_start",
+  "gateway_stop",
+] as const;
+
+export type PluginHookName = (typeof PLUGIN_HOOK_NAMES)[number];
 
 // Agent context shared across agent hooks
 export type PluginHookAgentContext = {
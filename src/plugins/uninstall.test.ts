@@ -229,6 +229,26 @@ describe("removePluginFromConfig", () => {
     expect(actions.memorySlot).toBe(false);
   });
 
+  it("releases non-memory slots back to the built-in implementation", () => {
+    const config: OpenClawConfig = {
+      plugins: {
+        entries: {
+          "tts-plugin": { enabled: true },
+        },
+        slots: {
+          memory: "memory-core",
+          tts: "tts-plugin",
+        },
+      },
+    };
+
+    const { config: result, actions } = removePluginFromConfig(config, "tts-plugin");
+
+    expect(result.plugins?.slots).toEqual({ memory: "memory-core" });
+    expect(actions.slots).toEqual(["tts"]);
+    expect(actions.memorySlot).toBe(false);
+  });
+
   it("removes plugins object when uninstall leaves only empty slots", () => {
     const config = createSinglePluginWithEmptySlotsConfig();
 
@@ -3,7 +3,7 @@ import path from "node:path";
 import type { OpenClawConfig } from "../config/config.js";
 import type { PluginInstallRecord } from "../config/types.plugins.js";
 import { resolvePluginInstallDir } from "./install.js";
-import { defaultSlotIdForKey } from "./slots.js";
+import { defaultSlotIdForKey, PLUGIN_SLOT_KEYS, type PluginSlotKey } from "./slots.js";
 
 export type UninstallActions = {
   entry: boolean;
@@ -11,6 +11,8 @@ export type UninstallActions = {
   allowlist: boolean;
   loadPath: boolean;
   memorySlot: boolean;
+  /** Non-memory exclusive slots released back to their built-in implementation. */
+  slots: PluginSlotKey[];
   directory: boolean;
 };
 
@@ -72,6 +74,7 @@ export function removePluginFromConfig(
     allowlist: false,
     loadPath: false,
     memorySlot: false,
+    slots: [],
   };
 
   const pluginsConfig = cfg.plugins ?? {};
@@ -124,6 +127,15 @@ export function removePluginFromConfig(
     };
     actions.memorySlot = true;
   }
+  // Other slots have no default plugin; dropping the key restores the built-in.
+  for (const slotKey of PLUGIN_SLOT_KEYS) {
+    if (slotKey === "memory" || slots?.[slotKey] !== pluginId) {
+      continue;
+    }
+    const { [slotKey]: _, ...rest } = slots;
+    slots = rest;
+    actions.slots.push(slotKey);
+  }
   if (slots && Object.keys(slots).length === 0) {
     slots = undefined;
   }
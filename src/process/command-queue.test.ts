@@ -94,6 +94,39 @@ describe("command queue", () => {
     expect(getQueueSize()).toBe(0);
   });
 
+  it("runs higher-priority tasks ahead of queued lower-priority ones", async () => {
+    const calls: string[] = [];
+    const blocker = enqueueBlockedMainTask();
+    const tasks = [
+      enqueueCommand(async () => calls.push("routine")),
+      enqueueCommand(async () => calls.push("mention"), { priority: 2 }),
+      enqueueCommand(async () => calls.push("owner"), { priority: 3 }),
+    ];
+
+    blocker.release();
+    await Promise.all([blocker.task, ...tasks]);
+    expect(calls).toEqual(["owner", "mention", "routine"]);
+  });
+
+  it("stops overtaking entries that waited past priorityMaxWaitMs", async () => {
+    vi.useFakeTimers();
+    try {
+      const calls: string[] = [];
+      const blocker = enqueueBlockedMainTask();
+      const routine = enqueueCommand(async () => calls.push("routine"), {
+        priorityMaxWaitMs: 1_000,
+      });
+      vi.advanceTimersByTime(1_500);
+      const owner = enqueueCommand(async () => calls.push("owner"), { priority: 3 });
+
+      blocker.release();
+      await Promise.all([blocker.task, routine, owner]);
+      expect(calls).toEqual(["routine", "owner"]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
   it("logs enqueue depth after push", async () => {
     const task = enqueueCommand(async () => {});
 
@@ -38,6 +38,8 @@ type QueueEntry = {
   enqueuedAt: number;
   warnAfterMs: number;
   onWait?: (waitMs: number, queuedAhead: number) => void;
+  priority: number;
+  priorityMaxWaitMs: number;
 };
 
 type LaneState = {
@@ -49,6 +51,9 @@ type LaneState = {
   generation: number;
 };
 
+// Queued entries that waited this long are no longer overtaken by higher priorities.
+const DEFAULT_PRIORITY_MAX_WAIT_MS = 60_000;
+
 const lanes = new Map<string, LaneState>();
 let nextTaskId = 1;
 
@@ -77,6 +82,20 @@ function completeTask(state: LaneState, taskId: number, taskGeneration: number):
   return true;
 }
 
+function takeNextEntry(queue: QueueEntry[]): QueueEntry {
+  const oldest = queue[0];
+  if (Date.now() - oldest.enqueuedAt >= oldest.priorityMaxWaitMs) {
+    return queue.shift() as QueueEntry;
+  }
+  let bestIndex = 0;
+  for (let index = 1; index < queue.length; index += 1) {
+    if (queue[index].priority > queue[bestIndex].priority) {
+      bestIndex = index;
+    }
+  }
+  return queue.splice(bestIndex, 1)[0];
+}
+
 function drainLane(lane: string) {
   const state = getLaneState(lane);
   if (state.draining) {
@@ -92,7 +111,7 @@ function drainLane(lane: string) {
   const pump = () => {
     try {
       while (state.activeTaskIds.size < state.maxConcurrent && state.queue.length > 0) {
-        const entry = state.queue.shift() as QueueEntry;
+        const entry = takeNextEntry(state.queue);
         const waitedMs = Date.now() - entry.enqueuedAt;
         if (waitedMs >= entry.warnAfterMs) {
           try {
@@ -158,13 +177,19 @@ export function setCommandLaneConcurrency(lane: string, maxConcurrent: number) {
   drainLane(cleaned);
 }
 
+type EnqueueOptions = {
+  warnAfterMs?: number;
+  onWait?: (waitMs: number, queuedAhead: number) => void;
+  /** Higher priorities run before lower ones queued in the same lane (default 0). */
+  priority?: number;
+  /** Stop letting higher priorities overtake this entry after it waited this long. */
+  priorityMaxWaitMs?: number;
+};
+
 export function enqueueCommandInLane<T>(
   lane: string,
   task: () => Promise<T>,
-  opts?: {
-    warnAfterMs?: number;
-    onWait?: (waitMs: number, queuedAhead: number) => void;
-  },
+  opts?: EnqueueOptions,
 ): Promise<T> {
   if (gatewayDraining) {
     return Promise.reject(new GatewayDrainingError());
@@ -180,19 +205,15 @@ export function enqueueCommandInLane<T>(
       enqueuedAt: Date.now(),
       warnAfterMs,
       onWait: opts?.onWait,
+      priority: opts?.priority ?? 0,
+      priorityMaxWaitMs: Math.max(0, opts?.priorityMaxWaitMs ?? DEFAULT_PRIORITY_MAX_WAIT_MS),
     });
     logLaneEnqueue(cleaned, state.queue.length + state.activeTaskIds.size);
     drainLane(cleaned);
   });
 }
 
-export function enqueueCommand<T>(
-  task: () => Promise<T>,
-  opts?: {
-    warnAfterMs?: number;
-    onWait?: (waitMs: number, queuedAhead: number) => void;
-  },
-): Promise<T> {
+export function enqueueCommand<T>(task: () => Promise<T>, opts?: EnqueueOptions): Promise<T> {
   return enqueueCommandInLane(CommandLane.Main, task, opts);
 }
 
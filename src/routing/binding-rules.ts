@@ -0,0 +1,137 @@
+import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding, AgentBindingSchedule } from "../config/types.agents.js";
+import { isWithinHoursWindow } from "../infra/heartbeat-active-hours.js";
+import { compileSafeRegex } from "../security/safe-regex.js";
+
+/** Which condition a rule binding is reported under (`binding.<kind>`), most specific first. */
+export type BindingRuleKind = "intent" | "text" | "sender" | "schedule";
+
+export type NormalizedBindingRule = {
+  kind: BindingRuleKind;
+  /** Null when `text` is unset; `false` when it is set but not a safe regex. */
+  text: RegExp | false | null;
+  keywords: RegExp | null;
+  senders: Set<string> | null;
+  schedule: AgentBindingSchedule | null;
+  intent: string | null;
+};
+
+export type BindingRuleContext = {
+  cfg: OpenClawConfig;
+  text: string;
+  senderId: string;
+  nowMs: number;
+  /** Whether the route classifier picked this binding. */
+  classified: boolean;
+};
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeSenderId(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function compileKeywords(keywords: string[] | undefined): RegExp | null {
+  const words = (keywords ?? []).map((word) => word.trim()).filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+  // Whole-word match that also works for non-Latin scripts (`\b` is ASCII-only).
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${words.map(escapeRegex).join("|")})(?![\\p{L}\\p{N}_])`,
+    "iu",
+  );
+}
+
+/** Conditions beyond channel/account/peer scope; null for plain bindings. */
+export function normalizeBindingRule(
+  match: AgentBinding["match"] | undefined,
+): NormalizedBindingRule | null {
+  const rawText = match?.text?.trim();
+  const keywords = compileKeywords(match?.keywords);
+  const senders = (match?.senders ?? []).map(normalizeSenderId).filter(Boolean);
+  const schedule = match?.schedule ?? null;
+  const intent = match?.intent?.trim() || null;
+  if (!rawText && !keywords && senders.length === 0 && !schedule && !intent) {
+    return null;
+  }
+  const kind: BindingRuleKind = intent
+    ? "intent"
+    : rawText || keywords
+      ? "text"
+      : senders.length > 0
+        ? "sender"
+        : "schedule";
+  return {
+    kind,
+    text: rawText ? (compileSafeRegex(rawText, "i") ?? false) : null,
+    keywords,
+    senders: senders.length > 0 ? new Set(senders) : null,
+    schedule,
+    intent,
+  };
+}
+
+function describeSchedule(schedule: AgentBindingSchedule): string {
+  const days = schedule.days?.length ? ` ${schedule.days.join(",")}` : "";
+  return `${schedule.start}-${schedule.end}${days}`;
+}
+
+/**
+ * Evaluate a rule's conditions. Returns null when all of them hold, otherwise
+ * the first failing condition (used by `openclaw agents route --explain`).
+ * `skipIntent` checks everything except the classifier decision.
+ */
+export function explainBindingRuleMismatch(
+  rule: NormalizedBindingRule,
+  ctx: BindingRuleContext,
+  opts?: { skipIntent?: boolean },
+): string | null {
+  if (rule.senders && !rule.senders.has(normalizeSenderId(ctx.senderId))) {
+    return ctx.senderId ? `sender ${ctx.senderId} not in senders` : "no sender id";
+  }
+  if (rule.schedule) {
+    const within = isWithinHoursWindow(ctx.cfg, rule.schedule, ctx.nowMs);
+    if (within !== true) {
+      return `outside schedule ${describeSchedule(rule.schedule)}`;
+    }
+  }
+  if ((rule.text !== null || rule.keywords || rule.intent) && !ctx.text.trim()) {
+    return "no message text";
+  }
+  if (rule.text === false) {
+    return "text is not a safe regex";
+  }
+  if (rule.text && !rule.text.test(ctx.text)) {
+    return `text does not match /${rule.text.source}/i`;
+  }
+  if (rule.keywords && !rule.keywords.test(ctx.text)) {
+    return "no keyword found";
+  }
+  if (rule.intent && !opts?.skipIntent && !ctx.classified) {
+    return "classifier did not pick this intent";
+  }
+  return null;
+}
+
+export function describeBindingRule(match: AgentBinding["match"]): string[] {
+  const parts: string[] = [];
+  if (match.text) {
+    parts.push(`text=/${match.text}/i`);
+  }
+  if (match.keywords?.length) {
+    parts.push(`keywords=${match.keywords.join(",")}`);
+  }
+  if (match.senders?.length) {
+    parts.push(`senders=${match.senders.join(",")}`);
+  }
+  if (match.schedule) {
+    parts.push(`schedule=${describeSchedule(match.schedule)}`);
+  }
+  if (match.intent) {
+    parts.push(`intent="${match.intent}"`);
+  }
+  return parts;
+}
@@ -1,7 +1,11 @@
 import { describe, expect, test } from "vitest";
 import type { ChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { resolveAgentRoute } from "./resolve-route.js";
+import {
+  explainAgentRoute,
+  listRouteIntentCandidates,
+  resolveAgentRoute,
+} from "./resolve-route.js";
 
 describe("resolveAgentRoute", () => {
   test("defaults to main/default when no bindings exist", () => {
@@ -703,3 +707,206 @@ describe("role-based agent routing", () => {
     });
   });
 });
+
+describe("rule bindings", () => {
+  // Sunday 2026-10-18 09:30 UTC.
+  const sundayMorning = Date.UTC(2026, 9, 18, 9, 30);
+  const cfg: OpenClawConfig = {
+    agents: {
+      list: [
+        { id: "main", default: true },
+        { id: "billing" },
+        { id: "vip" },
+        { id: "night" },
+        { id: "sales" },
+      ],
+    },
+    bindings: [
+      { agentId: "main", match: { channel: "telegram", accountId: "*" } },
+      { agentId: "billing", match: { channel: "telegram", keywords: ["refund", "invoice"] } },
+      { agentId: "vip", match: { channel: "telegram", senders: ["42"] } },
+      {
+        agentId: "night",
+        match: {
+          channel: "telegram",
+          schedule: { start: "22:00", end: "08:00", timezone: "UTC", days: ["sat", "sun"] },
+        },
+      },
+      { agentId: "sales", match: { channel: "telegram", intent: "pricing or plan questions" } },
+    ],
+  };
+  const route = (params: {
+    text?: string;
+    senderId?: string;
+    nowMs?: number;
+    classified?: number;
+  }) =>
+    resolveAgentRoute({
+      cfg,
+      channel: "telegram",
+      peer: { kind: "group", id: "-100" },
+      text: params.text,
+      senderId: params.senderId,
+      nowMs: params.nowMs ?? sundayMorning,
+      classifiedBindingIndex: params.classified,
+    });
+
+  test("keyword rules match whole words", () => {
+    expect(route({ text: "Need a REFUND now" })).toMatchObject({
+      agentId: "billing",
+      matchedBy: "binding.text",
+    });
+    expect(route({ text: "refunded already" })).toMatchObject({
+      agentId: "main",
+      matchedBy: "binding.channel",
+    });
+  });
+
+  test("rules are evaluated within the tier of their scope", () => {
+    const tiered: OpenClawConfig = {
+      bindings: [
+        { agentId: "support", match: { channel: "telegram", keywords: ["refund"] } },
+        { agentId: "main", match: { channel: "telegram", peer: { kind: "group", id: "-100" } } },
+        {
+          agentId: "billing",
+          match: { channel: "telegram", peer: { kind: "group", id: "-100" }, keywords: ["refund"] },
+        },
+        { agentId: "sales", match: { channel: "telegram", intent: "pricing or plan questions" } },
+      ],
+    };
+    const resolve = (peerId: string, text: string) =>
+      resolveAgentRoute({
+        cfg: tiered,
+        channel: "telegram",
+        peer: { kind: "group", id: peerId },
+        text,
+      });
+    // A peer binding beats a channel-wide rule, but a peer rule beats a plain peer binding.
+    expect(resolve("-100", "refund please")).toMatchObject({
+      agentId: "billing",
+      matchedBy: "binding.text",
+    });
+    expect(resolve("-100", "hello")).toMatchObject({ agentId: "main", matchedBy: "binding.peer" });
+    expect(resolve("-200", "refund please")).toMatchObject({
+      agentId: "support",
+      matchedBy: "binding.text",
+    });
+    // The peer binding already decides the route, so the classifier is not consulted.
+    expect(
+      listRouteIntentCandidates({
+        cfg: tiered,
+        channel: "telegram",
+        peer: { kind: "group", id: "-100" },
+        text: "how much is pro?",
+      }),
+    ).toEqual([]);
+    expect(
+      listRouteIntentCandidates({
+        cfg: tiered,
+        channel: "telegram",
+        peer: { kind: "group", id: "-200" },
+        text: "how much is pro?",
+      }),
+    ).toEqual([{ index: 3, agentId: "sales", intent: "pricing or plan questions" }]);
+  });
+
+  test("rules are checked in config order", () => {
+    expect(route({ text: "invoice", senderId: "42" }).agentId).toBe("billing");
+    expect(route({ text: "hello", senderId: "42" })).toMatchObject({
+      agentId: "vip",
+      matchedBy: "binding.sender",
+    });
+  });
+
+  test("schedule rules follow days and overnight windows", () => {
+    // 05:00 Sunday is inside Saturday's overnight window.
+    expect(route({ nowMs: Date.UTC(2026, 9, 18, 5, 0) })).toMatchObject({
+      agentId: "night",
+      matchedBy: "binding.schedule",
+    });
+    // 05:00 Saturday belongs to Friday's window, which is not scheduled.
+    expect(route({ nowMs: Date.UTC(2026, 9, 17, 5, 0) }).agentId).toBe("main");
+  });
+
+  test("intent rules only match when the classifier picked them", () => {
+    expect(route({ text: "how much is pro?" }).agentId).toBe("main");
+    expect(
+      listRouteIntentCandidates({
+        cfg,
+        channel: "telegram",
+        peer: { kind: "group", id: "-100" },
+        text: "how much is pro?",
+        nowMs: sundayMorning,
+      }),
+    ).toEqual([{ index: 4, agentId: "sales", intent: "pricing or plan questions" }]);
+    expect(route({ text: "how much is pro?", classified: 4 })).toMatchObject({
+      agentId: "sales",
+      matchedBy: "binding.intent",
+    });
+    expect(
+      listRouteIntentCandidates({
+        cfg,
+        channel: "telegram",
+        text: "refund for pro",
+        nowMs: sundayMorning,
+      }),
+    ).toEqual([]);
+  });
+
+  test("text rules respect the binding scope", () => {
+    const scoped = resolveAgentRoute({
+      cfg: {
+        bindings: [
+          {
+            agentId: "ops",
+            match: { channel: "slack", teamId: "T1", text: "^deploy\\b" },
+          },
+        ],
+      },
+      channel: "slack",
+      teamId: "T2",
+      text: "deploy prod",
+    });
+    expect(scoped.matchedBy).toBe("default");
+  });
+
+  test("explainAgentRoute reports why each binding did or did not apply", () => {
+    const explanation = explainAgentRoute({
+      cfg,
+      channel: "telegram",
+      peer: { kind: "group", id: "-100" },
+      text: "hello",
+      senderId: "7",
+      nowMs: sundayMorning,
+    });
+    expect(explanation.route.agentId).toBe("main");
+    expect(explanation.bindings).toEqual([
+      { index: 0, agentId: "main", applies: true, selected: true },
+      { index: 1, agentId: "billing", applies: false, selected: false, reason: "no keyword found" },
+      {
+        index: 2,
+        agentId: "vip",
+        applies: false,
+        selected: false,
+        reason: "sender 7 not in senders",
+      },
+      {
+        index: 3,
+        agentId: "night",
+        applies: false,
+        selected: false,
+        reason: "outside schedule 22:00-08:00 sat,sun",
+      },
+      {
+        index: 4,
+        agentId: "sales",
+        applies: false,
+        selected: false,
+        reason: "classifier did not pick this intent",
+      },
+    ]);
+    expect(
+      explainAgentRoute({ cfg, channel: "discord", nowMs: sundayMorning }).bindings[0],
+    ).toMatchObject({ applies: false, reason: "channel is discord" });
+  });
+});
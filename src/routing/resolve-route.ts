@@ -2,8 +2,16 @@ import { resolveDefaultAgentId } from "../agents/agent-scope.js";
 import type { ChatType } from "../channels/chat-type.js";
 import { normalizeChatType } from "../channels/chat-type.js";
 import type { OpenClawConfig } from "../config/config.js";
+import type { AgentBinding } from "../config/types.agents.js";
 import { shouldLogVerbose } from "../globals.js";
 import { logDebug } from "../logger.js";
+import { resolveIdentityLinks } from "../pairing/identity-links.js";
+import {
+  explainBindingRuleMismatch,
+  normalizeBindingRule,
+  type BindingRuleContext,
+  type NormalizedBindingRule,
+} from "./binding-rules.js";
 import { listBindings } from "./bindings.js";
 import {
   buildAgentMainSessionKey,
@@ -34,6 +42,14 @@ export type ResolveAgentRouteInput = {
   teamId?: string | null;
   /** Discord member role IDs — used for role-based agent routing. */
   memberRoleIds?: string[];
+  /** Inbound message text — used by `text`, `keywords` and `intent` binding rules. */
+  text?: string | null;
+  /** Sender id — used by `senders` binding rules. */
+  senderId?: string | null;
+  /** Evaluation time for `schedule` binding rules. Default: now. */
+  nowMs?: number;
+  /** Binding index picked by the route classifier (see route-classifier.ts). */
+  classifiedBindingIndex?: number | null;
 };
 
 export type ResolvedAgentRoute = {
@@ -46,6 +62,10 @@ export type ResolvedAgentRoute = {
   mainSessionKey: string;
   /** Match description for debugging/logging. */
   matchedBy:
+    | "binding.intent"
+    | "binding.text"
+    | "binding.sender"
+    | "binding.schedule"
     | "binding.peer"
     | "binding.peer.parent"
     | "binding.guild+roles"
@@ -150,9 +170,12 @@ type NormalizedBindingMatch = {
   guildId: string | null;
   teamId: string | null;
   roles: string[] | null;
+  rule: NormalizedBindingRule | null;
 };
 
 type EvaluatedBinding = {
+  /** Position in `cfg.bindings`. */
+  index: number;
   binding: ReturnType<typeof listBindings>[number];
   match: NormalizedBindingMatch;
 };
@@ -193,7 +216,7 @@ function getEvaluatedBindingsForChannelAccount(
     return hit;
   }
 
-  const evaluated: EvaluatedBinding[] = listBindings(cfg).flatMap((binding) => {
+  const evaluated: EvaluatedBinding[] = listBindings(cfg).flatMap((binding, index) => {
     if (!binding || typeof binding !== "object") {
       return [];
     }
@@ -203,7 +226,7 @@ function getEvaluatedBindingsForChannelAccount(
     if (!matchesAccountId(binding.match?.accountId, accountId)) {
       return [];
     }
-    return [{ binding, match: normalizeBindingMatch(binding.match) }];
+    return [{ index, binding, match: normalizeBindingMatch(binding.match) }];
   });
 
   cache.byChannelAccount.set(cacheKey, evaluated);
@@ -229,17 +252,7 @@ function normalizePeerConstraint(
   return { state: "valid", kind, id };
 }
 
-function normalizeBindingMatch(
-  match:
-    | {
-        accountId?: string | undefined;
-        peer?: { kind?: string; id?: string } | undefined;
-        guildId?: string | undefined;
-        teamId?: string | undefined;
-        roles?: string[] | undefined;
-      }
-    | undefined,
-): NormalizedBindingMatch {
+function normalizeBindingMatch(match: AgentBinding["match"] | undefined): NormalizedBindingMatch {
   const rawRoles = match?.roles;
   return {
     accountPattern: (match?.accountId ?? "").trim(),
@@ -247,6 +260,7 @@ function normalizeBindingMatch(
     guildId: normalizeId(match?.guildId) || null,
     teamId: normalizeId(match?.teamId) || null,
     roles: Array.isArray(rawRoles) && rawRoles.length > 0 ? rawRoles : null,
+    rule: normalizeBindingRule(match),
   };
 }
 
@@ -288,7 +302,44 @@ function matchesBindingScope(match: NormalizedBindingMatch, scope: BindingScope)
   return true;
 }
 
-export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+function explainBindingScopeMismatch(
+  match: NormalizedBindingMatch,
+  scope: BindingScope,
+): string | null {
+  if (match.peer.state === "invalid") {
+    return "invalid peer";
+  }
+  if (match.peer.state === "valid") {
+    if (!scope.peer || scope.peer.kind !== match.peer.kind || scope.peer.id !== match.peer.id) {
+      return `peer is ${scope.peer ? `${scope.peer.kind}:${scope.peer.id}` : "none"}`;
+    }
+  }
+  if (match.guildId && match.guildId !== scope.guildId) {
+    return `guild is ${scope.guildId || "none"}`;
+  }
+  if (match.teamId && match.teamId !== scope.teamId) {
+    return `team is ${scope.teamId || "none"}`;
+  }
+  if (match.roles && !match.roles.some((role) => scope.memberRoleIds.has(role))) {
+    return "no matching role";
+  }
+  return null;
+}
+
+type PreparedRouteInput = {
+  channel: string;
+  accountId: string;
+  peer: RoutePeer | null;
+  parentPeer: RoutePeer | null;
+  guildId: string;
+  teamId: string;
+  memberRoleIds: string[];
+  baseScope: Omit<BindingScope, "peer">;
+  bindings: EvaluatedBinding[];
+  ruleContext: Omit<BindingRuleContext, "classified">;
+};
+
+function prepareRouteInput(input: ResolveAgentRouteInput): PreparedRouteInput {
   const channel = normalizeToken(input.channel);
   const accountId = normalizeAccountId(input.accountId);
   const peer = input.peer
@@ -297,82 +348,46 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
         id: normalizeId(input.peer.id),
       }
     : null;
+  // Thread parent inheritance: if peer (thread) didn't match, check parent peer binding
+  const parentPeer =
+    input.parentPeer && normalizeId(input.parentPeer.id)
+      ? {
+          kind: normalizeChatType(input.parentPeer.kind) ?? input.parentPeer.kind,
+          id: normalizeId(input.parentPeer.id),
+        }
+      : null;
   const guildId = normalizeId(input.guildId);
   const teamId = normalizeId(input.teamId);
   const memberRoleIds = input.memberRoleIds ?? [];
-  const memberRoleIdSet = new Set(memberRoleIds);
-
-  const bindings = getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId);
-
-  const dmScope = input.cfg.session?.dmScope ?? "main";
-  const identityLinks = input.cfg.session?.identityLinks;
-
-  const choose = (agentId: string, matchedBy: ResolvedAgentRoute["matchedBy"]) => {
-    const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
-    const sessionKey = buildAgentSessionKey({
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      peer,
-      dmScope,
-      identityLinks,
-    }).toLowerCase();
-    const mainSessionKey = buildAgentMainSessionKey({
-      agentId: resolvedAgentId,
-      mainKey: DEFAULT_MAIN_KEY,
-    }).toLowerCase();
-    return {
-      agentId: resolvedAgentId,
-      channel,
-      accountId,
-      sessionKey,
-      mainSessionKey,
-      matchedBy,
-    };
-  };
-
-  const shouldLogDebug = shouldLogVerbose();
-  const formatPeer = (value?: RoutePeer | null) =>
-    value?.kind && value?.id ? `${value.kind}:${value.id}` : "none";
-  const formatNormalizedPeer = (value: NormalizedPeerConstraint) => {
-    if (value.state === "none") {
-      return "none";
-    }
-    if (value.state === "invalid") {
-      return "invalid";
-    }
-    return `${value.kind}:${value.id}`;
-  };
-
-  if (shouldLogDebug) {
-    logDebug(
-      `[routing] resolveAgentRoute: channel=${channel} accountId=${accountId} peer=${formatPeer(peer)} guildId=${guildId || "none"} teamId=${teamId || "none"} bindings=${bindings.length}`,
-    );
-    for (const entry of bindings) {
-      logDebug(
-        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0}`,
-      );
-    }
-  }
-  // Thread parent inheritance: if peer (thread) didn't match, check parent peer binding
-  const parentPeer = input.parentPeer
-    ? {
-        kind: normalizeChatType(input.parentPeer.kind) ?? input.parentPeer.kind,
-        id: normalizeId(input.parentPeer.id),
-      }
-    : null;
-  const baseScope = {
+  return {
+    channel,
+    accountId,
+    peer,
+    parentPeer,
     guildId,
     teamId,
-    memberRoleIds: memberRoleIdSet,
+    memberRoleIds,
+    baseScope: { guildId, teamId, memberRoleIds: new Set(memberRoleIds) },
+    bindings: getEvaluatedBindingsForChannelAccount(input.cfg, channel, accountId),
+    ruleContext: {
+      cfg: input.cfg,
+      text: input.text ?? "",
+      senderId: normalizeId(input.senderId),
+      nowMs: input.nowMs ?? Date.now(),
+    },
   };
+}
+
+type RouteTier = {
+  matchedBy: ResolvedAgentRoute["matchedBy"];
+  enabled: boolean;
+  scopePeer: RoutePeer | null;
+  predicate: (candidate: EvaluatedBinding) => boolean;
+};
 
-  const tiers: Array<{
-    matchedBy: Exclude<ResolvedAgentRoute["matchedBy"], "default">;
-    enabled: boolean;
-    scopePeer: RoutePeer | null;
-    predicate: (candidate: EvaluatedBinding) => boolean;
-  }> = [
+function buildRouteTiers(prepared: PreparedRouteInput): RouteTier[] {
+  const { peer, parentPeer, guildId, teamId, memberRoleIds } = prepared;
+  return [
     {
       matchedBy: "binding.peer",
       enabled: Boolean(peer),
@@ -381,8 +396,8 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
     },
     {
       matchedBy: "binding.peer.parent",
-      enabled: Boolean(parentPeer && parentPeer.id),
-      scopePeer: parentPeer && parentPeer.id ? parentPeer : null,
+      enabled: Boolean(parentPeer),
+      scopePeer: parentPeer,
       predicate: (candidate) => candidate.match.peer.state === "valid",
     },
     {
@@ -418,26 +433,231 @@ export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentR
       predicate: (candidate) => candidate.match.accountPattern === "*",
     },
   ];
+}
+
+/** Bindings whose scope belongs to `tier` and matches this input, in config order. */
+function listTierBindings(tier: RouteTier, prepared: PreparedRouteInput): EvaluatedBinding[] {
+  if (!tier.enabled) {
+    return [];
+  }
+  return prepared.bindings.filter(
+    (candidate) =>
+      tier.predicate(candidate) &&
+      matchesBindingScope(candidate.match, { ...prepared.baseScope, peer: tier.scopePeer }),
+  );
+}
+
+function resolveAgentRouteMatch(input: ResolveAgentRouteInput): {
+  route: ResolvedAgentRoute;
+  matched: EvaluatedBinding | null;
+} {
+  const prepared = prepareRouteInput(input);
+  const { channel, accountId, peer, guildId, teamId, bindings } = prepared;
+
+  const dmScope = input.cfg.session?.dmScope ?? "main";
+  const identityLinks = resolveIdentityLinks(input.cfg);
+
+  const choose = (
+    agentId: string,
+    matchedBy: ResolvedAgentRoute["matchedBy"],
+    matched: EvaluatedBinding | null = null,
+  ) => {
+    const resolvedAgentId = pickFirstExistingAgentId(input.cfg, agentId);
+    const sessionKey = buildAgentSessionKey({
+      agentId: resolvedAgentId,
+      channel,
+      accountId,
+      peer,
+      dmScope,
+      identityLinks,
+    }).toLowerCase();
+    const mainSessionKey = buildAgentMainSessionKey({
+      agentId: resolvedAgentId,
+      mainKey: DEFAULT_MAIN_KEY,
+    }).toLowerCase();
+    return {
+      route: {
+        agentId: resolvedAgentId,
+        channel,
+        accountId,
+        sessionKey,
+        mainSessionKey,
+        matchedBy,
+      },
+      matched,
+    };
+  };
+
+  const shouldLogDebug = shouldLogVerbose();
+  const formatPeer = (value?: RoutePeer | null) =>
+    value?.kind && value?.id ? `${value.kind}:${value.id}` : "none";
+  const formatNormalizedPeer = (value: NormalizedPeerConstraint) => {
+    if (value.state === "none") {
+      return "none";
+    }
+    if (value.state === "invalid") {
+      return "invalid";
+    }
+    return `${value.kind}:${value.id}`;
+  };
 
-  for (const tier of tiers) {
-    if (!tier.enabled) {
-      continue;
+  if (shouldLogDebug) {
+    logDebug(
+      `[routing] resolveAgentRoute: channel=${channel} accountId=${accountId} peer=${formatPeer(peer)} guildId=${guildId || "none"} teamId=${teamId || "none"} bindings=${bindings.length}`,
+    );
+    for (const entry of bindings) {
+      logDebug(
+        `[routing] binding: agentId=${entry.binding.agentId} accountPattern=${entry.match.accountPattern || "default"} peer=${formatNormalizedPeer(entry.match.peer)} guildId=${entry.match.guildId ?? "none"} teamId=${entry.match.teamId ?? "none"} roles=${entry.match.roles?.length ?? 0} rule=${entry.match.rule?.kind ?? "none"}`,
+      );
     }
-    const matched = bindings.find(
+  }
+
+  // Rule bindings (text, keywords, senders, schedule, intent) sit in the tier
+  // their scope belongs to, so a peer binding still beats a channel-wide rule.
+  // Within a tier, a matching rule beats a plain binding of the same scope.
+  for (const tier of buildRouteTiers(prepared)) {
+    const inTier = listTierBindings(tier, prepared);
+    const rule = inTier.find(
       (candidate) =>
-        tier.predicate(candidate) &&
-        matchesBindingScope(candidate.match, {
-          ...baseScope,
-          peer: tier.scopePeer,
+        candidate.match.rule &&
+        !explainBindingRuleMismatch(candidate.match.rule, {
+          ...prepared.ruleContext,
+          classified: candidate.index === input.classifiedBindingIndex,
         }),
     );
+    if (rule?.match.rule) {
+      const matchedBy = `binding.${rule.match.rule.kind}` as const;
+      if (shouldLogDebug) {
+        logDebug(`[routing] match: matchedBy=${matchedBy} agentId=${rule.binding.agentId}`);
+      }
+      return choose(rule.binding.agentId, matchedBy, rule);
+    }
+    const matched = inTier.find((candidate) => !candidate.match.rule);
     if (matched) {
       if (shouldLogDebug) {
         logDebug(`[routing] match: matchedBy=${tier.matchedBy} agentId=${matched.binding.agentId}`);
       }
-      return choose(matched.binding.agentId, tier.matchedBy);
+      return choose(matched.binding.agentId, tier.matchedBy, matched);
     }
   }
 
   return choose(resolveDefaultAgentId(input.cfg), "default");
 }
+
+export function resolveAgentRoute(input: ResolveAgentRouteInput): ResolvedAgentRoute {
+  return resolveAgentRouteMatch(input).route;
+}
+
+export type RouteIntentCandidate = {
+  /** Position in `cfg.bindings`. */
+  index: number;
+  agentId: string;
+  intent: string;
+};
+
+/**
+ * Intent bindings the classifier could still pick for this input: their other
+ * conditions hold and no rule or plain binding in an earlier tier (or earlier
+ * in the same tier) already decides the route.
+ */
+export function listRouteIntentCandidates(input: ResolveAgentRouteInput): RouteIntentCandidate[] {
+  const prepared = prepareRouteInput(input);
+  const candidates: RouteIntentCandidate[] = [];
+  const seen = new Set<number>();
+  for (const tier of buildRouteTiers(prepared)) {
+    const inTier = listTierBindings(tier, prepared);
+    for (const candidate of inTier) {
+      const rule = candidate.match.rule;
+      if (!rule || seen.has(candidate.index)) {
+        continue;
+      }
+      seen.add(candidate.index);
+      if (
+        explainBindingRuleMismatch(
+          rule,
+          { ...prepared.ruleContext, classified: false },
+          { skipIntent: true },
+        )
+      ) {
+        continue;
+      }
+      if (!rule.intent) {
+        return candidates;
+      }
+      candidates.push({
+        index: candidate.index,
+        agentId: candidate.binding.agentId,
+        intent: rule.intent,
+      });
+    }
+    if (inTier.some((candidate) => !candidate.match.rule)) {
+      return candidates;
+    }
+  }
+  return candidates;
+}
+
+export type AgentRouteBindingExplanation = {
+  /** Position in `cfg.bindings`. */
+  index: number;
+  agentId: string;
+  comment?: string;
+  /** Whether every condition of the binding holds for this input. */
+  applies: boolean;
+  /** True for the binding that decided the route. */
+  selected: boolean;
+  /** First failing condition when the binding does not apply. */
+  reason?: string;
+};
+
+export type AgentRouteExplanation = {
+  route: ResolvedAgentRoute;
+  bindings: AgentRouteBindingExplanation[];
+};
+
+/** Resolve a route and report, per configured binding, why it did or did not apply. */
+export function explainAgentRoute(input: ResolveAgentRouteInput): AgentRouteExplanation {
+  const { route, matched } = resolveAgentRouteMatch(input);
+  const prepared = prepareRouteInput(input);
+  const evaluated = new Map(prepared.bindings.map((entry) => [entry.index, entry]));
+  const bindings = listBindings(input.cfg).map((binding, index) => {
+    const base = {
+      index,
+      agentId: binding?.agentId ?? "",
+      ...(binding?.comment ? { comment: binding.comment } : {}),
+      selected: matched?.index === index,
+    };
+    const entry = evaluated.get(index);
+    if (!entry) {
+      const bindingChannel = normalizeToken(binding?.match?.channel);
+      const reason =
+        bindingChannel !== prepared.channel
+          ? `channel is ${prepared.channel || "none"}`
+          : `account is ${prepared.accountId}`;
+      return { ...base, applies: false, reason };
+    }
+    const peerReason = explainBindingScopeMismatch(entry.match, {
+      ...prepared.baseScope,
+      peer: prepared.peer,
+    });
+    const scopeReason =
+      peerReason &&
+      prepared.parentPeer &&
+      !explainBindingScopeMismatch(entry.match, {
+        ...prepared.baseScope,
+        peer: prepared.parentPeer,
+      })
+        ? null
+        : peerReason;
+    const reason =
+      scopeReason ??
+      (entry.match.rule
+        ? explainBindingRuleMismatch(entry.match.rule, {
+            ...prepared.ruleContext,
+            classified: entry.index === input.classifiedBindingIndex,
+          })
+        : null);
+    return reason ? { ...base, applies: false, reason } : { ...base, applies: true };
+  });
+  return { route, bindings };
+}
@@ -0,0 +1,133 @@
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import { resolveDefaultAgentId } from "../agents/agent-scope.js";
+import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "../agents/model-selection.js";
+import { resolveModel } from "../agents/pi-embedded-runner/model.js";
+import type { OpenClawConfig } from "../config/config.js";
+import { logVerbose } from "../globals.js";
+import { formatErrorMessage } from "../infra/errors.js";
+import {
+  listRouteIntentCandidates,
+  resolveAgentRoute,
+  type ResolveAgentRouteInput,
+  type ResolvedAgentRoute,
+  type RouteIntentCandidate,
+} from "./resolve-route.js";
+
+const DEFAULT_CLASSIFIER_TIMEOUT_MS = 5000;
+const MAX_MESSAGE_CHARS = 2000;
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+export function buildRouteClassifierPrompt(text: string, intents: string[]): string {
+  const options = intents
+    .map((intent, index) => `${index + 1}. ${intent.replaceAll("\n", " ")}`)
+    .join("\n");
+  return (
+    `You route chat messages. Pick the numbered intent that best describes the message, ` +
+    `or 0 if none fits. Reply only with the number.\n\n` +
+    `<intents>\n${options}\n</intents>\n\n<message>\n${text.slice(0, MAX_MESSAGE_CHARS)}\n</message>`
+  );
+}
+
+/** Parse the classifier's reply into a 1-based intent number; null for "none" or garbage. */
+export function parseRouteClassifierReply(text: string, count: number): number | null {
+  const match = text.match(/\d+/);
+  const value = match ? Number.parseInt(match[0], 10) : 0;
+  return value >= 1 && value <= count ? value : null;
+}
+
+/**
+ * Ask the route classifier model (`agents.routeClassifier.model`, default: the
+ * default agent's model) which intent binding fits the message. Returns the
+ * picked candidate, or null when none fits or the call fails.
+ */
+export async function classifyRouteIntent(params: {
+  cfg: OpenClawConfig;
+  text: string;
+  candidates: RouteIntentCandidate[];
+}): Promise<RouteIntentCandidate | null> {
+  const { cfg, candidates } = params;
+  const settings = cfg.agents?.routeClassifier;
+  const timeoutMs = settings?.timeoutMs ?? DEFAULT_CLASSIFIER_TIMEOUT_MS;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const defaultRef = resolveDefaultModelForAgent({ cfg, agentId: resolveDefaultAgentId(cfg) });
+    const raw = settings?.model;
+    const ref = raw
+      ? resolveModelRefFromString({
+          raw,
+          defaultProvider: defaultRef.provider,
+          aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+        })?.ref
+      : defaultRef;
+    if (!ref) {
+      throw new Error(`Unknown route classifier model: ${raw}`);
+    }
+    const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+    const model = resolved.model;
+    if (!model) {
+      throw new Error(
+        resolved.error ?? `Unknown route classifier model: ${ref.provider}/${ref.model}`,
+      );
+    }
+    const apiKey = requireApiKey(await getApiKeyForModel({ model, cfg }), ref.provider);
+    const res = await completeSimple(
+      model,
+      {
+        messages: [
+          {
+            role: "user",
+            content: buildRouteClassifierPrompt(
+              params.text,
+              candidates.map((candidate) => candidate.intent),
+            ),
+            timestamp: Date.now(),
+          },
+        ],
+      },
+      { apiKey, maxTokens: 8, temperature: 0, signal: controller.signal },
+    );
+    if (res.stopReason === "error" || res.stopReason === "aborted") {
+      throw new Error(res.errorMessage ?? `route classifier stopped: ${res.stopReason}`);
+    }
+    const reply = res.content
+      .filter(isTextContentBlock)
+      .map((block) => block.text)
+      .join("");
+    const picked = parseRouteClassifierReply(reply, candidates.length);
+    return picked ? (candidates[picked - 1] ?? null) : null;
+  } catch (err) {
+    logVerbose(`route classifier failed: ${formatErrorMessage(err)}`);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Resolve a route, consulting the route classifier first when `intent`
+ * bindings could apply to this message. Without intent bindings this is the
+ * same as `resolveAgentRoute` and makes no model call.
+ */
+export async function resolveAgentRouteWithClassifier(
+  input: ResolveAgentRouteInput,
+): Promise<ResolvedAgentRoute> {
+  const text = input.text?.trim();
+  if (!text) {
+    return resolveAgentRoute(input);
+  }
+  const candidates = listRouteIntentCandidates(input);
+  if (candidates.length === 0) {
+    return resolveAgentRoute(input);
+  }
+  const picked = await classifyRouteIntent({ cfg: input.cfg, text, candidates });
+  return resolveAgentRoute({ ...input, classifiedBindingIndex: picked?.index ?? null });
+}
@@ -25,7 +25,9 @@ import { createConfigIO } from "../config/config.js";
 import { collectIncludePathsRecursive } from "../config/includes-scan.js";
 import { resolveOAuthDir } from "../config/paths.js";
 import type { AgentToolsConfig } from "../config/types.tools.js";
+import { listDangerousPluginCapabilities } from "../plugins/capabilities.js";
 import { normalizePluginsConfig } from "../plugins/config-state.js";
+import { loadPluginManifest } from "../plugins/manifest.js";
 import { normalizeAgentId } from "../routing/session-key.js";
 import {
   formatPermissionDetail,
@@ -431,6 +433,56 @@ export async function collectSandboxBrowserHashLabelFindings(params?: {
   return findings;
 }
 
+function collectPluginCapabilityFindings(params: {
+  extensionsDir: string;
+  pluginDirs: string[];
+}): SecurityAuditFinding[] {
+  const dangerous: string[] = [];
+  const undeclared: string[] = [];
+  for (const dir of params.pluginDirs) {
+    const manifest = loadPluginManifest(path.join(params.extensionsDir, dir));
+    if (!manifest.ok) {
+      continue;
+    }
+    const { id, capabilities } = manifest.manifest;
+    if (!capabilities) {
+      undeclared.push(id);
+      continue;
+    }
+    const held = listDangerousPluginCapabilities(capabilities);
+    if (held.length > 0) {
+      dangerous.push(`${id}: ${held.join(", ")}`);
+    }
+  }
+
+  const findings: SecurityAuditFinding[] = [];
+  if (dangerous.length > 0) {
+    findings.push({
+      checkId: "plugins.dangerous_capabilities",
+      severity: "warn",
+      title: "Enabled extension plugins hold sensitive capabilities",
+      detail:
+        "These plugins may serve HTTP routes, add gateway methods, or rewrite tool calls and messages:\n" +
+        dangerous.map((entry) => `- ${entry}`).join("\n"),
+      remediation:
+        "Review these plugins' sources, keep them pinned, and disable any you do not need (`openclaw plugins disable <id>`).",
+    });
+  }
+  if (undeclared.length > 0) {
+    findings.push({
+      checkId: "plugins.capabilities_undeclared",
+      severity: "warn",
+      title: "Enabled extension plugins do not declare capabilities",
+      detail:
+        "Plugins without a `capabilities` list in openclaw.plugin.json can register anything, including HTTP routes and message hooks:\n" +
+        undeclared.map((entry) => `- ${entry}`).join("\n"),
+      remediation:
+        "Update these plugins to versions that declare capabilities, or remove the ones you do not trust.",
+    });
+  }
+  return findings;
+}
+
 export async function collectPluginsTrustFindings(params: {
   cfg: OpenClawConfig;
   stateDir: string;
@@ -587,6 +639,13 @@ export async function collectPluginsTrustFindings(params: {
             "Use restrictive profiles (`minimal`/`coding`) or explicit tool allowlists that exclude plugin tools for agents handling untrusted input.",
         });
       }
+
+      findings.push(
+        ...collectPluginCapabilityFindings({
+          extensionsDir,
+          pluginDirs: pluginDirs.filter((dir) => enabledPluginSet.has(dir.trim().toLowerCase())),
+        }),
+      );
     }
   }
 
@@ -2523,6 +2523,37 @@ describe("security audit", () => {
     ).toBe(false);
   });
 
+  it("flags enabled extensions by declared capabilities", async () => {
+    const tmp = await makeTmpDir("plugins-capabilities");
+    const stateDir = path.join(tmp, "state");
+    const writeManifest = async (id: string, capabilities?: string[]) => {
+      const dir = path.join(stateDir, "extensions", id);
+      await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+      await fs.writeFile(
+        path.join(dir, "openclaw.plugin.json"),
+        JSON.stringify({ id, configSchema: {}, ...(capabilities ? { capabilities } : {}) }),
+      );
+    };
+    await writeManifest("webhooks", ["http", "on:before_message_write", "tool"]);
+    await writeManifest("legacy");
+    await writeManifest("quiet", ["tool"]);
+
+    const res = await runSecurityAudit({
+      config: { plugins: { allow: ["webhooks", "legacy", "quiet"] } },
+      includeFilesystem: true,
+      includeChannelSecurity: false,
+      stateDir,
+      configPath: path.join(stateDir, "openclaw.json"),
+    });
+
+    const dangerous = res.findings.find((f) => f.checkId === "plugins.dangerous_capabilities");
+    expect(dangerous?.detail).toContain("- webhooks: http, on:before_message_write");
+    expect(dangerous?.detail).not.toContain("quiet");
+    const undeclared = res.findings.find((f) => f.checkId === "plugins.capabilities_undeclared");
+    expect(undeclared?.detail).toContain("- legacy");
+    expect(undeclared?.detail).not.toContain("webhooks");
+  });
+
   it("flags unallowlisted extensions as critical when native skill commands are exposed", async () => {
     const prevDiscordToken = process.env.DISCORD_BOT_TOKEN;
     delete process.env.DISCORD_BOT_TOKEN;
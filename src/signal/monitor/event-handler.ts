@@ -31,6 +31,7 @@ import { danger, logVerbose, shouldLogVerbose } from "../../globals.js";
 import { enqueueSystemEvent } from "../../infra/system-events.js";
 import { mediaKindFromMime } from "../../media/constants.js";
 import { resolveAgentRoute } from "../../routing/resolve-route.js";
+import { resolveAgentRouteWithClassifier } from "../../routing/route-classifier.js";
 import { DM_GROUP_ACCESS_REASON } from "../../security/dm-policy-shared.js";
 import { normalizeE164 } from "../../utils.js";
 import {
@@ -549,7 +550,7 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
       return;
     }
 
-    const route = resolveAgentRoute({
+    const route = await resolveAgentRouteWithClassifier({
       cfg: deps.cfg,
       channel: "signal",
       accountId: deps.accountId,
@@ -557,6 +558,8 @@ export function createSignalEventHandler(deps: SignalEventHandlerDeps) {
         kind: isGroup ? "group" : "direct",
         id: isGroup ? (groupId ?? "unknown") : senderPeerId,
       },
+      text: messageText,
+      senderId: senderPeerId,
     });
     const mentionRegexes = buildMentionRegexes(deps.cfg, route.agentId);
     const wasMentioned = isGroup && matchesMentionPatterns(messageText, mentionRegexes);
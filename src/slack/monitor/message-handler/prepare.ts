@@ -27,7 +27,7 @@ import { recordInboundSession } from "../../../channels/session.js";
 import { readSessionUpdatedAt, resolveStorePath } from "../../../config/sessions.js";
 import { logVerbose, shouldLogVerbose } from "../../../globals.js";
 import { enqueueSystemEvent } from "../../../infra/system-events.js";
-import { resolveAgentRoute } from "../../../routing/resolve-route.js";
+import { resolveAgentRouteWithClassifier } from "../../../routing/route-classifier.js";
 import { resolveThreadSessionKeys } from "../../../routing/session-key.js";
 import type { ResolvedSlackAccount } from "../../accounts.js";
 import { reactSlackMessage } from "../../actions.js";
@@ -163,7 +163,7 @@ export async function prepareSlackMessage(params: {
     }
   }
 
-  const route = resolveAgentRoute({
+  const route = await resolveAgentRouteWithClassifier({
     cfg,
     channel: "slack",
     accountId: account.accountId,
@@ -172,6 +172,8 @@ export async function prepareSlackMessage(params: {
       kind: isDirectMessage ? "direct" : isRoom ? "channel" : "group",
       id: isDirectMessage ? (message.user ?? "unknown") : message.channel,
     },
+    text: message.text,
+    senderId: message.user,
   });
 
   const baseSessionKey = route.sessionKey;
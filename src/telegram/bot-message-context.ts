@@ -33,7 +33,8 @@ import { readSessionUpdatedAt, resolveStorePath } from "../config/sessions.js";
 import type { DmPolicy, TelegramGroupConfig, TelegramTopicConfig } from "../config/types.js";
 import { logVerbose, shouldLogVerbose } from "../globals.js";
 import { recordChannelActivity } from "../infra/channel-activity.js";
-import { resolveAgentRoute } from "../routing/resolve-route.js";
+import { resolveAgentRoute, type ResolveAgentRouteInput } from "../routing/resolve-route.js";
+import { resolveAgentRouteWithClassifier } from "../routing/route-classifier.js";
 import { resolveThreadSessionKeys } from "../routing/session-key.js";
 import { withTelegramApiErrorLogging } from "./api-logging.js";
 import {
@@ -178,7 +179,7 @@ export const buildTelegramMessageContext = async ({
   const peerId = isGroup ? buildTelegramGroupPeerId(chatId, resolvedThreadId) : String(chatId);
   const parentPeer = buildTelegramParentPeer({ isGroup, resolvedThreadId, chatId });
   // Fresh config for bindings lookup; other routing inputs are payload-derived.
-  const route = resolveAgentRoute({
+  const routeInput = {
     cfg: loadConfig(),
     channel: "telegram",
     accountId: account.accountId,
@@ -187,15 +188,18 @@ export const buildTelegramMessageContext = async ({
       id: peerId,
     },
     parentPeer,
-  });
-  const baseSessionKey = route.sessionKey;
+    text: msg.text ?? msg.caption,
+    senderId: msg.from?.id != null ? String(msg.from.id) : undefined,
+  } satisfies ResolveAgentRouteInput;
+  // Intent rules are classified only once the message clears access and mention gating below.
+  let route = resolveAgentRoute(routeInput);
   // DMs: use raw messageThreadId for thread sessions (not forum topic ids)
   const dmThreadId = threadSpec.scope === "dm" ? threadSpec.id : undefined;
-  const threadKeys =
+  const resolveRouteSessionKey = (baseSessionKey: string) =>
     dmThreadId != null
-      ? resolveThreadSessionKeys({ baseSessionKey, threadId: String(dmThreadId) })
-      : null;
-  const sessionKey = threadKeys?.sessionKey ?? baseSessionKey;
+      ? resolveThreadSessionKeys({ baseSessionKey, threadId: String(dmThreadId) }).sessionKey
+      : baseSessionKey;
+  let sessionKey = resolveRouteSessionKey(route.sessionKey);
   const mentionRegexes = buildMentionRegexes(cfg, route.agentId);
   const effectiveDmAllow = normalizeDmAllowFromWithStore({ allowFrom, storeAllowFrom, dmPolicy });
   const groupAllowOverride = firstDefined(topicConfig?.allowFrom, groupConfig?.allowFrom);
@@ -449,6 +453,9 @@ export const buildTelegramMessageContext = async ({
     }
   }
 
+  route = await resolveAgentRouteWithClassifier(routeInput);
+  sessionKey = resolveRouteSessionKey(route.sessionKey);
+
   // ACK reactions
   const ackReaction = resolveAckReaction(cfg, route.agentId, {
     channel: "telegram",
@@ -1,6 +1,7 @@
 import type { OpenClawConfig } from "../config/config.js";
 import { readConfigFileSnapshotForWrite, writeConfigFile } from "../config/config.js";
-import { loadCronStore, resolveCronStorePath, saveCronStore } from "../cron/store.js";
+import { CRON_STORE_LOCK, openCronStoreBackend } from "../cron/store-backend.js";
+import { resolveCronStorePath } from "../cron/store.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import {
   normalizeTelegramChatId,
@@ -169,29 +170,39 @@ export async function maybePersistResolvedTelegramTarget(params: {
   }
 
   try {
-    const storePath = resolveCronStorePath(params.cfg.cron?.store);
-    const store = await loadCronStore(storePath);
-    let cronChanged = false;
-    for (const job of store.jobs) {
-      if (job.delivery?.channel !== "telegram") {
-        continue;
-      }
-      const nextTarget = rewriteTargetIfMatch({
-        rawValue: job.delivery.to,
-        matchKey,
-        resolvedTarget,
+    const backend = openCronStoreBackend({
+      storePath: resolveCronStorePath(params.cfg.cron?.store),
+      backend: params.cfg.cron?.storeBackend,
+    });
+    try {
+      const cronChanged = await backend.withLock(CRON_STORE_LOCK, async () => {
+        const store = await backend.load();
+        let changed = false;
+        for (const job of store.jobs) {
+          if (job.delivery?.channel !== "telegram") {
+            continue;
+          }
+          const nextTarget = rewriteTargetIfMatch({
+            rawValue: job.delivery.to,
+            matchKey,
+            resolvedTarget,
+          });
+          if (!nextTarget) {
+            continue;
+          }
+          job.delivery.to = nextTarget;
+          changed = true;
+        }
+        if (changed) {
+          await backend.save(store);
+        }
+        return changed;
       });
-      if (!nextTarget) {
-        continue;
-      }
-      job.delivery.to = nextTarget;
-      cronChanged = true;
-    }
-    if (cronChanged) {
-      await saveCronStore(storePath, store);
-      if (params.verbose) {
+      if (cronChanged && params.verbose) {
         writebackLogger.warn(`resolved Telegram cron delivery target ${raw} -> ${resolvedTarget}`);
       }
+    } finally {
+      backend.close();
     }
   } catch (err) {
     if (params.verbose) {
@@ -24,6 +24,7 @@ export const createTestRegistry = (channels: TestChannelRegistration[] = []): Pl
   httpRoutes: [],
   cliRegistrars: [],
   services: [],
+  slotProviders: [],
   commands: [],
   diagnostics: [],
 });
@@ -1,4 +1,6 @@
+import { spawn } from "node:child_process";
 import { rmSync } from "node:fs";
+import path from "node:path";
 import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
 import { EdgeTTS } from "node-edge-tts";
 import { getApiKeyForModel, requireApiKey } from "../agents/model-auth.js";
@@ -139,7 +141,12 @@ export function parseTtsDirectives(
             if (!policy.allowProvider) {
               break;
             }
-            if (rawValue === "openai" || rawValue === "elevenlabs" || rawValue === "edge") {
+            if (
+              rawValue === "openai" ||
+              rawValue === "elevenlabs" ||
+              rawValue === "edge" ||
+              rawValue === "local"
+            ) {
               overrides.provider = rawValue;
             } else {
               warnings.push(`unsupported provider "${rawValue}"`);
@@ -671,3 +678,190 @@ export async function edgeTTS(params: {
   });
   await tts.ttsPromise(text, outputPath);
 }
+
+const MAX_COMMAND_STDERR_CHARS = 500;
+// Several minutes of uncompressed speech; a runaway command is killed past this.
+const MAX_COMMAND_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+/** Run a command, feed `input` on stdin, and collect its binary stdout (capped). */
+function runAudioCommand(params: {
+  command: string;
+  args: string[];
+  input?: Buffer;
+  timeoutMs: number;
+}): Promise<Buffer> {
+  const name = path.basename(params.command);
+  return new Promise((resolve, reject) => {
+    const child = spawn(params.command, params.args, { stdio: ["pipe", "pipe", "pipe"] });
+    const chunks: Buffer[] = [];
+    let outputBytes = 0;
+    let stderr = "";
+    let settled = false;
+    const finish = (err?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      if (err) {
+        reject(err);
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    };
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      finish(new Error(`${name} timed out after ${params.timeoutMs}ms`));
+    }, params.timeoutMs);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_COMMAND_OUTPUT_BYTES) {
+        child.kill("SIGKILL");
+        finish(new Error(`${name} output exceeded ${MAX_COMMAND_OUTPUT_BYTES} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString("utf8")).slice(-MAX_COMMAND_STDERR_CHARS);
+    });
+    child.on("error", (err) => finish(err));
+    child.on("close", (code, signal) => {
+      if (code === 0) {
+        finish();
+        return;
+      }
+      const detail = stderr.trim();
+      finish(new Error(`${name} exited with ${code ?? signal}${detail ? `: ${detail}` : ""}`));
+    });
+    // Commands that take the text as an argument may exit without reading stdin.
+    child.stdin.on("error", () => {});
+    child.stdin.end(params.input);
+  });
+}
+
+/** Wrap raw 16-bit little-endian mono PCM in a WAV header. */
+export function wrapPcmAsWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Extract 16-bit mono PCM samples from a WAV buffer. Streaming encoders often
+ * leave the data size unset, so a data chunk runs to the end of the buffer.
+ */
+export function readWavPcm(wav: Buffer): { pcm: Buffer; sampleRate: number } {
+  if (
+    wav.length < 12 ||
+    wav.toString("ascii", 0, 4) !== "RIFF" ||
+    wav.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("output is not a WAV file");
+  }
+  let sampleRate: number | undefined;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString("ascii", offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (chunkId === "fmt ") {
+      const audioFormat = wav.readUInt16LE(body);
+      const channels = wav.readUInt16LE(body + 2);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      if (audioFormat !== 1 || channels !== 1 || bitsPerSample !== 16) {
+        throw new Error("WAV output must be 16-bit mono PCM");
+      }
+      sampleRate = wav.readUInt32LE(body + 4);
+    } else if (chunkId === "data") {
+      if (!sampleRate) {
+        throw new Error("WAV output has no fmt chunk before its data");
+      }
+      const end = Math.min(wav.length, body + chunkSize);
+      return { pcm: wav.subarray(body, end), sampleRate };
+    }
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV output has no data chunk");
+}
+
+/** Synthesize with the configured local command; always returns WAV audio. */
+export async function localCommandTTS(params: {
+  text: string;
+  config: ResolvedTtsConfig["local"];
+  timeoutMs: number;
+}): Promise<Buffer> {
+  const { text, config } = params;
+  if (!config.command) {
+    throw new Error("no command configured");
+  }
+  const textInArgs = config.args.some((arg) => arg.includes("{text}"));
+  // An argument that starts with the text reads as an option when the text
+  // starts with "-", unless it follows a "--" separator.
+  const separator = config.args.indexOf("--");
+  const textAsOption = config.args.some(
+    (arg, index) => arg.startsWith("{text}") && (separator === -1 || index < separator),
+  );
+  if (textAsOption && text.startsWith("-")) {
+    throw new Error(
+      'text starts with "-" and would be read as an option; put "--" before {text} in local.args or drop {text} to use stdin',
+    );
+  }
+  const audio = await runAudioCommand({
+    command: config.command,
+    args: config.args.map((arg) => arg.replaceAll("{text}", text)),
+    input: textInArgs ? undefined : Buffer.from(text, "utf8"),
+    timeoutMs: config.timeoutMs ?? params.timeoutMs,
+  });
+  if (audio.length === 0) {
+    throw new Error("command produced no audio");
+  }
+  return config.outputFormat === "pcm" ? wrapPcmAsWav(audio, config.sampleRate) : audio;
+}
+
+const TRANSCODE_ARGS: Record<"opus" | "mp3", string[]> = {
+  opus: ["-c:a", "libopus", "-b:a", "64k", "-f", "ogg"],
+  mp3: ["-c:a", "libmp3lame", "-b:a", "128k", "-f", "mp3"],
+};
+
+/** Transcode WAV audio to a channel format with ffmpeg (stdin to stdout). */
+export async function transcodeWavAudio(params: {
+  wav: Buffer;
+  format: "opus" | "mp3";
+  ffmpegPath: string;
+  timeoutMs: number;
+}): Promise<Buffer> {
+  const audio = await runAudioCommand({
+    command: params.ffmpegPath,
+    args: [
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-f",
+      "wav",
+      "-i",
+      "pipe:0",
+      ...TRANSCODE_ARGS[params.format],
+      "pipe:1",
+    ],
+    input: params.wav,
+    timeoutMs: params.timeoutMs,
+  });
+  if (audio.length === 0) {
+    throw new Error("ffmpeg produced no audio");
+  }
+  return audio;
+}
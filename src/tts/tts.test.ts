@@ -1,9 +1,10 @@
+import { readFileSync } from "node:fs";
 import { completeSimple, type AssistantMessage } from "@mariozechner/pi-ai";
 import { describe, expect, it, vi, beforeEach } from "vitest";
 import { getApiKeyForModel } from "../agents/model-auth.js";
 import { resolveModel } from "../agents/pi-embedded-runner/model.js";
 import type { OpenClawConfig } from "../config/config.js";
-import { withEnv } from "../test-utils/env.js";
+import { withEnv, withEnvAsync } from "../test-utils/env.js";
 import * as tts from "./tts.js";
 
 vi.mock("@mariozechner/pi-ai", () => ({
@@ -437,6 +438,131 @@ describe("tts", () => {
     });
   });
 
+  describe("local command provider", () => {
+    // Emits two bytes of silence per input character as raw 16-bit PCM.
+    const pcmFromStdin =
+      "let n=0;process.stdin.on('data',(c)=>{n+=c.length});" +
+      "process.stdin.on('end',()=>process.stdout.write(Buffer.alloc(n*2)))";
+    const pcmFromArg = "process.stdout.write(Buffer.alloc(process.argv[1].length*2))";
+    const noKeys = {
+      OPENAI_API_KEY: undefined,
+      ELEVENLABS_API_KEY: undefined,
+      XI_API_KEY: undefined,
+    };
+
+    const localCfg = (
+      local: NonNullable<NonNullable<OpenClawConfig["messages"]>["tts"]>["local"],
+    ) =>
+      ({
+        messages: { tts: { provider: "local", edge: { enabled: false }, local } },
+      }) as OpenClawConfig;
+
+    it("is preferred over edge once a command is configured", () => {
+      withEnv(noKeys, () => {
+        const config = resolveTtsConfig({ messages: { tts: { local: { command: "piper" } } } });
+        expect(getTtsProvider(config, "/tmp/tts-prefs-local.json")).toBe("local");
+        expect(tts.isTtsProviderConfigured(config, "local")).toBe(true);
+        expect(tts.resolveTtsProviderOrder("openai")).toContain("local");
+      });
+    });
+
+    it("falls back to WAV when ffmpeg is unavailable", async () => {
+      const result = await tts.textToSpeech({
+        text: "hello",
+        cfg: localCfg({
+          command: process.execPath,
+          args: ["-e", pcmFromStdin],
+          outputFormat: "pcm",
+          ffmpegPath: "/nonexistent/ffmpeg",
+        }),
+        prefsPath: "/tmp/tts-prefs-local.json",
+        channel: "telegram",
+      });
+
+      expect(result).toMatchObject({
+        success: true,
+        provider: "local",
+        outputFormat: "wav",
+        voiceCompatible: false,
+      });
+      const audio = readFileSync(result.audioPath!);
+      expect(audio.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(audio.length).toBe(44 + "hello".length * 2);
+    });
+
+    it("returns raw PCM with the command's sample rate for telephony", async () => {
+      const result = await tts.textToSpeechTelephony({
+        text: "hi there",
+        cfg: localCfg({
+          command: process.execPath,
+          args: ["-e", pcmFromArg, "--", "{text}"],
+          outputFormat: "pcm",
+          sampleRate: 16000,
+        }),
+        prefsPath: "/tmp/tts-prefs-local.json",
+      });
+
+      expect(result).toMatchObject({ success: true, provider: "local", sampleRate: 16000 });
+      expect(result.audioBuffer?.length).toBe("hi there".length * 2);
+    });
+
+    it("refuses to pass text starting with a dash as an option", async () => {
+      await withEnvAsync(noKeys, async () => {
+        const unsafe = await tts.textToSpeechTelephony({
+          text: "-v is the flag",
+          cfg: localCfg({ command: process.execPath, args: ["-e", pcmFromArg, "{text}"] }),
+          prefsPath: "/tmp/tts-prefs-local.json",
+        });
+        expect(unsafe.success).toBe(false);
+        expect(unsafe.error).toContain('put "--" before {text}');
+
+        const separated = await tts.textToSpeechTelephony({
+          text: "-v is the flag",
+          cfg: localCfg({
+            command: process.execPath,
+            args: ["-e", pcmFromArg, "--", "{text}"],
+            outputFormat: "pcm",
+          }),
+          prefsPath: "/tmp/tts-prefs-local.json",
+        });
+        expect(separated.audioBuffer?.length).toBe("-v is the flag".length * 2);
+      });
+    });
+
+    it("reports command failures", async () => {
+      await withEnvAsync(noKeys, async () => {
+        const result = await tts.textToSpeech({
+          text: "hello",
+          cfg: localCfg({
+            command: process.execPath,
+            args: ["-e", "process.stderr.write('model missing');process.exit(3)"],
+          }),
+          prefsPath: "/tmp/tts-prefs-local.json",
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("exited with 3: model missing");
+        expect(result.error).toContain("edge: disabled");
+      });
+    });
+
+    it("kills commands whose output exceeds the audio cap", async () => {
+      await withEnvAsync(noKeys, async () => {
+        const result = await tts.textToSpeech({
+          text: "hello",
+          cfg: localCfg({
+            command: process.execPath,
+            args: ["-e", "const b=Buffer.alloc(1<<20);const w=()=>process.stdout.write(b,w);w()"],
+          }),
+          prefsPath: "/tmp/tts-prefs-local.json",
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("output exceeded");
+      });
+    });
+  });
+
   describe("maybeApplyTtsToPayload", () => {
     const baseCfg: OpenClawConfig = {
       agents: { defaults: { model: { primary: "openai/gpt-4o-mini" } } },
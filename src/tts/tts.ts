@@ -22,9 +22,11 @@ import type {
   TtsModelOverrideConfig,
 } from "../config/types.tts.js";
 import { logVerbose } from "../globals.js";
+import { formatErrorMessage } from "../infra/errors.js";
 import { resolvePreferredOpenClawTmpDir } from "../infra/tmp-openclaw-dir.js";
 import { stripMarkdown } from "../line/markdown-to-line.js";
 import { isVoiceCompatibleAudio } from "../media/audio.js";
+import { getSlotTtsProvider } from "../plugins/slot-providers.js";
 import { CONFIG_DIR, resolveUserPath } from "../utils.js";
 import {
   edgeTTS,
@@ -33,12 +35,15 @@ import {
   isValidOpenAIModel,
   isValidOpenAIVoice,
   isValidVoiceId,
+  localCommandTTS,
   OPENAI_TTS_MODELS,
   OPENAI_TTS_VOICES,
   openaiTTS,
   parseTtsDirectives,
+  readWavPcm,
   scheduleCleanup,
   summarizeText,
+  transcodeWavAudio,
 } from "./tts-core.js";
 export { OPENAI_TTS_MODELS, OPENAI_TTS_VOICES } from "./tts-core.js";
 
@@ -55,6 +60,8 @@ const DEFAULT_OPENAI_VOICE = "alloy";
 const DEFAULT_EDGE_VOICE = "en-US-MichelleNeural";
 const DEFAULT_EDGE_LANG = "en-US";
 const DEFAULT_EDGE_OUTPUT_FORMAT = "audio-24khz-48kbitrate-mono-mp3";
+const DEFAULT_LOCAL_SAMPLE_RATE = 22050;
+const DEFAULT_FFMPEG_PATH = "ffmpeg";
 
 const DEFAULT_ELEVENLABS_VOICE_SETTINGS = {
   stability: 0.5,
@@ -69,6 +76,7 @@ const TELEGRAM_OUTPUT = {
   // ElevenLabs output formats use codec_sample_rate_bitrate naming.
   // Opus @ 48kHz/64kbps is a good voice-note tradeoff for Telegram.
   elevenlabs: "opus_48000_64",
+  local: "opus" as const,
   extension: ".opus",
   voiceCompatible: true,
 };
@@ -76,6 +84,7 @@ const TELEGRAM_OUTPUT = {
 const DEFAULT_OUTPUT = {
   openai: "mp3" as const,
   elevenlabs: "mp3_44100_128",
+  local: "mp3" as const,
   extension: ".mp3",
   voiceCompatible: false,
 };
@@ -128,6 +137,14 @@ export type ResolvedTtsConfig = {
     proxy?: string;
     timeoutMs?: number;
   };
+  local: {
+    command?: string;
+    args: string[];
+    outputFormat: "wav" | "pcm";
+    sampleRate: number;
+    ffmpegPath: string;
+    timeoutMs?: number;
+  };
   prefsPath?: string;
   maxTextLength: number;
   timeoutMs: number;
@@ -303,6 +320,14 @@ export function resolveTtsConfig(cfg: OpenClawConfig): ResolvedTtsConfig {
       proxy: raw.edge?.proxy?.trim() || undefined,
       timeoutMs: raw.edge?.timeoutMs,
     },
+    local: {
+      command: raw.local?.command?.trim() || undefined,
+      args: raw.local?.args ?? [],
+      outputFormat: raw.local?.outputFormat ?? "wav",
+      sampleRate: raw.local?.sampleRate ?? DEFAULT_LOCAL_SAMPLE_RATE,
+      ffmpegPath: raw.local?.ffmpegPath?.trim() || DEFAULT_FFMPEG_PATH,
+      timeoutMs: raw.local?.timeoutMs,
+    },
     prefsPath: raw.prefsPath,
     maxTextLength: raw.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH,
     timeoutMs: raw.timeoutMs ?? DEFAULT_TIMEOUT_MS,
@@ -441,6 +466,10 @@ export function getTtsProvider(config: ResolvedTtsConfig, prefsPath: string): Tt
   if (resolveTtsApiKey(config, "elevenlabs")) {
     return "elevenlabs";
   }
+  // A configured local command is an explicit offline choice; prefer it over Edge.
+  if (config.local.command) {
+    return "local";
+  }
   return "edge";
 }
 
@@ -511,7 +540,7 @@ export function resolveTtsApiKey(
   return undefined;
 }
 
-export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge"] as const;
+export const TTS_PROVIDERS = ["openai", "elevenlabs", "edge", "local"] as const;
 
 export function resolveTtsProviderOrder(primary: TtsProvider): TtsProvider[] {
   return [primary, ...TTS_PROVIDERS.filter((provider) => provider !== primary)];
@@ -521,10 +550,13 @@ export function isTtsProviderConfigured(config: ResolvedTtsConfig, provider: Tts
   if (provider === "edge") {
     return config.edge.enabled;
   }
+  if (provider === "local") {
+    return Boolean(config.local.command);
+  }
   return Boolean(resolveTtsApiKey(config, provider));
 }
 
-function formatTtsProviderError(provider: TtsProvider, err: unknown): string {
+function formatTtsProviderError(provider: string, err: unknown): string {
   const error = err instanceof Error ? err : new Error(String(err));
   if (error.name === "AbortError") {
     return `${provider}: request timed out`;
@@ -558,6 +590,38 @@ export async function textToSpeech(params: {
 
   const errors: string[] = [];
 
+  // A plugin holding the tts slot goes first; the built-ins stay as fallback.
+  const slotProvider = getSlotTtsProvider();
+  if (slotProvider) {
+    const providerStart = Date.now();
+    try {
+      const synthesized = await slotProvider.synthesize({
+        text: params.text,
+        config: params.cfg,
+        channel: channelId ?? undefined,
+        preferVoice: output.voiceCompatible,
+        timeoutMs: config.timeoutMs,
+      });
+      const tempRoot = resolvePreferredOpenClawTmpDir();
+      mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+      const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+      const audioPath = path.join(tempDir, `voice-${Date.now()}${synthesized.extension}`);
+      writeFileSync(audioPath, synthesized.audio);
+      scheduleCleanup(tempDir);
+      return {
+        success: true,
+        audioPath,
+        latencyMs: Date.now() - providerStart,
+        provider: slotProvider.id,
+        outputFormat: synthesized.outputFormat,
+        voiceCompatible:
+          synthesized.voiceCompatible ?? isVoiceCompatibleAudio({ fileName: audioPath }),
+      };
+    } catch (err) {
+      errors.push(formatTtsProviderError(slotProvider.id, err));
+    }
+  }
+
   for (const provider of providers) {
     const providerStart = Date.now();
     try {
@@ -631,6 +695,54 @@ export async function textToSpeech(params: {
         };
       }
 
+      if (provider === "local") {
+        if (!config.local.command) {
+          errors.push("local: no command configured");
+          continue;
+        }
+
+        const wav = await localCommandTTS({
+          text: params.text,
+          config: config.local,
+          timeoutMs: config.timeoutMs,
+        });
+        let audioBuffer = wav;
+        let extension = ".wav";
+        let outputFormat = "wav";
+        let voiceCompatible = false;
+        try {
+          audioBuffer = await transcodeWavAudio({
+            wav,
+            format: output.local,
+            ffmpegPath: config.local.ffmpegPath,
+            timeoutMs: config.timeoutMs,
+          });
+          extension = output.extension;
+          outputFormat = output.local;
+          voiceCompatible = output.voiceCompatible;
+        } catch (err) {
+          logVerbose(
+            `TTS: local ${output.local} transcode failed; sending WAV. ${formatErrorMessage(err)}`,
+          );
+        }
+
+        const tempRoot = resolvePreferredOpenClawTmpDir();
+        mkdirSync(tempRoot, { recursive: true, mode: 0o700 });
+        const tempDir = mkdtempSync(path.join(tempRoot, "tts-"));
+        const audioPath = path.join(tempDir, `voice-${Date.now()}${extension}`);
+        writeFileSync(audioPath, audioBuffer);
+        scheduleCleanup(tempDir);
+
+        return {
+          success: true,
+          audioPath,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat,
+          voiceCompatible,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
@@ -730,6 +842,28 @@ export async function textToSpeechTelephony(params: {
         continue;
       }
 
+      if (provider === "local") {
+        if (!config.local.command) {
+          errors.push("local: no command configured");
+          continue;
+        }
+        const { pcm, sampleRate } = readWavPcm(
+          await localCommandTTS({
+            text: params.text,
+            config: config.local,
+            timeoutMs: config.timeoutMs,
+          }),
+        );
+        return {
+          success: true,
+          audioBuffer: pcm,
+          latencyMs: Date.now() - providerStart,
+          provider,
+          outputFormat: "pcm",
+          sampleRate,
+        };
+      }
+
       const apiKey = resolveTtsApiKey(config, provider);
       if (!apiKey) {
         errors.push(`${provider}: no API key`);
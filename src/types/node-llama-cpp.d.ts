@@ -9,8 +9,13 @@ declare module "node-llama-cpp" {
     getEmbeddingFor: (text: string) => Promise<LlamaEmbedding>;
   };
 
+  export type LlamaRankingContext = {
+    rankAll: (query: string, documents: string[]) => Promise<number[]>;
+  };
+
   export type LlamaModel = {
     createEmbeddingContext: () => Promise<LlamaEmbeddingContext>;
+    createRankingContext: () => Promise<LlamaRankingContext>;
   };
 
   export type Llama = {
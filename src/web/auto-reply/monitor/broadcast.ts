@@ -1,4 +1,5 @@
 import type { loadConfig } from "../../../config/config.js";
+import { resolveIdentityLinks } from "../../../pairing/identity-links.js";
 import type { resolveAgentRoute } from "../../../routing/resolve-route.js";
 import { buildAgentSessionKey } from "../../../routing/resolve-route.js";
 import {
@@ -64,7 +65,7 @@ export async function maybeBroadcastMessage(params: {
           id: params.peerId,
         },
         dmScope: params.cfg.session?.dmScope,
-        identityLinks: params.cfg.session?.identityLinks,
+        identityLinks: resolveIdentityLinks(params.cfg),
       }),
       mainSessionKey: buildAgentMainSessionKey({
         agentId: normalizedAgentId,
@@ -2,7 +2,8 @@ import type { getReplyFromConfig } from "../../../auto-reply/reply.js";
 import type { MsgContext } from "../../../auto-reply/templating.js";
 import { loadConfig } from "../../../config/config.js";
 import { logVerbose } from "../../../globals.js";
-import { resolveAgentRoute } from "../../../routing/resolve-route.js";
+import type { resolveAgentRoute } from "../../../routing/resolve-route.js";
+import { resolveAgentRouteWithClassifier } from "../../../routing/route-classifier.js";
 import { buildGroupHistoryKey } from "../../../routing/session-key.js";
 import { normalizeE164 } from "../../../utils.js";
 import type { MentionConfig } from "../mentions.js";
@@ -64,7 +65,7 @@ export function createWebOnMessageHandler(params: {
     const conversationId = msg.conversationId ?? msg.from;
     const peerId = resolvePeerId(msg);
     // Fresh config for bindings lookup; other routing inputs are payload-derived.
-    const route = resolveAgentRoute({
+    const route = await resolveAgentRouteWithClassifier({
       cfg: loadConfig(),
       channel: "whatsapp",
       accountId: msg.accountId,
@@ -72,6 +73,8 @@ export function createWebOnMessageHandler(params: {
         kind: msg.chatType === "group" ? "group" : "direct",
         id: peerId,
       },
+      text: msg.body,
+      senderId: msg.senderE164 ?? msg.senderJid,
     });
     const groupHistoryKey =
       msg.chatType === "group"
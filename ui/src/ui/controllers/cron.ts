@@ -381,7 +381,8 @@ function jobToForm(job: CronJob, prev: CronFormState): CronFormState {
     clearAgent: false,
     enabled: job.enabled,
     deleteAfterRun: job.deleteAfterRun ?? false,
-    scheduleKind: job.schedule.kind,
+    // Dependency (`after`) schedules are not editable in the form yet.
+    scheduleKind: job.schedule.kind === "after" ? prev.scheduleKind : job.schedule.kind,
     scheduleAt: "",
     everyAmount: prev.everyAmount,
     everyUnit: prev.everyUnit,
@@ -412,7 +413,7 @@ function jobToForm(job: CronJob, prev: CronFormState): CronFormState {
     const parsed = parseEverySchedule(job.schedule.everyMs);
     next.everyAmount = parsed.everyAmount;
     next.everyUnit = parsed.everyUnit;
-  } else {
+  } else if (job.schedule.kind === "cron") {
     next.cronExpr = job.schedule.expr;
     next.cronTz = job.schedule.tz ?? "";
     const staggerFields = parseStaggerSchedule(job.schedule.staggerMs);
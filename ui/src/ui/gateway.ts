@@ -57,7 +57,7 @@ export type GatewayHelloOk = {
     version?: string;
     connId?: string;
   };
-  features?: { methods?: string[]; events?: string[] };
+  features?: { methods?: string[]; events?: string[]; batch?: { maxCalls?: number } };
   snapshot?: unknown;
   auth?: {
     deviceToken?: string;
@@ -73,6 +73,8 @@ type Pending = {
   reject: (err: unknown) => void;
 };
 
+type QueuedCall = { id: string; method: string; params?: unknown };
+
 export type GatewayBrowserClientOptions = {
   url: string;
   token?: string;
@@ -101,6 +103,11 @@ export class GatewayBrowserClient {
   private connectTimer: number | null = null;
   private backoffMs = 800;
   private pendingConnectError: GatewayErrorInfo | undefined;
+  // Requests issued in the same tick are sent as one `batch` frame once the
+  // gateway advertises support (hello-ok `features.batch`). The gateway streams
+  // each call's `res` frame as it finishes, so slow calls do not hold others.
+  private batchMaxCalls = 0;
+  private queuedCalls: QueuedCall[] = [];
 
   constructor(private opts: GatewayBrowserClientOptions) {}
 
@@ -133,6 +140,8 @@ export class GatewayBrowserClient {
       const connectError = this.pendingConnectError;
       this.pendingConnectError = undefined;
       this.ws = null;
+      this.batchMaxCalls = 0;
+      this.queuedCalls = [];
       this.flushPending(new Error(`gateway closed (${ev.code}): ${reason}`));
       this.opts.onClose?.({ code: ev.code, reason, error: connectError });
       this.scheduleReconnect();
@@ -258,6 +267,7 @@ export class GatewayBrowserClient {
           });
         }
         this.backoffMs = 800;
+        this.batchMaxCalls = hello?.features?.batch?.maxCalls ?? 0;
         this.opts.onHello?.(hello);
       })
       .catch((err: unknown) => {
@@ -313,25 +323,40 @@ export class GatewayBrowserClient {
     }
 
     if (frame.type === "res") {
-      const res = parsed as GatewayResponseFrame;
-      const pending = this.pending.get(res.id);
-      if (!pending) {
-        return;
-      }
-      this.pending.delete(res.id);
-      if (res.ok) {
-        pending.resolve(res.payload);
-      } else {
-        pending.reject(
-          new GatewayRequestError({
-            code: res.error?.code ?? "UNAVAILABLE",
-            message: res.error?.message ?? "request failed",
-            details: res.error?.details,
-          }),
-        );
+      this.settleResponse(parsed as GatewayResponseFrame);
+      return;
+    }
+
+    // Batched calls answer with their own `res` frames as they finish; the
+    // closing `batch-res` only matters for calls rejected without one.
+    if (frame.type === "batch-res") {
+      const results = (parsed as { results?: unknown }).results;
+      for (const result of Array.isArray(results) ? results : []) {
+        const res = result as GatewayResponseFrame;
+        if (!res.ok) {
+          this.settleResponse(res);
+        }
       }
+    }
+  }
+
+  private settleResponse(res: GatewayResponseFrame) {
+    const pending = this.pending.get(res.id);
+    if (!pending) {
       return;
     }
+    this.pending.delete(res.id);
+    if (res.ok) {
+      pending.resolve(res.payload);
+    } else {
+      pending.reject(
+        new GatewayRequestError({
+          code: res.error?.code ?? "UNAVAILABLE",
+          message: res.error?.message ?? "request failed",
+          details: res.error?.details,
+        }),
+      );
+    }
   }
 
   request<T = unknown>(method: string, params?: unknown): Promise<T> {
@@ -339,14 +364,36 @@ export class GatewayBrowserClient {
       return Promise.reject(new Error("gateway not connected"));
     }
     const id = generateUUID();
-    const frame = { type: "req", id, method, params };
     const p = new Promise<T>((resolve, reject) => {
       this.pending.set(id, { resolve: (v) => resolve(v as T), reject });
     });
-    this.ws.send(JSON.stringify(frame));
+    if (this.batchMaxCalls > 0) {
+      if (this.queuedCalls.length === 0) {
+        queueMicrotask(() => this.flushQueuedCalls());
+      }
+      this.queuedCalls.push({ id, method, params });
+      return p;
+    }
+    this.ws.send(JSON.stringify({ type: "req", id, method, params }));
     return p;
   }
 
+  private flushQueuedCalls() {
+    const calls = this.queuedCalls;
+    this.queuedCalls = [];
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (calls.length === 1) {
+      this.ws.send(JSON.stringify({ type: "req", ...calls[0] }));
+      return;
+    }
+    for (let start = 0; start < calls.length; start += this.batchMaxCalls) {
+      const chunk = calls.slice(start, start + this.batchMaxCalls);
+      this.ws.send(JSON.stringify({ type: "batch", id: generateUUID(), calls: chunk }));
+    }
+  }
+
   private queueConnect() {
     this.connectNonce = null;
     this.connectSent = false;
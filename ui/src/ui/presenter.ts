@@ -60,6 +60,9 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "after") {
+    return `After ${s.jobId}${s.onStatus?.length ? ` (${s.onStatus.join(", ")})` : ""}`;
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
@@ -469,7 +469,8 @@ export type {
 export type CronSchedule =
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number };
+  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number }
+  | { kind: "after"; jobId: string; onStatus?: Array<"ok" | "error" | "skipped"> };
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -498,6 +499,8 @@ export type CronJobState = {
   lastStatus?: "ok" | "error" | "skipped";
   lastError?: string;
   lastDurationMs?: number;
+  deferredReason?: string;
+  deferredFromMs?: number;
 };
 
 export type CronJob = {
@@ -544,6 +547,10 @@ export type CronRunLogEntry = {
   delivered?: boolean;
   runAtMs?: number;
   nextRunAtMs?: number;
+  attempt?: number;
+  maxAttempts?: number;
+  retryAtMs?: number;
+  retryExhausted?: boolean;
   model?: string;
   provider?: string;
   usage?: {
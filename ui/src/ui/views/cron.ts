@@ -1364,6 +1364,7 @@ function renderJobState(job: CronJob) {
           : "cron-job-status-na";
   const nextRunAtMs = job.state?.nextRunAtMs;
   const lastRunAtMs = job.state?.lastRunAtMs;
+  const deferredReason = job.state?.deferredReason;
 
   return html`
     <div class="cron-job-state">
@@ -1377,6 +1378,16 @@ function renderJobState(job: CronJob) {
           ${formatStateRelative(nextRunAtMs)}
         </span>
       </div>
+      ${
+        deferredReason
+          ? html`<div class="cron-job-state-row">
+              <span class="cron-job-state-key">Deferred</span>
+              <span class="cron-job-state-value" title=${formatMs(job.state?.deferredFromMs)}>
+                ${deferredReason}
+              </span>
+            </div>`
+          : nothing
+      }
       <div class="cron-job-state-row">
         <span class="cron-job-state-key">Last</span>
         <span class="cron-job-state-value" title=${formatMs(lastRunAtMs)}>
@@ -1411,6 +1422,18 @@ function renderRun(entry: CronRunLogEntry, basePath: string) {
         <div class="list-sub cron-run-entry__summary">${entry.summary ?? entry.error ?? "No summary."}</div>
         <div class="chip-row" style="margin-top: 6px;">
           <span class="chip">${delivery}</span>
+          ${
+            typeof entry.attempt === "number" && typeof entry.maxAttempts === "number"
+              ? html`<span class="chip">attempt ${entry.attempt}/${entry.maxAttempts}</span>`
+              : nothing
+          }
+          ${
+            entry.retryExhausted
+              ? html`
+                  <span class="chip">retries exhausted</span>
+                `
+              : nothing
+          }
           ${entry.model ? html`<span class="chip">${entry.model}</span>` : nothing}
           ${entry.provider ? html`<span class="chip">${entry.provider}</span>` : nothing}
           ${usageSummary ? html`<span class="chip">${usageSummary}</span>` : nothing}
@@ -1421,9 +1444,11 @@ function renderRun(entry: CronRunLogEntry, basePath: string) {
         ${typeof entry.runAtMs === "number" ? html`<div class="muted">Run at ${formatMs(entry.runAtMs)}</div>` : nothing}
         <div class="muted">${entry.durationMs ?? 0}ms</div>
         ${
-          typeof entry.nextRunAtMs === "number"
-            ? html`<div class="muted">${formatRunNextLabel(entry.nextRunAtMs)}</div>`
-            : nothing
+          typeof entry.retryAtMs === "number"
+            ? html`<div class="muted">Retry at ${formatMs(entry.retryAtMs)}</div>`
+            : typeof entry.nextRunAtMs === "number"
+              ? html`<div class="muted">${formatRunNextLabel(entry.nextRunAtMs)}</div>`
+              : nothing
         }
         ${
           chatUrl